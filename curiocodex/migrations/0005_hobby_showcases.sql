@@ -0,0 +1,8 @@
+-- Public hobby showcases
+-- A hobby with a share_slug is published as a read-only showcase at /s/{slug}
+
+ALTER TABLE hobbies ADD COLUMN share_slug TEXT;
+ALTER TABLE hobbies ADD COLUMN shared_at INTEGER;
+
+-- Slugs must be unique so each one resolves to exactly one hobby
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hobbies_share_slug ON hobbies(share_slug) WHERE share_slug IS NOT NULL;
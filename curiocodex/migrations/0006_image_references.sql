@@ -0,0 +1,6 @@
+-- Store item images as stable R2 key references instead of public URLs
+-- The worker turns each reference into a signed, expiring /api/images URL on read
+
+UPDATE items
+SET image_url = SUBSTR(image_url, LENGTH('/api/images/') + 1)
+WHERE image_url LIKE '/api/images/%';
@@ -0,0 +1,26 @@
+-- Multiple photos per item
+-- Each row is one R2 object; position orders the gallery and exactly one
+-- photo per item is flagged primary. items.image_url mirrors the primary
+-- photo so list, search and showcase queries keep working unchanged.
+
+CREATE TABLE IF NOT EXISTS item_images (
+  id TEXT PRIMARY KEY,
+  item_id TEXT NOT NULL,
+  image_key TEXT NOT NULL,
+  content_type TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_primary INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_images_item_position ON item_images(item_id, position);
+
+-- At most one primary photo per item
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_images_primary ON item_images(item_id) WHERE is_primary = 1;
+
+-- Carry existing single photos over as each item's primary image
+INSERT INTO item_images (id, item_id, image_key, position, is_primary, created_at)
+SELECT lower(hex(randomblob(16))), id, image_url, 0, 1, created_at
+FROM items
+WHERE image_url IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Email verification
+-- Records when a user confirmed their email address. NULL means the address
+-- has not been verified yet (including every account created before this).
+
+ALTER TABLE users ADD COLUMN email_verified_at INTEGER;
@@ -0,0 +1,23 @@
+-- Per-hobby custom item fields
+-- A hobby can define typed fields (text, number, date, enum, boolean) that
+-- its items fill in. Item values are stored as a JSON object on
+-- items.custom_fields, keyed by field_key.
+
+CREATE TABLE IF NOT EXISTS hobby_item_fields (
+  id TEXT PRIMARY KEY,
+  hobby_id TEXT NOT NULL,
+  field_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'enum', 'boolean')),
+  -- JSON array of allowed values for enum fields
+  options TEXT,
+  required INTEGER NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (hobby_id) REFERENCES hobbies(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hobby_item_fields_hobby_key
+  ON hobby_item_fields(hobby_id, field_key);
+
+ALTER TABLE items ADD COLUMN custom_fields TEXT;
@@ -0,0 +1,22 @@
+-- Item valuation
+-- Purchase details and an estimated current value for insurance reports.
+-- Amounts are stored in minor units (cents) to avoid floating point drift
+-- when collection totals are summed.
+
+ALTER TABLE items ADD COLUMN purchase_price_cents INTEGER;
+ALTER TABLE items ADD COLUMN purchase_date TEXT;
+ALTER TABLE items ADD COLUMN currency TEXT;
+ALTER TABLE items ADD COLUMN estimated_value_cents INTEGER;
+
+-- One row each time an item's value changes. The value is the estimate when
+-- one is set, otherwise the purchase price; NULL when both were cleared.
+CREATE TABLE IF NOT EXISTS item_value_history (
+  id TEXT PRIMARY KEY,
+  item_id TEXT NOT NULL,
+  value_cents INTEGER,
+  currency TEXT NOT NULL,
+  recorded_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_value_history_item ON item_value_history(item_id, recorded_at);
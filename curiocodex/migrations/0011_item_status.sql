@@ -0,0 +1,25 @@
+-- Item ownership status
+-- Items were implicitly owned; they can now also be wished for, on order,
+-- or gone from the collection (sold, traded, lost). Every status change is
+-- recorded in item_status_history.
+
+ALTER TABLE items ADD COLUMN status TEXT NOT NULL DEFAULT 'owned'
+  CHECK (status IN ('owned', 'wishlist', 'ordered', 'sold', 'traded', 'lost'));
+
+CREATE INDEX IF NOT EXISTS idx_items_hobby_status ON items(hobby_id, status);
+
+CREATE TABLE IF NOT EXISTS item_status_history (
+  id TEXT PRIMARY KEY,
+  item_id TEXT NOT NULL,
+  -- NULL for the status an item was created with
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_status_history_item ON item_status_history(item_id, changed_at);
+
+-- Existing items start their history as owned, from when they were added
+INSERT INTO item_status_history (id, item_id, from_status, to_status, changed_at)
+SELECT lower(hex(randomblob(16))), id, NULL, 'owned', created_at FROM items;
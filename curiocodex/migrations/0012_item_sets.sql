@@ -0,0 +1,32 @@
+-- Sets and completion tracking
+-- A set is a named checklist of expected members within a hobby (a trading
+-- card series, a LEGO theme, every book by an author). Each expected member
+-- is a slot that can be filled by linking one of the hobby's items.
+
+CREATE TABLE IF NOT EXISTS item_sets (
+  id TEXT PRIMARY KEY,
+  hobby_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER,
+  FOREIGN KEY (hobby_id) REFERENCES hobbies(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_sets_hobby ON item_sets(hobby_id, name);
+
+CREATE TABLE IF NOT EXISTS item_set_slots (
+  id TEXT PRIMARY KEY,
+  set_id TEXT NOT NULL,
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  -- The item filling this slot, if any
+  item_id TEXT,
+  FOREIGN KEY (set_id) REFERENCES item_sets(id) ON DELETE CASCADE,
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_set_slots_set ON item_set_slots(set_id, position);
+
+-- An item fills at most one slot per set
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_set_slots_item ON item_set_slots(set_id, item_id);
@@ -0,0 +1,22 @@
+-- Physical storage locations
+-- Each user keeps a tree of places where items live (room → shelf → box).
+-- Items point at the innermost location holding them.
+
+CREATE TABLE IF NOT EXISTS storage_locations (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  -- NULL for top-level locations such as rooms
+  parent_id TEXT,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'other' CHECK (kind IN ('room', 'shelf', 'box', 'other')),
+  notes TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (parent_id) REFERENCES storage_locations(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_locations_user_parent ON storage_locations(user_id, parent_id);
+
+ALTER TABLE items ADD COLUMN location_id TEXT REFERENCES storage_locations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_items_location ON items(location_id);
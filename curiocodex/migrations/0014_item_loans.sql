@@ -0,0 +1,26 @@
+-- Item loans
+-- Records items lent out to other people: who has them, when they went out,
+-- when they are due back and when they were returned. A loan is open until
+-- it has a returned_date.
+
+CREATE TABLE IF NOT EXISTS item_loans (
+  id TEXT PRIMARY KEY,
+  item_id TEXT NOT NULL,
+  borrower_name TEXT NOT NULL,
+  -- Free-form email address, phone number or similar
+  borrower_contact TEXT,
+  -- Dates are YYYY-MM-DD
+  lent_date TEXT NOT NULL,
+  due_date TEXT,
+  returned_date TEXT,
+  notes TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  -- When the loan was closed, for the activity feed
+  closed_at INTEGER,
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_loans_item ON item_loans(item_id, created_at);
+
+-- An item can only be out on one loan at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_item_loans_open ON item_loans(item_id) WHERE returned_date IS NULL;
@@ -0,0 +1,86 @@
+-- Activity log
+-- An append-only record of everything that changes in a user's codex:
+-- hobbies and items being created, edited, moved and deleted, photos, values,
+-- statuses, loans, sets and storage locations. Hobby and item names are copied
+-- into each event so the feed still reads well after they are renamed or
+-- deleted, which is also why there are no foreign keys to them.
+
+CREATE TABLE IF NOT EXISTS activity_events (
+  -- Increases with every event, so it doubles as the feed order and cursor
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  hobby_id TEXT,
+  hobby_name TEXT,
+  item_id TEXT,
+  item_name TEXT,
+  -- JSON object with type-specific details (changed fields, old and new values, ...)
+  details TEXT NOT NULL DEFAULT '{}',
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- The feed is read newest first, optionally narrowed by type or hobby
+CREATE INDEX IF NOT EXISTS idx_activity_events_user ON activity_events(user_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_user_type ON activity_events(user_id, type, id DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_user_hobby ON activity_events(user_id, hobby_id, id DESC);
+
+-- Backfill the events the old feed derived from existing rows, oldest first
+INSERT INTO activity_events (user_id, type, hobby_id, hobby_name, item_id, item_name, details, created_at)
+SELECT user_id, type, hobby_id, hobby_name, item_id, item_name, details, created_at
+FROM (
+  SELECT user_id, 'hobby_created' AS type, id AS hobby_id, name AS hobby_name, NULL AS item_id, NULL AS item_name,
+    json_object('description', description, 'category', category, 'tags', json(COALESCE(tags, '[]'))) AS details,
+    created_at
+  FROM hobbies
+
+  UNION ALL
+
+  SELECT h.user_id, 'item_created', h.id, h.name, i.id, i.name,
+    json_object('description', i.description, 'category', i.category, 'tags', json(COALESCE(i.tags, '[]'))),
+    i.created_at
+  FROM items i
+  INNER JOIN hobbies h ON i.hobby_id = h.id
+
+  UNION ALL
+
+  SELECT h.user_id, 'item_value_changed', h.id, h.name, i.id, i.name,
+    json_object(
+      'previous_value',
+      CASE WHEN v.position = 1 OR v.previous_cents IS NULL THEN json('null')
+        ELSE json_object('amount', v.previous_cents / 100.0, 'currency', v.previous_currency) END,
+      'value', json_object('amount', v.value_cents / 100.0, 'currency', v.currency)
+    ),
+    v.recorded_at
+  FROM (
+    SELECT item_id, value_cents, currency, recorded_at,
+      ROW_NUMBER() OVER (PARTITION BY item_id ORDER BY recorded_at, rowid) AS position,
+      LAG(value_cents) OVER (PARTITION BY item_id ORDER BY recorded_at, rowid) AS previous_cents,
+      LAG(currency) OVER (PARTITION BY item_id ORDER BY recorded_at, rowid) AS previous_currency
+    FROM item_value_history
+  ) v
+  INNER JOIN items i ON v.item_id = i.id
+  INNER JOIN hobbies h ON i.hobby_id = h.id
+
+  UNION ALL
+
+  SELECT h.user_id, 'item_lent', h.id, h.name, i.id, i.name,
+    json_object('loan', json_object('id', l.id, 'borrower_name', l.borrower_name, 'lent_date', l.lent_date,
+      'due_date', l.due_date, 'returned_date', NULL)),
+    l.created_at
+  FROM item_loans l
+  INNER JOIN items i ON l.item_id = i.id
+  INNER JOIN hobbies h ON i.hobby_id = h.id
+
+  UNION ALL
+
+  SELECT h.user_id, 'item_returned', h.id, h.name, i.id, i.name,
+    json_object('loan', json_object('id', l.id, 'borrower_name', l.borrower_name, 'lent_date', l.lent_date,
+      'due_date', l.due_date, 'returned_date', l.returned_date)),
+    l.closed_at
+  FROM item_loans l
+  INNER JOIN items i ON l.item_id = i.id
+  INNER JOIN hobbies h ON i.hobby_id = h.id
+  WHERE l.closed_at IS NOT NULL
+)
+ORDER BY created_at ASC;
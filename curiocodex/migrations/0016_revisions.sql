@@ -0,0 +1,28 @@
+-- Item and hobby revisions
+-- Before an item or hobby is edited (or reverted), a JSON snapshot of its
+-- editable fields is stored here, so earlier versions can be compared and
+-- restored after the user or AI overwrites them.
+
+CREATE TABLE IF NOT EXISTS item_revisions (
+  -- Increases with every revision, which keeps same-second edits in order
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  item_id TEXT NOT NULL,
+  -- JSON object with the item's fields as they were before the edit
+  snapshot TEXT NOT NULL,
+  -- When the edit that replaced this version was saved
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_revisions_item ON item_revisions(item_id, id DESC);
+
+CREATE TABLE IF NOT EXISTS hobby_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  hobby_id TEXT NOT NULL,
+  -- JSON object with the hobby's fields (and item categories) before the edit
+  snapshot TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (hobby_id) REFERENCES hobbies(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_hobby_revisions_hobby ON hobby_revisions(hobby_id, id DESC);
@@ -0,0 +1,14 @@
+-- Trash bin
+-- Deleting a hobby or item now only sets deleted_at. Trashed rows are hidden
+-- everywhere and their vectors are removed from Vectorize; they can be
+-- restored, or are purged for good once the retention window has passed.
+-- Items inside a trashed hobby keep their own deleted_at (NULL unless they
+-- were trashed separately) and come back with the hobby.
+
+ALTER TABLE hobbies ADD COLUMN deleted_at INTEGER;
+
+ALTER TABLE items ADD COLUMN deleted_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_hobbies_deleted ON hobbies(deleted_at);
+
+CREATE INDEX IF NOT EXISTS idx_items_deleted ON items(deleted_at);
@@ -0,0 +1,107 @@
+-- Full-text search
+-- FTS5 indexes over hobbies and items for text search, ranked with BM25.
+-- Each index row shares the rowid of the hobby or item it mirrors and is
+-- kept in sync by the triggers below. Tags are indexed as plain words, and
+-- the text values of an item's custom fields are indexed as its notes.
+-- Trashed rows stay indexed; queries filter them out through the join.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS hobbies_fts USING fts5(
+  name,
+  description,
+  tags,
+  category,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS items_fts USING fts5(
+  name,
+  description,
+  tags,
+  category,
+  notes,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE TRIGGER IF NOT EXISTS hobbies_fts_insert AFTER INSERT ON hobbies BEGIN
+  INSERT INTO hobbies_fts (rowid, name, description, tags, category)
+  VALUES (
+    NEW.rowid,
+    NEW.name,
+    NEW.description,
+    (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(NEW.tags) THEN NEW.tags ELSE '[]' END)),
+    NEW.category
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS hobbies_fts_update AFTER UPDATE OF name, description, tags, category ON hobbies BEGIN
+  DELETE FROM hobbies_fts WHERE rowid = OLD.rowid;
+  INSERT INTO hobbies_fts (rowid, name, description, tags, category)
+  VALUES (
+    NEW.rowid,
+    NEW.name,
+    NEW.description,
+    (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(NEW.tags) THEN NEW.tags ELSE '[]' END)),
+    NEW.category
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS hobbies_fts_delete AFTER DELETE ON hobbies BEGIN
+  DELETE FROM hobbies_fts WHERE rowid = OLD.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS items_fts_insert AFTER INSERT ON items BEGIN
+  INSERT INTO items_fts (rowid, name, description, tags, category, notes)
+  VALUES (
+    NEW.rowid,
+    NEW.name,
+    NEW.description,
+    (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(NEW.tags) THEN NEW.tags ELSE '[]' END)),
+    NEW.category,
+    (SELECT group_concat(value, ' ')
+     FROM json_each(CASE WHEN json_valid(NEW.custom_fields) THEN NEW.custom_fields ELSE '{}' END)
+     WHERE type = 'text')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS items_fts_update AFTER UPDATE OF name, description, tags, category, custom_fields ON items BEGIN
+  DELETE FROM items_fts WHERE rowid = OLD.rowid;
+  INSERT INTO items_fts (rowid, name, description, tags, category, notes)
+  VALUES (
+    NEW.rowid,
+    NEW.name,
+    NEW.description,
+    (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(NEW.tags) THEN NEW.tags ELSE '[]' END)),
+    NEW.category,
+    (SELECT group_concat(value, ' ')
+     FROM json_each(CASE WHEN json_valid(NEW.custom_fields) THEN NEW.custom_fields ELSE '{}' END)
+     WHERE type = 'text')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS items_fts_delete AFTER DELETE ON items BEGIN
+  DELETE FROM items_fts WHERE rowid = OLD.rowid;
+END;
+
+-- Index everything that already exists
+INSERT INTO hobbies_fts (rowid, name, description, tags, category)
+SELECT
+  rowid,
+  name,
+  description,
+  (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(tags) THEN tags ELSE '[]' END)),
+  category
+FROM hobbies;
+
+INSERT INTO items_fts (rowid, name, description, tags, category, notes)
+SELECT
+  rowid,
+  name,
+  description,
+  (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(tags) THEN tags ELSE '[]' END)),
+  category,
+  (SELECT group_concat(value, ' ')
+   FROM json_each(CASE WHEN json_valid(custom_fields) THEN custom_fields ELSE '{}' END)
+   WHERE type = 'text')
+FROM items;
@@ -0,0 +1,37 @@
+-- Saved searches ("smart collections")
+-- A saved search keeps a collection search (query, mode, filters and sort)
+-- under a name and is run again whenever it is opened. With notify set, a
+-- scheduled job re-runs it and flags items it had not matched before.
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'hybrid' CHECK (mode IN ('semantic', 'text', 'hybrid')),
+  -- JSON object in the shape of the /api/search `filters` option
+  filters TEXT NOT NULL DEFAULT '{}',
+  sort TEXT NOT NULL DEFAULT 'relevance',
+  notify INTEGER NOT NULL DEFAULT 0,
+  -- When the scheduled job last re-ran the search
+  checked_at INTEGER,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id);
+
+-- Items a saved search with notify set has matched. Matches found by the
+-- scheduled job stay new until the user has seen them.
+CREATE TABLE IF NOT EXISTS saved_search_hits (
+  saved_search_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  is_new INTEGER NOT NULL DEFAULT 0,
+  found_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (saved_search_id, item_id),
+  FOREIGN KEY (saved_search_id) REFERENCES saved_searches(id) ON DELETE CASCADE,
+  FOREIGN KEY (item_id) REFERENCES items(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_hits_item ON saved_search_hits(item_id);
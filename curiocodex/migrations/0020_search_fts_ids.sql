@@ -0,0 +1,146 @@
+-- Full-text search keyed on IDs
+-- hobbies_fts and items_fts (migration 0018) shared the implicit rowid of
+-- the row they index, but hobbies and items have TEXT primary keys, so
+-- their rowids are not stable: VACUUM or a dump and restore can renumber
+-- them and leave the indexes pointing at the wrong rows. Each hobby and
+-- item now gets its own full-text rowid in a key table whose INTEGER
+-- PRIMARY KEY never changes, so the triggers find a row's index entry by
+-- rowid. The ID is also stored in an unindexed column for queries to join on.
+
+DROP TRIGGER IF EXISTS hobbies_fts_insert;
+DROP TRIGGER IF EXISTS hobbies_fts_update;
+DROP TRIGGER IF EXISTS hobbies_fts_delete;
+DROP TRIGGER IF EXISTS items_fts_insert;
+DROP TRIGGER IF EXISTS items_fts_update;
+DROP TRIGGER IF EXISTS items_fts_delete;
+DROP TABLE IF EXISTS hobbies_fts;
+DROP TABLE IF EXISTS items_fts;
+
+CREATE TABLE IF NOT EXISTS hobbies_fts_keys (
+  fts_rowid INTEGER PRIMARY KEY,
+  hobby_id TEXT NOT NULL UNIQUE
+);
+
+CREATE TABLE IF NOT EXISTS items_fts_keys (
+  fts_rowid INTEGER PRIMARY KEY,
+  item_id TEXT NOT NULL UNIQUE
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS hobbies_fts USING fts5(
+  name,
+  description,
+  tags,
+  category,
+  id UNINDEXED,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS items_fts USING fts5(
+  name,
+  description,
+  tags,
+  category,
+  notes,
+  id UNINDEXED,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE TRIGGER IF NOT EXISTS hobbies_fts_insert AFTER INSERT ON hobbies BEGIN
+  INSERT INTO hobbies_fts_keys (hobby_id) VALUES (NEW.id);
+  INSERT INTO hobbies_fts (rowid, id, name, description, tags, category)
+  VALUES (
+    (SELECT fts_rowid FROM hobbies_fts_keys WHERE hobby_id = NEW.id),
+    NEW.id,
+    NEW.name,
+    NEW.description,
+    (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(NEW.tags) THEN NEW.tags ELSE '[]' END)),
+    NEW.category
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS hobbies_fts_update AFTER UPDATE OF name, description, tags, category ON hobbies BEGIN
+  DELETE FROM hobbies_fts WHERE rowid = (SELECT fts_rowid FROM hobbies_fts_keys WHERE hobby_id = OLD.id);
+  INSERT INTO hobbies_fts (rowid, id, name, description, tags, category)
+  VALUES (
+    (SELECT fts_rowid FROM hobbies_fts_keys WHERE hobby_id = NEW.id),
+    NEW.id,
+    NEW.name,
+    NEW.description,
+    (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(NEW.tags) THEN NEW.tags ELSE '[]' END)),
+    NEW.category
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS hobbies_fts_delete AFTER DELETE ON hobbies BEGIN
+  DELETE FROM hobbies_fts WHERE rowid = (SELECT fts_rowid FROM hobbies_fts_keys WHERE hobby_id = OLD.id);
+  DELETE FROM hobbies_fts_keys WHERE hobby_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS items_fts_insert AFTER INSERT ON items BEGIN
+  INSERT INTO items_fts_keys (item_id) VALUES (NEW.id);
+  INSERT INTO items_fts (rowid, id, name, description, tags, category, notes)
+  VALUES (
+    (SELECT fts_rowid FROM items_fts_keys WHERE item_id = NEW.id),
+    NEW.id,
+    NEW.name,
+    NEW.description,
+    (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(NEW.tags) THEN NEW.tags ELSE '[]' END)),
+    NEW.category,
+    (SELECT group_concat(value, ' ')
+     FROM json_each(CASE WHEN json_valid(NEW.custom_fields) THEN NEW.custom_fields ELSE '{}' END)
+     WHERE type = 'text')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS items_fts_update AFTER UPDATE OF name, description, tags, category, custom_fields ON items BEGIN
+  DELETE FROM items_fts WHERE rowid = (SELECT fts_rowid FROM items_fts_keys WHERE item_id = OLD.id);
+  INSERT INTO items_fts (rowid, id, name, description, tags, category, notes)
+  VALUES (
+    (SELECT fts_rowid FROM items_fts_keys WHERE item_id = NEW.id),
+    NEW.id,
+    NEW.name,
+    NEW.description,
+    (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(NEW.tags) THEN NEW.tags ELSE '[]' END)),
+    NEW.category,
+    (SELECT group_concat(value, ' ')
+     FROM json_each(CASE WHEN json_valid(NEW.custom_fields) THEN NEW.custom_fields ELSE '{}' END)
+     WHERE type = 'text')
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS items_fts_delete AFTER DELETE ON items BEGIN
+  DELETE FROM items_fts WHERE rowid = (SELECT fts_rowid FROM items_fts_keys WHERE item_id = OLD.id);
+  DELETE FROM items_fts_keys WHERE item_id = OLD.id;
+END;
+
+-- Index everything that already exists
+INSERT INTO hobbies_fts_keys (hobby_id) SELECT id FROM hobbies;
+
+INSERT INTO hobbies_fts (rowid, id, name, description, tags, category)
+SELECT
+  k.fts_rowid,
+  h.id,
+  h.name,
+  h.description,
+  (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(h.tags) THEN h.tags ELSE '[]' END)),
+  h.category
+FROM hobbies h
+INNER JOIN hobbies_fts_keys k ON k.hobby_id = h.id;
+
+INSERT INTO items_fts_keys (item_id) SELECT id FROM items;
+
+INSERT INTO items_fts (rowid, id, name, description, tags, category, notes)
+SELECT
+  k.fts_rowid,
+  i.id,
+  i.name,
+  i.description,
+  (SELECT group_concat(value, ' ') FROM json_each(CASE WHEN json_valid(i.tags) THEN i.tags ELSE '[]' END)),
+  i.category,
+  (SELECT group_concat(value, ' ')
+   FROM json_each(CASE WHEN json_valid(i.custom_fields) THEN i.custom_fields ELSE '{}' END)
+   WHERE type = 'text')
+FROM items i
+INNER JOIN items_fts_keys k ON k.item_id = i.id;
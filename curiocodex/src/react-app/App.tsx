@@ -18,6 +18,15 @@ import Activity from "./pages/Activity";
 import Settings from "./pages/Settings";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
+import Showcase from "./pages/Showcase";
+import ValuationReport from "./pages/ValuationReport";
+import Wishlist from "./pages/Wishlist";
+import Locations from "./pages/Locations";
+import Loans from "./pages/Loans";
+import Trash from "./pages/Trash";
 import "./App.css";
 
 function App() {
@@ -117,9 +126,18 @@ function App() {
               <Route path="/add/item" element={<AddItem />} />
               <Route path="/discover" element={<Discover />} />
               <Route path="/activity" element={<Activity />} />
+              <Route path="/reports/valuation" element={<ValuationReport />} />
+              <Route path="/wishlist" element={<Wishlist />} />
+              <Route path="/locations" element={<Locations />} />
+              <Route path="/loans" element={<Loans />} />
+              <Route path="/trash" element={<Trash />} />
               <Route path="/settings" element={<Settings />} />
               <Route path="/login" element={<Login />} />
               <Route path="/register" element={<Register />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route path="/verify-email" element={<VerifyEmail />} />
+              <Route path="/s/:slug" element={<Showcase />} />
             </Routes>
           </main>
           
@@ -0,0 +1,188 @@
+/**
+ * Live view of the device camera for taking a photo.
+ * The camera starts when the component is shown and stops when it is
+ * removed; a captured frame is handed back as a JPEG file.
+ */
+
+import { useEffect, useRef } from "react";
+import "./CameraCapture.css";
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  /** Called after a capture, on Cancel, and when the camera cannot be started. */
+  onClose: () => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Explain why the camera could not be started.
+ */
+function cameraErrorMessage(error: unknown): string {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const errorName = error instanceof Error ? error.name : "";
+
+  if (
+    errorName === "NotAllowedError" ||
+    errorMessage.includes("permission") ||
+    errorMessage.includes("denied")
+  ) {
+    return "Camera permission denied. Please allow camera access in your browser settings and try again.";
+  }
+  if (
+    errorName === "NotFoundError" ||
+    errorMessage.includes("not found") ||
+    errorMessage.includes("no device")
+  ) {
+    return "No camera found. Please connect a camera or use file upload instead.";
+  }
+  if (errorName === "NotReadableError" || errorMessage.includes("not readable")) {
+    return "Camera is already in use by another application. Please close other apps using the camera.";
+  }
+  return `Unable to access camera: ${errorMessage}. Please use file upload instead.`;
+}
+
+/**
+ * Open the rear camera where there is one, retrying with default settings
+ * when the camera does not support the preferred resolution.
+ */
+async function openCameraStream(): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: {
+        facingMode: "environment",
+        width: { ideal: 1280 },
+        height: { ideal: 720 },
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "OverconstrainedError") {
+      return navigator.mediaDevices.getUserMedia({ video: true });
+    }
+    throw error;
+  }
+}
+
+function CameraCapture({ onCapture, onClose, onError, disabled = false }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  // Keep the latest callbacks without restarting the camera when they change
+  const onCloseRef = useRef(onClose);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+    onErrorRef.current = onError;
+  }, [onClose, onError]);
+
+  // Start the camera (when available and over HTTPS) and stop it on unmount
+  useEffect(() => {
+    let cancelled = false;
+
+    const fail = (message: string) => {
+      onErrorRef.current(message);
+      onCloseRef.current();
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+        fail("Camera API not supported in this browser. Please use file upload instead.");
+        return;
+      }
+
+      const isSecure =
+        window.location.protocol === "https:" ||
+        window.location.hostname === "localhost" ||
+        window.location.hostname === "127.0.0.1";
+      if (!isSecure) {
+        fail("Camera access requires HTTPS. Please use file upload instead.");
+        return;
+      }
+
+      try {
+        const stream = await openCameraStream();
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          videoRef.current.play().catch((err) => {
+            console.error("Error playing video:", err);
+          });
+        }
+      } catch (error) {
+        console.error("Error accessing camera:", error);
+        if (!cancelled) {
+          fail(cameraErrorMessage(error));
+        }
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    };
+  }, []);
+
+  /**
+   * Capture a still frame from the video, convert it into a File and close
+   * the camera.
+   */
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (video.readyState < 2) {
+      onError("Camera is not ready yet. Please wait a moment.");
+      return;
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.translate(canvas.width, 0);
+    ctx.scale(-1, 1);
+    ctx.drawImage(video, 0, 0);
+
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) return;
+
+        onCapture(
+          new File([blob], `camera-photo-${Date.now()}.jpg`, {
+            type: "image/jpeg",
+            lastModified: Date.now(),
+          })
+        );
+        onClose();
+      },
+      "image/jpeg",
+      0.9
+    );
+  };
+
+  return (
+    <div className="camera-container">
+      <video ref={videoRef} autoPlay playsInline muted className="camera-video" />
+      <div className="camera-controls">
+        <button type="button" onClick={handleCapture} className="capture-button" disabled={disabled}>
+          📸 Capture
+        </button>
+        <button type="button" onClick={onClose} className="cancel-camera-button" disabled={disabled}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default CameraCapture;
@@ -0,0 +1,109 @@
+/**
+ * Dynamic form inputs for a hobby's custom item fields.
+ * Renders one input per field definition, chosen by the field's type.
+ */
+
+import { customFieldValue, type CustomFieldDefinition, type CustomFieldDraft } from "../utils/customFields";
+
+interface CustomFieldInputsProps {
+  /** The hobby's field definitions, in display order. */
+  fields: CustomFieldDefinition[];
+  /** Current values keyed by field key. */
+  values: CustomFieldDraft;
+  /** Called with the full set of values whenever one changes. */
+  onChange: (values: CustomFieldDraft) => void;
+  /** Prefix for input ids so several forms can share a page. */
+  idPrefix: string;
+  /** Class applied to text-like inputs and selects. */
+  inputClassName?: string;
+  disabled?: boolean;
+  /** Hint shown under the inputs. */
+  hint?: string;
+}
+
+function CustomFieldInputs({
+  fields,
+  values,
+  onChange,
+  idPrefix,
+  inputClassName = "form-input",
+  disabled = false,
+  hint,
+}: CustomFieldInputsProps) {
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const setValue = (key: string, value: string) => {
+    onChange({ ...values, [key]: value });
+  };
+
+  return (
+    <>
+      {fields.map((field) => {
+        const id = `${idPrefix}-${field.key}`;
+        const value = customFieldValue(values, field.key) ?? "";
+        const label = `${field.label}${field.required ? " *" : ""}`;
+
+        if (field.type === "boolean") {
+          return (
+            <div className="form-group" key={field.key}>
+              <label htmlFor={id}>{label}</label>
+              <select
+                id={id}
+                value={value}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                className={inputClassName}
+                disabled={disabled}
+              >
+                <option value="">—</option>
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+              </select>
+            </div>
+          );
+        }
+
+        if (field.type === "enum") {
+          return (
+            <div className="form-group" key={field.key}>
+              <label htmlFor={id}>{label}</label>
+              <select
+                id={id}
+                value={value}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                className={inputClassName}
+                disabled={disabled}
+              >
+                <option value="">—</option>
+                {field.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        }
+
+        return (
+          <div className="form-group" key={field.key}>
+            <label htmlFor={id}>{label}</label>
+            <input
+              id={id}
+              type={field.type === "number" ? "number" : field.type === "date" ? "date" : "text"}
+              step={field.type === "number" ? "any" : undefined}
+              value={value}
+              onChange={(e) => setValue(field.key, e.target.value)}
+              className={inputClassName}
+              disabled={disabled}
+            />
+          </div>
+        );
+      })}
+      {hint && <p className="form-hint">{hint}</p>}
+    </>
+  );
+}
+
+export default CustomFieldInputs;
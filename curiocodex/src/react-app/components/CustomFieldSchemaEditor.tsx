@@ -0,0 +1,103 @@
+/**
+ * Editor for a hobby's custom item field definitions.
+ * Each row defines one field: its label, type, choices (for choice fields)
+ * and whether items must fill it in.
+ */
+
+import {
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomFieldSchemaRow,
+  type CustomFieldType,
+} from "../utils/customFields";
+
+interface CustomFieldSchemaEditorProps {
+  rows: CustomFieldSchemaRow[];
+  onChange: (rows: CustomFieldSchemaRow[]) => void;
+}
+
+function CustomFieldSchemaEditor({ rows, onChange }: CustomFieldSchemaEditorProps) {
+  const updateRow = (index: number, changes: Partial<CustomFieldSchemaRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div>
+      {rows.map((row, index) => (
+        <div
+          key={row.key ?? `new-${index}`}
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: "0.5rem",
+            alignItems: "center",
+            marginBottom: "0.5rem",
+          }}
+        >
+          <input
+            type="text"
+            value={row.label}
+            onChange={(e) => updateRow(index, { label: e.target.value })}
+            className="form-input"
+            placeholder="Field label (e.g. Year)"
+            aria-label="Field label"
+            style={{ flex: "2 1 10rem" }}
+          />
+          <select
+            value={row.type}
+            onChange={(e) => updateRow(index, { type: e.target.value as CustomFieldType })}
+            className="form-input"
+            aria-label="Field type"
+            style={{ flex: "1 1 6rem" }}
+          >
+            {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map((type) => (
+              <option key={type} value={type}>
+                {CUSTOM_FIELD_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <label style={{ display: "flex", alignItems: "center", gap: "0.25rem", fontSize: "0.85rem" }}>
+            <input
+              type="checkbox"
+              checked={row.required}
+              onChange={(e) => updateRow(index, { required: e.target.checked })}
+            />
+            Required
+          </label>
+          <button
+            type="button"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            style={{
+              border: "none",
+              background: "transparent",
+              color: "#c7d2fe",
+              cursor: "pointer",
+            }}
+            aria-label={`Remove ${row.label || "field"}`}
+          >
+            ×
+          </button>
+          {row.type === "enum" && (
+            <input
+              type="text"
+              value={row.optionsText}
+              onChange={(e) => updateRow(index, { optionsText: e.target.value })}
+              className="form-input"
+              placeholder="Choices, separated by commas"
+              aria-label="Field choices"
+              style={{ flex: "1 1 100%" }}
+            />
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        className="camera-button"
+        onClick={() => onChange([...rows, { label: "", type: "text", optionsText: "", required: false }])}
+      >
+        Add field
+      </button>
+    </div>
+  );
+}
+
+export default CustomFieldSchemaEditor;
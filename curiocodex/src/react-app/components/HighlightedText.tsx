@@ -0,0 +1,28 @@
+/**
+ * Text from a full-text search result, with the matched words highlighted.
+ */
+
+import { splitHighlights } from "../utils/search";
+
+interface HighlightedTextProps {
+  /** Text with matches wrapped in <mark> tags by the API. */
+  marked: string;
+}
+
+function HighlightedText({ marked }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(marked).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="search-highlight">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default HighlightedText;
@@ -1,9 +1,14 @@
 /**
  * Modal component for showing full details about a single hobby.
  * Used by the Hobbies page when a hobby card is expanded.
+ * Includes the hobby's sets with their completion progress.
  */
 
+import { useState } from "react";
 import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import HobbySetsPanel from "./HobbySetsPanel";
 
 interface HobbyDetailsModalProps {
   hobby: {
@@ -12,14 +17,74 @@ interface HobbyDetailsModalProps {
     description: string | null;
     category: string | null;
     tags: string[];
+    share_slug?: string | null;
   };
   /** Close the modal without taking further action. */
   onClose: () => void;
   /** Trigger edit flow for the hobby, then close the modal. */
   onEdit: () => void;
+  /** Called after the hobby is published (with its slug) or unpublished (null). */
+  onShareChange?: (slug: string | null) => void;
+  /** Called after any of the hobby's sets change, so progress elsewhere can refresh. */
+  onSetsChange?: () => void;
 }
 
-function HobbyDetailsModal({ hobby, onClose, onEdit }: HobbyDetailsModalProps) {
+function HobbyDetailsModal({ hobby, onClose, onEdit, onShareChange, onSetsChange }: HobbyDetailsModalProps) {
+  const { token } = useAuth();
+  const [shareSlug, setShareSlug] = useState<string | null>(hobby.share_slug ?? null);
+  const [sharing, setSharing] = useState(false);
+  const [shareError, setShareError] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const shareUrl = shareSlug ? `${window.location.origin}/s/${shareSlug}` : null;
+
+  /**
+   * Publish or unpublish this hobby as a public, read-only showcase.
+   */
+  const handleToggleShare = async () => {
+    try {
+      setSharing(true);
+      setShareError("");
+      setCopied(false);
+
+      if (shareSlug) {
+        const response = await apiRequest(
+          `/api/hobbies/${hobby.id}/share`,
+          { method: "DELETE" },
+          token
+        );
+        await parseResponse(response);
+        setShareSlug(null);
+        onShareChange?.(null);
+      } else {
+        const response = await apiRequest(
+          `/api/hobbies/${hobby.id}/share`,
+          { method: "POST" },
+          token
+        );
+        const data = await parseResponse<{ slug: string }>(response);
+        setShareSlug(data.slug);
+        onShareChange?.(data.slug);
+      }
+    } catch (err) {
+      console.error("Error updating showcase:", err);
+      const message = err instanceof Error ? err.message : "Failed to update showcase";
+      setShareError(message);
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch (err) {
+      console.error("Error copying share link:", err);
+    }
+  };
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div
@@ -65,7 +130,40 @@ function HobbyDetailsModal({ hobby, onClose, onEdit }: HobbyDetailsModalProps) {
             </div>
           )}
 
+          <HobbySetsPanel hobbyId={hobby.id} onSetsChange={onSetsChange} />
+
+          <div className="detail-section">
+            <h3>Public Showcase</h3>
+            {shareUrl ? (
+              <>
+                <p className="detail-description">
+                  Anyone with this link can view this hobby and its items without logging in:
+                </p>
+                <div className="detail-row">
+                  <a href={shareUrl} target="_blank" rel="noreferrer" className="detail-value">
+                    {shareUrl}
+                  </a>
+                  <button className="secondary-action-button" onClick={handleCopyLink}>
+                    {copied ? "Copied!" : "Copy Link"}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="detail-description">
+                This hobby is private. Publish it to get a read-only link you can share.
+              </p>
+            )}
+            {shareError && <div className="error-message">{shareError}</div>}
+          </div>
+
           <div className="detail-actions">
+            <button
+              className="secondary-action-button"
+              onClick={handleToggleShare}
+              disabled={sharing}
+            >
+              {sharing ? "Updating..." : shareSlug ? "Stop Sharing" : "Publish Showcase"}
+            </button>
             <Link
               to={`/hobbies/${hobby.id}/items`}
               className="primary-action-button"
@@ -0,0 +1,319 @@
+/**
+ * Sets section of the hobby details modal.
+ * Shows completion for each of the hobby's sets and lets the user create
+ * sets (optionally with an AI-proposed checklist), edit checklists, and link
+ * items to checklist slots.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import { parseChecklistText, type ItemSet } from "../utils/itemSets";
+import { itemStatusLabel, type ItemStatus } from "../utils/itemStatus";
+import SetProgressBar from "./SetProgressBar";
+
+interface HobbyItemOption {
+  id: string;
+  name: string;
+  status?: ItemStatus;
+}
+
+interface HobbySetsPanelProps {
+  hobbyId: string;
+  /** Called whenever a set is created, changed or deleted. */
+  onSetsChange?: () => void;
+}
+
+/** Number of missing members listed before collapsing into "and N more". */
+const MISSING_PREVIEW_COUNT = 5;
+
+function HobbySetsPanel({ hobbyId, onSetsChange }: HobbySetsPanelProps) {
+  const { token } = useAuth();
+  const [sets, setSets] = useState<ItemSet[]>([]);
+  const [items, setItems] = useState<HobbyItemOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [expandedSetId, setExpandedSetId] = useState<string | null>(null);
+  const [checklistDraft, setChecklistDraft] = useState("");
+  const [showCreate, setShowCreate] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newChecklist, setNewChecklist] = useState("");
+  const [suggesting, setSuggesting] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSets = useCallback(async () => {
+    try {
+      const [setsResponse, itemsResponse] = await Promise.all([
+        apiRequest(`/api/hobbies/${hobbyId}/sets`, { method: "GET" }, token),
+        apiRequest(`/api/hobbies/${hobbyId}/items`, { method: "GET" }, token),
+      ]);
+      const setsData = await parseResponse<{ sets: ItemSet[] }>(setsResponse);
+      const itemsData = await parseResponse<{ items: HobbyItemOption[] }>(itemsResponse);
+      setSets(setsData.sets);
+      setItems(itemsData.items);
+      setError("");
+    } catch (err) {
+      console.error("Error loading sets:", err);
+      const message = err instanceof Error ? err.message : "Failed to load sets";
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [hobbyId, token]);
+
+  useEffect(() => {
+    fetchSets();
+  }, [fetchSets]);
+
+  /** Replace one set in local state with the version returned by the API. */
+  const applySet = (updated: ItemSet) => {
+    setSets((current) => current.map((set) => (set.id === updated.id ? updated : set)));
+    onSetsChange?.();
+  };
+
+  const handleSuggest = async () => {
+    if (!newName.trim()) return;
+    try {
+      setSuggesting(true);
+      setError("");
+      const response = await apiRequest(
+        `/api/hobbies/${hobbyId}/sets/suggest-checklist`,
+        { method: "POST", body: JSON.stringify({ name: newName.trim() }) },
+        token
+      );
+      const data = await parseResponse<{ checklist: string[] }>(response);
+      if (data.checklist.length === 0) {
+        setError("AI couldn't propose a checklist for this set. Enter the members yourself.");
+      } else {
+        setNewChecklist(data.checklist.join("\n"));
+      }
+    } catch (err) {
+      console.error("Error suggesting checklist:", err);
+      const message = err instanceof Error ? err.message : "Failed to suggest checklist";
+      setError(message);
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    try {
+      setSaving(true);
+      setError("");
+      const response = await apiRequest(
+        `/api/hobbies/${hobbyId}/sets`,
+        {
+          method: "POST",
+          body: JSON.stringify({ name: newName.trim(), checklist: parseChecklistText(newChecklist) }),
+        },
+        token
+      );
+      const data = await parseResponse<{ set: ItemSet }>(response);
+      setSets((current) => [...current, data.set].sort((a, b) => a.name.localeCompare(b.name)));
+      setShowCreate(false);
+      setNewName("");
+      setNewChecklist("");
+      onSetsChange?.();
+    } catch (err) {
+      console.error("Error creating set:", err);
+      const message = err instanceof Error ? err.message : "Failed to create set";
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleExpanded = (set: ItemSet) => {
+    if (expandedSetId === set.id) {
+      setExpandedSetId(null);
+      return;
+    }
+    setExpandedSetId(set.id);
+    setChecklistDraft((set.slots ?? []).map((slot) => slot.label).join("\n"));
+  };
+
+  const handleSaveChecklist = async (set: ItemSet) => {
+    try {
+      setSaving(true);
+      setError("");
+      const response = await apiRequest(
+        `/api/hobbies/${hobbyId}/sets/${set.id}`,
+        { method: "PUT", body: JSON.stringify({ checklist: parseChecklistText(checklistDraft) }) },
+        token
+      );
+      const data = await parseResponse<{ set: ItemSet }>(response);
+      applySet(data.set);
+    } catch (err) {
+      console.error("Error updating set:", err);
+      const message = err instanceof Error ? err.message : "Failed to update set";
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLinkItem = async (set: ItemSet, slotId: string, itemId: string | null) => {
+    try {
+      setError("");
+      const response = await apiRequest(
+        `/api/hobbies/${hobbyId}/sets/${set.id}/slots/${slotId}`,
+        { method: "PUT", body: JSON.stringify({ itemId }) },
+        token
+      );
+      const data = await parseResponse<{ set: ItemSet }>(response);
+      applySet(data.set);
+    } catch (err) {
+      console.error("Error linking item to set:", err);
+      const message = err instanceof Error ? err.message : "Failed to link item";
+      setError(message);
+    }
+  };
+
+  const handleDelete = async (set: ItemSet) => {
+    if (!window.confirm(`Delete the set "${set.name}"? Your items are not affected.`)) return;
+    try {
+      setError("");
+      const response = await apiRequest(`/api/hobbies/${hobbyId}/sets/${set.id}`, { method: "DELETE" }, token);
+      await parseResponse(response);
+      setSets((current) => current.filter((entry) => entry.id !== set.id));
+      setExpandedSetId(null);
+      onSetsChange?.();
+    } catch (err) {
+      console.error("Error deleting set:", err);
+      const message = err instanceof Error ? err.message : "Failed to delete set";
+      setError(message);
+    }
+  };
+
+  return (
+    <div className="detail-section">
+      <h3>Sets</h3>
+      {loading && <p className="detail-description">Loading sets...</p>}
+      {!loading && sets.length === 0 && !showCreate && (
+        <p className="detail-description">
+          Track a series, theme or anything else with a checklist of members to collect.
+        </p>
+      )}
+
+      {sets.map((set) => {
+        const linkedIds = new Set((set.slots ?? []).map((slot) => slot.item?.id).filter(Boolean));
+        return (
+          <div key={set.id}>
+            <SetProgressBar name={set.name} collected={set.collected} total={set.total} percent={set.percent} />
+            {set.missing.length > 0 && set.missing.length < set.total && (
+              <p className="set-missing">
+                Missing: {set.missing.slice(0, MISSING_PREVIEW_COUNT).join(", ")}
+                {set.missing.length > MISSING_PREVIEW_COUNT && ` and ${set.missing.length - MISSING_PREVIEW_COUNT} more`}
+              </p>
+            )}
+            <button type="button" className="secondary-action-button" onClick={() => handleToggleExpanded(set)}>
+              {expandedSetId === set.id ? "Done" : "Manage"}
+            </button>
+
+            {expandedSetId === set.id && (
+              <div style={{ marginTop: "0.75rem", marginBottom: "1rem" }}>
+                {(set.slots ?? []).map((slot) => (
+                  <div key={slot.id} className={`set-slot-row${slot.collected ? " collected" : ""}`}>
+                    <span className="set-slot-label">{slot.label}</span>
+                    <select
+                      className="form-input"
+                      value={slot.item?.id ?? ""}
+                      onChange={(e) => handleLinkItem(set, slot.id, e.target.value || null)}
+                      aria-label={`Item for ${slot.label}`}
+                    >
+                      <option value="">Not linked</option>
+                      {items
+                        .filter((item) => item.id === slot.item?.id || !linkedIds.has(item.id))
+                        .map((item) => (
+                          <option key={item.id} value={item.id}>
+                            {item.name}
+                            {item.status && item.status !== "owned" ? ` (${itemStatusLabel(item.status)})` : ""}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                ))}
+
+                <div className="form-group" style={{ marginTop: "1rem" }}>
+                  <label htmlFor={`set-checklist-${set.id}`}>Checklist (one member per line)</label>
+                  <textarea
+                    id={`set-checklist-${set.id}`}
+                    value={checklistDraft}
+                    onChange={(e) => setChecklistDraft(e.target.value)}
+                    rows={6}
+                    className="form-textarea"
+                  />
+                </div>
+                <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+                  <button
+                    type="button"
+                    className="save-button"
+                    onClick={() => handleSaveChecklist(set)}
+                    disabled={saving}
+                  >
+                    {saving ? "Saving..." : "Save Checklist"}
+                  </button>
+                  <button type="button" className="cancel-button" onClick={() => handleDelete(set)}>
+                    Delete Set
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {showCreate ? (
+        <div style={{ marginTop: "1rem" }}>
+          <div className="form-group">
+            <label htmlFor={`new-set-name-${hobbyId}`}>Set name *</label>
+            <input
+              id={`new-set-name-${hobbyId}`}
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="form-input"
+              placeholder="e.g. Pokémon Base Set, LEGO Space 1980s"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor={`new-set-checklist-${hobbyId}`}>Checklist (one member per line)</label>
+            <textarea
+              id={`new-set-checklist-${hobbyId}`}
+              value={newChecklist}
+              onChange={(e) => setNewChecklist(e.target.value)}
+              rows={6}
+              className="form-textarea"
+            />
+            <p className="form-hint">Review AI suggestions before saving; they can be incomplete.</p>
+          </div>
+          <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+            <button
+              type="button"
+              className="secondary-action-button"
+              onClick={handleSuggest}
+              disabled={suggesting || !newName.trim()}
+            >
+              {suggesting ? "Thinking..." : "✨ Suggest with AI"}
+            </button>
+            <button type="button" className="save-button" onClick={handleCreate} disabled={saving || !newName.trim()}>
+              {saving ? "Saving..." : "Create Set"}
+            </button>
+            <button type="button" className="cancel-button" onClick={() => setShowCreate(false)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" className="secondary-action-button" onClick={() => setShowCreate(true)}>
+          ➕ New Set
+        </button>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default HobbySetsPanel;
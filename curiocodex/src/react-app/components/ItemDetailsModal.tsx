@@ -1,24 +1,260 @@
 /**
  * Modal component for showing full details about a single item.
  * Used by the Items page when an item card is expanded.
+ * Includes a photo gallery where photos can be added, reordered, removed,
+ * or promoted to the item's primary image, and a history tab listing earlier
+ * versions of the item that can be restored.
  */
 
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import { imageVariantUrl } from "../utils/images";
+import {
+  customFieldValue,
+  formatCustomFieldValue,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+} from "../utils/customFields";
+import { formatMoney, type ItemValuationFields } from "../utils/valuation";
+import { itemStatusLabel, type ItemStatus } from "../utils/itemStatus";
+import type { ItemLocation } from "../utils/locations";
+import type { ItemLoan } from "../utils/loans";
+import ItemLoanPanel from "./ItemLoanPanel";
+import ItemRevisionsPanel from "./ItemRevisionsPanel";
+
+interface ValueHistoryEntry {
+  id: string;
+  value: number | null;
+  currency: string;
+  recorded_at: number;
+}
+
+interface StatusHistoryEntry {
+  id: string;
+  from_status: ItemStatus | null;
+  to_status: ItemStatus;
+  changed_at: number;
+}
+
+interface GalleryImage {
+  id: string;
+  image_url: string;
+  position: number;
+  is_primary: boolean;
+}
+
+interface GalleryResponse {
+  images: GalleryImage[];
+  primaryImageUrl: string | null;
+}
+
 interface ItemDetailsModalProps {
-  item: {
+  item: ItemValuationFields & {
     id: string;
     name: string;
     description: string | null;
     category: string | null;
     tags: string[];
     image_url: string | null;
+    custom_fields?: CustomFieldValues;
+    status?: ItemStatus;
+    location?: ItemLocation | null;
   };
+  /** Hobby the item belongs to; the gallery is only shown when known. */
+  hobbyId?: string;
   /** Close the modal without taking further action. */
   onClose: () => void;
   /** Trigger edit flow for the item, then close the modal. */
   onEdit: () => void;
+  /** Called whenever the gallery changes the item's primary image. */
+  onPrimaryImageChange?: (imageUrl: string | null) => void;
+  /** Called when the item is lent out or returned. */
+  onLoanChange?: (loan: ItemLoan | null) => void;
+  /** Called with the restored fields when an earlier version is reverted to. */
+  onRevert?: (item: Record<string, unknown>) => void;
 }
 
-function ItemDetailsModal({ item, onClose, onEdit }: ItemDetailsModalProps) {
+function ItemDetailsModal({
+  item,
+  hobbyId,
+  onClose,
+  onEdit,
+  onPrimaryImageChange,
+  onLoanChange,
+  onRevert,
+}: ItemDetailsModalProps) {
+  const { token } = useAuth();
+  const [images, setImages] = useState<GalleryImage[]>([]);
+  const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const [galleryBusy, setGalleryBusy] = useState(false);
+  const [galleryError, setGalleryError] = useState("");
+  const [itemFields, setItemFields] = useState<CustomFieldDefinition[]>([]);
+  const [valueHistory, setValueHistory] = useState<ValueHistoryEntry[]>([]);
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([]);
+  const [activeTab, setActiveTab] = useState<"details" | "history">("details");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the latest callback in a ref so a new inline handler from the parent
+  // does not trigger a gallery refetch on every render.
+  const onPrimaryImageChangeRef = useRef(onPrimaryImageChange);
+  useEffect(() => {
+    onPrimaryImageChangeRef.current = onPrimaryImageChange;
+  }, [onPrimaryImageChange]);
+
+  const galleryEndpoint = hobbyId ? `/api/hobbies/${hobbyId}/items/${item.id}/images` : null;
+
+  /**
+   * Store a gallery response and let the parent know about the primary image.
+   */
+  const applyGallery = useCallback((data: GalleryResponse, notify: boolean) => {
+    setImages(data.images);
+    setSelectedImageId((current) =>
+      current && data.images.some((image) => image.id === current)
+        ? current
+        : data.images[0]?.id ?? null
+    );
+    if (notify) {
+      onPrimaryImageChangeRef.current?.(data.primaryImageUrl);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!galleryEndpoint) return;
+
+    const fetchGallery = async () => {
+      try {
+        const response = await apiRequest(galleryEndpoint, { method: "GET" }, token);
+        const data = await parseResponse<GalleryResponse>(response);
+        applyGallery(data, false);
+      } catch (err) {
+        console.error("Error loading item photos:", err);
+      }
+    };
+
+    fetchGallery();
+  }, [galleryEndpoint, token, applyGallery]);
+
+  useEffect(() => {
+    if (!hobbyId) return;
+
+    const fetchFields = async () => {
+      try {
+        const response = await apiRequest(`/api/hobbies/${hobbyId}/item-fields`, { method: "GET" }, token);
+        const data = await parseResponse<{ fields: CustomFieldDefinition[] }>(response);
+        setItemFields(data.fields);
+      } catch (err) {
+        console.error("Error loading item fields:", err);
+      }
+    };
+
+    fetchFields();
+  }, [hobbyId, token]);
+
+  useEffect(() => {
+    if (!hobbyId) return;
+
+    const fetchValueHistory = async () => {
+      try {
+        const response = await apiRequest(
+          `/api/hobbies/${hobbyId}/items/${item.id}/value-history`,
+          { method: "GET" },
+          token
+        );
+        const data = await parseResponse<{ history: ValueHistoryEntry[] }>(response);
+        setValueHistory(data.history);
+      } catch (err) {
+        console.error("Error loading value history:", err);
+      }
+    };
+
+    fetchValueHistory();
+  }, [hobbyId, item.id, token]);
+
+  useEffect(() => {
+    if (!hobbyId) return;
+
+    const fetchStatusHistory = async () => {
+      try {
+        const response = await apiRequest(
+          `/api/hobbies/${hobbyId}/items/${item.id}/status-history`,
+          { method: "GET" },
+          token
+        );
+        const data = await parseResponse<{ history: StatusHistoryEntry[] }>(response);
+        setStatusHistory(data.history);
+      } catch (err) {
+        console.error("Error loading status history:", err);
+      }
+    };
+
+    fetchStatusHistory();
+  }, [hobbyId, item.id, token]);
+
+  /**
+   * Run a gallery mutation and refresh state from its response.
+   */
+  const runGalleryAction = async (request: () => Promise<Response>) => {
+    try {
+      setGalleryBusy(true);
+      setGalleryError("");
+      const data = await parseResponse<GalleryResponse>(await request());
+      applyGallery(data, true);
+    } catch (err) {
+      console.error("Error updating item photos:", err);
+      const message = err instanceof Error ? err.message : "Failed to update photos";
+      setGalleryError(message);
+    } finally {
+      setGalleryBusy(false);
+    }
+  };
+
+  const handleAddPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (!galleryEndpoint || files.length === 0) return;
+
+    const formData = new FormData();
+    files.forEach((file) => formData.append("image", file));
+    await runGalleryAction(() =>
+      apiRequest(galleryEndpoint, { method: "POST", body: formData }, token)
+    );
+  };
+
+  const handleMove = async (imageId: string, direction: -1 | 1) => {
+    if (!galleryEndpoint) return;
+    const index = images.findIndex((image) => image.id === imageId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= images.length) return;
+
+    const imageIds = images.map((image) => image.id);
+    [imageIds[index], imageIds[target]] = [imageIds[target], imageIds[index]];
+    await runGalleryAction(() =>
+      apiRequest(
+        `${galleryEndpoint}/order`,
+        { method: "PUT", body: JSON.stringify({ imageIds }) },
+        token
+      )
+    );
+  };
+
+  const handleMakePrimary = async (imageId: string) => {
+    if (!galleryEndpoint) return;
+    await runGalleryAction(() =>
+      apiRequest(`${galleryEndpoint}/${imageId}/primary`, { method: "PUT" }, token)
+    );
+  };
+
+  const handleRemove = async (imageId: string) => {
+    if (!galleryEndpoint) return;
+    await runGalleryAction(() =>
+      apiRequest(`${galleryEndpoint}/${imageId}`, { method: "DELETE" }, token)
+    );
+  };
+
+  const selectedImage = images.find((image) => image.id === selectedImageId) || null;
+  const displayedImageUrl = selectedImage?.image_url || item.image_url;
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div
@@ -37,51 +273,244 @@ function ItemDetailsModal({ item, onClose, onEdit }: ItemDetailsModalProps) {
         </div>
 
         <div className="details-body">
-          {item.image_url && (
-            <div className="detail-image-container">
-              <img
-                src={item.image_url}
-                alt={item.name}
-                className="detail-image"
-              />
+          {hobbyId && (
+            <div className="details-tabs" role="tablist">
+              <button
+                type="button"
+                role="tab"
+                aria-selected={activeTab === "details"}
+                className={`details-tab${activeTab === "details" ? " active" : ""}`}
+                onClick={() => setActiveTab("details")}
+              >
+                Details
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={activeTab === "history"}
+                className={`details-tab${activeTab === "history" ? " active" : ""}`}
+                onClick={() => setActiveTab("history")}
+              >
+                History
+              </button>
             </div>
           )}
 
-          {item.category && (
+          {activeTab === "history" && hobbyId ? (
+            <ItemRevisionsPanel hobbyId={hobbyId} itemId={item.id} fields={itemFields} onRevert={onRevert} />
+          ) : (
+            <>
+            {displayedImageUrl && (
+              <div className="detail-image-container">
+                <img
+                  src={imageVariantUrl(displayedImageUrl, "medium")}
+                  alt={item.name}
+                  className="detail-image"
+                />
+              </div>
+            )}
+
+            {galleryEndpoint && (
+              <div className="detail-section">
+                <h3>Photos</h3>
+                {images.length > 0 && (
+                  <div className="detail-gallery">
+                    {images.map((image, index) => (
+                      <div
+                        key={image.id}
+                        className={`gallery-thumb${image.id === selectedImageId ? " selected" : ""}`}
+                      >
+                        <button
+                          type="button"
+                          className="gallery-thumb-image"
+                          onClick={() => setSelectedImageId(image.id)}
+                          aria-label={`Show photo ${index + 1}`}
+                        >
+                          <img src={imageVariantUrl(image.image_url, "thumb")} alt={`${item.name} photo ${index + 1}`} loading="lazy" />
+                          {image.is_primary && <span className="gallery-primary-badge">Primary</span>}
+                        </button>
+                        <div className="gallery-thumb-actions">
+                          <button
+                            type="button"
+                            onClick={() => handleMove(image.id, -1)}
+                            disabled={galleryBusy || index === 0}
+                            aria-label="Move photo earlier"
+                          >
+                            ←
+                          </button>
+                          {!image.is_primary && (
+                            <button
+                              type="button"
+                              onClick={() => handleMakePrimary(image.id)}
+                              disabled={galleryBusy}
+                              aria-label="Make primary photo"
+                            >
+                              ★
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => handleRemove(image.id)}
+                            disabled={galleryBusy}
+                            aria-label="Remove photo"
+                          >
+                            ✕
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleMove(image.id, 1)}
+                            disabled={galleryBusy || index === images.length - 1}
+                            aria-label="Move photo later"
+                          >
+                            →
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handleAddPhotos}
+                  style={{ display: "none" }}
+                />
+                <button
+                  type="button"
+                  className="secondary-action-button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={galleryBusy}
+                >
+                  {galleryBusy ? "Updating..." : "📷 Add Photos"}
+                </button>
+                {galleryError && <div className="error-message">{galleryError}</div>}
+              </div>
+            )}
+
             <div className="detail-row">
-              <span className="detail-label">Category</span>
-              <span className="detail-value badge">{item.category}</span>
+              <span className="detail-label">Status</span>
+              <span className="detail-value">{itemStatusLabel(item.status)}</span>
             </div>
-          )}
 
-          <div className="detail-section">
-            <h3>Description</h3>
-            <p className="detail-description">
-              {item.description || "No description provided."}
-            </p>
-          </div>
+            {item.location && (
+              <div className="detail-row">
+                <span className="detail-label">Location</span>
+                <span className="detail-value">{item.location.path}</span>
+              </div>
+            )}
 
-          {item.tags && item.tags.length > 0 && (
-            <div className="detail-section">
-              <h3>Tags</h3>
-              <div className="detail-tags">
-                {item.tags.map((tag, index) => (
-                  <span key={index} className="tag">
-                    #{tag}
+            {item.category && (
+              <div className="detail-row">
+                <span className="detail-label">Category</span>
+                <span className="detail-value badge">{item.category}</span>
+              </div>
+            )}
+
+            {itemFields
+              .filter((field) => customFieldValue(item.custom_fields, field.key) !== undefined)
+              .map((field) => (
+                <div className="detail-row" key={field.key}>
+                  <span className="detail-label">{field.label}</span>
+                  <span className="detail-value">
+                    {formatCustomFieldValue(field, customFieldValue(item.custom_fields, field.key)!)}
                   </span>
-                ))}
+                </div>
+              ))}
+
+            {item.purchase_price != null && (
+              <div className="detail-row">
+                <span className="detail-label">Purchased</span>
+                <span className="detail-value">
+                  {formatMoney(item.purchase_price, item.currency)}
+                  {item.purchase_date && ` on ${new Date(`${item.purchase_date}T00:00:00`).toLocaleDateString()}`}
+                </span>
+              </div>
+            )}
+
+            {item.estimated_value != null && (
+              <div className="detail-row">
+                <span className="detail-label">Estimated value</span>
+                <span className="detail-value">{formatMoney(item.estimated_value, item.currency)}</span>
               </div>
+            )}
+
+            <div className="detail-section">
+              <h3>Description</h3>
+              <p className="detail-description">
+                {item.description || "No description provided."}
+              </p>
             </div>
-          )}
 
-          <div className="detail-actions">
-            <button
-              className="secondary-action-button"
-              onClick={onEdit}
-            >
-              Edit Item
-            </button>
-          </div>
+            {item.tags && item.tags.length > 0 && (
+              <div className="detail-section">
+                <h3>Tags</h3>
+                <div className="detail-tags">
+                  {item.tags.map((tag, index) => (
+                    <span key={index} className="tag">
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {hobbyId && (
+              <ItemLoanPanel
+                hobbyId={hobbyId}
+                itemId={item.id}
+                canLend={(item.status || "owned") === "owned"}
+                onLoanChange={onLoanChange}
+              />
+            )}
+
+            {valueHistory.length > 1 && (
+              <div className="detail-section">
+                <h3>Value History</h3>
+                <ul className="detail-description" style={{ paddingLeft: "1.25rem", margin: 0 }}>
+                  {valueHistory
+                    .slice()
+                    .reverse()
+                    .map((entry) => (
+                      <li key={entry.id}>
+                        {new Date(entry.recorded_at * 1000).toLocaleDateString()}:{" "}
+                        {entry.value === null ? "cleared" : formatMoney(entry.value, entry.currency)}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+
+            {statusHistory.length > 1 && (
+              <div className="detail-section">
+                <h3>Status History</h3>
+                <ul className="detail-description" style={{ paddingLeft: "1.25rem", margin: 0 }}>
+                  {statusHistory
+                    .slice()
+                    .reverse()
+                    .map((entry) => (
+                      <li key={entry.id}>
+                        {new Date(entry.changed_at * 1000).toLocaleDateString()}:{" "}
+                        {entry.from_status
+                          ? `${itemStatusLabel(entry.from_status)} → ${itemStatusLabel(entry.to_status)}`
+                          : `Added as ${itemStatusLabel(entry.to_status).toLowerCase()}`}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="detail-actions">
+              <button
+                className="secondary-action-button"
+                onClick={onEdit}
+              >
+                Edit Item
+              </button>
+            </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,195 @@
+/**
+ * Loans section of the item details modal.
+ * Shows who currently has the item, lets the user lend it out or mark it
+ * returned, and lists past loans.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import { describeLoan, type ItemLoan } from "../utils/loans";
+
+interface ItemLoanPanelProps {
+  hobbyId: string;
+  itemId: string;
+  /** Only owned items can be lent out. */
+  canLend: boolean;
+  /** Called with the item's open loan (or null) whenever it changes. */
+  onLoanChange?: (loan: ItemLoan | null) => void;
+}
+
+function ItemLoanPanel({ hobbyId, itemId, canLend, onLoanChange }: ItemLoanPanelProps) {
+  const { token } = useAuth();
+  const [loans, setLoans] = useState<ItemLoan[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [borrowerName, setBorrowerName] = useState("");
+  const [borrowerContact, setBorrowerContact] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const loansEndpoint = `/api/hobbies/${hobbyId}/items/${itemId}/loans`;
+
+  const fetchLoans = useCallback(async () => {
+    try {
+      const response = await apiRequest(loansEndpoint, { method: "GET" }, token);
+      const data = await parseResponse<{ loans: ItemLoan[] }>(response);
+      setLoans(data.loans);
+    } catch (err) {
+      console.error("Error loading loans:", err);
+    }
+  }, [loansEndpoint, token]);
+
+  useEffect(() => {
+    fetchLoans();
+  }, [fetchLoans]);
+
+  const openLoan = loans.find((loan) => !loan.returned_date) ?? null;
+  const pastLoans = loans.filter((loan) => loan.returned_date);
+
+  const handleLend = async () => {
+    if (!borrowerName.trim()) return;
+    try {
+      setSaving(true);
+      setError("");
+      const response = await apiRequest(
+        loansEndpoint,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            borrowerName: borrowerName.trim(),
+            borrowerContact: borrowerContact.trim() || null,
+            dueDate: dueDate || null,
+          }),
+        },
+        token
+      );
+      const data = await parseResponse<{ loan: ItemLoan }>(response);
+      setLoans((current) => [data.loan, ...current]);
+      setShowForm(false);
+      setBorrowerName("");
+      setBorrowerContact("");
+      setDueDate("");
+      onLoanChange?.(data.loan);
+    } catch (err) {
+      console.error("Error lending item:", err);
+      const message = err instanceof Error ? err.message : "Failed to lend item";
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReturn = async (loan: ItemLoan) => {
+    try {
+      setSaving(true);
+      setError("");
+      const response = await apiRequest(
+        `${loansEndpoint}/${loan.id}/return`,
+        { method: "PUT", body: JSON.stringify({}) },
+        token
+      );
+      const data = await parseResponse<{ loan: ItemLoan }>(response);
+      setLoans((current) => current.map((entry) => (entry.id === loan.id ? data.loan : entry)));
+      onLoanChange?.(null);
+    } catch (err) {
+      console.error("Error returning loan:", err);
+      const message = err instanceof Error ? err.message : "Failed to mark as returned";
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!openLoan && pastLoans.length === 0 && !canLend) {
+    return null;
+  }
+
+  return (
+    <div className="detail-section">
+      <h3>Loans</h3>
+
+      {openLoan ? (
+        <div className="detail-row">
+          <span className={`item-loan-badge${openLoan.overdue ? " overdue" : ""}`}>
+            {openLoan.overdue ? "Overdue" : "On loan"}
+          </span>
+          <span className="detail-value">
+            {describeLoan(openLoan)}
+            {openLoan.borrower_contact && ` (${openLoan.borrower_contact})`}
+          </span>
+          <button
+            type="button"
+            className="secondary-action-button"
+            onClick={() => handleReturn(openLoan)}
+            disabled={saving}
+          >
+            ↩️ Returned
+          </button>
+        </div>
+      ) : showForm ? (
+        <div>
+          <div className="form-group">
+            <label htmlFor={`loan-borrower-${itemId}`}>Borrower *</label>
+            <input
+              id={`loan-borrower-${itemId}`}
+              type="text"
+              value={borrowerName}
+              onChange={(e) => setBorrowerName(e.target.value)}
+              className="form-input"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor={`loan-contact-${itemId}`}>Contact</label>
+            <input
+              id={`loan-contact-${itemId}`}
+              type="text"
+              value={borrowerContact}
+              onChange={(e) => setBorrowerContact(e.target.value)}
+              className="form-input"
+              placeholder="Email or phone (optional)"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor={`loan-due-${itemId}`}>Due back</label>
+            <input
+              id={`loan-due-${itemId}`}
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="form-input"
+            />
+          </div>
+          <div style={{ display: "flex", gap: "0.5rem" }}>
+            <button type="button" className="save-button" onClick={handleLend} disabled={saving || !borrowerName.trim()}>
+              {saving ? "Saving..." : "Lend Item"}
+            </button>
+            <button type="button" className="cancel-button" onClick={() => setShowForm(false)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        canLend && (
+          <button type="button" className="secondary-action-button" onClick={() => setShowForm(true)}>
+            🤝 Lend Item
+          </button>
+        )
+      )}
+
+      {pastLoans.length > 0 && (
+        <ul className="detail-description" style={{ paddingLeft: "1.25rem", marginTop: "0.75rem" }}>
+          {pastLoans.map((loan) => (
+            <li key={loan.id}>
+              {loan.lent_date}: {describeLoan(loan)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default ItemLoanPanel;
@@ -0,0 +1,118 @@
+/**
+ * History tab of the item details modal.
+ * Lists earlier versions of the item with the fields each edit changed, and
+ * lets the user restore one of them.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import type { CustomFieldDefinition } from "../utils/customFields";
+import { formatRevisionValue, revisionFieldLabel, type ItemRevision } from "../utils/revisions";
+
+interface ItemRevisionsPanelProps {
+  hobbyId: string;
+  itemId: string;
+  /** The hobby's custom field definitions, used to label custom field changes. */
+  fields: CustomFieldDefinition[];
+  /** Called with the restored item after a revert. */
+  onRevert?: (item: Record<string, unknown>) => void;
+}
+
+function ItemRevisionsPanel({ hobbyId, itemId, fields, onRevert }: ItemRevisionsPanelProps) {
+  const { token } = useAuth();
+  const [revisions, setRevisions] = useState<ItemRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [reverting, setReverting] = useState(false);
+  const [error, setError] = useState("");
+
+  const revisionsEndpoint = `/api/hobbies/${hobbyId}/items/${itemId}/revisions`;
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const response = await apiRequest(revisionsEndpoint, { method: "GET" }, token);
+      const data = await parseResponse<{ revisions: ItemRevision[] }>(response);
+      setRevisions(data.revisions);
+    } catch (err) {
+      console.error("Error loading item history:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [revisionsEndpoint, token]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const handleRevert = async (revision: ItemRevision) => {
+    try {
+      setReverting(true);
+      setError("");
+      const response = await apiRequest(`${revisionsEndpoint}/${revision.id}/revert`, { method: "POST" }, token);
+      const data = await parseResponse<{ item: Record<string, unknown> }>(response);
+      setConfirmingId(null);
+      onRevert?.(data.item);
+      await fetchRevisions();
+    } catch (err) {
+      console.error("Error reverting item:", err);
+      const message = err instanceof Error ? err.message : "Failed to revert item";
+      setError(message);
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="detail-description">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="empty-state">
+        <p className="empty-hint">No earlier versions yet. Each time the item is edited, the previous version is kept here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {revisions.map((revision) => (
+        <div key={revision.id} className="detail-section revision-entry">
+          <h3>{new Date(revision.created_at * 1000).toLocaleString()}</h3>
+          <ul className="revision-changes">
+            {revision.changes.map((change) => (
+              <li key={change.field}>
+                <span className="detail-label">{revisionFieldLabel(change.field)}</span>{" "}
+                <span className="revision-from">
+                  {formatRevisionValue(change.field, change.from, { currency: revision.snapshot.currency, fields })}
+                </span>{" "}
+                →{" "}
+                <span className="revision-to">
+                  {formatRevisionValue(change.field, change.to, { currency: revision.snapshot.currency, fields })}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {confirmingId === revision.id ? (
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <button type="button" className="save-button" onClick={() => handleRevert(revision)} disabled={reverting}>
+                {reverting ? "Reverting..." : "Confirm Revert"}
+              </button>
+              <button type="button" className="cancel-button" onClick={() => setConfirmingId(null)} disabled={reverting}>
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button type="button" className="secondary-action-button" onClick={() => setConfirmingId(revision.id)}>
+              ↩️ Revert to this version
+            </button>
+          )}
+        </div>
+      ))}
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default ItemRevisionsPanel;
@@ -0,0 +1,61 @@
+/**
+ * Dropdown for choosing where an item is kept.
+ * Loads the user's storage locations and lists them by full path.
+ */
+
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import { sortLocationsByPath, type StorageLocation } from "../utils/locations";
+
+interface LocationSelectProps {
+  id: string;
+  /** Selected location ID, or "" for no location. */
+  value: string;
+  onChange: (locationId: string) => void;
+  disabled?: boolean;
+}
+
+function LocationSelect({ id, value, onChange, disabled = false }: LocationSelectProps) {
+  const { token } = useAuth();
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const response = await apiRequest("/api/locations", { method: "GET" }, token);
+        const data = await parseResponse<{ locations: StorageLocation[] }>(response);
+        setLocations(sortLocationsByPath(data.locations));
+      } catch (err) {
+        console.error("Error loading locations:", err);
+      }
+    };
+    fetchLocations();
+  }, [token]);
+
+  return (
+    <div className="form-group">
+      <label htmlFor={id}>Location</label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="form-input"
+      >
+        <option value="">Not set</option>
+        {locations.map((location) => (
+          <option key={location.id} value={location.id}>
+            {location.path}
+          </option>
+        ))}
+      </select>
+      <p className="form-hint">
+        Where the item is kept. <Link to="/locations">Manage locations</Link>
+      </p>
+    </div>
+  );
+}
+
+export default LocationSelect;
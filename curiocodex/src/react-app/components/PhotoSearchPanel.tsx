@@ -0,0 +1,201 @@
+/**
+ * "Do I already own this?" panel. Takes or uploads a photo, searches the
+ * user's items for things that look like it and lists them with their
+ * similarity, flagging likely duplicates.
+ */
+
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import CameraCapture from "./CameraCapture";
+import { apiRequest, parseResponse } from "../utils/api";
+import { imageVariantUrl } from "../utils/images";
+import type { ImageSearchResponse } from "../utils/search";
+import "./PhotoSearchPanel.css";
+
+/** Matches the server's limit on photos analyzed together. */
+const MAX_SEARCH_PHOTOS = 4;
+
+interface PhotoSearchPanelProps {
+  /** The user's hobbies, offered to narrow the search to one. */
+  hobbies: { id: string; name: string }[];
+}
+
+function PhotoSearchPanel({ hobbies }: PhotoSearchPanelProps) {
+  const { token } = useAuth();
+  const [hobbyId, setHobbyId] = useState("");
+  const [showCamera, setShowCamera] = useState(false);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState("");
+  const [result, setResult] = useState<ImageSearchResponse | null>(null);
+
+  /**
+   * Search with the given photos of one object, showing the first one
+   * alongside the results.
+   */
+  const searchWithPhotos = async (files: File[]) => {
+    const reader = new FileReader();
+    reader.onloadend = () => setPreview(reader.result as string);
+    reader.readAsDataURL(files[0]);
+
+    try {
+      setSearching(true);
+      setError("");
+      setResult(null);
+
+      const formData = new FormData();
+      files.forEach((file) => formData.append("image", file));
+      if (hobbyId) {
+        formData.append("hobbyId", hobbyId);
+      }
+
+      const response = await apiRequest("/api/search/by-image", { method: "POST", body: formData }, token);
+      setResult(await parseResponse<ImageSearchResponse>(response));
+    } catch (err) {
+      console.error("Error searching by photo:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to search by photo";
+      setError(errorMessage);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    if (files.length > MAX_SEARCH_PHOTOS) {
+      setError(`Search with at most ${MAX_SEARCH_PHOTOS} photos`);
+      return;
+    }
+    if (files.some((file) => !file.type.startsWith("image/"))) {
+      setError("Please select an image file");
+      return;
+    }
+    searchWithPhotos(files);
+  };
+
+  const duplicates = result?.matches.filter((match) => match.likely_duplicate).length ?? 0;
+
+  return (
+    <div className="photo-search-section">
+      <div className="recommendations-header">
+        <h2>📷 Do I Already Own This?</h2>
+        <p className="recommendations-subtitle">
+          Photograph something, at a flea market or a friend's shelf, and check your collection for it or
+          anything like it.
+        </p>
+      </div>
+
+      <div className="photo-search-controls">
+        <input
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleFileChange}
+          disabled={searching || showCamera}
+          className="form-input"
+          aria-label="Photos to search with"
+        />
+        <button
+          type="button"
+          onClick={() => setShowCamera((open) => !open)}
+          disabled={searching}
+          className="camera-button"
+        >
+          {showCamera ? "📷 Stop Camera" : "📷 Take Photo"}
+        </button>
+        <select
+          value={hobbyId}
+          onChange={(e) => setHobbyId(e.target.value)}
+          disabled={searching}
+          className="form-input photo-search-hobby"
+          aria-label="Hobby to search in"
+        >
+          <option value="">All hobbies</option>
+          {hobbies.map((hobby) => (
+            <option key={hobby.id} value={hobby.id}>
+              {hobby.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="recommendations-hint">
+        Up to {MAX_SEARCH_PHOTOS} photos of the same object; AI describes them and looks for your items that match.
+      </p>
+
+      {showCamera && (
+        <CameraCapture
+          onCapture={(file) => searchWithPhotos([file])}
+          onClose={() => setShowCamera(false)}
+          onError={setError}
+          disabled={searching}
+        />
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+      {searching && <p className="photo-search-status">🔍 Looking at your photo...</p>}
+
+      {result && !searching && (
+        <div className="photo-search-results">
+          <div className="photo-search-analysis">
+            {preview && <img src={preview} alt="Searched photo" className="photo-search-preview" />}
+            <div>
+              <h3>Looks like: {result.analysis.name}</h3>
+              <p className="card-description">{result.analysis.description}</p>
+              <p className="photo-search-verdict">
+                {duplicates > 0
+                  ? `You probably own this already: ${duplicates} likely ${duplicates === 1 ? "duplicate" : "duplicates"}.`
+                  : result.matches.length > 0
+                    ? "Nothing that looks like a duplicate, but you own similar items."
+                    : "Nothing like it in your collection yet."}
+              </p>
+            </div>
+          </div>
+
+          {result.matches.length > 0 && (
+            <div className="results-grid">
+              {result.matches.map((match) => (
+                <div
+                  key={match.id}
+                  className={`result-card item-card${match.likely_duplicate ? " photo-search-duplicate" : ""}`}
+                >
+                  <div className="card-glow"></div>
+                  <div className="similarity-badge">
+                    {match.likely_duplicate && "Likely duplicate · "}
+                    {Math.round(match.similarity * 100)}% match
+                  </div>
+                  {match.image_url && (
+                    <img
+                      src={imageVariantUrl(match.image_url, "thumb")}
+                      alt={match.name}
+                      loading="lazy"
+                      className="photo-search-thumb"
+                    />
+                  )}
+                  <h4>{match.name}</h4>
+                  {match.description && <p className="card-description">{match.description}</p>}
+                  {match.category && (
+                    <div className="card-category">
+                      <span className="category-label">Category:</span>
+                      <span className="category-value">{match.category}</span>
+                    </div>
+                  )}
+                  <div className="card-footer">
+                    <Link to={`/hobbies/${match.hobby_id}/items`} className="view-link">
+                      In {match.hobby_name} →
+                    </Link>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PhotoSearchPanel;
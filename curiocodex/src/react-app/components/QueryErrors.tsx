@@ -0,0 +1,38 @@
+/**
+ * Search query errors - Shows the submitted query with the parts the server
+ * could not parse marked, followed by what is wrong with each.
+ */
+
+import { splitQueryErrors, type QueryError } from "../utils/search";
+import "./QueryErrors.css";
+
+interface QueryErrorsProps {
+  /** The query exactly as it was sent, so error ranges line up. */
+  query: string;
+  errors: QueryError[];
+}
+
+function QueryErrors({ query, errors }: QueryErrorsProps) {
+  return (
+    <div className="query-errors" role="alert">
+      <code className="query-errors-query">
+        {splitQueryErrors(query, errors).map((segment, index) =>
+          segment.error ? (
+            <mark key={index} className="query-error-mark" title={segment.error}>
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </code>
+      <ul className="query-errors-list">
+        {errors.map((error) => (
+          <li key={`${error.start}-${error.end}`}>{error.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default QueryErrors;
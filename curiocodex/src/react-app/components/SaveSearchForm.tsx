@@ -0,0 +1,111 @@
+/**
+ * "Save search" button and form. Saves the current query, mode and filters
+ * as a smart collection, optionally with alerts for new matches.
+ */
+
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import type { SavedSearch, SavedSearchDraft } from "../utils/savedSearches";
+import "./SaveSearchForm.css";
+
+interface SaveSearchFormProps {
+  search: SavedSearchDraft;
+  /** Called with the saved search once it has been created. */
+  onSaved?: (saved: SavedSearch) => void;
+  /** Point to the Items page, where saved searches are listed. */
+  linkToItems?: boolean;
+}
+
+function SaveSearchForm({ search, onSaved, linkToItems = false }: SaveSearchFormProps) {
+  const { token } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [notify, setNotify] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [savedName, setSavedName] = useState("");
+
+  const handleOpen = () => {
+    setName(search.query);
+    setNotify(false);
+    setError("");
+    setSavedName("");
+    setOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      setSaving(true);
+      setError("");
+      const response = await apiRequest(
+        "/api/saved-searches",
+        { method: "POST", body: JSON.stringify({ ...search, name: name.trim(), notify }) },
+        token
+      );
+      const data = await parseResponse<{ saved_search: SavedSearch }>(response);
+      setSavedName(data.saved_search.name);
+      setOpen(false);
+      onSaved?.(data.saved_search);
+    } catch (err) {
+      console.error("Error saving search:", err);
+      const message = err instanceof Error ? err.message : "Failed to save search";
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <div className="save-search">
+        <button type="button" className="save-search-button" onClick={handleOpen}>
+          ⭐ Save search
+        </button>
+        {savedName && (
+          <span className="save-search-saved">
+            Saved as "{savedName}"
+            {linkToItems && (
+              <>
+                {" "}
+                · <Link to="/items">open it from Items</Link>
+              </>
+            )}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form className="save-search save-search-form" onSubmit={handleSave}>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name this search"
+        className="save-search-name"
+        maxLength={100}
+        autoFocus
+        disabled={saving}
+      />
+      <label className="save-search-notify">
+        <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} disabled={saving} />
+        Notify me when new matches appear
+      </label>
+      <button type="submit" className="save-search-button" disabled={saving || !name.trim()}>
+        {saving ? "Saving..." : "Save"}
+      </button>
+      <button type="button" className="save-search-cancel" onClick={() => setOpen(false)} disabled={saving}>
+        Cancel
+      </button>
+      {error && <div className="error-message">{error}</div>}
+    </form>
+  );
+}
+
+export default SaveSearchForm;
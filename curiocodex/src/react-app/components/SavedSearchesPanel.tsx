@@ -0,0 +1,155 @@
+/**
+ * Saved searches sidebar of the Items page.
+ * Lists the user's smart collections with their new-match counts. Opening
+ * one runs it again; alerts for new matches can be switched on or off and
+ * collections deleted from here.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import { describeNewMatches, type SavedSearch } from "../utils/savedSearches";
+import { SEARCH_MODE_LABELS } from "../utils/search";
+import ConfirmModal from "./ConfirmModal";
+import "./SavedSearchesPanel.css";
+
+interface SavedSearchesPanelProps {
+  /** The saved search currently shown, if any. */
+  activeId: string | null;
+  onOpen: (search: SavedSearch) => void;
+  /** Called after the saved search with this ID has been deleted. */
+  onDelete?: (id: string) => void;
+  /** Change to reload the list, e.g. after a search was saved or seen. */
+  reloadKey?: number;
+}
+
+function SavedSearchesPanel({ activeId, onOpen, onDelete, reloadKey = 0 }: SavedSearchesPanelProps) {
+  const { token } = useAuth();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<SavedSearch | null>(null);
+
+  const fetchSearches = useCallback(async () => {
+    try {
+      const response = await apiRequest("/api/saved-searches", { method: "GET" }, token);
+      const data = await parseResponse<{ saved_searches: SavedSearch[] }>(response);
+      setSearches(data.saved_searches);
+      setError("");
+    } catch (err) {
+      console.error("Error loading saved searches:", err);
+      const message = err instanceof Error ? err.message : "Failed to load saved searches";
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchSearches();
+  }, [fetchSearches, reloadKey]);
+
+  const handleToggleNotify = async (search: SavedSearch) => {
+    try {
+      setBusyId(search.id);
+      const response = await apiRequest(
+        `/api/saved-searches/${search.id}`,
+        { method: "PUT", body: JSON.stringify({ notify: !search.notify }) },
+        token
+      );
+      const data = await parseResponse<{ saved_search: SavedSearch }>(response);
+      setSearches((current) => current.map((entry) => (entry.id === search.id ? data.saved_search : entry)));
+    } catch (err) {
+      console.error("Error updating saved search:", err);
+      const message = err instanceof Error ? err.message : "Failed to update saved search";
+      setError(message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    try {
+      setBusyId(search.id);
+      setDeleteConfirm(null);
+      const response = await apiRequest(`/api/saved-searches/${search.id}`, { method: "DELETE" }, token);
+      await parseResponse(response);
+      setSearches((current) => current.filter((entry) => entry.id !== search.id));
+      onDelete?.(search.id);
+    } catch (err) {
+      console.error("Error deleting saved search:", err);
+      const message = err instanceof Error ? err.message : "Failed to delete saved search";
+      setError(message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <aside className="saved-searches" aria-label="Saved searches">
+      <h3 className="saved-searches-title">Smart collections</h3>
+
+      {loading && <p className="saved-searches-hint">Loading...</p>}
+      {error && <div className="error-message">{error}</div>}
+
+      {!loading && searches.length === 0 && (
+        <p className="saved-searches-hint">
+          Save a search here or on <Link to="/discover">Discover</Link> to keep it as a collection that updates
+          itself.
+        </p>
+      )}
+
+      <ul className="saved-searches-list">
+        {searches.map((search) => {
+          const newMatches = describeNewMatches(search.new_count);
+          return (
+            <li key={search.id} className={`saved-search ${activeId === search.id ? "active" : ""}`}>
+              <button type="button" className="saved-search-open" onClick={() => onOpen(search)}>
+                <span className="saved-search-name">{search.name}</span>
+                {newMatches && <span className="saved-search-new">{newMatches}</span>}
+                <span className="saved-search-query">
+                  {search.query} · {SEARCH_MODE_LABELS[search.mode]}
+                </span>
+              </button>
+              <div className="saved-search-actions">
+                <button
+                  type="button"
+                  className={`saved-search-notify ${search.notify ? "on" : ""}`}
+                  onClick={() => handleToggleNotify(search)}
+                  disabled={busyId === search.id}
+                  aria-pressed={search.notify}
+                  title={search.notify ? "Stop notifying about new matches" : "Notify me when new matches appear"}
+                >
+                  {search.notify ? "🔔" : "🔕"}
+                </button>
+                <button
+                  type="button"
+                  className="saved-search-delete"
+                  onClick={() => setDeleteConfirm(search)}
+                  disabled={busyId === search.id}
+                  title="Delete saved search"
+                >
+                  🗑️
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {deleteConfirm && (
+        <ConfirmModal
+          title="Delete Saved Search?"
+          message={`"${deleteConfirm.name}" will be removed from your smart collections. The items it matched are not affected.`}
+          confirmLabel="Delete"
+          onCancel={() => setDeleteConfirm(null)}
+          onConfirm={() => handleDelete(deleteConfirm)}
+        />
+      )}
+    </aside>
+  );
+}
+
+export default SavedSearchesPanel;
@@ -0,0 +1,37 @@
+/**
+ * Progress bar showing how much of a set has been collected.
+ */
+
+interface SetProgressBarProps {
+  name: string;
+  collected: number;
+  total: number;
+  percent: number;
+  /** Smaller variant for hobby cards. */
+  compact?: boolean;
+}
+
+function SetProgressBar({ name, collected, total, percent, compact = false }: SetProgressBarProps) {
+  return (
+    <div className={`set-progress${compact ? " compact" : ""}`}>
+      <div className="set-progress-label">
+        <span className="set-progress-name">{name}</span>
+        <span className="set-progress-count">
+          {collected}/{total} · {percent}%
+        </span>
+      </div>
+      <div
+        className="set-progress-track"
+        role="progressbar"
+        aria-label={`${name} completion`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className="set-progress-fill" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
+
+export default SetProgressBar;
@@ -0,0 +1,81 @@
+/**
+ * Form inputs for an item's purchase price, purchase date, currency and
+ * estimated current value.
+ */
+
+import { DEFAULT_CURRENCY, type ValuationDraft } from "../utils/valuation";
+
+interface ValuationInputsProps {
+  values: ValuationDraft;
+  onChange: (values: ValuationDraft) => void;
+  /** Prefix for input ids so several forms can share a page. */
+  idPrefix: string;
+  disabled?: boolean;
+}
+
+function ValuationInputs({ values, onChange, idPrefix, disabled = false }: ValuationInputsProps) {
+  const setValue = (key: keyof ValuationDraft, value: string) => {
+    onChange({ ...values, [key]: value });
+  };
+
+  return (
+    <div className="form-group">
+      <label>Value</label>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem" }}>
+        <input
+          id={`${idPrefix}-purchase-price`}
+          type="number"
+          min="0"
+          step="0.01"
+          value={values.purchasePrice}
+          onChange={(e) => setValue("purchasePrice", e.target.value)}
+          className="form-input"
+          placeholder="Purchase price"
+          aria-label="Purchase price"
+          disabled={disabled}
+          style={{ flex: "1 1 8rem" }}
+        />
+        <input
+          id={`${idPrefix}-purchase-date`}
+          type="date"
+          value={values.purchaseDate}
+          onChange={(e) => setValue("purchaseDate", e.target.value)}
+          className="form-input"
+          aria-label="Purchase date"
+          disabled={disabled}
+          style={{ flex: "1 1 8rem" }}
+        />
+        <input
+          id={`${idPrefix}-estimated-value`}
+          type="number"
+          min="0"
+          step="0.01"
+          value={values.estimatedValue}
+          onChange={(e) => setValue("estimatedValue", e.target.value)}
+          className="form-input"
+          placeholder="Estimated value"
+          aria-label="Estimated current value"
+          disabled={disabled}
+          style={{ flex: "1 1 8rem" }}
+        />
+        <input
+          id={`${idPrefix}-currency`}
+          type="text"
+          maxLength={3}
+          value={values.currency}
+          onChange={(e) => setValue("currency", e.target.value.toUpperCase())}
+          className="form-input"
+          placeholder={DEFAULT_CURRENCY}
+          aria-label="Currency"
+          disabled={disabled}
+          style={{ flex: "0 1 5rem" }}
+        />
+      </div>
+      <p className="form-hint">
+        Optional. Used for valuation reports; the estimate is tracked over time.
+      </p>
+    </div>
+  );
+}
+
+export default ValuationInputs;
@@ -1,43 +1,33 @@
 /**
  * Activity page - Shows a running list of the user's recent activity.
- * Uses the backend activity feed to display newly created hobbies and items,
- * with multiple layout modes and simple pagination.
+ * Uses the backend activity log to display everything that changed in the
+ * collection (new, edited, moved and deleted hobbies and items, photos,
+ * values, loans, sets and locations), filterable by event type and hobby,
+ * with multiple layout modes and "load more" paging.
  */
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useAuth } from "../hooks/useAuth";
 import { apiRequest, parseResponse } from "../utils/api";
+import {
+  ACTIVITY_BADGE_LABELS,
+  ACTIVITY_EVENT_LABELS,
+  ACTIVITY_EVENT_TYPES,
+  activityBadge,
+  activityTitle,
+  describeActivity,
+  type ActivityEvent,
+  type ActivityEventType,
+} from "../utils/activity";
 import ViewToggle, { type ViewMode } from "../components/ViewToggle";
+import "./Items.css";
 
-type ActivityEvent =
-  | {
-      id: string;
-      type: "hobby_created";
-      created_at: number;
-      hobby: {
-        id: string;
-        name: string;
-        description: string | null;
-        category: string | null;
-        tags: string[];
-      };
-    }
-  | {
-      id: string;
-      type: "item_created";
-      created_at: number;
-      hobby: {
-        id: string;
-        name: string;
-      };
-      item: {
-        id: string;
-        name: string;
-        description: string | null;
-        category: string | null;
-        tags: string[];
-      };
-    };
+interface HobbyOption {
+  id: string;
+  name: string;
+}
+
+const PAGE_SIZE = 20;
 
 function formatTimestamp(timestamp: number): string {
   const date = new Date(timestamp * 1000);
@@ -53,66 +43,72 @@ function formatTimestamp(timestamp: number): string {
 function Activity() {
   const { token, isAuthenticated } = useAuth();
   const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState("");
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(5);
-  const [total, setTotal] = useState(0);
-  const [totalPages, setTotalPages] = useState(1);
+  const [hobbies, setHobbies] = useState<HobbyOption[]>([]);
+  const [filterType, setFilterType] = useState<ActivityEventType | "all">("all");
+  const [filterHobbyId, setFilterHobbyId] = useState("all");
   const [viewMode, setViewMode] = useState<ViewMode>("card");
 
-  // Adjust page size when the user changes the view mode so each layout
-  // shows a reasonable amount of activity per page.
-  useEffect(() => {
-    if (viewMode === "card") {
-      setPageSize(5);
-    } else if (viewMode === "list") {
-      setPageSize(10);
-    } else {
-      setPageSize(10);
-    }
-    setPage(1);
-  }, [viewMode]);
-
   useEffect(() => {
     if (!isAuthenticated) return;
 
-    const fetchActivity = async () => {
+    const fetchHobbies = async () => {
       try {
-        setLoading(true);
-        setError("");
+        const response = await apiRequest("/api/hobbies", { method: "GET" }, token);
+        const data = await parseResponse<{ hobbies: HobbyOption[] }>(response);
+        setHobbies(data.hobbies);
+      } catch (err) {
+        console.error("Error fetching hobbies:", err);
+      }
+    };
+
+    fetchHobbies();
+  }, [isAuthenticated, token]);
 
-        const response = await apiRequest(
-          `/api/activity/recent?page=${page}&pageSize=${pageSize}`,
-          { method: "GET" },
-          token
-        );
+  /**
+   * Fetch a page of activity matching the current filters. Without a cursor
+   * the list starts over; with one the page is appended.
+   */
+  const fetchActivity = useCallback(
+    async (cursor: string | null) => {
+      const params = new URLSearchParams({ pageSize: String(PAGE_SIZE) });
+      if (filterType !== "all") params.set("type", filterType);
+      if (filterHobbyId !== "all") params.set("hobbyId", filterHobbyId);
+      if (cursor) params.set("cursor", cursor);
+
+      try {
+        if (cursor) {
+          setLoadingMore(true);
+        } else {
+          setLoading(true);
+        }
+        setError("");
 
-        const data = await parseResponse<{
-          events: ActivityEvent[];
-          page: number;
-          pageSize: number;
-          total: number;
-          totalPages: number;
-        }>(response);
+        const response = await apiRequest(`/api/activity/recent?${params.toString()}`, { method: "GET" }, token);
+        const data = await parseResponse<{ events: ActivityEvent[]; nextCursor: string | null }>(response);
 
-        setEvents(data.events || []);
-        setPage(data.page ?? page);
-        setPageSize(data.pageSize ?? pageSize);
-        setTotal(data.total ?? 0);
-        setTotalPages(data.totalPages ?? 1);
+        setEvents((current) => (cursor ? [...current, ...data.events] : data.events));
+        setNextCursor(data.nextCursor);
       } catch (err) {
         console.error("Error loading recent activity:", err);
-        const message =
-          err instanceof Error ? err.message : "Failed to load recent activity";
+        const message = err instanceof Error ? err.message : "Failed to load recent activity";
         setError(message);
       } finally {
         setLoading(false);
+        setLoadingMore(false);
       }
-    };
+    },
+    [filterType, filterHobbyId, token]
+  );
 
-    fetchActivity();
-  }, [isAuthenticated, token, page, pageSize]);
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchActivity(null);
+    }
+  }, [isAuthenticated, fetchActivity]);
 
   if (!isAuthenticated) {
     return (
@@ -125,23 +121,58 @@ function Activity() {
     );
   }
 
+  const filtered = filterType !== "all" || filterHobbyId !== "all";
+
   return (
     <div className="page">
       <h1>Recent Activity</h1>
       <div className="page-content">
         <div className="discover-header">
-          <p>See what you&apos;ve recently added to your collection.</p>
+          <p>See what you&apos;ve recently changed in your collection.</p>
           <p className="discover-hint">
-            New hobbies and items appear here in reverse chronological order.
+            New, edited, moved and deleted hobbies and items appear here in reverse chronological order.
           </p>
         </div>
 
+        <div className="items-filters">
+          <div className="items-filter-group">
+            <label className="items-filter-label">Activity</label>
+            <select
+              className="items-filter-select"
+              value={filterType}
+              onChange={(e) => setFilterType(e.target.value as ActivityEventType | "all")}
+            >
+              <option value="all">All activity</option>
+              {ACTIVITY_EVENT_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {ACTIVITY_EVENT_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="items-filter-group">
+            <label className="items-filter-label">Hobby</label>
+            <select
+              className="items-filter-select"
+              value={filterHobbyId}
+              onChange={(e) => setFilterHobbyId(e.target.value)}
+            >
+              <option value="all">All hobbies</option>
+              {hobbies.map((hobby) => (
+                <option key={hobby.id} value={hobby.id}>
+                  {hobby.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
         {!loading && !error && (
           <div className="activity-toolbar">
             <div className="activity-toolbar-summary">
               <span>
-                Showing {events.length} of {total} event
-                {total !== 1 ? "s" : ""} · Page {page} of {totalPages}
+                Showing {events.length} event{events.length !== 1 ? "s" : ""}
+                {nextCursor ? " · more available" : ""}
               </span>
             </div>
             <div className="activity-toolbar-controls">
@@ -157,29 +188,6 @@ function Activity() {
                   showIcon={false}
                 />
               </div>
-              <div className="activity-pagination">
-                <button
-                  type="button"
-                  className="activity-page-button"
-                  onClick={() => setPage((p) => Math.max(1, p - 1))}
-                  disabled={page <= 1 || loading}
-                >
-                  ‹ Prev
-                </button>
-                <span className="activity-page-info">
-                  Page {page} / {totalPages}
-                </span>
-                <button
-                  type="button"
-                  className="activity-page-button"
-                  onClick={() =>
-                    setPage((p) => (p < totalPages ? p + 1 : p))
-                  }
-                  disabled={page >= totalPages || loading}
-                >
-                  Next ›
-                </button>
-              </div>
             </div>
           </div>
         )}
@@ -199,15 +207,16 @@ function Activity() {
 
         {!loading && !error && events.length === 0 && (
           <div className="empty-state">
-            <p className="empty-message">No activity yet</p>
+            <p className="empty-message">{filtered ? "No matching activity" : "No activity yet"}</p>
             <p className="empty-hint">
-              Start by creating a hobby or adding an item, and your actions will
-              appear here.
+              {filtered
+                ? "Try a different activity type or hobby."
+                : "Start by creating a hobby or adding an item, and your actions will appear here."}
             </p>
           </div>
         )}
 
-        {!loading && !error && events.length > 0 && (
+        {!loading && events.length > 0 && (
           <>
             {viewMode === "card" ? (
               <div className="activity-timeline">
@@ -216,106 +225,60 @@ function Activity() {
                     <div className="card-glow"></div>
                     <div className="activity-entry-header">
                       <span className="activity-type">
-                        {event.type === "hobby_created"
-                          ? "New hobby added"
-                          : "New item added"}
+                        {ACTIVITY_EVENT_LABELS[event.type]}
                       </span>
                       <span className="activity-timestamp">
                         {formatTimestamp(event.created_at)}
                       </span>
                     </div>
 
-                    {event.type === "hobby_created" ? (
-                      <div className="activity-body">
-                        <h4>{event.hobby.name}</h4>
-                        {event.hobby.description && (
-                          <p className="card-description">
-                            {event.hobby.description}
-                          </p>
-                        )}
+                    <div className="activity-body">
+                      <h4>{activityTitle(event)}</h4>
+                      {event.type === "item_created" || event.type === "hobby_created" ? (
+                        event.description && (
+                          <p className="card-description">{event.description}</p>
+                        )
+                      ) : (
+                        <p className="card-description">{describeActivity(event)}</p>
+                      )}
+                      {event.hobby && event.item && (
                         <div className="card-category">
-                          <span className="category-label">Type:</span>
-                          <span className="category-value">Hobby</span>
+                          <span className="category-label">Hobby:</span>
+                          <span className="category-value">{event.hobby.name}</span>
                         </div>
-                        {event.hobby.category && (
-                          <div className="card-category">
-                            <span className="category-label">Category:</span>
-                            <span className="category-value">
-                              {event.hobby.category}
-                            </span>
-                          </div>
-                        )}
-                        {event.hobby.tags && event.hobby.tags.length > 0 && (
-                          <div className="card-tags">
-                            {event.hobby.tags.slice(0, 4).map((tag, index) => (
-                              <span key={index} className="tag">
-                                #{tag}
-                              </span>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    ) : (
-                      <div className="activity-body">
-                        <h4>{event.item.name}</h4>
-                        {event.item.description && (
-                          <p className="card-description">
-                            {event.item.description}
-                          </p>
-                        )}
+                      )}
+                      {event.category && (
                         <div className="card-category">
-                          <span className="category-label">Type:</span>
-                          <span className="category-value">Item</span>
+                          <span className="category-label">Category:</span>
+                          <span className="category-value">{event.category}</span>
                         </div>
-                        <div className="card-category">
-                          <span className="category-label">Hobby:</span>
-                          <span className="category-value">
-                            {event.hobby.name}
-                          </span>
-                        </div>
-                        {event.item.category && (
-                          <div className="card-category">
-                            <span className="category-label">Category:</span>
-                            <span className="category-value">
-                              {event.item.category}
+                      )}
+                      {event.tags && event.tags.length > 0 && (
+                        <div className="card-tags">
+                          {event.tags.slice(0, 4).map((tag, index) => (
+                            <span key={index} className="tag">
+                              #{tag}
                             </span>
-                          </div>
-                        )}
-                        {event.item.tags && event.item.tags.length > 0 && (
-                          <div className="card-tags">
-                            {event.item.tags.slice(0, 4).map((tag, index) => (
-                              <span key={index} className="tag">
-                                #{tag}
-                              </span>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    )}
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 ))}
               </div>
             ) : (
               <div className="activity-list">
                 {events.map((event) => {
-                  const isHobby = event.type === "hobby_created";
-                  const title = isHobby ? event.hobby.name : event.item.name;
-                  const subtitle = isHobby
-                    ? event.hobby.category || "Hobby"
-                    : event.item.category || "Item";
+                  const badge = activityBadge(event.type);
 
                   return (
                     <div key={event.id} className="activity-list-row">
                       <div className="activity-list-main">
-                        <span
-                          className={`activity-type-badge ${
-                            isHobby ? "hobby" : "item"
-                          }`}
-                        >
-                          {isHobby ? "Hobby" : "Item"}
+                        <span className={`activity-type-badge ${badge}`}>
+                          {ACTIVITY_BADGE_LABELS[badge]}
                         </span>
-                        <span className="activity-list-title">{title}</span>
-                        {!isHobby && (
+                        <span className="activity-list-title">{activityTitle(event)}</span>
+                        {event.hobby && (event.item || event.set) && (
                           <span className="activity-list-hobby">
                             in {event.hobby.name}
                           </span>
@@ -323,7 +286,7 @@ function Activity() {
                       </div>
                       <div className="activity-list-meta">
                         <span className="activity-list-subtitle">
-                          {subtitle}
+                          {describeActivity(event)}
                         </span>
                         <span className="activity-timestamp">
                           {formatTimestamp(event.created_at)}
@@ -334,6 +297,19 @@ function Activity() {
                 })}
               </div>
             )}
+
+            {nextCursor && (
+              <div className="activity-pagination" style={{ marginTop: "1rem" }}>
+                <button
+                  type="button"
+                  className="activity-page-button"
+                  onClick={() => fetchActivity(nextCursor)}
+                  disabled={loadingMore}
+                >
+                  {loadingMore ? "Loading..." : "Load more"}
+                </button>
+              </div>
+            )}
           </>
         )}
       </div>
@@ -3,12 +3,35 @@
  * Includes optional image capture/upload and AI-assisted metadata.
  */
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
 import { apiRequest, parseResponse } from "../utils/api";
+import {
+  customFieldPayload,
+  type CustomFieldDefinition,
+  type CustomFieldDraft,
+} from "../utils/customFields";
+import CustomFieldInputs from "../components/CustomFieldInputs";
+import ValuationInputs from "../components/ValuationInputs";
+import {
+  EMPTY_VALUATION_DRAFT,
+  valuationRequestFields,
+  type ValuationDraft,
+} from "../utils/valuation";
+import {
+  DEFAULT_ITEM_STATUS,
+  ITEM_STATUS_LABELS,
+  NEW_ITEM_STATUSES,
+  type ItemStatus,
+} from "../utils/itemStatus";
+import LocationSelect from "../components/LocationSelect";
+import CameraCapture from "../components/CameraCapture";
 import "./Add.css";
 
+/** Matches the server's per-item photo limit. */
+const MAX_ITEM_PHOTOS = 12;
+
 interface Hobby {
   id: string;
   name: string;
@@ -44,12 +67,15 @@ function AddItem() {
   const [manualCategory, setManualCategory] = useState<string>("");
   const [itemCategories, setItemCategories] = useState<string[]>([]);
   const [hobbyCategory, setHobbyCategory] = useState<string | null>(null);
-
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [itemFields, setItemFields] = useState<CustomFieldDefinition[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldDraft>({});
+  const [valuation, setValuation] = useState<ValuationDraft>(EMPTY_VALUATION_DRAFT);
+  const [status, setStatus] = useState<ItemStatus>(DEFAULT_ITEM_STATUS);
+  const [locationId, setLocationId] = useState("");
+
+  // Photos waiting to be uploaded with the item; the first one becomes primary
+  const [pendingImages, setPendingImages] = useState<{ file: File; preview: string }[]>([]);
   const [showCamera, setShowCamera] = useState(false);
-  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
 
   // Bulk item import state
   const [itemMode, setItemMode] = useState<"single" | "bulk">("single");
@@ -93,6 +119,7 @@ function AddItem() {
       if (!hobbyId) {
         setItemCategories([]);
         setHobbyCategory(null);
+        setItemFields([]);
         return;
       }
 
@@ -113,6 +140,20 @@ function AddItem() {
         setHobbyCategory(null);
         setItemCategories([]);
       }
+
+      try {
+        const response = await apiRequest(
+          `/api/hobbies/${hobbyId}/item-fields`,
+          { method: "GET" },
+          token
+        );
+        const data = await parseResponse<{ fields: CustomFieldDefinition[] }>(response);
+        setItemFields(data.fields);
+      } catch (err) {
+        console.error("Error fetching item fields for hobby:", err);
+        setItemFields([]);
+      }
+      setCustomFieldValues({});
     },
     [token]
   );
@@ -131,38 +172,35 @@ function AddItem() {
     } else {
       setItemCategories([]);
       setHobbyCategory(null);
+      setItemFields([]);
     }
   }, [isAuthenticated, selectedHobbyId, fetchItemCategoriesForHobby]);
 
-  // Cleanup camera stream on unmount
-  useEffect(() => {
-    return () => {
-      if (cameraStream) {
-        cameraStream.getTracks().forEach((track) => track.stop());
-      }
+  /**
+   * Queue a photo for upload and generate a local preview for the UI.
+   */
+  const addPendingImage = (file: File) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setPendingImages((current) => [...current, { file, preview: reader.result as string }]);
     };
-  }, [cameraStream]);
-
-  // Handle video element when camera is shown
-  useEffect(() => {
-    if (showCamera && cameraStream && videoRef.current) {
-      const video = videoRef.current;
-      video.srcObject = cameraStream;
-      video
-        .play()
-        .catch((err) => {
-          console.error("Error playing video:", err);
-        });
-    }
-  }, [showCamera, cameraStream]);
+    reader.readAsDataURL(file);
+  };
 
   /**
    * Handle file input changes for item images, validating type/size and
    * generating a local preview for the UI.
    */
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    if (pendingImages.length + files.length > MAX_ITEM_PHOTOS) {
+      setError(`An item can have at most ${MAX_ITEM_PHOTOS} photos`);
+      return;
+    }
+
+    for (const file of files) {
       if (!file.type.startsWith("image/")) {
         setError("Please select an image file");
         return;
@@ -172,173 +210,28 @@ function AddItem() {
         setError("Image size must be less than 10MB");
         return;
       }
-
-      setImageFile(file);
-
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
     }
-  };
 
-  /**
-   * Clear the currently selected/previewed image and shut down any active
-   * camera stream to free resources.
-   */
-  const handleRemoveImage = () => {
-    setImageFile(null);
-    setImagePreview(null);
-    if (cameraStream) {
-      cameraStream.getTracks().forEach((track) => track.stop());
-      setCameraStream(null);
-    }
-    setShowCamera(false);
-  };
-
-  /**
-   * Start the device camera (when available and over HTTPS) so the user can
-   * capture a photo directly into a new item.
-   */
-  const handleStartCamera = async () => {
-    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-      setError(
-        "Camera API not supported in this browser. Please use file upload instead."
-      );
-      return;
-    }
-
-    const isSecure =
-      window.location.protocol === "https:" ||
-      window.location.hostname === "localhost" ||
-      window.location.hostname === "127.0.0.1";
-    if (!isSecure) {
-      setError("Camera access requires HTTPS. Please use file upload instead.");
-      return;
-    }
-
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: "environment",
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-        },
-      });
-      setCameraStream(stream);
-      setShowCamera(true);
-      setError("");
-    } catch (error) {
-      console.error("Error accessing camera:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      const errorName = error instanceof Error ? error.name : "";
-
-      if (
-        errorName === "NotAllowedError" ||
-        errorMessage.includes("permission") ||
-        errorMessage.includes("denied")
-      ) {
-        setError(
-          "Camera permission denied. Please allow camera access in your browser settings and try again."
-        );
-      } else if (
-        errorName === "NotFoundError" ||
-        errorMessage.includes("not found") ||
-        errorMessage.includes("no device")
-      ) {
-        setError(
-          "No camera found. Please connect a camera or use file upload instead."
-        );
-      } else if (
-        errorName === "NotReadableError" ||
-        errorMessage.includes("not readable")
-      ) {
-        setError(
-          "Camera is already in use by another application. Please close other apps using the camera."
-        );
-      } else if (errorName === "OverconstrainedError") {
-        setError(
-          "Camera doesn't support the requested settings. Trying with default settings..."
-        );
-        try {
-          const fallbackStream = await navigator.mediaDevices.getUserMedia({
-            video: true,
-          });
-          setCameraStream(fallbackStream);
-          setShowCamera(true);
-          setError("");
-          return;
-        } catch {
-          setError("Unable to access camera. Please use file upload instead.");
-        }
-      } else {
-        setError(
-          `Unable to access camera: ${errorMessage}. Please use file upload instead.`
-        );
-      }
-    }
+    files.forEach(addPendingImage);
   };
 
   /**
-   * Stop any active camera stream and hide the camera UI.
+   * Drop one queued photo.
    */
-  const handleStopCamera = () => {
-    if (cameraStream) {
-      cameraStream.getTracks().forEach((track) => track.stop());
-      setCameraStream(null);
-    }
-    setShowCamera(false);
+  const handleRemoveImage = (index: number) => {
+    setPendingImages((current) => current.filter((_, i) => i !== index));
   };
 
   /**
-   * Capture a still frame from the camera video element, convert it into a
-   * File object, and use it as the pending item image (with preview).
+   * Queue a photo taken with the camera, within the per-item photo limit.
    */
-  const handleCapturePhoto = () => {
-    if (!videoRef.current) return;
-
-    const video = videoRef.current;
-
-    if (video.readyState < 2) {
-      setError("Camera is not ready yet. Please wait a moment.");
+  const handleCameraCapture = (file: File) => {
+    if (pendingImages.length >= MAX_ITEM_PHOTOS) {
+      setError(`An item can have at most ${MAX_ITEM_PHOTOS} photos`);
       return;
     }
-
-    const canvas = document.createElement("canvas");
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    ctx.translate(canvas.width, 0);
-    ctx.scale(-1, 1);
-    ctx.drawImage(video, 0, 0);
-
-    canvas.toBlob(
-      (blob) => {
-        if (!blob) return;
-
-        const file = new File([blob], `camera-photo-${Date.now()}.jpg`, {
-          type: "image/jpeg",
-          lastModified: Date.now(),
-        });
-
-        setImageFile(file);
-
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          setImagePreview(reader.result as string);
-        };
-        reader.readAsDataURL(file);
-
-        handleStopCamera();
-      },
-      "image/jpeg",
-      0.9
-    );
+    setError("");
+    addPendingImage(file);
   };
 
   /**
@@ -360,7 +253,7 @@ function AddItem() {
 
     try {
       if (itemMode === "single") {
-        if (!name.trim() && !imageFile) {
+        if (!name.trim() && pendingImages.length === 0) {
           setError(
             "Name is required, or upload an image for AI to generate one"
           );
@@ -369,17 +262,31 @@ function AddItem() {
         }
 
         let response: Response;
+        const customFields = customFieldPayload(itemFields, customFieldValues);
+        const valuationFields = valuationRequestFields(valuation);
 
-        if (imageFile) {
+        if (pendingImages.length > 0) {
           const formData = new FormData();
           formData.append("name", name.trim());
+          formData.append("status", status);
+          if (locationId) {
+            formData.append("locationId", locationId);
+          }
           if (description.trim()) {
             formData.append("description", description.trim());
           }
           if (manualCategory) {
             formData.append("category", manualCategory);
           }
-          formData.append("image", imageFile);
+          if (Object.keys(customFields).length > 0) {
+            formData.append("customFields", JSON.stringify(customFields));
+          }
+          for (const [key, value] of Object.entries(valuationFields)) {
+            if (value !== null) {
+              formData.append(key, value);
+            }
+          }
+          pendingImages.forEach(({ file }) => formData.append("image", file));
 
           response = await apiRequest(
             `/api/hobbies/${selectedHobbyId}/items`,
@@ -394,9 +301,16 @@ function AddItem() {
             name: string;
             description: string | null;
             category?: string;
-          } = {
+            customFields: Record<string, string>;
+            status: ItemStatus;
+            locationId: string | null;
+          } & ReturnType<typeof valuationRequestFields> = {
             name: name.trim(),
             description: description.trim() || null,
+            customFields,
+            status,
+            locationId: locationId || null,
+            ...valuationFields,
           };
 
           if (manualCategory) {
@@ -426,14 +340,12 @@ function AddItem() {
           setName("");
           setDescription("");
           setManualCategory("");
+          setCustomFieldValues({});
+          setValuation(EMPTY_VALUATION_DRAFT);
+          setStatus(DEFAULT_ITEM_STATUS);
           setShowAdvanced(false);
-          setImageFile(null);
-          setImagePreview(null);
+          setPendingImages([]);
           setShowCamera(false);
-          if (cameraStream) {
-            cameraStream.getTracks().forEach((track) => track.stop());
-            setCameraStream(null);
-          }
           setTimeout(() => {
             navigate("/items");
           }, 1200);
@@ -616,19 +528,20 @@ function AddItem() {
               <>
                 {/* Image upload / camera */}
                 <div className="form-group">
-                  <label htmlFor="image">Item Photo</label>
+                  <label htmlFor="image">Item Photos</label>
                   <div className="image-input-container">
                     <input
                       id="image"
                       type="file"
                       accept="image/*"
+                      multiple
                       onChange={handleImageChange}
                       disabled={loading || !selectedHobbyId || showCamera}
                       className="form-input"
                     />
                     <button
                       type="button"
-                      onClick={showCamera ? handleStopCamera : handleStartCamera}
+                      onClick={() => setShowCamera((open) => !open)}
                       disabled={loading || !selectedHobbyId}
                       className="camera-button"
                     >
@@ -636,68 +549,42 @@ function AddItem() {
                     </button>
                   </div>
                   <p className="form-hint">
-                    Upload a photo or take one with your camera. AI will
-                    automatically suggest a name, description, and category if
-                    fields are empty.
+                    Upload photos or take them with your camera. AI will look at
+                    them together to suggest a name, description, and category
+                    if fields are empty. The first photo is the primary one.
                   </p>
 
                   {showCamera && (
-                    <div className="camera-container">
-                      <video
-                        ref={videoRef}
-                        autoPlay
-                        playsInline
-                        muted
-                        className="camera-video"
-                        onLoadedMetadata={() => {
-                          if (videoRef.current) {
-                            videoRef.current
-                              .play()
-                              .catch((err) => {
-                                console.error("Error playing video:", err);
-                              });
-                          }
-                        }}
-                      />
-                      <div className="camera-controls">
-                        <button
-                          type="button"
-                          onClick={handleCapturePhoto}
-                          className="capture-button"
-                          disabled={loading}
-                        >
-                          📸 Capture
-                        </button>
-                        <button
-                          type="button"
-                          onClick={handleStopCamera}
-                          className="cancel-camera-button"
-                          disabled={loading}
-                        >
-                          Cancel
-                        </button>
-                      </div>
-                    </div>
+                    <CameraCapture
+                      onCapture={handleCameraCapture}
+                      onClose={() => setShowCamera(false)}
+                      onError={setError}
+                      disabled={loading}
+                    />
                   )}
 
-                  {imagePreview && !showCamera && (
-                    <div className="image-preview-container">
-                      <img
-                        src={imagePreview}
-                        alt="Preview"
-                        className="image-preview"
-                      />
-                      <button
-                        type="button"
-                        onClick={handleRemoveImage}
-                        className="remove-image-button"
-                        disabled={loading}
-                      >
-                        ✕ Remove
-                      </button>
+                  {pendingImages.length > 0 && !showCamera && (
+                    <div className="image-preview-list">
+                      {pendingImages.map(({ preview }, index) => (
+                        <div key={preview} className="image-preview-container">
+                          <img
+                            src={preview}
+                            alt={`Preview ${index + 1}`}
+                            className="image-preview"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveImage(index)}
+                            className="remove-image-button"
+                            disabled={loading}
+                          >
+                            ✕ Remove
+                          </button>
+                        </div>
+                      ))}
                     </div>
                   )}
-                  {imagePreview &&
+                  {pendingImages.length > 0 &&
                     !showCamera &&
                     (!name.trim() || !description.trim()) && (
                       <p
@@ -705,26 +592,26 @@ function AddItem() {
                         style={{ color: "#9370db" }}
                       >
                         💡 Leave name/description empty to let AI generate them
-                        from the image
+                        from the photos
                       </p>
                     )}
                 </div>
 
                 {/* Name / description */}
                 <div className="form-group">
-                  <label htmlFor="name">Name {imageFile ? "" : "*"}</label>
+                  <label htmlFor="name">Name {pendingImages.length > 0 ? "" : "*"}</label>
                   <input
                     id="name"
                     type="text"
                     placeholder="Enter item name..."
                     value={name}
                     onChange={(e) => setName(e.target.value)}
-                    required={!imageFile}
+                    required={pendingImages.length === 0}
                     disabled={loading}
                     className="form-input"
                   />
                   <p className="form-hint">
-                    {imageFile
+                    {pendingImages.length > 0
                       ? "Leave empty to let AI generate from the image, or enter manually."
                       : "AI will automatically categorize and tag your item based on the name and description."}
                   </p>
@@ -746,6 +633,53 @@ function AddItem() {
                     tags and categorization.
                   </p>
                 </div>
+
+                <div className="form-group">
+                  <label htmlFor="item-status">Add as</label>
+                  <select
+                    id="item-status"
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value as ItemStatus)}
+                    disabled={loading}
+                    className="form-input"
+                  >
+                    {NEW_ITEM_STATUSES.map((option) => (
+                      <option key={option} value={option}>
+                        {ITEM_STATUS_LABELS[option]}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="form-hint">
+                    Track items you want or have on order alongside the ones you own.
+                  </p>
+                </div>
+
+                <LocationSelect
+                  id="item-location"
+                  value={locationId}
+                  onChange={setLocationId}
+                  disabled={loading}
+                />
+
+                <CustomFieldInputs
+                  fields={itemFields}
+                  values={customFieldValues}
+                  onChange={setCustomFieldValues}
+                  idPrefix="custom-field"
+                  disabled={loading}
+                  hint={
+                    pendingImages.length > 0
+                      ? "Fields left empty are filled from the photo by AI where possible."
+                      : undefined
+                  }
+                />
+
+                <ValuationInputs
+                  values={valuation}
+                  onChange={setValuation}
+                  idPrefix="item-value"
+                  disabled={loading}
+                />
               </>
             )}
 
@@ -1,10 +1,31 @@
 /**
  * Discover page - Get AI-powered recommendations based on your hobbies.
+ * Also searches the collection by text or by photo.
  */
 
 import { useState, useCallback, useEffect } from "react";
 import { useAuth } from "../hooks/useAuth";
+import HighlightedText from "../components/HighlightedText";
+import QueryErrors from "../components/QueryErrors";
+import SaveSearchForm from "../components/SaveSearchForm";
+import PhotoSearchPanel from "../components/PhotoSearchPanel";
 import { apiRequest, parseResponse } from "../utils/api";
+import {
+  SEARCH_MODES,
+  SEARCH_MODE_LABELS,
+  SEARCH_SORTS,
+  SEARCH_SORT_LABELS,
+  describeMatchSignals,
+  describeSearchMethod,
+  queryErrorsOf,
+  type QueryError,
+  type SearchFacets,
+  type SearchFilters,
+  type SearchMode,
+  type SearchSignal,
+  type SearchSort,
+} from "../utils/search";
+import type { ItemStatus } from "../utils/itemStatus";
 import "./Discover.css";
 
 interface SearchResult {
@@ -16,13 +37,22 @@ interface SearchResult {
   created_at: number;
   type: "hobby" | "item";
   similarity?: number;
+  /** Text search only: BM25 relevance and the matches marked up. */
+  score?: number;
+  name_highlight?: string;
+  snippet?: string;
+  /** Hybrid search only: the fused rank score and which searches found it. */
+  fusion_score?: number;
+  matched_by?: SearchSignal[];
   hobby_id?: string;
 }
 
 interface SearchResponse {
   hobbies: SearchResult[];
   items: SearchResult[];
-  searchMethod: "semantic" | "text";
+  searchMethod: SearchMode;
+  facets: SearchFacets;
+  nextCursor: string | null;
 }
 
 interface RecommendationItem {
@@ -48,13 +78,19 @@ interface Hobby {
 }
 
 function Discover() {
-  // Semantic search state (Discover only)
+  // Collection search state (Discover only)
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchMode, setSearchMode] = useState<SearchMode>("semantic");
   const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [queryErrors, setQueryErrors] = useState<QueryError[]>([]);
   const [hasSearched, setHasSearched] = useState(false);
-  const [searchMethod, setSearchMethod] = useState<"semantic" | "text" | null>(null);
+  const [searchMethod, setSearchMethod] = useState<SearchMode | null>(null);
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+  const [searchSort, setSearchSort] = useState<SearchSort>("relevance");
+  const [loadingMore, setLoadingMore] = useState(false);
 
   // Recommendations state
   const [recommendationQuery, setRecommendationQuery] = useState("");
@@ -63,53 +99,100 @@ function Discover() {
   const [recommendationsError, setRecommendationsError] = useState("");
   const [hasRequestedRecommendations, setHasRequestedRecommendations] = useState(false);
   const [hobbies, setHobbies] = useState<Hobby[]>([]);
-  const [addToHobbyModal, setAddToHobbyModal] = useState<{ item: RecommendationItem; hobbyId: string } | null>(null);
+  const [addToHobbyModal, setAddToHobbyModal] = useState<{
+    item: RecommendationItem;
+    hobbyId: string;
+    status: Extract<ItemStatus, "owned" | "wishlist">;
+  } | null>(null);
   const [addingItem, setAddingItem] = useState(false);
   
   const { token, isAuthenticated } = useAuth();
 
   /**
-   * Submit handler for semantic collection search.
-   * Sends the free-form query to the backend and shows hobby/item matches.
+   * Fetch a page of collection search results for the submitted query in the
+   * selected mode, with the current filters and sort. Without a cursor the
+   * results start over; with one the page is appended.
    */
-  const handleSearch = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!searchQuery.trim()) {
-      return;
-    }
-
+  const fetchSearchPage = useCallback(async (cursor: string | null) => {
     try {
-      setLoading(true);
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
       setError("");
-      setHasSearched(true);
+      setQueryErrors([]);
 
       const response = await apiRequest(
         "/api/search",
         {
           method: "POST",
           body: JSON.stringify({
-            query: searchQuery.trim(),
+            query: submittedQuery,
             limit: 20,
-            mode: "semantic",
+            mode: searchMode,
+            filters: searchFilters,
+            sort: searchSort,
+            cursor,
           }),
         },
         token
       );
 
       const data = await parseResponse<SearchResponse>(response);
-      setSearchResults(data);
+      setSearchResults((current) =>
+        cursor && current
+          ? { ...data, hobbies: [...current.hobbies, ...data.hobbies], items: [...current.items, ...data.items] }
+          : data
+      );
       setSearchMethod(data.searchMethod);
     } catch (err) {
       console.error("Error searching:", err);
       const errorMessage = err instanceof Error ? err.message : "Failed to perform search";
       setError(errorMessage);
+      setQueryErrors(queryErrorsOf(err));
       setSearchResults(null);
       setSearchMethod(null);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [submittedQuery, searchMode, searchFilters, searchSort, token]);
+
+  // Search again from the first page whenever the query, mode, filters or sort change
+  useEffect(() => {
+    if (submittedQuery) {
+      fetchSearchPage(null);
+    }
+  }, [submittedQuery, fetchSearchPage]);
+
+  /**
+   * Submit handler for collection search.
+   */
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmed = searchQuery.trim();
+    if (!trimmed) {
+      return;
     }
-  }, [searchQuery, token]);
+
+    setHasSearched(true);
+    if (trimmed === submittedQuery) {
+      fetchSearchPage(null);
+    } else {
+      setSubmittedQuery(trimmed);
+    }
+  };
+
+  const updateFilters = (changes: Partial<SearchFilters>) => {
+    setSearchFilters((current) => ({ ...current, ...changes }));
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    const tags = searchFilters.tags ?? [];
+    updateFilters({ tags: tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag] });
+  };
 
   const totalResults = searchResults 
     ? searchResults.hobbies.length + searchResults.items.length 
@@ -170,7 +253,8 @@ function Discover() {
 
   /**
    * Persist a recommended item into one of the user's own hobbies by
-   * creating a new item that copies the recommendation's fields.
+   * creating a new item that copies the recommendation's fields, either as
+   * an owned item or on the wishlist.
    */
   const handleAddToHobby = async () => {
     if (!addToHobbyModal || !token) return;
@@ -187,6 +271,7 @@ function Discover() {
             name: addToHobbyModal.item.name,
             description: addToHobbyModal.item.description,
             category: addToHobbyModal.item.category,
+            status: addToHobbyModal.status,
           }),
         },
         token
@@ -195,7 +280,11 @@ function Discover() {
       await parseResponse(response);
       setAddToHobbyModal(null);
       // Optionally refresh recommendations or show success message
-      alert(`"${addToHobbyModal.item.name}" added to your collection!`);
+      alert(
+        addToHobbyModal.status === "wishlist"
+          ? `"${addToHobbyModal.item.name}" added to your wishlist!`
+          : `"${addToHobbyModal.item.name}" added to your collection!`
+      );
     } catch (err) {
       console.error("Error adding item:", err);
       const errorMessage = err instanceof Error ? err.message : "Failed to add item";
@@ -227,24 +316,137 @@ function Discover() {
           </p>
         </div>
 
-        {/* Semantic Search Section */}
+        {/* Collection Search Section */}
         <form onSubmit={handleSearch} className="search-form">
           <div className="search-input-container">
             <input
               type="text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search your hobbies and items with natural language (semantic search)..."
+              placeholder={
+                searchMode === "text"
+                  ? "Search your hobbies and items by keyword..."
+                  : "Search your hobbies and items with natural language..."
+              }
               className="search-input"
               disabled={loading}
             />
             <button type="submit" className="search-button" disabled={loading || !searchQuery.trim()}>
-              {loading ? "🔍 Searching..." : "🔍 Semantic Search"}
+              {loading ? "🔍 Searching..." : `🔍 ${SEARCH_MODE_LABELS[searchMode]} Search`}
             </button>
           </div>
+          <div className="search-mode-toggle" role="radiogroup" aria-label="Search mode">
+            {SEARCH_MODES.map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                className={`search-mode-button ${searchMode === mode ? "active" : ""}`}
+                onClick={() => setSearchMode(mode)}
+                role="radio"
+                aria-checked={searchMode === mode}
+                disabled={loading}
+              >
+                {SEARCH_MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
         </form>
 
-        {error && <div className="error-message">{error}</div>}
+        {queryErrors.length > 0 ? (
+          <QueryErrors query={submittedQuery} errors={queryErrors} />
+        ) : (
+          error && <div className="error-message">{error}</div>
+        )}
+
+        {/* Search filters, with match counts from the last search */}
+        {hasSearched && searchResults && (
+          <div className="search-filters">
+            <select
+              className="search-filter-select"
+              value={searchFilters.category ?? ""}
+              onChange={(e) => updateFilters({ category: e.target.value || undefined })}
+              aria-label="Category"
+            >
+              <option value="">All categories</option>
+              {searchResults.facets.categories.map((facet) => (
+                <option key={facet.value} value={facet.value}>
+                  {facet.value} ({facet.count})
+                </option>
+              ))}
+            </select>
+            <select
+              className="search-filter-select"
+              value={searchFilters.hobbyId ?? ""}
+              onChange={(e) => updateFilters({ hobbyId: e.target.value || undefined })}
+              aria-label="Hobby"
+            >
+              <option value="">All hobbies</option>
+              {searchResults.facets.hobbies.map((facet) => (
+                <option key={facet.id} value={facet.id}>
+                  {facet.name} ({facet.count})
+                </option>
+              ))}
+            </select>
+            <label className="search-filter-date">
+              From
+              <input
+                type="date"
+                value={searchFilters.createdFrom ?? ""}
+                onChange={(e) => updateFilters({ createdFrom: e.target.value || undefined })}
+              />
+            </label>
+            <label className="search-filter-date">
+              To
+              <input
+                type="date"
+                value={searchFilters.createdTo ?? ""}
+                onChange={(e) => updateFilters({ createdTo: e.target.value || undefined })}
+              />
+            </label>
+            <label className="search-filter-checkbox">
+              <input
+                type="checkbox"
+                checked={searchFilters.hasImage === true}
+                onChange={(e) => updateFilters({ hasImage: e.target.checked || undefined })}
+              />
+              With photos
+            </label>
+            <select
+              className="search-filter-select"
+              value={searchSort}
+              onChange={(e) => setSearchSort(e.target.value as SearchSort)}
+              aria-label="Sort results"
+            >
+              {SEARCH_SORTS.map((sort) => (
+                <option key={sort} value={sort}>
+                  {SEARCH_SORT_LABELS[sort]}
+                </option>
+              ))}
+            </select>
+            {searchResults.facets.tags.length > 0 && (
+              <div className="search-filter-tags">
+                {searchResults.facets.tags.map((facet) => (
+                  <button
+                    key={facet.value}
+                    type="button"
+                    className={`tag search-filter-tag ${searchFilters.tags?.includes(facet.value) ? "active" : ""}`}
+                    onClick={() => toggleTagFilter(facet.value)}
+                    aria-pressed={searchFilters.tags?.includes(facet.value) ?? false}
+                  >
+                    #{facet.value} ({facet.count})
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {hasSearched && searchResults && (
+          <SaveSearchForm
+            search={{ query: submittedQuery, mode: searchMode, filters: searchFilters, sort: searchSort }}
+            linkToItems
+          />
+        )}
 
         {/* Search Results */}
         {hasSearched && !loading && (
@@ -253,17 +455,17 @@ function Discover() {
               <div className="empty-state">
                 <p className="empty-message">🔍 No results found</p>
                 <p className="empty-hint">
-                  Try a different search query or check your spelling.
+                  Try a different search query, loosen the filters or check your spelling.
                 </p>
               </div>
             ) : (
               <div className="search-results">
                 <div className="results-header">
                   <div>
-                    <h2>Semantic Search Results</h2>
+                    <h2>Search Results</h2>
                     {searchMethod && (
                       <p className="results-count">
-                        Using {searchMethod === "semantic" ? "semantic (vector)" : "text"} search
+                        Using {describeSearchMethod(searchMethod)} search
                       </p>
                     )}
                   </div>
@@ -280,14 +482,24 @@ function Discover() {
                       {searchResults.hobbies.map((hobby) => (
                         <div key={hobby.id} className="result-card hobby-card">
                           <div className="card-glow"></div>
-                          {hobby.similarity !== undefined && (
-                            <div className="similarity-badge">
-                              {Math.round(hobby.similarity * 100)}% match
-                            </div>
+                          {hobby.matched_by ? (
+                            <div className="similarity-badge">{describeMatchSignals(hobby.matched_by)}</div>
+                          ) : (
+                            hobby.similarity !== undefined && (
+                              <div className="similarity-badge">
+                                {Math.round(hobby.similarity * 100)}% match
+                              </div>
+                            )
                           )}
-                          <h4>{hobby.name}</h4>
-                          {hobby.description && (
-                            <p className="card-description">{hobby.description}</p>
+                          <h4>
+                            {hobby.name_highlight ? <HighlightedText marked={hobby.name_highlight} /> : hobby.name}
+                          </h4>
+                          {hobby.snippet ? (
+                            <p className="card-description">
+                              <HighlightedText marked={hobby.snippet} />
+                            </p>
+                          ) : (
+                            hobby.description && <p className="card-description">{hobby.description}</p>
                           )}
                           {hobby.category && (
                             <div className="card-category">
@@ -321,14 +533,24 @@ function Discover() {
                       {searchResults.items.map((item) => (
                         <div key={item.id} className="result-card item-card">
                           <div className="card-glow"></div>
-                          {item.similarity !== undefined && (
-                            <div className="similarity-badge">
-                              {Math.round(item.similarity * 100)}% match
-                            </div>
+                          {item.matched_by ? (
+                            <div className="similarity-badge">{describeMatchSignals(item.matched_by)}</div>
+                          ) : (
+                            item.similarity !== undefined && (
+                              <div className="similarity-badge">
+                                {Math.round(item.similarity * 100)}% match
+                              </div>
+                            )
                           )}
-                          <h4>{item.name}</h4>
-                          {item.description && (
-                            <p className="card-description">{item.description}</p>
+                          <h4>
+                            {item.name_highlight ? <HighlightedText marked={item.name_highlight} /> : item.name}
+                          </h4>
+                          {item.snippet ? (
+                            <p className="card-description">
+                              <HighlightedText marked={item.snippet} />
+                            </p>
+                          ) : (
+                            item.description && <p className="card-description">{item.description}</p>
                           )}
                           {item.category && (
                             <div className="card-category">
@@ -353,11 +575,27 @@ function Discover() {
                     </div>
                   </div>
                 )}
+
+                {searchResults?.nextCursor && (
+                  <div className="activity-pagination" style={{ marginTop: "1rem" }}>
+                    <button
+                      type="button"
+                      className="activity-page-button"
+                      onClick={() => fetchSearchPage(searchResults.nextCursor)}
+                      disabled={loadingMore}
+                    >
+                      {loadingMore ? "Loading..." : "Load more"}
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </>
         )}
 
+        {/* Search by photo */}
+        <PhotoSearchPanel hobbies={hobbies} />
+
         {/* Recommendations Section */}
         <div className="recommendations-section">
           <div className="recommendations-header">
@@ -447,7 +685,7 @@ function Discover() {
                         <div className="card-footer">
                           <button
                             className="add-to-collection-button"
-                            onClick={() => setAddToHobbyModal({ item, hobbyId: hobbies[0]?.id || "" })}
+                            onClick={() => setAddToHobbyModal({ item, hobbyId: hobbies[0]?.id || "", status: "owned" })}
                             disabled={hobbies.length === 0}
                             title={hobbies.length === 0 ? "Create a hobby first" : "Add to my collection"}
                           >
@@ -489,6 +727,24 @@ function Discover() {
                   )}
                 </select>
               </div>
+              <div className="form-group">
+                <label htmlFor="select-add-status">Add as</label>
+                <select
+                  id="select-add-status"
+                  value={addToHobbyModal.status}
+                  onChange={(e) =>
+                    setAddToHobbyModal({
+                      ...addToHobbyModal,
+                      status: e.target.value as "owned" | "wishlist",
+                    })
+                  }
+                  className="form-input"
+                  disabled={addingItem}
+                >
+                  <option value="owned">Something I own</option>
+                  <option value="wishlist">Something I want (wishlist)</option>
+                </select>
+              </div>
               <div className="modal-actions">
                 <button 
                   className="cancel-button" 
@@ -11,6 +11,15 @@ import { CATEGORIES } from "../utils/categories";
 import ViewToggle from "../components/ViewToggle";
 import HobbyDetailsModal from "../components/HobbyDetailsModal";
 import ConfirmModal from "../components/ConfirmModal";
+import CustomFieldSchemaEditor from "../components/CustomFieldSchemaEditor";
+import SetProgressBar from "../components/SetProgressBar";
+import type { ItemSet } from "../utils/itemSets";
+import {
+  schemaRowsPayload,
+  toSchemaRows,
+  type CustomFieldDefinition,
+  type CustomFieldSchemaRow,
+} from "../utils/customFields";
 import "./Hobbies.css";
 
 interface Hobby {
@@ -20,6 +29,7 @@ interface Hobby {
   category: string | null;
   tags: string[];
   created_at: number;
+  share_slug?: string | null;
 }
 
 interface SearchHobbyResult extends Hobby {
@@ -37,8 +47,10 @@ function Hobbies() {
   const [editCategory, setEditCategory] = useState<string>("");
   const [editItemCategories, setEditItemCategories] = useState<string[]>([]);
   const [editItemCategoryDraft, setEditItemCategoryDraft] = useState<string>("");
+  const [editItemFields, setEditItemFields] = useState<CustomFieldSchemaRow[]>([]);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [selectedHobby, setSelectedHobby] = useState<Hobby | null>(null);
+  const [setsByHobby, setSetsByHobby] = useState<Map<string, ItemSet[]>>(new Map());
   const [searchQuery, setSearchQuery] = useState("");
   const [searchMode] = useState<"semantic" | "text">("text");
   const [searchResults, setSearchResults] = useState<SearchHobbyResult[] | null>(null);
@@ -64,13 +76,32 @@ function Hobbies() {
     }
   }, [token]);
 
+  /**
+   * Load set completion for the progress bars on hobby cards. Failures only
+   * hide the bars, so they are logged rather than shown.
+   */
+  const fetchSets = useCallback(async () => {
+    try {
+      const response = await apiRequest("/api/sets", { method: "GET" }, token);
+      const data = await parseResponse<{ sets: ItemSet[] }>(response);
+      const grouped = new Map<string, ItemSet[]>();
+      for (const set of data.sets) {
+        grouped.set(set.hobby_id, [...(grouped.get(set.hobby_id) ?? []), set]);
+      }
+      setSetsByHobby(grouped);
+    } catch (err) {
+      console.error("Error fetching sets:", err);
+    }
+  }, [token]);
+
   useEffect(() => {
     if (isAuthenticated) {
       fetchHobbies();
+      fetchSets();
     } else {
       setLoading(false);
     }
-  }, [isAuthenticated, fetchHobbies]);
+  }, [isAuthenticated, fetchHobbies, fetchSets]);
 
   const handleHobbySearch = useCallback(
     async (e: React.FormEvent) => {
@@ -163,6 +194,19 @@ function Hobbies() {
       setEditItemCategories([]);
       setEditItemCategoryDraft("");
     }
+
+    try {
+      const response = await apiRequest(
+        `/api/hobbies/${hobby.id}/item-fields`,
+        { method: "GET" },
+        token
+      );
+      const data = await parseResponse<{ fields: CustomFieldDefinition[] }>(response);
+      setEditItemFields(toSchemaRows(data.fields));
+    } catch (err) {
+      console.error("Error fetching hobby item fields:", err);
+      setEditItemFields([]);
+    }
   };
 
   const handleCancelEdit = () => {
@@ -172,6 +216,7 @@ function Hobbies() {
     setEditCategory("");
     setEditItemCategories([]);
     setEditItemCategoryDraft("");
+    setEditItemFields([]);
   };
 
   const handleSaveEdit = async () => {
@@ -209,6 +254,17 @@ function Hobbies() {
         token
       );
       await parseResponse(response);
+
+      const fieldsResponse = await apiRequest(
+        `/api/hobbies/${editingHobby.id}/item-fields`,
+        {
+          method: "PUT",
+          body: JSON.stringify({ fields: schemaRowsPayload(editItemFields) }),
+        },
+        token
+      );
+      await parseResponse(fieldsResponse);
+
       await fetchHobbies();
       handleCancelEdit();
     } catch (err) {
@@ -263,9 +319,14 @@ function Hobbies() {
       <div className="page-content">
         <div className="hobbies-header">
           <p>Explore your collection of hobbies and curiosities.</p>
-          <Link to="/add/hobby" className="add-link-button">
-            ✨ Add New Hobby
-          </Link>
+          <div style={{ display: "flex", gap: "0.75rem", flexWrap: "wrap" }}>
+            <Link to="/trash" className="add-link-button">
+              🗑️ Trash
+            </Link>
+            <Link to="/add/hobby" className="add-link-button">
+              ✨ Add New Hobby
+            </Link>
+          </div>
         </div>
 
         {/* Hobby search (text-based) */}
@@ -392,6 +453,25 @@ function Hobbies() {
                       )}
                     </div>
                   )}
+                  {(setsByHobby.get(hobby.id) ?? []).length > 0 && (
+                    <div className="card-sets">
+                      {(setsByHobby.get(hobby.id) ?? []).slice(0, 2).map((set) => (
+                        <SetProgressBar
+                          key={set.id}
+                          name={set.name}
+                          collected={set.collected}
+                          total={set.total}
+                          percent={set.percent}
+                          compact
+                        />
+                      ))}
+                      {(setsByHobby.get(hobby.id) ?? []).length > 2 && (
+                        <span className="tag more-tag">
+                          +{(setsByHobby.get(hobby.id) ?? []).length - 2} more sets
+                        </span>
+                      )}
+                    </div>
+                  )}
                   <div className="card-footer">
                     <div className="card-actions">
                       <Link
@@ -546,6 +626,14 @@ function Hobbies() {
                   handleEdit(selectedHobby);
                   setSelectedHobby(null);
                 }}
+                onSetsChange={fetchSets}
+                onShareChange={(slug) => {
+                  setHobbies((prev) =>
+                    prev.map((h) =>
+                      h.id === selectedHobby.id ? { ...h, share_slug: slug } : h
+                    )
+                  );
+                }}
               />
             )}
 
@@ -709,6 +797,21 @@ function Hobbies() {
                       These will be used by AI when auto-categorizing items here, even before any items exist.
                     </p>
                   </div>
+                  <div className="form-group">
+                    <label>Item fields</label>
+                    <CustomFieldSchemaEditor rows={editItemFields} onChange={setEditItemFields} />
+                    <p
+                      className="form-hint"
+                      style={{
+                        fontSize: "0.85rem",
+                        color: "#888",
+                        marginTop: "0.5rem",
+                      }}
+                    >
+                      Extra details every item in this hobby can record, like a year or condition grade.
+                      AI tries to fill them in from item photos.
+                    </p>
+                  </div>
                   <div className="modal-actions">
                     <button className="cancel-button" onClick={handleCancelEdit}>
                       Cancel
@@ -725,7 +828,7 @@ function Hobbies() {
             {deleteConfirm && (
               <ConfirmModal
                 title="Delete Hobby?"
-                message="Are you sure you want to delete this hobby? This will also delete all associated items. This action cannot be undone."
+                message="Move this hobby and all its items to the trash? You can restore them from the Trash page until they are deleted permanently."
                 confirmLabel="Delete"
                 onCancel={() => setDeleteConfirm(null)}
                 onConfirm={() => handleDelete(deleteConfirm)}
@@ -3,13 +3,52 @@
  * Supports grouping by hobby, search, filters, multiple layouts, and item editing.
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { Link, useParams } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
 import { apiRequest, parseResponse } from "../utils/api";
+import {
+  SEARCH_MODE_LABELS,
+  queryErrorsOf,
+  type QueryError,
+  type SearchFacets,
+  type SearchFilters,
+  type SearchMode,
+} from "../utils/search";
+import type { SavedSearch } from "../utils/savedSearches";
+import { imageVariantUrl } from "../utils/images";
 import ViewToggle from "../components/ViewToggle";
 import ItemDetailsModal from "../components/ItemDetailsModal";
 import ConfirmModal from "../components/ConfirmModal";
+import QueryErrors from "../components/QueryErrors";
+import SavedSearchesPanel from "../components/SavedSearchesPanel";
+import SaveSearchForm from "../components/SaveSearchForm";
+import CustomFieldInputs from "../components/CustomFieldInputs";
+import ValuationInputs from "../components/ValuationInputs";
+import {
+  EMPTY_VALUATION_DRAFT,
+  toValuationDraft,
+  valuationRequestFields,
+  type ItemValuationFields,
+  type ValuationDraft,
+} from "../utils/valuation";
+import {
+  customFieldPayload,
+  toCustomFieldDraft,
+  type CustomFieldDefinition,
+  type CustomFieldDraft,
+  type CustomFieldValues,
+} from "../utils/customFields";
+import {
+  DEFAULT_ITEM_STATUS,
+  ITEM_STATUSES,
+  ITEM_STATUS_LABELS,
+  itemStatusLabel,
+  type ItemStatus,
+} from "../utils/itemStatus";
+import type { ItemLocation } from "../utils/locations";
+import LocationSelect from "../components/LocationSelect";
+import { describeLoan, type ItemLoan } from "../utils/loans";
 import "./Items.css";
 
 interface Hobby {
@@ -18,7 +57,7 @@ interface Hobby {
   category?: string | null;
 }
 
-interface Item {
+interface Item extends ItemValuationFields {
   id: string;
   name: string;
   description: string | null;
@@ -27,6 +66,11 @@ interface Item {
   image_url: string | null;
   created_at: number;
   hobby_id?: string;
+  custom_fields?: CustomFieldValues;
+  status?: ItemStatus;
+  location?: ItemLocation | null;
+  /** The item's open loan, if it is lent out. */
+  loan?: ItemLoan | null;
 }
 
 interface ItemsByHobby {
@@ -42,7 +86,10 @@ interface SearchItem {
   tags: string[];
   created_at: number;
   hobby_id: string;
+  status?: ItemStatus;
   similarity?: number;
+  /** Saved searches only: flagged as a new match by the scheduled re-run. */
+  is_new?: boolean;
 }
 
 function Items() {
@@ -57,6 +104,11 @@ function Items() {
   const [editHobbyId, setEditHobbyId] = useState<string>("");
   const [editHobbyCategory, setEditHobbyCategory] = useState<string | null>(null);
   const [editItemCategories, setEditItemCategories] = useState<string[]>([]);
+  const [editItemFields, setEditItemFields] = useState<CustomFieldDefinition[]>([]);
+  const [editCustomFields, setEditCustomFields] = useState<CustomFieldDraft>({});
+  const [editValuation, setEditValuation] = useState<ValuationDraft>(EMPTY_VALUATION_DRAFT);
+  const [editStatus, setEditStatus] = useState<ItemStatus>(DEFAULT_ITEM_STATUS);
+  const [editLocationId, setEditLocationId] = useState("");
   const [deleteConfirm, setDeleteConfirm] = useState<{ itemId: string; hobbyId: string } | null>(null);
   const [viewMode, setViewMode] = useState<"card" | "list" | "icon">("card");
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
@@ -66,10 +118,19 @@ function Items() {
   const [searchItems, setSearchItems] = useState<SearchItem[] | null>(null);
   const [searchLoading, setSearchLoading] = useState(false);
   const [searchError, setSearchError] = useState("");
-  const [searchMethod, setSearchMethod] = useState<"semantic" | "text" | null>(null);
+  const [searchQueryErrors, setSearchQueryErrors] = useState<QueryError[]>([]);
+  const [searchMethod, setSearchMethod] = useState<SearchMode | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [searchFacets, setSearchFacets] = useState<SearchFacets | null>(null);
+  const [searchCursor, setSearchCursor] = useState<string | null>(null);
+  const [searchLoadingMore, setSearchLoadingMore] = useState(false);
+  const [activeSavedSearch, setActiveSavedSearch] = useState<SavedSearch | null>(null);
+  const [newMatchIds, setNewMatchIds] = useState<Set<string>>(new Set());
+  const [savedSearchesReload, setSavedSearchesReload] = useState(0);
   const [filterHobbyId, setFilterHobbyId] = useState<string>("all");
   const [filterCategory, setFilterCategory] = useState<string>("all");
+  const [filterStatus, setFilterStatus] = useState<ItemStatus | "all">("all");
   const { hobbyId } = useParams<{ hobbyId?: string }>();
   const { token, isAuthenticated } = useAuth();
 
@@ -168,6 +229,19 @@ function Items() {
     setEditDescription(item.description || "");
     setEditCategory(item.category || "");
     setEditHobbyId(hobbyId);
+    setEditCustomFields(toCustomFieldDraft(item.custom_fields));
+    setEditValuation(toValuationDraft(item));
+    setEditStatus(item.status || DEFAULT_ITEM_STATUS);
+    setEditLocationId(item.location?.id || "");
+    setEditItemFields([]);
+    // Custom fields are saved under the item's current hobby, before any move
+    try {
+      const response = await apiRequest(`/api/hobbies/${hobbyId}/item-fields`, { method: "GET" }, token);
+      const data = await parseResponse<{ fields: CustomFieldDefinition[] }>(response);
+      setEditItemFields(data.fields);
+    } catch (err) {
+      console.error("Error fetching item fields for edit modal:", err);
+    }
     await fetchEditCategories(hobbyId);
   };
 
@@ -186,6 +260,11 @@ function Items() {
     setEditHobbyId("");
     setEditHobbyCategory(null);
     setEditItemCategories([]);
+    setEditItemFields([]);
+    setEditCustomFields({});
+    setEditValuation(EMPTY_VALUATION_DRAFT);
+    setEditStatus(DEFAULT_ITEM_STATUS);
+    setEditLocationId("");
   };
 
   const handleSaveEdit = async () => {
@@ -197,10 +276,24 @@ function Items() {
       const originalHobbyId = editingItem.hobbyId;
       const targetHobbyId = editHobbyId || originalHobbyId;
 
-      const requestBody: { name: string; description: string | null; category?: string } = {
+      const requestBody: {
+        name: string;
+        description: string | null;
+        category?: string;
+        customFields?: Record<string, string>;
+        status: ItemStatus;
+        locationId: string | null;
+      } & ReturnType<typeof valuationRequestFields> = {
         name: editName.trim(),
         description: editDescription.trim() || null,
+        status: editStatus,
+        locationId: editLocationId || null,
+        ...valuationRequestFields(editValuation),
       };
+
+      if (editItemFields.length > 0) {
+        requestBody.customFields = customFieldPayload(editItemFields, editCustomFields);
+      }
       
       // Include category if manually selected (empty string means use AI)
       if (editCategory) {
@@ -239,6 +332,52 @@ function Items() {
     }
   };
 
+  /**
+   * Resolve which hobby an item belongs to, preferring its own hobby_id and
+   * falling back to the hobby grouping it is listed under.
+   */
+  const findItemHobbyId = (item: Item): string | undefined => {
+    if (item.hobby_id) return item.hobby_id;
+    return itemsByHobby.find((g) => g.items.some((i) => i.id === item.id))?.hobby.id;
+  };
+
+  /**
+   * Keep item cards in sync when the details modal changes an item's primary photo.
+   */
+  const handlePrimaryImageChange = useCallback(
+    (itemId: string, imageUrl: string | null) => {
+      setItemsByHobby((groups) =>
+        groups.map((group) => ({
+          ...group,
+          items: group.items.map((i) => (i.id === itemId ? { ...i, image_url: imageUrl } : i)),
+        }))
+      );
+      setSelectedItem((current) =>
+        current && current.id === itemId ? { ...current, image_url: imageUrl } : current
+      );
+    },
+    []
+  );
+
+  const handleLoanChange = useCallback((itemId: string, loan: ItemLoan | null) => {
+    setItemsByHobby((groups) =>
+      groups.map((group) => ({
+        ...group,
+        items: group.items.map((i) => (i.id === itemId ? { ...i, loan } : i)),
+      }))
+    );
+  }, []);
+
+  /**
+   * Show the restored fields after the details modal reverts an item to an
+   * earlier version.
+   */
+  const handleItemReverted = useCallback((itemId: string, restored: Record<string, unknown>) => {
+    const apply = (item: Item): Item => (item.id === itemId ? { ...item, ...(restored as Partial<Item>) } : item);
+    setItemsByHobby((groups) => groups.map((group) => ({ ...group, items: group.items.map(apply) })));
+    setSelectedItem((current) => (current ? apply(current) : current));
+  }, []);
+
   const handleDelete = async (itemId: string, hobbyId: string) => {
     try {
       const response = await apiRequest(
@@ -256,59 +395,141 @@ function Items() {
     }
   };
 
-  const handleItemSearch = useCallback(
-    async (e: React.FormEvent) => {
-      e.preventDefault();
-
-      const trimmed = searchQuery.trim();
-      if (!trimmed) {
-        // Clear search and show normal grouped view
-        setHasSearched(false);
-        setSearchItems(null);
-        setSearchError("");
-        setSearchMethod(null);
-        return;
-      }
+  // Hobby, category and status filters sent with a search
+  const searchFilters = useMemo(() => {
+    const filters: SearchFilters = {};
+    const filterHobby = hobbyId || (filterHobbyId !== "all" ? filterHobbyId : null);
+    if (filterHobby) filters.hobbyId = filterHobby;
+    if (filterCategory !== "all") filters.category = filterCategory;
+    if (filterStatus !== "all") filters.status = filterStatus;
+    return filters;
+  }, [hobbyId, filterHobbyId, filterCategory, filterStatus]);
 
+  /**
+   * Fetch a page of search results for the submitted query. Hobby, category
+   * and status filters are applied by the server. An open saved search runs
+   * with the mode and filters saved with it instead. Without a cursor the
+   * results start over; with one the page is appended.
+   */
+  const fetchSearchPage = useCallback(
+    async (cursor: string | null) => {
       try {
-        setSearchLoading(true);
+        if (cursor) {
+          setSearchLoadingMore(true);
+        } else {
+          setSearchLoading(true);
+        }
         setSearchError("");
-        setHasSearched(true);
+        setSearchQueryErrors([]);
 
-        const response = await apiRequest(
-          "/api/search",
-          {
-            method: "POST",
-            body: JSON.stringify({
-              query: trimmed,
-              limit: 40,
-              mode: searchMode,
-            }),
-          },
-          token
-        );
+        const response = activeSavedSearch
+          ? await apiRequest(
+              `/api/saved-searches/${activeSavedSearch.id}/results${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ""}`,
+              { method: "GET" },
+              token
+            )
+          : await apiRequest(
+              "/api/search",
+              {
+                method: "POST",
+                body: JSON.stringify({
+                  query: submittedQuery,
+                  limit: 40,
+                  mode: searchMode,
+                  filters: searchFilters,
+                  cursor,
+                }),
+              },
+              token
+            );
 
         const data = await parseResponse<{
           items: SearchItem[];
-          searchMethod: "semantic" | "text";
+          searchMethod: SearchMode;
+          facets: SearchFacets;
+          nextCursor: string | null;
+          saved_search?: SavedSearch;
         }>(response);
 
-        setSearchItems(data.items || []);
+        const newIds = data.items.filter((item) => item.is_new).map((item) => item.id);
+        setNewMatchIds((current) => new Set(cursor ? [...current, ...newIds] : newIds));
+        if (!cursor && data.saved_search && data.saved_search.new_count > 0) {
+          // The new matches are on screen now; keep their badges but clear the count
+          await apiRequest(`/api/saved-searches/${data.saved_search.id}/seen`, { method: "POST" }, token);
+          setSavedSearchesReload((current) => current + 1);
+        }
+
+        setSearchItems((current) => (cursor && current ? [...current, ...data.items] : data.items || []));
         setSearchMethod(data.searchMethod);
+        setSearchFacets(data.facets);
+        setSearchCursor(data.nextCursor);
       } catch (err) {
         console.error("Error searching items:", err);
         const errorMessage =
           err instanceof Error ? err.message : "Failed to search items";
         setSearchError(errorMessage);
+        setSearchQueryErrors(queryErrorsOf(err));
         setSearchItems(null);
         setSearchMethod(null);
+        setSearchFacets(null);
+        setSearchCursor(null);
       } finally {
         setSearchLoading(false);
+        setSearchLoadingMore(false);
       }
     },
-    [searchQuery, searchMode, token]
+    [submittedQuery, searchMode, searchFilters, activeSavedSearch, token]
   );
 
+  // Search again from the first page whenever the query or filters change
+  useEffect(() => {
+    if (submittedQuery) {
+      fetchSearchPage(null);
+    }
+  }, [submittedQuery, fetchSearchPage]);
+
+  const clearSearch = () => {
+    setHasSearched(false);
+    setSubmittedQuery("");
+    setActiveSavedSearch(null);
+    setNewMatchIds(new Set());
+    setSearchItems(null);
+    setSearchError("");
+    setSearchQueryErrors([]);
+    setSearchMethod(null);
+    setSearchFacets(null);
+    setSearchCursor(null);
+  };
+
+  const handleItemSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmed = searchQuery.trim();
+    if (!trimmed) {
+      // Clear search and show normal grouped view
+      clearSearch();
+      return;
+    }
+
+    setHasSearched(true);
+    if (activeSavedSearch) {
+      // A typed search replaces the open saved search
+      setActiveSavedSearch(null);
+      setSubmittedQuery(trimmed);
+    } else if (trimmed === submittedQuery) {
+      fetchSearchPage(null);
+    } else {
+      setSubmittedQuery(trimmed);
+    }
+  };
+
+  const openSavedSearch = (search: SavedSearch) => {
+    setActiveSavedSearch(search);
+    setSearchQuery(search.query);
+    setSubmittedQuery(search.query);
+    setHasSearched(true);
+  };
+
   // Determine which hobby is "active" for filter and category purposes
   const activeHobbyIdForFilters =
     hobbyId || (filterHobbyId !== "all" ? filterHobbyId : null);
@@ -346,6 +567,12 @@ function Items() {
     }
   }, [allCategories, filterCategory]);
 
+  // While searching, filter options show how many matches each would leave
+  const hobbyMatchCounts = new Map(searchFacets?.hobbies.map((facet) => [facet.id, facet.count]) ?? []);
+  const categoryMatchCounts = new Map(searchFacets?.categories.map((facet) => [facet.value, facet.count]) ?? []);
+  const withMatchCount = (label: string, counts: Map<string, number>, key: string) =>
+    hasSearched && searchFacets ? `${label} (${counts.get(key) ?? 0})` : label;
+
   // Filter items by route hobby (if present) and UI filters
   let filteredGroups: ItemsByHobby[] = itemsByHobby.filter((group) => {
     // If we're on /hobbies/:hobbyId/items, always lock to that hobby
@@ -367,6 +594,17 @@ function Items() {
       .filter((group) => group.items.length > 0);
   }
 
+  if (filterStatus !== "all") {
+    filteredGroups = filteredGroups
+      .map((group) => ({
+        ...group,
+        items: group.items.filter(
+          (item) => (item.status || DEFAULT_ITEM_STATUS) === filterStatus
+        ),
+      }))
+      .filter((group) => group.items.length > 0);
+  }
+
   const isSearching = hasSearched && !!searchQuery.trim();
 
   let searchGroups: ItemsByHobby[] = [];
@@ -374,16 +612,8 @@ function Items() {
     const hobbiesById = new Map(hobbies.map((h) => [h.id, h]));
     const byHobby = new Map<string, ItemsByHobby>();
 
+    // Hobby, category and status filters were applied by the server
     searchItems.forEach((result) => {
-      // Respect route hobby filter if present
-      if (hobbyId && result.hobby_id !== hobbyId) {
-        return;
-      }
-      // Otherwise apply hobby filter dropdown
-      if (!hobbyId && filterHobbyId !== "all" && result.hobby_id !== filterHobbyId) {
-        return;
-      }
-
       const existing = byHobby.get(result.hobby_id);
       if (!existing) {
         const hobbyMeta = hobbiesById.get(result.hobby_id);
@@ -408,23 +638,11 @@ function Items() {
         image_url: null,
         created_at: result.created_at,
         hobby_id: result.hobby_id,
+        status: result.status,
       });
     });
 
-    let groups = Array.from(byHobby.values());
-
-    if (filterCategory !== "all") {
-      groups = groups
-        .map((group) => ({
-          ...group,
-          items: group.items.filter(
-            (item) => item.category && item.category === filterCategory
-          ),
-        }))
-        .filter((group) => group.items.length > 0);
-    }
-
-    searchGroups = groups;
+    searchGroups = Array.from(byHobby.values());
   }
 
   const groupsToRender: ItemsByHobby[] = isSearching ? searchGroups : filteredGroups;
@@ -473,341 +691,438 @@ function Items() {
               ? `Browse items in "${activeHobby.name}".`
               : "Browse items across all your hobbies."}
           </p>
-          <Link to="/add/item" className="add-link-button">
-            📦 Add New Item
-          </Link>
+          <div style={{ display: "flex", gap: "0.75rem", flexWrap: "wrap" }}>
+            <Link to="/wishlist" className="add-link-button">
+              ⭐ Wishlist
+            </Link>
+            <Link to="/locations" className="add-link-button">
+              🗄️ Locations
+            </Link>
+            <Link to="/loans" className="add-link-button">
+              🤝 Loans
+            </Link>
+            <Link to="/reports/valuation" className="add-link-button">
+              💰 Valuation Report
+            </Link>
+            <Link to="/trash" className="add-link-button">
+              🗑️ Trash
+            </Link>
+            <Link to="/add/item" className="add-link-button">
+              📦 Add New Item
+            </Link>
+          </div>
         </div>
 
-        {/* Item search (text-based) */}
-        <form onSubmit={handleItemSearch} className="items-search-form">
-          <div className="items-search-input-container">
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search your items..."
-              className="items-search-input"
-              disabled={searchLoading}
-            />
-            <button
-              type="submit"
-              className="items-search-button"
-              disabled={searchLoading}
-            >
-              {searchLoading ? "🔍 Searching..." : "🔍 Search"}
-            </button>
-            {isSearching && (
-              <button
-                type="button"
-                className="items-search-clear"
-                onClick={() => {
-                  setSearchQuery("");
-                  setSearchItems(null);
-                  setHasSearched(false);
-                  setSearchError("");
-                  setSearchMethod(null);
-                }}
-                disabled={searchLoading}
-              >
-                Clear
-              </button>
+        <div className="items-layout">
+          <SavedSearchesPanel
+            activeId={activeSavedSearch?.id ?? null}
+            onOpen={openSavedSearch}
+            onDelete={(id) => {
+              if (activeSavedSearch?.id === id) {
+                setSearchQuery("");
+                clearSearch();
+              }
+            }}
+            reloadKey={savedSearchesReload}
+          />
+          <div className="items-main">
+            {/* Item search (text-based) */}
+            <form onSubmit={handleItemSearch} className="items-search-form">
+              <div className="items-search-input-container">
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search your items... (e.g. tag:vintage created:>2025-01 -broken)"
+                  className="items-search-input"
+                  disabled={searchLoading}
+                />
+                <button
+                  type="submit"
+                  className="items-search-button"
+                  disabled={searchLoading}
+                >
+                  {searchLoading ? "🔍 Searching..." : "🔍 Search"}
+                </button>
+                {isSearching && (
+                  <button
+                    type="button"
+                    className="items-search-clear"
+                    onClick={() => {
+                      setSearchQuery("");
+                      clearSearch();
+                    }}
+                    disabled={searchLoading}
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+            </form>
+
+            {searchQueryErrors.length > 0 ? (
+              <QueryErrors query={submittedQuery} errors={searchQueryErrors} />
+            ) : (
+              searchError && (
+                <div className="error-message" style={{ marginTop: "0.75rem" }}>
+                  {searchError}
+                </div>
+              )
             )}
-          </div>
-        </form>
 
-        {searchError && (
-          <div className="error-message" style={{ marginTop: "0.75rem" }}>
-            {searchError}
-          </div>
-        )}
+            {isSearching && !activeSavedSearch && submittedQuery && (
+              <SaveSearchForm
+                search={{ query: submittedQuery, mode: searchMode, filters: searchFilters }}
+                onSaved={() => setSavedSearchesReload((current) => current + 1)}
+              />
+            )}
 
-        {/* Filters */}
-        <div className="items-filters">
-          <div className="items-filter-group">
-            <label className="items-filter-label">Hobby</label>
-            {hobbyId ? (
-              <div className="items-filter-value">
-                {activeHobby ? activeHobby.name : "This hobby"}
+            {/* Filters (a saved search brings its own) */}
+            {!activeSavedSearch && (
+              <div className="items-filters">
+                <div className="items-filter-group">
+                  <label className="items-filter-label">Hobby</label>
+                  {hobbyId ? (
+                    <div className="items-filter-value">
+                      {activeHobby ? activeHobby.name : "This hobby"}
+                    </div>
+                  ) : (
+                    <select
+                      className="items-filter-select"
+                      value={filterHobbyId}
+                      onChange={(e) => setFilterHobbyId(e.target.value)}
+                    >
+                      <option value="all">All hobbies</option>
+                      {hobbies.map((hobby) => (
+                        <option key={hobby.id} value={hobby.id}>
+                          {withMatchCount(hobby.name, hobbyMatchCounts, hobby.id)}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <div className="items-filter-group">
+                  <label className="items-filter-label">Category</label>
+                  <select
+                    className="items-filter-select"
+                    value={filterCategory}
+                    onChange={(e) => setFilterCategory(e.target.value)}
+                  >
+                    <option value="all">All categories</option>
+                    {allCategories.map((cat) => (
+                      <option key={cat} value={cat}>
+                        {withMatchCount(cat, categoryMatchCounts, cat)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="items-filter-group">
+                  <label className="items-filter-label">Status</label>
+                  <select
+                    className="items-filter-select"
+                    value={filterStatus}
+                    onChange={(e) => setFilterStatus(e.target.value as ItemStatus | "all")}
+                  >
+                    <option value="all">All statuses</option>
+                    {ITEM_STATUSES.map((status) => (
+                      <option key={status} value={status}>
+                        {ITEM_STATUS_LABELS[status]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
-            ) : (
-              <select
-                className="items-filter-select"
-                value={filterHobbyId}
-                onChange={(e) => setFilterHobbyId(e.target.value)}
-              >
-                <option value="all">All hobbies</option>
-                {hobbies.map((hobby) => (
-                  <option key={hobby.id} value={hobby.id}>
-                    {hobby.name}
-                  </option>
-                ))}
-              </select>
             )}
-          </div>
-          <div className="items-filter-group">
-            <label className="items-filter-label">Category</label>
-            <select
-              className="items-filter-select"
-              value={filterCategory}
-              onChange={(e) => setFilterCategory(e.target.value)}
-            >
-              <option value="all">All categories</option>
-              {allCategories.map((cat) => (
-                <option key={cat} value={cat}>
-                  {cat}
-                </option>
-              ))}
-            </select>
-          </div>
-        </div>
 
-        {error && <div className="error-message">{error}</div>}
+            {error && <div className="error-message">{error}</div>}
 
-        <div className="items-toolbar">
-          <div className="items-toolbar-summary">
-            <span className="items-total">
-              {totalItems} item{totalItems !== 1 ? "s" : ""} across{" "}
-              {filteredGroups.length} hobbie
-              {filteredGroups.length !== 1 ? "s" : ""}
-            </span>
-          </div>
-          <div className="items-view-toggle">
-            <ViewToggle
-              mode={viewMode}
-              onChange={setViewMode}
-              ariaLabel="Change item layout"
-              labels={{ card: "Column", list: "List", icon: "Icon" }}
-            />
-          </div>
-        </div>
-
-        {totalItems === 0 ? (
-          <div className="empty-state">
-            <p className="empty-message">📦 No items yet! 📦</p>
-            <p className="empty-hint">Start adding items to your hobbies.</p>
-            <Link to="/add/item" className="add-link-button">
-              Add Your First Item
-            </Link>
-          </div>
-        ) : (
-          <>
-            {isSearching && (
-              <div className="items-search-summary">
-                <span>
-                  Showing {totalItems} item{totalItems !== 1 ? "s" : ""}{" "}
-                  {activeHobby
-                    ? `in "${activeHobby.name}"`
-                    : "across your hobbies"}
-                  {searchMethod
-                    ? ` · ${searchMethod === "semantic" ? "Semantic" : "Text"} search`
-                    : ""}
+            <div className="items-toolbar">
+              <div className="items-toolbar-summary">
+                <span className="items-total">
+                  {totalItems} item{totalItems !== 1 ? "s" : ""} across{" "}
+                  {filteredGroups.length} hobbie
+                  {filteredGroups.length !== 1 ? "s" : ""}
                 </span>
               </div>
-            )}
+              <div className="items-view-toggle">
+                <ViewToggle
+                  mode={viewMode}
+                  onChange={setViewMode}
+                  ariaLabel="Change item layout"
+                  labels={{ card: "Column", list: "List", icon: "Icon" }}
+                />
+              </div>
+            </div>
 
-            <div className="items-container">
-              {groupsToRender.map((group) => (
-                <div key={group.hobby.id} className="hobby-section">
-                <div className="hobby-section-header">
-                  <h2 className="hobby-section-title">
-                    <Link to={`/hobbies/${group.hobby.id}/items`} className="hobby-link">
-                      {group.hobby.name}
-                    </Link>
-                  </h2>
-                  <span className="item-count">{group.items.length} item{group.items.length !== 1 ? 's' : ''}</span>
-                </div>
-                {viewMode === "card" && (
-                  <div className="items-grid items-grid-card">
-                    {group.items.map((item) => (
-                      <div
-                        key={item.id}
-                        className="item-card"
-                        onClick={() => setSelectedItem(item)}
-                        role="button"
-                        tabIndex={0}
-                        onKeyDown={(e) => {
-                          if (e.key === "Enter" || e.key === " ") {
-                            setSelectedItem(item);
-                          }
-                        }}
-                        style={{ cursor: "pointer" }}
-                      >
-                        <div className="card-glow"></div>
-                        <h3>{item.name}</h3>
-                        {item.description && (
-                          <p className="card-description">{item.description}</p>
-                        )}
-                        {item.category && (
-                          <div className="card-category">
-                            <span className="category-label">Category:</span>
-                            <span className="category-value">
-                              {item.category}
-                            </span>
-                          </div>
-                        )}
-                        {item.tags && item.tags.length > 0 && (
-                          <div className="card-tags">
-                            {item.tags.slice(0, 2).map((tag, index) => (
-                              <span key={index} className="tag">
-                                #{tag}
-                              </span>
-                            ))}
-                            {item.tags.length > 2 && (
-                              <span className="tag more-tag">+{item.tags.length - 2} tags</span>
-                            )}
-                          </div>
-                        )}
-                        <div className="card-footer">
-                          <div className="action-buttons">
-                            <button
-                              className="edit-button"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleEdit(item, group.hobby.id);
-                              }}
-                              title="Edit item"
-                            >
-                              ✏️
-                            </button>
-                            <button
-                              className="delete-button"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                setDeleteConfirm({
-                                  itemId: item.id,
-                                  hobbyId: group.hobby.id,
-                                });
-                              }}
-                              title="Delete item"
-                            >
-                              🗑️
-                            </button>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
+            {totalItems === 0 ? (
+              <div className="empty-state">
+                <p className="empty-message">📦 No items yet! 📦</p>
+                <p className="empty-hint">Start adding items to your hobbies.</p>
+                <Link to="/add/item" className="add-link-button">
+                  Add Your First Item
+                </Link>
+              </div>
+            ) : (
+              <>
+                {isSearching && (
+                  <div className="items-search-summary">
+                    <span>
+                      Showing {totalItems} item{totalItems !== 1 ? "s" : ""}{" "}
+                      {activeSavedSearch
+                        ? `in "${activeSavedSearch.name}"`
+                        : activeHobby
+                          ? `in "${activeHobby.name}"`
+                          : "across your hobbies"}
+                      {searchMethod ? ` · ${SEARCH_MODE_LABELS[searchMethod]} search` : ""}
+                      {newMatchIds.size > 0 ? ` · ${newMatchIds.size} new` : ""}
+                    </span>
                   </div>
                 )}
 
-                {viewMode === "list" && (
-                  <div className="items-list" aria-label="Items list view">
-                    {group.items.map((item) => (
-                      <div key={item.id} className="item-row">
-                        <div className="item-row-main">
-                          <div className="item-row-primary">
-                            <span className="item-row-name">{item.name}</span>
-                            {item.category && (
-                              <span className="item-row-category">
-                                {item.category}
+                <div className="items-container">
+                  {groupsToRender.map((group) => (
+                    <div key={group.hobby.id} className="hobby-section">
+                    <div className="hobby-section-header">
+                      <h2 className="hobby-section-title">
+                        <Link to={`/hobbies/${group.hobby.id}/items`} className="hobby-link">
+                          {group.hobby.name}
+                        </Link>
+                      </h2>
+                      <span className="item-count">{group.items.length} item{group.items.length !== 1 ? 's' : ''}</span>
+                    </div>
+                    {viewMode === "card" && (
+                      <div className="items-grid items-grid-card">
+                        {group.items.map((item) => (
+                          <div
+                            key={item.id}
+                            className="item-card"
+                            onClick={() => setSelectedItem(item)}
+                            role="button"
+                            tabIndex={0}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter" || e.key === " ") {
+                                setSelectedItem(item);
+                              }
+                            }}
+                            style={{ cursor: "pointer" }}
+                          >
+                            <div className="card-glow"></div>
+                            <h3>{item.name}</h3>
+                            {newMatchIds.has(item.id) && <span className="item-new-badge">New match</span>}
+                            {item.status && item.status !== DEFAULT_ITEM_STATUS && (
+                              <span className={`item-status-badge ${item.status}`}>
+                                {itemStatusLabel(item.status)}
                               </span>
                             )}
+                            {item.loan && (
+                              <span
+                                className={`item-loan-badge${item.loan.overdue ? " overdue" : ""}`}
+                                title={describeLoan(item.loan)}
+                              >
+                                {item.loan.overdue ? "Overdue" : "On loan"}
+                              </span>
+                            )}
+                            {item.description && (
+                              <p className="card-description">{item.description}</p>
+                            )}
+                            {item.category && (
+                              <div className="card-category">
+                                <span className="category-label">Category:</span>
+                                <span className="category-value">
+                                  {item.category}
+                                </span>
+                              </div>
+                            )}
+                            {item.tags && item.tags.length > 0 && (
+                              <div className="card-tags">
+                                {item.tags.slice(0, 2).map((tag, index) => (
+                                  <span key={index} className="tag">
+                                    #{tag}
+                                  </span>
+                                ))}
+                                {item.tags.length > 2 && (
+                                  <span className="tag more-tag">+{item.tags.length - 2} tags</span>
+                                )}
+                              </div>
+                            )}
+                            <div className="card-footer">
+                              <div className="action-buttons">
+                                <button
+                                  className="edit-button"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleEdit(item, group.hobby.id);
+                                  }}
+                                  title="Edit item"
+                                >
+                                  ✏️
+                                </button>
+                                <button
+                                  className="delete-button"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setDeleteConfirm({
+                                      itemId: item.id,
+                                      hobbyId: group.hobby.id,
+                                    });
+                                  }}
+                                  title="Delete item"
+                                >
+                                  🗑️
+                                </button>
+                              </div>
+                            </div>
                           </div>
-                          {item.description && (
-                            <div className="item-row-description">
-                              {item.description}
+                        ))}
+                      </div>
+                    )}
+
+                    {viewMode === "list" && (
+                      <div className="items-list" aria-label="Items list view">
+                        {group.items.map((item) => (
+                          <div key={item.id} className="item-row">
+                            <div className="item-row-main">
+                              <div className="item-row-primary">
+                                <span className="item-row-name">{item.name}</span>
+                                {newMatchIds.has(item.id) && <span className="item-new-badge">New match</span>}
+                                {item.status && item.status !== DEFAULT_ITEM_STATUS && (
+                                  <span className={`item-status-badge ${item.status}`}>
+                                    {itemStatusLabel(item.status)}
+                                  </span>
+                                )}
+                                {item.loan && (
+                                  <span
+                                    className={`item-loan-badge${item.loan.overdue ? " overdue" : ""}`}
+                                    title={describeLoan(item.loan)}
+                                  >
+                                    {item.loan.overdue ? "Overdue" : "On loan"}
+                                  </span>
+                                )}
+                                {item.category && (
+                                  <span className="item-row-category">
+                                    {item.category}
+                                  </span>
+                                )}
+                              </div>
+                              {item.description && (
+                                <div className="item-row-description">
+                                  {item.description}
+                                </div>
+                              )}
                             </div>
-                          )}
-                        </div>
-                        <div className="item-row-meta">
-                          {item.tags && item.tags.length > 0 && (
-                            <div className="item-row-tags">
-                              {item.tags.slice(0, 3).map((tag, index) => (
-                                <span key={index} className="item-row-tag">
-                                  #{tag}
-                                </span>
-                              ))}
-                              {item.tags.length > 3 && (
-                                <span className="item-row-tag-more">
-                                  +{item.tags.length - 3} more
-                                </span>
+                            <div className="item-row-meta">
+                              {item.tags && item.tags.length > 0 && (
+                                <div className="item-row-tags">
+                                  {item.tags.slice(0, 3).map((tag, index) => (
+                                    <span key={index} className="item-row-tag">
+                                      #{tag}
+                                    </span>
+                                  ))}
+                                  {item.tags.length > 3 && (
+                                    <span className="item-row-tag-more">
+                                      +{item.tags.length - 3} more
+                                    </span>
+                                  )}
+                                </div>
                               )}
+                              <div className="item-row-actions">
+                                <button
+                                  className="edit-button"
+                                  onClick={() => handleEdit(item, group.hobby.id)}
+                                  title="Edit item"
+                                >
+                                  ✏️
+                                </button>
+                                <button
+                                  className="delete-button"
+                                  onClick={() =>
+                                    setDeleteConfirm({
+                                      itemId: item.id,
+                                      hobbyId: group.hobby.id,
+                                    })
+                                  }
+                                  title="Delete item"
+                                >
+                                  🗑️
+                                </button>
+                              </div>
                             </div>
-                          )}
-                          <div className="item-row-actions">
-                            <button
-                              className="edit-button"
-                              onClick={() => handleEdit(item, group.hobby.id)}
-                              title="Edit item"
-                            >
-                              ✏️
-                            </button>
-                            <button
-                              className="delete-button"
-                              onClick={() =>
-                                setDeleteConfirm({
-                                  itemId: item.id,
-                                  hobbyId: group.hobby.id,
-                                })
-                              }
-                              title="Delete item"
-                            >
-                              🗑️
-                            </button>
                           </div>
-                        </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                )}
+                    )}
 
-                {viewMode === "icon" && (
-                  <div className="items-grid items-grid-icon">
-                    {group.items.map((item) => (
-                      <button
-                        key={item.id}
-                        type="button"
-                        className="item-icon-card"
-                        onClick={() => handleEdit(item, group.hobby.id)}
-                        title={`Edit ${item.name}`}
-                      >
-                        <div className="item-icon-thumb">
-                          {item.image_url ? (
-                            <img
-                              src={item.image_url}
-                              alt={item.name}
-                              className="item-icon-image"
-                              onError={(e) => {
-                                (e.target as HTMLImageElement).style.display =
-                                  "none";
-                              }}
-                            />
-                          ) : (
-                            <span className="item-icon-fallback">
-                              {item.name.charAt(0).toUpperCase()}
-                            </span>
-                          )}
-                        </div>
-                        <span className="item-icon-name">{item.name}</span>
-                        {item.category && (
-                          <span className="item-icon-category">
-                            {item.category}
-                          </span>
-                        )}
-                      </button>
-                    ))}
+                    {viewMode === "icon" && (
+                      <div className="items-grid items-grid-icon">
+                        {group.items.map((item) => (
+                          <button
+                            key={item.id}
+                            type="button"
+                            className="item-icon-card"
+                            onClick={() => handleEdit(item, group.hobby.id)}
+                            title={`Edit ${item.name}`}
+                          >
+                            <div className="item-icon-thumb">
+                              {item.image_url ? (
+                                <img
+                                  src={imageVariantUrl(item.image_url, "thumb")}
+                                  alt={item.name}
+                                  className="item-icon-image"
+                                  loading="lazy"
+                                  onError={(e) => {
+                                    (e.target as HTMLImageElement).style.display =
+                                      "none";
+                                  }}
+                                />
+                              ) : (
+                                <span className="item-icon-fallback">
+                                  {item.name.charAt(0).toUpperCase()}
+                                </span>
+                              )}
+                            </div>
+                            <span className="item-icon-name">{item.name}</span>
+                            {item.category && (
+                              <span className="item-icon-category">
+                                {item.category}
+                              </span>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    </div>
+                  ))}
+                </div>
+
+                {isSearching && searchCursor && (
+                  <div className="items-load-more">
+                    <button
+                      type="button"
+                      className="items-search-button"
+                      onClick={() => fetchSearchPage(searchCursor)}
+                      disabled={searchLoadingMore}
+                    >
+                      {searchLoadingMore ? "Loading..." : "Load more results"}
+                    </button>
                   </div>
                 )}
-                </div>
-              ))}
-            </div>
-          </>
-        )}
+              </>
+            )}
+          </div>
+        </div>
 
         {/* Details Modal */}
         {selectedItem && (
           <ItemDetailsModal
+            key={selectedItem.id}
             item={selectedItem}
+            hobbyId={findItemHobbyId(selectedItem)}
             onClose={() => setSelectedItem(null)}
+            onPrimaryImageChange={(imageUrl) => handlePrimaryImageChange(selectedItem.id, imageUrl)}
+            onLoanChange={(loan) => handleLoanChange(selectedItem.id, loan)}
+            onRevert={(restored) => handleItemReverted(selectedItem.id, restored)}
             onEdit={() => {
-              // Try to use hobby_id from the item first, then fall back to grouping lookup.
-              let hid = selectedItem.hobby_id;
-              if (!hid) {
-                const group = itemsByHobby.find((g) =>
-                  g.items.some((i) => i.id === selectedItem.id)
-                );
-                if (group) hid = group.hobby.id;
-              }
-
+              const hid = findItemHobbyId(selectedItem);
               if (hid) {
                 handleEdit(selectedItem, hid);
                 setSelectedItem(null);
@@ -861,6 +1176,22 @@ function Items() {
                   Move this item to a different hobby, or keep it in the current one.
                 </p>
               </div>
+              <div className="form-group">
+                <label htmlFor="edit-item-status">Status</label>
+                <select
+                  id="edit-item-status"
+                  value={editStatus}
+                  onChange={(e) => setEditStatus(e.target.value as ItemStatus)}
+                  className="form-input"
+                >
+                  {ITEM_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {ITEM_STATUS_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <LocationSelect id="edit-item-location" value={editLocationId} onChange={setEditLocationId} />
               <div className="form-group">
                 <label htmlFor="edit-item-category">Category</label>
                 <input
@@ -892,6 +1223,13 @@ function Items() {
                   Start typing to create a new item category, or pick from your previously used item categories. Leave empty to inherit the hobby&apos;s category by default.
                 </p>
               </div>
+              <CustomFieldInputs
+                fields={editItemFields}
+                values={editCustomFields}
+                onChange={setEditCustomFields}
+                idPrefix="edit-item-field"
+              />
+              <ValuationInputs values={editValuation} onChange={setEditValuation} idPrefix="edit-item-value" />
               <div className="modal-actions">
                 <button className="cancel-button" onClick={handleCancelEdit}>
                   Cancel
@@ -908,7 +1246,7 @@ function Items() {
         {deleteConfirm && (
           <ConfirmModal
             title="Delete Item?"
-            message="Are you sure you want to delete this item? This action cannot be undone."
+            message="Move this item to the trash? You can restore it from the Trash page until it is deleted permanently."
             confirmLabel="Delete"
             onCancel={() => setDeleteConfirm(null)}
             onConfirm={() =>
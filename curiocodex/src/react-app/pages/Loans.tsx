@@ -0,0 +1,169 @@
+/**
+ * Loans page - Items currently lent out, across all hobbies.
+ * Overdue loans are highlighted and can be shown on their own; returned
+ * items can be checked back in from here.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import { imageVariantUrl } from "../utils/images";
+import { describeLoan, type ItemLoan } from "../utils/loans";
+import "./Items.css";
+
+interface LoanEntry extends ItemLoan {
+  item: { id: string; name: string; image_url: string | null };
+  hobby: { id: string; name: string };
+}
+
+function Loans() {
+  const { token, isAuthenticated } = useAuth();
+  const [loans, setLoans] = useState<LoanEntry[]>([]);
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [returningId, setReturningId] = useState<string | null>(null);
+
+  const fetchLoans = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiRequest(
+        `/api/loans${overdueOnly ? "?overdue=true" : ""}`,
+        { method: "GET" },
+        token
+      );
+      const data = await parseResponse<{ loans: LoanEntry[] }>(response);
+      setLoans(data.loans);
+      setError("");
+    } catch (err) {
+      console.error("Error fetching loans:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to load loans";
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [overdueOnly, token]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchLoans();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, fetchLoans]);
+
+  const handleReturn = async (loan: LoanEntry) => {
+    try {
+      setReturningId(loan.id);
+      const response = await apiRequest(
+        `/api/hobbies/${loan.hobby.id}/items/${loan.item.id}/loans/${loan.id}/return`,
+        { method: "PUT", body: JSON.stringify({}) },
+        token
+      );
+      await parseResponse(response);
+      setLoans((current) => current.filter((entry) => entry.id !== loan.id));
+    } catch (err) {
+      console.error("Error returning loan:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to mark as returned";
+      setError(errorMessage);
+    } finally {
+      setReturningId(null);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="page">
+        <h1>Loans</h1>
+        <div className="page-content">
+          <p>Please log in to view your loans.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const overdueCount = loans.filter((loan) => loan.overdue).length;
+
+  return (
+    <div className="page">
+      <h1>Loans</h1>
+      <div className="page-content">
+        <div className="items-header">
+          <p>
+            Items you have lent out
+            {!overdueOnly && overdueCount > 0 && ` · ${overdueCount} overdue`}
+          </p>
+          <Link to="/items" className="add-link-button">
+            📦 Back to Items
+          </Link>
+        </div>
+
+        <div className="items-filters">
+          <div className="items-filter-group">
+            <label className="items-filter-label">
+              <input type="checkbox" checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} />{" "}
+              Overdue only
+            </label>
+          </div>
+        </div>
+
+        {loading && <p>Loading your loans...</p>}
+        {error && <div className="error-message">{error}</div>}
+
+        {!loading && loans.length === 0 && (
+          <div className="empty-state">
+            <p className="empty-message">🤝 {overdueOnly ? "Nothing is overdue" : "Nothing is out on loan"} 🤝</p>
+            <p className="empty-hint">Lend an item from its details on the Items page.</p>
+          </div>
+        )}
+
+        {!loading && loans.length > 0 && (
+          <div className="items-list">
+            {loans.map((loan) => (
+              <div key={loan.id} className="item-row">
+                <div className="item-row-main">
+                  <div className="item-row-primary">
+                    {loan.item.image_url && (
+                      <img
+                        src={imageVariantUrl(loan.item.image_url, "thumb")}
+                        alt={loan.item.name}
+                        loading="lazy"
+                        style={{ width: "2.5rem", height: "2.5rem", objectFit: "cover", borderRadius: "6px" }}
+                      />
+                    )}
+                    <span className="item-row-name">{loan.item.name}</span>
+                    <span className={`item-loan-badge${loan.overdue ? " overdue" : ""}`}>
+                      {loan.overdue ? "Overdue" : "On loan"}
+                    </span>
+                  </div>
+                  <div className="item-row-description">
+                    {describeLoan(loan)}
+                    {loan.borrower_contact && ` (${loan.borrower_contact})`} ·{" "}
+                    <Link to={`/hobbies/${loan.hobby.id}/items`} className="hobby-link">
+                      {loan.hobby.name}
+                    </Link>
+                  </div>
+                </div>
+                <div className="item-row-meta">
+                  <div className="item-row-actions">
+                    <button
+                      type="button"
+                      className="save-button"
+                      onClick={() => handleReturn(loan)}
+                      disabled={returningId === loan.id}
+                    >
+                      ↩️ Returned
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Loans;
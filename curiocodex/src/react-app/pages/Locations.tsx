@@ -0,0 +1,476 @@
+/**
+ * Locations page - The rooms, shelves and boxes where items are kept.
+ * Users build a tree of storage locations, browse what each one contains,
+ * and search for an item to find out where it is.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import { imageVariantUrl } from "../utils/images";
+import { itemStatusLabel, DEFAULT_ITEM_STATUS, type ItemStatus } from "../utils/itemStatus";
+import {
+  LOCATION_KINDS,
+  LOCATION_KIND_ICONS,
+  LOCATION_KIND_LABELS,
+  sortLocationsByPath,
+  type ItemLocation,
+  type LocationKind,
+  type StorageLocation,
+} from "../utils/locations";
+import ConfirmModal from "../components/ConfirmModal";
+import "./Items.css";
+
+interface LocatedItem {
+  id: string;
+  hobby_id: string;
+  hobby_name: string;
+  name: string;
+  category: string | null;
+  image_url: string | null;
+  status: ItemStatus;
+  location: ItemLocation | null;
+}
+
+interface LocationContents {
+  location: StorageLocation;
+  children: StorageLocation[];
+  items: LocatedItem[];
+}
+
+interface LocationDraft {
+  name: string;
+  kind: LocationKind;
+  parentId: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: LocationDraft = { name: "", kind: "room", parentId: "", notes: "" };
+
+/** Nesting depth of a location, used to indent the tree. */
+function locationDepth(locations: StorageLocation[], location: StorageLocation): number {
+  const byId = new Map(locations.map((entry) => [entry.id, entry]));
+  let depth = 0;
+  let parentId = location.parent_id;
+  while (parentId && depth < locations.length) {
+    depth++;
+    parentId = byId.get(parentId)?.parent_id ?? null;
+  }
+  return depth;
+}
+
+function Locations() {
+  const { token, isAuthenticated } = useAuth();
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [draft, setDraft] = useState<LocationDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<StorageLocation | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [includeNested, setIncludeNested] = useState(false);
+  const [contents, setContents] = useState<LocationContents | null>(null);
+  const [whereQuery, setWhereQuery] = useState("");
+  const [whereResults, setWhereResults] = useState<LocatedItem[] | null>(null);
+
+  const fetchLocations = useCallback(async () => {
+    try {
+      const response = await apiRequest("/api/locations", { method: "GET" }, token);
+      const data = await parseResponse<{ locations: StorageLocation[] }>(response);
+      setLocations(sortLocationsByPath(data.locations));
+      setError("");
+    } catch (err) {
+      console.error("Error fetching locations:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to load locations";
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  const fetchContents = useCallback(async () => {
+    if (!selectedId) {
+      setContents(null);
+      return;
+    }
+    try {
+      const response = await apiRequest(
+        `/api/locations/${selectedId}${includeNested ? "?recursive=true" : ""}`,
+        { method: "GET" },
+        token
+      );
+      setContents(await parseResponse<LocationContents>(response));
+    } catch (err) {
+      console.error("Error fetching location contents:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to load location";
+      setError(errorMessage);
+    }
+  }, [selectedId, includeNested, token]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchLocations();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, fetchLocations]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchContents();
+    }
+  }, [isAuthenticated, fetchContents]);
+
+  const startCreate = (parentId = "") => {
+    setEditingId("new");
+    setDraft({ ...EMPTY_DRAFT, parentId, kind: parentId ? "shelf" : "room" });
+  };
+
+  const startEdit = (location: StorageLocation) => {
+    setEditingId(location.id);
+    setDraft({
+      name: location.name,
+      kind: location.kind,
+      parentId: location.parent_id || "",
+      notes: location.notes || "",
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || !editingId) return;
+
+    try {
+      setSaving(true);
+      const isNew = editingId === "new";
+      const response = await apiRequest(
+        isNew ? "/api/locations" : `/api/locations/${editingId}`,
+        {
+          method: isNew ? "POST" : "PUT",
+          body: JSON.stringify({
+            name: draft.name.trim(),
+            kind: draft.kind,
+            parentId: draft.parentId || null,
+            notes: draft.notes.trim() || null,
+          }),
+        },
+        token
+      );
+      await parseResponse(response);
+      setEditingId(null);
+      setDraft(EMPTY_DRAFT);
+      await fetchLocations();
+      await fetchContents();
+    } catch (err) {
+      console.error("Error saving location:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to save location";
+      setError(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      const response = await apiRequest(`/api/locations/${deleteTarget.id}`, { method: "DELETE" }, token);
+      await parseResponse(response);
+      if (selectedId === deleteTarget.id) {
+        setSelectedId(null);
+      }
+      setDeleteTarget(null);
+      await fetchLocations();
+    } catch (err) {
+      console.error("Error deleting location:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to delete location";
+      setError(errorMessage);
+      setDeleteTarget(null);
+    }
+  };
+
+  const handleWhereIs = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!whereQuery.trim()) {
+      setWhereResults(null);
+      return;
+    }
+    try {
+      const response = await apiRequest(
+        `/api/locations/where-is?q=${encodeURIComponent(whereQuery.trim())}`,
+        { method: "GET" },
+        token
+      );
+      const data = await parseResponse<{ items: LocatedItem[] }>(response);
+      setWhereResults(data.items);
+    } catch (err) {
+      console.error("Error searching locations:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to search";
+      setError(errorMessage);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="page">
+        <h1>Locations</h1>
+        <div className="page-content">
+          <p>Please log in to manage your storage locations.</p>
+        </div>
+      </div>
+    );
+  }
+
+  // A location can't be moved into itself or anything inside it
+  const parentOptions = locations.filter(
+    (location) =>
+      editingId === "new" ||
+      (location.id !== editingId &&
+        !locations.some((entry) => entry.id === editingId && location.path.startsWith(`${entry.path} › `)))
+  );
+
+  const renderItemRow = (item: LocatedItem, showLocation: boolean) => (
+    <div key={item.id} className="item-row">
+      <div className="item-row-main">
+        <div className="item-row-primary">
+          {item.image_url && (
+            <img
+              src={imageVariantUrl(item.image_url, "thumb")}
+              alt={item.name}
+              loading="lazy"
+              style={{ width: "2.5rem", height: "2.5rem", objectFit: "cover", borderRadius: "6px" }}
+            />
+          )}
+          <span className="item-row-name">{item.name}</span>
+          {item.status !== DEFAULT_ITEM_STATUS && (
+            <span className={`item-status-badge ${item.status}`}>{itemStatusLabel(item.status)}</span>
+          )}
+          {item.category && <span className="item-row-category">{item.category}</span>}
+        </div>
+        <div className="item-row-description">
+          <Link to={`/hobbies/${item.hobby_id}/items`} className="hobby-link">
+            {item.hobby_name}
+          </Link>
+          {showLocation && ` · ${item.location ? `📍 ${item.location.path}` : "No location set"}`}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="page">
+      <h1>Locations</h1>
+      <div className="page-content">
+        <div className="items-header">
+          <p>Keep track of where your items are stored.</p>
+          <div style={{ display: "flex", gap: "0.75rem", flexWrap: "wrap" }}>
+            <button type="button" className="add-link-button" onClick={() => startCreate()}>
+              ➕ New Location
+            </button>
+            <Link to="/items" className="add-link-button">
+              📦 Back to Items
+            </Link>
+          </div>
+        </div>
+
+        <form onSubmit={handleWhereIs} className="items-search-form">
+          <div className="items-search-input-container">
+            <input
+              type="text"
+              value={whereQuery}
+              onChange={(e) => setWhereQuery(e.target.value)}
+              placeholder="Where is it? Search your items by name, description or tag..."
+              className="items-search-input"
+            />
+          </div>
+        </form>
+
+        {whereResults && (
+          <div className="hobby-section">
+            <div className="hobby-section-header">
+              <h2 className="hobby-section-title">Where is &quot;{whereQuery}&quot;?</h2>
+              <button type="button" className="secondary-action-button" onClick={() => setWhereResults(null)}>
+                Clear
+              </button>
+            </div>
+            {whereResults.length === 0 ? (
+              <p className="empty-hint">No matching items.</p>
+            ) : (
+              <div className="items-list">{whereResults.map((item) => renderItemRow(item, true))}</div>
+            )}
+          </div>
+        )}
+
+        {error && <div className="error-message">{error}</div>}
+
+        {editingId && (
+          <form onSubmit={handleSave} className="hobby-section">
+            <h2 className="hobby-section-title">{editingId === "new" ? "New Location" : "Edit Location"}</h2>
+            <div className="form-group">
+              <label htmlFor="location-name">Name *</label>
+              <input
+                id="location-name"
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="form-input"
+                placeholder="e.g. Study, Bookcase, Box 3"
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="location-kind">Kind</label>
+              <select
+                id="location-kind"
+                value={draft.kind}
+                onChange={(e) => setDraft({ ...draft, kind: e.target.value as LocationKind })}
+                className="form-input"
+              >
+                {LOCATION_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {LOCATION_KIND_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="location-parent">Inside</label>
+              <select
+                id="location-parent"
+                value={draft.parentId}
+                onChange={(e) => setDraft({ ...draft, parentId: e.target.value })}
+                className="form-input"
+              >
+                <option value="">Nothing (top level)</option>
+                {parentOptions.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.path}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="location-notes">Notes</label>
+              <textarea
+                id="location-notes"
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                rows={2}
+                className="form-textarea"
+              />
+            </div>
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <button type="submit" className="save-button" disabled={saving || !draft.name.trim()}>
+                {saving ? "Saving..." : "Save"}
+              </button>
+              <button type="button" className="cancel-button" onClick={() => setEditingId(null)}>
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {loading && <p>Loading your locations...</p>}
+
+        {!loading && locations.length === 0 && !editingId && (
+          <div className="empty-state">
+            <p className="empty-message">🗄️ No locations yet 🗄️</p>
+            <p className="empty-hint">
+              Add the rooms, shelves and boxes where you keep things, then set each item&apos;s location.
+            </p>
+          </div>
+        )}
+
+        {!loading && locations.length > 0 && (
+          <div className="hobby-section">
+            <div className="items-list">
+              {locations.map((location) => (
+                <div
+                  key={location.id}
+                  className="item-row"
+                  style={{
+                    marginLeft: `${locationDepth(locations, location) * 1.5}rem`,
+                    outline: selectedId === location.id ? "2px solid #646cff" : undefined,
+                  }}
+                >
+                  <div className="item-row-main">
+                    <div className="item-row-primary">
+                      <span>{LOCATION_KIND_ICONS[location.kind]}</span>
+                      <button
+                        type="button"
+                        className="item-row-name"
+                        style={{ background: "none", border: "none", cursor: "pointer", padding: 0 }}
+                        onClick={() => setSelectedId(selectedId === location.id ? null : location.id)}
+                      >
+                        {location.name}
+                      </button>
+                      <span className="item-row-category">{LOCATION_KIND_LABELS[location.kind]}</span>
+                      <span className="item-count">
+                        {location.item_count} item{location.item_count !== 1 ? "s" : ""}
+                      </span>
+                    </div>
+                    {location.notes && <div className="item-row-description">{location.notes}</div>}
+                  </div>
+                  <div className="item-row-meta">
+                    <div className="item-row-actions">
+                      <button type="button" className="secondary-action-button" onClick={() => startCreate(location.id)}>
+                        ➕ Inside
+                      </button>
+                      <button type="button" className="secondary-action-button" onClick={() => startEdit(location)}>
+                        ✏️ Edit
+                      </button>
+                      <button type="button" className="cancel-button" onClick={() => setDeleteTarget(location)}>
+                        🗑️
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {contents && (
+          <div className="hobby-section">
+            <div className="hobby-section-header">
+              <h2 className="hobby-section-title">
+                {LOCATION_KIND_ICONS[contents.location.kind]} {contents.location.path}
+              </h2>
+              <label className="items-filter-label">
+                <input
+                  type="checkbox"
+                  checked={includeNested}
+                  onChange={(e) => setIncludeNested(e.target.checked)}
+                />{" "}
+                Include nested locations
+              </label>
+            </div>
+            {contents.children.length > 0 && (
+              <p className="item-row-description">
+                Contains: {contents.children.map((child) => child.name).join(", ")}
+              </p>
+            )}
+            {contents.items.length === 0 ? (
+              <p className="empty-hint">No items here yet. Set an item&apos;s location when adding or editing it.</p>
+            ) : (
+              <div className="items-list">{contents.items.map((item) => renderItemRow(item, includeNested))}</div>
+            )}
+          </div>
+        )}
+
+        {deleteTarget && (
+          <ConfirmModal
+            title="Delete Location"
+            message={`Delete "${deleteTarget.name}"? Anything inside it moves up a level; no items are deleted.`}
+            confirmLabel="Delete"
+            onConfirm={handleDelete}
+            onCancel={() => setDeleteTarget(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Locations;
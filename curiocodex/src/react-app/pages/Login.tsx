@@ -3,7 +3,7 @@
  */
 
 import { useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useLocation, Link } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
 import "./Auth.css";
 
@@ -13,7 +13,10 @@ function Login() {
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
   const { login } = useAuth();
+  // Set by the reset password page after a successful reset
+  const notice = (location.state as { message?: string } | null)?.message;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -73,8 +76,12 @@ function Login() {
               required
               disabled={loading}
             />
+            <Link to="/forgot-password" className="auth-forgot-link">
+              Forgot password?
+            </Link>
           </div>
           
+          {notice && !error && <div className="success-message">{notice}</div>}
           {error && <div className="error-message">{error}</div>}
           
           <button type="submit" className="auth-button" disabled={loading}>
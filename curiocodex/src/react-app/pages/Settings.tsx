@@ -2,17 +2,188 @@
  * Settings page - User preferences and configuration.
  */
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
 import { apiRequest, parseResponse } from "../utils/api";
 
+interface ActionResult {
+  success: boolean;
+  message: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: "0.5rem",
+  borderRadius: "4px",
+  border: "1px solid #ccc",
+  fontSize: "1rem",
+};
+
+const fieldStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: "0.25rem",
+  maxWidth: "360px",
+};
+
+interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
+/**
+ * Turn a raw user agent into a short "Browser on OS" label.
+ */
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent;
+}
+
+function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleString();
+}
+
+function ResultMessage({ result }: { result: ActionResult | null }) {
+  if (!result) return null;
+  return (
+    <div
+      style={{
+        marginTop: "1rem",
+        padding: "1rem",
+        backgroundColor: result.success ? "#d4edda" : "#f8d7da",
+        color: result.success ? "#155724" : "#721c24",
+        borderRadius: "4px",
+        border: `1px solid ${result.success ? "#c3e6cb" : "#f5c6cb"}`,
+      }}
+    >
+      {result.message}
+    </div>
+  );
+}
+
 function Settings() {
-  const { token } = useAuth();
+  const { token, user, login, logout } = useAuth();
+  const navigate = useNavigate();
+  const [username, setUsername] = useState(user?.username || "");
+  const [email, setEmail] = useState(user?.email || "");
+  const [profilePassword, setProfilePassword] = useState("");
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [profileResult, setProfileResult] = useState<ActionResult | null>(null);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [passwordResult, setPasswordResult] = useState<ActionResult | null>(null);
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleting, setDeleting] = useState(false);
+  const [deleteResult, setDeleteResult] = useState<ActionResult | null>(null);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [sessionsResult, setSessionsResult] = useState<ActionResult | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    if (!token) return;
+
+    setSessionsLoading(true);
+    try {
+      const response = await apiRequest("/api/user/sessions", { method: "GET" }, token);
+      const data = await parseResponse<{ sessions: SessionInfo[] }>(response);
+      setSessions(data.sessions);
+    } catch (err) {
+      console.error("Error loading sessions:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load sessions";
+      setSessionsResult({ success: false, message: errorMessage });
+    } finally {
+      setSessionsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  /**
+   * Revoke one session. Revoking the current one is the same as logging out.
+   */
+  const handleRevokeSession = async (session: SessionInfo) => {
+    if (!token) return;
+
+    setSessionsResult(null);
+    try {
+      const response = await apiRequest(`/api/user/sessions/${session.id}`, { method: "DELETE" }, token);
+      await parseResponse(response);
+
+      if (session.current) {
+        await logout();
+        navigate("/login");
+        return;
+      }
+
+      setSessions((current) => current.filter((s) => s.id !== session.id));
+      setSessionsResult({ success: true, message: `Logged out ${describeUserAgent(session.userAgent)}.` });
+    } catch (err) {
+      console.error("Error revoking session:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to revoke session";
+      setSessionsResult({ success: false, message: errorMessage });
+    }
+  };
+
+  /**
+   * Log out everywhere except this browser.
+   */
+  const handleRevokeOtherSessions = async () => {
+    if (!token) return;
+
+    setSessionsResult(null);
+    try {
+      const response = await apiRequest("/api/user/sessions", { method: "DELETE" }, token);
+      const data = await parseResponse<{ success: boolean; revoked: number }>(response);
+      setSessions((current) => current.filter((s) => s.current));
+      setSessionsResult({
+        success: true,
+        message: `Logged out ${data.revoked} other device(s).`,
+      });
+    } catch (err) {
+      console.error("Error revoking sessions:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to log out other devices";
+      setSessionsResult({ success: false, message: errorMessage });
+    }
+  };
   const [repairing, setRepairing] = useState(false);
   const [repairResult, setRepairResult] = useState<{
     success: boolean;
     message: string;
   } | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [transferResult, setTransferResult] = useState<{
+    success: boolean;
+    message: string;
+  } | null>(null);
 
   /**
    * Call the admin endpoint to rebuild Vectorize metadata for all of the
@@ -71,12 +242,410 @@ function Settings() {
     }
   };
 
+  /**
+   * Download the full collection archive (hobbies, items, categories and
+   * images) as a JSON file.
+   */
+  const handleExport = async () => {
+    if (!token) return;
+
+    setExporting(true);
+    setTransferResult(null);
+
+    try {
+      const response = await apiRequest("/api/export", { method: "GET" }, token);
+      if (!response.ok) {
+        await parseResponse(response);
+      }
+
+      const blob = await response.blob();
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filenameMatch = disposition.match(/filename="([^"]+)"/);
+      const filename = filenameMatch ? filenameMatch[1] : "curiocodex-export.json";
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      setTransferResult({ success: true, message: `Exported your collection to ${filename}.` });
+    } catch (err) {
+      console.error("Error exporting collection:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to export collection";
+      setTransferResult({ success: false, message: errorMessage });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  /**
+   * Upload a previously exported archive and restore it into this account.
+   */
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !token) return;
+
+    setImporting(true);
+    setTransferResult(null);
+
+    try {
+      const text = await file.text();
+      const response = await apiRequest(
+        "/api/import",
+        {
+          method: "POST",
+          body: text,
+        },
+        token
+      );
+
+      const data = await parseResponse<{
+        success: boolean;
+        imported: { hobbies: number; items: number; images: number; vectorError: string | null };
+      }>(response);
+
+      const summary = `Imported ${data.imported.hobbies} hobbies, ${data.imported.items} items and ${data.imported.images} images.`;
+      setTransferResult({
+        success: true,
+        message: data.imported.vectorError
+          ? `${summary} ${data.imported.vectorError}; run Repair Vector Metadata to fix it.`
+          : summary,
+      });
+    } catch (err) {
+      console.error("Error importing collection:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to import collection";
+      setTransferResult({ success: false, message: errorMessage });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  /**
+   * Save username and email changes. Changing the email needs the current
+   * password and sends a fresh verification link.
+   */
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !user) return;
+
+    setSavingProfile(true);
+    setProfileResult(null);
+
+    try {
+      const response = await apiRequest(
+        "/api/user/profile",
+        {
+          method: "PUT",
+          body: JSON.stringify({ username, email, currentPassword: profilePassword }),
+        },
+        token
+      );
+      const data = await parseResponse<{
+        success: boolean;
+        user: { email: string; username: string };
+      }>(response);
+
+      login(token, { ...user, email: data.user.email, username: data.user.username });
+      setProfilePassword("");
+      setProfileResult({
+        success: true,
+        message:
+          data.user.email !== user.email
+            ? `Profile updated. We sent a verification link to ${data.user.email}.`
+            : "Profile updated.",
+      });
+    } catch (err) {
+      console.error("Error updating profile:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to update profile";
+      setProfileResult({ success: false, message: errorMessage });
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  /**
+   * Change the password after checking the current one. The server logs
+   * out every other session.
+   */
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    if (newPassword !== confirmPassword) {
+      setPasswordResult({ success: false, message: "Passwords do not match" });
+      return;
+    }
+
+    setChangingPassword(true);
+    setPasswordResult(null);
+
+    try {
+      const response = await apiRequest(
+        "/api/user/password",
+        {
+          method: "PUT",
+          body: JSON.stringify({ currentPassword, newPassword }),
+        },
+        token
+      );
+      const data = await parseResponse<{ success: boolean; revokedSessions: number }>(response);
+
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setSessions((current) => current.filter((s) => s.current));
+      setPasswordResult({
+        success: true,
+        message:
+          data.revokedSessions > 0
+            ? `Password changed. Logged out ${data.revokedSessions} other session(s).`
+            : "Password changed.",
+      });
+    } catch (err) {
+      console.error("Error changing password:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to change password";
+      setPasswordResult({ success: false, message: errorMessage });
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  /**
+   * Permanently delete the account and everything in it.
+   */
+  const handleDeleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    if (
+      !window.confirm(
+        "Delete your account permanently? All hobbies, items and photos will be removed. This cannot be undone."
+      )
+    ) {
+      return;
+    }
+
+    setDeleting(true);
+    setDeleteResult(null);
+
+    try {
+      const response = await apiRequest(
+        "/api/user",
+        {
+          method: "DELETE",
+          body: JSON.stringify({ password: deletePassword }),
+        },
+        token
+      );
+      await parseResponse(response);
+
+      await logout();
+      navigate("/register");
+    } catch (err) {
+      console.error("Error deleting account:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to delete account";
+      setDeleteResult({ success: false, message: errorMessage });
+      setDeleting(false);
+    }
+  };
+
   return (
     <div className="page">
       <h1>Settings</h1>
       <div className="page-content">
         <p>Manage your account settings and preferences.</p>
 
+        <div style={{ marginTop: "2rem", padding: "1rem", border: "1px solid #ddd", borderRadius: "8px" }}>
+          <h2 style={{ marginTop: 0 }}>Profile</h2>
+          <form onSubmit={handleSaveProfile} style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+            <label style={fieldStyle}>
+              Username
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+                disabled={savingProfile}
+                style={inputStyle}
+              />
+            </label>
+            <label style={fieldStyle}>
+              Email
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                disabled={savingProfile}
+                style={inputStyle}
+              />
+            </label>
+            {email !== user?.email && (
+              <label style={fieldStyle}>
+                Current password (required to change email)
+                <input
+                  type="password"
+                  value={profilePassword}
+                  onChange={(e) => setProfilePassword(e.target.value)}
+                  required
+                  disabled={savingProfile}
+                  style={inputStyle}
+                />
+              </label>
+            )}
+            <div>
+              <button
+                type="submit"
+                disabled={savingProfile || !token}
+                style={{
+                  padding: "0.75rem 1.5rem",
+                  backgroundColor: "#007bff",
+                  color: "white",
+                  border: "none",
+                  borderRadius: "4px",
+                  cursor: savingProfile ? "not-allowed" : "pointer",
+                  fontSize: "1rem",
+                }}
+              >
+                {savingProfile ? "Saving..." : "Save Profile"}
+              </button>
+            </div>
+          </form>
+          <ResultMessage result={profileResult} />
+        </div>
+
+        <div style={{ marginTop: "2rem", padding: "1rem", border: "1px solid #ddd", borderRadius: "8px" }}>
+          <h2 style={{ marginTop: 0 }}>Change Password</h2>
+          <p>Changing your password logs you out on every other device.</p>
+          <form onSubmit={handleChangePassword} style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+            <label style={fieldStyle}>
+              Current password
+              <input
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+                disabled={changingPassword}
+                style={inputStyle}
+              />
+            </label>
+            <label style={fieldStyle}>
+              New password
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+                minLength={6}
+                disabled={changingPassword}
+                style={inputStyle}
+              />
+            </label>
+            <label style={fieldStyle}>
+              Confirm new password
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                minLength={6}
+                disabled={changingPassword}
+                style={inputStyle}
+              />
+            </label>
+            <div>
+              <button
+                type="submit"
+                disabled={changingPassword || !token}
+                style={{
+                  padding: "0.75rem 1.5rem",
+                  backgroundColor: "#007bff",
+                  color: "white",
+                  border: "none",
+                  borderRadius: "4px",
+                  cursor: changingPassword ? "not-allowed" : "pointer",
+                  fontSize: "1rem",
+                }}
+              >
+                {changingPassword ? "Changing..." : "Change Password"}
+              </button>
+            </div>
+          </form>
+          <ResultMessage result={passwordResult} />
+        </div>
+
+        <div style={{ marginTop: "2rem", padding: "1rem", border: "1px solid #ddd", borderRadius: "8px" }}>
+          <h2 style={{ marginTop: 0 }}>Active Sessions</h2>
+          <p>Devices currently logged in to your account. Log out any you don't recognise.</p>
+          {sessionsLoading && sessions.length === 0 ? (
+            <p>Loading sessions...</p>
+          ) : (
+            <ul style={{ listStyle: "none", padding: 0, margin: "1rem 0", display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+              {sessions.map((session) => (
+                <li
+                  key={session.id}
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    gap: "1rem",
+                    padding: "0.75rem",
+                    border: "1px solid #ddd",
+                    borderRadius: "4px",
+                  }}
+                >
+                  <div>
+                    <strong>{describeUserAgent(session.userAgent)}</strong>
+                    {session.current && <span style={{ marginLeft: "0.5rem", color: "#28a745" }}>(this device)</span>}
+                    <div style={{ fontSize: "0.85rem", opacity: 0.8 }}>
+                      Last active {formatTimestamp(session.lastSeenAt)} · Signed in {formatTimestamp(session.createdAt)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeSession(session)}
+                    style={{
+                      padding: "0.5rem 1rem",
+                      backgroundColor: "#6c757d",
+                      color: "white",
+                      border: "none",
+                      borderRadius: "4px",
+                      cursor: "pointer",
+                    }}
+                  >
+                    {session.current ? "Log out" : "Revoke"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            onClick={handleRevokeOtherSessions}
+            disabled={!token || sessions.filter((s) => !s.current).length === 0}
+            style={{
+              padding: "0.75rem 1.5rem",
+              backgroundColor: "#dc3545",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+              fontSize: "1rem",
+            }}
+          >
+            Log Out All Other Devices
+          </button>
+          <ResultMessage result={sessionsResult} />
+        </div>
+
         <div style={{ marginTop: "2rem", padding: "1rem", border: "1px solid #ddd", borderRadius: "8px" }}>
           <h2 style={{ marginTop: 0 }}>Vector Database Maintenance</h2>
           <p>
@@ -115,6 +684,105 @@ function Settings() {
             </div>
           )}
         </div>
+
+        <div style={{ marginTop: "2rem", padding: "1rem", border: "1px solid #ddd", borderRadius: "8px" }}>
+          <h2 style={{ marginTop: 0 }}>Export &amp; Import</h2>
+          <p>
+            Download a full backup of your codex, including item photos, or restore
+            a backup into this account. Imported hobbies and items get new IDs and
+            are re-indexed for semantic search.
+          </p>
+          <div style={{ display: "flex", gap: "1rem", flexWrap: "wrap", marginTop: "1rem" }}>
+            <button
+              onClick={handleExport}
+              disabled={exporting || importing || !token}
+              style={{
+                padding: "0.75rem 1.5rem",
+                backgroundColor: "#007bff",
+                color: "white",
+                border: "none",
+                borderRadius: "4px",
+                cursor: exporting ? "not-allowed" : "pointer",
+                fontSize: "1rem",
+              }}
+            >
+              {exporting ? "Exporting..." : "Export Collection"}
+            </button>
+            <label
+              style={{
+                padding: "0.75rem 1.5rem",
+                backgroundColor: "#6c757d",
+                color: "white",
+                borderRadius: "4px",
+                cursor: importing ? "not-allowed" : "pointer",
+                fontSize: "1rem",
+              }}
+            >
+              {importing ? "Importing..." : "Import Collection"}
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImport}
+                disabled={exporting || importing || !token}
+                style={{ display: "none" }}
+              />
+            </label>
+          </div>
+
+          {transferResult && (
+            <div
+              style={{
+                marginTop: "1rem",
+                padding: "1rem",
+                backgroundColor: transferResult.success ? "#d4edda" : "#f8d7da",
+                color: transferResult.success ? "#155724" : "#721c24",
+                borderRadius: "4px",
+                border: `1px solid ${transferResult.success ? "#c3e6cb" : "#f5c6cb"}`,
+              }}
+            >
+              {transferResult.message}
+            </div>
+          )}
+        </div>
+
+        <div style={{ marginTop: "2rem", padding: "1rem", border: "1px solid #f5c6cb", borderRadius: "8px" }}>
+          <h2 style={{ marginTop: 0, color: "#dc3545" }}>Delete Account</h2>
+          <p>
+            Permanently delete your account, every hobby and item, all photos and
+            all active sessions. Export your collection first if you want a backup.
+          </p>
+          <form onSubmit={handleDeleteAccount} style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+            <label style={fieldStyle}>
+              Password
+              <input
+                type="password"
+                value={deletePassword}
+                onChange={(e) => setDeletePassword(e.target.value)}
+                required
+                disabled={deleting}
+                style={inputStyle}
+              />
+            </label>
+            <div>
+              <button
+                type="submit"
+                disabled={deleting || !token}
+                style={{
+                  padding: "0.75rem 1.5rem",
+                  backgroundColor: "#dc3545",
+                  color: "white",
+                  border: "none",
+                  borderRadius: "4px",
+                  cursor: deleting ? "not-allowed" : "pointer",
+                  fontSize: "1rem",
+                }}
+              >
+                {deleting ? "Deleting..." : "Delete My Account"}
+              </button>
+            </div>
+          </form>
+          <ResultMessage result={deleteResult} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,170 @@
+/**
+ * Showcase page - Public, read-only view of a shared hobby.
+ * Rendered at /s/:slug and viewable without logging in.
+ */
+
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { parseResponse } from "../utils/api";
+import { imageVariantUrl } from "../utils/images";
+import "./Items.css";
+
+interface ShowcaseHobby {
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  created_at: number;
+  shared_at: number | null;
+  owner: string;
+}
+
+interface ShowcaseItem {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  image_url: string | null;
+  created_at: number;
+}
+
+function Showcase() {
+  const { slug } = useParams<{ slug: string }>();
+  const [hobby, setHobby] = useState<ShowcaseHobby | null>(null);
+  const [items, setItems] = useState<ShowcaseItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!slug) return;
+
+    const fetchShowcase = async () => {
+      try {
+        setLoading(true);
+        setError("");
+        const response = await fetch(`/api/public/hobbies/${encodeURIComponent(slug)}`);
+        const data = await parseResponse<{ hobby: ShowcaseHobby; items: ShowcaseItem[] }>(response);
+        setHobby(data.hobby);
+        setItems(data.items);
+      } catch (err) {
+        console.error("Error loading showcase:", err);
+        const message = err instanceof Error ? err.message : "Failed to load showcase";
+        setError(message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchShowcase();
+  }, [slug]);
+
+  if (loading) {
+    return (
+      <div className="page">
+        <h1>Showcase</h1>
+        <div className="page-content">
+          <p>Loading showcase...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !hobby) {
+    return (
+      <div className="page">
+        <h1>Showcase</h1>
+        <div className="page-content">
+          <div className="empty-state">
+            <p className="empty-message">🔒 This showcase isn't available</p>
+            <p className="empty-hint">
+              The link may be mistyped, or the owner has stopped sharing this hobby.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page">
+      <h1>{hobby.name}</h1>
+      <div className="page-content">
+        <div className="items-header">
+          <p>
+            A collection shared by <strong>{hobby.owner}</strong>
+            {hobby.category ? ` · ${hobby.category}` : ""}
+          </p>
+        </div>
+
+        {hobby.description && <p className="card-description">{hobby.description}</p>}
+
+        {hobby.tags.length > 0 && (
+          <div className="card-tags">
+            {hobby.tags.map((tag, index) => (
+              <span key={index} className="tag">
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="items-toolbar">
+          <div className="items-toolbar-summary">
+            <span className="items-total">
+              {items.length} item{items.length !== 1 ? "s" : ""}
+            </span>
+          </div>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="empty-state">
+            <p className="empty-message">📦 Nothing on display yet</p>
+          </div>
+        ) : (
+          <div className="items-grid items-grid-card">
+            {items.map((item) => (
+              <div key={item.id} className="item-card">
+                <div className="card-glow"></div>
+                {item.image_url && (
+                  <div className="item-image-container">
+                    <img
+                      src={imageVariantUrl(item.image_url, "medium")}
+                      alt={item.name}
+                      className="item-image"
+                      loading="lazy"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).style.display = "none";
+                      }}
+                    />
+                  </div>
+                )}
+                <h3>{item.name}</h3>
+                {item.description && (
+                  <p className="card-description">{item.description}</p>
+                )}
+                {item.category && (
+                  <div className="card-category">
+                    <span className="category-label">Category:</span>
+                    <span className="category-value">{item.category}</span>
+                  </div>
+                )}
+                {item.tags.length > 0 && (
+                  <div className="card-tags">
+                    {item.tags.map((tag, index) => (
+                      <span key={index} className="tag">
+                        #{tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Showcase;
@@ -0,0 +1,225 @@
+/**
+ * Trash page - Deleted hobbies and items, kept for a while before they are
+ * purged. Entries can be restored (they come back in search too) or deleted
+ * permanently straight away.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import ConfirmModal from "../components/ConfirmModal";
+import { apiRequest, parseResponse } from "../utils/api";
+import { imageVariantUrl } from "../utils/images";
+import { describePurge, type TrashContents } from "../utils/trash";
+import "./Items.css";
+
+type TrashEntry = { kind: "hobbies" | "items"; id: string; name: string };
+
+function Trash() {
+  const { token, isAuthenticated } = useAuth();
+  const [trash, setTrash] = useState<TrashContents | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeConfirm, setPurgeConfirm] = useState<TrashEntry | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiRequest("/api/trash", { method: "GET" }, token);
+      const data = await parseResponse<TrashContents>(response);
+      setTrash(data);
+      setError("");
+    } catch (err) {
+      console.error("Error fetching trash:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to load trash";
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchTrash();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, fetchTrash]);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      setBusyId(entry.id);
+      const response = await apiRequest(`/api/trash/${entry.kind}/${entry.id}/restore`, { method: "POST" }, token);
+      await parseResponse(response);
+      await fetchTrash();
+    } catch (err) {
+      console.error("Error restoring from trash:", err);
+      const errorMessage = err instanceof Error ? err.message : `Failed to restore ${entry.name}`;
+      setError(errorMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (entry: TrashEntry) => {
+    try {
+      setBusyId(entry.id);
+      setPurgeConfirm(null);
+      const response = await apiRequest(`/api/trash/${entry.kind}/${entry.id}`, { method: "DELETE" }, token);
+      await parseResponse(response);
+      setTrash((current) =>
+        current
+          ? {
+              ...current,
+              hobbies: current.hobbies.filter((hobby) => hobby.id !== entry.id),
+              items: current.items.filter((item) => item.id !== entry.id),
+            }
+          : current
+      );
+    } catch (err) {
+      console.error("Error deleting from trash:", err);
+      const errorMessage = err instanceof Error ? err.message : `Failed to delete ${entry.name}`;
+      setError(errorMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="page">
+        <h1>Trash</h1>
+        <div className="page-content">
+          <p>Please log in to view your trash.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isEmpty = !!trash && trash.hobbies.length === 0 && trash.items.length === 0;
+
+  const renderActions = (entry: TrashEntry) => (
+    <div className="item-row-actions">
+      <button
+        type="button"
+        className="save-button"
+        onClick={() => handleRestore(entry)}
+        disabled={busyId === entry.id}
+      >
+        ↩️ Restore
+      </button>
+      <button
+        type="button"
+        className="delete-button"
+        onClick={() => setPurgeConfirm(entry)}
+        disabled={busyId === entry.id}
+      >
+        Delete forever
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="page">
+      <h1>Trash</h1>
+      <div className="page-content">
+        <div className="items-header">
+          <p>
+            Deleted hobbies and items
+            {trash && ` · kept for ${trash.retention_days} days`}
+          </p>
+          <Link to="/hobbies" className="add-link-button">
+            ✨ Back to Hobbies
+          </Link>
+        </div>
+
+        {loading && <p>Loading your trash...</p>}
+        {error && <div className="error-message">{error}</div>}
+
+        {!loading && isEmpty && (
+          <div className="empty-state">
+            <p className="empty-message">🗑️ The trash is empty 🗑️</p>
+            <p className="empty-hint">Deleted hobbies and items wait here before they are removed for good.</p>
+          </div>
+        )}
+
+        {!loading && trash && trash.hobbies.length > 0 && (
+          <div className="detail-section">
+            <h3>Hobbies</h3>
+            <div className="items-list">
+              {trash.hobbies.map((hobby) => (
+                <div key={hobby.id} className="item-row">
+                  <div className="item-row-main">
+                    <div className="item-row-primary">
+                      <span className="item-row-name">{hobby.name}</span>
+                      {hobby.category && <span className="item-row-category">{hobby.category}</span>}
+                    </div>
+                    <div className="item-row-description">
+                      {hobby.item_count} {hobby.item_count === 1 ? "item" : "items"} ·{" "}
+                      {describePurge(hobby.purge_at)}
+                    </div>
+                  </div>
+                  <div className="item-row-meta">
+                    {renderActions({ kind: "hobbies", id: hobby.id, name: hobby.name })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!loading && trash && trash.items.length > 0 && (
+          <div className="detail-section">
+            <h3>Items</h3>
+            <div className="items-list">
+              {trash.items.map((item) => (
+                <div key={item.id} className="item-row">
+                  <div className="item-row-main">
+                    <div className="item-row-primary">
+                      {item.image_url && (
+                        <img
+                          src={imageVariantUrl(item.image_url, "thumb")}
+                          alt={item.name}
+                          loading="lazy"
+                          style={{ width: "2.5rem", height: "2.5rem", objectFit: "cover", borderRadius: "6px" }}
+                        />
+                      )}
+                      <span className="item-row-name">{item.name}</span>
+                      {item.category && <span className="item-row-category">{item.category}</span>}
+                    </div>
+                    <div className="item-row-description">
+                      <Link to={`/hobbies/${item.hobby_id}/items`} className="hobby-link">
+                        {item.hobby_name}
+                      </Link>{" "}
+                      · {describePurge(item.purge_at)}
+                    </div>
+                  </div>
+                  <div className="item-row-meta">
+                    {renderActions({ kind: "items", id: item.id, name: item.name })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {purgeConfirm && (
+          <ConfirmModal
+            title="Delete Forever?"
+            message={
+              purgeConfirm.kind === "hobbies"
+                ? `"${purgeConfirm.name}" and all its items will be permanently deleted, including their photos and history. This action cannot be undone.`
+                : `"${purgeConfirm.name}" will be permanently deleted, including its photos and history. This action cannot be undone.`
+            }
+            confirmLabel="Delete forever"
+            onCancel={() => setPurgeConfirm(null)}
+            onConfirm={() => handlePurge(purgeConfirm)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Trash;
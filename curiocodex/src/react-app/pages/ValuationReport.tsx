@@ -0,0 +1,228 @@
+/**
+ * ValuationReport page - Printable summary of what the collection is worth.
+ * Lists per-currency totals, value over the last year, and every valued item
+ * grouped by hobby, laid out so the browser's print dialog produces a clean
+ * document for insurers.
+ */
+
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import { formatMoney, itemValue, type CurrencyTotal, type ItemValuationFields } from "../utils/valuation";
+import "./ValuationReport.css";
+
+interface ReportItem extends ItemValuationFields {
+  id: string;
+  name: string;
+  category: string | null;
+}
+
+interface HobbyReport {
+  id: string;
+  name: string;
+  category: string | null;
+  totals: CurrencyTotal[];
+  unvalued_items: number;
+  items: ReportItem[];
+}
+
+interface ValuationReportData {
+  generated_at: number;
+  totals: CurrencyTotal[];
+  hobbies: HobbyReport[];
+}
+
+interface HistoryPoint {
+  date: string;
+  totals: Record<string, number>;
+}
+
+function formatTotals(totals: CurrencyTotal[]): string {
+  if (totals.length === 0) return "—";
+  return totals.map((total) => formatMoney(total.value, total.currency)).join(" + ");
+}
+
+function ValuationReport() {
+  const { token, isAuthenticated, user } = useAuth();
+  const [report, setReport] = useState<ValuationReportData | null>(null);
+  const [history, setHistory] = useState<HistoryPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const [reportResponse, historyResponse] = await Promise.all([
+          apiRequest("/api/reports/valuation", { method: "GET" }, token),
+          apiRequest("/api/reports/valuation/history?months=12", { method: "GET" }, token),
+        ]);
+        setReport(await parseResponse<ValuationReportData>(reportResponse));
+        const historyData = await parseResponse<{ points: HistoryPoint[] }>(historyResponse);
+        setHistory(historyData.points);
+        setError("");
+      } catch (err) {
+        console.error("Error loading valuation report:", err);
+        const message = err instanceof Error ? err.message : "Failed to load valuation report";
+        setError(message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [isAuthenticated, token]);
+
+  if (!isAuthenticated) {
+    return (
+      <div className="page">
+        <h1>Valuation Report</h1>
+        <div className="page-content">
+          <p>Please log in to see what your collection is worth.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const currencies = Array.from(new Set(history.flatMap((point) => Object.keys(point.totals)))).sort();
+  const valuedHobbies = report?.hobbies.filter((hobby) => hobby.items.length > 0) ?? [];
+
+  return (
+    <div className="page valuation-report">
+      <h1>Valuation Report</h1>
+      <div className="page-content">
+        <div className="valuation-toolbar no-print">
+          <Link to="/items" className="valuation-back-link">
+            ‹ Back to items
+          </Link>
+          <button type="button" className="save-button" onClick={() => window.print()} disabled={!report}>
+            🖨️ Print
+          </button>
+        </div>
+
+        {loading && <p>Loading valuation report...</p>}
+        {error && !loading && <div className="error-message">{error}</div>}
+
+        {report && !loading && (
+          <>
+            <section className="valuation-summary">
+              <p>
+                Prepared for {user?.username || "you"} on{" "}
+                {new Date(report.generated_at * 1000).toLocaleDateString()}.
+              </p>
+              <table className="valuation-table">
+                <thead>
+                  <tr>
+                    <th>Currency</th>
+                    <th>Valued items</th>
+                    <th>Purchase cost</th>
+                    <th>Current value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.totals.length === 0 && (
+                    <tr>
+                      <td colSpan={4}>No items have a purchase price or estimated value yet.</td>
+                    </tr>
+                  )}
+                  {report.totals.map((total) => (
+                    <tr key={total.currency}>
+                      <td>{total.currency}</td>
+                      <td>{total.items}</td>
+                      <td>{formatMoney(total.purchase_cost, total.currency)}</td>
+                      <td>
+                        <strong>{formatMoney(total.value, total.currency)}</strong>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            {currencies.length > 0 && (
+              <section>
+                <h2>Value over the last year</h2>
+                <table className="valuation-table">
+                  <thead>
+                    <tr>
+                      <th>Month end</th>
+                      {currencies.map((currency) => (
+                        <th key={currency}>{currency}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.map((point) => (
+                      <tr key={point.date}>
+                        <td>{new Date(`${point.date}T00:00:00`).toLocaleDateString()}</td>
+                        {currencies.map((currency) => (
+                          <td key={currency}>
+                            {point.totals[currency] !== undefined
+                              ? formatMoney(point.totals[currency], currency)
+                              : "—"}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            {valuedHobbies.map((hobby) => (
+              <section key={hobby.id} className="valuation-hobby">
+                <h2>
+                  {hobby.name} <span className="valuation-hobby-total">{formatTotals(hobby.totals)}</span>
+                </h2>
+                <table className="valuation-table">
+                  <thead>
+                    <tr>
+                      <th>Item</th>
+                      <th>Category</th>
+                      <th>Purchased</th>
+                      <th>Purchase price</th>
+                      <th>Estimated value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {hobby.items.map((item) => (
+                      <tr key={item.id}>
+                        <td>{item.name}</td>
+                        <td>{item.category || "—"}</td>
+                        <td>
+                          {item.purchase_date
+                            ? new Date(`${item.purchase_date}T00:00:00`).toLocaleDateString()
+                            : "—"}
+                        </td>
+                        <td>{item.purchase_price != null ? formatMoney(item.purchase_price, item.currency) : "—"}</td>
+                        <td>
+                          {item.estimated_value != null
+                            ? formatMoney(item.estimated_value, item.currency)
+                            : `${formatMoney(itemValue(item) ?? 0, item.currency)} (purchase price)`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {hobby.unvalued_items > 0 && (
+                  <p className="valuation-note">
+                    {hobby.unvalued_items} item{hobby.unvalued_items !== 1 ? "s" : ""} in this hobby have no value
+                    recorded.
+                  </p>
+                )}
+              </section>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ValuationReport;
@@ -0,0 +1,108 @@
+/**
+ * Verify email page - Confirms an address using an emailed token.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import "./Auth.css";
+
+type VerifyStatus = "verifying" | "verified" | "failed";
+
+function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const { token: sessionToken, isAuthenticated } = useAuth();
+  const [status, setStatus] = useState<VerifyStatus>(token ? "verifying" : "failed");
+  const [error, setError] = useState(token ? "" : "This verification link is missing its token.");
+  const [resendMessage, setResendMessage] = useState("");
+  const [resending, setResending] = useState(false);
+  // Tokens are single use, so guard against the effect running twice in dev
+  const submittedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          setStatus("verified");
+        } else {
+          setStatus("failed");
+          setError(data.error || "Verification failed");
+        }
+      } catch {
+        setStatus("failed");
+        setError("Network error. Please try again.");
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const handleResend = async () => {
+    setResending(true);
+    setResendMessage("");
+    try {
+      const response = await apiRequest("/api/user/verify-email", { method: "POST" }, sessionToken);
+      const data = await parseResponse<{ success: boolean; alreadyVerified: boolean }>(response);
+      setResendMessage(
+        data.alreadyVerified ? "Your email is already verified." : "A new verification link is on its way."
+      );
+    } catch (err) {
+      setResendMessage(err instanceof Error ? err.message : "Failed to send verification email");
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <div className="auth-page">
+      <div className="auth-container">
+        <h1>✨ Verify Email ✨</h1>
+
+        {status === "verifying" && <p className="auth-subtitle">Confirming your address...</p>}
+
+        {status === "verified" && (
+          <>
+            <div className="success-message">Your email address is confirmed. Thank you!</div>
+            <p className="auth-link">
+              <Link to={isAuthenticated ? "/" : "/login"}>
+                {isAuthenticated ? "Back to your codex" : "Continue to login"}
+              </Link>
+            </p>
+          </>
+        )}
+
+        {status === "failed" && (
+          <>
+            <div className="error-message">{error}</div>
+            {isAuthenticated ? (
+              <div className="auth-form">
+                <button type="button" className="auth-button" onClick={handleResend} disabled={resending}>
+                  {resending ? "Sending..." : "Send a New Link"}
+                </button>
+                {resendMessage && <div className="success-message">{resendMessage}</div>}
+              </div>
+            ) : (
+              <p className="auth-link">
+                <Link to="/login">Log in</Link> to request a new verification link.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default VerifyEmail;
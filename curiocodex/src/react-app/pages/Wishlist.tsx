@@ -0,0 +1,216 @@
+/**
+ * Wishlist page - Items the user wants or has on order, across all hobbies.
+ * Items can be marked as ordered or acquired, which moves them into the
+ * collection.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { apiRequest, parseResponse } from "../utils/api";
+import { imageVariantUrl } from "../utils/images";
+import { itemStatusLabel, type ItemStatus } from "../utils/itemStatus";
+import { formatMoney, itemValue, type ItemValuationFields } from "../utils/valuation";
+import "./Items.css";
+
+interface WishlistItem extends ItemValuationFields {
+  id: string;
+  hobby_id: string;
+  hobby_name: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  image_url: string | null;
+  status: ItemStatus;
+  created_at: number;
+}
+
+interface WishlistGroup {
+  hobbyId: string;
+  hobbyName: string;
+  items: WishlistItem[];
+}
+
+function groupByHobby(items: WishlistItem[]): WishlistGroup[] {
+  const groups = new Map<string, WishlistGroup>();
+  for (const item of items) {
+    const group = groups.get(item.hobby_id) ?? { hobbyId: item.hobby_id, hobbyName: item.hobby_name, items: [] };
+    group.items.push(item);
+    groups.set(item.hobby_id, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => a.hobbyName.localeCompare(b.hobbyName));
+}
+
+function Wishlist() {
+  const { token, isAuthenticated } = useAuth();
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const fetchWishlist = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiRequest("/api/wishlist", { method: "GET" }, token);
+      const data = await parseResponse<{ items: WishlistItem[] }>(response);
+      setItems(data.items);
+      setError("");
+    } catch (err) {
+      console.error("Error fetching wishlist:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to load wishlist";
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchWishlist();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, fetchWishlist]);
+
+  const handleStatusChange = async (item: WishlistItem, status: ItemStatus) => {
+    try {
+      setUpdatingId(item.id);
+      const response = await apiRequest(
+        `/api/hobbies/${item.hobby_id}/items/${item.id}/status`,
+        {
+          method: "PUT",
+          body: JSON.stringify({ status }),
+        },
+        token
+      );
+      await parseResponse(response);
+
+      // Acquired items leave the wishlist; ordered ones stay with a new badge
+      setItems((current) =>
+        status === "wishlist" || status === "ordered"
+          ? current.map((entry) => (entry.id === item.id ? { ...entry, status } : entry))
+          : current.filter((entry) => entry.id !== item.id)
+      );
+    } catch (err) {
+      console.error("Error updating item status:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to update item";
+      setError(errorMessage);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="page">
+        <h1>Wishlist</h1>
+        <div className="page-content">
+          <p>Please log in to view your wishlist.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const groups = groupByHobby(items);
+
+  return (
+    <div className="page">
+      <h1>Wishlist</h1>
+      <div className="page-content">
+        <div className="items-header">
+          <p>Items you want or have on order, across all your hobbies.</p>
+          <Link to="/items" className="add-link-button">
+            📦 Back to Items
+          </Link>
+        </div>
+
+        {loading && <p>Loading your wishlist...</p>}
+        {error && <div className="error-message">{error}</div>}
+
+        {!loading && items.length === 0 && (
+          <div className="empty-state">
+            <p className="empty-message">⭐ Your wishlist is empty ⭐</p>
+            <p className="empty-hint">
+              Add items as &quot;Wishlist&quot; when creating them, or from recommendations on the Discover page.
+            </p>
+            <Link to="/discover" className="add-link-button">
+              Discover Something New
+            </Link>
+          </div>
+        )}
+
+        {!loading && items.length > 0 && (
+          <div className="items-container">
+            {groups.map((group) => (
+              <div key={group.hobbyId} className="hobby-section">
+                <div className="hobby-section-header">
+                  <h2 className="hobby-section-title">
+                    <Link to={`/hobbies/${group.hobbyId}/items`} className="hobby-link">
+                      {group.hobbyName}
+                    </Link>
+                  </h2>
+                  <span className="item-count">
+                    {group.items.length} item{group.items.length !== 1 ? "s" : ""}
+                  </span>
+                </div>
+                <div className="items-list">
+                  {group.items.map((item) => {
+                    const value = itemValue(item);
+                    return (
+                      <div key={item.id} className="item-row">
+                        <div className="item-row-main">
+                          <div className="item-row-primary">
+                            {item.image_url && (
+                              <img
+                                src={imageVariantUrl(item.image_url, "thumb")}
+                                alt={item.name}
+                                loading="lazy"
+                                style={{ width: "2.5rem", height: "2.5rem", objectFit: "cover", borderRadius: "6px" }}
+                              />
+                            )}
+                            <span className="item-row-name">{item.name}</span>
+                            <span className={`item-status-badge ${item.status}`}>{itemStatusLabel(item.status)}</span>
+                            {item.category && <span className="item-row-category">{item.category}</span>}
+                          </div>
+                          {item.description && <div className="item-row-description">{item.description}</div>}
+                          {value !== null && (
+                            <div className="item-row-description">Around {formatMoney(value, item.currency)}</div>
+                          )}
+                        </div>
+                        <div className="item-row-meta">
+                          <div className="item-row-actions">
+                            {item.status === "wishlist" && (
+                              <button
+                                type="button"
+                                className="secondary-action-button"
+                                onClick={() => handleStatusChange(item, "ordered")}
+                                disabled={updatingId === item.id}
+                              >
+                                🛒 Ordered
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              className="save-button"
+                              onClick={() => handleStatusChange(item, "owned")}
+                              disabled={updatingId === item.id}
+                            >
+                              ✅ Acquired
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Wishlist;
@@ -0,0 +1,220 @@
+/**
+ * Types and helpers for the activity feed returned by the API.
+ * Event types mirror ACTIVITY_EVENT_TYPES in the backend (activity.ts).
+ */
+
+import { formatMoney } from "./valuation";
+import { itemStatusLabel, type ItemStatus } from "./itemStatus";
+
+export type ActivityEventType =
+  | "hobby_created"
+  | "hobby_updated"
+  | "hobby_deleted"
+  | "hobby_reverted"
+  | "hobby_restored"
+  | "item_created"
+  | "item_updated"
+  | "item_category_changed"
+  | "item_moved"
+  | "item_deleted"
+  | "item_reverted"
+  | "item_restored"
+  | "item_images_changed"
+  | "item_value_changed"
+  | "item_status_changed"
+  | "item_location_changed"
+  | "item_lent"
+  | "item_returned"
+  | "set_created"
+  | "set_updated"
+  | "set_deleted"
+  | "location_created"
+  | "location_updated"
+  | "location_deleted"
+  | "collection_imported";
+
+export const ACTIVITY_EVENT_LABELS: Record<ActivityEventType, string> = {
+  hobby_created: "New hobby added",
+  hobby_updated: "Hobby updated",
+  hobby_deleted: "Hobby deleted",
+  hobby_reverted: "Hobby reverted",
+  hobby_restored: "Hobby restored",
+  item_created: "New item added",
+  item_updated: "Item updated",
+  item_category_changed: "Category changed",
+  item_moved: "Item moved",
+  item_deleted: "Item deleted",
+  item_reverted: "Item reverted",
+  item_restored: "Item restored",
+  item_images_changed: "Photos changed",
+  item_value_changed: "Value updated",
+  item_status_changed: "Status changed",
+  item_location_changed: "Item relocated",
+  item_lent: "Item lent",
+  item_returned: "Item returned",
+  set_created: "New set added",
+  set_updated: "Set updated",
+  set_deleted: "Set deleted",
+  location_created: "New location added",
+  location_updated: "Location updated",
+  location_deleted: "Location deleted",
+  collection_imported: "Collection imported",
+};
+
+export const ACTIVITY_EVENT_TYPES = Object.keys(ACTIVITY_EVENT_LABELS) as ActivityEventType[];
+
+export interface ActivityValue {
+  amount: number | null;
+  currency: string;
+}
+
+interface ActivityRef {
+  id: string;
+  name: string;
+}
+
+/**
+ * One entry of the feed. The hobby and item are copies taken when the event
+ * happened; the remaining fields depend on the event type.
+ */
+export interface ActivityEvent {
+  id: string;
+  type: ActivityEventType;
+  created_at: number;
+  hobby: ActivityRef | null;
+  item: ActivityRef | null;
+  description?: string | null;
+  category?: string | null;
+  tags?: string[];
+  changes?: string[];
+  previous_name?: string;
+  from?: string | null;
+  to?: string | null;
+  from_hobby?: ActivityRef;
+  action?: "added" | "reordered" | "primary_changed" | "removed";
+  count?: number;
+  previous_value?: ActivityValue | null;
+  value?: ActivityValue;
+  loan?: {
+    id: string;
+    borrower_name: string;
+    lent_date: string;
+    due_date: string | null;
+    returned_date: string | null;
+  };
+  set?: ActivityRef;
+  location?: ActivityRef & { path?: string };
+  previous_path?: string;
+  item_count?: number;
+  hobby_count?: number;
+  image_count?: number;
+}
+
+/** Badge shown next to an event in the list view. */
+export type ActivityBadge = "hobby" | "item" | "value" | "loan" | "set" | "location";
+
+export const ACTIVITY_BADGE_LABELS: Record<ActivityBadge, string> = {
+  hobby: "Hobby",
+  item: "Item",
+  value: "Value",
+  loan: "Loan",
+  set: "Set",
+  location: "Location",
+};
+
+export function activityBadge(type: ActivityEventType): ActivityBadge {
+  if (type === "item_value_changed") return "value";
+  if (type === "item_lent" || type === "item_returned") return "loan";
+  if (type.startsWith("set_")) return "set";
+  if (type.startsWith("location_")) return "location";
+  if (type.startsWith("item_")) return "item";
+  return "hobby";
+}
+
+/** What the event is about: the item, hobby, set or location it names. */
+export function activityTitle(event: ActivityEvent): string {
+  if (event.type === "collection_imported") return "Collection import";
+  return (
+    event.item?.name ?? event.set?.name ?? event.location?.path ?? event.location?.name ?? event.hobby?.name ?? "—"
+  );
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+function describeChanges(changes: string[] | undefined): string {
+  if (!changes || changes.length === 0) return "Saved without changes";
+  return `Changed ${changes.map((change) => change.replace(/_/g, " ")).join(", ")}`;
+}
+
+function formatActivityValue(value: ActivityValue | null | undefined): string {
+  if (!value || value.amount === null) return "no value";
+  return formatMoney(value.amount, value.currency);
+}
+
+/**
+ * One-line summary of an event, e.g. "$40.00 → $55.00" or "Moved from Vinyl".
+ */
+export function describeActivity(event: ActivityEvent): string {
+  switch (event.type) {
+    case "hobby_created":
+      return event.category || "Hobby";
+    case "item_created":
+      return event.category || "Item";
+    case "hobby_updated":
+      return event.previous_name ? `Renamed from ${event.previous_name}` : describeChanges(event.changes);
+    case "item_updated":
+    case "set_updated":
+      return describeChanges(event.changes);
+    case "item_reverted":
+    case "hobby_reverted":
+      return event.changes && event.changes.length > 0
+        ? `Restored earlier ${event.changes.map((change) => change.replace(/_/g, " ")).join(", ")}`
+        : "Restored an earlier version";
+    case "hobby_deleted":
+      return `Moved to the trash with ${plural(event.item_count ?? 0, "item")}`;
+    case "hobby_restored":
+      return `Restored from the trash with ${plural(event.item_count ?? 0, "item")}`;
+    case "item_deleted":
+      return "Moved to the trash";
+    case "item_restored":
+      return "Restored from the trash";
+    case "item_category_changed":
+      return `${event.from || "Uncategorized"} → ${event.to || "Uncategorized"}`;
+    case "item_status_changed":
+      return `${itemStatusLabel(event.from as ItemStatus | null)} → ${itemStatusLabel(event.to as ItemStatus | null)}`;
+    case "item_location_changed":
+      return `${event.from || "Unplaced"} → ${event.to || "Unplaced"}`;
+    case "item_moved":
+      return event.from_hobby ? `Moved from ${event.from_hobby.name}` : "Moved";
+    case "item_images_changed":
+      if (event.action === "added") return `Added ${plural(event.count ?? 1, "photo")}`;
+      if (event.action === "removed") return "Removed a photo";
+      if (event.action === "primary_changed") return "Changed the primary photo";
+      return "Reordered photos";
+    case "item_value_changed":
+      return event.previous_value
+        ? `${formatActivityValue(event.previous_value)} → ${formatActivityValue(event.value)}`
+        : `Valued at ${formatActivityValue(event.value)}`;
+    case "item_lent":
+      if (!event.loan) return "Lent";
+      return event.loan.due_date
+        ? `Lent to ${event.loan.borrower_name} · due ${event.loan.due_date}`
+        : `Lent to ${event.loan.borrower_name} since ${event.loan.lent_date}`;
+    case "item_returned":
+      return event.loan ? `Returned by ${event.loan.borrower_name}` : "Returned";
+    case "location_updated":
+      return event.previous_path && event.previous_path !== event.location?.path
+        ? `Was ${event.previous_path}`
+        : "Details updated";
+    case "collection_imported":
+      return [
+        plural(event.hobby_count ?? 0, "hobby", "hobbies"),
+        plural(event.item_count ?? 0, "item"),
+        plural(event.image_count ?? 0, "photo"),
+      ].join(", ");
+    default:
+      return ACTIVITY_EVENT_LABELS[event.type];
+  }
+}
@@ -34,6 +34,22 @@ export async function apiRequest(
   return response;
 }
 
+/**
+ * Error thrown for a failed API response. Keeps the status and the response
+ * body, for endpoints that return more than an error message.
+ */
+export class ApiError extends Error {
+  status: number;
+  data: Record<string, unknown>;
+
+  constructor(message: string, status: number, data: Record<string, unknown>) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+  }
+}
+
 /**
  * Parse JSON response and handle errors.
  */
@@ -41,7 +57,7 @@ export async function parseResponse<T>(response: Response): Promise<T> {
   const data = await response.json();
   
   if (!response.ok) {
-    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    throw new ApiError(data.error || `HTTP error! status: ${response.status}`, response.status, data);
   }
   
   return data as T;
@@ -0,0 +1,125 @@
+/**
+ * Helpers for per-hobby custom item fields.
+ * Types mirror the backend definitions in worker/customFields.ts.
+ */
+
+export type CustomFieldType = "text" | "number" | "date" | "enum" | "boolean";
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  enum: "Choice",
+  boolean: "Yes / No",
+};
+
+export interface CustomFieldDefinition {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  required: boolean;
+}
+
+export type CustomFieldValues = Record<string, string | number | boolean>;
+
+/**
+ * Form state for custom field inputs: every value is kept as a string so it
+ * can back a controlled input, and converted by the server on save.
+ */
+export type CustomFieldDraft = Record<string, string>;
+
+/**
+ * A field's value, ignoring properties inherited from Object.prototype: a
+ * field labelled "Constructor" has the key `constructor`.
+ */
+export function customFieldValue<T>(values: Record<string, T> | undefined, key: string): T | undefined {
+  return values && Object.prototype.hasOwnProperty.call(values, key) ? values[key] : undefined;
+}
+
+/**
+ * Turn stored values into form state.
+ */
+export function toCustomFieldDraft(values: CustomFieldValues | undefined): CustomFieldDraft {
+  const draft: CustomFieldDraft = {};
+  for (const [key, value] of Object.entries(values || {})) {
+    draft[key] = String(value);
+  }
+  return draft;
+}
+
+/**
+ * Keep only the non-empty draft values for fields in the schema.
+ */
+export function customFieldPayload(
+  fields: CustomFieldDefinition[],
+  draft: CustomFieldDraft
+): Record<string, string> {
+  const payload: Record<string, string> = {};
+  for (const field of fields) {
+    const value = customFieldValue(draft, field.key);
+    if (value !== undefined && value.trim()) {
+      payload[field.key] = value.trim();
+    }
+  }
+  return payload;
+}
+
+/**
+ * Display a stored value for read-only views.
+ */
+export function formatCustomFieldValue(
+  field: CustomFieldDefinition,
+  value: string | number | boolean
+): string {
+  if (field.type === "boolean") {
+    return value === true || value === "true" ? "Yes" : "No";
+  }
+  if (field.type === "date" && typeof value === "string") {
+    const date = new Date(`${value}T00:00:00`);
+    return isNaN(date.getTime()) ? value : date.toLocaleDateString();
+  }
+  return String(value);
+}
+
+/** Editable form of a field definition; choices are edited as comma-separated text. */
+export interface CustomFieldSchemaRow {
+  /** Existing field key, kept so stored item values stay attached after a rename. */
+  key?: string;
+  label: string;
+  type: CustomFieldType;
+  optionsText: string;
+  required: boolean;
+}
+
+export function toSchemaRows(fields: CustomFieldDefinition[]): CustomFieldSchemaRow[] {
+  return fields.map((field) => ({
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    optionsText: field.options.join(", "),
+    required: field.required,
+  }));
+}
+
+/**
+ * Convert editor rows to the payload expected by PUT /api/hobbies/:hobbyId/item-fields.
+ * Rows without a label are skipped.
+ */
+export function schemaRowsPayload(rows: CustomFieldSchemaRow[]) {
+  return rows
+    .filter((row) => row.label.trim())
+    .map((row) => ({
+      key: row.key,
+      label: row.label.trim(),
+      type: row.type,
+      options:
+        row.type === "enum"
+          ? row.optionsText
+              .split(",")
+              .map((option) => option.trim())
+              .filter((option) => option.length > 0)
+          : [],
+      required: row.required,
+    }));
+}
@@ -0,0 +1,17 @@
+/**
+ * Helpers for item image URLs returned by the API.
+ */
+
+/**
+ * Resized variants the image route can serve.
+ * Must match IMAGE_VARIANTS in the backend (imageProcessing.ts).
+ */
+export type ImageSize = "thumb" | "medium";
+
+/**
+ * Request a resized variant of a signed /api/images/* URL.
+ * The server falls back to the original when no variant exists.
+ */
+export function imageVariantUrl(url: string, size: ImageSize): string {
+  return `${url}${url.includes("?") ? "&" : "?"}size=${size}`;
+}
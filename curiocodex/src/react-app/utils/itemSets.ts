@@ -0,0 +1,35 @@
+/**
+ * Types and helpers for hobby sets (checklists) returned by the API.
+ */
+
+import type { ItemStatus } from "./itemStatus";
+
+export interface SetSlot {
+  id: string;
+  label: string;
+  position: number;
+  item: { id: string; name: string; status: ItemStatus } | null;
+  collected: boolean;
+}
+
+export interface ItemSet {
+  id: string;
+  hobby_id: string;
+  name: string;
+  description: string | null;
+  total: number;
+  collected: number;
+  percent: number;
+  /** Labels of members not yet collected, in checklist order. */
+  missing: string[];
+  /** Only included by the per-hobby endpoints. */
+  slots?: SetSlot[];
+}
+
+/** Split a textarea checklist into member names, one per line. */
+export function parseChecklistText(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
@@ -0,0 +1,26 @@
+/**
+ * Helpers for item ownership status.
+ * Values mirror ITEM_STATUSES in the backend (itemStatus.ts).
+ */
+
+export type ItemStatus = "owned" | "wishlist" | "ordered" | "sold" | "traded" | "lost";
+
+export const ITEM_STATUSES: ItemStatus[] = ["owned", "wishlist", "ordered", "sold", "traded", "lost"];
+
+export const DEFAULT_ITEM_STATUS: ItemStatus = "owned";
+
+export const ITEM_STATUS_LABELS: Record<ItemStatus, string> = {
+  owned: "Owned",
+  wishlist: "Wishlist",
+  ordered: "Ordered",
+  sold: "Sold",
+  traded: "Traded",
+  lost: "Lost",
+};
+
+/** Statuses offered when adding a new item; the rest only make sense later. */
+export const NEW_ITEM_STATUSES: ItemStatus[] = ["owned", "wishlist", "ordered"];
+
+export function itemStatusLabel(status: ItemStatus | null | undefined): string {
+  return ITEM_STATUS_LABELS[status || DEFAULT_ITEM_STATUS];
+}
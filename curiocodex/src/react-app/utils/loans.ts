@@ -0,0 +1,28 @@
+/**
+ * Types and helpers for item loans returned by the API.
+ */
+
+export interface ItemLoan {
+  id: string;
+  item_id: string;
+  borrower_name: string;
+  borrower_contact: string | null;
+  /** Dates are YYYY-MM-DD. */
+  lent_date: string;
+  due_date: string | null;
+  returned_date: string | null;
+  notes: string | null;
+  overdue: boolean;
+  created_at: number;
+}
+
+/** Short summary of an open loan, e.g. "Lent to Sam · due 2025-06-01". */
+export function describeLoan(loan: ItemLoan): string {
+  if (loan.returned_date) {
+    return `Lent to ${loan.borrower_name} · returned ${loan.returned_date}`;
+  }
+  if (loan.due_date) {
+    return `Lent to ${loan.borrower_name} · ${loan.overdue ? "overdue since" : "due"} ${loan.due_date}`;
+  }
+  return `Lent to ${loan.borrower_name} since ${loan.lent_date}`;
+}
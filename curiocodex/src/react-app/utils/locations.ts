@@ -0,0 +1,49 @@
+/**
+ * Helpers for physical storage locations.
+ * Kinds mirror LOCATION_KINDS in the backend (locations.ts).
+ */
+
+export type LocationKind = "room" | "shelf" | "box" | "other";
+
+export const LOCATION_KINDS: LocationKind[] = ["room", "shelf", "box", "other"];
+
+export const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  room: "Room",
+  shelf: "Shelf",
+  box: "Box",
+  other: "Other",
+};
+
+export const LOCATION_KIND_ICONS: Record<LocationKind, string> = {
+  room: "🚪",
+  shelf: "🗄️",
+  box: "📦",
+  other: "📍",
+};
+
+/** A location as returned by GET /api/locations. */
+export interface StorageLocation {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  kind: LocationKind;
+  notes: string | null;
+  /** Full path from the top level, e.g. "Study › Bookcase › Box 3". */
+  path: string;
+  /** Items kept directly in this location. */
+  item_count: number;
+  created_at: number;
+}
+
+/** The location attached to an item in API responses. */
+export interface ItemLocation {
+  id: string;
+  name: string;
+  kind: LocationKind;
+  path: string;
+}
+
+/** Locations ordered so that each one is followed by its contents. */
+export function sortLocationsByPath(locations: StorageLocation[]): StorageLocation[] {
+  return [...locations].sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,72 @@
+/**
+ * Types and helpers for item revisions returned by the API.
+ */
+
+import { formatCustomFieldValue, type CustomFieldDefinition, type CustomFieldValues } from "./customFields";
+import { itemStatusLabel, type ItemStatus } from "./itemStatus";
+import { formatMoney } from "./valuation";
+
+export interface RevisionChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ItemRevision {
+  id: string;
+  /** When the edit that replaced this version was saved. */
+  created_at: number;
+  snapshot: Record<string, unknown> & { currency?: string | null };
+  /** Fields the following edit changed, from this version's values. */
+  changes: RevisionChange[];
+}
+
+const ITEM_REVISION_FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  description: "Description",
+  category: "Category",
+  tags: "Tags",
+  custom_fields: "Custom fields",
+  purchase_price: "Purchase price",
+  purchase_date: "Purchase date",
+  currency: "Currency",
+  estimated_value: "Estimated value",
+  status: "Status",
+  location: "Location",
+};
+
+export function revisionFieldLabel(field: string): string {
+  return ITEM_REVISION_FIELD_LABELS[field] ?? field.replace(/_/g, " ");
+}
+
+/**
+ * Display one side of a field change, e.g. "$40.00", "Owned" or "—" when empty.
+ */
+export function formatRevisionValue(
+  field: string,
+  value: unknown,
+  options: { currency?: string | null; fields?: CustomFieldDefinition[] } = {}
+): string {
+  if (value === null || value === undefined || value === "") return "—";
+
+  if ((field === "purchase_price" || field === "estimated_value") && typeof value === "number") {
+    return formatMoney(value, options.currency);
+  }
+  if (field === "status") {
+    return itemStatusLabel(value as ItemStatus);
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(", ") : "—";
+  }
+  if (field === "custom_fields" && typeof value === "object") {
+    const entries = Object.entries(value as CustomFieldValues);
+    if (entries.length === 0) return "—";
+    return entries
+      .map(([key, entry]) => {
+        const definition = options.fields?.find((candidate) => candidate.key === key);
+        return definition ? `${definition.label}: ${formatCustomFieldValue(definition, entry)}` : `${key}: ${entry}`;
+      })
+      .join("; ");
+  }
+  return String(value);
+}
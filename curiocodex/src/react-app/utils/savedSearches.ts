@@ -0,0 +1,36 @@
+/**
+ * Types and helpers for saved searches ("smart collections") returned by
+ * the API.
+ */
+
+import type { SearchFilters, SearchMode, SearchSort } from "./search";
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  mode: SearchMode;
+  filters: SearchFilters;
+  sort: SearchSort;
+  /** Whether the scheduled re-run flags new matches. */
+  notify: boolean;
+  /** Matches flagged as new and not yet seen. */
+  new_count: number;
+  checked_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/** The search a saved search runs, as sent when saving it. */
+export interface SavedSearchDraft {
+  query: string;
+  mode: SearchMode;
+  filters: SearchFilters;
+  sort?: SearchSort;
+}
+
+/** Badge text for a saved search's new matches, e.g. "3 new". */
+export function describeNewMatches(count: number): string | null {
+  if (count <= 0) return null;
+  return count > 99 ? "99+ new" : `${count} new`;
+}
@@ -0,0 +1,163 @@
+/**
+ * Helpers for collection search results.
+ */
+
+import { ApiError } from "./api";
+
+const HIGHLIGHT_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split text search output such as "Blue <mark>Train</mark>" into plain and
+ * highlighted segments, so matches can be rendered without injecting HTML.
+ */
+export function splitHighlights(marked: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of marked.matchAll(HIGHLIGHT_PATTERN)) {
+    if (match.index > last) {
+      segments.push({ text: marked.slice(last, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    last = match.index + match[0].length;
+  }
+  if (last < marked.length) {
+    segments.push({ text: marked.slice(last), highlighted: false });
+  }
+  return segments;
+}
+
+/** How /api/search ranks results; mirrors the backend's `mode` option. */
+export type SearchMode = "semantic" | "text" | "hybrid";
+
+/** Which search found a hybrid result. */
+export type SearchSignal = "semantic" | "text";
+
+export const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  semantic: "Semantic",
+  text: "Keyword",
+  hybrid: "Hybrid",
+};
+
+export const SEARCH_MODES = Object.keys(SEARCH_MODE_LABELS) as SearchMode[];
+
+/** Short description of the search a response came from. */
+export function describeSearchMethod(method: SearchMode): string {
+  if (method === "semantic") return "semantic (vector)";
+  if (method === "hybrid") return "hybrid (semantic + keyword)";
+  return "text";
+}
+
+/** Badge text for the signals that matched a hybrid result, e.g. "Meaning + keywords". */
+export function describeMatchSignals(signals: SearchSignal[]): string {
+  if (signals.length > 1) return "Meaning + keywords";
+  return signals[0] === "semantic" ? "Meaning" : "Keywords";
+}
+
+export type SearchSort = "relevance" | "newest" | "oldest" | "name";
+
+export const SEARCH_SORT_LABELS: Record<SearchSort, string> = {
+  relevance: "Best match",
+  newest: "Newest first",
+  oldest: "Oldest first",
+  name: "Name (A–Z)",
+};
+
+export const SEARCH_SORTS = Object.keys(SEARCH_SORT_LABELS) as SearchSort[];
+
+/**
+ * Filters sent with a search. Dates are "YYYY-MM-DD" and both ends are
+ * inclusive; unset fields do not filter.
+ */
+export interface SearchFilters {
+  hobbyId?: string;
+  category?: string;
+  tags?: string[];
+  createdFrom?: string;
+  createdTo?: string;
+  hasImage?: boolean;
+  status?: string;
+}
+
+/** Match counts returned with every search page. */
+export interface SearchFacets {
+  categories: { value: string; count: number }[];
+  hobbies: { id: string; name: string; count: number }[];
+  tags: { value: string; count: number }[];
+}
+
+/** A problem in a search query, covering query.slice(start, end). */
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+/** Query errors reported by a failed search, if it failed on the query. */
+export function queryErrorsOf(err: unknown): QueryError[] {
+  if (err instanceof ApiError && Array.isArray(err.data.queryErrors)) {
+    return err.data.queryErrors as QueryError[];
+  }
+  return [];
+}
+
+export interface QuerySegment {
+  text: string;
+  /** Message of the error covering this part of the query, if any. */
+  error: string | null;
+}
+
+/**
+ * Split a query into plain and erroneous segments, so the parts the server
+ * rejected can be marked.
+ */
+export function splitQueryErrors(query: string, errors: QueryError[]): QuerySegment[] {
+  const segments: QuerySegment[] = [];
+  let last = 0;
+  for (const error of [...errors].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(error.start, last);
+    const end = Math.min(Math.max(error.end, start), query.length);
+    if (start > last) {
+      segments.push({ text: query.slice(last, start), error: null });
+    }
+    if (end > start) {
+      segments.push({ text: query.slice(start, end), error: error.message });
+    }
+    last = Math.max(last, end);
+  }
+  if (last < query.length) {
+    segments.push({ text: query.slice(last), error: null });
+  }
+  return segments;
+}
+
+/** What the vision model made of a photo searched with. */
+export interface PhotoAnalysis {
+  name: string;
+  description: string;
+  category: string;
+}
+
+/** One of the user's items that looks like a searched photo. */
+export interface ImageSearchMatch {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  image_url: string | null;
+  hobby_id: string;
+  hobby_name: string;
+  similarity: number;
+  likely_duplicate: boolean;
+}
+
+/** Response of /api/search/by-image; matches come most similar first. */
+export interface ImageSearchResponse {
+  analysis: PhotoAnalysis;
+  matches: ImageSearchMatch[];
+}
@@ -0,0 +1,37 @@
+/**
+ * Types and helpers for the trash bin returned by the API.
+ */
+
+export interface TrashedHobby {
+  id: string;
+  name: string;
+  category: string | null;
+  /** Items that come back when the hobby is restored. */
+  item_count: number;
+  deleted_at: number;
+  purge_at: number;
+}
+
+export interface TrashedItem {
+  id: string;
+  hobby_id: string;
+  hobby_name: string;
+  name: string;
+  category: string | null;
+  image_url: string | null;
+  deleted_at: number;
+  purge_at: number;
+}
+
+export interface TrashContents {
+  retention_days: number;
+  hobbies: TrashedHobby[];
+  items: TrashedItem[];
+}
+
+/** When a trashed entry goes for good, e.g. "Deleted permanently in 12 days". */
+export function describePurge(purgeAt: number, now: number = Date.now() / 1000): string {
+  const days = Math.ceil((purgeAt - now) / (24 * 60 * 60));
+  if (days <= 0) return "Deleted permanently soon";
+  return `Deleted permanently in ${days} ${days === 1 ? "day" : "days"}`;
+}
@@ -0,0 +1,86 @@
+/**
+ * Helpers for item valuation fields returned by the API.
+ * Amounts are decimal values in the item's currency.
+ */
+
+/** Matches DEFAULT_CURRENCY in the backend (valuation.ts). */
+export const DEFAULT_CURRENCY = "USD";
+
+export interface ItemValuationFields {
+  purchase_price?: number | null;
+  purchase_date?: string | null;
+  currency?: string | null;
+  estimated_value?: number | null;
+}
+
+/** Per-currency totals from the valuation report endpoints. */
+export interface CurrencyTotal {
+  currency: string;
+  value: number;
+  purchase_cost: number;
+  items: number;
+}
+
+/**
+ * Form state for valuation inputs, kept as strings for controlled inputs.
+ */
+export interface ValuationDraft {
+  purchasePrice: string;
+  purchaseDate: string;
+  currency: string;
+  estimatedValue: string;
+}
+
+export const EMPTY_VALUATION_DRAFT: ValuationDraft = {
+  purchasePrice: "",
+  purchaseDate: "",
+  currency: "",
+  estimatedValue: "",
+};
+
+/**
+ * Format an amount in a currency, falling back to a plain number for
+ * unknown currency codes.
+ */
+export function formatMoney(amount: number, currency: string | null | undefined): string {
+  const code = currency || DEFAULT_CURRENCY;
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency: code }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${code}`;
+  }
+}
+
+/**
+ * What an item is worth: its estimate, or failing that what was paid.
+ */
+export function itemValue(item: ItemValuationFields): number | null {
+  return item.estimated_value ?? item.purchase_price ?? null;
+}
+
+export function toValuationDraft(item: ItemValuationFields): ValuationDraft {
+  return {
+    purchasePrice: item.purchase_price != null ? String(item.purchase_price) : "",
+    purchaseDate: item.purchase_date || "",
+    currency: item.currency || "",
+    estimatedValue: item.estimated_value != null ? String(item.estimated_value) : "",
+  };
+}
+
+/**
+ * Request body fields for a valuation draft. Empty inputs are sent as null
+ * so clearing a field removes the stored value.
+ */
+export function valuationRequestFields(draft: ValuationDraft): {
+  purchasePrice: string | null;
+  purchaseDate: string | null;
+  currency: string | null;
+  estimatedValue: string | null;
+} {
+  return {
+    purchasePrice: draft.purchasePrice.trim() || null,
+    purchaseDate: draft.purchaseDate.trim() || null,
+    currency: draft.currency.trim().toUpperCase() || null,
+    estimatedValue: draft.estimatedValue.trim() || null,
+  };
+}
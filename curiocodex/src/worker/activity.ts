@@ -0,0 +1,234 @@
+/**
+ * Activity log.
+ *
+ * Mutating routes append an event to activity_events describing what
+ * changed. Events keep a copy of the hobby and item names so the feed still
+ * makes sense after those records are renamed or deleted. Event IDs only
+ * ever increase, so the feed is read newest first by ID and the last ID seen
+ * serves as the cursor for the next page.
+ */
+
+import type { LoanRow } from "./loans";
+import { centsToAmount, type ValueChange } from "./valuation";
+
+export const ACTIVITY_EVENT_TYPES = [
+  "hobby_created",
+  "hobby_updated",
+  "hobby_deleted",
+  "hobby_reverted",
+  "hobby_restored",
+  "item_created",
+  "item_updated",
+  "item_category_changed",
+  "item_moved",
+  "item_deleted",
+  "item_reverted",
+  "item_restored",
+  "item_images_changed",
+  "item_value_changed",
+  "item_status_changed",
+  "item_location_changed",
+  "item_lent",
+  "item_returned",
+  "set_created",
+  "set_updated",
+  "set_deleted",
+  "location_created",
+  "location_updated",
+  "location_deleted",
+  "collection_imported",
+] as const;
+
+export type ActivityEventType = (typeof ACTIVITY_EVENT_TYPES)[number];
+
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 20;
+export const MIN_ACTIVITY_PAGE_SIZE = 5;
+export const MAX_ACTIVITY_PAGE_SIZE = 50;
+
+export interface ActivityRef {
+  id: string;
+  name: string;
+}
+
+export interface ActivityEventInput {
+  type: ActivityEventType;
+  hobby?: ActivityRef | null;
+  item?: ActivityRef | null;
+  /** Type-specific details, returned as top-level fields of the event. */
+  details?: Record<string, unknown>;
+}
+
+export interface ActivityEventRow {
+  id: number;
+  user_id: string;
+  type: ActivityEventType;
+  hobby_id: string | null;
+  hobby_name: string | null;
+  item_id: string | null;
+  item_name: string | null;
+  details: string;
+  created_at: number;
+}
+
+function isActivityEventType(value: string): value is ActivityEventType {
+  return (ACTIVITY_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function activityStatement(db: D1Database, userId: string, event: ActivityEventInput): D1PreparedStatement {
+  return db.prepare(
+    `INSERT INTO activity_events (user_id, type, hobby_id, hobby_name, item_id, item_name, details, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    userId,
+    event.type,
+    event.hobby?.id ?? null,
+    event.hobby?.name ?? null,
+    event.item?.id ?? null,
+    event.item?.name ?? null,
+    JSON.stringify(event.details ?? {}),
+    Math.floor(Date.now() / 1000)
+  );
+}
+
+/**
+ * Append events to the user's activity log. The change they describe has
+ * already been made, so a logging failure is reported but not raised.
+ */
+export async function recordActivity(
+  db: D1Database,
+  userId: string,
+  events: ActivityEventInput | ActivityEventInput[]
+): Promise<void> {
+  const list = Array.isArray(events) ? events : [events];
+  if (list.length === 0) {
+    return;
+  }
+  try {
+    await db.batch(list.map((event) => activityStatement(db, userId, event)));
+  } catch (error) {
+    console.error("Error recording activity:", error);
+  }
+}
+
+/**
+ * Details of an item_value_changed event, in the same shape as the value
+ * history: amounts in major units.
+ */
+export function valueChangeDetails(change: ValueChange): Record<string, unknown> {
+  return {
+    previous_value:
+      change.previous && change.previous.valueCents !== null
+        ? { amount: centsToAmount(change.previous.valueCents), currency: change.previous.currency }
+        : null,
+    value: { amount: centsToAmount(change.next.valueCents), currency: change.next.currency },
+  };
+}
+
+/**
+ * Details of an item_lent or item_returned event: the loan as it stood
+ * when the event happened.
+ */
+export function loanActivityDetails(
+  loan: Pick<LoanRow, "id" | "borrower_name" | "lent_date" | "due_date" | "returned_date">
+): Record<string, unknown> {
+  return {
+    loan: {
+      id: loan.id,
+      borrower_name: loan.borrower_name,
+      lent_date: loan.lent_date,
+      due_date: loan.due_date,
+      returned_date: loan.returned_date,
+    },
+  };
+}
+
+/**
+ * Parse a comma-separated `type` query parameter. Empty means every type.
+ */
+export function parseActivityTypes(param: string | undefined): { types: ActivityEventType[] } | { error: string } {
+  const values = (param || "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+
+  const types: ActivityEventType[] = [];
+  for (const value of values) {
+    if (!isActivityEventType(value)) {
+      return { error: `Unknown activity type "${value}"` };
+    }
+    if (!types.includes(value)) {
+      types.push(value);
+    }
+  }
+  return { types };
+}
+
+/**
+ * Parse a `cursor` query parameter: the ID of the last event already shown.
+ * Returns null when the cursor is not a valid event ID.
+ */
+export function parseActivityCursor(cursor: string): number | null {
+  const id = Number(cursor);
+  return /^\d+$/.test(cursor) && Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+export function activityPayload(row: ActivityEventRow) {
+  let details: Record<string, unknown> = {};
+  try {
+    details = JSON.parse(row.details) as Record<string, unknown>;
+  } catch {
+    // Keep the event even if its details are unreadable
+  }
+
+  return {
+    ...details,
+    id: String(row.id),
+    type: row.type,
+    created_at: row.created_at,
+    hobby: row.hobby_id ? { id: row.hobby_id, name: row.hobby_name ?? "" } : null,
+    item: row.item_id ? { id: row.item_id, name: row.item_name ?? "" } : null,
+  };
+}
+
+/**
+ * Load one page of a user's activity, newest first. Fetches one extra row to
+ * tell whether another page follows.
+ */
+export async function listActivity(
+  db: D1Database,
+  userId: string,
+  options: { types: ActivityEventType[]; hobbyId: string | null; cursor: number | null; limit: number }
+): Promise<{ events: ReturnType<typeof activityPayload>[]; nextCursor: string | null }> {
+  const conditions = ["user_id = ?"];
+  const params: (string | number)[] = [userId];
+
+  if (options.types.length > 0) {
+    conditions.push(`type IN (${options.types.map(() => "?").join(", ")})`);
+    params.push(...options.types);
+  }
+  if (options.hobbyId) {
+    conditions.push("hobby_id = ?");
+    params.push(options.hobbyId);
+  }
+  if (options.cursor) {
+    conditions.push("id < ?");
+    params.push(options.cursor);
+  }
+
+  const rows = await db.prepare(
+    `SELECT id, user_id, type, hobby_id, hobby_name, item_id, item_name, details, created_at
+     FROM activity_events
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY id DESC
+     LIMIT ?`
+  )
+    .bind(...params, options.limit + 1)
+    .all<ActivityEventRow>();
+
+  const page = rows.results.slice(0, options.limit);
+  const hasMore = rows.results.length > options.limit;
+  return {
+    events: page.map(activityPayload),
+    nextCursor: hasMore && page.length > 0 ? String(page[page.length - 1].id) : null,
+  };
+}
@@ -3,6 +3,8 @@
  * Uses Cloudflare Workers AI and Vectorize.
  */
 
+import { coerceCustomFieldValues, type CustomFieldDefinition, type CustomFieldValues } from "./customFields";
+
 /**
  * Available high-level categories for hobbies.
  * These are used for hobby categorization and as a general fallback.
@@ -69,6 +71,57 @@ export async function generateEmbedding(
   }
 }
 
+/**
+ * Most texts sent to the embedding model in one request.
+ */
+export const MAX_EMBEDDING_BATCH = 100;
+
+/**
+ * Generate embeddings for many texts with one model request per batch of
+ * MAX_EMBEDDING_BATCH, instead of one request per text. Embeddings come back
+ * in the order of the texts.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  ai: Ai
+): Promise<number[][]> {
+  const cleanTexts = texts.map((text) => text.trim());
+  if (cleanTexts.some((text) => !text)) {
+    throw new Error("Text cannot be empty");
+  }
+
+  const embeddings: number[][] = [];
+  for (let i = 0; i < cleanTexts.length; i += MAX_EMBEDDING_BATCH) {
+    const batch = cleanTexts.slice(i, i + MAX_EMBEDDING_BATCH);
+    const response = await ai.run("@cf/baai/bge-base-en-v1.5", { text: batch });
+
+    if ("request_id" in response) {
+      throw new Error("Async response not supported for embeddings");
+    }
+
+    const data = (response as { data?: number[][] }).data;
+    if (!data || data.length !== batch.length || data.some((embedding) => embedding.length !== 768)) {
+      throw new Error("Invalid embedding response");
+    }
+    embeddings.push(...data);
+  }
+  return embeddings;
+}
+
+/**
+ * Most vectors Vectorize accepts in one upsert.
+ */
+export const MAX_VECTORIZE_UPSERT_BATCH = 1000;
+
+/**
+ * Upsert vectors into Vectorize in batches of MAX_VECTORIZE_UPSERT_BATCH.
+ */
+export async function upsertVectors(index: VectorizeIndex, vectors: VectorizeVector[]): Promise<void> {
+  for (let i = 0; i < vectors.length; i += MAX_VECTORIZE_UPSERT_BATCH) {
+    await index.upsert(vectors.slice(i, i + MAX_VECTORIZE_UPSERT_BATCH));
+  }
+}
+
 /**
  * Auto-categorize a hobby/item using Workers AI text generation.
  * Returns a category name based on the hobby/item name and description.
@@ -300,6 +353,54 @@ Write 1–2 sentences describing the item. Return only the description text, no
   }
 }
 
+/**
+ * Propose the members of a collectible set from its name, e.g. every card in
+ * a trading card series or every book by an author. Returns an empty list
+ * when the model doesn't know the set.
+ */
+export async function suggestSetChecklist(
+  setName: string,
+  hobby: { name: string; category: string | null },
+  ai: Ai
+): Promise<string[]> {
+  try {
+    const prompt = `List the members of this collectible set, one per line, in their usual order.
+Use each member's common name (include a number or code if the set uses one).
+If you don't know this set, return nothing.
+
+Hobby: ${hobby.name}${hobby.category ? ` (${hobby.category})` : ""}
+Set: ${setName}
+
+Return only the list, no headings or extra commentary.`;
+
+    const response = await ai.run("@cf/meta/llama-3.1-8b-instruct", {
+      prompt,
+      max_tokens: 1024,
+      temperature: 0.2,
+    });
+
+    if ("request_id" in response) {
+      throw new Error("Async response not supported");
+    }
+
+    const seen = new Set<string>();
+    return (response.response || "")
+      .split("\n")
+      // Strip list markers such as "1.", "2)", "-" and "*"
+      .map((line) => line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, "").trim())
+      .filter((line) => {
+        const key = line.toLowerCase();
+        if (!line || line.length > 200 || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, 200);
+  } catch (error) {
+    console.error("Error suggesting set checklist:", error);
+    return [];
+  }
+}
+
 /**
  * Calculate average embedding from multiple embeddings.
  * Useful for creating user interest profiles.
@@ -327,7 +428,8 @@ export function averageEmbeddings(embeddings: number[][]): number[] {
 }
 
 /**
- * Analyze an image and extract name, description, and category.
+ * Analyze an image (or several photos of the same item) and extract name,
+ * description, and category.
  * Uses Workers AI vision model to understand the image content.
  * Returns an object with suggested name, description, and category.
  */
@@ -335,6 +437,8 @@ export interface ImageAnalysisResult {
   name: string;
   description: string;
   category: string;
+  /** Values for the hobby's custom fields that could be read from the photos. */
+  customFields?: CustomFieldValues;
 }
 
 interface ImageAnalysisContext {
@@ -343,19 +447,47 @@ interface ImageAnalysisContext {
   category?: string | null;
   hobbyName?: string | null;
   hobbyCategory?: string | null;
+  /** The hobby's custom item fields, which the model should try to fill. */
+  fields?: CustomFieldDefinition[];
 }
 
+/**
+ * Describe custom fields for the extraction prompt, one per line.
+ */
+function describeCustomFields(fields: CustomFieldDefinition[]): string {
+  return fields
+    .map((field) => {
+      const hint =
+        field.type === "enum"
+          ? `one of: ${field.options.join(", ")}`
+          : field.type === "date"
+            ? "a date as YYYY-MM-DD"
+            : field.type === "boolean"
+              ? "true or false"
+              : field.type;
+      return `- "${field.key}" (${field.label}): ${hint}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Vision calls are made one photo at a time, so cap how many of an item's
+ * photos are described for a single analysis.
+ */
+export const MAX_ANALYZED_IMAGES = 4;
+
+/** Description analyzeImage falls back to when the photos could not be analyzed. */
+export const IMAGE_ANALYSIS_FAILED_DESCRIPTION = "Unable to analyze image";
+
 export async function analyzeImage(
-  imageData: ArrayBuffer,
+  imageData: ArrayBuffer | ArrayBuffer[],
   ai: Ai,
   context?: ImageAnalysisContext
 ): Promise<ImageAnalysisResult> {
   try {
-    // Convert ArrayBuffer to number array (pixel data) for vision models
-    const uint8Array = new Uint8Array(imageData);
-    const imageArray = Array.from(uint8Array);
-    
-    // Step 1: Use vision model to describe the image in a paragraph
+    const photos = (Array.isArray(imageData) ? imageData : [imageData]).slice(0, MAX_ANALYZED_IMAGES);
+
+    // Step 1: Use vision model to describe each photo in a paragraph
     let imageDescription = "";
     try {
       // Accept the license agreement first
@@ -400,30 +532,51 @@ export async function analyzeImage(
         }
       }
 
-      // Ask vision model to describe the image
-      const visionResponse = await ai.run("@cf/meta/llama-3.2-11b-vision-instruct", {
-        image: imageArray as number[],
-        prompt:
-          contextPrefix +
-          "Describe this image in rich visual detail, focusing on the main object or item. " +
-          "Include colors, materials, markings, logos or text, condition, and anything in the background that helps identify what it is. " +
-          "Then, give your best guess at the specific item name or type (for example: 'Beyblade Burst battle top', 'Pokemon trading card', etc.). " +
-          "Finally, say whether it appears to be a collectible item or not, and explain why (for example: special edition markings, packaging, display context, or overall condition). " +
-          "Write 1–2 concise paragraphs that clearly mention the guessed item name and whether it is likely a collectible.",
-        max_tokens: 300,
-        temperature: 0.5,
-      });
-
-      // Extract description text from vision model response
-      // Vision model returns { response?: string }
-      if ('response' in visionResponse && visionResponse.response) {
-        imageDescription = String(visionResponse.response);
-      } else if (typeof visionResponse === 'string') {
-        imageDescription = visionResponse;
-      } else {
-        imageDescription = JSON.stringify(visionResponse);
+      const descriptions: string[] = [];
+      for (let index = 0; index < photos.length; index++) {
+        // Convert ArrayBuffer to number array (pixel data) for vision models
+        const imageArray = Array.from(new Uint8Array(photos[index]));
+        const photoPrefix =
+          photos.length > 1
+            ? `This is photo ${index + 1} of ${photos.length} of the same item, possibly from a different angle.\n\n`
+            : "";
+
+        // Ask vision model to describe the image
+        const visionResponse = await ai.run("@cf/meta/llama-3.2-11b-vision-instruct", {
+          image: imageArray as number[],
+          prompt:
+            contextPrefix +
+            photoPrefix +
+            "Describe this image in rich visual detail, focusing on the main object or item. " +
+            "Include colors, materials, markings, logos or text, condition, and anything in the background that helps identify what it is. " +
+            "Then, give your best guess at the specific item name or type (for example: 'Beyblade Burst battle top', 'Pokemon trading card', etc.). " +
+            "Finally, say whether it appears to be a collectible item or not, and explain why (for example: special edition markings, packaging, display context, or overall condition). " +
+            "Write 1–2 concise paragraphs that clearly mention the guessed item name and whether it is likely a collectible.",
+          max_tokens: 300,
+          temperature: 0.5,
+        });
+
+        // Extract description text from vision model response
+        // Vision model returns { response?: string }
+        let description = "";
+        if ('response' in visionResponse && visionResponse.response) {
+          description = String(visionResponse.response);
+        } else if (typeof visionResponse === 'string') {
+          description = visionResponse;
+        } else {
+          description = JSON.stringify(visionResponse);
+        }
+        description = description.trim();
+        if (description) {
+          descriptions.push(description);
+        }
       }
-      imageDescription = imageDescription.trim();
+
+      // Label each photo's description so the extraction step can combine them
+      imageDescription =
+        descriptions.length > 1
+          ? descriptions.map((description, index) => `Photo ${index + 1}: ${description}`).join("\n\n")
+          : descriptions[0] || "";
     } catch (visionError) {
       console.error("Vision model error:", visionError);
       throw new Error("Vision model not available");
@@ -449,23 +602,32 @@ Use this context as a hint, but prefer what you actually see in the image if the
 `
         : "";
 
-    const extractionPrompt = `Based on this description of an item, extract:
+    const customFields = context?.fields || [];
+    const customFieldsInstruction =
+      customFields.length > 0
+        ? `4. Values for these collection-specific fields, only where the image clearly shows them (leave out anything you cannot tell):
+${describeCustomFields(customFields)}
+`
+        : "";
+    const customFieldsFormat = customFields.length > 0 ? `,\n  "fields": { "field key": "value" }` : "";
+
+    const extractionPrompt = `Based on this description of an item (which may cover several photos of it), extract:
 1. A concise name for the item (2-5 words)
 2. A brief description (1-2 sentences)
 3. A category from this list: ${CATEGORIES.join(", ")}
-${userContextForExtraction}
+${customFieldsInstruction}${userContextForExtraction}
 Item description from the image model: ${imageDescription}
 
 Return your response in this exact JSON format:
 {
   "name": "item name here",
   "description": "description here",
-  "category": "category name here"
+  "category": "category name here"${customFieldsFormat}
 }`;
 
     const textResponse = await ai.run("@cf/meta/llama-3.1-8b-instruct", {
       prompt: extractionPrompt,
-      max_tokens: 200,
+      max_tokens: customFields.length > 0 ? 400 : 200,
       temperature: 0.3,
     });
 
@@ -487,7 +649,7 @@ Return your response in this exact JSON format:
     responseText = responseText.trim();
     
     // Parse JSON from the text model response
-    let analysis: ImageAnalysisResult;
+    let analysis: ImageAnalysisResult & { fields?: unknown };
     try {
       // Try to extract JSON from response
       let jsonMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
@@ -516,13 +678,14 @@ Return your response in this exact JSON format:
       name: analysis.name.trim() || "Unnamed Item",
       description: analysis.description.trim() || imageDescription.substring(0, 200),
       category: normalizedCategory,
+      customFields: coerceCustomFieldValues(customFields, analysis.fields),
     };
   } catch (error) {
     console.error("Error analyzing image:", error);
     // Return default values on error
     return {
       name: "Unnamed Item",
-      description: "Unable to analyze image",
+      description: IMAGE_ANALYSIS_FAILED_DESCRIPTION,
       category: "Other",
     };
   }
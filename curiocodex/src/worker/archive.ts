@@ -0,0 +1,822 @@
+/**
+ * Collection archive helpers for exporting and importing a user's codex.
+ * An archive is a single JSON document containing every hobby, its item
+ * category definitions, its items, and the raw image bytes from R2.
+ */
+
+import { generateEmbedding, upsertVectors } from "./ai";
+import {
+  coerceCustomFieldValues,
+  listHobbyFields,
+  normalizeFieldDefinitions,
+  parseCustomFieldValues,
+  replaceHobbyFields,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+} from "./customFields";
+import {
+  addItemImages,
+  buildItemImageKey,
+  imageKeyFromReference,
+  listImagesForItems,
+  type NewItemImage,
+} from "./images";
+import { processImageUpload, storeProcessedImage } from "./imageProcessing";
+import {
+  EMPTY_VALUATION,
+  applyValuation,
+  parseValuationInput,
+  valuationColumns,
+  valuationFromRow,
+  valuationPayload,
+  valueHistoryStatement,
+  type ValuationPayload,
+  type ValuationRow,
+  type ValueHistoryRow,
+} from "./valuation";
+import {
+  DEFAULT_ITEM_STATUS,
+  isItemStatus,
+  parseItemStatus,
+  statusChangeStatement,
+  type ItemStatus,
+  type StatusHistoryRow,
+} from "./itemStatus";
+import { listSetSlots, normalizeChecklist, type ItemSetRow } from "./itemSets";
+import {
+  LOCATION_KINDS,
+  MAX_LOCATION_NAME_LENGTH,
+  listUserLocations,
+  locationAncestry,
+  type LocationKind,
+} from "./locations";
+import { parseLoanInput, parseReturnedDate, type LoanRow } from "./loans";
+
+/**
+ * Bumped whenever the archive layout changes in a way older importers
+ * cannot understand.
+ */
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchiveImage {
+  contentType: string;
+  /** Original file extension, reused when the image is restored. */
+  extension: string;
+  /** Base64-encoded image bytes. */
+  data: string;
+}
+
+export interface ArchiveItem {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  created_at: number;
+  /** Values for the hobby's custom item fields, keyed by field key. */
+  customFields?: CustomFieldValues;
+  /** Purchase details and estimated value. */
+  valuation?: ValuationPayload;
+  /** Every recorded value of the item, oldest first. */
+  valueHistory?: ArchiveValueHistoryEntry[];
+  /** Ownership status (owned, wishlist, sold, ...). Missing means owned. */
+  status?: ItemStatus;
+  /** Every status change of the item, oldest first. */
+  statusHistory?: ArchiveStatusHistoryEntry[];
+  /** Storage location, referring to a location ID within the archive. */
+  locationId?: string | null;
+  /** Every loan of the item, oldest first. */
+  loans?: ArchiveLoan[];
+  /** The item's primary photo. */
+  image: ArchiveImage | null;
+  /** Any further gallery photos, in gallery order. */
+  additionalImages?: ArchiveImage[];
+}
+
+export interface ArchiveValueHistoryEntry {
+  value: number | null;
+  currency: string;
+  recorded_at: number;
+}
+
+export interface ArchiveStatusHistoryEntry {
+  from_status: ItemStatus | null;
+  to_status: ItemStatus;
+  changed_at: number;
+}
+
+export interface ArchiveLoan {
+  borrower_name: string;
+  borrower_contact: string | null;
+  lent_date: string;
+  due_date: string | null;
+  returned_date: string | null;
+  notes: string | null;
+  created_at: number;
+  closed_at: number | null;
+}
+
+export interface ArchiveHobby {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  created_at: number;
+  itemCategories: string[];
+  /** Custom item field definitions (absent in archives from older versions). */
+  itemFields?: CustomFieldDefinition[];
+  items: ArchiveItem[];
+  /** Sets and their checklists (absent in archives from older versions). */
+  sets?: ArchiveSet[];
+}
+
+export interface ArchiveSet {
+  name: string;
+  description: string | null;
+  /** Checklist in order; itemId refers to an item ID within the archive. */
+  slots: { label: string; itemId: string | null }[];
+}
+
+export interface ArchiveLocation {
+  id: string;
+  /** Containing location's archive ID; parents are listed before children. */
+  parentId: string | null;
+  name: string;
+  kind: LocationKind;
+  notes: string | null;
+}
+
+export interface CollectionArchive {
+  version: number;
+  exportedAt: number;
+  hobbies: ArchiveHobby[];
+  /** Storage locations (absent in archives from older versions). */
+  locations?: ArchiveLocation[];
+}
+
+export interface ImportSummary {
+  hobbies: number;
+  items: number;
+  images: number;
+  /** Maps archive IDs to the IDs created in the importing account. */
+  idMap: Record<string, string>;
+  /**
+   * Set when the restored hobbies and items could not be stored in
+   * Vectorize, so they are missing from semantic search and suggestions.
+   */
+  vectorError: string | null;
+}
+
+interface ArchiveBindings {
+  db: D1Database;
+  images: R2Bucket;
+  ai: Ai;
+  index?: VectorizeIndex;
+  /** Cloudflare Images binding used to generate resized variants. */
+  transformer?: ImagesBinding;
+}
+
+/**
+ * Encode binary data as base64 without blowing the call stack on large images.
+ */
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function base64ToUint8Array(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function parseTags(tags: string | null): string[] {
+  if (!tags) return [];
+  try {
+    const parsed = JSON.parse(tags);
+    return Array.isArray(parsed) ? parsed.filter((t) => typeof t === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read one image from R2 into its archive form.
+ * A missing image should not prevent the rest of the export, so errors are
+ * logged and reported as null.
+ */
+async function readArchiveImage(images: R2Bucket, reference: string): Promise<ArchiveImage | null> {
+  const key = imageKeyFromReference(reference);
+  try {
+    const object = await images.get(key);
+    if (!object) return null;
+    return {
+      contentType: object.httpMetadata?.contentType || "image/jpeg",
+      extension: key.split(".").pop() || "jpg",
+      data: arrayBufferToBase64(await object.arrayBuffer()),
+    };
+  } catch (error) {
+    console.error("Error reading image for export:", key, error);
+    return null;
+  }
+}
+
+/**
+ * Build a full archive of a user's collection, including image bytes.
+ */
+export async function buildCollectionArchive(
+  userId: string,
+  bindings: Pick<ArchiveBindings, "db" | "images">
+): Promise<CollectionArchive> {
+  const { db, images } = bindings;
+
+  const hobbies = await db.prepare(
+    "SELECT id, name, description, category, tags, created_at FROM hobbies WHERE user_id = ? AND deleted_at IS NULL ORDER BY created_at ASC"
+  )
+    .bind(userId)
+    .all<{
+      id: string;
+      name: string;
+      description: string | null;
+      category: string | null;
+      tags: string | null;
+      created_at: number;
+    }>();
+
+  const categoryRows = await db.prepare(
+    `SELECT c.hobby_id, c.name
+     FROM hobby_item_categories c
+     INNER JOIN hobbies h ON c.hobby_id = h.id
+     WHERE h.user_id = ? AND h.deleted_at IS NULL
+     ORDER BY c.name COLLATE NOCASE`
+  )
+    .bind(userId)
+    .all<{ hobby_id: string; name: string }>();
+
+  const items = await db.prepare(
+    `SELECT i.id, i.hobby_id, i.name, i.description, i.category, i.tags, i.image_url, i.custom_fields,
+       ${valuationColumns("i")}, i.status, i.location_id, i.created_at
+     FROM items i
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL
+     ORDER BY i.created_at ASC`
+  )
+    .bind(userId)
+    .all<ValuationRow & {
+      id: string;
+      hobby_id: string;
+      name: string;
+      description: string | null;
+      category: string | null;
+      tags: string | null;
+      image_url: string | null;
+      custom_fields: string | null;
+      status: ItemStatus;
+      location_id: string | null;
+      created_at: number;
+    }>();
+
+  const valueHistory = await db.prepare(
+    `SELECT v.id, v.item_id, v.value_cents, v.currency, v.recorded_at
+     FROM item_value_history v
+     INNER JOIN items i ON v.item_id = i.id
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL
+     ORDER BY v.recorded_at ASC, v.rowid ASC`
+  )
+    .bind(userId)
+    .all<ValueHistoryRow>();
+
+  const historyByItem = new Map<string, ArchiveValueHistoryEntry[]>();
+  for (const entry of valueHistory.results) {
+    const list = historyByItem.get(entry.item_id) ?? [];
+    list.push({
+      value: entry.value_cents === null ? null : entry.value_cents / 100,
+      currency: entry.currency,
+      recorded_at: entry.recorded_at,
+    });
+    historyByItem.set(entry.item_id, list);
+  }
+
+  const statusHistory = await db.prepare(
+    `SELECT s.id, s.item_id, s.from_status, s.to_status, s.changed_at
+     FROM item_status_history s
+     INNER JOIN items i ON s.item_id = i.id
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL
+     ORDER BY s.changed_at ASC, s.rowid ASC`
+  )
+    .bind(userId)
+    .all<StatusHistoryRow>();
+
+  const statusHistoryByItem = new Map<string, ArchiveStatusHistoryEntry[]>();
+  for (const entry of statusHistory.results) {
+    const list = statusHistoryByItem.get(entry.item_id) ?? [];
+    list.push({
+      from_status: entry.from_status,
+      to_status: entry.to_status,
+      changed_at: entry.changed_at,
+    });
+    statusHistoryByItem.set(entry.item_id, list);
+  }
+
+  const loans = await db.prepare(
+    `SELECT l.id, l.item_id, l.borrower_name, l.borrower_contact, l.lent_date, l.due_date, l.returned_date,
+       l.notes, l.created_at, l.closed_at
+     FROM item_loans l
+     INNER JOIN items i ON l.item_id = i.id
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL
+     ORDER BY l.created_at ASC, l.rowid ASC`
+  )
+    .bind(userId)
+    .all<LoanRow>();
+
+  const loansByItem = new Map<string, ArchiveLoan[]>();
+  for (const loan of loans.results) {
+    const list = loansByItem.get(loan.item_id) ?? [];
+    list.push({
+      borrower_name: loan.borrower_name,
+      borrower_contact: loan.borrower_contact,
+      lent_date: loan.lent_date,
+      due_date: loan.due_date,
+      returned_date: loan.returned_date,
+      notes: loan.notes,
+      created_at: loan.created_at,
+      closed_at: loan.closed_at,
+    });
+    loansByItem.set(loan.item_id, list);
+  }
+
+  const galleries = await listImagesForItems(
+    db,
+    items.results.map((item) => item.id)
+  );
+
+  const archiveHobbies = new Map<string, ArchiveHobby>();
+  for (const hobby of hobbies.results) {
+    archiveHobbies.set(hobby.id, {
+      id: hobby.id,
+      name: hobby.name,
+      description: hobby.description,
+      category: hobby.category,
+      tags: parseTags(hobby.tags),
+      created_at: hobby.created_at,
+      itemCategories: [],
+      itemFields: await listHobbyFields(db, hobby.id),
+      items: [],
+      sets: [],
+    });
+  }
+
+  const sets = await db.prepare(
+    `SELECT s.id, s.hobby_id, s.name, s.description, s.created_at, s.updated_at
+     FROM item_sets s
+     INNER JOIN hobbies h ON s.hobby_id = h.id
+     WHERE h.user_id = ? AND h.deleted_at IS NULL
+     ORDER BY s.created_at ASC`
+  )
+    .bind(userId)
+    .all<ItemSetRow>();
+  const setSlots = await listSetSlots(db, sets.results.map((set) => set.id));
+  for (const set of sets.results) {
+    archiveHobbies.get(set.hobby_id)?.sets?.push({
+      name: set.name,
+      description: set.description,
+      slots: (setSlots.get(set.id) ?? []).map((slot) => ({ label: slot.label, itemId: slot.item_id })),
+    });
+  }
+
+  for (const row of categoryRows.results) {
+    archiveHobbies.get(row.hobby_id)?.itemCategories.push(row.name);
+  }
+
+  for (const item of items.results) {
+    const hobby = archiveHobbies.get(item.hobby_id);
+    if (!hobby) continue;
+
+    const image = item.image_url ? await readArchiveImage(images, item.image_url) : null;
+
+    const additionalImages: ArchiveImage[] = [];
+    for (const photo of galleries.get(item.id) || []) {
+      if (item.image_url && imageKeyFromReference(photo.image_key) === imageKeyFromReference(item.image_url)) {
+        continue;
+      }
+      const extra = await readArchiveImage(images, photo.image_key);
+      if (extra) additionalImages.push(extra);
+    }
+
+    hobby.items.push({
+      id: item.id,
+      name: item.name,
+      description: item.description,
+      category: item.category,
+      tags: parseTags(item.tags),
+      created_at: item.created_at,
+      customFields: parseCustomFieldValues(item.custom_fields),
+      valuation: valuationPayload(valuationFromRow(item)),
+      valueHistory: historyByItem.get(item.id) ?? [],
+      status: item.status,
+      statusHistory: statusHistoryByItem.get(item.id) ?? [],
+      locationId: item.location_id,
+      loans: loansByItem.get(item.id) ?? [],
+      image,
+      additionalImages,
+    });
+  }
+
+  // Shallowest first so every parent is restored before its children
+  const locations = await listUserLocations(db, userId);
+  const archiveLocations = locations
+    .map((location) => ({ location, depth: locationAncestry(locations, location.id).length }))
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ location }) => ({
+      id: location.id,
+      parentId: location.parent_id,
+      name: location.name,
+      kind: location.kind,
+      notes: location.notes,
+    }));
+
+  return {
+    version: ARCHIVE_VERSION,
+    exportedAt: Math.floor(Date.now() / 1000),
+    hobbies: Array.from(archiveHobbies.values()),
+    locations: archiveLocations,
+  };
+}
+
+/**
+ * Validate the overall shape of an uploaded archive.
+ * Returns an error message, or null when the archive looks usable.
+ */
+export function validateCollectionArchive(archive: unknown): string | null {
+  if (!archive || typeof archive !== "object") {
+    return "Archive must be a JSON object";
+  }
+
+  const candidate = archive as Partial<CollectionArchive>;
+  if (candidate.version !== ARCHIVE_VERSION) {
+    return `Unsupported archive version (expected ${ARCHIVE_VERSION})`;
+  }
+  if (!Array.isArray(candidate.hobbies)) {
+    return "Archive is missing its hobbies list";
+  }
+
+  for (const hobby of candidate.hobbies) {
+    if (!hobby || typeof hobby.name !== "string" || !hobby.name.trim()) {
+      return "Every hobby in the archive needs a name";
+    }
+    if (!Array.isArray(hobby.items)) {
+      return `Hobby "${hobby.name}" is missing its items list`;
+    }
+    for (const item of hobby.items) {
+      if (!item || typeof item.name !== "string" || !item.name.trim()) {
+        return `An item in hobby "${hobby.name}" is missing its name`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Restore an archive into a user's account.
+ * Every hobby and item receives a fresh ID, images are copied into the
+ * user's R2 prefix, and embeddings are regenerated for Vectorize.
+ */
+export async function restoreCollectionArchive(
+  userId: string,
+  archive: CollectionArchive,
+  bindings: ArchiveBindings
+): Promise<ImportSummary> {
+  const { db, images, ai, index, transformer } = bindings;
+  const summary: ImportSummary = { hobbies: 0, items: 0, images: 0, idMap: {}, vectorError: null };
+  const vectors: VectorizeVector[] = [];
+
+  // Locations whose parent is missing from the archive become top-level
+  for (const location of Array.isArray(archive.locations) ? archive.locations : []) {
+    if (!location || typeof location.id !== "string" || typeof location.name !== "string") continue;
+    const name = location.name.trim().slice(0, MAX_LOCATION_NAME_LENGTH);
+    if (!name) continue;
+
+    const locationId = crypto.randomUUID();
+    const kind = (LOCATION_KINDS as readonly string[]).includes(location.kind) ? location.kind : "other";
+    await db.prepare(
+      "INSERT INTO storage_locations (id, user_id, parent_id, name, kind, notes) VALUES (?, ?, ?, ?, ?, ?)"
+    )
+      .bind(
+        locationId,
+        userId,
+        (location.parentId && summary.idMap[location.parentId]) || null,
+        name,
+        kind,
+        location.notes || null
+      )
+      .run();
+    summary.idMap[location.id] = locationId;
+  }
+
+  for (const hobby of archive.hobbies) {
+    const hobbyId = crypto.randomUUID();
+    summary.idMap[hobby.id] = hobbyId;
+
+    const hobbyTags = Array.isArray(hobby.tags) ? hobby.tags : [];
+
+    await db.prepare(
+      `INSERT INTO hobbies (id, user_id, name, description, category, tags, embedding_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        hobbyId,
+        userId,
+        hobby.name.trim(),
+        hobby.description || null,
+        hobby.category || null,
+        JSON.stringify(hobbyTags),
+        hobbyId,
+        hobby.created_at || Math.floor(Date.now() / 1000)
+      )
+      .run();
+    summary.hobbies++;
+
+    const categoryNames = Array.isArray(hobby.itemCategories)
+      ? Array.from(new Set(hobby.itemCategories.map((c) => String(c).trim()).filter((c) => c.length > 0)))
+      : [];
+    for (const name of categoryNames) {
+      await db.prepare(
+        "INSERT OR IGNORE INTO hobby_item_categories (id, hobby_id, name) VALUES (?, ?, ?)"
+      )
+        .bind(crypto.randomUUID(), hobbyId, name)
+        .run();
+    }
+
+    // Invalid field definitions are dropped rather than failing the import
+    const normalizedFields = normalizeFieldDefinitions(hobby.itemFields ?? []);
+    const itemFields = "fields" in normalizedFields ? normalizedFields.fields : [];
+    if (itemFields.length > 0) {
+      await replaceHobbyFields(db, hobbyId, itemFields);
+    }
+
+    try {
+      const embedding = await generateEmbedding(
+        `${hobby.name} ${hobby.description || ""}`.trim(),
+        ai
+      );
+      vectors.push({
+        id: hobbyId,
+        values: embedding,
+        metadata: {
+          type: "hobby",
+          userId,
+          name: hobby.name.trim(),
+          category: hobby.category || "Other",
+        },
+      });
+    } catch (error) {
+      console.error("Error embedding imported hobby:", hobby.name, error);
+    }
+
+    for (const item of hobby.items) {
+      const itemId = crypto.randomUUID();
+      summary.idMap[item.id] = itemId;
+
+      // Primary photo first, then the rest of the gallery in order
+      const archivedPhotos = [
+        ...(item.image ? [item.image] : []),
+        ...(Array.isArray(item.additionalImages) ? item.additionalImages : []),
+      ];
+      const restoredPhotos: NewItemImage[] = [];
+      for (const photo of archivedPhotos) {
+        if (!photo || !photo.data) continue;
+        try {
+          // Archived photos go through the same checks as fresh uploads
+          const processed = processImageUpload(base64ToUint8Array(photo.data));
+          if ("error" in processed) {
+            console.error("Skipping invalid image for item:", item.name, processed.error);
+            continue;
+          }
+
+          const imageId = crypto.randomUUID();
+          const imageKey = buildItemImageKey(userId, itemId, imageId, processed.image.extension);
+          await storeProcessedImage({ images, transformer }, imageKey, processed.image);
+          restoredPhotos.push({ id: imageId, key: imageKey, contentType: processed.image.contentType });
+          summary.images++;
+        } catch (error) {
+          console.error("Error restoring image for item:", item.name, error);
+        }
+      }
+      const imageUrl = restoredPhotos.length > 0 ? restoredPhotos[0].key : null;
+
+      const itemTags = Array.isArray(item.tags) ? item.tags : [];
+
+      // Invalid valuation fields are dropped rather than failing the import
+      const archivedValuation = item.valuation
+        ? parseValuationInput({
+            purchasePrice: item.valuation.purchase_price,
+            purchaseDate: item.valuation.purchase_date,
+            currency: item.valuation.currency,
+            estimatedValue: item.valuation.estimated_value,
+          })
+        : null;
+      const valuation = applyValuation(
+        EMPTY_VALUATION,
+        archivedValuation && "valuation" in archivedValuation ? archivedValuation.valuation : {}
+      );
+
+      // Unknown statuses fall back to owned
+      const archivedStatus = parseItemStatus(item.status);
+      const status = "status" in archivedStatus ? archivedStatus.status : DEFAULT_ITEM_STATUS;
+
+      await db.prepare(
+        `INSERT INTO items (id, hobby_id, name, description, category, tags, embedding_id, image_url, custom_fields,
+           purchase_price_cents, purchase_date, currency, estimated_value_cents, status, location_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+        .bind(
+          itemId,
+          hobbyId,
+          item.name.trim(),
+          item.description || null,
+          item.category || null,
+          JSON.stringify(itemTags),
+          itemId,
+          imageUrl,
+          JSON.stringify(coerceCustomFieldValues(itemFields, item.customFields)),
+          valuation.purchasePriceCents,
+          valuation.purchaseDate,
+          valuation.currency,
+          valuation.estimatedValueCents,
+          status,
+          (item.locationId && summary.idMap[item.locationId]) || null,
+          item.created_at || Math.floor(Date.now() / 1000)
+        )
+        .run();
+
+      const archivedHistory = (Array.isArray(item.valueHistory) ? item.valueHistory : []).filter(
+        (entry) =>
+          entry &&
+          typeof entry.currency === "string" &&
+          typeof entry.recorded_at === "number" &&
+          (entry.value === null || typeof entry.value === "number")
+      );
+      if (archivedHistory.length > 0) {
+        await db.batch(
+          archivedHistory.map((entry) =>
+            db.prepare(
+              "INSERT INTO item_value_history (id, item_id, value_cents, currency, recorded_at) VALUES (?, ?, ?, ?, ?)"
+            ).bind(
+              crypto.randomUUID(),
+              itemId,
+              entry.value === null ? null : Math.round(entry.value * 100),
+              entry.currency,
+              entry.recorded_at
+            )
+          )
+        );
+      } else {
+        // Archives without history still start one for valued items
+        await valueHistoryStatement(db, itemId, null, valuation)?.run();
+      }
+
+      const archivedStatusHistory = (Array.isArray(item.statusHistory) ? item.statusHistory : []).filter(
+        (entry) =>
+          entry &&
+          isItemStatus(entry.to_status) &&
+          (entry.from_status === null || isItemStatus(entry.from_status)) &&
+          typeof entry.changed_at === "number"
+      );
+      if (archivedStatusHistory.length > 0) {
+        await db.batch(
+          archivedStatusHistory.map((entry) =>
+            db.prepare(
+              "INSERT INTO item_status_history (id, item_id, from_status, to_status, changed_at) VALUES (?, ?, ?, ?, ?)"
+            ).bind(crypto.randomUUID(), itemId, entry.from_status, entry.to_status, entry.changed_at)
+          )
+        );
+      } else {
+        await statusChangeStatement(db, itemId, null, status)?.run();
+      }
+
+      // Loans go through the same checks as new ones; at most one may stay open
+      const loanStatements: D1PreparedStatement[] = [];
+      let hasOpenLoan = false;
+      for (const loan of Array.isArray(item.loans) ? item.loans : []) {
+        if (!loan) continue;
+        const parsed = parseLoanInput({
+          borrowerName: loan.borrower_name,
+          borrowerContact: loan.borrower_contact,
+          lentDate: loan.lent_date,
+          dueDate: loan.due_date,
+          notes: loan.notes,
+        });
+        if ("error" in parsed) continue;
+        const returned = loan.returned_date
+          ? parseReturnedDate(loan.returned_date, { lent_date: parsed.values.lentDate })
+          : null;
+        if ((returned && "error" in returned) || (!returned && hasOpenLoan)) continue;
+        hasOpenLoan ||= !returned;
+
+        const createdAt = typeof loan.created_at === "number" ? loan.created_at : Math.floor(Date.now() / 1000);
+        loanStatements.push(
+          db.prepare(
+            `INSERT INTO item_loans (id, item_id, borrower_name, borrower_contact, lent_date, due_date, returned_date,
+               notes, created_at, closed_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          ).bind(
+            crypto.randomUUID(),
+            itemId,
+            parsed.values.borrowerName,
+            parsed.values.borrowerContact,
+            parsed.values.lentDate,
+            parsed.values.dueDate,
+            returned ? returned.date : null,
+            parsed.values.notes,
+            createdAt,
+            returned ? (typeof loan.closed_at === "number" ? loan.closed_at : createdAt) : null
+          )
+        );
+      }
+      if (loanStatements.length > 0) {
+        await db.batch(loanStatements);
+      }
+
+      await addItemImages(db, itemId, restoredPhotos);
+      summary.items++;
+
+      try {
+        const embedding = await generateEmbedding(
+          `${item.name} ${item.description || ""}`.trim(),
+          ai
+        );
+        vectors.push({
+          id: itemId,
+          values: embedding,
+          metadata: {
+            type: "item",
+            userId,
+            hobbyId,
+            name: item.name.trim(),
+            category: item.category || hobby.category || "Other",
+          },
+        });
+      } catch (error) {
+        console.error("Error embedding imported item:", item.name, error);
+      }
+    }
+
+    for (const set of Array.isArray(hobby.sets) ? hobby.sets : []) {
+      if (!set || typeof set.name !== "string" || !set.name.trim()) continue;
+      const archivedSlots = Array.isArray(set.slots) ? set.slots.filter((slot) => slot) : [];
+      const normalized = normalizeChecklist(archivedSlots.map((slot) => slot.label));
+      if ("error" in normalized) continue;
+
+      // Link slots to the restored items; links to items outside this hobby are dropped
+      const hobbyItemIds = new Set(hobby.items.map((item) => item.id));
+      const linkedItems = new Map<string, string>();
+      for (const slot of archivedSlots) {
+        if (typeof slot.label !== "string" || !slot.itemId || !hobbyItemIds.has(slot.itemId)) continue;
+        const restoredId = summary.idMap[slot.itemId];
+        if (restoredId && !Array.from(linkedItems.values()).includes(restoredId)) {
+          linkedItems.set(slot.label.trim().toLowerCase(), restoredId);
+        }
+      }
+
+      const setId = crypto.randomUUID();
+      await db.batch([
+        db.prepare("INSERT INTO item_sets (id, hobby_id, name, description) VALUES (?, ?, ?, ?)").bind(
+          setId,
+          hobbyId,
+          set.name.trim(),
+          set.description || null
+        ),
+        ...normalized.checklist.map((label, position) =>
+          db.prepare(
+            "INSERT INTO item_set_slots (id, set_id, label, position, item_id) VALUES (?, ?, ?, ?, ?)"
+          ).bind(crypto.randomUUID(), setId, label, position, linkedItems.get(label.toLowerCase()) ?? null)
+        ),
+      ]);
+    }
+  }
+
+  // Store embeddings in Vectorize (optional in local dev)
+  if (index && vectors.length > 0) {
+    try {
+      await upsertVectors(index, vectors);
+    } catch (error) {
+      console.error("Error storing imported vectors:", error);
+      summary.vectorError = "Imported hobbies and items could not be added to semantic search";
+    }
+  }
+
+  return summary;
+}
@@ -11,13 +11,29 @@ export function generateSessionToken(): string {
   return crypto.randomUUID() + "-" + Date.now().toString(36);
 }
 
+/**
+ * Generate an unguessable, URL-safe slug for public share links.
+ * Uses 128 bits of randomness encoded as base64url.
+ */
+export function generateShareSlug(): string {
+  return randomUrlSafeToken();
+}
+
+function randomUrlSafeToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
 /**
  * Get user data from a session token stored in KV.
  */
 export async function getUserFromSession(
   token: string,
   kv: KVNamespace
-): Promise<{ userId: string; email: string; username: string } | null> {
+): Promise<SessionUser | null> {
   const sessionData = await kv.get(`session:${token}`);
   if (!sessionData) return null;
   
@@ -28,21 +44,234 @@ export async function getUserFromSession(
   }
 }
 
+/** Sessions expire 7 days after login. */
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+export interface SessionUser {
+  userId: string;
+  email: string;
+  username: string;
+}
+
 /**
- * Store a session in KV with expiration (7 days).
+ * Entry in a user's session index, which lets account changes reach every
+ * session the user has open and powers the active sessions list in Settings.
+ * Each session has its own key, `user-sessions:{userId}:{sessionId}`, so
+ * sessions opened at the same time never overwrite each other's entries,
+ * and the index is read back by listing the user's prefix.
+ */
+interface SessionIndexEntry {
+  token: string;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  /** Unix seconds at which the session key expires in KV. */
+  expiresAt: number;
+}
+
+/** A session as listed to its owner. */
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
+/**
+ * Last-seen times are only written back when they are at least this stale,
+ * so ordinary browsing does not rewrite the index on every request.
+ */
+export const SESSION_LAST_SEEN_INTERVAL_SECONDS = 5 * 60;
+
+function userSessionsPrefix(userId: string): string {
+  return `user-sessions:${userId}:`;
+}
+
+/**
+ * Public identifier of a session, derived from its token so a session's
+ * index entry can be found from the token alone. The token itself is never
+ * sent back to clients.
+ */
+async function sessionIdFor(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest).slice(0, 16))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function parseSessionIndexEntry(stored: string | null): SessionIndexEntry | null {
+  if (!stored) return null;
+  try {
+    const entry = JSON.parse(stored);
+    // Drop sessions KV has already expired
+    return entry && entry.token && entry.expiresAt > Math.floor(Date.now() / 1000) ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readSessionIndex(
+  userId: string,
+  kv: KVNamespace
+): Promise<{ id: string; key: string; entry: SessionIndexEntry }[]> {
+  const prefix = userSessionsPrefix(userId);
+  const sessions: { id: string; key: string; entry: SessionIndexEntry }[] = [];
+  let cursor: string | undefined;
+  do {
+    const listing = await kv.list({ prefix, cursor });
+    for (const { name } of listing.keys) {
+      const entry = parseSessionIndexEntry(await kv.get(name));
+      if (entry) sessions.push({ id: name.slice(prefix.length), key: name, entry });
+    }
+    cursor = listing.list_complete ? undefined : listing.cursor;
+  } while (cursor);
+  return sessions;
+}
+
+async function writeSessionIndexEntry(key: string, entry: SessionIndexEntry, kv: KVNamespace): Promise<void> {
+  await kv.put(key, JSON.stringify(entry), { expiration: entry.expiresAt });
+}
+
+/**
+ * Store a session in KV with expiration (7 days) and record it in the
+ * user's session index.
  */
 export async function storeSession(
   token: string,
-  userData: { userId: string; email: string; username: string },
-  kv: KVNamespace
+  userData: SessionUser,
+  kv: KVNamespace,
+  userAgent: string | null = null
 ): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  const expiresAt = now + SESSION_TTL_SECONDS;
   await kv.put(
     `session:${token}`,
     JSON.stringify(userData),
-    { expirationTtl: 60 * 60 * 24 * 7 } // 7 days in seconds
+    { expiration: expiresAt }
+  );
+
+  await writeSessionIndexEntry(
+    userSessionsPrefix(userData.userId) + (await sessionIdFor(token)),
+    { token, userAgent, createdAt: now, lastSeenAt: now, expiresAt },
+    kv
   );
 }
 
+/**
+ * Record activity on a session, throttled to SESSION_LAST_SEEN_INTERVAL_SECONDS.
+ * A valid session missing from the index (e.g. one opened before the index
+ * existed) is added, so it can be listed and revoked from then on. Its real
+ * expiry is unknown, so the entry is kept for a full session lifetime.
+ */
+export async function touchSession(
+  userId: string,
+  token: string,
+  kv: KVNamespace,
+  userAgent: string | null = null
+): Promise<void> {
+  const key = userSessionsPrefix(userId) + (await sessionIdFor(token));
+  const entry = parseSessionIndexEntry(await kv.get(key));
+  const now = Math.floor(Date.now() / 1000);
+  if (!entry) {
+    await writeSessionIndexEntry(
+      key,
+      { token, userAgent, createdAt: now, lastSeenAt: now, expiresAt: now + SESSION_TTL_SECONDS },
+      kv
+    );
+    return;
+  }
+  if (now - entry.lastSeenAt < SESSION_LAST_SEEN_INTERVAL_SECONDS) return;
+
+  entry.lastSeenAt = now;
+  if (userAgent) entry.userAgent = userAgent;
+  await writeSessionIndexEntry(key, entry, kv);
+}
+
+/**
+ * List a user's active sessions, most recently used first.
+ */
+export async function listUserSessions(
+  userId: string,
+  currentToken: string,
+  kv: KVNamespace
+): Promise<SessionSummary[]> {
+  const sessions = await readSessionIndex(userId, kv);
+  return sessions
+    .map(({ id, entry }) => ({
+      id,
+      userAgent: entry.userAgent,
+      createdAt: entry.createdAt,
+      lastSeenAt: entry.lastSeenAt,
+      expiresAt: entry.expiresAt,
+      current: entry.token === currentToken,
+    }))
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+}
+
+/**
+ * Revoke one of a user's sessions by its public ID.
+ * Returns false when no such session exists.
+ */
+export async function revokeSessionById(
+  userId: string,
+  sessionId: string,
+  kv: KVNamespace
+): Promise<boolean> {
+  const key = userSessionsPrefix(userId) + sessionId;
+  const entry = parseSessionIndexEntry(await kv.get(key));
+  if (!entry) return false;
+
+  await kv.delete(`session:${entry.token}`);
+  await kv.delete(key);
+  return true;
+}
+
+/**
+ * Delete a single session (logout).
+ */
+export async function deleteSession(token: string, kv: KVNamespace): Promise<void> {
+  const user = await getUserFromSession(token, kv);
+  await kv.delete(`session:${token}`);
+  if (!user) return;
+
+  await kv.delete(userSessionsPrefix(user.userId) + (await sessionIdFor(token)));
+}
+
+/**
+ * Delete every session belonging to a user, optionally keeping one (the
+ * caller's own). Returns the number of sessions revoked.
+ */
+export async function revokeUserSessions(
+  userId: string,
+  kv: KVNamespace,
+  exceptToken?: string
+): Promise<number> {
+  const sessions = await readSessionIndex(userId, kv);
+  const revoked = sessions.filter(({ entry }) => entry.token !== exceptToken);
+
+  for (const { key, entry } of revoked) {
+    await kv.delete(`session:${entry.token}`);
+    await kv.delete(key);
+  }
+  return revoked.length;
+}
+
+/**
+ * Rewrite the user data cached in each of a user's sessions, e.g. after a
+ * username or email change. Session expiry is left unchanged.
+ */
+export async function updateUserSessions(userData: SessionUser, kv: KVNamespace): Promise<void> {
+  const sessions = await readSessionIndex(userData.userId, kv);
+  for (const { entry } of sessions) {
+    if (!(await kv.get(`session:${entry.token}`))) continue;
+    await kv.put(`session:${entry.token}`, JSON.stringify(userData), {
+      expiration: entry.expiresAt,
+    });
+  }
+}
+
 /**
  * Hash a password using bcrypt.
  */
@@ -60,3 +289,57 @@ export async function verifyPassword(
   return bcrypt.compare(password, hash);
 }
 
+
+/** Password reset links stay valid for one hour. */
+export const PASSWORD_RESET_TTL_SECONDS = 60 * 60;
+
+/** Email verification links stay valid for one day. */
+export const EMAIL_VERIFICATION_TTL_SECONDS = 60 * 60 * 24;
+
+/**
+ * Single-use tokens emailed to users, stored in KV under `{kind}:{token}`.
+ * Verification tokens carry the address they were issued for so a link
+ * stops working once the account's email changes.
+ */
+export type AccountTokenKind = "reset" | "verify";
+
+export interface AccountTokenData {
+  userId: string;
+  email: string;
+}
+
+/**
+ * Issue a time-limited account token and store it in KV.
+ */
+export async function createAccountToken(
+  kind: AccountTokenKind,
+  data: AccountTokenData,
+  kv: KVNamespace
+): Promise<string> {
+  const token = randomUrlSafeToken();
+  await kv.put(`${kind}:${token}`, JSON.stringify(data), {
+    expirationTtl: kind === "reset" ? PASSWORD_RESET_TTL_SECONDS : EMAIL_VERIFICATION_TTL_SECONDS,
+  });
+  return token;
+}
+
+/**
+ * Look up an account token and delete it so it cannot be used again.
+ * Returns null for unknown, expired or already-used tokens.
+ */
+export async function consumeAccountToken(
+  kind: AccountTokenKind,
+  token: string,
+  kv: KVNamespace
+): Promise<AccountTokenData | null> {
+  const key = `${kind}:${token}`;
+  const stored = await kv.get(key);
+  if (!stored) return null;
+
+  await kv.delete(key);
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+}
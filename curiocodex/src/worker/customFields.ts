@@ -0,0 +1,327 @@
+/**
+ * Per-hobby custom item fields.
+ *
+ * A hobby can define typed fields (for example "Year", "Mint" and "Grade" for
+ * coins) that every item in it may fill in. Definitions live in
+ * hobby_item_fields next to hobby_item_categories; values are stored on the
+ * item as a JSON object keyed by field key.
+ */
+
+export const CUSTOM_FIELD_TYPES = ["text", "number", "date", "enum", "boolean"] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export interface CustomFieldDefinition {
+  /** Stable identifier used as the key in item values. */
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  /** Allowed values for enum fields. */
+  options: string[];
+  required: boolean;
+}
+
+export type CustomFieldValue = string | number | boolean;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+/** Most fields a single hobby may define. */
+export const MAX_CUSTOM_FIELDS = 30;
+
+const MAX_LABEL_LENGTH = 60;
+const MAX_TEXT_LENGTH = 500;
+const MAX_ENUM_OPTIONS = 50;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface FieldRow {
+  field_key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string | null;
+  required: number;
+}
+
+/**
+ * Derive a field key from its label ("Pressing Year" -> "pressing_year").
+ */
+export function fieldKeyFromLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40);
+}
+
+/**
+ * Validate a list of field definitions submitted by a client.
+ * Returns the normalized definitions, or an error message for a 400 response.
+ */
+export function normalizeFieldDefinitions(
+  input: unknown
+): { fields: CustomFieldDefinition[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: "Fields must be a list" };
+  }
+  if (input.length > MAX_CUSTOM_FIELDS) {
+    return { error: `A hobby can have at most ${MAX_CUSTOM_FIELDS} custom fields` };
+  }
+
+  const fields: CustomFieldDefinition[] = [];
+  const seenKeys = new Set<string>();
+
+  for (const raw of input) {
+    const candidate = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const label = typeof candidate.label === "string" ? candidate.label.trim() : "";
+    if (!label) {
+      return { error: "Every custom field needs a label" };
+    }
+    if (label.length > MAX_LABEL_LENGTH) {
+      return { error: `Field label "${label}" is longer than ${MAX_LABEL_LENGTH} characters` };
+    }
+
+    const type = candidate.type as CustomFieldType;
+    if (!CUSTOM_FIELD_TYPES.includes(type)) {
+      return { error: `Field "${label}" has an unknown type (use ${CUSTOM_FIELD_TYPES.join(", ")})` };
+    }
+
+    const key =
+      typeof candidate.key === "string" && candidate.key.trim()
+        ? fieldKeyFromLabel(candidate.key)
+        : fieldKeyFromLabel(label);
+    if (!key) {
+      return { error: `Field "${label}" needs a label with letters or digits` };
+    }
+    if (seenKeys.has(key)) {
+      return { error: `Field "${label}" duplicates another field` };
+    }
+    seenKeys.add(key);
+
+    let options: string[] = [];
+    if (type === "enum") {
+      options = Array.isArray(candidate.options)
+        ? Array.from(
+            new Set(
+              candidate.options
+                .map((option) => (typeof option === "string" ? option.trim() : ""))
+                .filter((option) => option.length > 0)
+            )
+          )
+        : [];
+      if (options.length === 0) {
+        return { error: `Field "${label}" needs at least one option` };
+      }
+      if (options.length > MAX_ENUM_OPTIONS) {
+        return { error: `Field "${label}" can have at most ${MAX_ENUM_OPTIONS} options` };
+      }
+    }
+
+    fields.push({ key, label, type, options, required: candidate.required === true });
+  }
+
+  return { fields };
+}
+
+/**
+ * List a hobby's custom field definitions in display order.
+ */
+export async function listHobbyFields(
+  db: D1Database,
+  hobbyId: string
+): Promise<CustomFieldDefinition[]> {
+  const rows = await db.prepare(
+    `SELECT field_key, label, field_type, options, required
+     FROM hobby_item_fields
+     WHERE hobby_id = ?
+     ORDER BY position ASC, created_at ASC`
+  )
+    .bind(hobbyId)
+    .all<FieldRow>();
+
+  return rows.results.map((row) => ({
+    key: row.field_key,
+    label: row.label,
+    type: row.field_type,
+    options: parseJsonArray(row.options),
+    required: row.required === 1,
+  }));
+}
+
+/**
+ * Replace a hobby's custom field definitions.
+ * Existing item values are kept; values for removed fields are simply ignored.
+ */
+export async function replaceHobbyFields(
+  db: D1Database,
+  hobbyId: string,
+  fields: CustomFieldDefinition[]
+): Promise<void> {
+  await db.batch([
+    db.prepare("DELETE FROM hobby_item_fields WHERE hobby_id = ?").bind(hobbyId),
+    ...fields.map((field, position) =>
+      db.prepare(
+        `INSERT INTO hobby_item_fields (id, hobby_id, field_key, label, field_type, options, required, position)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        crypto.randomUUID(),
+        hobbyId,
+        field.key,
+        field.label,
+        field.type,
+        field.type === "enum" ? JSON.stringify(field.options) : null,
+        field.required ? 1 : 0,
+        position
+      )
+    ),
+  ]);
+}
+
+/**
+ * Convert one submitted value to the field's type.
+ * Accepts the string forms sent by multipart forms ("42", "true").
+ */
+function coerceValue(
+  field: CustomFieldDefinition,
+  value: unknown
+): { value: CustomFieldValue } | { error: string } {
+  switch (field.type) {
+    case "text": {
+      if (typeof value !== "string" && typeof value !== "number") {
+        return { error: `${field.label} must be text` };
+      }
+      const text = String(value).trim();
+      if (text.length > MAX_TEXT_LENGTH) {
+        return { error: `${field.label} must be at most ${MAX_TEXT_LENGTH} characters` };
+      }
+      return { value: text };
+    }
+    case "number": {
+      const number = typeof value === "string" && value.trim() ? Number(value) : value;
+      if (typeof number !== "number" || !Number.isFinite(number)) {
+        return { error: `${field.label} must be a number` };
+      }
+      return { value: number };
+    }
+    case "date": {
+      const date = typeof value === "string" ? value.trim() : "";
+      const parsed = DATE_PATTERN.test(date) ? new Date(`${date}T00:00:00Z`) : null;
+      if (!parsed || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+        return { error: `${field.label} must be a date (YYYY-MM-DD)` };
+      }
+      return { value: date };
+    }
+    case "enum": {
+      const option = typeof value === "string" ? value.trim() : "";
+      // Match options case-insensitively but store the defined spelling
+      const match = field.options.find((candidate) => candidate.toLowerCase() === option.toLowerCase());
+      if (!match) {
+        return { error: `${field.label} must be one of: ${field.options.join(", ")}` };
+      }
+      return { value: match };
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return { value };
+      if (value === "true" || value === "false") return { value: value === "true" };
+      return { error: `${field.label} must be true or false` };
+    }
+  }
+}
+
+/**
+ * A field's value, ignoring properties inherited from Object.prototype: a
+ * field labelled "Constructor" has the key `constructor`.
+ */
+export function customFieldValue(values: Record<string, unknown>, key: string): unknown {
+  return Object.hasOwn(values, key) ? values[key] : undefined;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && !value.trim());
+}
+
+/**
+ * Validate submitted custom field values against a hobby's schema.
+ * Empty values are dropped. With `partial`, required fields may be missing
+ * (used before image analysis has had a chance to fill them).
+ */
+export function validateCustomFieldValues(
+  fields: CustomFieldDefinition[],
+  input: unknown,
+  options: { partial?: boolean } = {}
+): { values: CustomFieldValues } | { error: string } {
+  if (input !== undefined && input !== null && (typeof input !== "object" || Array.isArray(input))) {
+    return { error: "Custom fields must be an object" };
+  }
+
+  const submitted = (input || {}) as Record<string, unknown>;
+  const byKey = new Map(fields.map((field) => [field.key, field]));
+
+  for (const key of Object.keys(submitted)) {
+    if (!byKey.has(key) && !isEmptyValue(submitted[key])) {
+      return { error: `Unknown custom field: ${key}` };
+    }
+  }
+
+  const values: CustomFieldValues = {};
+  for (const field of fields) {
+    const raw = customFieldValue(submitted, field.key);
+    if (isEmptyValue(raw)) {
+      if (field.required && !options.partial) {
+        return { error: `${field.label} is required` };
+      }
+      continue;
+    }
+
+    const result = coerceValue(field, raw);
+    if ("error" in result) {
+      return result;
+    }
+    values[field.key] = result.value;
+  }
+
+  return { values };
+}
+
+/**
+ * Keep whichever suggested values fit the schema, dropping the rest.
+ * Used for AI-extracted values, which should never fail a request.
+ */
+export function coerceCustomFieldValues(
+  fields: CustomFieldDefinition[],
+  input: unknown
+): CustomFieldValues {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+
+  const submitted = input as Record<string, unknown>;
+  const values: CustomFieldValues = {};
+  for (const field of fields) {
+    const raw = customFieldValue(submitted, field.key);
+    if (isEmptyValue(raw)) continue;
+    const result = coerceValue(field, typeof raw === "number" && field.type !== "number" ? String(raw) : raw);
+    if ("value" in result) {
+      values[field.key] = result.value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse an item's stored custom_fields column.
+ */
+export function parseCustomFieldValues(stored: string | null | undefined): CustomFieldValues {
+  if (!stored) return {};
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function parseJsonArray(stored: string | null): string[] {
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter((entry) => typeof entry === "string") : [];
+  } catch {
+    return [];
+  }
+}
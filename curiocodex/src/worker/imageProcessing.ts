@@ -0,0 +1,371 @@
+/**
+ * Upload-time image processing for item photos.
+ *
+ * Every uploaded photo is checked against its actual bytes (not the client's
+ * filename or MIME type), capped in size, stripped of GPS data (in EXIF) and
+ * XMP metadata (which can repeat the GPS coordinates), and,
+ * when the Cloudflare Images binding is available, resized into smaller
+ * variants that /api/images/* serves via its `size` parameter.
+ */
+
+/** Largest original photo accepted for upload. */
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Resized variants generated for each photo, keyed by the `size` query
+ * parameter accepted by /api/images/*. Widths are the longest edge in pixels.
+ */
+export const IMAGE_VARIANTS = {
+  thumb: 320,
+  medium: 1024,
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+const VARIANT_CONTENT_TYPE = "image/webp";
+const VARIANT_EXTENSION = "webp";
+
+interface SniffedImageType {
+  contentType: string;
+  extension: string;
+}
+
+export interface ProcessedImage {
+  bytes: Uint8Array;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Identify an image format from its leading magic bytes.
+ * Returns null for anything that is not a supported image.
+ */
+export function sniffImageType(bytes: Uint8Array): SniffedImageType | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    bytes.length >= offset + signature.length &&
+    signature.every((byte, i) => bytes[offset + i] === byte);
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return { contentType: "image/jpeg", extension: "jpg" };
+  }
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { contentType: "image/png", extension: "png" };
+  }
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+    return { contentType: "image/gif", extension: "gif" };
+  }
+  if (bytes.length >= 12 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+    return { contentType: "image/webp", extension: "webp" };
+  }
+  return null;
+}
+
+/**
+ * Validate and sanitize an uploaded photo.
+ * Returns the cleaned image, or an error message suitable for a 400 response.
+ */
+export function processImageUpload(
+  data: ArrayBuffer | Uint8Array
+): { image: ProcessedImage } | { error: string } {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (bytes.length === 0) {
+    return { error: "Image file is empty" };
+  }
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    return { error: `Images must be smaller than ${MAX_IMAGE_BYTES / (1024 * 1024)}MB` };
+  }
+
+  const type = sniffImageType(bytes);
+  if (!type) {
+    return { error: "Unsupported image type (use JPEG, PNG, GIF or WebP)" };
+  }
+
+  let cleaned = bytes;
+  if (type.contentType === "image/jpeg") {
+    cleaned = stripJpegMetadata(bytes);
+  } else if (type.contentType === "image/png") {
+    cleaned = stripPngMetadata(bytes);
+  } else if (type.contentType === "image/webp") {
+    cleaned = stripWebpMetadata(bytes);
+  }
+
+  return { image: { bytes: cleaned, ...type } };
+}
+
+// ============================================================================
+// Metadata stripping
+// ============================================================================
+
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+};
+
+const GPS_IFD_POINTER_TAG = 0x8825;
+
+/** Namespaces that open a JPEG APP1 segment holding XMP (standard and extended). */
+const JPEG_XMP_NAMESPACES = ["http://ns.adobe.com/xap/1.0/\0", "http://ns.adobe.com/xmp/extension/\0"];
+
+/** Keyword, with its terminator, of the PNG text chunk that holds XMP. */
+const PNG_XMP_KEYWORD = "XML:com.adobe.xmp\0";
+
+/**
+ * Blank out the GPS IFD inside a JPEG's EXIF block and drop its XMP segments.
+ * The rest of EXIF (notably orientation) is kept so photos still display
+ * the right way up. The GPS directory is left in place with zero entries
+ * and all of its former entries and values overwritten with zeros.
+ */
+function stripJpegMetadata(input: Uint8Array): Uint8Array {
+  const bytes = input.slice();
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let removed = false;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no more metadata segments follow
+    if (marker === 0xda) break;
+
+    const segmentLength = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segmentStart = offset + 4;
+    const segmentEnd = offset + 2 + segmentLength;
+    if (segmentLength < 2 || segmentEnd > bytes.length) break;
+
+    const isExif =
+      marker === 0xe1 &&
+      String.fromCharCode(...bytes.subarray(segmentStart, segmentStart + 6)) === "Exif\0\0";
+    if (isExif) {
+      blankTiffGps(bytes, segmentStart + 6, segmentEnd);
+    }
+
+    const isXmp =
+      marker === 0xe1 &&
+      JPEG_XMP_NAMESPACES.some(
+        (namespace) =>
+          String.fromCharCode(...bytes.subarray(segmentStart, segmentStart + namespace.length)) === namespace
+      );
+    if (isXmp) {
+      removed = true;
+    } else {
+      kept.push(bytes.subarray(offset, segmentEnd));
+    }
+
+    offset = segmentEnd;
+  }
+
+  if (!removed) return bytes;
+
+  // The scan and anything unparseable are kept as-is
+  kept.push(bytes.subarray(offset));
+  return concatBytes(kept);
+}
+
+/**
+ * Zero the GPS IFD of a TIFF structure that lives in bytes[start, end).
+ */
+function blankTiffGps(bytes: Uint8Array, start: number, end: number): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const byteOrder = String.fromCharCode(bytes[start], bytes[start + 1]);
+  if (byteOrder !== "II" && byteOrder !== "MM") return;
+  const little = byteOrder === "II";
+
+  const inBounds = (position: number, length: number) =>
+    position >= start && position + length <= end;
+
+  const ifd0 = start + view.getUint32(start + 4, little);
+  if (!inBounds(ifd0, 2)) return;
+
+  const entryCount = view.getUint16(ifd0, little);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (!inBounds(entry, 12)) return;
+    if (view.getUint16(entry, little) !== GPS_IFD_POINTER_TAG) continue;
+
+    const gpsIfd = start + view.getUint32(entry + 8, little);
+    if (!inBounds(gpsIfd, 2)) return;
+
+    const gpsCount = view.getUint16(gpsIfd, little);
+    const gpsEntriesEnd = gpsIfd + 2 + gpsCount * 12 + 4;
+    if (!inBounds(gpsIfd, gpsEntriesEnd - gpsIfd)) return;
+
+    // Zero any values stored outside the directory entries
+    for (let j = 0; j < gpsCount; j++) {
+      const gpsEntry = gpsIfd + 2 + j * 12;
+      const type = view.getUint16(gpsEntry + 2, little);
+      const count = view.getUint32(gpsEntry + 4, little);
+      const size = (TIFF_TYPE_SIZES[type] || 1) * count;
+      if (size > 4) {
+        const valueOffset = start + view.getUint32(gpsEntry + 8, little);
+        if (inBounds(valueOffset, size)) {
+          bytes.fill(0, valueOffset, valueOffset + size);
+        }
+      }
+    }
+
+    // An IFD with zero entries and no next-IFD pointer
+    bytes.fill(0, gpsIfd, gpsEntriesEnd);
+    return;
+  }
+}
+
+/**
+ * Drop the eXIf chunk and any XMP text chunk from a PNG.
+ */
+function stripPngMetadata(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunkEnd = offset + 12 + length;
+    if (chunkEnd > bytes.length) break;
+
+    // Text chunks open with a null-terminated keyword
+    const keyword = bytes.subarray(offset + 8, offset + 8 + Math.min(length, PNG_XMP_KEYWORD.length));
+    const isXmp =
+      (type === "iTXt" || type === "tEXt" || type === "zTXt") && String.fromCharCode(...keyword) === PNG_XMP_KEYWORD;
+    if (type !== "eXIf" && !isXmp) {
+      kept.push(bytes.subarray(offset, chunkEnd));
+    }
+    offset = chunkEnd;
+  }
+
+  // Anything unparseable at the end is kept as-is
+  if (offset < bytes.length) {
+    kept.push(bytes.subarray(offset));
+  }
+
+  return concatBytes(kept);
+}
+
+/**
+ * Drop the EXIF and XMP chunks from a WebP and clear their flags in the VP8X
+ * header.
+ */
+function stripWebpMetadata(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  let removed = false;
+
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even length
+    const chunkEnd = Math.min(offset + 8 + size + (size % 2), bytes.length);
+
+    if (type === "EXIF" || type === "XMP ") {
+      removed = true;
+    } else {
+      chunks.push(bytes.slice(offset, chunkEnd));
+    }
+    offset = chunkEnd;
+  }
+
+  if (!removed) return bytes;
+
+  for (const chunk of chunks) {
+    if (String.fromCharCode(...chunk.subarray(0, 4)) === "VP8X" && chunk.length > 8) {
+      // EXIF and XMP flags
+      chunk[8] &= ~(0x08 | 0x04);
+    }
+  }
+
+  const header = bytes.slice(0, 12);
+  const body = concatBytes(chunks);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concatBytes([header, body]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// ============================================================================
+// Variants
+// ============================================================================
+
+/**
+ * R2 key of a resized variant, stored next to the original.
+ */
+export function buildImageVariantKey(key: string, variant: ImageVariant): string {
+  return `${key}.${variant}.${VARIANT_EXTENSION}`;
+}
+
+/**
+ * Map a variant key back to the original photo's key.
+ * Returns the key unchanged when it is not a variant.
+ */
+export function originalImageKey(key: string): string {
+  const variants = Object.keys(IMAGE_VARIANTS).join("|");
+  return key.replace(new RegExp(`\\.(${variants})\\.${VARIANT_EXTENSION}$`), "");
+}
+
+export function isImageVariant(size: string | undefined): size is ImageVariant {
+  return !!size && Object.prototype.hasOwnProperty.call(IMAGE_VARIANTS, size);
+}
+
+function bytesToStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new Response(bytes).body as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Store a processed photo in R2 along with its resized variants.
+ * Variants need the Cloudflare Images binding; without it (local dev) only
+ * the original is stored and the image route falls back to serving it.
+ */
+export async function storeProcessedImage(
+  bindings: { images: R2Bucket; transformer?: ImagesBinding },
+  key: string,
+  image: ProcessedImage
+): Promise<void> {
+  const { images, transformer } = bindings;
+
+  await images.put(key, image.bytes, {
+    httpMetadata: {
+      contentType: image.contentType,
+    },
+  });
+
+  if (!transformer) return;
+
+  for (const [variant, width] of Object.entries(IMAGE_VARIANTS) as [ImageVariant, number][]) {
+    try {
+      const result = await transformer
+        .input(bytesToStream(image.bytes))
+        .transform({ width, height: width, fit: "scale-down" })
+        .output({ format: VARIANT_CONTENT_TYPE });
+
+      await images.put(
+        buildImageVariantKey(key, variant),
+        await result.response().arrayBuffer(),
+        { httpMetadata: { contentType: result.contentType() } }
+      );
+    } catch (error) {
+      // A failed variant only costs bandwidth; the original is still served
+      console.warn("Image variant generation failed:", key, variant, error);
+    }
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * Image helper functions for private, signed access to item photos in R2.
+ *
+ * Items store a stable image reference (the R2 object key). Whenever an item
+ * is returned to a client, the reference is turned into a short-lived signed
+ * URL under /api/images/* that the image route verifies before serving.
+ */
+
+import { buildImageVariantKey, IMAGE_VARIANTS, originalImageKey, type ImageVariant } from "./imageProcessing";
+
+const IMAGE_ROUTE_PREFIX = "/api/images/";
+
+/**
+ * Signed URLs are valid for at least this long. Expiry is rounded up to the
+ * next window boundary so repeated requests produce identical (cacheable) URLs.
+ */
+export const SIGNED_URL_WINDOW_SECONDS = 60 * 60;
+
+/** R2 accepts at most this many keys in a single delete call. */
+const R2_DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Normalize a stored image reference into its R2 key.
+ * Accepts both bare keys and legacy `/api/images/{key}` URLs.
+ */
+export function imageKeyFromReference(reference: string): string {
+  const withoutQuery = reference.split("?")[0];
+  return withoutQuery.startsWith(IMAGE_ROUTE_PREFIX)
+    ? withoutQuery.slice(IMAGE_ROUTE_PREFIX.length)
+    : withoutQuery;
+}
+
+/**
+ * Build the R2 key for one of an item's photos.
+ * Older single-photo items used `items/{userId}/{itemId}.{ext}`; those keys
+ * remain valid references and are still served and cleaned up.
+ */
+export function buildItemImageKey(
+  userId: string,
+  itemId: string,
+  imageId: string,
+  extension: string
+): string {
+  return `items/${userId}/${itemId}/${imageId}.${extension}`;
+}
+
+/**
+ * Extract the owning user ID from an item image key (`items/{userId}/...`).
+ */
+export function imageKeyOwner(key: string): string | null {
+  const match = key.match(/^items\/([^/]+)\//);
+  return match ? match[1] : null;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Resolve the HMAC secret used to sign image URLs from the
+ * IMAGE_SIGNING_SECRET secret. Every isolate has to sign with the same key,
+ * so a missing secret is an error rather than a reason to make one up.
+ */
+export function getImageSigningSecret(configuredSecret: string | undefined): string {
+  if (!configuredSecret || !configuredSecret.trim()) {
+    throw new Error("IMAGE_SIGNING_SECRET is not set; add it with `wrangler secret put IMAGE_SIGNING_SECRET`");
+  }
+  return configuredSecret;
+}
+
+async function computeSignature(key: string, expires: number, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    cryptoKey,
+    encoder.encode(`${key}:${expires}`)
+  );
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+/**
+ * Turn a stored image reference into a signed, expiring URL.
+ */
+export async function signImageUrl(
+  reference: string,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const key = imageKeyFromReference(reference);
+  const expires =
+    Math.ceil(now / SIGNED_URL_WINDOW_SECONDS) * SIGNED_URL_WINDOW_SECONDS +
+    SIGNED_URL_WINDOW_SECONDS;
+  const signature = await computeSignature(key, expires, secret);
+  return `${IMAGE_ROUTE_PREFIX}${key}?expires=${expires}&sig=${signature}`;
+}
+
+/**
+ * Check a signature produced by signImageUrl for the given key.
+ */
+export async function verifyImageSignature(
+  key: string,
+  expires: string | undefined,
+  signature: string | undefined,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<boolean> {
+  if (!expires || !signature) return false;
+
+  const expiresAt = parseInt(expires, 10);
+  if (isNaN(expiresAt) || expiresAt < now) return false;
+
+  const expected = await computeSignature(key, expiresAt, secret);
+  if (expected.length !== signature.length) return false;
+
+  // Constant-time comparison to avoid leaking signature prefixes
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Delete the R2 objects behind a set of stored image references, including
+ * any resized variants generated for them.
+ * Failures are logged rather than thrown so a storage hiccup never blocks
+ * the D1 delete that triggered the cleanup; the reconcile job catches leftovers.
+ */
+export async function deleteImageObjects(
+  bucket: R2Bucket,
+  references: (string | null | undefined)[]
+): Promise<number> {
+  const originals = Array.from(
+    new Set(
+      references
+        .filter((reference): reference is string => !!reference)
+        .map((reference) => imageKeyFromReference(reference))
+    )
+  );
+  const keys = originals.flatMap((key) => [
+    key,
+    ...(Object.keys(IMAGE_VARIANTS) as ImageVariant[]).map((variant) =>
+      buildImageVariantKey(key, variant)
+    ),
+  ]);
+
+  const failed = new Set<string>();
+  for (let i = 0; i < keys.length; i += R2_DELETE_BATCH_SIZE) {
+    const batch = keys.slice(i, i + R2_DELETE_BATCH_SIZE);
+    try {
+      await bucket.delete(batch);
+    } catch (error) {
+      console.error("Error deleting images from R2:", batch, error);
+      batch.forEach((key) => failed.add(key));
+    }
+  }
+
+  // Report how many of the requested photos were removed
+  return originals.filter((key) => !failed.has(key)).length;
+}
+
+/**
+ * List the R2 keys under a user's `items/{userId}/` prefix that no item row
+ * references any more.
+ */
+export async function findOrphanedImageKeys(
+  userId: string,
+  bindings: { db: D1Database; images: R2Bucket }
+): Promise<string[]> {
+  const { db, images } = bindings;
+
+  const referenced = await db.prepare(
+    `SELECT i.image_url
+     FROM items i
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE h.user_id = ? AND i.image_url IS NOT NULL`
+  )
+    .bind(userId)
+    .all<{ image_url: string }>();
+
+  const galleryKeys = await db.prepare(
+    `SELECT g.image_key
+     FROM item_images g
+     INNER JOIN items i ON g.item_id = i.id
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE h.user_id = ?`
+  )
+    .bind(userId)
+    .all<{ image_key: string }>();
+
+  const referencedKeys = new Set([
+    ...referenced.results.map((row) => imageKeyFromReference(row.image_url)),
+    ...galleryKeys.results.map((row) => imageKeyFromReference(row.image_key)),
+  ]);
+
+  const orphaned: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const listing = await images.list({ prefix: `items/${userId}/`, cursor });
+    for (const object of listing.objects) {
+      // Variants live and die with their original photo
+      if (!referencedKeys.has(originalImageKey(object.key))) {
+        orphaned.push(object.key);
+      }
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  return orphaned;
+}
+
+/**
+ * Delete everything under a user's `items/{userId}/` prefix, including
+ * variants and legacy single-photo keys. Used when an account is deleted.
+ * Returns the number of objects removed.
+ */
+export async function deleteUserImageObjects(userId: string, bucket: R2Bucket): Promise<number> {
+  // List everything before deleting so removals cannot shift the cursor
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const listing = await bucket.list({ prefix: `items/${userId}/`, cursor });
+    keys.push(...listing.objects.map((object) => object.key));
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  for (let i = 0; i < keys.length; i += R2_DELETE_BATCH_SIZE) {
+    await bucket.delete(keys.slice(i, i + R2_DELETE_BATCH_SIZE));
+  }
+  return keys.length;
+}
+
+/**
+ * Maximum number of photos attached to a single item.
+ */
+export const MAX_ITEM_IMAGES = 12;
+
+/** D1's limit on bound parameters in one statement. */
+export const D1_MAX_BOUND_PARAMETERS = 100;
+
+export interface ItemImageRow {
+  id: string;
+  item_id: string;
+  image_key: string;
+  content_type: string | null;
+  position: number;
+  is_primary: number;
+  created_at: number;
+}
+
+export interface NewItemImage {
+  id: string;
+  key: string;
+  contentType: string | null;
+}
+
+/**
+ * List an item's photos in gallery order.
+ */
+export async function listItemImages(db: D1Database, itemId: string): Promise<ItemImageRow[]> {
+  const rows = await db.prepare(
+    `SELECT id, item_id, image_key, content_type, position, is_primary, created_at
+     FROM item_images
+     WHERE item_id = ?
+     ORDER BY position ASC, created_at ASC`
+  )
+    .bind(itemId)
+    .all<ItemImageRow>();
+  return rows.results;
+}
+
+/**
+ * List the photos of several items at once, grouped by item ID.
+ */
+export async function listImagesForItems(
+  db: D1Database,
+  itemIds: string[]
+): Promise<Map<string, ItemImageRow[]>> {
+  const grouped = new Map<string, ItemImageRow[]>();
+  if (itemIds.length === 0) return grouped;
+
+  // D1 caps bound parameters per statement, so look items up in chunks
+  for (let i = 0; i < itemIds.length; i += D1_MAX_BOUND_PARAMETERS) {
+    const chunk = itemIds.slice(i, i + D1_MAX_BOUND_PARAMETERS);
+    const placeholders = chunk.map(() => "?").join(", ");
+    const rows = await db.prepare(
+      `SELECT id, item_id, image_key, content_type, position, is_primary, created_at
+       FROM item_images
+       WHERE item_id IN (${placeholders})
+       ORDER BY position ASC, created_at ASC`
+    )
+      .bind(...chunk)
+      .all<ItemImageRow>();
+
+    for (const row of rows.results) {
+      const list = grouped.get(row.item_id) || [];
+      list.push(row);
+      grouped.set(row.item_id, list);
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Append uploaded photos to the end of an item's gallery.
+ * The first photo becomes primary when the item has none yet.
+ */
+export async function addItemImages(
+  db: D1Database,
+  itemId: string,
+  images: NewItemImage[]
+): Promise<void> {
+  if (images.length === 0) return;
+
+  const last = await db.prepare(
+    "SELECT MAX(position) as position FROM item_images WHERE item_id = ?"
+  )
+    .bind(itemId)
+    .first<{ position: number | null }>();
+  const start = last?.position === null || last?.position === undefined ? 0 : last.position + 1;
+
+  await db.batch(
+    images.map((image, index) =>
+      db.prepare(
+        `INSERT INTO item_images (id, item_id, image_key, content_type, position, is_primary)
+         VALUES (?, ?, ?, ?, ?, 0)`
+      ).bind(image.id, itemId, image.key, image.contentType, start + index)
+    )
+  );
+
+  await syncPrimaryImage(db, itemId);
+}
+
+/**
+ * Make sure an item has exactly one primary photo (the first in gallery
+ * order if none is flagged) and mirror it into items.image_url.
+ */
+export async function syncPrimaryImage(db: D1Database, itemId: string): Promise<string | null> {
+  const images = await listItemImages(db, itemId);
+  let primary = images.find((image) => image.is_primary) || null;
+
+  if (!primary && images.length > 0) {
+    primary = images[0];
+    await db.prepare("UPDATE item_images SET is_primary = 1 WHERE id = ?")
+      .bind(primary.id)
+      .run();
+  }
+
+  const imageUrl = primary ? primary.image_key : null;
+  await db.prepare("UPDATE items SET image_url = ? WHERE id = ?")
+    .bind(imageUrl, itemId)
+    .run();
+  return imageUrl;
+}
@@ -7,20 +7,209 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import {
   generateSessionToken,
+  generateShareSlug,
   getUserFromSession,
   storeSession,
+  deleteSession,
+  revokeUserSessions,
+  updateUserSessions,
+  touchSession,
+  listUserSessions,
+  revokeSessionById,
   hashPassword,
   verifyPassword,
+  createAccountToken,
+  consumeAccountToken,
+  PASSWORD_RESET_TTL_SECONDS,
+  EMAIL_VERIFICATION_TTL_SECONDS,
 } from "./auth";
+import {
+  createMailTransport,
+  emailVerificationMessage,
+  passwordResetMessage,
+  type MailTransport,
+} from "./mail";
 import {
   generateEmbedding,
+  generateEmbeddings,
+  upsertVectors,
   categorizeItem,
   categorizeItemWithCustomCategories,
   extractTags,
   averageEmbeddings,
   analyzeImage,
+  IMAGE_ANALYSIS_FAILED_DESCRIPTION,
+  MAX_ANALYZED_IMAGES,
   generateDescriptionFromName,
+  suggestSetChecklist,
 } from "./ai";
+import {
+  buildCollectionArchive,
+  validateCollectionArchive,
+  restoreCollectionArchive,
+  type CollectionArchive,
+} from "./archive";
+import {
+  addItemImages,
+  buildItemImageKey,
+  deleteImageObjects,
+  deleteUserImageObjects,
+  findOrphanedImageKeys,
+  getImageSigningSecret,
+  imageKeyFromReference,
+  imageKeyOwner,
+  listItemImages,
+  MAX_ITEM_IMAGES,
+  signImageUrl,
+  syncPrimaryImage,
+  verifyImageSignature,
+  type ItemImageRow,
+  type NewItemImage,
+} from "./images";
+import {
+  IMAGE_VARIANTS,
+  buildImageVariantKey,
+  isImageVariant,
+  processImageUpload,
+  storeProcessedImage,
+  type ProcessedImage,
+} from "./imageProcessing";
+import {
+  customFieldValue,
+  listHobbyFields,
+  normalizeFieldDefinitions,
+  parseCustomFieldValues,
+  replaceHobbyFields,
+  validateCustomFieldValues,
+  type CustomFieldValues,
+} from "./customFields";
+import {
+  EMPTY_VALUATION,
+  applyValuation,
+  buildValueTimeline,
+  centsToAmount,
+  effectiveValueCents,
+  monthlyReportPoints,
+  parseValuationInput,
+  summarizeValuations,
+  valuationColumns,
+  valuationFromRow,
+  valuationPayload,
+  valueChange,
+  valueHistoryStatement,
+  type ItemValuation,
+  type ValuationPayload,
+  type ValuationRow,
+  type ValueHistoryRow,
+} from "./valuation";
+import {
+  DEFAULT_ITEM_STATUS,
+  parseItemStatus,
+  parseStatusFilter,
+  statusChangeStatement,
+  type ItemStatus,
+  type StatusHistoryRow,
+} from "./itemStatus";
+import {
+  listSetSlots,
+  normalizeChecklist,
+  replaceSetChecklist,
+  setPayload,
+  type ItemSetRow,
+} from "./itemSets";
+import {
+  descendantLocationIds,
+  itemLocationPayload,
+  listUserLocations,
+  locationPath,
+  parseLocationInput,
+  resolveItemLocation,
+  validateLocationParent,
+  type ItemLocationPayload,
+  type LocationRow,
+} from "./locations";
+import {
+  DEFAULT_ACTIVITY_PAGE_SIZE,
+  MAX_ACTIVITY_PAGE_SIZE,
+  MIN_ACTIVITY_PAGE_SIZE,
+  listActivity,
+  parseActivityCursor,
+  parseActivityTypes,
+  loanActivityDetails,
+  recordActivity,
+  valueChangeDetails,
+} from "./activity";
+import {
+  ITEM_REVISION_COLUMNS,
+  diffFields,
+  findRevisionSnapshot,
+  hobbyRevisionStatement,
+  itemRevisionStatement,
+  itemSnapshot,
+  itemSnapshotPayload,
+  listRevisions,
+  loadHobbySnapshot,
+  revisionPayloads,
+  sortCategoryNames,
+  type HobbySnapshot,
+  type ItemRevisionRow,
+  type ItemSnapshot,
+} from "./revisions";
+import {
+  listOpenHobbyLoans,
+  loanPayload,
+  parseLoanInput,
+  parseReturnedDate,
+  todayDate,
+  type LoanRow,
+} from "./loans";
+import {
+  TRASH_RETENTION_DAYS,
+  listTrash,
+  purgeAt,
+  purgeExpiredTrash,
+  purgeHobby,
+  purgeItem,
+} from "./trash";
+import {
+  DEFAULT_IMAGE_MATCHES,
+  DEFAULT_SEARCH_PAGE_SIZE,
+  DUPLICATE_SIMILARITY,
+  MAX_IMAGE_MATCHES,
+  MAX_SEARCH_PAGE_SIZE,
+  SEARCH_SORTS,
+  VECTORIZE_MAX_TOP_K,
+  type SearchMode,
+  buildFtsQuery,
+  fuseRankings,
+  inIdList,
+  isSearchSort,
+  loadImageMatches,
+  loadSearchMatches,
+  parseSearchCursor,
+  parseSearchFilters,
+  searchFacets,
+  searchHobbiesText,
+  searchItemsText,
+  semanticMetadataFilter,
+  sortSearchResults,
+} from "./search";
+import { parseSearchQuery } from "./searchQuery";
+import {
+  MAX_SAVED_SEARCHES,
+  MAX_SAVED_SEARCH_ALERT_PAGES,
+  getSavedSearch,
+  isAlertableMatch,
+  listNewSavedSearchHits,
+  listSavedSearches,
+  markSavedSearchHitsSeen,
+  parseSavedSearchInput,
+  recordSavedSearchHits,
+  refreshSavedSearchAlerts,
+  savedSearchRequest,
+  savedSearchResponse,
+  type SavedSearchRow,
+} from "./savedSearches";
 import type { Context } from "hono";
 
 interface Env {
@@ -29,6 +218,18 @@ interface Env {
   AI: Ai;
   HOBBY_ITEMS_INDEX: VectorizeIndex;
   ITEM_IMAGES: R2Bucket;
+  /** Secret for signing image URLs; required wherever images are served. */
+  IMAGE_SIGNING_SECRET?: string;
+  IMAGES?: ImagesBinding;
+  /** Mail provider API key; without it account emails are not sent. */
+  MAIL_API_KEY?: string;
+  MAIL_FROM?: string;
+  /** "true" in local dev to log account emails, links included, instead of sending them. */
+  MAIL_LOG_LINKS?: string;
+  /** Replaces the configured mail transport (tests). */
+  MAIL_TRANSPORT?: MailTransport;
+  /** Public origin used in emailed links; defaults to the request's origin. */
+  APP_URL?: string;
 }
 
 interface Variables {
@@ -37,6 +238,8 @@ interface Variables {
     email: string;
     username: string;
   };
+  /** Bearer token of the current request's session. */
+  sessionToken: string;
 }
 
 interface HobbyRow {
@@ -60,9 +263,73 @@ interface ItemRow {
 
 type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
 
+/**
+ * Replace stored image references on outgoing rows with signed, expiring URLs.
+ */
+async function withSignedImageUrls<T extends { image_url: string | null }>(
+  c: AppContext,
+  rows: T[]
+): Promise<T[]> {
+  if (!rows.some((row) => row.image_url)) {
+    return rows;
+  }
+
+  const secret = getImageSigningSecret(c.env.IMAGE_SIGNING_SECRET);
+  return Promise.all(
+    rows.map(async (row) =>
+      row.image_url
+        ? { ...row, image_url: await signImageUrl(row.image_url, secret) }
+        : row
+    )
+  );
+}
+
+/**
+ * Validate and sanitize uploaded photos (type sniffing, size cap, GPS
+ * stripping). Returns the first validation error, naming the offending file.
+ */
+async function processImageFiles(
+  files: File[]
+): Promise<{ images: ProcessedImage[] } | { error: string }> {
+  const images: ProcessedImage[] = [];
+  for (const file of files) {
+    const result = processImageUpload(await file.arrayBuffer());
+    if ("error" in result) {
+      return { error: `${file.name || "Image"}: ${result.error}` };
+    }
+    images.push(result.image);
+  }
+  return { images };
+}
+
+/**
+ * Store processed photos (and their resized variants) under an item's R2 prefix.
+ */
+async function storeItemImages(
+  c: AppContext,
+  userId: string,
+  itemId: string,
+  images: ProcessedImage[]
+): Promise<NewItemImage[]> {
+  const stored: NewItemImage[] = [];
+  for (const image of images) {
+    const imageId = crypto.randomUUID();
+    const imageKey = buildItemImageKey(userId, itemId, imageId, image.extension);
+    await storeProcessedImage(
+      { images: c.env.ITEM_IMAGES, transformer: c.env.IMAGES },
+      imageKey,
+      image
+    );
+    stored.push({ id: imageId, key: imageKey, contentType: image.contentType });
+  }
+  return stored;
+}
+
 interface CreateItemCoreOptions {
   itemId: string;
   hobbyId: string;
+  /** Recorded with the item_created activity event. */
+  hobbyName: string;
   userId: string;
   name: string;
   description?: string | null;
@@ -70,15 +337,24 @@ interface CreateItemCoreOptions {
   hobbyCategory: string | null;
   customCategories: string[];
   imageUrl: string | null;
+  /** Values already validated against the hobby's custom field schema. */
+  customFields?: CustomFieldValues;
+  valuation?: Partial<ItemValuation>;
+  status?: ItemStatus;
+  /** Storage location, already checked to belong to the user. */
+  location?: ItemLocationPayload | null;
 }
 
-interface CreatedItemPayload {
+interface CreatedItemPayload extends ValuationPayload {
   id: string;
   name: string;
   description: string | null;
   category: string;
   tags: string[];
   image_url: string | null;
+  custom_fields: CustomFieldValues;
+  status: ItemStatus;
+  location: ItemLocationPayload | null;
 }
 
 /**
@@ -92,6 +368,7 @@ async function createItemCore(
   const {
     itemId,
     hobbyId,
+    hobbyName,
     userId,
     name: rawName,
     description: rawDescription,
@@ -99,7 +376,11 @@ async function createItemCore(
     hobbyCategory,
     customCategories,
     imageUrl,
+    customFields = {},
+    status = DEFAULT_ITEM_STATUS,
+    location = null,
   } = options;
+  const valuation = applyValuation(EMPTY_VALUATION, options.valuation ?? {});
 
   let name = rawName;
   let description = rawDescription;
@@ -159,8 +440,9 @@ async function createItemCore(
 
   // Create item in D1
   await c.env.DB.prepare(
-    `INSERT INTO items (id, hobby_id, name, description, category, tags, embedding_id, image_url) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    `INSERT INTO items (id, hobby_id, name, description, category, tags, embedding_id, image_url, custom_fields,
+       purchase_price_cents, purchase_date, currency, estimated_value_cents, status, location_id) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   )
     .bind(
       itemId,
@@ -170,10 +452,39 @@ async function createItemCore(
       category,
       JSON.stringify(tags),
       itemId,
-      imageUrl
+      imageUrl,
+      JSON.stringify(customFields),
+      valuation.purchasePriceCents,
+      valuation.purchaseDate,
+      valuation.currency,
+      valuation.estimatedValueCents,
+      status,
+      location?.id ?? null
     )
     .run();
 
+  // Start the item's status history, and its value history when it has a value
+  const historyStatements = [
+    statusChangeStatement(c.env.DB, itemId, null, status),
+    valueHistoryStatement(c.env.DB, itemId, null, valuation),
+  ].filter((statement): statement is D1PreparedStatement => statement !== null);
+  await c.env.DB.batch(historyStatements);
+
+  const hobbyRef = { id: hobbyId, name: hobbyName };
+  const itemRef = { id: itemId, name: name.trim() };
+  const createdChange = valueChange(null, valuation);
+  await recordActivity(c.env.DB, userId, [
+    {
+      type: "item_created",
+      hobby: hobbyRef,
+      item: itemRef,
+      details: { description: description ? description.trim() : null, category, tags, status },
+    },
+    ...(createdChange
+      ? [{ type: "item_value_changed" as const, hobby: hobbyRef, item: itemRef, details: valueChangeDetails(createdChange) }]
+      : []),
+  ]);
+
   // Store embedding in Vectorize (optional in local dev)
   if (c.env.HOBBY_ITEMS_INDEX) {
     try {
@@ -204,9 +515,51 @@ async function createItemCore(
     category,
     tags,
     image_url: imageUrl,
+    custom_fields: customFields,
+    status,
+    location,
+    ...valuationPayload(valuation),
   };
 }
 
+/**
+ * Parse the custom field values submitted with an item. Multipart forms send
+ * them as a JSON string under "customFields".
+ */
+function parseSubmittedCustomFields(raw: unknown): unknown {
+  if (typeof raw !== "string") return raw;
+  if (!raw.trim()) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Minimum password length, matching the check on the registration form.
+ */
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Build an absolute link to a frontend page for use in emails.
+ */
+function buildAppUrl(c: AppContext, path: string): string {
+  const origin = c.env.APP_URL ? c.env.APP_URL.replace(/\/+$/, "") : new URL(c.req.url).origin;
+  return `${origin}${path}`;
+}
+
+/**
+ * Issue a verification token for a user's current address and email the link.
+ */
+async function sendVerificationEmail(c: AppContext, userId: string, email: string): Promise<void> {
+  const token = await createAccountToken("verify", { userId, email }, c.env.SESSIONS);
+  const verifyUrl = buildAppUrl(c, `/verify-email?token=${encodeURIComponent(token)}`);
+  await createMailTransport(c.env).send(
+    emailVerificationMessage(email, verifyUrl, EMAIL_VERIFICATION_TTL_SECONDS / 3600)
+  );
+}
+
 const app = new Hono<{ Bindings: Env; Variables: Variables }>();
 
 // CORS middleware - allows frontend to make requests
@@ -255,6 +608,13 @@ app.post("/api/auth/register", async (c) => {
       "INSERT INTO users (id, email, username, password_hash) VALUES (?, ?, ?, ?)"
     ).bind(userId, email, username, passwordHash).run();
 
+    // A mail hiccup should not block sign-up; the user can request a new link
+    try {
+      await sendVerificationEmail(c, userId, email);
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+    }
+
     // Create session token
     const sessionToken = generateSessionToken();
     const sessionData = {
@@ -264,7 +624,7 @@ app.post("/api/auth/register", async (c) => {
     };
 
     // Store session in KV
-    await storeSession(sessionToken, sessionData, c.env.SESSIONS);
+    await storeSession(sessionToken, sessionData, c.env.SESSIONS, c.req.header("User-Agent") || null);
 
     return c.json({
       success: true,
@@ -318,7 +678,7 @@ app.post("/api/auth/login", async (c) => {
     };
 
     // Store session in KV
-    await storeSession(sessionToken, sessionData, c.env.SESSIONS);
+    await storeSession(sessionToken, sessionData, c.env.SESSIONS, c.req.header("User-Agent") || null);
 
     return c.json({
       success: true,
@@ -340,11 +700,132 @@ app.post("/api/auth/logout", async (c) => {
   if (authHeader && authHeader.startsWith("Bearer ")) {
     const token = authHeader.substring(7);
     // Delete session from KV
-    await c.env.SESSIONS.delete(`session:${token}`);
+    await deleteSession(token, c.env.SESSIONS);
   }
   return c.json({ success: true });
 });
 
+/**
+ * POST /api/auth/forgot
+ * Email a password reset link. Always reports success so the response does
+ * not reveal which addresses have accounts.
+ */
+app.post("/api/auth/forgot", async (c) => {
+  try {
+    const { email } = await c.req.json();
+
+    if (!email || typeof email !== "string") {
+      return c.json({ error: "Email is required" }, 400);
+    }
+
+    const user = await c.env.DB.prepare(
+      "SELECT id, email FROM users WHERE email = ?"
+    ).bind(email.trim()).first<{ id: string; email: string }>();
+
+    if (user) {
+      const token = await createAccountToken(
+        "reset",
+        { userId: user.id, email: user.email },
+        c.env.SESSIONS
+      );
+      const resetUrl = buildAppUrl(c, `/reset-password?token=${encodeURIComponent(token)}`);
+      // A failed send must look like any other request, or it would reveal the account
+      try {
+        await createMailTransport(c.env).send(
+          passwordResetMessage(user.email, resetUrl, PASSWORD_RESET_TTL_SECONDS / 60)
+        );
+      } catch (error) {
+        console.error("Error sending password reset email:", error);
+      }
+    }
+
+    return c.json({
+      success: true,
+      message: "If an account exists for that email, a reset link is on its way.",
+    });
+  } catch (error) {
+    console.error("Forgot password error:", error);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/auth/reset
+ * Set a new password using a token from a reset email.
+ */
+app.post("/api/auth/reset", async (c) => {
+  try {
+    const { token, password } = await c.req.json();
+
+    if (!token || typeof token !== "string" || !password || typeof password !== "string") {
+      return c.json({ error: "Missing token or password" }, 400);
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return c.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400);
+    }
+
+    const data = await consumeAccountToken("reset", token, c.env.SESSIONS);
+    if (!data) {
+      return c.json({ error: "This reset link is invalid or has expired" }, 400);
+    }
+
+    const passwordHash = await hashPassword(password);
+    // Receiving the email proves ownership of the address, so verify it too.
+    // Links sent to an address the account no longer uses are ignored.
+    const result = await c.env.DB.prepare(
+      `UPDATE users
+       SET password_hash = ?, email_verified_at = COALESCE(email_verified_at, unixepoch())
+       WHERE id = ? AND email = ?`
+    ).bind(passwordHash, data.userId, data.email).run();
+
+    if (!result.meta.changes) {
+      return c.json({ error: "This reset link is invalid or has expired" }, 400);
+    }
+
+    // Whoever had the old password should not stay logged in
+    await revokeUserSessions(data.userId, c.env.SESSIONS);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Password reset error:", error);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
+/**
+ * POST /api/auth/verify
+ * Confirm an email address using a token from a verification email.
+ */
+app.post("/api/auth/verify", async (c) => {
+  try {
+    const { token } = await c.req.json();
+
+    if (!token || typeof token !== "string") {
+      return c.json({ error: "Missing token" }, 400);
+    }
+
+    const data = await consumeAccountToken("verify", token, c.env.SESSIONS);
+    if (!data) {
+      return c.json({ error: "This verification link is invalid or has expired" }, 400);
+    }
+
+    // Links issued for an address the account no longer uses are ignored
+    const result = await c.env.DB.prepare(
+      "UPDATE users SET email_verified_at = COALESCE(email_verified_at, unixepoch()) WHERE id = ? AND email = ?"
+    ).bind(data.userId, data.email).run();
+
+    if (!result.meta.changes) {
+      return c.json({ error: "This verification link is invalid or has expired" }, 400);
+    }
+
+    return c.json({ success: true, email: data.email });
+  } catch (error) {
+    console.error("Email verification error:", error);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+});
+
 // ============================================================================
 // Authentication Middleware
 // ============================================================================
@@ -355,7 +836,15 @@ app.post("/api/auth/logout", async (c) => {
  */
 app.use("/api/*", async (c, next) => {
   // Skip auth for public routes
-  const publicRoutes = ["/api/auth/login", "/api/auth/register", "/api/images"];
+  const publicRoutes = [
+    "/api/auth/login",
+    "/api/auth/register",
+    "/api/auth/forgot",
+    "/api/auth/reset",
+    "/api/auth/verify",
+    "/api/images",
+    "/api/public/",
+  ];
   if (publicRoutes.some(route => c.req.path.includes(route))) {
     await next();
     return;
@@ -375,6 +864,14 @@ app.use("/api/*", async (c, next) => {
 
   // Attach user to context for use in route handlers
   c.set("user", user);
+  c.set("sessionToken", token);
+
+  // Last-seen tracking is best effort and must never fail the request
+  try {
+    await touchSession(user.userId, token, c.env.SESSIONS, c.req.header("User-Agent") || null);
+  } catch (error) {
+    console.warn("Failed to update session last-seen time:", error);
+  }
   await next();
 });
 
@@ -391,147 +888,463 @@ app.get("/api/user/profile", async (c) => {
   
   // Fetch full user data from D1
   const userData = await c.env.DB.prepare(
-    "SELECT id, email, username, created_at FROM users WHERE id = ?"
+    "SELECT id, email, username, email_verified_at, created_at FROM users WHERE id = ?"
   ).bind(user.userId).first();
 
   return c.json({ user: userData });
 });
 
-// ============================================================================
-// Hobbies API Routes
-// ============================================================================
-
 /**
- * POST /api/hobbies
- * Create a new hobby with AI-powered categorization and embedding.
+ * POST /api/user/verify-email
+ * Send a fresh verification link to the current user's address.
  */
-app.post("/api/hobbies", async (c) => {
+app.post("/api/user/verify-email", async (c) => {
   const user = c.get("user");
-  const body = await c.req.json();
-  const name = body.name as string | undefined;
-  let description = body.description as string | undefined;
-  const providedCategory = body.category as string | undefined;
-  const providedItemCategories = Array.isArray(body.itemCategories)
-    ? (body.itemCategories as unknown[])
-        .map((c) => (typeof c === "string" ? c.trim() : ""))
-        .filter((c) => c.length > 0)
-    : [];
-
-  if (!name) {
-    return c.json({ error: "Name is required" }, 400);
-  }
 
   try {
-    // 0. If description is missing, generate a brief one from the hobby name
-    if (!description || !description.trim()) {
-      try {
-        const generatedDescription = await generateDescriptionFromName(name, c.env.AI);
-        if (generatedDescription && generatedDescription.trim()) {
-          description = generatedDescription;
-        }
-      } catch (descError) {
-        console.error("Error generating hobby description from name:", descError);
-        // Safe to continue without a description
-      }
+    const account = await c.env.DB.prepare(
+      "SELECT email, email_verified_at FROM users WHERE id = ?"
+    ).bind(user.userId).first<{ email: string; email_verified_at: number | null }>();
+
+    if (!account) {
+      return c.json({ error: "User not found" }, 404);
     }
 
-    // 1. Generate embedding from name and description
-    const fullText = `${name} ${description || ""}`.trim();
-    const embedding = await generateEmbedding(fullText, c.env.AI);
+    if (account.email_verified_at) {
+      return c.json({ success: true, alreadyVerified: true });
+    }
 
-    // 2. Use provided category or auto-categorize using AI
-    const category = providedCategory || await categorizeItem(name, description || null, c.env.AI);
+    await sendVerificationEmail(c, user.userId, account.email);
+    return c.json({ success: true, alreadyVerified: false });
+  } catch (error) {
+    console.error("Error resending verification email:", error);
+    return c.json({ error: "Failed to send verification email" }, 500);
+  }
+});
 
-    // 3. Extract tags using AI
-    const tags = await extractTags(name, description || null, c.env.AI);
+// ============================================================================
+// Account Management Routes
+// ============================================================================
 
-    // 4. Create hobby in D1 database
-    const hobbyId = crypto.randomUUID();
-    await c.env.DB.prepare(
-      `INSERT INTO hobbies (id, user_id, name, description, category, tags, embedding_id) 
-       VALUES (?, ?, ?, ?, ?, ?, ?)`
-    )
-      .bind(
-        hobbyId,
-        user.userId,
-        name,
-        description || null,
-        category,
-        JSON.stringify(tags),
-        hobbyId
-      )
-      .run();
+/** Vectorize accepts at most this many IDs per deleteByIds call. */
+const VECTORIZE_DELETE_BATCH_SIZE = 1000;
 
-    // 5. If the user provided any initial item categories for this hobby,
-    //    store them in the hobby_item_categories table so they can be reused
-    //    for item categorization even before any items exist.
-    if (providedItemCategories.length > 0) {
-      const uniqueNames = Array.from(
-        new Set(providedItemCategories.map((c) => c.trim()).filter((c) => c.length > 0))
-      );
+/**
+ * Load the current user's password hash and check a password against it.
+ */
+async function checkCurrentPassword(c: AppContext, password: unknown): Promise<boolean> {
+  if (!password || typeof password !== "string") return false;
 
-      for (const name of uniqueNames) {
-        const id = crypto.randomUUID();
-        await c.env.DB.prepare(
-          "INSERT OR IGNORE INTO hobby_item_categories (id, hobby_id, name) VALUES (?, ?, ?)"
-        )
-          .bind(id, hobbyId, name)
-          .run();
-      }
+  const account = await c.env.DB.prepare(
+    "SELECT password_hash FROM users WHERE id = ?"
+  ).bind(c.get("user").userId).first<{ password_hash: string }>();
+
+  return !!account && (await verifyPassword(password, account.password_hash));
+}
+
+/**
+ * PUT /api/user/password
+ * Change the current user's password. Other sessions are logged out.
+ */
+app.put("/api/user/password", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const { currentPassword, newPassword } = await c.req.json();
+
+    if (!currentPassword || !newPassword || typeof newPassword !== "string") {
+      return c.json({ error: "Current and new password are required" }, 400);
     }
 
-    // 6. Store embedding in Vectorize (optional in local dev)
-    if (c.env.HOBBY_ITEMS_INDEX) {
-      try {
-        await c.env.HOBBY_ITEMS_INDEX.insert([
-          {
-            id: hobbyId,
-            values: embedding,
-            metadata: {
-              type: "hobby",
-              userId: user.userId,
-              name: name,
-              category: category,
-            },
-          },
-        ]);
-      } catch (error) {
-        // Vectorize may not be available in local development (Windows filename issues)
-        // Continue without Vectorize - app still works for basic CRUD
-        console.warn("Vectorize not available (local dev?):", error);
-      }
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return c.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400);
     }
 
-    return c.json({
-      success: true,
-      hobby: {
-        id: hobbyId,
-        name,
-        description,
-        category,
-        tags,
-      },
-    });
+    if (!(await checkCurrentPassword(c, currentPassword))) {
+      return c.json({ error: "Current password is incorrect" }, 400);
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+    await c.env.DB.prepare(
+      "UPDATE users SET password_hash = ? WHERE id = ?"
+    ).bind(passwordHash, user.userId).run();
+
+    const revokedSessions = await revokeUserSessions(
+      user.userId,
+      c.env.SESSIONS,
+      c.get("sessionToken")
+    );
+
+    return c.json({ success: true, revokedSessions });
   } catch (error) {
-    console.error("Error creating hobby:", error);
-    return c.json({ error: "Failed to create hobby" }, 500);
+    console.error("Error changing password:", error);
+    return c.json({ error: "Failed to change password" }, 500);
   }
 });
 
 /**
- * GET /api/hobbies
- * Get all hobbies for the current user.
+ * PUT /api/user/profile
+ * Update the current user's username and/or email.
+ * Changing the email requires the current password and resets verification.
  */
-app.get("/api/hobbies", async (c) => {
+app.put("/api/user/profile", async (c) => {
   const user = c.get("user");
 
-  const hobbies = await c.env.DB.prepare(
-    "SELECT id, name, description, category, tags, created_at FROM hobbies WHERE user_id = ? ORDER BY created_at DESC"
-  )
-    .bind(user.userId)
-    .all<HobbyRow>();
+  try {
+    const { username, email, currentPassword } = await c.req.json();
 
-  // Parse tags JSON strings
+    const account = await c.env.DB.prepare(
+      "SELECT email, username FROM users WHERE id = ?"
+    ).bind(user.userId).first<{ email: string; username: string }>();
+
+    if (!account) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    const newUsername = typeof username === "string" && username.trim() ? username.trim() : account.username;
+    const newEmail = typeof email === "string" && email.trim() ? email.trim() : account.email;
+    const emailChanged = newEmail !== account.email;
+
+    if (newUsername === account.username && !emailChanged) {
+      return c.json({ error: "Nothing to update" }, 400);
+    }
+
+    if (emailChanged) {
+      if (!newEmail.includes("@")) {
+        return c.json({ error: "Invalid email format" }, 400);
+      }
+      if (!(await checkCurrentPassword(c, currentPassword))) {
+        return c.json({ error: "Current password is incorrect" }, 400);
+      }
+      const taken = await c.env.DB.prepare(
+        "SELECT id FROM users WHERE email = ? AND id != ?"
+      ).bind(newEmail, user.userId).first();
+      if (taken) {
+        return c.json({ error: "Email is already in use" }, 400);
+      }
+    }
+
+    if (newUsername !== account.username) {
+      const taken = await c.env.DB.prepare(
+        "SELECT id FROM users WHERE username = ? AND id != ?"
+      ).bind(newUsername, user.userId).first();
+      if (taken) {
+        return c.json({ error: "Username is already taken" }, 400);
+      }
+    }
+
+    await c.env.DB.prepare(
+      `UPDATE users
+       SET username = ?,
+           email = ?,
+           email_verified_at = CASE WHEN ? THEN NULL ELSE email_verified_at END
+       WHERE id = ?`
+    ).bind(newUsername, newEmail, emailChanged ? 1 : 0, user.userId).run();
+
+    const sessionData = { userId: user.userId, email: newEmail, username: newUsername };
+    await updateUserSessions(sessionData, c.env.SESSIONS);
+
+    if (emailChanged) {
+      try {
+        await sendVerificationEmail(c, user.userId, newEmail);
+      } catch (error) {
+        console.error("Error sending verification email:", error);
+      }
+    }
+
+    return c.json({ success: true, user: sessionData });
+  } catch (error) {
+    console.error("Error updating profile:", error);
+    return c.json({ error: "Failed to update profile" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/user
+ * Permanently delete the current user's account: every hobby and item in
+ * D1, their Vectorize vectors, all R2 photos and every KV session.
+ */
+app.delete("/api/user", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const { password } = await c.req.json().catch(() => ({}));
+
+    if (!(await checkCurrentPassword(c, password))) {
+      return c.json({ error: "Password is incorrect" }, 400);
+    }
+
+    // Collect vector IDs before the rows disappear
+    const hobbies = await c.env.DB.prepare(
+      "SELECT id FROM hobbies WHERE user_id = ?"
+    ).bind(user.userId).all<{ id: string }>();
+    const items = await c.env.DB.prepare(
+      `SELECT i.id FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ?`
+    ).bind(user.userId).all<{ id: string }>();
+
+    // Children first (due to foreign key constraints)
+    const userHobbies = "SELECT id FROM hobbies WHERE user_id = ?";
+    await c.env.DB.batch([
+      c.env.DB.prepare(
+        `DELETE FROM item_images WHERE item_id IN (SELECT id FROM items WHERE hobby_id IN (${userHobbies}))`
+      ).bind(user.userId),
+      c.env.DB.prepare(
+        `DELETE FROM item_value_history WHERE item_id IN (SELECT id FROM items WHERE hobby_id IN (${userHobbies}))`
+      ).bind(user.userId),
+      c.env.DB.prepare(
+        `DELETE FROM item_status_history WHERE item_id IN (SELECT id FROM items WHERE hobby_id IN (${userHobbies}))`
+      ).bind(user.userId),
+      c.env.DB.prepare(
+        `DELETE FROM item_loans WHERE item_id IN (SELECT id FROM items WHERE hobby_id IN (${userHobbies}))`
+      ).bind(user.userId),
+      c.env.DB.prepare(
+        `DELETE FROM item_revisions WHERE item_id IN (SELECT id FROM items WHERE hobby_id IN (${userHobbies}))`
+      ).bind(user.userId),
+      c.env.DB.prepare(`DELETE FROM hobby_revisions WHERE hobby_id IN (${userHobbies})`).bind(user.userId),
+      c.env.DB.prepare(
+        "DELETE FROM saved_search_hits WHERE saved_search_id IN (SELECT id FROM saved_searches WHERE user_id = ?)"
+      ).bind(user.userId),
+      c.env.DB.prepare("DELETE FROM saved_searches WHERE user_id = ?").bind(user.userId),
+      c.env.DB.prepare(
+        `DELETE FROM item_set_slots WHERE set_id IN (SELECT id FROM item_sets WHERE hobby_id IN (${userHobbies}))`
+      ).bind(user.userId),
+      c.env.DB.prepare(`DELETE FROM item_sets WHERE hobby_id IN (${userHobbies})`).bind(user.userId),
+      c.env.DB.prepare(`DELETE FROM items WHERE hobby_id IN (${userHobbies})`).bind(user.userId),
+      c.env.DB.prepare("DELETE FROM storage_locations WHERE user_id = ?").bind(user.userId),
+      c.env.DB.prepare("DELETE FROM activity_events WHERE user_id = ?").bind(user.userId),
+      c.env.DB.prepare(`DELETE FROM hobby_item_categories WHERE hobby_id IN (${userHobbies})`).bind(user.userId),
+      c.env.DB.prepare(`DELETE FROM hobby_item_fields WHERE hobby_id IN (${userHobbies})`).bind(user.userId),
+      c.env.DB.prepare("DELETE FROM hobbies WHERE user_id = ?").bind(user.userId),
+      c.env.DB.prepare("DELETE FROM users WHERE id = ?").bind(user.userId),
+    ]);
+
+    // Delete from Vectorize (optional in local dev)
+    if (c.env.HOBBY_ITEMS_INDEX) {
+      const vectorIds = [...hobbies.results, ...items.results].map((row) => row.id);
+      try {
+        for (let i = 0; i < vectorIds.length; i += VECTORIZE_DELETE_BATCH_SIZE) {
+          await c.env.HOBBY_ITEMS_INDEX.deleteByIds(vectorIds.slice(i, i + VECTORIZE_DELETE_BATCH_SIZE));
+        }
+      } catch (error) {
+        console.warn("Vectorize not available (local dev?):", error);
+      }
+    }
+
+    // The account is already gone, so storage cleanup failures are only logged
+    try {
+      await deleteUserImageObjects(user.userId, c.env.ITEM_IMAGES);
+    } catch (error) {
+      console.error("Error deleting images from R2:", error);
+    }
+
+    await revokeUserSessions(user.userId, c.env.SESSIONS);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting account:", error);
+    return c.json({ error: "Failed to delete account" }, 500);
+  }
+});
+
+// ============================================================================
+// Session Management Routes
+// ============================================================================
+
+/**
+ * GET /api/user/sessions
+ * List the current user's active sessions (devices they are logged in on).
+ */
+app.get("/api/user/sessions", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const sessions = await listUserSessions(user.userId, c.get("sessionToken"), c.env.SESSIONS);
+    return c.json({ sessions });
+  } catch (error) {
+    console.error("Error listing sessions:", error);
+    return c.json({ error: "Failed to list sessions" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/user/sessions
+ * Log out all other devices, keeping the current session.
+ */
+app.delete("/api/user/sessions", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const revoked = await revokeUserSessions(user.userId, c.env.SESSIONS, c.get("sessionToken"));
+    return c.json({ success: true, revoked });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    return c.json({ error: "Failed to log out other sessions" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/user/sessions/:id
+ * Revoke a single session by its ID.
+ */
+app.delete("/api/user/sessions/:id", async (c) => {
+  const user = c.get("user");
+  const sessionId = c.req.param("id");
+
+  try {
+    const revoked = await revokeSessionById(user.userId, sessionId, c.env.SESSIONS);
+    if (!revoked) {
+      return c.json({ error: "Session not found" }, 404);
+    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    return c.json({ error: "Failed to revoke session" }, 500);
+  }
+});
+
+// ============================================================================
+// Hobbies API Routes
+// ============================================================================
+
+/**
+ * POST /api/hobbies
+ * Create a new hobby with AI-powered categorization and embedding.
+ */
+app.post("/api/hobbies", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json();
+  const name = body.name as string | undefined;
+  let description = body.description as string | undefined;
+  const providedCategory = body.category as string | undefined;
+  const providedItemCategories = Array.isArray(body.itemCategories)
+    ? (body.itemCategories as unknown[])
+        .map((c) => (typeof c === "string" ? c.trim() : ""))
+        .filter((c) => c.length > 0)
+    : [];
+
+  if (!name) {
+    return c.json({ error: "Name is required" }, 400);
+  }
+
+  try {
+    // 0. If description is missing, generate a brief one from the hobby name
+    if (!description || !description.trim()) {
+      try {
+        const generatedDescription = await generateDescriptionFromName(name, c.env.AI);
+        if (generatedDescription && generatedDescription.trim()) {
+          description = generatedDescription;
+        }
+      } catch (descError) {
+        console.error("Error generating hobby description from name:", descError);
+        // Safe to continue without a description
+      }
+    }
+
+    // 1. Generate embedding from name and description
+    const fullText = `${name} ${description || ""}`.trim();
+    const embedding = await generateEmbedding(fullText, c.env.AI);
+
+    // 2. Use provided category or auto-categorize using AI
+    const category = providedCategory || await categorizeItem(name, description || null, c.env.AI);
+
+    // 3. Extract tags using AI
+    const tags = await extractTags(name, description || null, c.env.AI);
+
+    // 4. Create hobby in D1 database
+    const hobbyId = crypto.randomUUID();
+    await c.env.DB.prepare(
+      `INSERT INTO hobbies (id, user_id, name, description, category, tags, embedding_id) 
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        hobbyId,
+        user.userId,
+        name,
+        description || null,
+        category,
+        JSON.stringify(tags),
+        hobbyId
+      )
+      .run();
+
+    // 5. If the user provided any initial item categories for this hobby,
+    //    store them in the hobby_item_categories table so they can be reused
+    //    for item categorization even before any items exist.
+    if (providedItemCategories.length > 0) {
+      const uniqueNames = Array.from(
+        new Set(providedItemCategories.map((c) => c.trim()).filter((c) => c.length > 0))
+      );
+
+      for (const name of uniqueNames) {
+        const id = crypto.randomUUID();
+        await c.env.DB.prepare(
+          "INSERT OR IGNORE INTO hobby_item_categories (id, hobby_id, name) VALUES (?, ?, ?)"
+        )
+          .bind(id, hobbyId, name)
+          .run();
+      }
+    }
+
+    // 6. Store embedding in Vectorize (optional in local dev)
+    if (c.env.HOBBY_ITEMS_INDEX) {
+      try {
+        await c.env.HOBBY_ITEMS_INDEX.insert([
+          {
+            id: hobbyId,
+            values: embedding,
+            metadata: {
+              type: "hobby",
+              userId: user.userId,
+              name: name,
+              category: category,
+            },
+          },
+        ]);
+      } catch (error) {
+        // Vectorize may not be available in local development (Windows filename issues)
+        // Continue without Vectorize - app still works for basic CRUD
+        console.warn("Vectorize not available (local dev?):", error);
+      }
+    }
+
+    await recordActivity(c.env.DB, user.userId, {
+      type: "hobby_created",
+      hobby: { id: hobbyId, name },
+      details: { description, category, tags },
+    });
+
+    return c.json({
+      success: true,
+      hobby: {
+        id: hobbyId,
+        name,
+        description,
+        category,
+        tags,
+      },
+    });
+  } catch (error) {
+    console.error("Error creating hobby:", error);
+    return c.json({ error: "Failed to create hobby" }, 500);
+  }
+});
+
+/**
+ * GET /api/hobbies
+ * Get all hobbies for the current user.
+ */
+app.get("/api/hobbies", async (c) => {
+  const user = c.get("user");
+
+  const hobbies = await c.env.DB.prepare(
+    "SELECT id, name, description, category, tags, created_at, share_slug FROM hobbies WHERE user_id = ? AND deleted_at IS NULL ORDER BY created_at DESC"
+  )
+    .bind(user.userId)
+    .all<HobbyRow & { share_slug: string | null }>();
+
+  // Parse tags JSON strings
   const hobbiesWithParsedTags = hobbies.results.map((hobby) => ({
     ...hobby,
     tags: hobby.tags ? JSON.parse(hobby.tags) as string[] : [],
@@ -551,7 +1364,7 @@ app.get("/api/hobbies/:id/similar", async (c) => {
   try {
     // Verify the hobby belongs to the user first
     const hobby = await c.env.DB.prepare(
-      "SELECT id, user_id FROM hobbies WHERE id = ?"
+      "SELECT id, user_id FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(hobbyId)
       .first<{ id: string; user_id: string }>();
@@ -594,7 +1407,7 @@ app.get("/api/hobbies/:id/similar", async (c) => {
       const placeholders = similarIds.map(() => "?").join(",");
       const similarItems = await c.env.DB.prepare(
         `SELECT id, name, description, category, tags FROM hobbies 
-         WHERE id IN (${placeholders})`
+         WHERE id IN (${placeholders}) AND deleted_at IS NULL`
       )
         .bind(...similarIds)
         .all<HobbyRow>();
@@ -642,10 +1455,10 @@ app.put("/api/hobbies/:id", async (c) => {
   try {
     // Verify hobby belongs to user
     const hobby = await c.env.DB.prepare(
-      "SELECT id, user_id FROM hobbies WHERE id = ?"
+      "SELECT id, user_id, name, description, category FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(hobbyId)
-      .first<{ id: string; user_id: string }>();
+      .first<{ id: string; user_id: string; name: string; description: string | null; category: string | null }>();
 
     if (!hobby || hobby.user_id !== user.userId) {
       return c.json({ error: "Hobby not found" }, 404);
@@ -658,6 +1471,23 @@ app.put("/api/hobbies/:id", async (c) => {
     // Use provided category or re-categorize with AI
     const category = providedCategory || await categorizeItem(name, description || null, c.env.AI);
     const tags = await extractTags(name, description || null, c.env.AI);
+    const itemCategoryNames = Array.from(
+      new Set(providedItemCategories.map((c) => c.trim()).filter((c) => c.length > 0))
+    );
+
+    // Keep the previous version as a revision when the edit changes anything
+    const previousSnapshot = await loadHobbySnapshot(c.env.DB, hobbyId);
+    const nextSnapshot: HobbySnapshot = {
+      name,
+      description: description || null,
+      category,
+      tags,
+      item_categories:
+        itemCategoryNames.length > 0 ? sortCategoryNames(itemCategoryNames) : previousSnapshot?.item_categories ?? [],
+    };
+    if (previousSnapshot && diffFields(previousSnapshot, nextSnapshot).length > 0) {
+      await hobbyRevisionStatement(c.env.DB, hobbyId, previousSnapshot).run();
+    }
 
     // Update hobby in D1 database
     await c.env.DB.prepare(
@@ -677,11 +1507,7 @@ app.put("/api/hobbies/:id", async (c) => {
 
     // If the user provided an updated list of item category definitions,
     // replace this hobby's definitions with the new list.
-    if (providedItemCategories.length > 0) {
-      const uniqueNames = Array.from(
-        new Set(providedItemCategories.map((c) => c.trim()).filter((c) => c.length > 0))
-      );
-
+    if (itemCategoryNames.length > 0) {
       // Delete old definitions for this hobby
       await c.env.DB.prepare(
         "DELETE FROM hobby_item_categories WHERE hobby_id = ?"
@@ -690,7 +1516,7 @@ app.put("/api/hobbies/:id", async (c) => {
         .run();
 
       // Insert new definitions
-      for (const name of uniqueNames) {
+      for (const name of itemCategoryNames) {
         const id = crypto.randomUUID();
         await c.env.DB.prepare(
           "INSERT OR IGNORE INTO hobby_item_categories (id, hobby_id, name) VALUES (?, ?, ?)"
@@ -720,6 +1546,18 @@ app.put("/api/hobbies/:id", async (c) => {
       }
     }
 
+    const changes = [
+      ...(hobby.name !== name ? ["name"] : []),
+      ...((hobby.description || null) !== (description || null) ? ["description"] : []),
+      ...(hobby.category !== category ? ["category"] : []),
+      ...(providedItemCategories.length > 0 ? ["item_categories"] : []),
+    ];
+    await recordActivity(c.env.DB, user.userId, {
+      type: "hobby_updated",
+      hobby: { id: hobbyId, name },
+      details: { changes, ...(hobby.name !== name ? { previous_name: hobby.name } : {}) },
+    });
+
     return c.json({
       success: true,
       hobby: {
@@ -738,7 +1576,8 @@ app.put("/api/hobbies/:id", async (c) => {
 
 /**
  * DELETE /api/hobbies/:id
- * Delete a hobby and all its associated items.
+ * Move a hobby and all its items to the trash. They drop out of search and
+ * can be restored until the retention window runs out.
  */
 app.delete("/api/hobbies/:id", async (c) => {
   const user = c.get("user");
@@ -747,50 +1586,48 @@ app.delete("/api/hobbies/:id", async (c) => {
   try {
     // Verify hobby belongs to user
     const hobby = await c.env.DB.prepare(
-      "SELECT id, user_id FROM hobbies WHERE id = ?"
+      "SELECT id, user_id, name FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(hobbyId)
-      .first<{ id: string; user_id: string }>();
+      .first<{ id: string; user_id: string; name: string }>();
 
     if (!hobby || hobby.user_id !== user.userId) {
       return c.json({ error: "Hobby not found" }, 404);
     }
 
-    // Get item IDs before deleting (for Vectorize cleanup)
+    // Items already in the trash have no vectors left to remove
     const items = await c.env.DB.prepare(
-      "SELECT id FROM items WHERE hobby_id = ?"
+      "SELECT id FROM items WHERE hobby_id = ? AND deleted_at IS NULL"
     )
       .bind(hobbyId)
       .all<{ id: string }>();
 
     const itemIds = items.results.map((item) => item.id);
 
-    // Delete items first (due to foreign key constraint)
-    await c.env.DB.prepare(
-      "DELETE FROM items WHERE hobby_id = ?"
-    )
-      .bind(hobbyId)
-      .run();
-
-    // Delete hobby
     await c.env.DB.prepare(
-      "DELETE FROM hobbies WHERE id = ? AND user_id = ?"
+      "UPDATE hobbies SET deleted_at = unixepoch() WHERE id = ? AND user_id = ?"
     )
       .bind(hobbyId, user.userId)
       .run();
 
-    // Delete from Vectorize (optional in local dev)
+    // Delete from Vectorize (optional in local dev); restoring re-embeds them
     if (c.env.HOBBY_ITEMS_INDEX) {
+      const vectorIds = [hobbyId, ...itemIds];
       try {
-        const idsToDelete = [hobbyId, ...itemIds];
-        if (idsToDelete.length > 0) {
-          await c.env.HOBBY_ITEMS_INDEX.deleteByIds(idsToDelete);
+        for (let i = 0; i < vectorIds.length; i += VECTORIZE_DELETE_BATCH_SIZE) {
+          await c.env.HOBBY_ITEMS_INDEX.deleteByIds(vectorIds.slice(i, i + VECTORIZE_DELETE_BATCH_SIZE));
         }
       } catch (error) {
         console.warn("Vectorize not available (local dev?):", error);
       }
     }
 
+    await recordActivity(c.env.DB, user.userId, {
+      type: "hobby_deleted",
+      hobby: { id: hobbyId, name: hobby.name },
+      details: { item_count: itemIds.length },
+    });
+
     return c.json({ success: true });
   } catch (error) {
     console.error("Error deleting hobby:", error);
@@ -798,10 +1635,94 @@ app.delete("/api/hobbies/:id", async (c) => {
   }
 });
 
-// ============================================================================
-// Items API Routes
-// ============================================================================
-
+/**
+ * POST /api/hobbies/:id/share
+ * Publish a hobby as a public, read-only showcase.
+ * Reuses the existing slug if the hobby is already shared.
+ */
+app.post("/api/hobbies/:id/share", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("id");
+
+  try {
+    const hobby = await c.env.DB.prepare(
+      "SELECT id, user_id, name, share_slug FROM hobbies WHERE id = ? AND deleted_at IS NULL"
+    )
+      .bind(hobbyId)
+      .first<{ id: string; user_id: string; name: string; share_slug: string | null }>();
+
+    if (!hobby || hobby.user_id !== user.userId) {
+      return c.json({ error: "Hobby not found" }, 404);
+    }
+
+    let slug = hobby.share_slug;
+    if (!slug) {
+      slug = generateShareSlug();
+      await c.env.DB.prepare(
+        "UPDATE hobbies SET share_slug = ?, shared_at = unixepoch() WHERE id = ? AND user_id = ?"
+      )
+        .bind(slug, hobbyId, user.userId)
+        .run();
+      await recordActivity(c.env.DB, user.userId, {
+        type: "hobby_updated",
+        hobby: { id: hobbyId, name: hobby.name },
+        details: { changes: ["shared"] },
+      });
+    }
+
+    return c.json({
+      success: true,
+      slug,
+      url: `/s/${slug}`,
+    });
+  } catch (error) {
+    console.error("Error sharing hobby:", error);
+    return c.json({ error: "Failed to share hobby" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/hobbies/:id/share
+ * Unpublish a hobby showcase. The old link stops working immediately.
+ */
+app.delete("/api/hobbies/:id/share", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("id");
+
+  try {
+    const hobby = await c.env.DB.prepare(
+      "SELECT id, user_id, name FROM hobbies WHERE id = ? AND deleted_at IS NULL"
+    )
+      .bind(hobbyId)
+      .first<{ id: string; user_id: string; name: string }>();
+
+    if (!hobby || hobby.user_id !== user.userId) {
+      return c.json({ error: "Hobby not found" }, 404);
+    }
+
+    await c.env.DB.prepare(
+      "UPDATE hobbies SET share_slug = NULL, shared_at = NULL WHERE id = ? AND user_id = ?"
+    )
+      .bind(hobbyId, user.userId)
+      .run();
+
+    await recordActivity(c.env.DB, user.userId, {
+      type: "hobby_updated",
+      hobby: { id: hobbyId, name: hobby.name },
+      details: { changes: ["unshared"] },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error unsharing hobby:", error);
+    return c.json({ error: "Failed to unshare hobby" }, 500);
+  }
+});
+
+// ============================================================================
+// Items API Routes
+// ============================================================================
+
 /**
  * POST /api/hobbies/:hobbyId/items
  * Create a new item within a hobby with AI features.
@@ -814,8 +1735,13 @@ app.post("/api/hobbies/:hobbyId/items", async (c) => {
   let name: string | undefined;
   let description: string | undefined;
   let providedCategory: string | undefined;
-  let imageFile: File | null = null;
+  let submittedCustomFields: unknown;
+  let submittedValuation: Record<string, unknown>;
+  let submittedStatus: unknown;
+  let submittedLocationId: unknown;
+  let imageFiles: File[] = [];
   let imageUrl: string | null = null;
+  const uploadedImages: NewItemImage[] = [];
 
   // Check if request is FormData (image upload) or JSON
   const contentType = c.req.header("Content-Type") || "";
@@ -824,60 +1750,113 @@ app.post("/api/hobbies/:hobbyId/items", async (c) => {
     name = formData.get("name") as string | undefined;
     description = formData.get("description") as string | undefined;
     providedCategory = formData.get("category") as string | undefined;
-    imageFile = formData.get("image") as File | null;
+    submittedCustomFields = parseSubmittedCustomFields(formData.get("customFields"));
+    submittedValuation = {
+      purchasePrice: formData.get("purchasePrice") ?? undefined,
+      purchaseDate: formData.get("purchaseDate") ?? undefined,
+      currency: formData.get("currency") ?? undefined,
+      estimatedValue: formData.get("estimatedValue") ?? undefined,
+    };
+    submittedStatus = formData.get("status");
+    submittedLocationId = formData.get("locationId") ?? undefined;
+    // Several photos may be sent under repeated "image" fields; the first is primary
+    imageFiles = formData
+      .getAll("image")
+      .filter((entry): entry is File => typeof entry !== "string" && entry.size > 0);
   } else {
     const body = await c.req.json();
     name = body.name;
     description = body.description;
     providedCategory = body.category;
+    submittedCustomFields = body.customFields;
+    submittedValuation = body;
+    submittedStatus = body.status;
+    submittedLocationId = body.locationId;
   }
 
   // Generate itemId early so we can use it for image key
   const itemId = crypto.randomUUID();
 
   // Name is required unless we have an image (AI will generate name from image)
-  if ((!name || !name.trim()) && (!imageFile || imageFile.size === 0)) {
+  if ((!name || !name.trim()) && imageFiles.length === 0) {
     return c.json({ error: "Name is required, or upload an image for AI to generate one" }, 400);
   }
 
-  // If image is provided, upload to R2 and optionally analyze it
-  if (imageFile && imageFile.size > 0) {
+  if (imageFiles.length > MAX_ITEM_IMAGES) {
+    return c.json({ error: `An item can have at most ${MAX_ITEM_IMAGES} photos` }, 400);
+  }
+
+  const processed = await processImageFiles(imageFiles);
+  if ("error" in processed) {
+    return c.json({ error: processed.error }, 400);
+  }
+
+  // Check custom field values before anything is uploaded. Required fields
+  // are enforced later, once image analysis has had a chance to fill them.
+  const ownedHobby = await c.env.DB.prepare(
+    "SELECT id FROM hobbies WHERE id = ? AND user_id = ? AND deleted_at IS NULL"
+  )
+    .bind(hobbyId, user.userId)
+    .first<{ id: string }>();
+  if (!ownedHobby) {
+    return c.json({ error: "Hobby not found" }, 404);
+  }
+
+  const customFieldSchema = await listHobbyFields(c.env.DB, hobbyId);
+  const submittedValues = validateCustomFieldValues(customFieldSchema, submittedCustomFields, { partial: true });
+  if ("error" in submittedValues) {
+    return c.json({ error: submittedValues.error }, 400);
+  }
+  let customFields = submittedValues.values;
+
+  const valuation = parseValuationInput(submittedValuation);
+  if ("error" in valuation) {
+    return c.json({ error: valuation.error }, 400);
+  }
+
+  const status = parseItemStatus(submittedStatus);
+  if ("error" in status) {
+    return c.json({ error: status.error }, 400);
+  }
+
+  const location = await resolveItemLocation(c.env.DB, user.userId, submittedLocationId);
+  if ("error" in location) {
+    return c.json({ error: location.error }, 400);
+  }
+
+  // If images are provided, upload them to R2 and optionally analyze them
+  if (processed.images.length > 0) {
     try {
-      const fileExtension = imageFile.name.split(".").pop() || "jpg";
-      const imageKey = `items/${user.userId}/${itemId}.${fileExtension}`;
-      
-      // Upload image to R2
-      await c.env.ITEM_IMAGES.put(imageKey, imageFile.stream(), {
-        httpMetadata: {
-          contentType: imageFile.type || "image/jpeg",
-        },
-      });
+      uploadedImages.push(...(await storeItemImages(c, user.userId, itemId, processed.images)));
 
-      // Generate public URL (in production, you'd use a custom domain or R2 public URL)
-      // For now, we'll use a placeholder that the frontend can handle
-      imageUrl = `/api/images/${imageKey}`;
+      // Store the R2 key as a stable reference; responses turn it into a signed URL
+      imageUrl = uploadedImages[0].key;
 
-      // If any of name, description, or category are not provided, analyze the image with AI
+      // If any of name, description, category or custom fields are not provided, analyze the image with AI
       if (
         (!name || !name.trim()) ||
         (!description || !description.trim()) ||
-        !providedCategory
+        !providedCategory ||
+        customFieldSchema.some((field) => customFieldValue(customFields, field.key) === undefined)
       ) {
         try {
           // Fetch hobby context (name/category) to give the AI better hints
           const hobbyForContext = await c.env.DB.prepare(
-            "SELECT name, category FROM hobbies WHERE id = ? AND user_id = ?"
+            "SELECT name, category FROM hobbies WHERE id = ? AND user_id = ? AND deleted_at IS NULL"
           )
             .bind(hobbyId, user.userId)
             .first<{ name: string; category: string | null } | null>();
 
-          const imageArrayBuffer = await imageFile.arrayBuffer();
-          const analysis = await analyzeImage(imageArrayBuffer, c.env.AI, {
+          const imageArrayBuffers = processed.images
+            .slice(0, MAX_ANALYZED_IMAGES)
+            .map((image) => image.bytes.slice().buffer);
+          const analysis = await analyzeImage(imageArrayBuffers, c.env.AI, {
             name: name,
             description: description,
             category: providedCategory,
             hobbyName: hobbyForContext?.name,
             hobbyCategory: hobbyForContext?.category,
+            fields: customFieldSchema,
           });
           
           // Only use AI suggestions if user hasn't provided values
@@ -891,6 +1870,8 @@ app.post("/api/hobbies/:hobbyId/items", async (c) => {
           if (!providedCategory) {
             providedCategory = analysis.category;
           }
+          // Values the user entered win over AI suggestions
+          customFields = { ...analysis.customFields, ...customFields };
         } catch (analysisError) {
           console.error("Error analyzing image:", analysisError);
           // If name is still empty after failed analysis, set a default
@@ -908,10 +1889,10 @@ app.post("/api/hobbies/:hobbyId/items", async (c) => {
   try {
     // Verify hobby belongs to user and get its category
     const hobby = await c.env.DB.prepare(
-      "SELECT id, user_id, category FROM hobbies WHERE id = ?"
+      "SELECT id, user_id, name, category FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(hobbyId)
-      .first<{ id: string; user_id: string; category: string | null }>();
+      .first<{ id: string; user_id: string; name: string; category: string | null }>();
 
     if (!hobby || hobby.user_id !== user.userId) {
       return c.json({ error: "Hobby not found" }, 404);
@@ -925,7 +1906,7 @@ app.post("/api/hobbies/:hobbyId/items", async (c) => {
     const itemCategoryRows = await c.env.DB.prepare(
       `SELECT DISTINCT category as name
        FROM items
-       WHERE hobby_id = ? AND category IS NOT NULL AND TRIM(category) != ''
+       WHERE hobby_id = ? AND deleted_at IS NULL AND category IS NOT NULL AND TRIM(category) != ''
        ORDER BY category COLLATE NOCASE`
     )
       .bind(hobbyId)
@@ -948,9 +1929,16 @@ app.post("/api/hobbies/:hobbyId/items", async (c) => {
       )
     ).filter((name) => name.length > 0);
 
+    const finalValues = validateCustomFieldValues(customFieldSchema, customFields);
+    if ("error" in finalValues) {
+      await deleteImageObjects(c.env.ITEM_IMAGES, uploadedImages.map((image) => image.key));
+      return c.json({ error: finalValues.error }, 400);
+    }
+
     const created = await createItemCore(c, {
       itemId,
       hobbyId,
+      hobbyName: hobby.name,
       userId: user.userId,
       name: name || "Unnamed Item",
       description: description || null,
@@ -958,11 +1946,19 @@ app.post("/api/hobbies/:hobbyId/items", async (c) => {
       hobbyCategory,
       customCategories,
       imageUrl,
+      customFields: finalValues.values,
+      valuation: valuation.valuation,
+      status: status.status,
+      location: location.location,
     });
 
+    await addItemImages(c.env.DB, itemId, uploadedImages);
+
+    const [signed] = await withSignedImageUrls(c, [created]);
+
     return c.json({
       success: true,
-      item: created,
+      item: signed,
     });
   } catch (error) {
     console.error("Error creating item:", error);
@@ -985,6 +1981,12 @@ app.post("/api/hobbies/:hobbyId/items/bulk", async (c) => {
       name?: string;
       description?: string | null;
       category?: string | null;
+      customFields?: Record<string, unknown>;
+      purchasePrice?: number | string | null;
+      purchaseDate?: string | null;
+      currency?: string | null;
+      estimatedValue?: number | string | null;
+      status?: string | null;
     }[];
   }>();
 
@@ -997,10 +1999,10 @@ app.post("/api/hobbies/:hobbyId/items/bulk", async (c) => {
   try {
     // Verify hobby belongs to user and get its category
     const hobby = await c.env.DB.prepare(
-      "SELECT id, user_id, category FROM hobbies WHERE id = ?"
+      "SELECT id, user_id, name, category FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(hobbyId)
-      .first<{ id: string; user_id: string; category: string | null }>();
+      .first<{ id: string; user_id: string; name: string; category: string | null }>();
 
     if (!hobby || hobby.user_id !== user.userId) {
       return c.json({ error: "Hobby not found" }, 404);
@@ -1014,7 +2016,7 @@ app.post("/api/hobbies/:hobbyId/items/bulk", async (c) => {
     const itemCategoryRows = await c.env.DB.prepare(
       `SELECT DISTINCT category as name
        FROM items
-       WHERE hobby_id = ? AND category IS NOT NULL AND TRIM(category) != ''
+       WHERE hobby_id = ? AND deleted_at IS NULL AND category IS NOT NULL AND TRIM(category) != ''
        ORDER BY category COLLATE NOCASE`
     )
       .bind(hobbyId)
@@ -1037,6 +2039,8 @@ app.post("/api/hobbies/:hobbyId/items/bulk", async (c) => {
       )
     ).filter((name) => name.length > 0);
 
+    const customFieldSchema = await listHobbyFields(c.env.DB, hobbyId);
+
     const created: CreatedItemPayload[] = [];
     const skipped: { index: number; reason: string }[] = [];
 
@@ -1049,12 +2053,31 @@ app.post("/api/hobbies/:hobbyId/items/bulk", async (c) => {
         continue;
       }
 
+      const customFields = validateCustomFieldValues(customFieldSchema, raw.customFields);
+      if ("error" in customFields) {
+        skipped.push({ index, reason: customFields.error });
+        continue;
+      }
+
+      const valuation = parseValuationInput(raw);
+      if ("error" in valuation) {
+        skipped.push({ index, reason: valuation.error });
+        continue;
+      }
+
+      const status = parseItemStatus(raw.status);
+      if ("error" in status) {
+        skipped.push({ index, reason: status.error });
+        continue;
+      }
+
       const itemId = crypto.randomUUID();
 
       try {
         const result = await createItemCore(c, {
           itemId,
           hobbyId,
+          hobbyName: hobby.name,
           userId: user.userId,
           name: rawName,
           description: raw.description ?? null,
@@ -1062,6 +2085,9 @@ app.post("/api/hobbies/:hobbyId/items/bulk", async (c) => {
           hobbyCategory,
           customCategories,
           imageUrl: null,
+          customFields: customFields.values,
+          valuation: valuation.valuation,
+          status: status.status,
         });
 
         created.push(result);
@@ -1093,16 +2119,22 @@ app.post("/api/hobbies/:hobbyId/items/bulk", async (c) => {
 });
 
 /**
- * GET /api/hobbies/:hobbyId/items
- * Get all items for a specific hobby.
+ * GET /api/hobbies/:hobbyId/items?status=owned,ordered
+ * Get all items for a specific hobby, optionally only those with the given statuses.
  */
 app.get("/api/hobbies/:hobbyId/items", async (c) => {
   const user = c.get("user");
   const hobbyId = c.req.param("hobbyId");
 
+  const statusFilter = parseStatusFilter(c.req.query("status"));
+  if ("error" in statusFilter) {
+    return c.json({ error: statusFilter.error }, 400);
+  }
+  const { statuses } = statusFilter;
+
   // Verify hobby belongs to user
   const hobby = await c.env.DB.prepare(
-    "SELECT id, user_id FROM hobbies WHERE id = ?"
+    "SELECT id, user_id FROM hobbies WHERE id = ? AND deleted_at IS NULL"
   )
     .bind(hobbyId)
     .first<{ id: string; user_id: string }>();
@@ -1111,18 +2143,36 @@ app.get("/api/hobbies/:hobbyId/items", async (c) => {
     return c.json({ error: "Hobby not found" }, 404);
   }
 
+  const statusClause = statuses.length > 0
+    ? ` AND status IN (${statuses.map(() => "?").join(", ")})`
+    : "";
   const items = await c.env.DB.prepare(
-    "SELECT id, name, description, category, tags, image_url, created_at FROM items WHERE hobby_id = ? ORDER BY created_at DESC"
+    `SELECT id, name, description, category, tags, image_url, custom_fields, ${valuationColumns()}, status,
+       location_id, created_at
+     FROM items WHERE hobby_id = ? AND deleted_at IS NULL${statusClause} ORDER BY created_at DESC`
   )
-    .bind(hobbyId)
-    .all<ItemRow>();
+    .bind(hobbyId, ...statuses)
+    .all<ItemRow & ValuationRow & { custom_fields: string | null; status: ItemStatus; location_id: string | null }>();
+  const locations = await listUserLocations(c.env.DB, user.userId);
+  const openLoans = await listOpenHobbyLoans(c.env.DB, hobbyId);
+  const today = todayDate();
 
   const itemsWithParsedTags = items.results.map((item) => ({
-    ...item,
+    id: item.id,
+    name: item.name,
+    description: item.description,
+    category: item.category,
     tags: item.tags ? JSON.parse(item.tags) as string[] : [],
+    image_url: item.image_url,
+    created_at: item.created_at,
+    custom_fields: parseCustomFieldValues(item.custom_fields),
+    status: item.status,
+    location: itemLocationPayload(locations, item.location_id),
+    loan: openLoans.has(item.id) ? loanPayload(openLoans.get(item.id)!, today) : null,
+    ...valuationPayload(valuationFromRow(item)),
   }));
 
-  return c.json({ items: itemsWithParsedTags });
+  return c.json({ items: await withSignedImageUrls(c, itemsWithParsedTags) });
 });
 
 /**
@@ -1139,7 +2189,7 @@ app.get("/api/hobbies/:hobbyId/item-categories", async (c) => {
 
   try {
     const hobby = await c.env.DB.prepare(
-      "SELECT id, user_id, category FROM hobbies WHERE id = ?"
+      "SELECT id, user_id, category FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(hobbyId)
       .first<{ id: string; user_id: string; category: string | null }>();
@@ -1151,7 +2201,7 @@ app.get("/api/hobbies/:hobbyId/item-categories", async (c) => {
     const itemCategoryRows = await c.env.DB.prepare(
       `SELECT DISTINCT category as name
        FROM items
-       WHERE hobby_id = ? AND category IS NOT NULL AND TRIM(category) != ''
+       WHERE hobby_id = ? AND deleted_at IS NULL AND category IS NOT NULL AND TRIM(category) != ''
        ORDER BY category COLLATE NOCASE`
     )
       .bind(hobbyId)
@@ -1187,6 +2237,72 @@ app.get("/api/hobbies/:hobbyId/item-categories", async (c) => {
   }
 });
 
+/**
+ * GET /api/hobbies/:hobbyId/item-fields
+ * Get the hobby's custom item field definitions.
+ */
+app.get("/api/hobbies/:hobbyId/item-fields", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+
+  try {
+    const hobby = await c.env.DB.prepare(
+      "SELECT id, user_id FROM hobbies WHERE id = ? AND deleted_at IS NULL"
+    )
+      .bind(hobbyId)
+      .first<{ id: string; user_id: string }>();
+
+    if (!hobby || hobby.user_id !== user.userId) {
+      return c.json({ error: "Hobby not found" }, 404);
+    }
+
+    return c.json({ fields: await listHobbyFields(c.env.DB, hobbyId) });
+  } catch (error) {
+    console.error("Error fetching item fields for hobby:", error);
+    return c.json({ error: "Failed to fetch item fields" }, 500);
+  }
+});
+
+/**
+ * PUT /api/hobbies/:hobbyId/item-fields
+ * Replace the hobby's custom item field definitions.
+ * Body: { fields: [{ key?, label, type, options?, required? }] }
+ */
+app.put("/api/hobbies/:hobbyId/item-fields", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+
+  try {
+    const hobby = await c.env.DB.prepare(
+      "SELECT id, user_id, name FROM hobbies WHERE id = ? AND deleted_at IS NULL"
+    )
+      .bind(hobbyId)
+      .first<{ id: string; user_id: string; name: string }>();
+
+    if (!hobby || hobby.user_id !== user.userId) {
+      return c.json({ error: "Hobby not found" }, 404);
+    }
+
+    const body = await c.req.json<{ fields?: unknown }>();
+    const normalized = normalizeFieldDefinitions(body.fields);
+    if ("error" in normalized) {
+      return c.json({ error: normalized.error }, 400);
+    }
+
+    await replaceHobbyFields(c.env.DB, hobbyId, normalized.fields);
+    await recordActivity(c.env.DB, user.userId, {
+      type: "hobby_updated",
+      hobby: { id: hobbyId, name: hobby.name },
+      details: { changes: ["item_fields"] },
+    });
+
+    return c.json({ success: true, fields: normalized.fields });
+  } catch (error) {
+    console.error("Error updating item fields for hobby:", error);
+    return c.json({ error: "Failed to update item fields" }, 500);
+  }
+});
+
 /**
  * PUT /api/hobbies/:hobbyId/items/:id
  * Update an existing item.
@@ -1195,19 +2311,35 @@ app.put("/api/hobbies/:hobbyId/items/:id", async (c) => {
   const user = c.get("user");
   const hobbyId = c.req.param("hobbyId");
   const itemId = c.req.param("id");
-  const { name, description, category: providedCategory } = await c.req.json();
+  const body = await c.req.json();
+  const { name, description, category: providedCategory, customFields: submittedCustomFields } = body;
 
   if (!name) {
     return c.json({ error: "Name is required" }, 400);
   }
 
+  const valuationChanges = parseValuationInput(body);
+  if ("error" in valuationChanges) {
+    return c.json({ error: valuationChanges.error }, 400);
+  }
+
+  const submittedStatus = body.status === undefined ? null : parseItemStatus(body.status);
+  if (submittedStatus && "error" in submittedStatus) {
+    return c.json({ error: submittedStatus.error }, 400);
+  }
+
+  const submittedLocation = await resolveItemLocation(c.env.DB, user.userId, body.locationId);
+  if ("error" in submittedLocation) {
+    return c.json({ error: submittedLocation.error }, 400);
+  }
+
   try {
     // Verify hobby belongs to user
     const hobby = await c.env.DB.prepare(
-      "SELECT id, user_id, category FROM hobbies WHERE id = ?"
+      "SELECT id, user_id, name, category FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(hobbyId)
-      .first<{ id: string; user_id: string; category: string | null }>();
+      .first<{ id: string; user_id: string; name: string; category: string | null }>();
 
     if (!hobby || hobby.user_id !== user.userId) {
       return c.json({ error: "Hobby not found" }, 404);
@@ -1217,15 +2349,47 @@ app.put("/api/hobbies/:hobbyId/items/:id", async (c) => {
 
     // Verify item belongs to hobby
     const item = await c.env.DB.prepare(
-      "SELECT id, hobby_id FROM items WHERE id = ?"
+      `SELECT id, hobby_id, name, description, category, tags, custom_fields, ${valuationColumns()}, status,
+         location_id
+       FROM items WHERE id = ? AND deleted_at IS NULL`
     )
       .bind(itemId)
-      .first<{ id: string; hobby_id: string }>();
+      .first<ValuationRow & {
+        id: string;
+        hobby_id: string;
+        name: string;
+        description: string | null;
+        category: string | null;
+        tags: string | null;
+        custom_fields: string | null;
+        status: ItemStatus;
+        location_id: string | null;
+      }>();
 
     if (!item || item.hobby_id !== hobbyId) {
       return c.json({ error: "Item not found" }, 404);
     }
 
+    // Custom field values are replaced only when the client sends them
+    let customFields = parseCustomFieldValues(item.custom_fields);
+    if (submittedCustomFields !== undefined) {
+      const validated = validateCustomFieldValues(
+        await listHobbyFields(c.env.DB, hobbyId),
+        submittedCustomFields
+      );
+      if ("error" in validated) {
+        return c.json({ error: validated.error }, 400);
+      }
+      customFields = validated.values;
+    }
+
+    // Valuation fields are likewise only changed when sent
+    const previousValuation = valuationFromRow(item);
+    const valuation = applyValuation(previousValuation, valuationChanges.valuation);
+    const status = submittedStatus ? submittedStatus.status : item.status;
+    const previousLocation = itemLocationPayload(await listUserLocations(c.env.DB, user.userId), item.location_id);
+    const location = submittedLocation.location !== undefined ? submittedLocation.location : previousLocation;
+
     // Generate new embedding from updated name and description
     const fullText = `${name} ${description || ""}`.trim();
     const embedding = await generateEmbedding(fullText, c.env.AI);
@@ -1237,7 +2401,7 @@ app.put("/api/hobbies/:hobbyId/items/:id", async (c) => {
     const itemCategoryRows = await c.env.DB.prepare(
       `SELECT DISTINCT category as name
        FROM items
-       WHERE hobby_id = ? AND category IS NOT NULL AND TRIM(category) != ''
+       WHERE hobby_id = ? AND deleted_at IS NULL AND category IS NOT NULL AND TRIM(category) != ''
        ORDER BY category COLLATE NOCASE`
     )
       .bind(hobbyId)
@@ -1281,21 +2445,93 @@ app.put("/api/hobbies/:hobbyId/items/:id", async (c) => {
     }
     const tags = await extractTags(name, description || null, c.env.AI);
 
-    // Update item in D1 database
-    await c.env.DB.prepare(
-      `UPDATE items 
-       SET name = ?, description = ?, category = ?, tags = ? 
-       WHERE id = ? AND hobby_id = ?`
-    )
-      .bind(
-        name,
-        description || null,
-        category,
-        JSON.stringify(tags),
-        itemId,
-        hobbyId
+    // Keep the previous version as a revision when the edit changes anything
+    const nextSnapshot: ItemSnapshot = {
+      name,
+      description: description || null,
+      category,
+      tags,
+      custom_fields: customFields,
+      purchase_price_cents: valuation.purchasePriceCents,
+      purchase_date: valuation.purchaseDate,
+      currency: valuation.currency,
+      estimated_value_cents: valuation.estimatedValueCents,
+      status,
+      location_id: location?.id ?? null,
+    };
+    const previousSnapshot = itemSnapshot(item);
+    const revisionStatement =
+      diffFields(previousSnapshot, nextSnapshot).length > 0
+        ? itemRevisionStatement(c.env.DB, itemId, previousSnapshot)
+        : null;
+
+    // Update item in D1 database, recording any change in value or status
+    const historyStatements = [
+      revisionStatement,
+      valueHistoryStatement(c.env.DB, itemId, previousValuation, valuation),
+      statusChangeStatement(c.env.DB, itemId, item.status, status),
+    ].filter((statement): statement is D1PreparedStatement => statement !== null);
+    await c.env.DB.batch([
+      c.env.DB.prepare(
+        `UPDATE items 
+         SET name = ?, description = ?, category = ?, tags = ?, custom_fields = ?,
+           purchase_price_cents = ?, purchase_date = ?, currency = ?, estimated_value_cents = ?, status = ?,
+           location_id = ? 
+         WHERE id = ? AND hobby_id = ?`
       )
-      .run();
+        .bind(
+          name,
+          description || null,
+          category,
+          JSON.stringify(tags),
+          JSON.stringify(customFields),
+          valuation.purchasePriceCents,
+          valuation.purchaseDate,
+          valuation.currency,
+          valuation.estimatedValueCents,
+          status,
+          location?.id ?? null,
+          itemId,
+          hobbyId
+        ),
+      ...historyStatements,
+    ]);
+
+    // Log the update, with separate events for the changes the feed calls out
+    const previousCategory = item.category ?? null;
+    const change = valueChange(previousValuation, valuation);
+    const changedFields = [
+      name !== item.name && "name",
+      (description || null) !== item.description && "description",
+      category !== previousCategory && "category",
+      JSON.stringify(tags) !== (item.tags ?? "[]") && "tags",
+      JSON.stringify(customFields) !== JSON.stringify(parseCustomFieldValues(item.custom_fields)) && "custom_fields",
+      change && "value",
+      status !== item.status && "status",
+      (location?.id ?? null) !== item.location_id && "location",
+    ].filter((field): field is string => typeof field === "string");
+    const hobbyRef = { id: hobbyId, name: hobby.name };
+    const itemRef = { id: itemId, name };
+    await recordActivity(c.env.DB, user.userId, [
+      { type: "item_updated", hobby: hobbyRef, item: itemRef, details: { changes: changedFields } },
+      ...(category !== previousCategory
+        ? [{ type: "item_category_changed" as const, hobby: hobbyRef, item: itemRef, details: { from: previousCategory, to: category } }]
+        : []),
+      ...(change
+        ? [{ type: "item_value_changed" as const, hobby: hobbyRef, item: itemRef, details: valueChangeDetails(change) }]
+        : []),
+      ...(status !== item.status
+        ? [{ type: "item_status_changed" as const, hobby: hobbyRef, item: itemRef, details: { from: item.status, to: status } }]
+        : []),
+      ...((location?.id ?? null) !== item.location_id
+        ? [{
+            type: "item_location_changed" as const,
+            hobby: hobbyRef,
+            item: itemRef,
+            details: { from: previousLocation?.path ?? null, to: location?.path ?? null },
+          }]
+        : []),
+    ]);
 
     // Update embedding in Vectorize (optional in local dev)
     if (c.env.HOBBY_ITEMS_INDEX) {
@@ -1326,6 +2562,10 @@ app.put("/api/hobbies/:hobbyId/items/:id", async (c) => {
         description,
         category,
         tags,
+        custom_fields: customFields,
+        status,
+        location,
+        ...valuationPayload(valuation),
       },
     });
   } catch (error) {
@@ -1355,10 +2595,10 @@ app.put("/api/hobbies/:hobbyId/items/:id/move", async (c) => {
   try {
     // Verify old hobby belongs to user
     const oldHobby = await c.env.DB.prepare(
-      "SELECT id, user_id, category FROM hobbies WHERE id = ?"
+      "SELECT id, user_id, name, category FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(oldHobbyId)
-      .first<{ id: string; user_id: string; category: string | null }>();
+      .first<{ id: string; user_id: string; name: string; category: string | null }>();
 
     if (!oldHobby || oldHobby.user_id !== user.userId) {
       return c.json({ error: "Source hobby not found" }, 404);
@@ -1366,10 +2606,10 @@ app.put("/api/hobbies/:hobbyId/items/:id/move", async (c) => {
 
     // Verify new hobby belongs to same user
     const newHobby = await c.env.DB.prepare(
-      "SELECT id, user_id, category FROM hobbies WHERE id = ?"
+      "SELECT id, user_id, name, category FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(newHobbyId)
-      .first<{ id: string; user_id: string; category: string | null }>();
+      .first<{ id: string; user_id: string; name: string; category: string | null }>();
 
     if (!newHobby || newHobby.user_id !== user.userId) {
       return c.json({ error: "Target hobby not found" }, 404);
@@ -1377,7 +2617,7 @@ app.put("/api/hobbies/:hobbyId/items/:id/move", async (c) => {
 
     // Verify item belongs to old hobby
     const item = await c.env.DB.prepare(
-      "SELECT id, hobby_id, name, description, category, tags FROM items WHERE id = ?"
+      "SELECT id, hobby_id, name, description, category, tags FROM items WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(itemId)
       .first<{
@@ -1397,14 +2637,22 @@ app.put("/api/hobbies/:hobbyId/items/:id/move", async (c) => {
     const fullText = `${item.name} ${item.description || ""}`.trim();
     const embedding = await generateEmbedding(fullText, c.env.AI);
 
-    // Move item to new hobby in D1
-    await c.env.DB.prepare(
-      `UPDATE items 
-       SET hobby_id = ? 
-       WHERE id = ? AND hobby_id = ?`
-    )
-      .bind(newHobbyId, itemId, oldHobbyId)
-      .run();
+    // Move item to new hobby in D1, leaving any slots it filled in the old hobby's sets
+    await c.env.DB.batch([
+      c.env.DB.prepare(
+        `UPDATE items 
+         SET hobby_id = ? 
+         WHERE id = ? AND hobby_id = ?`
+      ).bind(newHobbyId, itemId, oldHobbyId),
+      c.env.DB.prepare("UPDATE item_set_slots SET item_id = NULL WHERE item_id = ?").bind(itemId),
+    ]);
+
+    await recordActivity(c.env.DB, user.userId, {
+      type: "item_moved",
+      hobby: { id: newHobbyId, name: newHobby.name },
+      item: { id: itemId, name: item.name },
+      details: { from_hobby: { id: oldHobbyId, name: oldHobby.name } },
+    });
 
     // Update embedding metadata in Vectorize (optional in local dev)
     if (c.env.HOBBY_ITEMS_INDEX) {
@@ -1447,7 +2695,8 @@ app.put("/api/hobbies/:hobbyId/items/:id/move", async (c) => {
 
 /**
  * DELETE /api/hobbies/:hobbyId/items/:id
- * Delete an item.
+ * Move an item to the trash. It drops out of search and can be restored
+ * until the retention window runs out.
  */
 app.delete("/api/hobbies/:hobbyId/items/:id", async (c) => {
   const user = c.get("user");
@@ -1457,10 +2706,10 @@ app.delete("/api/hobbies/:hobbyId/items/:id", async (c) => {
   try {
     // Verify hobby belongs to user
     const hobby = await c.env.DB.prepare(
-      "SELECT id, user_id FROM hobbies WHERE id = ?"
+      "SELECT id, user_id, name FROM hobbies WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(hobbyId)
-      .first<{ id: string; user_id: string }>();
+      .first<{ id: string; user_id: string; name: string }>();
 
     if (!hobby || hobby.user_id !== user.userId) {
       return c.json({ error: "Hobby not found" }, 404);
@@ -1468,23 +2717,28 @@ app.delete("/api/hobbies/:hobbyId/items/:id", async (c) => {
 
     // Verify item belongs to hobby
     const item = await c.env.DB.prepare(
-      "SELECT id, hobby_id FROM items WHERE id = ?"
+      "SELECT id, hobby_id, name FROM items WHERE id = ? AND deleted_at IS NULL"
     )
       .bind(itemId)
-      .first<{ id: string; hobby_id: string }>();
+      .first<{ id: string; hobby_id: string; name: string }>();
 
     if (!item || item.hobby_id !== hobbyId) {
       return c.json({ error: "Item not found" }, 404);
     }
 
-    // Delete item
     await c.env.DB.prepare(
-      "DELETE FROM items WHERE id = ? AND hobby_id = ?"
+      "UPDATE items SET deleted_at = unixepoch() WHERE id = ? AND hobby_id = ?"
     )
       .bind(itemId, hobbyId)
       .run();
 
-    // Delete from Vectorize (optional in local dev)
+    await recordActivity(c.env.DB, user.userId, {
+      type: "item_deleted",
+      hobby: { id: hobbyId, name: hobby.name },
+      item: { id: itemId, name: item.name },
+    });
+
+    // Delete from Vectorize (optional in local dev); restoring re-embeds it
     if (c.env.HOBBY_ITEMS_INDEX) {
       try {
         await c.env.HOBBY_ITEMS_INDEX.deleteByIds([itemId]);
@@ -1501,76 +2755,2146 @@ app.delete("/api/hobbies/:hobbyId/items/:id", async (c) => {
 });
 
 // ============================================================================
-// Recommendations API Routes
+// Item Image Routes
 // ============================================================================
 
+interface OwnedItem {
+  id: string;
+  hobby_id: string;
+  name: string;
+  hobby_name: string;
+}
+
 /**
- * POST /api/discover/recommendations
- * Get personalized item recommendations based on the user's interests
- * and an optional natural-language query.
- *
- * The recommendations are drawn from other users' items so that:
- * - suggested items represent things that actually exist
- * - quality improves as more users add items
+ * Look up an item for the current user, checking both hobby and item ownership.
+ * Returns null when either does not belong to the user.
  */
-app.post("/api/discover/recommendations", async (c) => {
-  const user = c.get("user");
-  const { query, limit = 12 } = await c.req.json<{
-    query?: string;
-    limit?: number;
-  }>();
-
-  try {
-    // Try to get recommendations using Vectorize (may not be available in local dev)
-    if (!c.env.HOBBY_ITEMS_INDEX) {
-      return c.json({ recommendations: [], searchMethod: "text" as const });
-    }
+async function findOwnedItem(
+  c: AppContext,
+  hobbyId: string,
+  itemId: string
+): Promise<OwnedItem | null> {
+  const item = await c.env.DB.prepare(
+    `SELECT i.id, i.hobby_id, i.name, h.name as hobby_name
+     FROM items i
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE i.id = ? AND i.hobby_id = ? AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
+  )
+    .bind(itemId, hobbyId, c.get("user").userId)
+    .first<OwnedItem>();
 
-    // Get all user's hobbies (for profile embedding)
-    const userHobbies = await c.env.DB.prepare(
-      "SELECT id FROM hobbies WHERE user_id = ?"
-    )
-      .bind(user.userId)
-      .all<{ id: string }>();
+  return item || null;
+}
 
-    const hobbyIds = userHobbies.results.map((h) => h.id);
+/**
+ * Log a change to an item's photos. `action` is one of added, reordered,
+ * primary_changed or removed.
+ */
+async function recordImageChange(c: AppContext, item: OwnedItem, action: string, count: number) {
+  await recordActivity(c.env.DB, c.get("user").userId, {
+    type: "item_images_changed",
+    hobby: { id: item.hobby_id, name: item.hobby_name },
+    item: { id: item.id, name: item.name },
+    details: { action, count },
+  });
+}
 
-    let searchEmbedding: number[] | null = null;
+/**
+ * Shape an item's photos for the client, signing each image URL.
+ */
+async function buildGalleryResponse(c: AppContext, images: ItemImageRow[]) {
+  const signed = await withSignedImageUrls(
+    c,
+    images.map((image) => ({
+      id: image.id,
+      image_url: image.image_key as string | null,
+      content_type: image.content_type,
+      position: image.position,
+      is_primary: image.is_primary === 1,
+      created_at: image.created_at,
+    }))
+  );
 
-    // 1. If user has hobbies, build a profile embedding
-    if (hobbyIds.length > 0) {
-      const embeddings = await c.env.HOBBY_ITEMS_INDEX.getByIds(hobbyIds);
+  return {
+    images: signed,
+    primaryImageUrl: signed.find((image) => image.is_primary)?.image_url || null,
+  };
+}
 
-      if (embeddings.length > 0) {
-        const embeddingVectors = embeddings.map((vec) => Array.from(vec.values));
-        const profileEmbedding = averageEmbeddings(embeddingVectors);
+/**
+ * GET /api/hobbies/:hobbyId/items/:id/images
+ * List an item's photos in gallery order.
+ */
+app.get("/api/hobbies/:hobbyId/items/:id/images", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
 
-        // Blend profile with query if present
-        if (query && query.trim()) {
-          const queryEmbedding = await generateEmbedding(query.trim(), c.env.AI);
-          const alpha = 0.5; // weight for profile vs query
-          searchEmbedding = profileEmbedding.map(
-            (v, i) => alpha * v + (1 - alpha) * queryEmbedding[i]
-          );
-        } else {
-          searchEmbedding = profileEmbedding;
-        }
-      }
+  try {
+    const item = await findOwnedItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
     }
 
-    // 2. If we still don't have an embedding but there is a query, just use the query
-    if (!searchEmbedding && query && query.trim()) {
-      searchEmbedding = await generateEmbedding(query.trim(), c.env.AI);
-    }
+    const images = await listItemImages(c.env.DB, itemId);
+    return c.json(await buildGalleryResponse(c, images));
+  } catch (error) {
+    console.error("Error fetching item images:", error);
+    return c.json({ error: "Failed to fetch item images" }, 500);
+  }
+});
 
-    // 3. If we have neither hobbies nor query, we have nothing to go on
-    if (!searchEmbedding) {
+/**
+ * POST /api/hobbies/:hobbyId/items/:id/images
+ * Upload one or more photos (repeated "image" form fields) to the end of
+ * an item's gallery.
+ */
+app.post("/api/hobbies/:hobbyId/items/:id/images", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+
+  const contentType = c.req.header("Content-Type") || "";
+  if (!contentType.includes("multipart/form-data")) {
+    return c.json({ error: "Photos must be uploaded as multipart form data" }, 400);
+  }
+
+  const formData = await c.req.formData();
+  const imageFiles = formData
+    .getAll("image")
+    .filter((entry): entry is File => typeof entry !== "string" && entry.size > 0);
+
+  if (imageFiles.length === 0) {
+    return c.json({ error: "At least one image is required" }, 400);
+  }
+
+  const processed = await processImageFiles(imageFiles);
+  if ("error" in processed) {
+    return c.json({ error: processed.error }, 400);
+  }
+
+  try {
+    const item = await findOwnedItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const existing = await listItemImages(c.env.DB, itemId);
+    if (existing.length + imageFiles.length > MAX_ITEM_IMAGES) {
+      return c.json({ error: `An item can have at most ${MAX_ITEM_IMAGES} photos` }, 400);
+    }
+
+    const uploaded = await storeItemImages(c, user.userId, itemId, processed.images);
+    await addItemImages(c.env.DB, itemId, uploaded);
+    await recordImageChange(c, item, "added", uploaded.length);
+
+    const images = await listItemImages(c.env.DB, itemId);
+    return c.json({ success: true, ...(await buildGalleryResponse(c, images)) });
+  } catch (error) {
+    console.error("Error uploading item images:", error);
+    return c.json({ error: "Failed to upload item images" }, 500);
+  }
+});
+
+/**
+ * PUT /api/hobbies/:hobbyId/items/:id/images/order
+ * Reorder an item's gallery. Expects every photo ID exactly once.
+ */
+app.put("/api/hobbies/:hobbyId/items/:id/images/order", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+  const { imageIds } = await c.req.json<{ imageIds?: unknown }>();
+
+  if (!Array.isArray(imageIds) || imageIds.some((id) => typeof id !== "string")) {
+    return c.json({ error: "imageIds must be an array of photo IDs" }, 400);
+  }
+
+  try {
+    const item = await findOwnedItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const existing = await listItemImages(c.env.DB, itemId);
+    const existingIds = new Set(existing.map((image) => image.id));
+    if (
+      imageIds.length !== existing.length ||
+      new Set(imageIds).size !== imageIds.length ||
+      !imageIds.every((id) => existingIds.has(id))
+    ) {
+      return c.json({ error: "imageIds must list each of the item's photos exactly once" }, 400);
+    }
+
+    if (imageIds.length > 0) {
+      await c.env.DB.batch(
+        (imageIds as string[]).map((id, position) =>
+          c.env.DB.prepare(
+            "UPDATE item_images SET position = ? WHERE id = ? AND item_id = ?"
+          ).bind(position, id, itemId)
+        )
+      );
+    }
+    await recordImageChange(c, item, "reordered", imageIds.length);
+
+    const images = await listItemImages(c.env.DB, itemId);
+    return c.json({ success: true, ...(await buildGalleryResponse(c, images)) });
+  } catch (error) {
+    console.error("Error reordering item images:", error);
+    return c.json({ error: "Failed to reorder item images" }, 500);
+  }
+});
+
+/**
+ * PUT /api/hobbies/:hobbyId/items/:id/images/:imageId/primary
+ * Make a photo the item's primary image (shown on cards and lists).
+ */
+app.put("/api/hobbies/:hobbyId/items/:id/images/:imageId/primary", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+  const imageId = c.req.param("imageId");
+
+  try {
+    const item = await findOwnedItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const existing = await listItemImages(c.env.DB, itemId);
+    if (!existing.some((image) => image.id === imageId)) {
+      return c.json({ error: "Image not found" }, 404);
+    }
+
+    // Clear the old flag first so the one-primary-per-item index never conflicts
+    await c.env.DB.batch([
+      c.env.DB.prepare("UPDATE item_images SET is_primary = 0 WHERE item_id = ?").bind(itemId),
+      c.env.DB.prepare("UPDATE item_images SET is_primary = 1 WHERE id = ? AND item_id = ?").bind(
+        imageId,
+        itemId
+      ),
+    ]);
+    await syncPrimaryImage(c.env.DB, itemId);
+    await recordImageChange(c, item, "primary_changed", 1);
+
+    const images = await listItemImages(c.env.DB, itemId);
+    return c.json({ success: true, ...(await buildGalleryResponse(c, images)) });
+  } catch (error) {
+    console.error("Error setting primary item image:", error);
+    return c.json({ error: "Failed to set primary image" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/hobbies/:hobbyId/items/:id/images/:imageId
+ * Remove a photo from an item. If it was primary, the next photo in
+ * gallery order takes over.
+ */
+app.delete("/api/hobbies/:hobbyId/items/:id/images/:imageId", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+  const imageId = c.req.param("imageId");
+
+  try {
+    const item = await findOwnedItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const existing = await listItemImages(c.env.DB, itemId);
+    const image = existing.find((candidate) => candidate.id === imageId);
+    if (!image) {
+      return c.json({ error: "Image not found" }, 404);
+    }
+
+    await c.env.DB.prepare("DELETE FROM item_images WHERE id = ? AND item_id = ?")
+      .bind(imageId, itemId)
+      .run();
+    await syncPrimaryImage(c.env.DB, itemId);
+    await deleteImageObjects(c.env.ITEM_IMAGES, [image.image_key]);
+    await recordImageChange(c, item, "removed", 1);
+
+    const images = await listItemImages(c.env.DB, itemId);
+    return c.json({ success: true, ...(await buildGalleryResponse(c, images)) });
+  } catch (error) {
+    console.error("Error deleting item image:", error);
+    return c.json({ error: "Failed to delete item image" }, 500);
+  }
+});
+
+// ============================================================================
+// Valuation Routes
+// ============================================================================
+
+/** Default and maximum number of months covered by the value history report. */
+const VALUATION_HISTORY_DEFAULT_MONTHS = 12;
+const VALUATION_HISTORY_MAX_MONTHS = 60;
+
+/**
+ * GET /api/hobbies/:hobbyId/items/:id/value-history
+ * Get every recorded value of an item, oldest first.
+ */
+app.get("/api/hobbies/:hobbyId/items/:id/value-history", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+
+  try {
+    const item = await c.env.DB.prepare(
+      `SELECT i.id FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE i.id = ? AND i.hobby_id = ? AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
+    )
+      .bind(itemId, hobbyId, user.userId)
+      .first<{ id: string }>();
+
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const history = await c.env.DB.prepare(
+      `SELECT id, item_id, value_cents, currency, recorded_at
+       FROM item_value_history
+       WHERE item_id = ?
+       ORDER BY recorded_at ASC, rowid ASC`
+    )
+      .bind(itemId)
+      .all<ValueHistoryRow>();
+
+    return c.json({
+      history: history.results.map((entry) => ({
+        id: entry.id,
+        value: centsToAmount(entry.value_cents),
+        currency: entry.currency,
+        recorded_at: entry.recorded_at,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching item value history:", error);
+    return c.json({ error: "Failed to fetch value history" }, 500);
+  }
+});
+
+/**
+ * GET /api/reports/valuation
+ * Current value of the owned collection and of each hobby, per currency,
+ * with the valued items of each hobby for the printable summary.
+ */
+app.get("/api/reports/valuation", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const hobbies = await c.env.DB.prepare(
+      "SELECT id, name, category FROM hobbies WHERE user_id = ? AND deleted_at IS NULL ORDER BY name COLLATE NOCASE"
+    )
+      .bind(user.userId)
+      .all<{ id: string; name: string; category: string | null }>();
+
+    // Only items currently in the collection count towards its worth
+    const items = await c.env.DB.prepare(
+      `SELECT i.id, i.hobby_id, i.name, i.category, ${valuationColumns("i")}
+       FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL AND i.status = 'owned'
+       ORDER BY i.name COLLATE NOCASE`
+    )
+      .bind(user.userId)
+      .all<ValuationRow & { id: string; hobby_id: string; name: string; category: string | null }>();
+
+    const itemsByHobby = new Map<string, typeof items.results>();
+    for (const item of items.results) {
+      const list = itemsByHobby.get(item.hobby_id) ?? [];
+      list.push(item);
+      itemsByHobby.set(item.hobby_id, list);
+    }
+
+    const hobbyReports = hobbies.results.map((hobby) => {
+      const hobbyItems = itemsByHobby.get(hobby.id) ?? [];
+      const valued = hobbyItems.filter((item) => effectiveValueCents(valuationFromRow(item)) !== null);
+      return {
+        id: hobby.id,
+        name: hobby.name,
+        category: hobby.category,
+        totals: summarizeValuations(hobbyItems.map(valuationFromRow)),
+        unvalued_items: hobbyItems.length - valued.length,
+        items: valued.map((item) => ({
+          id: item.id,
+          name: item.name,
+          category: item.category,
+          ...valuationPayload(valuationFromRow(item)),
+        })),
+      };
+    });
+
+    return c.json({
+      generated_at: Math.floor(Date.now() / 1000),
+      totals: summarizeValuations(items.results.map(valuationFromRow)),
+      hobbies: hobbyReports,
+    });
+  } catch (error) {
+    console.error("Error building valuation report:", error);
+    return c.json({ error: "Failed to build valuation report" }, 500);
+  }
+});
+
+/**
+ * GET /api/reports/valuation/history?months=12&hobbyId=...
+ * Collection value at the end of each month, per currency, counting the items
+ * that were owned at the time (per item_status_history). Pass hobbyId to
+ * report on a single hobby instead of the whole collection.
+ */
+app.get("/api/reports/valuation/history", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.query("hobbyId") || null;
+
+  let months = parseInt(c.req.query("months") || String(VALUATION_HISTORY_DEFAULT_MONTHS), 10);
+  if (isNaN(months) || months < 1) {
+    months = VALUATION_HISTORY_DEFAULT_MONTHS;
+  }
+  months = Math.min(months, VALUATION_HISTORY_MAX_MONTHS);
+
+  try {
+    if (hobbyId) {
+      const hobby = await c.env.DB.prepare(
+        "SELECT id FROM hobbies WHERE id = ? AND user_id = ? AND deleted_at IS NULL"
+      )
+        .bind(hobbyId, user.userId)
+        .first<{ id: string }>();
+
+      if (!hobby) {
+        return c.json({ error: "Hobby not found" }, 404);
+      }
+    }
+
+    const history = await c.env.DB.prepare(
+      `SELECT v.id, v.item_id, v.value_cents, v.currency, v.recorded_at
+       FROM item_value_history v
+       INNER JOIN items i ON v.item_id = i.id
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL AND (? IS NULL OR h.id = ?)
+       ORDER BY v.recorded_at ASC, v.rowid ASC`
+    )
+      .bind(user.userId, hobbyId, hobbyId)
+      .all<ValueHistoryRow>();
+
+    const statusHistory = await c.env.DB.prepare(
+      `SELECT s.id, s.item_id, s.from_status, s.to_status, s.changed_at
+       FROM item_status_history s
+       INNER JOIN items i ON s.item_id = i.id
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL AND (? IS NULL OR h.id = ?)
+       ORDER BY s.changed_at ASC, s.rowid ASC`
+    )
+      .bind(user.userId, hobbyId, hobbyId)
+      .all<StatusHistoryRow>();
+
+    const points = monthlyReportPoints(months, Math.floor(Date.now() / 1000));
+    const timeline = buildValueTimeline(history.results, points, statusHistory.results);
+
+    return c.json({
+      hobbyId,
+      months,
+      points: timeline.map((point) => ({
+        date: new Date(point.at * 1000).toISOString().slice(0, 10),
+        totals: point.totals,
+      })),
+    });
+  } catch (error) {
+    console.error("Error building valuation history:", error);
+    return c.json({ error: "Failed to build valuation history" }, 500);
+  }
+});
+
+// ============================================================================
+// Item Status Routes
+// ============================================================================
+
+/**
+ * PUT /api/hobbies/:hobbyId/items/:id/status
+ * Change an item's ownership status (e.g. mark a wishlist item as owned).
+ */
+app.put("/api/hobbies/:hobbyId/items/:id/status", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+
+  const body = await c.req.json<{ status?: string }>().catch(() => null);
+  if (!body || body.status === undefined || body.status === null || body.status === "") {
+    return c.json({ error: "Status is required" }, 400);
+  }
+
+  const parsed = parseItemStatus(body.status);
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  try {
+    const item = await c.env.DB.prepare(
+      `SELECT i.id, i.name, i.status, h.name as hobby_name FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE i.id = ? AND i.hobby_id = ? AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
+    )
+      .bind(itemId, hobbyId, user.userId)
+      .first<{ id: string; name: string; status: ItemStatus; hobby_name: string }>();
+
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const historyStatement = statusChangeStatement(c.env.DB, itemId, item.status, parsed.status);
+    if (historyStatement) {
+      await c.env.DB.batch([
+        c.env.DB.prepare("UPDATE items SET status = ? WHERE id = ?").bind(parsed.status, itemId),
+        historyStatement,
+      ]);
+      await recordActivity(c.env.DB, user.userId, {
+        type: "item_status_changed",
+        hobby: { id: hobbyId, name: item.hobby_name },
+        item: { id: itemId, name: item.name },
+        details: { from: item.status, to: parsed.status },
+      });
+    }
+
+    return c.json({
+      success: true,
+      item: { id: itemId, status: parsed.status, previous_status: item.status },
+    });
+  } catch (error) {
+    console.error("Error updating item status:", error);
+    return c.json({ error: "Failed to update item status" }, 500);
+  }
+});
+
+/**
+ * GET /api/hobbies/:hobbyId/items/:id/status-history
+ * Get every status change of an item, oldest first. The first entry has a
+ * null from_status and records the status the item was created with.
+ */
+app.get("/api/hobbies/:hobbyId/items/:id/status-history", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+
+  try {
+    const item = await c.env.DB.prepare(
+      `SELECT i.id FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE i.id = ? AND i.hobby_id = ? AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
+    )
+      .bind(itemId, hobbyId, user.userId)
+      .first<{ id: string }>();
+
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const history = await c.env.DB.prepare(
+      `SELECT id, item_id, from_status, to_status, changed_at
+       FROM item_status_history
+       WHERE item_id = ?
+       ORDER BY changed_at ASC, rowid ASC`
+    )
+      .bind(itemId)
+      .all<StatusHistoryRow>();
+
+    return c.json({
+      history: history.results.map((entry) => ({
+        id: entry.id,
+        from_status: entry.from_status,
+        to_status: entry.to_status,
+        changed_at: entry.changed_at,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching item status history:", error);
+    return c.json({ error: "Failed to fetch status history" }, 500);
+  }
+});
+
+/**
+ * GET /api/wishlist
+ * Get wishlist and ordered items across all of the user's hobbies, newest
+ * first, with the name of the hobby each belongs to.
+ */
+app.get("/api/wishlist", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const items = await c.env.DB.prepare(
+      `SELECT i.id, i.hobby_id, h.name as hobby_name, i.name, i.description, i.category, i.tags,
+              i.image_url, i.status, ${valuationColumns("i")}, i.created_at
+       FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL AND i.status IN ('wishlist', 'ordered')
+       ORDER BY i.created_at DESC`
+    )
+      .bind(user.userId)
+      .all<ItemRow & ValuationRow & { hobby_id: string; hobby_name: string; status: ItemStatus }>();
+
+    const wishlist = items.results.map((item) => ({
+      id: item.id,
+      hobby_id: item.hobby_id,
+      hobby_name: item.hobby_name,
+      name: item.name,
+      description: item.description,
+      category: item.category,
+      tags: item.tags ? JSON.parse(item.tags) : [],
+      image_url: item.image_url,
+      status: item.status,
+      created_at: item.created_at,
+      ...valuationPayload(valuationFromRow(item)),
+    }));
+
+    return c.json({ items: await withSignedImageUrls(c, wishlist) });
+  } catch (error) {
+    console.error("Error fetching wishlist:", error);
+    return c.json({ error: "Failed to fetch wishlist" }, 500);
+  }
+});
+
+// ============================================================================
+// Set Routes
+// ============================================================================
+
+/**
+ * Find a set in one of the user's hobbies, or null if it doesn't exist or
+ * belongs to someone else.
+ */
+async function findUserSet(
+  c: AppContext,
+  hobbyId: string,
+  setId: string
+): Promise<(ItemSetRow & { hobby_name: string }) | null> {
+  return c.env.DB.prepare(
+    `SELECT s.id, s.hobby_id, s.name, s.description, s.created_at, s.updated_at, h.name as hobby_name
+     FROM item_sets s
+     INNER JOIN hobbies h ON s.hobby_id = h.id
+     WHERE s.id = ? AND s.hobby_id = ? AND h.user_id = ? AND h.deleted_at IS NULL`
+  )
+    .bind(setId, hobbyId, c.get("user").userId)
+    .first<ItemSetRow & { hobby_name: string }>();
+}
+
+/**
+ * Log a change to a set. The set's name is kept in the event details.
+ */
+async function recordSetChange(
+  c: AppContext,
+  type: "set_created" | "set_updated" | "set_deleted",
+  set: ItemSetRow & { hobby_name: string },
+  details: Record<string, unknown> = {}
+) {
+  await recordActivity(c.env.DB, c.get("user").userId, {
+    type,
+    hobby: { id: set.hobby_id, name: set.hobby_name },
+    details: { set: { id: set.id, name: set.name }, ...details },
+  });
+}
+
+/**
+ * GET /api/sets
+ * Completion summary of every set across the user's hobbies.
+ */
+app.get("/api/sets", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const sets = await c.env.DB.prepare(
+      `SELECT s.id, s.hobby_id, s.name, s.description, s.created_at, s.updated_at
+       FROM item_sets s
+       INNER JOIN hobbies h ON s.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL
+       ORDER BY s.name COLLATE NOCASE`
+    )
+      .bind(user.userId)
+      .all<ItemSetRow>();
+
+    const slots = await listSetSlots(c.env.DB, sets.results.map((set) => set.id));
+
+    return c.json({
+      sets: sets.results.map((set) => setPayload(set, slots.get(set.id) ?? [])),
+    });
+  } catch (error) {
+    console.error("Error fetching sets:", error);
+    return c.json({ error: "Failed to fetch sets" }, 500);
+  }
+});
+
+/**
+ * GET /api/hobbies/:hobbyId/sets
+ * Get a hobby's sets with their slots, completion and missing members.
+ */
+app.get("/api/hobbies/:hobbyId/sets", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+
+  try {
+    const hobby = await c.env.DB.prepare(
+      "SELECT id FROM hobbies WHERE id = ? AND user_id = ? AND deleted_at IS NULL"
+    )
+      .bind(hobbyId, user.userId)
+      .first<{ id: string }>();
+
+    if (!hobby) {
+      return c.json({ error: "Hobby not found" }, 404);
+    }
+
+    const sets = await c.env.DB.prepare(
+      `SELECT id, hobby_id, name, description, created_at, updated_at
+       FROM item_sets WHERE hobby_id = ? ORDER BY name COLLATE NOCASE`
+    )
+      .bind(hobbyId)
+      .all<ItemSetRow>();
+
+    const slots = await listSetSlots(c.env.DB, sets.results.map((set) => set.id));
+
+    return c.json({
+      sets: sets.results.map((set) => setPayload(set, slots.get(set.id) ?? [], { includeSlots: true })),
+    });
+  } catch (error) {
+    console.error("Error fetching hobby sets:", error);
+    return c.json({ error: "Failed to fetch sets" }, 500);
+  }
+});
+
+/**
+ * POST /api/hobbies/:hobbyId/sets/suggest-checklist
+ * Ask AI to propose a checklist for a set name. Nothing is saved.
+ */
+app.post("/api/hobbies/:hobbyId/sets/suggest-checklist", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+  const body = await c.req.json<{ name?: string }>().catch(() => null);
+
+  const name = body?.name?.trim();
+  if (!name) {
+    return c.json({ error: "Set name is required" }, 400);
+  }
+
+  try {
+    const hobby = await c.env.DB.prepare(
+      "SELECT id, name, category FROM hobbies WHERE id = ? AND user_id = ? AND deleted_at IS NULL"
+    )
+      .bind(hobbyId, user.userId)
+      .first<{ id: string; name: string; category: string | null }>();
+
+    if (!hobby) {
+      return c.json({ error: "Hobby not found" }, 404);
+    }
+
+    const checklist = await suggestSetChecklist(name, hobby, c.env.AI);
+    return c.json({ checklist });
+  } catch (error) {
+    console.error("Error suggesting set checklist:", error);
+    return c.json({ error: "Failed to suggest checklist" }, 500);
+  }
+});
+
+/**
+ * POST /api/hobbies/:hobbyId/sets
+ * Create a set with an optional checklist of member names.
+ */
+app.post("/api/hobbies/:hobbyId/sets", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+  const body = await c.req.json<{
+    name?: string;
+    description?: string | null;
+    checklist?: unknown;
+  }>().catch(() => null);
+
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!body || !name) {
+    return c.json({ error: "Set name is required" }, 400);
+  }
+  if (body.description != null && typeof body.description !== "string") {
+    return c.json({ error: "Set description must be text" }, 400);
+  }
+
+  const normalized = normalizeChecklist(body.checklist ?? []);
+  if ("error" in normalized) {
+    return c.json({ error: normalized.error }, 400);
+  }
+
+  try {
+    const hobby = await c.env.DB.prepare(
+      "SELECT id FROM hobbies WHERE id = ? AND user_id = ? AND deleted_at IS NULL"
+    )
+      .bind(hobbyId, user.userId)
+      .first<{ id: string }>();
+
+    if (!hobby) {
+      return c.json({ error: "Hobby not found" }, 404);
+    }
+
+    const setId = crypto.randomUUID();
+    await c.env.DB.prepare(
+      "INSERT INTO item_sets (id, hobby_id, name, description) VALUES (?, ?, ?, ?)"
+    )
+      .bind(setId, hobbyId, name, body.description?.trim() || null)
+      .run();
+    await replaceSetChecklist(c.env.DB, setId, normalized.checklist);
+
+    const set = await findUserSet(c, hobbyId, setId);
+    const slots = await listSetSlots(c.env.DB, [setId]);
+    await recordSetChange(c, "set_created", set!, { member_count: normalized.checklist.length });
+
+    return c.json({ success: true, set: setPayload(set!, slots.get(setId) ?? [], { includeSlots: true }) });
+  } catch (error) {
+    console.error("Error creating set:", error);
+    return c.json({ error: "Failed to create set" }, 500);
+  }
+});
+
+/**
+ * GET /api/hobbies/:hobbyId/sets/:setId
+ * Get a set with its slots, completion and missing members.
+ */
+app.get("/api/hobbies/:hobbyId/sets/:setId", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const setId = c.req.param("setId");
+
+  try {
+    const set = await findUserSet(c, hobbyId, setId);
+    if (!set) {
+      return c.json({ error: "Set not found" }, 404);
+    }
+
+    const slots = await listSetSlots(c.env.DB, [setId]);
+    return c.json({ set: setPayload(set, slots.get(setId) ?? [], { includeSlots: true }) });
+  } catch (error) {
+    console.error("Error fetching set:", error);
+    return c.json({ error: "Failed to fetch set" }, 500);
+  }
+});
+
+/**
+ * PUT /api/hobbies/:hobbyId/sets/:setId
+ * Update a set's name, description or checklist. Members kept in the new
+ * checklist keep their linked items.
+ */
+app.put("/api/hobbies/:hobbyId/sets/:setId", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const setId = c.req.param("setId");
+  const body = await c.req.json<{
+    name?: string;
+    description?: string | null;
+    checklist?: unknown;
+  }>().catch(() => null);
+
+  if (!body) {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
+  if (body.name !== undefined && (typeof body.name !== "string" || !body.name.trim())) {
+    return c.json({ error: "Set name cannot be empty" }, 400);
+  }
+  if (body.description != null && typeof body.description !== "string") {
+    return c.json({ error: "Set description must be text" }, 400);
+  }
+
+  const normalized = body.checklist === undefined ? null : normalizeChecklist(body.checklist);
+  if (normalized && "error" in normalized) {
+    return c.json({ error: normalized.error }, 400);
+  }
+
+  try {
+    const set = await findUserSet(c, hobbyId, setId);
+    if (!set) {
+      return c.json({ error: "Set not found" }, 404);
+    }
+
+    await c.env.DB.prepare(
+      "UPDATE item_sets SET name = ?, description = ?, updated_at = unixepoch() WHERE id = ?"
+    )
+      .bind(
+        body.name !== undefined ? body.name.trim() : set.name,
+        body.description !== undefined ? body.description?.trim() || null : set.description,
+        setId
+      )
+      .run();
+
+    if (normalized) {
+      await replaceSetChecklist(c.env.DB, setId, normalized.checklist);
+    }
+
+    const updated = await findUserSet(c, hobbyId, setId);
+    const slots = await listSetSlots(c.env.DB, [setId]);
+    await recordSetChange(c, "set_updated", updated!, {
+      changes: [
+        body.name !== undefined && body.name.trim() !== set.name && "name",
+        body.description !== undefined && (body.description?.trim() || null) !== set.description && "description",
+        normalized && "checklist",
+      ].filter((field): field is string => typeof field === "string"),
+    });
+    return c.json({ success: true, set: setPayload(updated!, slots.get(setId) ?? [], { includeSlots: true }) });
+  } catch (error) {
+    console.error("Error updating set:", error);
+    return c.json({ error: "Failed to update set" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/hobbies/:hobbyId/sets/:setId
+ * Delete a set and its checklist. Linked items are not affected.
+ */
+app.delete("/api/hobbies/:hobbyId/sets/:setId", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const setId = c.req.param("setId");
+
+  try {
+    const set = await findUserSet(c, hobbyId, setId);
+    if (!set) {
+      return c.json({ error: "Set not found" }, 404);
+    }
+
+    await c.env.DB.batch([
+      c.env.DB.prepare("DELETE FROM item_set_slots WHERE set_id = ?").bind(setId),
+      c.env.DB.prepare("DELETE FROM item_sets WHERE id = ?").bind(setId),
+    ]);
+    await recordSetChange(c, "set_deleted", set);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting set:", error);
+    return c.json({ error: "Failed to delete set" }, 500);
+  }
+});
+
+/**
+ * PUT /api/hobbies/:hobbyId/sets/:setId/slots/:slotId
+ * Link one of the hobby's items to a slot, or pass itemId: null to empty it.
+ */
+app.put("/api/hobbies/:hobbyId/sets/:setId/slots/:slotId", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const setId = c.req.param("setId");
+  const slotId = c.req.param("slotId");
+  const body = await c.req.json<{ itemId?: string | null }>().catch(() => null);
+
+  if (!body || body.itemId === undefined) {
+    return c.json({ error: "itemId is required (use null to empty the slot)" }, 400);
+  }
+
+  try {
+    const set = await findUserSet(c, hobbyId, setId);
+    if (!set) {
+      return c.json({ error: "Set not found" }, 404);
+    }
+
+    const slot = await c.env.DB.prepare(
+      "SELECT id FROM item_set_slots WHERE id = ? AND set_id = ?"
+    )
+      .bind(slotId, setId)
+      .first<{ id: string }>();
+
+    if (!slot) {
+      return c.json({ error: "Slot not found" }, 404);
+    }
+
+    if (body.itemId !== null) {
+      const item = await c.env.DB.prepare(
+        "SELECT id FROM items WHERE id = ? AND hobby_id = ? AND deleted_at IS NULL"
+      )
+        .bind(body.itemId, hobbyId)
+        .first<{ id: string }>();
+
+      if (!item) {
+        return c.json({ error: "Item not found in this hobby" }, 404);
+      }
+
+      const taken = await c.env.DB.prepare(
+        "SELECT id FROM item_set_slots WHERE set_id = ? AND item_id = ? AND id != ?"
+      )
+        .bind(setId, body.itemId, slotId)
+        .first<{ id: string }>();
+
+      if (taken) {
+        return c.json({ error: "Item already fills another slot in this set" }, 409);
+      }
+    }
+
+    await c.env.DB.prepare(
+      "UPDATE item_set_slots SET item_id = ? WHERE id = ?"
+    )
+      .bind(body.itemId, slotId)
+      .run();
+    await recordSetChange(c, "set_updated", set, { changes: ["slot"] });
+
+    const slots = await listSetSlots(c.env.DB, [setId]);
+    return c.json({ success: true, set: setPayload(set, slots.get(setId) ?? [], { includeSlots: true }) });
+  } catch (error) {
+    console.error("Error updating set slot:", error);
+    return c.json({ error: "Failed to update set slot" }, 500);
+  }
+});
+
+// ============================================================================
+// Storage Location Routes
+// ============================================================================
+
+/** Maximum number of results from the "where is it?" search. */
+const WHERE_IS_LIMIT = 50;
+
+function locationResponse(locations: LocationRow[], location: LocationRow, itemCount: number) {
+  return {
+    id: location.id,
+    parent_id: location.parent_id,
+    name: location.name,
+    kind: location.kind,
+    notes: location.notes,
+    path: locationPath(locations, location.id),
+    item_count: itemCount,
+    created_at: location.created_at,
+  };
+}
+
+/**
+ * GET /api/locations
+ * Get all of the user's storage locations with their paths and the number
+ * of items kept directly in each.
+ */
+app.get("/api/locations", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const locations = await listUserLocations(c.env.DB, user.userId);
+    const counts = await c.env.DB.prepare(
+      `SELECT i.location_id, COUNT(*) as count
+       FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL AND i.location_id IS NOT NULL
+       GROUP BY i.location_id`
+    )
+      .bind(user.userId)
+      .all<{ location_id: string; count: number }>();
+    const countById = new Map(counts.results.map((row) => [row.location_id, row.count]));
+
+    return c.json({
+      locations: locations.map((location) =>
+        locationResponse(locations, location, countById.get(location.id) ?? 0)
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching locations:", error);
+    return c.json({ error: "Failed to fetch locations" }, 500);
+  }
+});
+
+/**
+ * POST /api/locations
+ * Create a location, optionally inside another one (parentId).
+ */
+app.post("/api/locations", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+  if (!body) {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
+
+  const parsed = parseLocationInput(body);
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+  const values = parsed.values;
+
+  try {
+    const locations = await listUserLocations(c.env.DB, user.userId);
+    const parentError = validateLocationParent(locations, null, values.parentId ?? null);
+    if (parentError) {
+      return c.json({ error: parentError }, 400);
+    }
+
+    const location: LocationRow = {
+      id: crypto.randomUUID(),
+      user_id: user.userId,
+      parent_id: values.parentId ?? null,
+      name: values.name!,
+      kind: values.kind!,
+      notes: values.notes ?? null,
+      created_at: Math.floor(Date.now() / 1000),
+    };
+    await c.env.DB.prepare(
+      `INSERT INTO storage_locations (id, user_id, parent_id, name, kind, notes, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        location.id,
+        location.user_id,
+        location.parent_id,
+        location.name,
+        location.kind,
+        location.notes,
+        location.created_at
+      )
+      .run();
+
+    const created = locationResponse([...locations, location], location, 0);
+    await recordActivity(c.env.DB, user.userId, {
+      type: "location_created",
+      details: { location: { id: created.id, name: created.name, path: created.path } },
+    });
+
+    return c.json({ success: true, location: created });
+  } catch (error) {
+    console.error("Error creating location:", error);
+    return c.json({ error: "Failed to create location" }, 500);
+  }
+});
+
+/**
+ * GET /api/locations/where-is?q=...
+ * "Where is it?" search: find items by name, description or tag and report
+ * where each one is kept.
+ */
+app.get("/api/locations/where-is", async (c) => {
+  const user = c.get("user");
+  const query = (c.req.query("q") || "").trim();
+
+  if (!query) {
+    return c.json({ error: "Search query is required" }, 400);
+  }
+
+  try {
+    const searchTerm = `%${query}%`;
+    const items = await c.env.DB.prepare(
+      `SELECT i.id, i.hobby_id, h.name as hobby_name, i.name, i.description, i.category, i.tags,
+              i.image_url, i.status, i.location_id, i.created_at
+       FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL AND (i.name LIKE ? OR i.description LIKE ? OR i.tags LIKE ?)
+       ORDER BY i.location_id IS NULL, i.name COLLATE NOCASE
+       LIMIT ?`
+    )
+      .bind(user.userId, searchTerm, searchTerm, searchTerm, WHERE_IS_LIMIT)
+      .all<ItemRow & { hobby_id: string; hobby_name: string; status: ItemStatus; location_id: string | null }>();
+
+    const locations = await listUserLocations(c.env.DB, user.userId);
+    const results = items.results.map((item) => ({
+      id: item.id,
+      hobby_id: item.hobby_id,
+      hobby_name: item.hobby_name,
+      name: item.name,
+      description: item.description,
+      category: item.category,
+      tags: item.tags ? JSON.parse(item.tags) : [],
+      image_url: item.image_url,
+      status: item.status,
+      location: itemLocationPayload(locations, item.location_id),
+      created_at: item.created_at,
+    }));
+
+    return c.json({ items: await withSignedImageUrls(c, results) });
+  } catch (error) {
+    console.error("Error searching item whereabouts:", error);
+    return c.json({ error: "Failed to search item locations" }, 500);
+  }
+});
+
+/**
+ * GET /api/locations/:id?recursive=true
+ * Get a location with its sub-locations and the items kept in it. With
+ * recursive=true, items in nested containers are included too.
+ */
+app.get("/api/locations/:id", async (c) => {
+  const user = c.get("user");
+  const locationId = c.req.param("id");
+  const recursive = c.req.query("recursive") === "true";
+
+  try {
+    const locations = await listUserLocations(c.env.DB, user.userId);
+    const location = locations.find((entry) => entry.id === locationId);
+    if (!location) {
+      return c.json({ error: "Location not found" }, 404);
+    }
+
+    const containerIds = recursive ? [locationId, ...descendantLocationIds(locations, locationId)] : [locationId];
+    const items = await c.env.DB.prepare(
+      `SELECT i.id, i.hobby_id, h.name as hobby_name, i.name, i.description, i.category, i.tags,
+              i.image_url, i.status, i.location_id, i.created_at
+       FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL AND ${inIdList("i.location_id")}
+       ORDER BY i.name COLLATE NOCASE`
+    )
+      .bind(user.userId, JSON.stringify(containerIds))
+      .all<ItemRow & { hobby_id: string; hobby_name: string; status: ItemStatus; location_id: string | null }>();
+
+    const contents = items.results.map((item) => ({
+      id: item.id,
+      hobby_id: item.hobby_id,
+      hobby_name: item.hobby_name,
+      name: item.name,
+      description: item.description,
+      category: item.category,
+      tags: item.tags ? JSON.parse(item.tags) : [],
+      image_url: item.image_url,
+      status: item.status,
+      location: itemLocationPayload(locations, item.location_id),
+      created_at: item.created_at,
+    }));
+
+    const directCount = contents.filter((item) => item.location?.id === locationId).length;
+    const children = locations.filter((entry) => entry.parent_id === locationId);
+
+    return c.json({
+      location: locationResponse(locations, location, directCount),
+      children: children.map((child) => locationResponse(locations, child, 0)),
+      items: await withSignedImageUrls(c, contents),
+    });
+  } catch (error) {
+    console.error("Error fetching location:", error);
+    return c.json({ error: "Failed to fetch location" }, 500);
+  }
+});
+
+/**
+ * PUT /api/locations/:id
+ * Rename, re-kind or move a location. Only the fields sent are changed.
+ */
+app.put("/api/locations/:id", async (c) => {
+  const user = c.get("user");
+  const locationId = c.req.param("id");
+  const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+  if (!body) {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
+
+  const parsed = parseLocationInput(body, { partial: true });
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+  const values = parsed.values;
+
+  try {
+    const locations = await listUserLocations(c.env.DB, user.userId);
+    const location = locations.find((entry) => entry.id === locationId);
+    if (!location) {
+      return c.json({ error: "Location not found" }, 404);
+    }
+
+    if (values.parentId !== undefined) {
+      const parentError = validateLocationParent(locations, locationId, values.parentId);
+      if (parentError) {
+        return c.json({ error: parentError }, 400);
+      }
+    }
+
+    const updated: LocationRow = {
+      ...location,
+      name: values.name ?? location.name,
+      kind: values.kind ?? location.kind,
+      parent_id: values.parentId !== undefined ? values.parentId : location.parent_id,
+      notes: values.notes !== undefined ? values.notes : location.notes,
+    };
+    await c.env.DB.prepare(
+      "UPDATE storage_locations SET name = ?, kind = ?, parent_id = ?, notes = ? WHERE id = ? AND user_id = ?"
+    )
+      .bind(updated.name, updated.kind, updated.parent_id, updated.notes, locationId, user.userId)
+      .run();
+
+    const itemCount = await c.env.DB.prepare(
+      "SELECT COUNT(*) as count FROM items WHERE location_id = ? AND deleted_at IS NULL"
+    )
+      .bind(locationId)
+      .first<{ count: number }>();
+
+    const updatedLocations = locations.map((entry) => (entry.id === locationId ? updated : entry));
+    const response = locationResponse(updatedLocations, updated, itemCount?.count ?? 0);
+    await recordActivity(c.env.DB, user.userId, {
+      type: "location_updated",
+      details: {
+        location: { id: response.id, name: response.name, path: response.path },
+        previous_path: locationPath(locations, locationId),
+      },
+    });
+
+    return c.json({ success: true, location: response });
+  } catch (error) {
+    console.error("Error updating location:", error);
+    return c.json({ error: "Failed to update location" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/locations/:id
+ * Delete a location. Its sub-locations and items move up to its parent
+ * (or become unplaced at the top level), so nothing is lost.
+ */
+app.delete("/api/locations/:id", async (c) => {
+  const user = c.get("user");
+  const locationId = c.req.param("id");
+
+  try {
+    const location = await c.env.DB.prepare(
+      "SELECT id, parent_id, name FROM storage_locations WHERE id = ? AND user_id = ?"
+    )
+      .bind(locationId, user.userId)
+      .first<{ id: string; parent_id: string | null; name: string }>();
+
+    if (!location) {
+      return c.json({ error: "Location not found" }, 404);
+    }
+
+    await c.env.DB.batch([
+      c.env.DB.prepare("UPDATE storage_locations SET parent_id = ? WHERE parent_id = ? AND user_id = ?").bind(
+        location.parent_id,
+        locationId,
+        user.userId
+      ),
+      c.env.DB.prepare("UPDATE items SET location_id = ? WHERE location_id = ?").bind(location.parent_id, locationId),
+      c.env.DB.prepare("DELETE FROM storage_locations WHERE id = ? AND user_id = ?").bind(locationId, user.userId),
+    ]);
+    await recordActivity(c.env.DB, user.userId, {
+      type: "location_deleted",
+      details: { location: { id: locationId, name: location.name } },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting location:", error);
+    return c.json({ error: "Failed to delete location" }, 500);
+  }
+});
+
+/**
+ * PUT /api/hobbies/:hobbyId/items/:id/location
+ * Put an item somewhere, or pass locationId: null to clear its location.
+ */
+app.put("/api/hobbies/:hobbyId/items/:id/location", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+  const body = await c.req.json<{ locationId?: string | null }>().catch(() => null);
+
+  if (!body || body.locationId === undefined) {
+    return c.json({ error: "locationId is required (use null to clear it)" }, 400);
+  }
+
+  const resolved = await resolveItemLocation(c.env.DB, user.userId, body.locationId);
+  if ("error" in resolved) {
+    return c.json({ error: resolved.error }, 400);
+  }
+
+  try {
+    const item = await c.env.DB.prepare(
+      `SELECT i.id, i.name, i.location_id, h.name as hobby_name FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE i.id = ? AND i.hobby_id = ? AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
+    )
+      .bind(itemId, hobbyId, user.userId)
+      .first<{ id: string; name: string; location_id: string | null; hobby_name: string }>();
+
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const location = resolved.location ?? null;
+    await c.env.DB.prepare("UPDATE items SET location_id = ? WHERE id = ?")
+      .bind(location?.id ?? null, itemId)
+      .run();
+
+    if ((location?.id ?? null) !== item.location_id) {
+      const previous = itemLocationPayload(await listUserLocations(c.env.DB, user.userId), item.location_id);
+      await recordActivity(c.env.DB, user.userId, {
+        type: "item_location_changed",
+        hobby: { id: hobbyId, name: item.hobby_name },
+        item: { id: itemId, name: item.name },
+        details: { from: previous?.path ?? null, to: location?.path ?? null },
+      });
+    }
+
+    return c.json({ success: true, item: { id: itemId, location } });
+  } catch (error) {
+    console.error("Error updating item location:", error);
+    return c.json({ error: "Failed to update item location" }, 500);
+  }
+});
+
+// ============================================================================
+// Loan Routes
+// ============================================================================
+
+const LOAN_COLUMNS =
+  "l.id, l.item_id, l.borrower_name, l.borrower_contact, l.lent_date, l.due_date, l.returned_date, l.notes, l.created_at, l.closed_at";
+
+/** Look up an item owned by the current user, with its status and hobby name. */
+async function findUserItem(
+  c: AppContext,
+  hobbyId: string,
+  itemId: string
+): Promise<{ id: string; name: string; status: ItemStatus; hobby_name: string } | null> {
+  return c.env.DB.prepare(
+    `SELECT i.id, i.name, i.status, h.name as hobby_name FROM items i
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE i.id = ? AND i.hobby_id = ? AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
+  )
+    .bind(itemId, hobbyId, c.get("user").userId)
+    .first<{ id: string; name: string; status: ItemStatus; hobby_name: string }>();
+}
+
+/**
+ * GET /api/loans?overdue=true
+ * Get every item currently out on loan across the user's hobbies, soonest
+ * due first. With overdue=true, only loans past their due date are returned.
+ */
+app.get("/api/loans", async (c) => {
+  const user = c.get("user");
+  const overdueOnly = c.req.query("overdue") === "true";
+  const today = todayDate();
+
+  try {
+    const loans = await c.env.DB.prepare(
+      `SELECT ${LOAN_COLUMNS}, i.name as item_name, i.image_url, i.hobby_id, h.name as hobby_name
+       FROM item_loans l
+       INNER JOIN items i ON l.item_id = i.id
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL AND l.returned_date IS NULL${overdueOnly ? " AND l.due_date < ?" : ""}
+       ORDER BY l.due_date IS NULL, l.due_date ASC, l.lent_date ASC`
+    )
+      .bind(user.userId, ...(overdueOnly ? [today] : []))
+      .all<LoanRow & { item_name: string; image_url: string | null; hobby_id: string; hobby_name: string }>();
+
+    const results = (await withSignedImageUrls(c, loans.results)).map((loan) => ({
+      ...loanPayload(loan, today),
+      item: { id: loan.item_id, name: loan.item_name, image_url: loan.image_url },
+      hobby: { id: loan.hobby_id, name: loan.hobby_name },
+    }));
+
+    return c.json({ loans: results });
+  } catch (error) {
+    console.error("Error fetching loans:", error);
+    return c.json({ error: "Failed to fetch loans" }, 500);
+  }
+});
+
+/**
+ * GET /api/hobbies/:hobbyId/items/:id/loans
+ * Get every loan of an item, most recent first.
+ */
+app.get("/api/hobbies/:hobbyId/items/:id/loans", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+
+  try {
+    const item = await findUserItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const loans = await c.env.DB.prepare(
+      `SELECT ${LOAN_COLUMNS} FROM item_loans l WHERE l.item_id = ? ORDER BY l.lent_date DESC, l.created_at DESC`
+    )
+      .bind(itemId)
+      .all<LoanRow>();
+
+    const today = todayDate();
+    return c.json({ loans: loans.results.map((loan) => loanPayload(loan, today)) });
+  } catch (error) {
+    console.error("Error fetching item loans:", error);
+    return c.json({ error: "Failed to fetch loans" }, 500);
+  }
+});
+
+/**
+ * POST /api/hobbies/:hobbyId/items/:id/loans
+ * Lend an item to someone. An item can only be on one loan at a time.
+ */
+app.post("/api/hobbies/:hobbyId/items/:id/loans", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+  const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+  if (!body) {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
+
+  const parsed = parseLoanInput(body);
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+  const values = parsed.values;
+
+  try {
+    const item = await findUserItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+    if (item.status !== "owned") {
+      return c.json({ error: "Only items you own can be lent" }, 400);
+    }
+
+    const openLoan = await c.env.DB.prepare(
+      "SELECT id FROM item_loans WHERE item_id = ? AND returned_date IS NULL"
+    )
+      .bind(itemId)
+      .first<{ id: string }>();
+    if (openLoan) {
+      return c.json({ error: "This item is already on loan" }, 409);
+    }
+
+    const loan: LoanRow = {
+      id: crypto.randomUUID(),
+      item_id: itemId,
+      borrower_name: values.borrowerName,
+      borrower_contact: values.borrowerContact,
+      lent_date: values.lentDate,
+      due_date: values.dueDate,
+      returned_date: null,
+      notes: values.notes,
+      created_at: Math.floor(Date.now() / 1000),
+      closed_at: null,
+    };
+    await c.env.DB.prepare(
+      `INSERT INTO item_loans (id, item_id, borrower_name, borrower_contact, lent_date, due_date, notes, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        loan.id,
+        loan.item_id,
+        loan.borrower_name,
+        loan.borrower_contact,
+        loan.lent_date,
+        loan.due_date,
+        loan.notes,
+        loan.created_at
+      )
+      .run();
+    await recordActivity(c.env.DB, c.get("user").userId, {
+      type: "item_lent",
+      hobby: { id: hobbyId, name: item.hobby_name },
+      item: { id: itemId, name: item.name },
+      details: loanActivityDetails(loan),
+    });
+
+    return c.json({ success: true, loan: loanPayload(loan) });
+  } catch (error) {
+    console.error("Error creating loan:", error);
+    return c.json({ error: "Failed to create loan" }, 500);
+  }
+});
+
+/**
+ * PUT /api/hobbies/:hobbyId/items/:id/loans/:loanId/return
+ * Close a loan. The returned date defaults to today.
+ */
+app.put("/api/hobbies/:hobbyId/items/:id/loans/:loanId/return", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+  const loanId = c.req.param("loanId");
+  // The body is optional; without one the loan is returned today
+  const body = (await c.req.json<{ returnedDate?: string | null }>().catch(() => null)) ?? {};
+
+  try {
+    const item = await findUserItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const loan = await c.env.DB.prepare(`SELECT ${LOAN_COLUMNS} FROM item_loans l WHERE l.id = ? AND l.item_id = ?`)
+      .bind(loanId, itemId)
+      .first<LoanRow>();
+    if (!loan) {
+      return c.json({ error: "Loan not found" }, 404);
+    }
+    if (loan.returned_date) {
+      return c.json({ error: "This loan has already been returned" }, 409);
+    }
+
+    const returned = parseReturnedDate(body.returnedDate, loan);
+    if ("error" in returned) {
+      return c.json({ error: returned.error }, 400);
+    }
+
+    const closedAt = Math.floor(Date.now() / 1000);
+    await c.env.DB.prepare("UPDATE item_loans SET returned_date = ?, closed_at = ? WHERE id = ?")
+      .bind(returned.date, closedAt, loanId)
+      .run();
+    await recordActivity(c.env.DB, c.get("user").userId, {
+      type: "item_returned",
+      hobby: { id: hobbyId, name: item.hobby_name },
+      item: { id: itemId, name: item.name },
+      details: loanActivityDetails({ ...loan, returned_date: returned.date }),
+    });
+
+    return c.json({
+      success: true,
+      loan: loanPayload({ ...loan, returned_date: returned.date, closed_at: closedAt }),
+    });
+  } catch (error) {
+    console.error("Error returning loan:", error);
+    return c.json({ error: "Failed to return loan" }, 500);
+  }
+});
+
+// ============================================================================
+// Revision Routes
+// ============================================================================
+
+/** Look up an item owned by the current user, with its revisioned fields. */
+async function findRevisionedItem(
+  c: AppContext,
+  hobbyId: string,
+  itemId: string
+): Promise<(ItemRevisionRow & { id: string; hobby_name: string }) | null> {
+  return c.env.DB.prepare(
+    `SELECT i.id, ${ITEM_REVISION_COLUMNS.map((column) => `i.${column}`).join(", ")}, h.name as hobby_name
+     FROM items i
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE i.id = ? AND i.hobby_id = ? AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
+  )
+    .bind(itemId, hobbyId, c.get("user").userId)
+    .first<ItemRevisionRow & { id: string; hobby_name: string }>();
+}
+
+/**
+ * GET /api/hobbies/:hobbyId/items/:id/revisions
+ * Get an item's earlier versions, newest first. Each revision lists the
+ * fields the following edit changed, with their old and new values.
+ */
+app.get("/api/hobbies/:hobbyId/items/:id/revisions", async (c) => {
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+
+  try {
+    const item = await findRevisionedItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const rows = await listRevisions(c.env.DB, "item", itemId);
+    const locations = await listUserLocations(c.env.DB, c.get("user").userId);
+    return c.json({
+      revisions: revisionPayloads(rows, itemSnapshot(item), (snapshot) => itemSnapshotPayload(snapshot, locations)),
+    });
+  } catch (error) {
+    console.error("Error fetching item revisions:", error);
+    return c.json({ error: "Failed to fetch item revisions" }, 500);
+  }
+});
+
+/**
+ * POST /api/hobbies/:hobbyId/items/:id/revisions/:revisionId/revert
+ * Restore an earlier version of an item. The version being replaced is kept
+ * as a new revision, and the item is re-embedded for search.
+ */
+app.post("/api/hobbies/:hobbyId/items/:id/revisions/:revisionId/revert", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("hobbyId");
+  const itemId = c.req.param("id");
+  const revisionId = c.req.param("revisionId");
+
+  try {
+    const item = await findRevisionedItem(c, hobbyId, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found" }, 404);
+    }
+
+    const revision = await findRevisionSnapshot<ItemSnapshot>(c.env.DB, "item", itemId, revisionId);
+    if (!revision) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+
+    // A location deleted since then leaves the item unplaced
+    const locations = await listUserLocations(c.env.DB, user.userId);
+    const location = itemLocationPayload(locations, revision.location_id);
+    const restored: ItemSnapshot = { ...revision, location_id: location?.id ?? null };
+    const current = itemSnapshot(item);
+    const changes = diffFields(itemSnapshotPayload(current, locations), itemSnapshotPayload(restored, locations));
+
+    const previousValuation = valuationFromRow(current);
+    const valuation = valuationFromRow(restored);
+
+    if (changes.length > 0) {
+      const fullText = `${restored.name} ${restored.description || ""}`.trim();
+      const embedding = await generateEmbedding(fullText, c.env.AI);
+
+      const statements = [
+        itemRevisionStatement(c.env.DB, itemId, current),
+        c.env.DB.prepare(
+          `UPDATE items
+           SET name = ?, description = ?, category = ?, tags = ?, custom_fields = ?,
+             purchase_price_cents = ?, purchase_date = ?, currency = ?, estimated_value_cents = ?, status = ?,
+             location_id = ?
+           WHERE id = ? AND hobby_id = ?`
+        ).bind(
+          restored.name,
+          restored.description,
+          restored.category,
+          JSON.stringify(restored.tags),
+          JSON.stringify(restored.custom_fields),
+          restored.purchase_price_cents,
+          restored.purchase_date,
+          restored.currency,
+          restored.estimated_value_cents,
+          restored.status,
+          restored.location_id,
+          itemId,
+          hobbyId
+        ),
+        valueHistoryStatement(c.env.DB, itemId, previousValuation, valuation),
+        statusChangeStatement(c.env.DB, itemId, current.status, restored.status),
+      ].filter((statement): statement is D1PreparedStatement => statement !== null);
+      await c.env.DB.batch(statements);
+
+      await recordActivity(c.env.DB, user.userId, {
+        type: "item_reverted",
+        hobby: { id: hobbyId, name: item.hobby_name },
+        item: { id: itemId, name: restored.name },
+        details: { changes: changes.map((change) => change.field), revision_id: revisionId },
+      });
+
+      // Update embedding in Vectorize (optional in local dev)
+      if (c.env.HOBBY_ITEMS_INDEX) {
+        try {
+          await c.env.HOBBY_ITEMS_INDEX.upsert([
+            {
+              id: itemId,
+              values: embedding,
+              metadata: {
+                type: "item",
+                userId: user.userId,
+                hobbyId,
+                name: restored.name,
+                category: restored.category || "Other",
+              },
+            },
+          ]);
+        } catch (error) {
+          console.warn("Vectorize not available (local dev?):", error);
+        }
+      }
+    }
+
+    return c.json({
+      success: true,
+      changes,
+      item: {
+        id: itemId,
+        name: restored.name,
+        description: restored.description,
+        category: restored.category,
+        tags: restored.tags,
+        custom_fields: restored.custom_fields,
+        status: restored.status,
+        location,
+        ...valuationPayload(valuation),
+      },
+    });
+  } catch (error) {
+    console.error("Error reverting item:", error);
+    return c.json({ error: "Failed to revert item" }, 500);
+  }
+});
+
+/**
+ * GET /api/hobbies/:id/revisions
+ * Get a hobby's earlier versions, newest first, with the fields each
+ * following edit changed.
+ */
+app.get("/api/hobbies/:id/revisions", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("id");
+
+  try {
+    const hobby = await c.env.DB.prepare("SELECT id FROM hobbies WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+      .bind(hobbyId, user.userId)
+      .first<{ id: string }>();
+    const current = hobby ? await loadHobbySnapshot(c.env.DB, hobbyId) : null;
+    if (!current) {
+      return c.json({ error: "Hobby not found" }, 404);
+    }
+
+    const rows = await listRevisions(c.env.DB, "hobby", hobbyId);
+    return c.json({ revisions: revisionPayloads(rows, current, (snapshot) => ({ ...snapshot })) });
+  } catch (error) {
+    console.error("Error fetching hobby revisions:", error);
+    return c.json({ error: "Failed to fetch hobby revisions" }, 500);
+  }
+});
+
+/**
+ * POST /api/hobbies/:id/revisions/:revisionId/revert
+ * Restore an earlier version of a hobby, including its item categories. The
+ * version being replaced is kept as a new revision, and the hobby is
+ * re-embedded for search.
+ */
+app.post("/api/hobbies/:id/revisions/:revisionId/revert", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("id");
+  const revisionId = c.req.param("revisionId");
+
+  try {
+    const hobby = await c.env.DB.prepare("SELECT id FROM hobbies WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+      .bind(hobbyId, user.userId)
+      .first<{ id: string }>();
+    const current = hobby ? await loadHobbySnapshot(c.env.DB, hobbyId) : null;
+    if (!current) {
+      return c.json({ error: "Hobby not found" }, 404);
+    }
+
+    const restored = await findRevisionSnapshot<HobbySnapshot>(c.env.DB, "hobby", hobbyId, revisionId);
+    if (!restored) {
+      return c.json({ error: "Revision not found" }, 404);
+    }
+
+    const changes = diffFields(current, restored);
+    if (changes.length > 0) {
+      const fullText = `${restored.name} ${restored.description || ""}`.trim();
+      const embedding = await generateEmbedding(fullText, c.env.AI);
+
+      await c.env.DB.batch([
+        hobbyRevisionStatement(c.env.DB, hobbyId, current),
+        c.env.DB.prepare(
+          "UPDATE hobbies SET name = ?, description = ?, category = ?, tags = ? WHERE id = ? AND user_id = ?"
+        ).bind(
+          restored.name,
+          restored.description,
+          restored.category,
+          JSON.stringify(restored.tags),
+          hobbyId,
+          user.userId
+        ),
+        c.env.DB.prepare("DELETE FROM hobby_item_categories WHERE hobby_id = ?").bind(hobbyId),
+        ...restored.item_categories.map((name) =>
+          c.env.DB.prepare(
+            "INSERT OR IGNORE INTO hobby_item_categories (id, hobby_id, name) VALUES (?, ?, ?)"
+          ).bind(crypto.randomUUID(), hobbyId, name)
+        ),
+      ]);
+
+      await recordActivity(c.env.DB, user.userId, {
+        type: "hobby_reverted",
+        hobby: { id: hobbyId, name: restored.name },
+        details: { changes: changes.map((change) => change.field), revision_id: revisionId },
+      });
+
+      // Update embedding in Vectorize (optional in local dev)
+      if (c.env.HOBBY_ITEMS_INDEX) {
+        try {
+          await c.env.HOBBY_ITEMS_INDEX.upsert([
+            {
+              id: hobbyId,
+              values: embedding,
+              metadata: {
+                type: "hobby",
+                userId: user.userId,
+                name: restored.name,
+                category: restored.category || "Other",
+              },
+            },
+          ]);
+        } catch (error) {
+          console.warn("Vectorize not available (local dev?):", error);
+        }
+      }
+    }
+
+    return c.json({
+      success: true,
+      changes,
+      hobby: {
+        id: hobbyId,
+        name: restored.name,
+        description: restored.description,
+        category: restored.category,
+        tags: restored.tags,
+        item_categories: restored.item_categories,
+      },
+    });
+  } catch (error) {
+    console.error("Error reverting hobby:", error);
+    return c.json({ error: "Failed to revert hobby" }, 500);
+  }
+});
+
+// ============================================================================
+// Trash Routes
+// ============================================================================
+
+/** A trashed hobby or item, looked up with the fields needed to re-embed it. */
+interface TrashedRow {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+}
+
+/**
+ * Embed hobbies and items again and put them back into Vectorize
+ * (optional in local dev). Texts are embedded in batches. Runs after the
+ * restore is committed, so a failure here is logged rather than returned.
+ */
+async function restoreVectors(
+  c: AppContext,
+  hobbies: TrashedRow[],
+  items: (TrashedRow & { hobby_id: string })[]
+): Promise<void> {
+  if (!c.env.HOBBY_ITEMS_INDEX) return;
+
+  const userId = c.get("user").userId;
+  const entries = [
+    ...hobbies.map((hobby) => ({
+      id: hobby.id,
+      text: `${hobby.name} ${hobby.description || ""}`.trim(),
+      metadata: { type: "hobby", userId, name: hobby.name, category: hobby.category || "Other" },
+    })),
+    ...items.map((item) => ({
+      id: item.id,
+      text: `${item.name} ${item.description || ""}`.trim(),
+      metadata: { type: "item", userId, hobbyId: item.hobby_id, name: item.name, category: item.category || "Other" },
+    })),
+  ];
+  if (entries.length === 0) return;
+
+  try {
+    const embeddings = await generateEmbeddings(
+      entries.map((entry) => entry.text),
+      c.env.AI
+    );
+    await upsertVectors(
+      c.env.HOBBY_ITEMS_INDEX,
+      entries.map((entry, index) => ({ id: entry.id, values: embeddings[index], metadata: entry.metadata }))
+    );
+  } catch (error) {
+    console.error("Error restoring vectors:", error);
+  }
+}
+
+/** Look up one of the current user's trashed hobbies. */
+async function findTrashedHobby(c: AppContext, hobbyId: string): Promise<TrashedRow | null> {
+  return c.env.DB.prepare(
+    `SELECT id, name, description, category FROM hobbies
+     WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL`
+  )
+    .bind(hobbyId, c.get("user").userId)
+    .first<TrashedRow>();
+}
+
+/**
+ * Look up one of the current user's trashed items. Items inside a trashed
+ * hobby come back with the hobby, so they are not found here.
+ */
+async function findTrashedItem(
+  c: AppContext,
+  itemId: string
+): Promise<(TrashedRow & { hobby_id: string; hobby_name: string }) | null> {
+  return c.env.DB.prepare(
+    `SELECT i.id, i.hobby_id, h.name as hobby_name, i.name, i.description, i.category
+     FROM items i
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE i.id = ? AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NOT NULL`
+  )
+    .bind(itemId, c.get("user").userId)
+    .first<TrashedRow & { hobby_id: string; hobby_name: string }>();
+}
+
+/**
+ * GET /api/trash
+ * Get the user's trashed hobbies and items, most recently deleted first,
+ * with when each will be purged.
+ */
+app.get("/api/trash", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const trash = await listTrash(c.env.DB, user.userId);
+    const items = await withSignedImageUrls(c, trash.items);
+
+    return c.json({
+      retention_days: TRASH_RETENTION_DAYS,
+      hobbies: trash.hobbies.map((hobby) => ({ ...hobby, purge_at: purgeAt(hobby.deleted_at) })),
+      items: items.map((item) => ({ ...item, purge_at: purgeAt(item.deleted_at) })),
+    });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return c.json({ error: "Failed to fetch trash" }, 500);
+  }
+});
+
+/**
+ * POST /api/trash/hobbies/:id/restore
+ * Restore a trashed hobby together with the items it held, and re-embed
+ * them for search.
+ */
+app.post("/api/trash/hobbies/:id/restore", async (c) => {
+  const user = c.get("user");
+  const hobbyId = c.req.param("id");
+
+  try {
+    const hobby = await findTrashedHobby(c, hobbyId);
+    if (!hobby) {
+      return c.json({ error: "Hobby not found in trash" }, 404);
+    }
+
+    // Items trashed on their own before the hobby stay in the trash
+    const items = await c.env.DB.prepare(
+      "SELECT id, hobby_id, name, description, category FROM items WHERE hobby_id = ? AND deleted_at IS NULL"
+    )
+      .bind(hobbyId)
+      .all<TrashedRow & { hobby_id: string }>();
+
+    await c.env.DB.prepare("UPDATE hobbies SET deleted_at = NULL WHERE id = ? AND user_id = ?")
+      .bind(hobbyId, user.userId)
+      .run();
+
+    await restoreVectors(c, [hobby], items.results);
+
+    await recordActivity(c.env.DB, user.userId, {
+      type: "hobby_restored",
+      hobby: { id: hobbyId, name: hobby.name },
+      details: { item_count: items.results.length },
+    });
+
+    return c.json({ success: true, hobby: { id: hobbyId, name: hobby.name }, item_count: items.results.length });
+  } catch (error) {
+    console.error("Error restoring hobby:", error);
+    return c.json({ error: "Failed to restore hobby" }, 500);
+  }
+});
+
+/**
+ * POST /api/trash/items/:id/restore
+ * Restore a trashed item to its hobby and re-embed it for search.
+ */
+app.post("/api/trash/items/:id/restore", async (c) => {
+  const user = c.get("user");
+  const itemId = c.req.param("id");
+
+  try {
+    const item = await findTrashedItem(c, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found in trash" }, 404);
+    }
+
+    await c.env.DB.prepare("UPDATE items SET deleted_at = NULL WHERE id = ?")
+      .bind(itemId)
+      .run();
+
+    await restoreVectors(c, [], [item]);
+
+    await recordActivity(c.env.DB, user.userId, {
+      type: "item_restored",
+      hobby: { id: item.hobby_id, name: item.hobby_name },
+      item: { id: itemId, name: item.name },
+    });
+
+    return c.json({ success: true, item: { id: itemId, hobby_id: item.hobby_id, name: item.name } });
+  } catch (error) {
+    console.error("Error restoring item:", error);
+    return c.json({ error: "Failed to restore item" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/trash/hobbies/:id
+ * Permanently delete a trashed hobby, its items and their photos.
+ */
+app.delete("/api/trash/hobbies/:id", async (c) => {
+  const hobbyId = c.req.param("id");
+
+  try {
+    const hobby = await findTrashedHobby(c, hobbyId);
+    if (!hobby) {
+      return c.json({ error: "Hobby not found in trash" }, 404);
+    }
+
+    await purgeHobby(c.env.DB, c.env.ITEM_IMAGES, hobbyId);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error purging hobby:", error);
+    return c.json({ error: "Failed to delete hobby" }, 500);
+  }
+});
+
+/**
+ * DELETE /api/trash/items/:id
+ * Permanently delete a trashed item and its photos.
+ */
+app.delete("/api/trash/items/:id", async (c) => {
+  const itemId = c.req.param("id");
+
+  try {
+    const item = await findTrashedItem(c, itemId);
+    if (!item) {
+      return c.json({ error: "Item not found in trash" }, 404);
+    }
+
+    await purgeItem(c.env.DB, c.env.ITEM_IMAGES, itemId);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error purging item:", error);
+    return c.json({ error: "Failed to delete item" }, 500);
+  }
+});
+
+// ============================================================================
+// Recommendations API Routes
+// ============================================================================
+
+/**
+ * POST /api/discover/recommendations
+ * Get personalized item recommendations based on the user's interests
+ * and an optional natural-language query.
+ *
+ * The recommendations are drawn from other users' items so that:
+ * - suggested items represent things that actually exist
+ * - quality improves as more users add items
+ */
+app.post("/api/discover/recommendations", async (c) => {
+  const user = c.get("user");
+  const { query, limit = 12 } = await c.req.json<{
+    query?: string;
+    limit?: number;
+  }>();
+
+  try {
+    // Try to get recommendations using Vectorize (may not be available in local dev)
+    if (!c.env.HOBBY_ITEMS_INDEX) {
+      return c.json({ recommendations: [], searchMethod: "text" as const });
+    }
+
+    // Get all user's hobbies (for profile embedding)
+    const userHobbies = await c.env.DB.prepare(
+      "SELECT id FROM hobbies WHERE user_id = ? AND deleted_at IS NULL"
+    )
+      .bind(user.userId)
+      .all<{ id: string }>();
+
+    const hobbyIds = userHobbies.results.map((h) => h.id);
+
+    let searchEmbedding: number[] | null = null;
+
+    // 1. If user has hobbies, build a profile embedding
+    if (hobbyIds.length > 0) {
+      const embeddings = await c.env.HOBBY_ITEMS_INDEX.getByIds(hobbyIds);
+
+      if (embeddings.length > 0) {
+        const embeddingVectors = embeddings.map((vec) => Array.from(vec.values));
+        const profileEmbedding = averageEmbeddings(embeddingVectors);
+
+        // Blend profile with query if present
+        if (query && query.trim()) {
+          const queryEmbedding = await generateEmbedding(query.trim(), c.env.AI);
+          const alpha = 0.5; // weight for profile vs query
+          searchEmbedding = profileEmbedding.map(
+            (v, i) => alpha * v + (1 - alpha) * queryEmbedding[i]
+          );
+        } else {
+          searchEmbedding = profileEmbedding;
+        }
+      }
+    }
+
+    // 2. If we still don't have an embedding but there is a query, just use the query
+    if (!searchEmbedding && query && query.trim()) {
+      searchEmbedding = await generateEmbedding(query.trim(), c.env.AI);
+    }
+
+    // 3. If we have neither hobbies nor query, we have nothing to go on
+    if (!searchEmbedding) {
       return c.json({ recommendations: [], searchMethod: "semantic" as const });
     }
 
     // 4. Query Vectorize across all items/hobbies
     const matches = await c.env.HOBBY_ITEMS_INDEX.query(searchEmbedding, {
-      topK: limit * 3, // get more to filter and sort
+      topK: Math.min(limit * 3, VECTORIZE_MAX_TOP_K), // get more to filter and sort
       returnMetadata: "all",
     });
 
@@ -1614,7 +4938,7 @@ app.post("/api/discover/recommendations", async (c) => {
       `SELECT i.id, i.name, i.description, i.category, i.tags, i.created_at, i.hobby_id
        FROM items i
        INNER JOIN hobbies h ON i.hobby_id = h.id
-       WHERE i.id IN (${placeholders})`
+       WHERE i.id IN (${placeholders}) AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
     )
       .bind(...itemIds)
       .all<ItemRow & { hobby_id: string }>();
@@ -1650,368 +4974,786 @@ app.post("/api/discover/recommendations", async (c) => {
 });
 
 /**
- * GET /api/activity/recent
- * Get a combined, reverse-chronological feed of the user's recent activity.
- * Currently includes:
- * - Newly created hobbies
- * - Newly created items (including those created via bulk import)
+ * GET /api/activity/recent?cursor=...&pageSize=20&type=item_created,item_moved&hobbyId=...
+ * Get the user's activity log, newest first. Pass the returned nextCursor
+ * to fetch the following page; it is null on the last page. Events can be
+ * narrowed to a comma-separated list of types and to a single hobby.
  */
 app.get("/api/activity/recent", async (c) => {
   const user = c.get("user");
 
+  const typeFilter = parseActivityTypes(c.req.query("type"));
+  if ("error" in typeFilter) {
+    return c.json({ error: typeFilter.error }, 400);
+  }
+
+  const cursorParam = c.req.query("cursor");
+  const cursor = cursorParam ? parseActivityCursor(cursorParam) : null;
+  if (cursorParam && cursor === null) {
+    return c.json({ error: "Invalid cursor" }, 400);
+  }
+
+  let pageSize = parseInt(c.req.query("pageSize") || String(DEFAULT_ACTIVITY_PAGE_SIZE), 10);
+  if (isNaN(pageSize) || pageSize < MIN_ACTIVITY_PAGE_SIZE) {
+    pageSize = MIN_ACTIVITY_PAGE_SIZE;
+  }
+  if (pageSize > MAX_ACTIVITY_PAGE_SIZE) {
+    pageSize = MAX_ACTIVITY_PAGE_SIZE;
+  }
+
   try {
-    const url = new URL(c.req.url);
-    const pageParam = url.searchParams.get("page");
-    const pageSizeParam = url.searchParams.get("pageSize");
+    const { events, nextCursor } = await listActivity(c.env.DB, user.userId, {
+      types: typeFilter.types,
+      hobbyId: c.req.query("hobbyId") || null,
+      cursor,
+      limit: pageSize,
+    });
 
-    let page = parseInt(pageParam || "1", 10);
-    if (isNaN(page) || page < 1) {
-      page = 1;
-    }
+    return c.json({ events, pageSize, nextCursor });
+  } catch (error) {
+    console.error("Error fetching recent activity:", error);
+    return c.json({ error: "Failed to fetch recent activity" }, 500);
+  }
+});
+
+/**
+ * GET /api/discover/by-category/:category
+ * Get hobbies/items by category.
+ */
+app.get("/api/discover/by-category/:category", async (c) => {
+  const category = c.req.param("category");
+
+  const hobbies = await c.env.DB.prepare(
+    "SELECT id, name, description, category, tags, created_at FROM hobbies WHERE category = ? AND deleted_at IS NULL ORDER BY created_at DESC LIMIT 20"
+  )
+    .bind(category)
+    .all<HobbyRow>();
+
+  const hobbiesWithParsedTags = hobbies.results.map((hobby) => ({
+    ...hobby,
+    tags: hobby.tags ? JSON.parse(hobby.tags) as string[] : [],
+  }));
+
+  return c.json({ hobbies: hobbiesWithParsedTags });
+});
+
+/** A collection search as sent to /api/search, or as stored by a saved search. */
+interface CollectionSearchRequest {
+  query?: string;
+  limit?: number;
+  mode?: SearchMode;
+  filters?: unknown;
+  sort?: string;
+  cursor?: string | null;
+  /** Only match items added at or after this time (unix seconds). */
+  addedSince?: number | null;
+}
+
+/**
+ * Run a collection search for a user.
+ * Supports semantic (Vectorize + embeddings), full-text (FTS5) and hybrid search across a user's hobbies and items.
+ * Hybrid runs both and merges the rankings with reciprocal rank fusion.
+ * Results can be filtered and sorted, come in pages (pass the returned nextCursor to get the next one)
+ * and carry facet counts per category, hobby and tag.
+ * The query may contain field clauses (tag:, category:, hobby:, created:, ... see searchQuery.ts); only its
+ * free text is matched and embedded. Malformed clauses are rejected with their positions in `queryErrors`.
+ * Invalid requests come back as an error; failures of the search itself are thrown.
+ */
+async function runCollectionSearch(env: Env, userId: string, request: CollectionSearchRequest) {
+  const {
+    query,
+    limit = DEFAULT_SEARCH_PAGE_SIZE,
+    mode,
+    filters: filtersInput,
+    sort = "relevance",
+    cursor,
+    addedSince = null,
+  } = request;
+
+  if (!query || !query.trim()) {
+    return { error: "Search query is required" };
+  }
+
+  const parsedFilters = parseSearchFilters(filtersInput);
+  if ("error" in parsedFilters) {
+    return { error: parsedFilters.error };
+  }
+
+  const parsedQuery = parseSearchQuery(query);
+  if ("errors" in parsedQuery) {
+    return { error: parsedQuery.errors[0].message, queryErrors: parsedQuery.errors };
+  }
+  const { text: freeText, clauses } = parsedQuery.query;
+  const filters = { ...parsedFilters.filters, clauses };
+  if (addedSince !== null) {
+    filters.createdFrom = Math.max(filters.createdFrom ?? addedSince, addedSince);
+  }
+  // A query made only of clauses lists everything they let through
+  const browsing = !freeText;
+
+  if (!isSearchSort(sort)) {
+    return { error: `sort must be one of: ${SEARCH_SORTS.join(", ")}` };
+  }
+
+  const offset = cursor ? parseSearchCursor(cursor) : 0;
+  if (offset === null) {
+    return { error: "Invalid cursor" };
+  }
+
+  const pageSize = Math.min(Math.max(Math.floor(Number(limit)) || DEFAULT_SEARCH_PAGE_SIZE, 1), MAX_SEARCH_PAGE_SIZE);
+  // Every ranking is read up to one past the end of the requested page,
+  // so we can tell whether another page follows
+  const window = offset + pageSize + 1;
+  const ftsQuery = buildFtsQuery(freeText);
+  const textMatch = browsing ? null : { ftsQuery, itemIds: [] };
+
+  // Helper: full-text search in D1 (FTS5, ranked with BM25)
+  const runTextSearch = async () => {
+    const options = { filters, sort, limit: window };
+    const searchable = browsing || !!ftsQuery;
+    const hobbies = searchable ? await searchHobbiesText(env.DB, userId, ftsQuery, options) : [];
+    const items = searchable ? await searchItemsText(env.DB, userId, ftsQuery, options) : [];
+
+    return {
+      hobbies: hobbies.map((h) => ({
+        ...h,
+        tags: h.tags ? JSON.parse(h.tags) as string[] : [],
+        type: "hobby" as const,
+      })),
+      items: items.map((i) => ({
+        ...i,
+        tags: i.tags ? JSON.parse(i.tags) as string[] : [],
+        type: "item" as const,
+      })),
+    };
+  };
 
-    let pageSize = parseInt(pageSizeParam || "20", 10);
-    if (isNaN(pageSize) || pageSize < 5) {
-      pageSize = 5;
+  // Helper: semantic search in Vectorize, hydrated from D1. Returns null when
+  // Vectorize is not bound (local dev); throws when the query fails.
+  const runSemanticSearch = async () => {
+    // Without free text there is nothing to embed
+    if (!env.HOBBY_ITEMS_INDEX || browsing) {
+      return null;
     }
-    if (pageSize > 50) {
-      pageSize = 50;
+
+    const metadataFilter = await semanticMetadataFilter(env.DB, userId, filters);
+    if (!metadataFilter) {
+      return { itemIds: [], hobbies: [], items: [] };
     }
 
-    // Fetch recent hobbies for this user
-    const hobbies = await c.env.DB.prepare(
-      "SELECT id, name, description, category, tags, created_at FROM hobbies WHERE user_id = ?"
-    )
-      .bind(user.userId)
-      .all<HobbyRow>();
+    // Generate embedding from the free text of the query
+    const queryEmbedding = await generateEmbedding(freeText, env.AI);
 
-    // Fetch recent items that belong to this user's hobbies
-    const items = await c.env.DB.prepare(
-      `SELECT i.id, i.name, i.description, i.category, i.tags, i.created_at, i.hobby_id, h.name as hobby_name
-       FROM items i
-       INNER JOIN hobbies h ON i.hobby_id = h.id
-       WHERE h.user_id = ?
-      `
-    )
-      .bind(user.userId)
-      .all<ItemRow & { hobby_id: string; hobby_name: string }>();
-
-    type ActivityEvent =
-      | {
-          id: string;
-          type: "hobby_created";
-          created_at: number;
-          hobby: {
-            id: string;
-            name: string;
-            description: string | null;
-            category: string | null;
-            tags: string[];
-          };
+    // Search Vectorize for similar items
+    const matches = await env.HOBBY_ITEMS_INDEX.query(queryEmbedding, {
+      // Get more to filter by user, within what Vectorize returns per query
+      topK: Math.min(window * 2, VECTORIZE_MAX_TOP_K),
+      // Explicitly request metadata so we can filter by userId and type
+      returnMetadata: "all",
+      // Clauses the index can apply itself; D1 applies the rest when loading matches
+      filter: metadataFilter,
+    });
+
+    // Filter to only user's items/hobbies
+    // Handle cases where metadata might be undefined or missing userId
+    const userMatches = (matches?.matches ?? []).filter((m) => {
+      try {
+        if (!m) {
+          return false;
         }
-      | {
-          id: string;
-          type: "item_created";
-          created_at: number;
-          hobby: {
-            id: string;
-            name: string;
-          };
-          item: {
-            id: string;
-            name: string;
-            description: string | null;
-            category: string | null;
-            tags: string[];
-          };
-        };
+        if (!m.metadata) {
+          return false; // Skip matches without metadata
+        }
+        const metadata = m.metadata as Record<string, unknown>;
+        const matchUserId = metadata.userId as string | undefined;
 
-    const hobbyEvents: ActivityEvent[] = hobbies.results.map((hobby) => ({
-      id: hobby.id,
-      type: "hobby_created",
-      created_at: hobby.created_at,
-      hobby: {
-        id: hobby.id,
-        name: hobby.name,
-        description: hobby.description,
-        category: hobby.category,
-        tags: hobby.tags ? (JSON.parse(hobby.tags) as string[]) : [],
-      },
-    }));
+        // Safely check userId - handle both string and undefined cases
+        if (!matchUserId) {
+          return false;
+        }
 
-    const itemEvents: ActivityEvent[] = items.results.map((item) => ({
-      id: item.id,
-      type: "item_created",
-      created_at: item.created_at,
-      hobby: {
-        id: item.hobby_id,
-        name: item.hobby_name,
-      },
-      item: {
-        id: item.id,
-        name: item.name,
-        description: item.description,
-        category: item.category,
-        tags: item.tags ? (JSON.parse(item.tags) as string[]) : [],
+        return matchUserId === userId;
+      } catch (err) {
+        console.error("Error filtering match:", err, { matchId: m?.id });
+        return false;
+      }
+    });
+
+    // Separate hobbies and items by type
+    const hobbyIds: string[] = [];
+    const itemIds: string[] = [];
+
+    userMatches.forEach((match) => {
+      if (!match.metadata) {
+        return; // Skip matches without metadata
+      }
+      const metadata = match.metadata as { type?: string };
+      if (metadata.type === "hobby") {
+        hobbyIds.push(match.id);
+      } else if (metadata.type === "item") {
+        itemIds.push(match.id);
+      }
+    });
+
+    // Fetch the matching hobbies and items from D1, applying the filters
+    const { hobbies, items } = await loadSearchMatches(env.DB, userId, { hobbyIds, itemIds }, filters);
+
+    // Create a map of IDs to similarity scores
+    const similarityMap = new Map<string, number>();
+    userMatches.forEach((match) => {
+      similarityMap.set(match.id, match.score);
+    });
+
+    // Rank by similarity score
+    return {
+      itemIds,
+      hobbies: hobbies
+        .map((hobby) => ({
+          ...hobby,
+          tags: hobby.tags ? JSON.parse(hobby.tags) as string[] : [],
+          type: "hobby" as const,
+          similarity: similarityMap.get(hobby.id) || 0,
+        }))
+        .sort((a, b) => b.similarity - a.similarity),
+      items: items
+        .map((item) => ({
+          ...item,
+          tags: item.tags ? JSON.parse(item.tags) as string[] : [],
+          type: "item" as const,
+          similarity: similarityMap.get(item.id) || 0,
+        }))
+        .sort((a, b) => b.similarity - a.similarity),
+    };
+  };
+
+  // Helper: cut the requested page out of the ranked results and count facets
+  // over everything the search matched
+  const respond = async <H extends { name: string; created_at: number }, I extends { name: string; created_at: number }>(
+    results: { hobbies: H[]; items: I[] },
+    searchMethod: "semantic" | "text" | "hybrid",
+    facetMatch: { ftsQuery: string | null; itemIds: string[] } | null
+  ) => {
+    const hobbies = sortSearchResults(results.hobbies, sort);
+    const items = sortSearchResults(results.items, sort);
+    const end = offset + pageSize;
+    const hasMore = hobbies.length > end || items.length > end;
+
+    return {
+      results: {
+        hobbies: hobbies.slice(offset, end),
+        items: items.slice(offset, end),
+        searchMethod,
+        facets: await searchFacets(env.DB, userId, facetMatch, filters),
+        nextCursor: hasMore ? String(end) : null,
       },
-    }));
+    };
+  };
+
+  // If the client explicitly requests text mode, skip Vectorize entirely
+  if (mode === "text") {
+    return respond(await runTextSearch(), "text", textMatch);
+  }
+
+  if (mode === "hybrid") {
+    // A failing semantic search leaves the keyword ranking on its own
+    let semantic: Awaited<ReturnType<typeof runSemanticSearch>> = null;
+    try {
+      semantic = await runSemanticSearch();
+    } catch (vectorizeError) {
+      console.warn("Vectorize search failed, using keyword ranking only:", vectorizeError);
+    }
+    const text = await runTextSearch();
+
+    // Fuse one kind of result, keeping both signals' details on each row
+    const fuse = <
+      S extends { id: string; similarity: number },
+      T extends { id: string; score: number; name_highlight: string; snippet: string },
+    >(semanticRows: S[], textRows: T[]) => {
+      const semanticById = new Map(semanticRows.map((row) => [row.id, row]));
+      const textById = new Map(textRows.map((row) => [row.id, row]));
+      return fuseRankings([
+        { signal: "semantic", ids: semanticRows.map((row) => row.id) },
+        { signal: "text", ids: textRows.map((row) => row.id) },
+      ]).map(({ id, fusion_score, matched_by }) => {
+        const semanticRow = semanticById.get(id);
+        const textRow = textById.get(id);
+        return {
+          ...(semanticRow ?? textRow)!,
+          ...(textRow ?? {}),
+          similarity: semanticRow?.similarity,
+          fusion_score,
+          matched_by,
+        };
+      });
+    };
+
+    return respond(
+      { hobbies: fuse(semantic?.hobbies ?? [], text.hobbies), items: fuse(semantic?.items ?? [], text.items) },
+      "hybrid",
+      browsing ? null : { ftsQuery, itemIds: semantic?.itemIds ?? [] }
+    );
+  }
+
+  try {
+    // Try to get search results using Vectorize (may not be available in local dev)
+    const semantic = await runSemanticSearch();
+
+    // Without Vectorize, or when none of the matches belong to this user,
+    // fall back to text search
+    if (semantic && (semantic.hobbies.length > 0 || semantic.items.length > 0)) {
+      return respond(semantic, "semantic", { ftsQuery: null, itemIds: semantic.itemIds });
+    }
+  } catch (vectorizeError) {
+    // Semantic search failed for some reason - fallback to text search
+    console.error("Vectorize search failed, falling back to text search:", vectorizeError);
+  }
+
+  return respond(await runTextSearch(), "text", textMatch);
+}
+
+/**
+ * Shared handler for collection search endpoints.
+ */
+async function handleCollectionSearch(c: AppContext) {
+  const user = c.get("user");
+  const request = await c.req.json<CollectionSearchRequest>();
+
+  if (!request.query || !request.query.trim()) {
+    return c.json({ error: "Search query is required" }, 400);
+  }
+
+  if (!user || !user.userId) {
+    return c.json({ error: "User not authenticated" }, 401);
+  }
+
+  try {
+    const outcome = await runCollectionSearch(c.env, user.userId, request);
+    if ("error" in outcome) {
+      return c.json(outcome, 400);
+    }
+    return c.json(outcome.results);
+  } catch (error) {
+    console.error("Error performing search:", error);
+    return c.json({ error: "Failed to perform search" }, 500);
+  }
+}
 
-    const allEvents = [...hobbyEvents, ...itemEvents].sort(
-      (a, b) => b.created_at - a.created_at
+/**
+ * POST /api/search
+ * Primary endpoint for semantic/text/hybrid search across the user's hobbies and items.
+ */
+app.post("/api/search", (c) => handleCollectionSearch(c));
+
+/**
+ * POST /api/discover/search
+ * Legacy alias for collection search, kept for backward compatibility.
+ */
+app.post("/api/discover/search", (c) => handleCollectionSearch(c));
+
+/**
+ * POST /api/search/by-image
+ * "Do I already own this?" Describe photos of one object (repeated "image" form
+ * fields) with the vision model, embed the description and return the user's
+ * closest items in Vectorize, most similar first, flagging likely duplicates.
+ * Optional form fields: hobbyId to look in one hobby, limit (up to 20 matches).
+ */
+app.post("/api/search/by-image", async (c) => {
+  const user = c.get("user");
+
+  const contentType = c.req.header("Content-Type") || "";
+  if (!contentType.includes("multipart/form-data")) {
+    return c.json({ error: "Photos must be uploaded as multipart form data" }, 400);
+  }
+
+  const formData = await c.req.formData();
+  const imageFiles = formData
+    .getAll("image")
+    .filter((entry): entry is File => typeof entry !== "string" && entry.size > 0);
+  if (imageFiles.length === 0) {
+    return c.json({ error: "Upload a photo to search with" }, 400);
+  }
+  if (imageFiles.length > MAX_ANALYZED_IMAGES) {
+    return c.json({ error: `Search with at most ${MAX_ANALYZED_IMAGES} photos` }, 400);
+  }
+
+  const hobbyId = formData.get("hobbyId");
+  const limitInput = formData.get("limit");
+  const limit = Math.min(
+    Math.max(Math.floor(Number(limitInput ?? DEFAULT_IMAGE_MATCHES)) || DEFAULT_IMAGE_MATCHES, 1),
+    MAX_IMAGE_MATCHES
+  );
+
+  const processed = await processImageFiles(imageFiles);
+  if ("error" in processed) {
+    return c.json({ error: processed.error }, 400);
+  }
+
+  try {
+    if (typeof hobbyId === "string" && hobbyId) {
+      const hobby = await c.env.DB.prepare(
+        "SELECT id FROM hobbies WHERE id = ? AND user_id = ? AND deleted_at IS NULL"
+      )
+        .bind(hobbyId, user.userId)
+        .first<{ id: string }>();
+      if (!hobby) {
+        return c.json({ error: "Hobby not found" }, 404);
+      }
+    }
+
+    const analysis = await analyzeImage(
+      processed.images.map((image) => image.bytes.slice().buffer),
+      c.env.AI
+    );
+    if (analysis.description === IMAGE_ANALYSIS_FAILED_DESCRIPTION) {
+      return c.json({ error: "Failed to analyze the photo" }, 500);
+    }
+    const photoAnalysis = {
+      name: analysis.name,
+      description: analysis.description,
+      category: analysis.category,
+    };
+
+    // Vectorize may not be available in local dev
+    if (!c.env.HOBBY_ITEMS_INDEX) {
+      return c.json({ analysis: photoAnalysis, matches: [] });
+    }
+
+    let itemScores: { id: string; score: number }[];
+    try {
+      // Embed the description the way items are embedded: name, then description
+      const embedding = await generateEmbedding(`${analysis.name} ${analysis.description}`.trim(), c.env.AI);
+      const filter: VectorizeVectorMetadataFilter = { type: "item", userId: user.userId };
+      if (typeof hobbyId === "string" && hobbyId) {
+        filter.hobbyId = hobbyId;
+      }
+      const matches = await c.env.HOBBY_ITEMS_INDEX.query(embedding, {
+        topK: limit,
+        returnMetadata: "all",
+        filter,
+      });
+      itemScores = (matches?.matches ?? [])
+        .filter((match) => {
+          const metadata = match.metadata as Record<string, unknown> | undefined;
+          return metadata?.userId === user.userId && metadata.type === "item";
+        })
+        .map((match) => ({ id: match.id, score: match.score }));
+    } catch (vectorizeError) {
+      // The binding exists, so this is a real failure rather than local dev
+      console.error("Error querying Vectorize by photo:", vectorizeError);
+      return c.json({ error: "Failed to search by photo" }, 500);
+    }
+
+    const scores = new Map(itemScores.map((match) => [match.id, match.score]));
+    const items = await loadImageMatches(
+      c.env.DB,
+      user.userId,
+      itemScores.map((match) => match.id)
     );
+    const matches = (await withSignedImageUrls(c, items)).map((item) => {
+      const similarity = scores.get(item.id) ?? 0;
+      return {
+        ...item,
+        tags: item.tags ? (JSON.parse(item.tags) as string[]) : [],
+        similarity,
+        likely_duplicate: similarity >= DUPLICATE_SIMILARITY,
+      };
+    });
+
+    return c.json({ analysis: photoAnalysis, matches });
+  } catch (error) {
+    console.error("Error searching by image:", error);
+    return c.json({ error: "Failed to search by image" }, 500);
+  }
+});
+
+/**
+ * Run a saved search over the items added since `since` and return the IDs
+ * of those it matches confidently enough to alert on. Results are read
+ * newest first, page by page, so what is found does not depend on how the
+ * rest of the collection ranks.
+ */
+async function savedSearchItemIds(env: Env, search: SavedSearchRow, since: number): Promise<string[]> {
+  const itemIds: string[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page < MAX_SAVED_SEARCH_ALERT_PAGES; page++) {
+    const outcome = await runCollectionSearch(env, search.user_id, {
+      ...savedSearchRequest(search),
+      sort: "newest",
+      limit: MAX_SEARCH_PAGE_SIZE,
+      addedSince: since,
+      cursor,
+    });
+    if ("error" in outcome) {
+      throw new Error(outcome.error);
+    }
+    itemIds.push(...outcome.results.items.filter(isAlertableMatch).map((item) => item.id));
+    cursor = outcome.results.nextCursor;
+    if (!cursor) break;
+  }
+  return itemIds;
+}
+
+/**
+ * Start watching a saved search for new matches from `now`. Items added in
+ * that same second are recorded as already seen, so only later matches are
+ * flagged as new.
+ */
+async function recordSavedSearchBaseline(env: Env, search: SavedSearchRow, now: number): Promise<void> {
+  await env.DB.prepare("UPDATE saved_searches SET checked_at = ? WHERE id = ?").bind(now, search.id).run();
+  try {
+    await recordSavedSearchHits(env.DB, search.id, await savedSearchItemIds(env, search, now), false);
+  } catch (error) {
+    console.warn("Could not record current matches of saved search:", search.id, error);
+  }
+}
 
-    const total = allEvents.length;
-    const totalPages = Math.max(1, Math.ceil(total / pageSize));
-    const safePage = Math.min(page, totalPages);
-    const start = (safePage - 1) * pageSize;
-    const pagedEvents = allEvents.slice(start, start + pageSize);
+/**
+ * GET /api/saved-searches
+ * Get the user's saved searches, each with its number of new matches.
+ */
+app.get("/api/saved-searches", async (c) => {
+  const user = c.get("user");
 
+  try {
+    const searches = await listSavedSearches(c.env.DB, user.userId);
     return c.json({
-      events: pagedEvents,
-      page: safePage,
-      pageSize,
-      total,
-      totalPages,
+      saved_searches: searches.map((search) => savedSearchResponse(search, search.new_count)),
     });
   } catch (error) {
-    console.error("Error fetching recent activity:", error);
-    return c.json({ error: "Failed to fetch recent activity" }, 500);
+    console.error("Error fetching saved searches:", error);
+    return c.json({ error: "Failed to fetch saved searches" }, 500);
   }
 });
 
 /**
- * GET /api/discover/by-category/:category
- * Get hobbies/items by category.
+ * POST /api/saved-searches
+ * Save a search (name, query, mode, filters, sort) as a smart collection.
+ * With notify, its current matches are remembered and later ones are flagged
+ * as new by the scheduled job.
  */
-app.get("/api/discover/by-category/:category", async (c) => {
-  const category = c.req.param("category");
+app.post("/api/saved-searches", async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+  if (!body) {
+    return c.json({ error: "Invalid request body" }, 400);
+  }
 
-  const hobbies = await c.env.DB.prepare(
-    "SELECT id, name, description, category, tags, created_at FROM hobbies WHERE category = ? ORDER BY created_at DESC LIMIT 20"
-  )
-    .bind(category)
-    .all<HobbyRow>();
+  const parsed = parseSavedSearchInput(body);
+  if ("error" in parsed) {
+    return c.json(parsed, 400);
+  }
+  const values = parsed.values;
 
-  const hobbiesWithParsedTags = hobbies.results.map((hobby) => ({
-    ...hobby,
-    tags: hobby.tags ? JSON.parse(hobby.tags) as string[] : [],
-  }));
+  try {
+    const count = await c.env.DB.prepare("SELECT COUNT(*) as count FROM saved_searches WHERE user_id = ?")
+      .bind(user.userId)
+      .first<{ count: number }>();
+    if ((count?.count ?? 0) >= MAX_SAVED_SEARCHES) {
+      return c.json({ error: `You can save up to ${MAX_SAVED_SEARCHES} searches` }, 400);
+    }
 
-  return c.json({ hobbies: hobbiesWithParsedTags });
+    const now = Math.floor(Date.now() / 1000);
+    const search: SavedSearchRow = {
+      id: crypto.randomUUID(),
+      user_id: user.userId,
+      name: values.name!,
+      query: values.query!,
+      mode: values.mode!,
+      filters: JSON.stringify(values.filters),
+      sort: values.sort!,
+      notify: values.notify ? 1 : 0,
+      checked_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+    await c.env.DB.prepare(
+      `INSERT INTO saved_searches (id, user_id, name, query, mode, filters, sort, notify, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        search.id,
+        search.user_id,
+        search.name,
+        search.query,
+        search.mode,
+        search.filters,
+        search.sort,
+        search.notify,
+        search.created_at,
+        search.updated_at
+      )
+      .run();
+
+    if (search.notify) {
+      await recordSavedSearchBaseline(c.env, search, now);
+      search.checked_at = now;
+    }
+
+    return c.json({ success: true, saved_search: savedSearchResponse(search, 0) });
+  } catch (error) {
+    console.error("Error saving search:", error);
+    return c.json({ error: "Failed to save search" }, 500);
+  }
 });
 
 /**
- * Shared handler for collection search endpoints.
- * Supports semantic (Vectorize + embeddings) and plain text search across a user's hobbies and items.
+ * PUT /api/saved-searches/:id
+ * Rename a saved search, change the search it runs or switch alerts on or
+ * off. Only the fields sent are changed. Changing the search starts its
+ * match tracking over.
  */
-async function handleCollectionSearch(c: AppContext) {
+app.put("/api/saved-searches/:id", async (c) => {
   const user = c.get("user");
-  const { query, limit = 20, mode } = await c.req.json<{
-    query?: string;
-    limit?: number;
-    mode?: "semantic" | "text";
-  }>();
-
-  if (!query || !query.trim()) {
-    return c.json({ error: "Search query is required" }, 400);
-  }
-
-  if (!user || !user.userId) {
-    return c.json({ error: "User not authenticated" }, 401);
+  const searchId = c.req.param("id");
+  const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+  if (!body) {
+    return c.json({ error: "Invalid request body" }, 400);
   }
 
-  // Helper: plain text search in D1
-  const runTextSearch = async () => {
-    const searchTerm = `%${query}%`;
-    const hobbies = await c.env.DB.prepare(
-      `SELECT id, name, description, category, tags, created_at 
-       FROM hobbies 
-       WHERE user_id = ? AND (name LIKE ? OR description LIKE ?)
-       ORDER BY created_at DESC LIMIT ?`
-    )
-      .bind(user.userId, searchTerm, searchTerm, limit)
-      .all<HobbyRow>();
-
-    const items = await c.env.DB.prepare(
-      `SELECT i.id, i.name, i.description, i.category, i.tags, i.created_at, i.hobby_id
-       FROM items i
-       INNER JOIN hobbies h ON i.hobby_id = h.id
-       WHERE h.user_id = ? AND (i.name LIKE ? OR i.description LIKE ?)
-       ORDER BY i.created_at DESC LIMIT ?`
-    )
-      .bind(user.userId, searchTerm, searchTerm, limit)
-      .all<ItemRow & { hobby_id: string }>();
-
-    return c.json({
-      hobbies: hobbies.results.map((h) => ({
-        ...h,
-        tags: h.tags ? JSON.parse(h.tags) as string[] : [],
-        type: "hobby" as const,
-      })),
-      items: items.results.map((i) => ({
-        ...i,
-        tags: i.tags ? JSON.parse(i.tags) as string[] : [],
-        type: "item" as const,
-      })),
-      searchMethod: "text" as const,
-    });
-  };
-
-  // If the client explicitly requests text mode, skip Vectorize entirely
-  if (mode === "text") {
-    return runTextSearch();
+  const parsed = parseSavedSearchInput(body, { partial: true });
+  if ("error" in parsed) {
+    return c.json(parsed, 400);
   }
+  const values = parsed.values;
 
   try {
-    // Try to get search results using Vectorize (may not be available in local dev)
-    if (!c.env.HOBBY_ITEMS_INDEX) {
-      // Fallback to simple text search in database
-      return runTextSearch();
+    const search = await getSavedSearch(c.env.DB, user.userId, searchId);
+    if (!search) {
+      return c.json({ error: "Saved search not found" }, 404);
     }
 
-    try {
-      // Generate embedding from search query
-      const queryEmbedding = await generateEmbedding(query.trim(), c.env.AI);
-
-      // Search Vectorize for similar items
-      const matches = await c.env.HOBBY_ITEMS_INDEX.query(queryEmbedding, {
-        topK: limit * 2, // Get more to filter by user
-        // Explicitly request metadata so we can filter by userId and type
-        returnMetadata: "all",
-      });
-
-      // Ensure matches array exists
-      if (!matches || !matches.matches || matches.matches.length === 0) {
-        return c.json({ hobbies: [], items: [], searchMethod: "semantic" as const });
-      }
-
-      // Filter to only user's items/hobbies
-      // Handle cases where metadata might be undefined or missing userId
-      const userMatches = matches.matches.filter((m) => {
-        try {
-          if (!m) {
-            return false;
-          }
-          if (!m.metadata) {
-            return false; // Skip matches without metadata
-          }
-          const metadata = m.metadata as Record<string, unknown>;
-          const matchUserId = metadata.userId as string | undefined;
-          
-          // Safely check userId - handle both string and undefined cases
-          if (!matchUserId) {
-            return false;
-          }
-          
-          return matchUserId === user.userId;
-        } catch (err) {
-          console.error("Error filtering match:", err, { matchId: m?.id });
-          return false;
-        }
-      }).slice(0, limit);
-
-      // If all matches were filtered out, fallback to text search
-      if (userMatches.length === 0) {
-        // Fall through to text search fallback below
-        throw new Error("No semantic matches found for this user");
-      }
+    const updated: SavedSearchRow = {
+      ...search,
+      name: values.name ?? search.name,
+      query: values.query ?? search.query,
+      mode: values.mode ?? search.mode,
+      filters: values.filters !== undefined ? JSON.stringify(values.filters) : search.filters,
+      sort: values.sort ?? search.sort,
+      notify: values.notify !== undefined ? (values.notify ? 1 : 0) : search.notify,
+      updated_at: Math.floor(Date.now() / 1000),
+    };
+    const searchChanged =
+      updated.query !== search.query ||
+      updated.mode !== search.mode ||
+      updated.filters !== search.filters ||
+      updated.sort !== search.sort;
+
+    await c.env.DB.batch([
+      c.env.DB.prepare(
+        `UPDATE saved_searches SET name = ?, query = ?, mode = ?, filters = ?, sort = ?, notify = ?, updated_at = ?
+         WHERE id = ? AND user_id = ?`
+      ).bind(
+        updated.name,
+        updated.query,
+        updated.mode,
+        updated.filters,
+        updated.sort,
+        updated.notify,
+        updated.updated_at,
+        searchId,
+        user.userId
+      ),
+      // Matches of the old search or of a search no longer watched are stale
+      ...(searchChanged || !updated.notify
+        ? [c.env.DB.prepare("DELETE FROM saved_search_hits WHERE saved_search_id = ?").bind(searchId)]
+        : []),
+    ]);
+
+    if (updated.notify && (searchChanged || !search.notify)) {
+      await recordSavedSearchBaseline(c.env, updated, updated.updated_at);
+      updated.checked_at = updated.updated_at;
+    }
 
-      // Separate hobbies and items by type
-      const hobbyIds: string[] = [];
-      const itemIds: string[] = [];
+    const newHits = updated.notify ? await listNewSavedSearchHits(c.env.DB, searchId) : new Set<string>();
+    return c.json({ success: true, saved_search: savedSearchResponse(updated, newHits.size) });
+  } catch (error) {
+    console.error("Error updating saved search:", error);
+    return c.json({ error: "Failed to update saved search" }, 500);
+  }
+});
 
-      userMatches.forEach((match) => {
-        if (!match.metadata) {
-          return; // Skip matches without metadata
-        }
-        const metadata = match.metadata as { type?: string };
-        if (metadata.type === "hobby") {
-          hobbyIds.push(match.id);
-        } else if (metadata.type === "item") {
-          itemIds.push(match.id);
-        }
-      });
+/**
+ * DELETE /api/saved-searches/:id
+ * Delete a saved search. The items it matched are not affected.
+ */
+app.delete("/api/saved-searches/:id", async (c) => {
+  const user = c.get("user");
+  const searchId = c.req.param("id");
 
-      // Fetch hobbies from D1
-      const hobbies: HobbyRow[] = [];
-      if (hobbyIds.length > 0) {
-        const placeholders = hobbyIds.map(() => "?").join(",");
-        const hobbyResults = await c.env.DB.prepare(
-          `SELECT id, name, description, category, tags, created_at 
-           FROM hobbies 
-           WHERE id IN (${placeholders}) AND user_id = ?`
-        )
-          .bind(...hobbyIds, user.userId)
-          .all<HobbyRow>();
-        hobbies.push(...hobbyResults.results);
-      }
+  try {
+    const search = await getSavedSearch(c.env.DB, user.userId, searchId);
+    if (!search) {
+      return c.json({ error: "Saved search not found" }, 404);
+    }
 
-      // Fetch items from D1
-      const items: (ItemRow & { hobby_id: string })[] = [];
-      if (itemIds.length > 0) {
-        const placeholders = itemIds.map(() => "?").join(",");
-        const itemResults = await c.env.DB.prepare(
-          `SELECT i.id, i.name, i.description, i.category, i.tags, i.created_at, i.hobby_id
-           FROM items i
-           INNER JOIN hobbies h ON i.hobby_id = h.id
-           WHERE i.id IN (${placeholders}) AND h.user_id = ?`
-        )
-          .bind(...itemIds, user.userId)
-          .all<ItemRow & { hobby_id: string }>();
-        items.push(...itemResults.results);
-      }
+    await c.env.DB.batch([
+      c.env.DB.prepare("DELETE FROM saved_search_hits WHERE saved_search_id = ?").bind(searchId),
+      c.env.DB.prepare("DELETE FROM saved_searches WHERE id = ? AND user_id = ?").bind(searchId, user.userId),
+    ]);
 
-      // Create a map of IDs to similarity scores
-      const similarityMap = new Map<string, number>();
-      userMatches.forEach((match) => {
-        similarityMap.set(match.id, match.score);
-      });
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    return c.json({ error: "Failed to delete saved search" }, 500);
+  }
+});
 
-      // Sort by similarity score and add to results
-      const hobbiesWithScores = hobbies
-        .map((hobby) => ({
-          ...hobby,
-          tags: hobby.tags ? JSON.parse(hobby.tags) as string[] : [],
-          type: "hobby" as const,
-          similarity: similarityMap.get(hobby.id) || 0,
-        }))
-        .sort((a, b) => b.similarity - a.similarity);
+/**
+ * GET /api/saved-searches/:id/results?cursor=...
+ * Run a saved search now. The response matches /api/search, with the saved
+ * search attached and `is_new` set on items flagged as new matches.
+ */
+app.get("/api/saved-searches/:id/results", async (c) => {
+  const user = c.get("user");
+  const searchId = c.req.param("id");
 
-      const itemsWithScores = items
-        .map((item) => ({
-          ...item,
-          tags: item.tags ? JSON.parse(item.tags) as string[] : [],
-          type: "item" as const,
-          similarity: similarityMap.get(item.id) || 0,
-        }))
-        .sort((a, b) => b.similarity - a.similarity);
+  try {
+    const search = await getSavedSearch(c.env.DB, user.userId, searchId);
+    if (!search) {
+      return c.json({ error: "Saved search not found" }, 404);
+    }
 
-      return c.json({
-        hobbies: hobbiesWithScores,
-        items: itemsWithScores,
-        searchMethod: "semantic" as const,
-      });
-    } catch (vectorizeError) {
-      // Semantic search failed for some reason - fallback to text search
-      console.error("Vectorize search failed, falling back to text search:", vectorizeError);
-      return runTextSearch();
+    const outcome = await runCollectionSearch(c.env, user.userId, {
+      ...savedSearchRequest(search),
+      cursor: c.req.query("cursor") || null,
+    });
+    if ("error" in outcome) {
+      return c.json(outcome, 400);
     }
+
+    const newHits = await listNewSavedSearchHits(c.env.DB, searchId);
+    return c.json({
+      ...outcome.results,
+      items: outcome.results.items.map((item) => ({ ...item, is_new: newHits.has(item.id) })),
+      saved_search: savedSearchResponse(search, newHits.size),
+    });
   } catch (error) {
-    console.error("Error performing semantic search:", error);
-    return c.json({ error: "Failed to perform search" }, 500);
+    console.error("Error running saved search:", error);
+    return c.json({ error: "Failed to run saved search" }, 500);
   }
-}
+});
 
 /**
- * POST /api/search
- * Primary endpoint for semantic/text search across the user's hobbies and items.
+ * POST /api/saved-searches/:id/seen
+ * Clear the "new" flag on a saved search's matches once the user has seen them.
  */
-app.post("/api/search", (c) => handleCollectionSearch(c));
+app.post("/api/saved-searches/:id/seen", async (c) => {
+  const user = c.get("user");
+  const searchId = c.req.param("id");
 
-/**
- * POST /api/discover/search
- * Legacy alias for collection search, kept for backward compatibility.
- */
-app.post("/api/discover/search", (c) => handleCollectionSearch(c));
+  try {
+    const search = await getSavedSearch(c.env.DB, user.userId, searchId);
+    if (!search) {
+      return c.json({ error: "Saved search not found" }, 404);
+    }
+
+    await markSavedSearchHitsSeen(c.env.DB, searchId);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error marking saved search matches seen:", error);
+    return c.json({ error: "Failed to update saved search" }, 500);
+  }
+});
 
 /**
  * POST /api/admin/repair-vectorize-metadata
@@ -2024,7 +5766,7 @@ app.post("/api/admin/repair-vectorize-metadata", async (c) => {
   try {
     // Get all user's hobbies
     const hobbies = await c.env.DB.prepare(
-      "SELECT id, name, description, category, user_id FROM hobbies WHERE user_id = ?"
+      "SELECT id, name, description, category, user_id FROM hobbies WHERE user_id = ? AND deleted_at IS NULL"
     ).bind(user.userId).all<{
       id: string;
       name: string;
@@ -2038,7 +5780,7 @@ app.post("/api/admin/repair-vectorize-metadata", async (c) => {
       `SELECT i.id, i.name, i.description, i.category, i.hobby_id, h.user_id
        FROM items i
        INNER JOIN hobbies h ON i.hobby_id = h.id
-       WHERE h.user_id = ?`
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
     ).bind(user.userId).all<{
       id: string;
       name: string;
@@ -2091,7 +5833,7 @@ app.post("/api/admin/repair-vectorize-metadata", async (c) => {
 
     // Use upsert to update existing vectors or create new ones
     if (vectorsToUpsert.length > 0) {
-      await c.env.HOBBY_ITEMS_INDEX.upsert(vectorsToUpsert);
+      await upsertVectors(c.env.HOBBY_ITEMS_INDEX, vectorsToUpsert);
     }
 
     return c.json({
@@ -2106,6 +5848,170 @@ app.post("/api/admin/repair-vectorize-metadata", async (c) => {
   }
 });
 
+/**
+ * POST /api/admin/reconcile-images
+ * Find R2 images under the user's prefix that no item references any more.
+ * Pass `?dryRun=true` to list the orphans without deleting them.
+ */
+app.post("/api/admin/reconcile-images", async (c) => {
+  const user = c.get("user");
+  const dryRun = c.req.query("dryRun") === "true";
+
+  try {
+    const orphanedKeys = await findOrphanedImageKeys(user.userId, {
+      db: c.env.DB,
+      images: c.env.ITEM_IMAGES,
+    });
+
+    const purged = dryRun
+      ? 0
+      : await deleteImageObjects(c.env.ITEM_IMAGES, orphanedKeys);
+
+    return c.json({
+      success: true,
+      dryRun,
+      orphaned: orphanedKeys,
+      purged,
+    });
+  } catch (error) {
+    console.error("Error reconciling images:", error);
+    return c.json({ error: "Failed to reconcile images" }, 500);
+  }
+});
+
+// ============================================================================
+// Public Showcase Routes
+// ============================================================================
+
+/**
+ * GET /api/public/hobbies/:slug
+ * Read-only view of a published hobby and its items.
+ * This endpoint is public (no auth required) and only exposes showcase-safe fields.
+ */
+app.get("/api/public/hobbies/:slug", async (c) => {
+  const slug = c.req.param("slug");
+
+  try {
+    const hobby = await c.env.DB.prepare(
+      `SELECT h.id, h.name, h.description, h.category, h.tags, h.created_at, h.shared_at, u.username
+       FROM hobbies h
+       INNER JOIN users u ON h.user_id = u.id
+       WHERE h.share_slug = ? AND h.deleted_at IS NULL`
+    )
+      .bind(slug)
+      .first<HobbyRow & { shared_at: number | null; username: string }>();
+
+    if (!hobby) {
+      return c.json({ error: "Showcase not found" }, 404);
+    }
+
+    const items = await c.env.DB.prepare(
+      "SELECT id, name, description, category, tags, image_url, created_at FROM items WHERE hobby_id = ? AND deleted_at IS NULL ORDER BY created_at DESC"
+    )
+      .bind(hobby.id)
+      .all<ItemRow>();
+
+    return c.json({
+      hobby: {
+        name: hobby.name,
+        description: hobby.description,
+        category: hobby.category,
+        tags: hobby.tags ? JSON.parse(hobby.tags) as string[] : [],
+        created_at: hobby.created_at,
+        shared_at: hobby.shared_at,
+        owner: hobby.username,
+      },
+      items: await withSignedImageUrls(
+        c,
+        items.results.map((item) => ({
+          ...item,
+          tags: item.tags ? JSON.parse(item.tags) as string[] : [],
+        }))
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching public showcase:", error);
+    return c.json({ error: "Failed to fetch showcase" }, 500);
+  }
+});
+
+// ============================================================================
+// Export / Import Routes
+// ============================================================================
+
+/**
+ * GET /api/export
+ * Download the user's entire collection (hobbies, item categories, items,
+ * tags and image bytes) as a single JSON archive.
+ */
+app.get("/api/export", async (c) => {
+  const user = c.get("user");
+
+  try {
+    const archive = await buildCollectionArchive(user.userId, {
+      db: c.env.DB,
+      images: c.env.ITEM_IMAGES,
+    });
+
+    const date = new Date(archive.exportedAt * 1000).toISOString().slice(0, 10);
+    c.header(
+      "Content-Disposition",
+      `attachment; filename="curiocodex-export-${date}.json"`
+    );
+    return c.json(archive);
+  } catch (error) {
+    console.error("Error exporting collection:", error);
+    return c.json({ error: "Failed to export collection" }, 500);
+  }
+});
+
+/**
+ * POST /api/import
+ * Restore a collection archive produced by GET /api/export into the current
+ * account. IDs are remapped and embeddings are regenerated for Vectorize.
+ */
+app.post("/api/import", async (c) => {
+  const user = c.get("user");
+
+  let archive: unknown;
+  try {
+    archive = await c.req.json();
+  } catch {
+    return c.json({ error: "Archive must be valid JSON" }, 400);
+  }
+
+  const validationError = validateCollectionArchive(archive);
+  if (validationError) {
+    return c.json({ error: validationError }, 400);
+  }
+
+  try {
+    const summary = await restoreCollectionArchive(
+      user.userId,
+      archive as CollectionArchive,
+      {
+        db: c.env.DB,
+        images: c.env.ITEM_IMAGES,
+        transformer: c.env.IMAGES,
+        ai: c.env.AI,
+        index: c.env.HOBBY_ITEMS_INDEX,
+      }
+    );
+    await recordActivity(c.env.DB, user.userId, {
+      type: "collection_imported",
+      details: { hobby_count: summary.hobbies, item_count: summary.items, image_count: summary.images },
+    });
+
+    return c.json({
+      success: true,
+      imported: summary,
+    });
+  } catch (error) {
+    console.error("Error importing collection:", error);
+    return c.json({ error: "Failed to import collection" }, 500);
+  }
+});
+
 // ============================================================================
 // Image Serving Routes
 // ============================================================================
@@ -2113,14 +6019,45 @@ app.post("/api/admin/repair-vectorize-metadata", async (c) => {
 /**
  * GET /api/images/*
  * Serve images from R2 bucket.
- * This endpoint is public (no auth required) since images are loaded via <img> tags.
+ * An optional `size` query (`thumb` or `medium`) serves a resized variant,
+ * falling back to the original when no variant was generated.
+ * Images are private: requests must carry a valid signature (as produced by
+ * withSignedImageUrls) or a Bearer session belonging to the image's owner.
+ * The route skips the auth middleware so signed URLs work in <img> tags.
  */
 app.get("/api/images/*", async (c) => {
-  const imageKey = c.req.path.replace("/api/images/", "");
-  
+  const imageKey = imageKeyFromReference(c.req.path);
+
   try {
-    const object = await c.env.ITEM_IMAGES.get(imageKey);
-    
+    const secret = getImageSigningSecret(c.env.IMAGE_SIGNING_SECRET);
+    let authorized = await verifyImageSignature(
+      imageKey,
+      c.req.query("expires"),
+      c.req.query("sig"),
+      secret
+    );
+
+    if (!authorized) {
+      const authHeader = c.req.header("Authorization");
+      if (authHeader && authHeader.startsWith("Bearer ")) {
+        const sessionUser = await getUserFromSession(authHeader.substring(7), c.env.SESSIONS);
+        authorized = !!sessionUser && imageKeyOwner(imageKey) === sessionUser.userId;
+      }
+    }
+
+    if (!authorized) {
+      return c.json({ error: "Image access denied" }, 403);
+    }
+
+    const size = c.req.query("size");
+    if (size !== undefined && !isImageVariant(size)) {
+      return c.json({ error: `size must be one of: ${Object.keys(IMAGE_VARIANTS).join(", ")}` }, 400);
+    }
+
+    const object =
+      (size ? await c.env.ITEM_IMAGES.get(buildImageVariantKey(imageKey, size)) : null) ||
+      (await c.env.ITEM_IMAGES.get(imageKey));
+
     if (!object) {
       return c.json({ error: "Image not found" }, 404);
     }
@@ -2130,7 +6067,10 @@ app.get("/api/images/*", async (c) => {
     headers.set("etag", object.httpEtag);
     // Add CORS headers for image loading
     headers.set("Access-Control-Allow-Origin", "*");
-    headers.set("Cache-Control", "public, max-age=31536000");
+    // Signed URLs expire, so only allow private caching for a bounded time
+    const expires = parseInt(c.req.query("expires") || "0", 10);
+    const maxAge = Math.max(0, expires - Math.floor(Date.now() / 1000));
+    headers.set("Cache-Control", `private, max-age=${maxAge}`);
 
     return new Response(object.body, {
       headers,
@@ -2151,4 +6091,27 @@ app.get("/api/images/*", async (c) => {
  */
 app.get("/api/", (c) => c.json({ name: "Cloudflare", status: "ok" }));
 
-export default app;
+/** The daily trigger in wrangler.json; the other, hourly one re-runs saved searches. */
+const TRASH_PURGE_CRON = "0 3 * * *";
+
+export default {
+  fetch: app.fetch,
+  /**
+   * Cron triggers (see wrangler.json): purge trash older than the retention
+   * window once a day, and re-run the next batch of saved searches with
+   * notify set every hour.
+   */
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    if (controller.cron === TRASH_PURGE_CRON) {
+      ctx.waitUntil(
+        purgeExpiredTrash(env.DB, env.ITEM_IMAGES).catch((error) => console.error("Error purging expired trash:", error))
+      );
+      return;
+    }
+    ctx.waitUntil(
+      refreshSavedSearchAlerts(env.DB, (search, since) => savedSearchItemIds(env, search, since)).catch((error) =>
+        console.error("Error re-running saved searches:", error)
+      )
+    );
+  },
+} satisfies ExportedHandler<Env>;
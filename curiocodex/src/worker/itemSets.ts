@@ -0,0 +1,203 @@
+/**
+ * Sets and completion tracking.
+ *
+ * A set belongs to a hobby and holds a checklist of expected members
+ * (slots). Linking one of the hobby's items to a slot fills it; a slot only
+ * counts towards completion while the linked item is owned, so wishlist and
+ * sold items show up as missing.
+ */
+
+import { D1_MAX_BOUND_PARAMETERS } from "./images";
+import type { ItemStatus } from "./itemStatus";
+
+/** Upper bound on checklist size, to keep set payloads reasonable. */
+export const MAX_SET_SLOTS = 500;
+
+export const MAX_SLOT_LABEL_LENGTH = 200;
+
+export interface ItemSetRow {
+  id: string;
+  hobby_id: string;
+  name: string;
+  description: string | null;
+  created_at: number;
+  updated_at: number | null;
+}
+
+/** A slot joined with the item filling it, if any. */
+export interface SetSlotRow {
+  id: string;
+  set_id: string;
+  label: string;
+  position: number;
+  item_id: string | null;
+  item_name: string | null;
+  item_status: ItemStatus | null;
+}
+
+export interface SetProgress {
+  total: number;
+  collected: number;
+  /** Whole-number percentage of slots collected. */
+  percent: number;
+}
+
+export interface SetSlotPayload {
+  id: string;
+  label: string;
+  position: number;
+  item: { id: string; name: string; status: ItemStatus } | null;
+  collected: boolean;
+}
+
+export interface ItemSetPayload extends SetProgress {
+  id: string;
+  hobby_id: string;
+  name: string;
+  description: string | null;
+  created_at: number;
+  updated_at: number | null;
+  /** Labels of slots that are not yet collected, in checklist order. */
+  missing: string[];
+  slots?: SetSlotPayload[];
+}
+
+function isCollected(slot: SetSlotRow): boolean {
+  return slot.item_id !== null && slot.item_status === "owned";
+}
+
+/**
+ * Validate a submitted checklist: an array of member labels.
+ * Labels are trimmed, blanks dropped, and case-insensitive duplicates
+ * removed so each member appears once.
+ */
+export function normalizeChecklist(input: unknown): { checklist: string[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: "Checklist must be an array of member names" };
+  }
+
+  const seen = new Set<string>();
+  const checklist: string[] = [];
+  for (const entry of input) {
+    if (typeof entry !== "string") {
+      return { error: "Checklist entries must be strings" };
+    }
+    const label = entry.trim();
+    if (!label) continue;
+    if (label.length > MAX_SLOT_LABEL_LENGTH) {
+      return { error: `Checklist entries must be ${MAX_SLOT_LABEL_LENGTH} characters or fewer` };
+    }
+    const key = label.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    checklist.push(label);
+  }
+
+  if (checklist.length > MAX_SET_SLOTS) {
+    return { error: `A set can have at most ${MAX_SET_SLOTS} members` };
+  }
+  return { checklist };
+}
+
+export function setProgress(slots: SetSlotRow[]): SetProgress {
+  const collected = slots.filter(isCollected).length;
+  return {
+    total: slots.length,
+    collected,
+    percent: slots.length === 0 ? 0 : Math.round((collected / slots.length) * 100),
+  };
+}
+
+/**
+ * Load the slots of several sets, grouped by set ID and in checklist order.
+ */
+export async function listSetSlots(
+  db: D1Database,
+  setIds: string[]
+): Promise<Map<string, SetSlotRow[]>> {
+  const bySet = new Map<string, SetSlotRow[]>();
+  if (setIds.length === 0) {
+    return bySet;
+  }
+
+  // D1 caps bound parameters per statement, so look sets up in chunks
+  for (let i = 0; i < setIds.length; i += D1_MAX_BOUND_PARAMETERS) {
+    const chunk = setIds.slice(i, i + D1_MAX_BOUND_PARAMETERS);
+    const placeholders = chunk.map(() => "?").join(", ");
+    const rows = await db.prepare(
+      `SELECT s.id, s.set_id, s.label, s.position, i.id as item_id, i.name as item_name, i.status as item_status
+       FROM item_set_slots s
+       LEFT JOIN items i ON s.item_id = i.id AND i.deleted_at IS NULL
+       WHERE s.set_id IN (${placeholders})
+       ORDER BY s.position ASC`
+    )
+      .bind(...chunk)
+      .all<SetSlotRow>();
+
+    for (const row of rows.results) {
+      const list = bySet.get(row.set_id) ?? [];
+      list.push(row);
+      bySet.set(row.set_id, list);
+    }
+  }
+  return bySet;
+}
+
+export function setPayload(
+  set: ItemSetRow,
+  slots: SetSlotRow[],
+  options: { includeSlots?: boolean } = {}
+): ItemSetPayload {
+  const payload: ItemSetPayload = {
+    id: set.id,
+    hobby_id: set.hobby_id,
+    name: set.name,
+    description: set.description,
+    created_at: set.created_at,
+    updated_at: set.updated_at,
+    ...setProgress(slots),
+    missing: slots.filter((slot) => !isCollected(slot)).map((slot) => slot.label),
+  };
+
+  if (options.includeSlots) {
+    payload.slots = slots.map((slot) => ({
+      id: slot.id,
+      label: slot.label,
+      position: slot.position,
+      item:
+        slot.item_id && slot.item_name !== null && slot.item_status !== null
+          ? { id: slot.item_id, name: slot.item_name, status: slot.item_status }
+          : null,
+      collected: isCollected(slot),
+    }));
+  }
+  return payload;
+}
+
+/**
+ * Replace a set's checklist. Slots whose label survives (compared
+ * case-insensitively) keep their ID and linked item; the rest are removed.
+ */
+export async function replaceSetChecklist(
+  db: D1Database,
+  setId: string,
+  checklist: string[]
+): Promise<void> {
+  const existing = await db.prepare(
+    "SELECT id, label, item_id FROM item_set_slots WHERE set_id = ?"
+  )
+    .bind(setId)
+    .all<{ id: string; label: string; item_id: string | null }>();
+
+  const byLabel = new Map(existing.results.map((slot) => [slot.label.toLowerCase(), slot]));
+
+  await db.batch([
+    db.prepare("DELETE FROM item_set_slots WHERE set_id = ?").bind(setId),
+    ...checklist.map((label, position) => {
+      const kept = byLabel.get(label.toLowerCase());
+      return db.prepare(
+        "INSERT INTO item_set_slots (id, set_id, label, position, item_id) VALUES (?, ?, ?, ?, ?)"
+      ).bind(kept?.id ?? crypto.randomUUID(), setId, label, position, kept?.item_id ?? null);
+    }),
+  ]);
+}
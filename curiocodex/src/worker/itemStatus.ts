@@ -0,0 +1,82 @@
+/**
+ * Item ownership status.
+ *
+ * Every item has a status describing its place in the collection: owned,
+ * wished for, on order, or gone (sold, traded, lost). Status changes are
+ * recorded in item_status_history so the collection's story can be told
+ * over time.
+ */
+
+export const ITEM_STATUSES = ["owned", "wishlist", "ordered", "sold", "traded", "lost"] as const;
+
+export type ItemStatus = (typeof ITEM_STATUSES)[number];
+
+/** Status given to items created without one. */
+export const DEFAULT_ITEM_STATUS: ItemStatus = "owned";
+
+export interface StatusHistoryRow {
+  id: string;
+  item_id: string;
+  from_status: ItemStatus | null;
+  to_status: ItemStatus;
+  changed_at: number;
+}
+
+export function isItemStatus(value: unknown): value is ItemStatus {
+  return typeof value === "string" && (ITEM_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a submitted status. Missing or empty values resolve to `fallback`.
+ */
+export function parseItemStatus(
+  value: unknown,
+  fallback: ItemStatus = DEFAULT_ITEM_STATUS
+): { status: ItemStatus } | { error: string } {
+  if (value === undefined || value === null || value === "") {
+    return { status: fallback };
+  }
+  const normalized = typeof value === "string" ? value.trim().toLowerCase() : value;
+  if (!isItemStatus(normalized)) {
+    return { error: `Status must be one of: ${ITEM_STATUSES.join(", ")}` };
+  }
+  return { status: normalized };
+}
+
+/**
+ * Build the history insert for a status change, or null when the status is
+ * unchanged. `from` is null for newly created items.
+ */
+export function statusChangeStatement(
+  db: D1Database,
+  itemId: string,
+  from: ItemStatus | null,
+  to: ItemStatus
+): D1PreparedStatement | null {
+  if (from === to) {
+    return null;
+  }
+  return db.prepare(
+    "INSERT INTO item_status_history (id, item_id, from_status, to_status, changed_at) VALUES (?, ?, ?, ?, ?)"
+  ).bind(crypto.randomUUID(), itemId, from, to, Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Parse a comma-separated status filter from a query string
+ * (e.g. "owned,ordered"). An empty filter matches every status.
+ */
+export function parseStatusFilter(param: string | undefined): { statuses: ItemStatus[] } | { error: string } {
+  const values = (param || "")
+    .split(",")
+    .map((value) => value.trim().toLowerCase())
+    .filter((value) => value.length > 0);
+
+  const statuses: ItemStatus[] = [];
+  for (const value of values) {
+    if (!isItemStatus(value)) {
+      return { error: `Unknown status filter: ${value}` };
+    }
+    if (!statuses.includes(value)) statuses.push(value);
+  }
+  return { statuses };
+}
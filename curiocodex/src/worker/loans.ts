@@ -0,0 +1,153 @@
+/**
+ * Item loans: lending items to other people.
+ *
+ * A loan records the borrower, the date the item went out, an optional due
+ * date and, once closed, the date it came back. An item has at most one open
+ * loan; an open loan past its due date is overdue.
+ */
+
+export const MAX_BORROWER_NAME_LENGTH = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface LoanRow {
+  id: string;
+  item_id: string;
+  borrower_name: string;
+  borrower_contact: string | null;
+  lent_date: string;
+  due_date: string | null;
+  returned_date: string | null;
+  notes: string | null;
+  created_at: number;
+  closed_at: number | null;
+}
+
+export interface LoanInput {
+  borrowerName: string;
+  borrowerContact: string | null;
+  lentDate: string;
+  dueDate: string | null;
+  notes: string | null;
+}
+
+export interface LoanPayload {
+  id: string;
+  item_id: string;
+  borrower_name: string;
+  borrower_contact: string | null;
+  lent_date: string;
+  due_date: string | null;
+  returned_date: string | null;
+  notes: string | null;
+  overdue: boolean;
+  created_at: number;
+}
+
+/** Today's date (UTC) as YYYY-MM-DD. */
+export function todayDate(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse an optional YYYY-MM-DD date. Returns undefined for a blank value and
+ * null for an invalid one.
+ */
+function parseLoanDate(value: unknown): string | null | undefined {
+  const date = typeof value === "string" ? value.trim() : "";
+  if (value === undefined || value === null || !date) {
+    return undefined;
+  }
+  const parsed = DATE_PATTERN.test(date) ? new Date(`${date}T00:00:00Z`) : null;
+  if (!parsed || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Validate a new loan. The lent date defaults to today.
+ */
+export function parseLoanInput(body: Record<string, unknown>): { values: LoanInput } | { error: string } {
+  const borrowerName = typeof body.borrowerName === "string" ? body.borrowerName.trim() : "";
+  if (!borrowerName) {
+    return { error: "Borrower name is required" };
+  }
+  if (borrowerName.length > MAX_BORROWER_NAME_LENGTH) {
+    return { error: `Borrower names must be ${MAX_BORROWER_NAME_LENGTH} characters or fewer` };
+  }
+
+  const lentDate = parseLoanDate(body.lentDate);
+  if (lentDate === null) {
+    return { error: "Lent date must be a date (YYYY-MM-DD)" };
+  }
+  const dueDate = parseLoanDate(body.dueDate);
+  if (dueDate === null) {
+    return { error: "Due date must be a date (YYYY-MM-DD)" };
+  }
+
+  const values: LoanInput = {
+    borrowerName,
+    borrowerContact:
+      typeof body.borrowerContact === "string" && body.borrowerContact.trim() ? body.borrowerContact.trim() : null,
+    lentDate: lentDate ?? todayDate(),
+    dueDate: dueDate ?? null,
+    notes: typeof body.notes === "string" && body.notes.trim() ? body.notes.trim() : null,
+  };
+  if (values.dueDate && values.dueDate < values.lentDate) {
+    return { error: "Due date cannot be before the lent date" };
+  }
+  return { values };
+}
+
+/**
+ * Validate the date a loan was closed. Defaults to today and may not be
+ * earlier than the lent date.
+ */
+export function parseReturnedDate(value: unknown, loan: Pick<LoanRow, "lent_date">): { date: string } | { error: string } {
+  const date = parseLoanDate(value);
+  if (date === null) {
+    return { error: "Returned date must be a date (YYYY-MM-DD)" };
+  }
+  const returnedDate = date ?? todayDate();
+  if (returnedDate < loan.lent_date) {
+    return { error: "Returned date cannot be before the lent date" };
+  }
+  return { date: returnedDate };
+}
+
+export function isLoanOverdue(loan: Pick<LoanRow, "due_date" | "returned_date">, today = todayDate()): boolean {
+  return loan.returned_date === null && loan.due_date !== null && loan.due_date < today;
+}
+
+export function loanPayload(loan: LoanRow, today = todayDate()): LoanPayload {
+  return {
+    id: loan.id,
+    item_id: loan.item_id,
+    borrower_name: loan.borrower_name,
+    borrower_contact: loan.borrower_contact,
+    lent_date: loan.lent_date,
+    due_date: loan.due_date,
+    returned_date: loan.returned_date,
+    notes: loan.notes,
+    overdue: isLoanOverdue(loan, today),
+    created_at: loan.created_at,
+  };
+}
+
+/**
+ * Open loans for the items of a hobby, keyed by item ID.
+ */
+export async function listOpenHobbyLoans(db: D1Database, hobbyId: string): Promise<Map<string, LoanRow>> {
+  const rows = await db.prepare(
+    `SELECT l.id, l.item_id, l.borrower_name, l.borrower_contact, l.lent_date, l.due_date, l.returned_date,
+       l.notes, l.created_at, l.closed_at
+     FROM item_loans l
+     INNER JOIN items i ON l.item_id = i.id
+     WHERE i.hobby_id = ? AND l.returned_date IS NULL`
+  )
+    .bind(hobbyId)
+    .all<LoanRow>();
+
+  return new Map(rows.results.map((row) => [row.item_id, row]));
+}
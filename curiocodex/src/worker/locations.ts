@@ -0,0 +1,224 @@
+/**
+ * Physical storage locations.
+ *
+ * Each user has a tree of locations (a room holds shelves, a shelf holds
+ * boxes). Items reference the innermost location they are kept in, and
+ * their whereabouts are reported as the path from the top-level location
+ * down, e.g. "Study › Bookcase › Box 3".
+ */
+
+export const LOCATION_KINDS = ["room", "shelf", "box", "other"] as const;
+
+export type LocationKind = (typeof LOCATION_KINDS)[number];
+
+/** Deepest nesting allowed, counting the top-level location. */
+export const MAX_LOCATION_DEPTH = 8;
+
+export const MAX_LOCATION_NAME_LENGTH = 100;
+
+const PATH_SEPARATOR = " › ";
+
+export interface LocationRow {
+  id: string;
+  user_id: string;
+  parent_id: string | null;
+  name: string;
+  kind: LocationKind;
+  notes: string | null;
+  created_at: number;
+}
+
+export interface LocationInput {
+  name: string;
+  kind: LocationKind;
+  parentId: string | null;
+  notes: string | null;
+}
+
+/** A location as attached to an item in API responses. */
+export interface ItemLocationPayload {
+  id: string;
+  name: string;
+  kind: LocationKind;
+  path: string;
+}
+
+function isLocationKind(value: unknown): value is LocationKind {
+  return typeof value === "string" && (LOCATION_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a create or update request body. With `partial`, absent keys are
+ * left out of the result so updates only touch what was sent.
+ */
+export function parseLocationInput(
+  body: Record<string, unknown>,
+  options: { partial?: boolean } = {}
+): { values: Partial<LocationInput> } | { error: string } {
+  const values: Partial<LocationInput> = {};
+
+  if (body.name !== undefined || !options.partial) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return { error: "Location name is required" };
+    }
+    if (name.length > MAX_LOCATION_NAME_LENGTH) {
+      return { error: `Location names must be ${MAX_LOCATION_NAME_LENGTH} characters or fewer` };
+    }
+    values.name = name;
+  }
+
+  if (body.kind !== undefined || !options.partial) {
+    const kind = body.kind === undefined || body.kind === null || body.kind === "" ? "other" : body.kind;
+    if (!isLocationKind(kind)) {
+      return { error: `Location kind must be one of: ${LOCATION_KINDS.join(", ")}` };
+    }
+    values.kind = kind;
+  }
+
+  if (body.parentId !== undefined || !options.partial) {
+    if (body.parentId !== undefined && body.parentId !== null && typeof body.parentId !== "string") {
+      return { error: "parentId must be a location ID or null" };
+    }
+    values.parentId = (body.parentId as string | null | undefined) || null;
+  }
+
+  if (body.notes !== undefined || !options.partial) {
+    values.notes = typeof body.notes === "string" && body.notes.trim() ? body.notes.trim() : null;
+  }
+
+  return { values };
+}
+
+export async function listUserLocations(db: D1Database, userId: string): Promise<LocationRow[]> {
+  const rows = await db.prepare(
+    `SELECT id, user_id, parent_id, name, kind, notes, created_at
+     FROM storage_locations
+     WHERE user_id = ?
+     ORDER BY name COLLATE NOCASE`
+  )
+    .bind(userId)
+    .all<LocationRow>();
+  return rows.results;
+}
+
+/**
+ * Chain of locations from the top level down to `locationId`.
+ * Stops early if the data somehow contains a loop.
+ */
+export function locationAncestry(locations: LocationRow[], locationId: string): LocationRow[] {
+  const byId = new Map(locations.map((location) => [location.id, location]));
+  const chain: LocationRow[] = [];
+  const seen = new Set<string>();
+
+  let current = byId.get(locationId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return chain;
+}
+
+export function locationPath(locations: LocationRow[], locationId: string): string {
+  return locationAncestry(locations, locationId)
+    .map((location) => location.name)
+    .join(PATH_SEPARATOR);
+}
+
+/**
+ * IDs of every location nested (at any depth) under `locationId`.
+ */
+export function descendantLocationIds(locations: LocationRow[], locationId: string): string[] {
+  const children = new Map<string, string[]>();
+  for (const location of locations) {
+    if (!location.parent_id) continue;
+    children.set(location.parent_id, [...(children.get(location.parent_id) ?? []), location.id]);
+  }
+
+  const result: string[] = [];
+  const queue = [...(children.get(locationId) ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === locationId || result.includes(id)) continue;
+    result.push(id);
+    queue.push(...(children.get(id) ?? []));
+  }
+  return result;
+}
+
+/**
+ * Check that `locationId` (null for a new location) can be placed under
+ * `parentId`: the parent must exist, must not be the location itself or one
+ * of its descendants, and the tree must stay within MAX_LOCATION_DEPTH.
+ */
+export function validateLocationParent(
+  locations: LocationRow[],
+  locationId: string | null,
+  parentId: string | null
+): string | null {
+  if (!parentId) {
+    return null;
+  }
+  if (!locations.some((location) => location.id === parentId)) {
+    return "Parent location not found";
+  }
+  if (locationId && (parentId === locationId || descendantLocationIds(locations, locationId).includes(parentId))) {
+    return "A location cannot be placed inside itself";
+  }
+
+  // Depth of the moved subtree, counting the location itself
+  let subtreeDepth = 1;
+  if (locationId) {
+    for (const id of descendantLocationIds(locations, locationId)) {
+      const depthBelow = locationAncestry(locations, id).findIndex((location) => location.id === locationId);
+      subtreeDepth = Math.max(subtreeDepth, locationAncestry(locations, id).length - depthBelow);
+    }
+  }
+  if (locationAncestry(locations, parentId).length + subtreeDepth > MAX_LOCATION_DEPTH) {
+    return `Locations can be nested at most ${MAX_LOCATION_DEPTH} levels deep`;
+  }
+  return null;
+}
+
+export function itemLocationPayload(
+  locations: LocationRow[],
+  locationId: string | null
+): ItemLocationPayload | null {
+  const location = locationId ? locations.find((entry) => entry.id === locationId) : undefined;
+  if (!location) {
+    return null;
+  }
+  return {
+    id: location.id,
+    name: location.name,
+    kind: location.kind,
+    path: locationPath(locations, location.id),
+  };
+}
+
+/**
+ * Resolve a submitted item locationId. Undefined means the client didn't
+ * send one; null or "" means the item has no location.
+ */
+export async function resolveItemLocation(
+  db: D1Database,
+  userId: string,
+  value: unknown
+): Promise<{ location: ItemLocationPayload | null | undefined } | { error: string }> {
+  if (value === undefined) {
+    return { location: undefined };
+  }
+  if (value === null || value === "") {
+    return { location: null };
+  }
+  if (typeof value !== "string") {
+    return { error: "locationId must be a location ID or null" };
+  }
+
+  const location = itemLocationPayload(await listUserLocations(db, userId), value);
+  if (!location) {
+    return { error: "Location not found" };
+  }
+  return { location };
+}
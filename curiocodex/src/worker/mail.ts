@@ -0,0 +1,135 @@
+/**
+ * Outgoing mail for account emails (password resets, email verification).
+ *
+ * Routes send through a MailTransport so the delivery mechanism can be
+ * swapped without touching them. Deployments with MAIL_API_KEY set deliver
+ * through the Resend HTTP API. Local dev sets MAIL_LOG_LINKS so messages are
+ * written to the console and the links can be copied from the log. With
+ * neither, sending fails: the links are live account tokens and must never
+ * end up in production logs.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface MailConfig {
+  /** API key for the HTTP mail provider. */
+  MAIL_API_KEY?: string;
+  /** Sender address, e.g. "CurioCodex <no-reply@example.com>". */
+  MAIL_FROM?: string;
+  /** "true" to log messages, links included, to the console when there is no API key (local dev only). */
+  MAIL_LOG_LINKS?: string;
+  /** Transport used instead of the configured one (tests). */
+  MAIL_TRANSPORT?: MailTransport;
+}
+
+const DEFAULT_FROM = "CurioCodex <no-reply@curiocodex.app>";
+const RESEND_ENDPOINT = "https://api.resend.com/emails";
+
+/**
+ * Local stand-in that logs each message instead of delivering it.
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.info(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    },
+  };
+}
+
+/**
+ * Transport for deployments without mail configured: every send fails
+ * without logging the message.
+ */
+function createUnconfiguredTransport(): MailTransport {
+  return {
+    async send() {
+      throw new Error("Mail is not configured: set MAIL_API_KEY (or MAIL_LOG_LINKS=true in local dev)");
+    },
+  };
+}
+
+/**
+ * Deliver mail through the Resend HTTP API.
+ */
+export function createResendTransport(apiKey: string, from: string): MailTransport {
+  return {
+    async send(message) {
+      const response = await fetch(RESEND_ENDPOINT, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mail delivery failed with status ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+/**
+ * Pick the transport for the current environment.
+ */
+export function createMailTransport(config: MailConfig): MailTransport {
+  if (config.MAIL_TRANSPORT) {
+    return config.MAIL_TRANSPORT;
+  }
+  if (config.MAIL_API_KEY && config.MAIL_API_KEY.trim()) {
+    return createResendTransport(config.MAIL_API_KEY, config.MAIL_FROM || DEFAULT_FROM);
+  }
+  if (config.MAIL_LOG_LINKS === "true") {
+    return createConsoleTransport();
+  }
+  return createUnconfiguredTransport();
+}
+
+/**
+ * Email sent in response to POST /api/auth/forgot.
+ */
+export function passwordResetMessage(to: string, resetUrl: string, ttlMinutes: number): MailMessage {
+  return {
+    to,
+    subject: "Reset your CurioCodex password",
+    text: [
+      "Someone (hopefully you) asked to reset the password for your CurioCodex account.",
+      "",
+      `Choose a new password here: ${resetUrl}`,
+      "",
+      `This link expires in ${ttlMinutes} minutes and can only be used once.`,
+      "If you didn't ask for this, you can ignore this email.",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Email sent after registration (and on request) to confirm an address.
+ */
+export function emailVerificationMessage(to: string, verifyUrl: string, ttlHours: number): MailMessage {
+  return {
+    to,
+    subject: "Confirm your CurioCodex email address",
+    text: [
+      "Welcome to CurioCodex!",
+      "",
+      `Confirm your email address here: ${verifyUrl}`,
+      "",
+      `This link expires in ${ttlHours} hours.`,
+    ].join("\n"),
+  };
+}
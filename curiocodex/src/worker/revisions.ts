@@ -0,0 +1,225 @@
+/**
+ * Item and hobby revisions.
+ *
+ * Before an item or hobby is overwritten, its editable fields are saved as a
+ * snapshot. When revisions are listed, each snapshot is compared with the
+ * version that replaced it (the next snapshot, or the current record for the
+ * newest one) to show which fields that edit changed.
+ */
+
+import { parseCustomFieldValues, type CustomFieldValues } from "./customFields";
+import type { ItemStatus } from "./itemStatus";
+import { itemLocationPayload, type LocationRow } from "./locations";
+import { centsToAmount, type ValuationRow } from "./valuation";
+
+/** Item columns captured in a revision. */
+export const ITEM_REVISION_COLUMNS = [
+  "name",
+  "description",
+  "category",
+  "tags",
+  "custom_fields",
+  "purchase_price_cents",
+  "purchase_date",
+  "currency",
+  "estimated_value_cents",
+  "status",
+  "location_id",
+];
+
+/** The revisioned columns of an item, as read from D1. */
+export interface ItemRevisionRow extends ValuationRow {
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string | null;
+  custom_fields: string | null;
+  status: ItemStatus;
+  location_id: string | null;
+}
+
+export interface ItemSnapshot extends ValuationRow {
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  custom_fields: CustomFieldValues;
+  status: ItemStatus;
+  location_id: string | null;
+}
+
+export interface HobbySnapshot {
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  item_categories: string[];
+}
+
+export interface RevisionRow {
+  id: number;
+  snapshot: string;
+  created_at: number;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+function parseTags(stored: string | null): string[] {
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter((tag): tag is string => typeof tag === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Item category names in a stable order, so snapshots compare cleanly. */
+export function sortCategoryNames(names: string[]): string[] {
+  return [...names].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()) || a.localeCompare(b));
+}
+
+export function itemSnapshot(row: ItemRevisionRow): ItemSnapshot {
+  return {
+    name: row.name,
+    description: row.description,
+    category: row.category,
+    tags: parseTags(row.tags),
+    custom_fields: parseCustomFieldValues(row.custom_fields),
+    purchase_price_cents: row.purchase_price_cents,
+    purchase_date: row.purchase_date,
+    currency: row.currency,
+    estimated_value_cents: row.estimated_value_cents,
+    status: row.status,
+    location_id: row.location_id,
+  };
+}
+
+/**
+ * An item snapshot as returned by the API, with amounts in major units and
+ * the location as a path (null if it has since been deleted).
+ */
+export function itemSnapshotPayload(snapshot: ItemSnapshot, locations: LocationRow[]): Record<string, unknown> {
+  return {
+    name: snapshot.name,
+    description: snapshot.description,
+    category: snapshot.category,
+    tags: snapshot.tags,
+    custom_fields: snapshot.custom_fields,
+    purchase_price: centsToAmount(snapshot.purchase_price_cents),
+    purchase_date: snapshot.purchase_date,
+    currency: snapshot.currency,
+    estimated_value: centsToAmount(snapshot.estimated_value_cents),
+    status: snapshot.status,
+    location: itemLocationPayload(locations, snapshot.location_id)?.path ?? null,
+  };
+}
+
+/**
+ * Load a hobby's revisioned fields, including its item category definitions.
+ */
+export async function loadHobbySnapshot(db: D1Database, hobbyId: string): Promise<HobbySnapshot | null> {
+  const hobby = await db.prepare("SELECT name, description, category, tags FROM hobbies WHERE id = ?")
+    .bind(hobbyId)
+    .first<{ name: string; description: string | null; category: string | null; tags: string | null }>();
+  if (!hobby) {
+    return null;
+  }
+
+  const categories = await db.prepare("SELECT name FROM hobby_item_categories WHERE hobby_id = ?")
+    .bind(hobbyId)
+    .all<{ name: string }>();
+
+  return {
+    name: hobby.name,
+    description: hobby.description,
+    category: hobby.category,
+    tags: parseTags(hobby.tags),
+    item_categories: sortCategoryNames(categories.results.map((row) => row.name)),
+  };
+}
+
+/**
+ * Fields that differ between two versions, in the order they appear.
+ */
+export function diffFields(before: object, after: object): FieldChange[] {
+  const from = before as Record<string, unknown>;
+  const to = after as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]));
+  return fields
+    .filter((field) => JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null))
+    .map((field) => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+export function itemRevisionStatement(db: D1Database, itemId: string, snapshot: ItemSnapshot): D1PreparedStatement {
+  return db.prepare("INSERT INTO item_revisions (item_id, snapshot, created_at) VALUES (?, ?, ?)").bind(
+    itemId,
+    JSON.stringify(snapshot),
+    Math.floor(Date.now() / 1000)
+  );
+}
+
+export function hobbyRevisionStatement(db: D1Database, hobbyId: string, snapshot: HobbySnapshot): D1PreparedStatement {
+  return db.prepare("INSERT INTO hobby_revisions (hobby_id, snapshot, created_at) VALUES (?, ?, ?)").bind(
+    hobbyId,
+    JSON.stringify(snapshot),
+    Math.floor(Date.now() / 1000)
+  );
+}
+
+/** Revisions of an item or hobby, newest first. */
+export async function listRevisions(
+  db: D1Database,
+  kind: "item" | "hobby",
+  ownerId: string
+): Promise<RevisionRow[]> {
+  const rows = await db.prepare(
+    `SELECT id, snapshot, created_at FROM ${kind}_revisions WHERE ${kind}_id = ? ORDER BY id DESC`
+  )
+    .bind(ownerId)
+    .all<RevisionRow>();
+  return rows.results;
+}
+
+/**
+ * Load one revision's snapshot. Returns null when the ID is malformed or does
+ * not belong to the given item or hobby.
+ */
+export async function findRevisionSnapshot<T>(
+  db: D1Database,
+  kind: "item" | "hobby",
+  ownerId: string,
+  revisionId: string
+): Promise<T | null> {
+  if (!/^\d+$/.test(revisionId)) {
+    return null;
+  }
+  const row = await db.prepare(`SELECT snapshot FROM ${kind}_revisions WHERE id = ? AND ${kind}_id = ?`)
+    .bind(Number(revisionId), ownerId)
+    .first<{ snapshot: string }>();
+  return row ? (JSON.parse(row.snapshot) as T) : null;
+}
+
+/**
+ * Shape revisions for the API, newest first. Each lists the fields changed by
+ * the edit that replaced it.
+ */
+export function revisionPayloads<T>(
+  rows: RevisionRow[],
+  current: T,
+  toPayload: (snapshot: T) => Record<string, unknown>
+) {
+  const versions = rows.map((row) => toPayload(JSON.parse(row.snapshot) as T));
+  const currentVersion = toPayload(current);
+
+  return rows.map((row, index) => ({
+    id: String(row.id),
+    created_at: row.created_at,
+    snapshot: versions[index],
+    changes: diffFields(versions[index], index === 0 ? currentVersion : versions[index - 1]),
+  }));
+}
@@ -0,0 +1,285 @@
+/**
+ * Saved searches ("smart collections").
+ *
+ * A saved search stores a collection search under a name. It keeps no copy
+ * of its results: opening it runs the search again, so it always reflects
+ * the collection as it is now. When notify is set, the scheduled handler
+ * re-runs the search over the items added since its last check and records
+ * the ones it matches; items that were not matched before are flagged as new
+ * until the user has seen them.
+ */
+
+import {
+  SEARCH_MODES,
+  SEARCH_SORTS,
+  isSearchMode,
+  isSearchSort,
+  parseSearchFilters,
+  type SearchMode,
+  type SearchSort,
+} from "./search";
+import { parseSearchQuery, type QueryError } from "./searchQuery";
+
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 100;
+
+export const MAX_SAVED_SEARCHES = 50;
+
+/**
+ * Saved searches re-run per scheduled check, least recently checked first,
+ * so one run stays short however many searches have notify set.
+ */
+export const SAVED_SEARCH_ALERT_BATCH = 25;
+
+/** Pages of newly added matches read per saved search and check. */
+export const MAX_SAVED_SEARCH_ALERT_PAGES = 4;
+
+/**
+ * Similarity an item found only by meaning needs before it is flagged as a
+ * new match. Semantic search always returns the nearest items, however far
+ * away they are, so without it almost any new item would be flagged.
+ */
+export const SAVED_SEARCH_MIN_SIMILARITY = 0.7;
+
+export interface SavedSearchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  mode: SearchMode;
+  /** JSON object in the shape of the /api/search `filters` option. */
+  filters: string;
+  sort: SearchSort;
+  notify: number;
+  checked_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  query: string;
+  mode: SearchMode;
+  filters: Record<string, unknown>;
+  sort: SearchSort;
+  notify: boolean;
+}
+
+/**
+ * Validate a create or update request body. With `partial`, absent keys are
+ * left out of the result so updates only touch what was sent. Queries and
+ * filters are checked the way /api/search checks them, so a saved search
+ * always runs.
+ */
+export function parseSavedSearchInput(
+  body: Record<string, unknown>,
+  options: { partial?: boolean } = {}
+): { values: Partial<SavedSearchInput> } | { error: string; queryErrors?: QueryError[] } {
+  const values: Partial<SavedSearchInput> = {};
+
+  if (body.name !== undefined || !options.partial) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return { error: "Saved search name is required" };
+    }
+    if (name.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+      return { error: `Saved search names must be ${MAX_SAVED_SEARCH_NAME_LENGTH} characters or fewer` };
+    }
+    values.name = name;
+  }
+
+  if (body.query !== undefined || !options.partial) {
+    const query = typeof body.query === "string" ? body.query.trim() : "";
+    if (!query) {
+      return { error: "Search query is required" };
+    }
+    const parsed = parseSearchQuery(query);
+    if ("errors" in parsed) {
+      return { error: parsed.errors[0].message, queryErrors: parsed.errors };
+    }
+    values.query = query;
+  }
+
+  if (body.mode !== undefined || !options.partial) {
+    const mode = body.mode ?? "hybrid";
+    if (!isSearchMode(mode)) {
+      return { error: `mode must be one of: ${SEARCH_MODES.join(", ")}` };
+    }
+    values.mode = mode;
+  }
+
+  if (body.filters !== undefined || !options.partial) {
+    const filters = body.filters ?? {};
+    const parsed = parseSearchFilters(filters);
+    if ("error" in parsed) {
+      return { error: parsed.error };
+    }
+    values.filters = filters as Record<string, unknown>;
+  }
+
+  if (body.sort !== undefined || !options.partial) {
+    const sort = body.sort ?? "relevance";
+    if (!isSearchSort(sort)) {
+      return { error: `sort must be one of: ${SEARCH_SORTS.join(", ")}` };
+    }
+    values.sort = sort;
+  }
+
+  if (body.notify !== undefined || !options.partial) {
+    if (body.notify !== undefined && typeof body.notify !== "boolean") {
+      return { error: "notify must be true or false" };
+    }
+    values.notify = body.notify === true;
+  }
+
+  return { values };
+}
+
+/** A saved search as returned by the API, with the number of new matches. */
+export function savedSearchResponse(row: SavedSearchRow, newCount: number) {
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    mode: row.mode,
+    filters: JSON.parse(row.filters) as Record<string, unknown>,
+    sort: row.sort,
+    notify: row.notify === 1,
+    new_count: newCount,
+    checked_at: row.checked_at,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * The search a saved search runs, in the shape /api/search accepts.
+ */
+export function savedSearchRequest(row: SavedSearchRow) {
+  return {
+    query: row.query,
+    mode: row.mode,
+    filters: JSON.parse(row.filters) as Record<string, unknown>,
+    sort: row.sort,
+  };
+}
+
+/**
+ * A user's saved searches by name, each with its number of new matches.
+ * Matches that have since been trashed are not counted.
+ */
+export async function listSavedSearches(
+  db: D1Database,
+  userId: string
+): Promise<(SavedSearchRow & { new_count: number })[]> {
+  const result = await db.prepare(
+    `SELECT s.*,
+       (SELECT COUNT(*) FROM saved_search_hits hit
+        INNER JOIN items i ON hit.item_id = i.id
+        WHERE hit.saved_search_id = s.id AND hit.is_new = 1 AND i.deleted_at IS NULL) as new_count
+     FROM saved_searches s
+     WHERE s.user_id = ?
+     ORDER BY s.name COLLATE NOCASE, s.created_at`
+  )
+    .bind(userId)
+    .all<SavedSearchRow & { new_count: number }>();
+  return result.results;
+}
+
+export async function getSavedSearch(db: D1Database, userId: string, id: string): Promise<SavedSearchRow | null> {
+  return db.prepare("SELECT * FROM saved_searches WHERE id = ? AND user_id = ?")
+    .bind(id, userId)
+    .first<SavedSearchRow>();
+}
+
+/**
+ * Whether a search result is a strong enough match to alert on: keyword
+ * matches always are, semantic ones from SAVED_SEARCH_MIN_SIMILARITY.
+ */
+export function isAlertableMatch(item: { id: string; similarity?: number; matched_by?: string[] }): boolean {
+  if (item.matched_by?.includes("text")) return true;
+  return item.similarity === undefined || item.similarity >= SAVED_SEARCH_MIN_SIMILARITY;
+}
+
+/**
+ * Remember items a saved search matched. Items it had not matched before are
+ * stored as new when `asNew` is set (matches found in the background) and as
+ * already seen otherwise. Returns the IDs of the items not matched before.
+ */
+export async function recordSavedSearchHits(
+  db: D1Database,
+  savedSearchId: string,
+  itemIds: string[],
+  asNew: boolean
+): Promise<string[]> {
+  if (itemIds.length === 0) return [];
+
+  const known = await db.prepare(
+    `SELECT item_id FROM saved_search_hits
+     WHERE saved_search_id = ? AND item_id IN (${itemIds.map(() => "?").join(", ")})`
+  )
+    .bind(savedSearchId, ...itemIds)
+    .all<{ item_id: string }>();
+  const knownIds = new Set(known.results.map((row) => row.item_id));
+  const unseen = itemIds.filter((id) => !knownIds.has(id));
+
+  if (unseen.length > 0) {
+    const now = Math.floor(Date.now() / 1000);
+    await db.batch(
+      unseen.map((itemId) =>
+        db.prepare(
+          "INSERT INTO saved_search_hits (saved_search_id, item_id, is_new, found_at) VALUES (?, ?, ?, ?)"
+        ).bind(savedSearchId, itemId, asNew ? 1 : 0, now)
+      )
+    );
+  }
+  return unseen;
+}
+
+/** IDs of the items flagged as new matches of a saved search. */
+export async function listNewSavedSearchHits(db: D1Database, savedSearchId: string): Promise<Set<string>> {
+  const result = await db.prepare("SELECT item_id FROM saved_search_hits WHERE saved_search_id = ? AND is_new = 1")
+    .bind(savedSearchId)
+    .all<{ item_id: string }>();
+  return new Set(result.results.map((row) => row.item_id));
+}
+
+/** Clear the new flag on every match of a saved search. */
+export async function markSavedSearchHitsSeen(db: D1Database, savedSearchId: string): Promise<void> {
+  await db.prepare("UPDATE saved_search_hits SET is_new = 0 WHERE saved_search_id = ? AND is_new = 1")
+    .bind(savedSearchId)
+    .run();
+}
+
+/**
+ * Re-run the next batch of saved searches with notify set, those checked
+ * longest ago (or never) first, and flag the items each one matches for the
+ * first time. `runSearch` returns the IDs of the items added since the given
+ * time that a saved search matches; each search looks at what was added
+ * since its last check. A search that fails is logged and skipped, so one
+ * bad search does not hold up the rest. Run from the scheduled handler.
+ */
+export async function refreshSavedSearchAlerts(
+  db: D1Database,
+  runSearch: (search: SavedSearchRow, since: number) => Promise<string[]>,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<{ searches: number; newHits: number }> {
+  // NULL sorts first, so searches that were never checked go ahead of the rest
+  const searches = await db.prepare("SELECT * FROM saved_searches WHERE notify = 1 ORDER BY checked_at ASC LIMIT ?")
+    .bind(SAVED_SEARCH_ALERT_BATCH)
+    .all<SavedSearchRow>();
+
+  let newHits = 0;
+  for (const search of searches.results) {
+    try {
+      // A search never checked before starts from now, with nothing new yet
+      const since = search.checked_at ?? now;
+      const itemIds = await runSearch(search, since);
+      newHits += (await recordSavedSearchHits(db, search.id, itemIds, search.checked_at !== null)).length;
+      await db.prepare("UPDATE saved_searches SET checked_at = ? WHERE id = ?").bind(now, search.id).run();
+    } catch (error) {
+      console.error("Error re-running saved search:", search.id, error);
+    }
+  }
+
+  return { searches: searches.results.length, newHits };
+}
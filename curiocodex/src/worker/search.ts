@@ -0,0 +1,757 @@
+/**
+ * Full-text and hybrid search over a user's hobbies and items.
+ *
+ * hobbies_fts and items_fts (migrations 0018 and 0020) mirror the searchable
+ * columns and are kept in sync by triggers, with the ID of the row they index
+ * in an unindexed id column.
+ * Every word of the query has to match, either fully or as the start of a
+ * word, and results are ranked with BM25 so a hit in the name counts for
+ * more than one in the description or notes. Matches come back marked with
+ * <mark> tags in a highlighted name and a short snippet.
+ *
+ * Hybrid search runs this next to semantic (Vectorize) search and merges
+ * the two rankings with reciprocal rank fusion: each result scores
+ * 1 / (k + rank) for every ranking it appears in. Only ranks are used, so
+ * BM25 scores and cosine similarities never have to be compared directly,
+ * and results found by both signals rise to the top.
+ */
+
+import { parseItemStatus, type ItemStatus } from "./itemStatus";
+import { dateSpan, emptyQueryClauses, type QueryClauses } from "./searchQuery";
+
+export const HIGHLIGHT_OPEN = "<mark>";
+export const HIGHLIGHT_CLOSE = "</mark>";
+
+/** Which search found a result. */
+export type SearchSignal = "semantic" | "text";
+
+/**
+ * Reciprocal rank fusion constant. Larger values flatten the difference
+ * between the top ranks; 60 is the value from the original RRF paper.
+ */
+export const RRF_K = 60;
+
+/** Words shown around the match in a snippet. */
+const SNIPPET_TOKENS = 12;
+
+/**
+ * BM25 column weights, in index column order:
+ * name, description, tags, category (and notes for items).
+ */
+const HOBBY_WEIGHTS = "10.0, 2.0, 5.0, 3.0";
+const ITEM_WEIGHTS = "10.0, 2.0, 5.0, 3.0, 1.0";
+
+export interface SearchHobbyRow {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string | null;
+  created_at: number;
+}
+
+export interface SearchItemRow extends SearchHobbyRow {
+  hobby_id: string;
+  status: ItemStatus;
+}
+
+/** Full-text matches carry their BM25 relevance (higher is better) and highlights. */
+interface TextMatch {
+  score: number;
+  name_highlight: string;
+  snippet: string;
+}
+
+export type TextSearchHobbyRow = SearchHobbyRow & TextMatch;
+
+export type TextSearchItemRow = SearchItemRow & TextMatch;
+
+/** How a search ranks results: by meaning, by keywords or by both fused. */
+export const SEARCH_MODES = ["semantic", "text", "hybrid"] as const;
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export const SEARCH_SORTS = ["relevance", "newest", "oldest", "name"] as const;
+
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+/**
+ * Most matches Vectorize returns for one query when metadata is returned
+ * with them. Semantic rankings stop here, however far a search is paged.
+ */
+export const VECTORIZE_MAX_TOP_K = 50;
+
+export const DEFAULT_IMAGE_MATCHES = 10;
+export const MAX_IMAGE_MATCHES = 20;
+
+/**
+ * Cosine similarity from which an image search match is reported as a
+ * likely duplicate of the photographed object.
+ */
+export const DUPLICATE_SIMILARITY = 0.85;
+
+/** Tags listed in the tag facet. */
+const TAG_FACET_LIMIT = 20;
+
+/**
+ * Filters narrowing a search. Category, status and has-image describe items,
+ * so hobbies are only returned when none of those are set. Dates are unix
+ * seconds; createdUntil is exclusive. Clauses typed into the query itself
+ * (see searchQuery.ts) are kept apart, as facets always apply them.
+ */
+export interface SearchFilters {
+  hobbyId: string | null;
+  category: string | null;
+  tags: string[];
+  createdFrom: number | null;
+  createdUntil: number | null;
+  hasImage: boolean | null;
+  status: ItemStatus | null;
+  clauses: QueryClauses;
+}
+
+export const NO_SEARCH_FILTERS: SearchFilters = {
+  hobbyId: null,
+  category: null,
+  tags: [],
+  createdFrom: null,
+  createdUntil: null,
+  hasImage: null,
+  status: null,
+  clauses: emptyQueryClauses(),
+};
+
+export interface SearchFacets {
+  categories: { value: string; count: number }[];
+  hobbies: { id: string; name: string; count: number }[];
+  tags: { value: string; count: number }[];
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Validate the `filters` object of a search request. Dates are "YYYY",
+ * "YYYY-MM" or "YYYY-MM-DD" and both ends of the range are inclusive.
+ */
+export function parseSearchFilters(input: unknown): { filters: SearchFilters } | { error: string } {
+  if (input === undefined || input === null) {
+    return { filters: NO_SEARCH_FILTERS };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "filters must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+  const filters: SearchFilters = { ...NO_SEARCH_FILTERS, tags: [], clauses: emptyQueryClauses() };
+
+  filters.hobbyId = optionalString(raw.hobbyId);
+  filters.category = optionalString(raw.category);
+
+  if (raw.tags !== undefined && raw.tags !== null) {
+    if (!Array.isArray(raw.tags) || raw.tags.some((tag) => typeof tag !== "string")) {
+      return { error: "filters.tags must be a list of tags" };
+    }
+    filters.tags = Array.from(
+      new Set((raw.tags as string[]).map((tag) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0))
+    );
+  }
+
+  const createdFrom = optionalString(raw.createdFrom);
+  if (createdFrom) {
+    const span = dateSpan(createdFrom);
+    if (!span) return { error: "filters.createdFrom must be a date like 2025-01-31" };
+    filters.createdFrom = span.start;
+  }
+  const createdTo = optionalString(raw.createdTo);
+  if (createdTo) {
+    const span = dateSpan(createdTo);
+    if (!span) return { error: "filters.createdTo must be a date like 2025-01-31" };
+    filters.createdUntil = span.end;
+  }
+
+  if (raw.hasImage !== undefined && raw.hasImage !== null) {
+    if (typeof raw.hasImage !== "boolean") {
+      return { error: "filters.hasImage must be true or false" };
+    }
+    filters.hasImage = raw.hasImage;
+  }
+
+  if (raw.status !== undefined && raw.status !== null && raw.status !== "") {
+    const parsed = parseItemStatus(raw.status);
+    if ("error" in parsed) return { error: parsed.error };
+    filters.status = parsed.status;
+  }
+
+  return { filters };
+}
+
+export function isSearchMode(value: unknown): value is SearchMode {
+  return typeof value === "string" && (SEARCH_MODES as readonly string[]).includes(value);
+}
+
+export function isSearchSort(value: unknown): value is SearchSort {
+  return typeof value === "string" && (SEARCH_SORTS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a search `cursor`: the number of results already shown. Returns null
+ * when the cursor is not one handed out by a previous page.
+ */
+export function parseSearchCursor(cursor: string): number | null {
+  const offset = Number(cursor);
+  return /^\d+$/.test(cursor) && Number.isSafeInteger(offset) ? offset : null;
+}
+
+interface FilterClauses {
+  conditions: string[];
+  params: (string | number)[];
+}
+
+function andAll(conditions: string[]): string {
+  return conditions.map((condition) => ` AND ${condition}`).join("");
+}
+
+function tagConditions(column: string, tags: string[]): FilterClauses {
+  return {
+    conditions: tags.map(() => `EXISTS (SELECT 1 FROM json_each(${column}) WHERE lower(value) = ?)`),
+    params: [...tags],
+  };
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => "?").join(", ");
+}
+
+/**
+ * Condition for `column` being one of a list of IDs bound as a single JSON
+ * array, so long match lists stay under D1's limit on bound parameters.
+ */
+export function inIdList(column: string): string {
+  return `${column} IN (SELECT value FROM json_each(?))`;
+}
+
+/** FTS5 query matching any of the words, for excluding them. */
+function excludedTermsQuery(terms: string[]): string {
+  return terms.map((term) => `"${term}"`).join(" OR ");
+}
+
+/**
+ * SQL conditions for the clauses typed into the query. Items are matched over
+ * `items i` joined to `hobbies h`, hobbies over `hobbies h`. Returns null for
+ * hobbies when an item-only clause is set.
+ */
+function queryClauseConditions(clauses: QueryClauses, kind: "item" | "hobby"): FilterClauses | null {
+  if (
+    kind === "hobby" &&
+    (clauses.categories.length > 0 ||
+      clauses.excludeCategories.length > 0 ||
+      clauses.statuses.length > 0 ||
+      clauses.excludeStatuses.length > 0 ||
+      clauses.hasImage !== null)
+  ) {
+    return null;
+  }
+
+  const alias = kind === "item" ? "i" : "h";
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  const tags = tagConditions(`${alias}.tags`, clauses.tags);
+  conditions.push(...tags.conditions);
+  params.push(...tags.params);
+  for (const tag of clauses.excludeTags) {
+    conditions.push(`NOT EXISTS (SELECT 1 FROM json_each(${alias}.tags) WHERE lower(value) = ?)`);
+    params.push(tag);
+  }
+
+  if (clauses.hobbies.length > 0) {
+    conditions.push(`(${clauses.hobbies.map(() => "instr(lower(h.name), ?) > 0").join(" OR ")})`);
+    params.push(...clauses.hobbies.map((name) => name.toLowerCase()));
+  }
+  for (const name of clauses.excludeHobbies) {
+    conditions.push("instr(lower(h.name), ?) = 0");
+    params.push(name.toLowerCase());
+  }
+
+  if (clauses.createdFrom !== null) {
+    conditions.push(`${alias}.created_at >= ?`);
+    params.push(clauses.createdFrom);
+  }
+  if (clauses.createdUntil !== null) {
+    conditions.push(`${alias}.created_at < ?`);
+    params.push(clauses.createdUntil);
+  }
+
+  if (clauses.excludeTerms.length > 0) {
+    const table = kind === "item" ? "items_fts" : "hobbies_fts";
+    conditions.push(`${alias}.id NOT IN (SELECT id FROM ${table} WHERE ${table} MATCH ?)`);
+    params.push(excludedTermsQuery(clauses.excludeTerms));
+  }
+
+  if (kind === "item") {
+    if (clauses.categories.length > 0) {
+      conditions.push(`i.category COLLATE NOCASE IN (${placeholders(clauses.categories)})`);
+      params.push(...clauses.categories);
+    }
+    if (clauses.excludeCategories.length > 0) {
+      conditions.push(
+        `(i.category IS NULL OR i.category COLLATE NOCASE NOT IN (${placeholders(clauses.excludeCategories)}))`
+      );
+      params.push(...clauses.excludeCategories);
+    }
+    if (clauses.statuses.length > 0) {
+      conditions.push(`i.status IN (${placeholders(clauses.statuses)})`);
+      params.push(...clauses.statuses);
+    }
+    if (clauses.excludeStatuses.length > 0) {
+      conditions.push(`i.status NOT IN (${placeholders(clauses.excludeStatuses)})`);
+      params.push(...clauses.excludeStatuses);
+    }
+    if (clauses.hasImage !== null) {
+      conditions.push(clauses.hasImage ? "i.image_url IS NOT NULL" : "i.image_url IS NULL");
+    }
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * SQL conditions for item filters over `items i` joined to `hobbies h`.
+ * `except` leaves one filter out, so a facet can count the alternatives to
+ * the value currently selected.
+ */
+function itemFilterClauses(filters: SearchFilters, except?: "hobbyId" | "category" | "tags"): FilterClauses {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filters.hobbyId && except !== "hobbyId") {
+    conditions.push("i.hobby_id = ?");
+    params.push(filters.hobbyId);
+  }
+  if (filters.category && except !== "category") {
+    conditions.push("i.category = ? COLLATE NOCASE");
+    params.push(filters.category);
+  }
+  if (except !== "tags") {
+    const tags = tagConditions("i.tags", filters.tags);
+    conditions.push(...tags.conditions);
+    params.push(...tags.params);
+  }
+  if (filters.createdFrom !== null) {
+    conditions.push("i.created_at >= ?");
+    params.push(filters.createdFrom);
+  }
+  if (filters.createdUntil !== null) {
+    conditions.push("i.created_at < ?");
+    params.push(filters.createdUntil);
+  }
+  if (filters.hasImage !== null) {
+    conditions.push(filters.hasImage ? "i.image_url IS NOT NULL" : "i.image_url IS NULL");
+  }
+  if (filters.status) {
+    conditions.push("i.status = ?");
+    params.push(filters.status);
+  }
+
+  const clauses = queryClauseConditions(filters.clauses, "item")!;
+  conditions.push(...clauses.conditions);
+  params.push(...clauses.params);
+
+  return { conditions, params };
+}
+
+/**
+ * SQL conditions for hobby filters over `hobbies h`, or null when an
+ * item-only filter is set and no hobby can match.
+ */
+function hobbyFilterClauses(filters: SearchFilters): FilterClauses | null {
+  const clauses = queryClauseConditions(filters.clauses, "hobby");
+  if (!clauses || filters.category || filters.hasImage !== null || filters.status) {
+    return null;
+  }
+
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filters.hobbyId) {
+    conditions.push("h.id = ?");
+    params.push(filters.hobbyId);
+  }
+  const tags = tagConditions("h.tags", filters.tags);
+  conditions.push(...tags.conditions);
+  params.push(...tags.params);
+  if (filters.createdFrom !== null) {
+    conditions.push("h.created_at >= ?");
+    params.push(filters.createdFrom);
+  }
+  if (filters.createdUntil !== null) {
+    conditions.push("h.created_at < ?");
+    params.push(filters.createdUntil);
+  }
+  conditions.push(...clauses.conditions);
+  params.push(...clauses.params);
+
+  return { conditions, params };
+}
+
+function orderBy(sort: SearchSort, alias: "h" | "i", relevance: string): string {
+  switch (sort) {
+    case "newest":
+      return `${alias}.created_at DESC, ${alias}.id`;
+    case "oldest":
+      return `${alias}.created_at ASC, ${alias}.id`;
+    case "name":
+      return `${alias}.name COLLATE NOCASE ASC, ${alias}.id`;
+    default:
+      return `${relevance}, ${alias}.created_at DESC`;
+  }
+}
+
+/**
+ * Order already ranked results by a non-relevance sort. Relevance keeps the
+ * ranking as it is.
+ */
+export function sortSearchResults<T extends { name: string; created_at: number }>(rows: T[], sort: SearchSort): T[] {
+  if (sort === "relevance") return rows;
+  return [...rows].sort((a, b) => {
+    if (sort === "newest") return b.created_at - a.created_at;
+    if (sort === "oldest") return a.created_at - b.created_at;
+    return a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+  });
+}
+
+/**
+ * Vectorize metadata filter for a semantic search. Vectors carry `userId`
+ * and `type`, and item vectors carry `hobbyId`, so the user's own vectors,
+ * item-only filters and a single hobby can be narrowed down inside the
+ * index; everything else is applied when the matches are loaded from D1.
+ * Returns null when no hobby passes the hobby filters, as nothing can match
+ * then.
+ */
+export async function semanticMetadataFilter(
+  db: D1Database,
+  userId: string,
+  filters: SearchFilters
+): Promise<VectorizeVectorMetadataFilter | null> {
+  // The index is shared, so without userId other users' vectors would fill topK
+  const filter: VectorizeVectorMetadataFilter = { userId };
+  const itemsOnly = hobbyFilterClauses(filters) === null;
+  if (itemsOnly) {
+    filter.type = "item";
+  }
+
+  const { hobbies, excludeHobbies } = filters.clauses;
+  if (hobbies.length === 0 && excludeHobbies.length === 0) {
+    if (itemsOnly && filters.hobbyId) filter.hobbyId = filters.hobbyId;
+    return filter;
+  }
+
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (hobbies.length > 0) {
+    conditions.push(`(${hobbies.map(() => "instr(lower(name), ?) > 0").join(" OR ")})`);
+    params.push(...hobbies.map((name) => name.toLowerCase()));
+  }
+  if (filters.hobbyId) {
+    conditions.push("id = ?");
+    params.push(filters.hobbyId);
+  }
+  const matching = await db.prepare(
+    `SELECT id, name FROM hobbies WHERE user_id = ? AND deleted_at IS NULL${andAll(conditions)}`
+  )
+    .bind(userId, ...params)
+    .all<{ id: string; name: string }>();
+  const allowed = matching.results.filter(
+    (hobby) => !excludeHobbies.some((name) => hobby.name.toLowerCase().includes(name.toLowerCase()))
+  );
+  if (allowed.length === 0) return null;
+
+  // Hobby vectors have no hobbyId, so only an item search can pin one
+  if (itemsOnly && allowed.length === 1) {
+    filter.hobbyId = allowed[0].id;
+  } else if (hobbies.length === 0 && !filters.hobbyId) {
+    const excluded = matching.results.filter((hobby) => !allowed.includes(hobby));
+    if (excluded.length === 1) filter.hobbyId = { $ne: excluded[0].id };
+  }
+  return filter;
+}
+
+/**
+ * Load the hobbies and items behind semantic (Vectorize) matches, keeping
+ * only the user's live rows that pass the filters. Rows come back unordered.
+ */
+export async function loadSearchMatches(
+  db: D1Database,
+  userId: string,
+  matches: { hobbyIds: string[]; itemIds: string[] },
+  filters: SearchFilters
+): Promise<{ hobbies: SearchHobbyRow[]; items: SearchItemRow[] }> {
+  let hobbies: SearchHobbyRow[] = [];
+  const hobbyFilter = hobbyFilterClauses(filters);
+  if (hobbyFilter && matches.hobbyIds.length > 0) {
+    const result = await db.prepare(
+      `SELECT h.id, h.name, h.description, h.category, h.tags, h.created_at
+       FROM hobbies h
+       WHERE ${inIdList("h.id")} AND h.user_id = ? AND h.deleted_at IS NULL${andAll(hobbyFilter.conditions)}`
+    )
+      .bind(JSON.stringify(matches.hobbyIds), userId, ...hobbyFilter.params)
+      .all<SearchHobbyRow>();
+    hobbies = result.results;
+  }
+
+  let items: SearchItemRow[] = [];
+  if (matches.itemIds.length > 0) {
+    const itemFilter = itemFilterClauses(filters);
+    const result = await db.prepare(
+      `SELECT i.id, i.name, i.description, i.category, i.tags, i.created_at, i.hobby_id, i.status
+       FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE ${inIdList("i.id")} AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL${andAll(itemFilter.conditions)}`
+    )
+      .bind(JSON.stringify(matches.itemIds), userId, ...itemFilter.params)
+      .all<SearchItemRow>();
+    items = result.results;
+  }
+
+  return { hobbies, items };
+}
+
+export interface ImageMatchItemRow extends SearchItemRow {
+  image_url: string | null;
+  hobby_name: string;
+}
+
+/**
+ * Load the items behind image search matches, keeping only the user's live
+ * items, in the order of `itemIds` (most similar first).
+ */
+export async function loadImageMatches(
+  db: D1Database,
+  userId: string,
+  itemIds: string[]
+): Promise<ImageMatchItemRow[]> {
+  if (itemIds.length === 0) return [];
+
+  const result = await db.prepare(
+    `SELECT i.id, i.name, i.description, i.category, i.tags, i.created_at, i.hobby_id, i.status,
+       i.image_url, h.name as hobby_name
+     FROM items i
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE ${inIdList("i.id")} AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL`
+  )
+    .bind(JSON.stringify(itemIds), userId)
+    .all<ImageMatchItemRow>();
+
+  const byId = new Map(result.results.map((row) => [row.id, row]));
+  return itemIds.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Count the items matching a search per category, hobby and tag. Items match
+ * the full-text query or are among the semantic matches; a null match means
+ * every item. Each facet ignores its own filter, so it lists the values the
+ * user could switch to.
+ */
+export async function searchFacets(
+  db: D1Database,
+  userId: string,
+  match: { ftsQuery: string | null; itemIds: string[] } | null,
+  filters: SearchFilters
+): Promise<SearchFacets> {
+  const matchConditions: string[] = [];
+  const matchParams: string[] = [];
+  if (!match) {
+    // Queries made only of clauses match every item passing the filters
+    matchConditions.push("1 = 1");
+  } else if (match.ftsQuery) {
+    matchConditions.push("i.id IN (SELECT id FROM items_fts WHERE items_fts MATCH ?)");
+    matchParams.push(match.ftsQuery);
+  }
+  if (match && match.itemIds.length > 0) {
+    matchConditions.push(inIdList("i.id"));
+    matchParams.push(JSON.stringify(match.itemIds));
+  }
+  if (matchConditions.length === 0) {
+    return { categories: [], hobbies: [], tags: [] };
+  }
+
+  const scope = (except: "hobbyId" | "category" | "tags") => {
+    const filter = itemFilterClauses(filters, except);
+    return {
+      where: `h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL
+       AND (${matchConditions.join(" OR ")})${andAll(filter.conditions)}`,
+      params: [userId, ...matchParams, ...filter.params],
+    };
+  };
+
+  const categoryScope = scope("category");
+  const hobbyScope = scope("hobbyId");
+  const tagScope = scope("tags");
+
+  const categories = await db.prepare(
+    `SELECT i.category as value, COUNT(*) as count
+     FROM items i INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE ${categoryScope.where} AND i.category IS NOT NULL AND i.category != ''
+     GROUP BY i.category
+     ORDER BY count DESC, i.category`
+  )
+    .bind(...categoryScope.params)
+    .all<{ value: string; count: number }>();
+
+  const hobbies = await db.prepare(
+    `SELECT h.id, h.name, COUNT(*) as count
+     FROM items i INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE ${hobbyScope.where}
+     GROUP BY h.id
+     ORDER BY count DESC, h.name`
+  )
+    .bind(...hobbyScope.params)
+    .all<{ id: string; name: string; count: number }>();
+
+  const tags = await db.prepare(
+    `SELECT lower(t.value) as value, COUNT(DISTINCT i.id) as count
+     FROM items i INNER JOIN hobbies h ON i.hobby_id = h.id, json_each(i.tags) t
+     WHERE ${tagScope.where}
+     GROUP BY lower(t.value)
+     ORDER BY count DESC, value
+     LIMIT ${TAG_FACET_LIMIT}`
+  )
+    .bind(...tagScope.params)
+    .all<{ value: string; count: number }>();
+
+  return {
+    categories: categories.results,
+    hobbies: hobbies.results,
+    tags: tags.results,
+  };
+}
+
+/**
+ * Turn free text into an FTS5 query: every word becomes a quoted prefix
+ * term, so punctuation and FTS5 operators typed by the user are never
+ * interpreted. Returns null when the text has no searchable words.
+ */
+export function buildFtsQuery(text: string): string | null {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+/**
+ * A user's hobbies matching the query and filters, in the requested order
+ * (best match first for relevance). Returns nothing when a filter only
+ * applies to items. Without a full-text query (a query made only of
+ * clauses) every hobby passing the filters is listed, newest first.
+ */
+export async function searchHobbiesText(
+  db: D1Database,
+  userId: string,
+  ftsQuery: string | null,
+  options: { filters: SearchFilters; sort: SearchSort; limit: number }
+): Promise<TextSearchHobbyRow[]> {
+  const filter = hobbyFilterClauses(options.filters);
+  if (!filter) return [];
+
+  if (!ftsQuery) {
+    const listed = await db.prepare(
+      `SELECT h.id, h.name, h.description, h.category, h.tags, h.created_at,
+         0 as score, h.name as name_highlight, COALESCE(h.description, '') as snippet
+       FROM hobbies h
+       WHERE h.user_id = ? AND h.deleted_at IS NULL${andAll(filter.conditions)}
+       ORDER BY ${orderBy(options.sort === "relevance" ? "newest" : options.sort, "h", "")}
+       LIMIT ?`
+    )
+      .bind(userId, ...filter.params, options.limit)
+      .all<TextSearchHobbyRow>();
+    return listed.results;
+  }
+
+  const result = await db.prepare(
+    `SELECT h.id, h.name, h.description, h.category, h.tags, h.created_at,
+       -bm25(hobbies_fts, ${HOBBY_WEIGHTS}) as score,
+       highlight(hobbies_fts, 0, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}') as name_highlight,
+       snippet(hobbies_fts, -1, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}', '…', ${SNIPPET_TOKENS}) as snippet
+     FROM hobbies_fts
+     INNER JOIN hobbies h ON h.id = hobbies_fts.id
+     WHERE hobbies_fts MATCH ? AND h.user_id = ? AND h.deleted_at IS NULL${andAll(filter.conditions)}
+     ORDER BY ${orderBy(options.sort, "h", `bm25(hobbies_fts, ${HOBBY_WEIGHTS})`)}
+     LIMIT ?`
+  )
+    .bind(ftsQuery, userId, ...filter.params, options.limit)
+    .all<TextSearchHobbyRow>();
+  return result.results;
+}
+
+/**
+ * A user's items matching the query and filters, in the requested order
+ * (best match first for relevance). Items in trashed hobbies are left out
+ * along with trashed items. Without a full-text query every item passing
+ * the filters is listed, newest first.
+ */
+export async function searchItemsText(
+  db: D1Database,
+  userId: string,
+  ftsQuery: string | null,
+  options: { filters: SearchFilters; sort: SearchSort; limit: number }
+): Promise<TextSearchItemRow[]> {
+  const filter = itemFilterClauses(options.filters);
+
+  if (!ftsQuery) {
+    const listed = await db.prepare(
+      `SELECT i.id, i.name, i.description, i.category, i.tags, i.created_at, i.hobby_id, i.status,
+         0 as score, i.name as name_highlight, COALESCE(i.description, '') as snippet
+       FROM items i
+       INNER JOIN hobbies h ON i.hobby_id = h.id
+       WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL${andAll(filter.conditions)}
+       ORDER BY ${orderBy(options.sort === "relevance" ? "newest" : options.sort, "i", "")}
+       LIMIT ?`
+    )
+      .bind(userId, ...filter.params, options.limit)
+      .all<TextSearchItemRow>();
+    return listed.results;
+  }
+
+  const result = await db.prepare(
+    `SELECT i.id, i.name, i.description, i.category, i.tags, i.created_at, i.hobby_id, i.status,
+       -bm25(items_fts, ${ITEM_WEIGHTS}) as score,
+       highlight(items_fts, 0, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}') as name_highlight,
+       snippet(items_fts, -1, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}', '…', ${SNIPPET_TOKENS}) as snippet
+     FROM items_fts
+     INNER JOIN items i ON i.id = items_fts.id
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE items_fts MATCH ? AND h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NULL${andAll(filter.conditions)}
+     ORDER BY ${orderBy(options.sort, "i", `bm25(items_fts, ${ITEM_WEIGHTS})`)}
+     LIMIT ?`
+  )
+    .bind(ftsQuery, userId, ...filter.params, options.limit)
+    .all<TextSearchItemRow>();
+  return result.results;
+}
+
+export interface FusedRanking {
+  id: string;
+  /** Sum of 1 / (RRF_K + rank) over the rankings the result appears in. */
+  fusion_score: number;
+  matched_by: SearchSignal[];
+}
+
+/**
+ * Merge rankings (IDs, best first) into one with reciprocal rank fusion.
+ * Ties keep the order in which results were first seen.
+ */
+export function fuseRankings(rankings: { signal: SearchSignal; ids: string[] }[]): FusedRanking[] {
+  const fused = new Map<string, FusedRanking>();
+  for (const { signal, ids } of rankings) {
+    ids.forEach((id, index) => {
+      const entry = fused.get(id) ?? { id, fusion_score: 0, matched_by: [] };
+      entry.fusion_score += 1 / (RRF_K + index + 1);
+      if (!entry.matched_by.includes(signal)) entry.matched_by.push(signal);
+      fused.set(id, entry);
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b.fusion_score - a.fusion_score);
+}
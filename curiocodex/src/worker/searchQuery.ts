@@ -0,0 +1,274 @@
+/**
+ * Search query language.
+ *
+ * A search query mixes free text with field clauses, e.g.
+ *
+ *   tag:vintage category:"Music" hobby:vinyl created:>2025-01 -broken
+ *
+ * Free text is what full-text search matches and what gets embedded for
+ * semantic search. Clauses narrow the results and are applied as SQL (and,
+ * where the metadata allows, as Vectorize filters). A leading "-" negates a
+ * clause or a word. Repeating a field requires every tag but accepts any of
+ * the categories, hobbies or statuses given.
+ *
+ * Supported fields:
+ *   tag:<tag>                       item or hobby has the tag
+ *   category:<name>                 item category (case-insensitive)
+ *   hobby:<name>                    hobby name contains the text
+ *   status:<status>                 item status, e.g. status:wishlist
+ *   created:<date>                  added on that day, month or year;
+ *                                   also >, >=, <, <= and <from>..<to>
+ *   has:image                       item has a photo
+ *
+ * Values with spaces go in double quotes. Other words with a colon, as in
+ * "Star Wars: A New Hope" or a URL, are free text, as is a field with no
+ * value. Problems are returned as errors with the character range they
+ * cover, so the search box can point at them.
+ */
+
+import { isItemStatus, type ItemStatus } from "./itemStatus";
+
+export const QUERY_FIELDS = ["tag", "category", "hobby", "status", "created", "has"] as const;
+
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+const FIELD_ALIASES = new Map<string, QueryField>([
+  ["tag", "tag"],
+  ["tags", "tag"],
+  ["category", "category"],
+  ["hobby", "hobby"],
+  ["status", "status"],
+  ["created", "created"],
+  ["has", "has"],
+]);
+
+const HAS_IMAGE_VALUES = ["image", "images", "photo", "photos"];
+
+/** A problem in a query, covering input.slice(start, end). */
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+/** Structured clauses of a query; empty lists do not filter. */
+export interface QueryClauses {
+  tags: string[];
+  excludeTags: string[];
+  categories: string[];
+  excludeCategories: string[];
+  hobbies: string[];
+  excludeHobbies: string[];
+  statuses: ItemStatus[];
+  excludeStatuses: ItemStatus[];
+  createdFrom: number | null;
+  /** Exclusive. */
+  createdUntil: number | null;
+  hasImage: boolean | null;
+  /** Words that must not appear. */
+  excludeTerms: string[];
+}
+
+export interface ParsedSearchQuery {
+  /** Free text left once the clauses are taken out. */
+  text: string;
+  clauses: QueryClauses;
+}
+
+/** Clauses of a query with no field clauses. */
+export function emptyQueryClauses(): QueryClauses {
+  return {
+    tags: [],
+    excludeTags: [],
+    categories: [],
+    excludeCategories: [],
+    hobbies: [],
+    excludeHobbies: [],
+    statuses: [],
+    excludeStatuses: [],
+    createdFrom: null,
+    createdUntil: null,
+    hasImage: null,
+    excludeTerms: [],
+  };
+}
+
+/**
+ * The span of time covered by a "YYYY", "YYYY-MM" or "YYYY-MM-DD" date, in
+ * UTC unix seconds (end exclusive). Returns null for anything else.
+ */
+export function dateSpan(value: string): { start: number; end: number } | null {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value.trim());
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 1 || month > 12)) return null;
+
+  const start = Date.UTC(year, (month ?? 1) - 1, day ?? 1);
+  const check = new Date(start);
+  if (day !== null && check.getUTCDate() !== day) return null;
+
+  const end =
+    day !== null
+      ? Date.UTC(year, month! - 1, day + 1)
+      : month !== null
+        ? Date.UTC(year, month, 1)
+        : Date.UTC(year + 1, 0, 1);
+  return { start: start / 1000, end: end / 1000 };
+}
+
+interface Token {
+  raw: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a query on whitespace outside double quotes.
+ */
+function tokenize(input: string, errors: QueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let quoteStart: number | null = null;
+    while (index < input.length && (quoteStart !== null || !/\s/.test(input[index]))) {
+      if (input[index] === '"') {
+        quoteStart = quoteStart === null ? index : null;
+      }
+      index++;
+    }
+
+    if (quoteStart !== null) {
+      errors.push({ message: "Missing closing quote", start: quoteStart, end: input.length });
+    }
+    tokens.push({ raw: input.slice(start, index), start, end: index });
+  }
+
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, "").trim();
+}
+
+function pushUnique<T>(list: T[], value: T) {
+  if (!list.includes(value)) list.push(value);
+}
+
+/**
+ * Apply a created: clause to the clauses' date range. Returns an error
+ * message when the value is not a date or range.
+ */
+function applyCreated(clauses: QueryClauses, value: string, negated: boolean): string | null {
+  if (negated) {
+    return "created: cannot be negated; use created:< or created:> instead";
+  }
+
+  let from: number | null = null;
+  let until: number | null = null;
+
+  const comparison = /^(>=|<=|>|<)(.+)$/.exec(value);
+  const range = /^(.+)\.\.(.+)$/.exec(value);
+  if (comparison) {
+    const span = dateSpan(comparison[2]);
+    if (!span) return `"${comparison[2]}" is not a date like 2025, 2025-01 or 2025-01-31`;
+    if (comparison[1] === ">") from = span.end;
+    if (comparison[1] === ">=") from = span.start;
+    if (comparison[1] === "<") until = span.start;
+    if (comparison[1] === "<=") until = span.end;
+  } else if (range) {
+    const first = dateSpan(range[1]);
+    const last = dateSpan(range[2]);
+    if (!first || !last) return `"${value}" is not a date range like 2024-01..2024-06`;
+    from = first.start;
+    until = last.end;
+  } else {
+    const span = dateSpan(value);
+    if (!span) return `"${value}" is not a date like 2025, 2025-01 or 2025-01-31`;
+    from = span.start;
+    until = span.end;
+  }
+
+  // Several created: clauses narrow the range together
+  if (from !== null) clauses.createdFrom = Math.max(clauses.createdFrom ?? from, from);
+  if (until !== null) clauses.createdUntil = Math.min(clauses.createdUntil ?? until, until);
+  return null;
+}
+
+/**
+ * Apply one field clause. Returns an error message when the value is not
+ * valid for the field.
+ */
+function applyClause(clauses: QueryClauses, field: QueryField, value: string, negated: boolean): string | null {
+  switch (field) {
+    case "tag":
+      pushUnique(negated ? clauses.excludeTags : clauses.tags, value.toLowerCase());
+      return null;
+    case "category":
+      pushUnique(negated ? clauses.excludeCategories : clauses.categories, value);
+      return null;
+    case "hobby":
+      pushUnique(negated ? clauses.excludeHobbies : clauses.hobbies, value);
+      return null;
+    case "status": {
+      const status = value.toLowerCase();
+      if (!isItemStatus(status)) return `Unknown status "${value}"`;
+      pushUnique(negated ? clauses.excludeStatuses : clauses.statuses, status);
+      return null;
+    }
+    case "created":
+      return applyCreated(clauses, value, negated);
+    case "has":
+      if (!HAS_IMAGE_VALUES.includes(value.toLowerCase())) return `has: only supports has:image, not "${value}"`;
+      clauses.hasImage = !negated;
+      return null;
+  }
+}
+
+/**
+ * Parse a search query into free text and clauses, or the errors found.
+ */
+export function parseSearchQuery(input: string): { query: ParsedSearchQuery } | { errors: QueryError[] } {
+  const errors: QueryError[] = [];
+  const clauses = emptyQueryClauses();
+  const text: string[] = [];
+
+  for (const token of tokenize(input, errors)) {
+    const negated = token.raw.length > 1 && token.raw.startsWith("-");
+    const body = negated ? token.raw.slice(1) : token.raw;
+    const fieldMatch = /^([a-zA-Z]+):(.*)$/s.exec(body);
+    const field = fieldMatch ? FIELD_ALIASES.get(fieldMatch[1].toLowerCase()) : undefined;
+    const value = fieldMatch ? unquote(fieldMatch[2]) : "";
+
+    if (field && value) {
+      const message = applyClause(clauses, field, value, negated);
+      if (message) {
+        errors.push({ message, start: token.start, end: token.end });
+      }
+      continue;
+    }
+
+    const words = unquote(body);
+    if (!words) continue;
+    if (negated) {
+      for (const word of words.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+        pushUnique(clauses.excludeTerms, word);
+      }
+    } else {
+      text.push(words);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors: errors.sort((a, b) => a.start - b.start) };
+  }
+  return { query: { text: text.join(" "), clauses } };
+}
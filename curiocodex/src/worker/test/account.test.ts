@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem, imageFile } from "./client";
+
+async function login(env: TestEnv, email: string, password: string, userAgent?: string): Promise<string> {
+  const { body } = await request<{ token: string }>(env, "POST", "/api/auth/login", {
+    body: { email, password },
+    headers: userAgent ? { "User-Agent": userAgent } : undefined,
+  });
+  return body.token;
+}
+
+describe("account management", () => {
+  let env: TestEnv;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+  });
+
+  it("changes the password and logs out other sessions", async () => {
+    const { token, email, password } = await registerUser(env);
+    const otherDevice = await login(env, email, password);
+
+    const wrong = await request(env, "PUT", "/api/user/password", {
+      token,
+      body: { currentPassword: "not it", newPassword: "new password" },
+    });
+    expect(wrong.status).toBe(400);
+
+    const changed = await request<{ revokedSessions: number }>(env, "PUT", "/api/user/password", {
+      token,
+      body: { currentPassword: password, newPassword: "new password" },
+    });
+    expect(changed.status).toBe(200);
+    expect(changed.body.revokedSessions).toBe(1);
+
+    expect((await request(env, "GET", "/api/user/profile", { token })).status).toBe(200);
+    expect((await request(env, "GET", "/api/user/profile", { token: otherDevice })).status).toBe(401);
+
+    const relogin = await request(env, "POST", "/api/auth/login", {
+      body: { email, password: "new password" },
+    });
+    expect(relogin.status).toBe(200);
+  });
+
+  it("updates username and email with uniqueness checks", async () => {
+    const { token, password } = await registerUser(env, { username: "ada" });
+    await registerUser(env, { email: "taken@example.com", username: "taken" });
+
+    const duplicateName = await request(env, "PUT", "/api/user/profile", {
+      token,
+      body: { username: "taken" },
+    });
+    expect(duplicateName.status).toBe(400);
+
+    const noPassword = await request(env, "PUT", "/api/user/profile", {
+      token,
+      body: { email: "ada@example.org" },
+    });
+    expect(noPassword.status).toBe(400);
+
+    const duplicateEmail = await request(env, "PUT", "/api/user/profile", {
+      token,
+      body: { email: "taken@example.com", currentPassword: password },
+    });
+    expect(duplicateEmail.status).toBe(400);
+
+    const updated = await request<{ user: { username: string; email: string } }>(
+      env,
+      "PUT",
+      "/api/user/profile",
+      { token, body: { username: "countess", email: "ada@example.org", currentPassword: password } }
+    );
+    expect(updated.status).toBe(200);
+    expect(updated.body.user).toMatchObject({ username: "countess", email: "ada@example.org" });
+
+    // The session reflects the change and the new address is unverified
+    const session = JSON.parse((await env.SESSIONS.get(`session:${token}`))!);
+    expect(session.username).toBe("countess");
+    const profile = await request<{ user: { email: string; email_verified_at: number | null } }>(
+      env,
+      "GET",
+      "/api/user/profile",
+      { token }
+    );
+    expect(profile.body.user).toMatchObject({ email: "ada@example.org", email_verified_at: null });
+  });
+
+  it("deletes the account across D1, Vectorize, R2 and KV", async () => {
+    const { token, userId, email, password } = await registerUser(env);
+    const otherDevice = await login(env, email, password);
+    const hobbyId = await createHobby(env, token, { name: "Clocks", category: "Collectables" });
+    await createItem(env, token, hobbyId, { name: "Mantel clock" });
+
+    const form = new FormData();
+    form.append("image", imageFile("clock.png", 1));
+    await request(env, "POST", `/api/hobbies/${hobbyId}/items`, { token, body: form });
+
+    // Someone else's collection must survive
+    const bystander = await registerUser(env);
+    const otherHobby = await createHobby(env, bystander.token, { name: "Coins", category: "Collectables" });
+
+    const refused = await request(env, "DELETE", "/api/user", { token, body: { password: "nope" } });
+    expect(refused.status).toBe(400);
+
+    const deleted = await request(env, "DELETE", "/api/user", { token, body: { password } });
+    expect(deleted.status).toBe(200);
+
+    const counts = await env.DB.prepare(
+      `SELECT
+         (SELECT COUNT(*) FROM users WHERE id = ?) as users,
+         (SELECT COUNT(*) FROM hobbies WHERE user_id = ?) as hobbies,
+         (SELECT COUNT(*) FROM items) as items,
+         (SELECT COUNT(*) FROM item_images) as images`
+    ).bind(userId, userId).first();
+    expect(counts).toEqual({ users: 0, hobbies: 0, items: 0, images: 0 });
+
+    expect(Array.from(env.HOBBY_ITEMS_INDEX.vectors.keys())).toEqual([otherHobby]);
+    expect(Array.from(env.ITEM_IMAGES.objects.keys()).some((key) => key.includes(userId))).toBe(false);
+
+    expect((await request(env, "GET", "/api/user/profile", { token })).status).toBe(401);
+    expect((await request(env, "GET", "/api/user/profile", { token: otherDevice })).status).toBe(401);
+    expect((await env.SESSIONS.list({ prefix: `user-sessions:${userId}:` })).keys).toEqual([]);
+    expect((await request(env, "GET", "/api/hobbies", { token: bystander.token })).status).toBe(200);
+  });
+});
+
+interface SessionPayload {
+  id: string;
+  userAgent: string | null;
+  lastSeenAt: number;
+  current: boolean;
+}
+
+describe("session management", () => {
+  let env: TestEnv;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lists sessions with their device and marks the current one", async () => {
+    const { email, password } = await registerUser(env);
+    const laptop = await login(env, email, password, "Laptop Browser");
+    await login(env, email, password, "Phone Browser");
+
+    const { status, body } = await request<{ sessions: SessionPayload[] }>(env, "GET", "/api/user/sessions", {
+      token: laptop,
+    });
+
+    expect(status).toBe(200);
+    expect(body.sessions).toHaveLength(3);
+    expect(body.sessions.find((s) => s.current)?.userAgent).toBe("Laptop Browser");
+    expect(body.sessions.map((s) => s.userAgent)).toContain("Phone Browser");
+    // Tokens never leave the server
+    expect(JSON.stringify(body)).not.toContain(laptop);
+  });
+
+  it("pages through the session index beyond one KV list call", async () => {
+    const { token, userId } = await registerUser(env);
+    const now = Math.floor(Date.now() / 1000);
+    for (let i = 0; i < 1200; i++) {
+      const entry = { token: `old-${i}`, userAgent: null, createdAt: now, lastSeenAt: now, expiresAt: now + 3600 };
+      await env.SESSIONS.put(`user-sessions:${userId}:old-${i}`, JSON.stringify(entry));
+    }
+
+    const { body } = await request<{ sessions: SessionPayload[] }>(env, "GET", "/api/user/sessions", { token });
+    expect(body.sessions).toHaveLength(1201);
+  });
+
+  it("updates last-seen times once they are stale", async () => {
+    const { token } = await registerUser(env);
+    const start = Date.now();
+
+    const before = await request<{ sessions: SessionPayload[] }>(env, "GET", "/api/user/sessions", { token });
+    const firstSeen = before.body.sessions[0].lastSeenAt;
+
+    vi.spyOn(Date, "now").mockReturnValue(start + 10 * 60 * 1000);
+    const after = await request<{ sessions: SessionPayload[] }>(env, "GET", "/api/user/sessions", { token });
+    expect(after.body.sessions[0].lastSeenAt).toBeGreaterThanOrEqual(firstSeen + 10 * 60);
+  });
+
+  it("revokes a single session or every other session", async () => {
+    const { token, email, password } = await registerUser(env);
+    const phone = await login(env, email, password, "Phone Browser");
+    const tablet = await login(env, email, password, "Tablet Browser");
+
+    const list = await request<{ sessions: SessionPayload[] }>(env, "GET", "/api/user/sessions", { token });
+    const phoneSession = list.body.sessions.find((s) => s.userAgent === "Phone Browser")!;
+
+    // Other users cannot revoke sessions they do not own
+    const stranger = await registerUser(env);
+    const forbidden = await request(env, "DELETE", `/api/user/sessions/${phoneSession.id}`, {
+      token: stranger.token,
+    });
+    expect(forbidden.status).toBe(404);
+
+    const revoked = await request(env, "DELETE", `/api/user/sessions/${phoneSession.id}`, { token });
+    expect(revoked.status).toBe(200);
+    expect((await request(env, "GET", "/api/user/profile", { token: phone })).status).toBe(401);
+    expect((await request(env, "GET", "/api/user/profile", { token: tablet })).status).toBe(200);
+
+    const others = await request<{ revoked: number }>(env, "DELETE", "/api/user/sessions", { token });
+    expect(others.body.revoked).toBe(1);
+    expect((await request(env, "GET", "/api/user/profile", { token: tablet })).status).toBe(401);
+
+    const remaining = await request<{ sessions: SessionPayload[] }>(env, "GET", "/api/user/sessions", { token });
+    expect(remaining.body.sessions).toHaveLength(1);
+    expect(remaining.body.sessions[0].current).toBe(true);
+  });
+
+  it("picks up sessions opened before they were indexed", async () => {
+    const { token, userId, email } = await registerUser(env);
+    const legacy = "legacy-session-token";
+    await env.SESSIONS.put(`session:${legacy}`, JSON.stringify({ userId, email, username: "legacy" }));
+
+    // The first request with the session adds it to the index
+    expect((await request(env, "GET", "/api/user/profile", { token: legacy })).status).toBe(200);
+    const list = await request<{ sessions: SessionPayload[] }>(env, "GET", "/api/user/sessions", { token });
+    expect(list.body.sessions).toHaveLength(2);
+
+    const others = await request<{ revoked: number }>(env, "DELETE", "/api/user/sessions", { token });
+    expect(others.body.revoked).toBe(1);
+    expect((await request(env, "GET", "/api/user/profile", { token: legacy })).status).toBe(401);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem } from "./client";
+
+interface ActivityEvent {
+  id: string;
+  type: string;
+  hobby: { id: string; name: string } | null;
+  item: { id: string; name: string } | null;
+  [detail: string]: unknown;
+}
+
+interface ActivityPage {
+  events: ActivityEvent[];
+  nextCursor: string | null;
+}
+
+describe("activity log", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Vinyl", category: "Music" });
+  });
+
+  async function activity(query = "") {
+    return request<ActivityPage>(env, "GET", `/api/activity/recent${query}`, { token });
+  }
+
+  it("records updates, category changes, moves and deletes", async () => {
+    const otherHobbyId = await createHobby(env, token, { name: "Cassettes", category: "Music" });
+    const itemId = await createItem(env, token, hobbyId, { name: "Blue Train", category: "Jazz" });
+
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}`, {
+      token,
+      body: { name: "Blue Train (mono)", description: "1957 pressing", category: "Hard bop" },
+    });
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}/move`, {
+      token,
+      body: { newHobbyId: otherHobbyId },
+    });
+    await request(env, "DELETE", `/api/hobbies/${otherHobbyId}/items/${itemId}`, { token });
+
+    const { body } = await activity();
+    expect(body.events.map((event) => event.type).slice(0, 5)).toEqual([
+      "item_deleted",
+      "item_moved",
+      "item_category_changed",
+      "item_updated",
+      "item_created",
+    ]);
+
+    const [deleted, moved, categoryChange, updated] = body.events;
+    // Names are kept even though the item no longer exists
+    expect(deleted.item).toEqual({ id: itemId, name: "Blue Train (mono)" });
+    expect(moved.from_hobby).toEqual({ id: hobbyId, name: "Vinyl" });
+    expect(moved.hobby).toEqual({ id: otherHobbyId, name: "Cassettes" });
+    expect(categoryChange).toMatchObject({ from: "Jazz", to: "Hard bop" });
+    expect(updated.changes).toEqual(expect.arrayContaining(["name", "description", "category"]));
+  });
+
+  it("pages through events with a cursor", async () => {
+    for (const name of ["One", "Two", "Three", "Four", "Five", "Six"]) {
+      await createItem(env, token, hobbyId, { name });
+    }
+
+    // Seven events: the hobby and six items
+    const first = await activity("?pageSize=5");
+    expect(first.body.events).toHaveLength(5);
+    expect(first.body.events[0].item?.name).toBe("Six");
+    expect(first.body.nextCursor).toBe(first.body.events[4].id);
+
+    const second = await activity(`?pageSize=5&cursor=${first.body.nextCursor}`);
+    expect(second.body.events.map((event) => event.type)).toEqual(["item_created", "hobby_created"]);
+    expect(second.body.nextCursor).toBeNull();
+
+    const badCursor = await activity("?cursor=abc");
+    expect(badCursor.status).toBe(400);
+  });
+
+  it("filters by event type and hobby", async () => {
+    const otherHobbyId = await createHobby(env, token, { name: "Stamps", category: "Collecting" });
+    await createItem(env, token, hobbyId, { name: "Kind of Blue" });
+    const stampId = await createItem(env, token, otherHobbyId, { name: "Penny Black" });
+    await request(env, "PUT", `/api/hobbies/${otherHobbyId}/items/${stampId}/status`, {
+      token,
+      body: { status: "sold" },
+    });
+
+    const byHobby = await activity(`?hobbyId=${otherHobbyId}`);
+    expect(byHobby.body.events.map((event) => event.type)).toEqual([
+      "item_status_changed",
+      "item_created",
+      "hobby_created",
+    ]);
+
+    const byType = await activity("?type=hobby_created,item_status_changed");
+    expect(byType.body.events.map((event) => event.type)).toEqual([
+      "item_status_changed",
+      "hobby_created",
+      "hobby_created",
+    ]);
+    expect(byType.body.events[0]).toMatchObject({ from: "owned", to: "sold" });
+
+    const unknown = await activity("?type=item_exploded");
+    expect(unknown.status).toBe(400);
+
+    // Other users never see each other's activity
+    const stranger = await registerUser(env);
+    const theirs = await request<ActivityPage>(env, "GET", "/api/activity/recent", { token: stranger.token });
+    expect(theirs.body.events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { createTestEnv } from "./bindings";
+import { request, registerUser, createHobby, imageBytes, imageFile } from "./client";
+import type { CollectionArchive } from "../archive";
+
+describe("export and import", () => {
+  it("round-trips a collection with images into another account", async () => {
+    const env = await createTestEnv();
+    const source = await registerUser(env);
+    const hobbyId = await createHobby(env, source.token, {
+      name: "Coins",
+      category: "Collectables",
+      itemCategories: ["Silver"],
+    });
+
+    const form = new FormData();
+    form.append("name", "Morgan Dollar");
+    form.append("description", "1921 silver dollar");
+    form.append("category", "Silver");
+    form.append("image", imageFile("coin.jpg", 9, 8, 7));
+    form.append("image", imageFile("reverse.png", 6, 5));
+    await request(env, "POST", `/api/hobbies/${hobbyId}/items`, { token: source.token, body: form });
+
+    const exported = await request<CollectionArchive>(env, "GET", "/api/export", { token: source.token });
+    expect(exported.status).toBe(200);
+    expect(exported.response.headers.get("Content-Disposition")).toContain("attachment");
+    expect(exported.body.hobbies[0].itemCategories).toEqual(["Silver"]);
+    expect(exported.body.hobbies[0].items[0].image?.contentType).toBe("image/jpeg");
+    expect(exported.body.hobbies[0].items[0].additionalImages?.map((i) => i.extension)).toEqual(["png"]);
+
+    const target = await registerUser(env);
+    const imported = await request<{ imported: { hobbies: number; items: number; images: number; idMap: Record<string, string> } }>(
+      env,
+      "POST",
+      "/api/import",
+      { token: target.token, body: exported.body }
+    );
+    expect(imported.status).toBe(200);
+    expect(imported.body.imported).toMatchObject({ hobbies: 1, items: 1, images: 2 });
+
+    const newHobbyId = imported.body.imported.idMap[hobbyId];
+    expect(newHobbyId).not.toBe(hobbyId);
+
+    const items = await request<{ items: { id: string; image_url: string; category: string }[] }>(
+      env,
+      "GET",
+      `/api/hobbies/${newHobbyId}/items`,
+      { token: target.token }
+    );
+    expect(items.body.items[0].category).toBe("Silver");
+    expect(items.body.items[0].image_url).toContain(`items/${target.userId}/`);
+    expect(env.HOBBY_ITEMS_INDEX.vectors.get(items.body.items[0].id)?.metadata).toMatchObject({
+      userId: target.userId,
+      hobbyId: newHobbyId,
+    });
+
+    const image = await request(env, "GET", items.body.items[0].image_url);
+    expect(new Uint8Array(await image.response.arrayBuffer())).toEqual(imageBytes("jpg", 9, 8, 7));
+
+    const gallery = await request<{ images: { is_primary: boolean }[] }>(
+      env,
+      "GET",
+      `/api/hobbies/${newHobbyId}/items/${items.body.items[0].id}/images`,
+      { token: target.token }
+    );
+    expect(gallery.body.images.map((i) => i.is_primary)).toEqual([true, false]);
+  });
+
+  it("stores the vectors of large archives in batches Vectorize accepts", async () => {
+    const env = await createTestEnv();
+    const { token } = await registerUser(env);
+    const upsert = vi.spyOn(env.HOBBY_ITEMS_INDEX, "upsert");
+
+    const items = Array.from({ length: 1200 }, (_, index) => ({ id: `item-${index}`, name: `Coin ${index}` }));
+    const { status, body } = await request<{ imported: { items: number; vectorError: string | null } }>(
+      env,
+      "POST",
+      "/api/import",
+      { token, body: { version: 1, hobbies: [{ id: "coins", name: "Coins", items }] } }
+    );
+
+    expect(status).toBe(200);
+    expect(body.imported).toMatchObject({ items: 1200, vectorError: null });
+    expect(upsert.mock.calls.map(([vectors]) => vectors.length)).toEqual([1000, 201]);
+  });
+
+  it("reports vectors it could not store", async () => {
+    const env = await createTestEnv();
+    const { token } = await registerUser(env);
+    vi.spyOn(env.HOBBY_ITEMS_INDEX, "upsert").mockRejectedValue(new Error("Vectorize is down"));
+
+    const { status, body } = await request<{ imported: { hobbies: number; vectorError: string | null } }>(
+      env,
+      "POST",
+      "/api/import",
+      { token, body: { version: 1, hobbies: [{ id: "coins", name: "Coins", items: [{ id: "a", name: "Penny" }] }] } }
+    );
+
+    expect(status).toBe(200);
+    expect(body.imported.hobbies).toBe(1);
+    expect(body.imported.vectorError).toEqual(expect.any(String));
+  });
+
+  it("rejects archives with an unknown version", async () => {
+    const env = await createTestEnv();
+    const { token } = await registerUser(env);
+
+    const { status } = await request(env, "POST", "/api/import", {
+      token,
+      body: { version: 99, hobbies: [] },
+    });
+    expect(status).toBe(400);
+  });
+});
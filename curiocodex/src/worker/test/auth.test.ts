@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser } from "./client";
+import type { MailMessage } from "../mail";
+
+describe("auth routes", () => {
+  let env: TestEnv;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+  });
+
+  it("registers a user and stores a session in KV", async () => {
+    const { status, body } = await request<{
+      success: boolean;
+      token: string;
+      user: { userId: string; email: string; username: string };
+    }>(env, "POST", "/api/auth/register", {
+      body: { email: "ada@example.com", username: "ada", password: "secret-pass" },
+    });
+
+    expect(status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.user.email).toBe("ada@example.com");
+
+    const session = await env.SESSIONS.get(`session:${body.token}`);
+    expect(session && JSON.parse(session).userId).toBe(body.user.userId);
+  });
+
+  it("rejects duplicate registrations and malformed input", async () => {
+    await registerUser(env, { email: "dup@example.com", username: "dup" });
+
+    const duplicate = await request(env, "POST", "/api/auth/register", {
+      body: { email: "dup@example.com", username: "other", password: "x" },
+    });
+    expect(duplicate.status).toBe(400);
+
+    const missing = await request(env, "POST", "/api/auth/register", {
+      body: { email: "new@example.com" },
+    });
+    expect(missing.status).toBe(400);
+
+    const badEmail = await request(env, "POST", "/api/auth/register", {
+      body: { email: "not-an-email", username: "x", password: "y" },
+    });
+    expect(badEmail.status).toBe(400);
+  });
+
+  it("logs in with valid credentials only", async () => {
+    const { email, password } = await registerUser(env);
+
+    const ok = await request<{ token: string }>(env, "POST", "/api/auth/login", {
+      body: { email, password },
+    });
+    expect(ok.status).toBe(200);
+    expect(ok.body.token).toBeTruthy();
+
+    const wrong = await request(env, "POST", "/api/auth/login", {
+      body: { email, password: "nope" },
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it("protects API routes and invalidates sessions on logout", async () => {
+    const anonymous = await request(env, "GET", "/api/user/profile");
+    expect(anonymous.status).toBe(401);
+
+    const { token } = await registerUser(env, { username: "profiled" });
+    const profile = await request<{ user: { username: string } }>(
+      env,
+      "GET",
+      "/api/user/profile",
+      { token }
+    );
+    expect(profile.status).toBe(200);
+    expect(profile.body.user.username).toBe("profiled");
+
+    await request(env, "POST", "/api/auth/logout", { token });
+    const afterLogout = await request(env, "GET", "/api/user/profile", { token });
+    expect(afterLogout.status).toBe(401);
+  });
+});
+
+/**
+ * Find the single-use account token of the given kind stored in KV.
+ */
+function storedToken(env: TestEnv, kind: "reset" | "verify"): string | undefined {
+  const key = Array.from(env.SESSIONS.entries.keys()).find((k) => k.startsWith(`${kind}:`));
+  return key?.slice(kind.length + 1);
+}
+
+describe("password reset and email verification", () => {
+  let env: TestEnv;
+  let sent: MailMessage[];
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    sent = env.MAIL_TRANSPORT!.sent;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("emails a verification link on registration and verifies once", async () => {
+    const { email, token } = await registerUser(env);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe(email);
+
+    const verifyToken = storedToken(env, "verify")!;
+    expect(sent[0].text).toContain(`/verify-email?token=${encodeURIComponent(verifyToken)}`);
+
+    const verified = await request(env, "POST", "/api/auth/verify", { body: { token: verifyToken } });
+    expect(verified.status).toBe(200);
+
+    const profile = await request<{ user: { email_verified_at: number | null } }>(
+      env,
+      "GET",
+      "/api/user/profile",
+      { token }
+    );
+    expect(profile.body.user.email_verified_at).toBeGreaterThan(0);
+
+    const reused = await request(env, "POST", "/api/auth/verify", { body: { token: verifyToken } });
+    expect(reused.status).toBe(400);
+
+    const resend = await request<{ alreadyVerified: boolean }>(env, "POST", "/api/user/verify-email", {
+      token,
+    });
+    expect(resend.body.alreadyVerified).toBe(true);
+  });
+
+  it("resets a password with a single-use token and ends existing sessions", async () => {
+    const { email, password, token } = await registerUser(env);
+    sent.length = 0;
+
+    const forgot = await request(env, "POST", "/api/auth/forgot", { body: { email } });
+    expect(forgot.status).toBe(200);
+    expect(sent).toHaveLength(1);
+
+    const resetToken = storedToken(env, "reset")!;
+    expect(env.SESSIONS.entries.get(`reset:${resetToken}`)?.expiration).toBeDefined();
+
+    const tooShort = await request(env, "POST", "/api/auth/reset", {
+      body: { token: resetToken, password: "abc" },
+    });
+    expect(tooShort.status).toBe(400);
+
+    const reset = await request(env, "POST", "/api/auth/reset", {
+      body: { token: resetToken, password: "a brand new secret" },
+    });
+    expect(reset.status).toBe(200);
+    expect((await request(env, "GET", "/api/user/profile", { token })).status).toBe(401);
+
+    const oldLogin = await request(env, "POST", "/api/auth/login", { body: { email, password } });
+    expect(oldLogin.status).toBe(401);
+    const newLogin = await request(env, "POST", "/api/auth/login", {
+      body: { email, password: "a brand new secret" },
+    });
+    expect(newLogin.status).toBe(200);
+
+    const reused = await request(env, "POST", "/api/auth/reset", {
+      body: { token: resetToken, password: "yet another secret" },
+    });
+    expect(reused.status).toBe(400);
+  });
+
+  it("ignores reset links sent before the email address changed", async () => {
+    const { email, password, token } = await registerUser(env);
+    await request(env, "POST", "/api/auth/forgot", { body: { email } });
+    const resetToken = storedToken(env, "reset")!;
+
+    const changed = await request(env, "PUT", "/api/user/profile", {
+      token,
+      body: { email: "moved@example.com", currentPassword: password },
+    });
+    expect(changed.status).toBe(200);
+
+    const reset = await request(env, "POST", "/api/auth/reset", {
+      body: { token: resetToken, password: "a brand new secret" },
+    });
+    expect(reset.status).toBe(400);
+    const login = await request(env, "POST", "/api/auth/login", { body: { email: "moved@example.com", password } });
+    expect(login.status).toBe(200);
+  });
+
+  it("does not reveal whether an account exists", async () => {
+    const { status, body } = await request<{ success: boolean }>(env, "POST", "/api/auth/forgot", {
+      body: { email: "nobody@example.com" },
+    });
+
+    expect(status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(sent).toHaveLength(0);
+    expect(storedToken(env, "reset")).toBeUndefined();
+  });
+
+  it("answers the same when the reset email cannot be sent", async () => {
+    const { email } = await registerUser(env);
+    vi.spyOn(env.MAIL_TRANSPORT!, "send").mockRejectedValue(new Error("mail provider down"));
+
+    const known = await request(env, "POST", "/api/auth/forgot", { body: { email } });
+    const unknown = await request(env, "POST", "/api/auth/forgot", { body: { email: "nobody@example.com" } });
+
+    expect(known.status).toBe(200);
+    expect(known.body).toEqual(unknown.body);
+  });
+
+  it("never logs account links when mail is not configured", async () => {
+    env.MAIL_TRANSPORT = undefined;
+    const logged: unknown[] = [];
+    for (const level of ["log", "info", "warn", "error"] as const) {
+      vi.spyOn(console, level).mockImplementation((...args: unknown[]) => {
+        logged.push(...args);
+      });
+    }
+
+    const { email } = await registerUser(env);
+    const forgot = await request(env, "POST", "/api/auth/forgot", { body: { email } });
+    expect(forgot.status).toBe(200);
+
+    const tokens = [storedToken(env, "verify")!, storedToken(env, "reset")!];
+    expect(tokens.every(Boolean)).toBe(true);
+    const output = logged.map(String).join("\n");
+    for (const token of tokens) {
+      expect(output).not.toContain(token);
+    }
+  });
+});
@@ -0,0 +1,709 @@
+/**
+ * Deterministic in-memory stand-ins for the Cloudflare bindings used by the worker.
+ * - D1 is backed by a real (WASM) SQLite database with all migrations applied
+ * - KV and R2 are simple Map-backed stores
+ * - Vectorize performs a brute-force cosine similarity search
+ * - D1, KV and Vectorize throw on the platform limits that would fail in production
+ * - Workers AI returns canned responses and hash-based embeddings
+ * - Mail is captured in memory rather than sent or logged
+ */
+
+import sqlite3InitModule, {
+  type BindableValue,
+  type Database,
+  type Sqlite3Static,
+} from "@sqlite.org/sqlite-wasm";
+import type { MailMessage, MailTransport } from "../mail";
+
+const migrations = import.meta.glob("../../../migrations/*.sql", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+}) as Record<string, string>;
+
+// ============================================================================
+// D1
+// ============================================================================
+
+/** D1 rejects statements with more bound parameters than this. */
+const D1_MAX_BOUND_PARAMETERS = 100;
+
+let sqlite3Promise: Promise<Sqlite3Static> | null = null;
+
+function loadSqlite(): Promise<Sqlite3Static> {
+  if (!sqlite3Promise) {
+    sqlite3Promise = sqlite3InitModule();
+  }
+  return sqlite3Promise;
+}
+
+function toBindable(value: unknown): BindableValue {
+  if (value === undefined) {
+    // Mirror D1, which rejects undefined bindings instead of coercing them
+    throw new Error("D1_TYPE_ERROR: Type 'undefined' not supported for value 'undefined'");
+  }
+  if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value);
+  }
+  return value as BindableValue;
+}
+
+class FakeD1PreparedStatement {
+  constructor(
+    private readonly db: Database,
+    readonly sql: string,
+    readonly params: BindableValue[] = []
+  ) {}
+
+  bind(...values: unknown[]): FakeD1PreparedStatement {
+    if (values.length > D1_MAX_BOUND_PARAMETERS) {
+      throw new Error(`D1_ERROR: too many SQL variables (${values.length} bound, limit ${D1_MAX_BOUND_PARAMETERS})`);
+    }
+    return new FakeD1PreparedStatement(this.db, this.sql, values.map(toBindable));
+  }
+
+  private select(): Record<string, unknown>[] {
+    return this.db.selectObjects(this.sql, this.params.length > 0 ? this.params : undefined);
+  }
+
+  private meta(changes: number) {
+    const lastRowId = Number(this.db.selectValue("SELECT last_insert_rowid()") ?? 0);
+    return {
+      duration: 0,
+      size_after: 0,
+      rows_read: 0,
+      rows_written: changes,
+      last_row_id: lastRowId,
+      changed_db: changes > 0,
+      changes,
+    };
+  }
+
+  async first<T = Record<string, unknown>>(column?: string): Promise<T | null> {
+    const rows = this.select();
+    if (rows.length === 0) return null;
+    if (column) {
+      if (!(column in rows[0])) {
+        throw new Error(`D1_COLUMN_NOTFOUND: Column not found (${column})`);
+      }
+      return rows[0][column] as T;
+    }
+    return rows[0] as T;
+  }
+
+  async all<T = Record<string, unknown>>() {
+    const results = this.select() as T[];
+    return { success: true as const, results, meta: this.meta(this.db.changes()) };
+  }
+
+  async run<T = Record<string, unknown>>() {
+    const results = this.select() as T[];
+    return { success: true as const, results, meta: this.meta(this.db.changes()) };
+  }
+
+  async raw<T = unknown[]>(options?: { columnNames?: boolean }): Promise<T[]> {
+    const rows = this.select();
+    const arrays = rows.map((row) => Object.values(row)) as T[];
+    if (options?.columnNames) {
+      const names = rows.length > 0 ? Object.keys(rows[0]) : [];
+      return [names as T, ...arrays];
+    }
+    return arrays;
+  }
+}
+
+class FakeD1Database {
+  constructor(readonly sqlite: Database) {}
+
+  prepare(sql: string): FakeD1PreparedStatement {
+    return new FakeD1PreparedStatement(this.sqlite, sql);
+  }
+
+  async batch(statements: FakeD1PreparedStatement[]) {
+    const results = [];
+    this.sqlite.exec("BEGIN");
+    try {
+      for (const statement of statements) {
+        results.push(await statement.all());
+      }
+      this.sqlite.exec("COMMIT");
+    } catch (error) {
+      this.sqlite.exec("ROLLBACK");
+      throw error;
+    }
+    return results;
+  }
+
+  async exec(sql: string) {
+    this.sqlite.exec(sql);
+    return { count: 1, duration: 0 };
+  }
+}
+
+/**
+ * Create a fresh SQLite-backed D1 database with every migration applied in order.
+ */
+export async function createFakeD1(): Promise<D1Database & { sqlite: Database }> {
+  const sqlite3 = await loadSqlite();
+  const db = new sqlite3.oo1.DB(":memory:");
+  db.exec("PRAGMA foreign_keys = ON");
+
+  for (const path of Object.keys(migrations).sort()) {
+    db.exec(migrations[path]);
+  }
+
+  return new FakeD1Database(db) as unknown as D1Database & { sqlite: Database };
+}
+
+// ============================================================================
+// KV
+// ============================================================================
+
+interface KVEntry {
+  value: string;
+  expiration?: number;
+  metadata?: unknown;
+}
+
+/** Most keys KV returns from one list call; callers page through the rest by cursor. */
+const KV_MAX_LIST_LIMIT = 1000;
+
+/**
+ * Map-backed KV namespace supporting get/put/delete/list and expirationTtl.
+ */
+export function createFakeKV(): KVNamespace & { entries: Map<string, KVEntry> } {
+  const entries = new Map<string, KVEntry>();
+
+  const read = (key: string): KVEntry | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiration && entry.expiration <= Math.floor(Date.now() / 1000)) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const kv = {
+    entries,
+    async get(key: string, options?: unknown) {
+      const entry = read(key);
+      if (!entry) return null;
+      const type = typeof options === "string" ? options : (options as { type?: string } | undefined)?.type;
+      return type === "json" ? JSON.parse(entry.value) : entry.value;
+    },
+    async getWithMetadata(key: string, options?: unknown) {
+      const value = await kv.get(key, options);
+      return { value, metadata: read(key)?.metadata ?? null, cacheStatus: null };
+    },
+    async put(
+      key: string,
+      value: string,
+      options?: { expirationTtl?: number; expiration?: number; metadata?: unknown }
+    ) {
+      let expiration = options?.expiration;
+      if (options?.expirationTtl) {
+        expiration = Math.floor(Date.now() / 1000) + options.expirationTtl;
+      }
+      entries.set(key, { value: String(value), expiration, metadata: options?.metadata });
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list(options?: { prefix?: string; limit?: number; cursor?: string }) {
+      const prefix = options?.prefix ?? "";
+      const limit = options?.limit ?? KV_MAX_LIST_LIMIT;
+      if (limit < 1 || limit > KV_MAX_LIST_LIMIT) {
+        throw new Error(`KV list limit must be between 1 and ${KV_MAX_LIST_LIMIT}`);
+      }
+      const start = options?.cursor ? parseInt(options.cursor, 10) : 0;
+      const matching = Array.from(entries.keys())
+        .filter((name) => name.startsWith(prefix) && read(name))
+        .sort();
+      const keys = matching.slice(start, start + limit).map((name) => {
+        const entry = entries.get(name)!;
+        return { name, expiration: entry.expiration, metadata: entry.metadata };
+      });
+      if (start + limit < matching.length) {
+        return { keys, list_complete: false as const, cursor: String(start + limit), cacheStatus: null };
+      }
+      return { keys, list_complete: true as const, cacheStatus: null };
+    },
+  };
+
+  return kv as unknown as KVNamespace & { entries: Map<string, KVEntry> };
+}
+
+// ============================================================================
+// R2
+// ============================================================================
+
+interface R2Entry {
+  key: string;
+  data: Uint8Array;
+  httpMetadata: R2HTTPMetadata;
+  customMetadata: Record<string, string>;
+  uploaded: Date;
+}
+
+function toR2Object(entry: R2Entry, withBody: boolean) {
+  const etag = `${entry.key.length}-${entry.data.byteLength}`;
+  const object = {
+    key: entry.key,
+    version: "1",
+    size: entry.data.byteLength,
+    etag,
+    httpEtag: `"${etag}"`,
+    uploaded: entry.uploaded,
+    httpMetadata: entry.httpMetadata,
+    customMetadata: entry.customMetadata,
+    storageClass: "Standard",
+    writeHttpMetadata(headers: Headers) {
+      if (entry.httpMetadata.contentType) {
+        headers.set("content-type", entry.httpMetadata.contentType);
+      }
+      if (entry.httpMetadata.cacheControl) {
+        headers.set("cache-control", entry.httpMetadata.cacheControl);
+      }
+    },
+  };
+
+  if (!withBody) return object;
+
+  return {
+    ...object,
+    get body() {
+      return new Blob([entry.data]).stream();
+    },
+    bodyUsed: false,
+    async arrayBuffer() {
+      return entry.data.slice().buffer;
+    },
+    async bytes() {
+      return entry.data.slice();
+    },
+    async text() {
+      return new TextDecoder().decode(entry.data);
+    },
+    async json() {
+      return JSON.parse(new TextDecoder().decode(entry.data));
+    },
+    async blob() {
+      return new Blob([entry.data], { type: entry.httpMetadata.contentType });
+    },
+  };
+}
+
+/**
+ * Map-backed R2 bucket supporting put/get/head/delete/list.
+ */
+export function createFakeR2(): R2Bucket & { objects: Map<string, R2Entry> } {
+  const objects = new Map<string, R2Entry>();
+
+  const bucket = {
+    objects,
+    async put(
+      key: string,
+      value: ReadableStream | ArrayBuffer | ArrayBufferView | string | Blob | null,
+      options?: { httpMetadata?: R2HTTPMetadata; customMetadata?: Record<string, string> }
+    ) {
+      const data = new Uint8Array(await new Response(value as BodyInit | null).arrayBuffer());
+      const entry: R2Entry = {
+        key,
+        data,
+        httpMetadata: options?.httpMetadata ?? {},
+        customMetadata: options?.customMetadata ?? {},
+        uploaded: new Date(),
+      };
+      objects.set(key, entry);
+      return toR2Object(entry, false);
+    },
+    async get(key: string) {
+      const entry = objects.get(key);
+      return entry ? toR2Object(entry, true) : null;
+    },
+    async head(key: string) {
+      const entry = objects.get(key);
+      return entry ? toR2Object(entry, false) : null;
+    },
+    async delete(keys: string | string[]) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        objects.delete(key);
+      }
+    },
+    async list(options?: { prefix?: string; limit?: number; cursor?: string }) {
+      const prefix = options?.prefix ?? "";
+      const limit = options?.limit ?? 1000;
+      const start = options?.cursor ? parseInt(options.cursor, 10) : 0;
+      const matching = Array.from(objects.values())
+        .filter((entry) => entry.key.startsWith(prefix))
+        .sort((a, b) => a.key.localeCompare(b.key));
+      const page = matching.slice(start, start + limit);
+      const truncated = start + limit < matching.length;
+      return {
+        objects: page.map((entry) => toR2Object(entry, false)),
+        truncated,
+        cursor: truncated ? String(start + limit) : undefined,
+        delimitedPrefixes: [],
+      };
+    },
+  };
+
+  return bucket as unknown as R2Bucket & { objects: Map<string, R2Entry> };
+}
+
+// ============================================================================
+// Vectorize
+// ============================================================================
+
+type MetadataValue = string | number | boolean | null;
+type MetadataFilter = Record<
+  string,
+  MetadataValue | { $eq?: MetadataValue; $ne?: MetadataValue; $in?: MetadataValue[]; $nin?: MetadataValue[] }
+>;
+
+/** Most vectors one insert or upsert call accepts. */
+const VECTORIZE_MAX_UPSERT = 1000;
+/** Largest topK, and the lower cap that applies when values or all metadata are returned. */
+const VECTORIZE_MAX_TOP_K = 100;
+const VECTORIZE_MAX_TOP_K_WITH_DATA = 50;
+/** Largest metadata filter, measured as compact JSON. */
+const VECTORIZE_MAX_FILTER_BYTES = 2048;
+const VECTORIZE_FILTER_OPERATORS = ["$eq", "$ne", "$in", "$nin"];
+
+/**
+ * Metadata indexes the deployed index is documented to have (see README).
+ * Vectorize silently matches nothing when filtering on any other property.
+ */
+export const VECTORIZE_METADATA_INDEXES = ["type", "hobbyId", "userId"];
+
+/**
+ * Reject filters the real index would refuse, or would quietly match nothing
+ * for because the property has no metadata index.
+ */
+function assertValidFilter(filter: MetadataFilter, metadataIndexes: string[]): void {
+  const size = new TextEncoder().encode(JSON.stringify(filter)).length;
+  if (size > VECTORIZE_MAX_FILTER_BYTES) {
+    throw new Error(`Vectorize filter is ${size} bytes, over the ${VECTORIZE_MAX_FILTER_BYTES} byte limit`);
+  }
+  for (const [key, condition] of Object.entries(filter)) {
+    if (!metadataIndexes.includes(key)) {
+      throw new Error(`Vectorize filter on "${key}", which has no metadata index, would match nothing`);
+    }
+    if (condition !== null && typeof condition === "object") {
+      const unsupported = Object.keys(condition).find((operator) => !VECTORIZE_FILTER_OPERATORS.includes(operator));
+      if (unsupported) {
+        throw new Error(`Unsupported Vectorize filter operator: ${unsupported}`);
+      }
+    }
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function matchesFilter(metadata: Record<string, unknown> | undefined, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = metadata?.[key];
+    if (condition !== null && typeof condition === "object") {
+      if ("$eq" in condition && value !== condition.$eq) return false;
+      if ("$ne" in condition && value === condition.$ne) return false;
+      if (condition.$in && !condition.$in.includes(value as MetadataValue)) return false;
+      if (condition.$nin && condition.$nin.includes(value as MetadataValue)) return false;
+      return true;
+    }
+    return value === condition;
+  });
+}
+
+/**
+ * Brute-force cosine similarity index with Vectorize's insert/upsert semantics.
+ */
+export function createFakeVectorize(
+  metadataIndexes: string[] = VECTORIZE_METADATA_INDEXES
+): VectorizeIndex & { vectors: Map<string, VectorizeVector> } {
+  const vectors = new Map<string, VectorizeVector>();
+
+  const store = (input: VectorizeVector[], overwrite: boolean) => {
+    if (input.length > VECTORIZE_MAX_UPSERT) {
+      throw new Error(`Vectorize accepts at most ${VECTORIZE_MAX_UPSERT} vectors per call (got ${input.length})`);
+    }
+    const ids: string[] = [];
+    for (const vector of input) {
+      if (!overwrite && vectors.has(vector.id)) continue;
+      vectors.set(vector.id, {
+        id: vector.id,
+        values: Array.from(vector.values),
+        metadata: vector.metadata ? { ...vector.metadata } : undefined,
+      });
+      ids.push(vector.id);
+    }
+    return { ids, count: ids.length };
+  };
+
+  const index = {
+    vectors,
+    async describe() {
+      return { dimensions: 768, vectorsCount: vectors.size, config: { dimensions: 768, metric: "cosine" } };
+    },
+    async insert(input: VectorizeVector[]) {
+      return store(input, false);
+    },
+    async upsert(input: VectorizeVector[]) {
+      return store(input, true);
+    },
+    async query(
+      vector: number[] | Float32Array | Float64Array,
+      options?: {
+        topK?: number;
+        filter?: MetadataFilter;
+        returnValues?: boolean;
+        returnMetadata?: boolean | "all" | "indexed" | "none";
+      }
+    ) {
+      const topK = options?.topK ?? 5;
+      const maxTopK =
+        options?.returnValues || options?.returnMetadata === true || options?.returnMetadata === "all"
+          ? VECTORIZE_MAX_TOP_K_WITH_DATA
+          : VECTORIZE_MAX_TOP_K;
+      if (topK < 1 || topK > maxTopK) {
+        throw new Error(`Vectorize topK must be between 1 and ${maxTopK} (got ${topK})`);
+      }
+      if (options?.filter) {
+        assertValidFilter(options.filter, metadataIndexes);
+      }
+      const query = Array.from(vector);
+      const includeMetadata =
+        options?.returnMetadata === true ||
+        options?.returnMetadata === "all" ||
+        options?.returnMetadata === "indexed";
+
+      const matches = Array.from(vectors.values())
+        .filter((v) => matchesFilter(v.metadata as Record<string, unknown> | undefined, options?.filter))
+        .map((v) => ({
+          id: v.id,
+          score: cosineSimilarity(query, Array.from(v.values)),
+          ...(options?.returnValues ? { values: Array.from(v.values) } : {}),
+          ...(includeMetadata ? { metadata: v.metadata } : {}),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+
+      return { matches, count: matches.length };
+    },
+    async getByIds(ids: string[]) {
+      return ids
+        .map((id) => vectors.get(id))
+        .filter((v): v is VectorizeVector => !!v);
+    },
+    async deleteByIds(ids: string[]) {
+      let count = 0;
+      for (const id of ids) {
+        if (vectors.delete(id)) count++;
+      }
+      return { ids, count };
+    },
+  };
+
+  return index as unknown as VectorizeIndex & { vectors: Map<string, VectorizeVector> };
+}
+
+// ============================================================================
+// Workers AI
+// ============================================================================
+
+export const EMBEDDING_DIMENSIONS = 768;
+
+/**
+ * Deterministic bag-of-words embedding so texts sharing words score as similar.
+ */
+export function fakeEmbedding(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  for (const word of words) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    vector[Math.abs(hash) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  // Keep a tiny constant component so empty/disjoint texts still produce a valid vector
+  vector[0] += 0.01;
+  return vector;
+}
+
+export interface FakeAiCall {
+  model: string;
+  inputs: Record<string, unknown>;
+}
+
+/**
+ * Prompt-substring → canned response text. Checked in insertion order before
+ * the built-in defaults, so tests can override individual behaviours.
+ */
+export type FakeAiResponses = Record<string, string>;
+
+const DEFAULT_TEXT_RESPONSES: FakeAiResponses = {
+  "Categorize this hobby/item": "Collectables",
+  "You are categorizing an item inside a specific hobby collection": "Other",
+  "Extract 3-5 relevant tags": "vintage, collectible, test",
+  "Given only the item name": "A generated description.",
+  "Based on this description of an item":
+    '{"name": "Brass Pocket Watch", "description": "An antique brass pocket watch.", "category": "Collectables"}',
+};
+
+const DEFAULT_VISION_RESPONSE =
+  "A brass pocket watch with an engraved case, likely a collectible antique.";
+
+/**
+ * Stubbed Workers AI binding. Embedding models return fakeEmbedding(text);
+ * text and vision models return canned responses chosen by prompt content.
+ */
+export function createFakeAi(
+  responses: FakeAiResponses = {}
+): Ai & { calls: FakeAiCall[] } {
+  const calls: FakeAiCall[] = [];
+
+  const ai = {
+    calls,
+    async run(model: string, inputs: Record<string, unknown>) {
+      calls.push({ model, inputs });
+
+      if (model.includes("bge")) {
+        const texts = (inputs.text as string[] | string) ?? [];
+        const list = Array.isArray(texts) ? texts : [texts];
+        return {
+          shape: [list.length, EMBEDDING_DIMENSIONS],
+          data: list.map((text) => fakeEmbedding(text)),
+        };
+      }
+
+      const prompt = String(inputs.prompt ?? "");
+
+      if (model.includes("vision")) {
+        if (!inputs.image) {
+          return { response: "Thank you for agreeing" };
+        }
+        return { response: DEFAULT_VISION_RESPONSE };
+      }
+
+      for (const table of [responses, DEFAULT_TEXT_RESPONSES]) {
+        for (const [needle, response] of Object.entries(table)) {
+          if (prompt.includes(needle)) {
+            return { response };
+          }
+        }
+      }
+      return { response: "" };
+    },
+  };
+
+  return ai as unknown as Ai & { calls: FakeAiCall[] };
+}
+
+// ============================================================================
+// Images
+// ============================================================================
+
+/**
+ * Cloudflare Images stand-in. Instead of resizing, each output is the text
+ * `resized:{width}` so tests can tell which variant was served.
+ */
+export function createFakeImages(): ImagesBinding & { transforms: ImageTransform[] } {
+  const transforms: ImageTransform[] = [];
+
+  const images = {
+    transforms,
+    async info() {
+      return { format: "image/png", fileSize: 0, width: 1, height: 1 };
+    },
+    input() {
+      const applied: ImageTransform[] = [];
+      const transformer = {
+        transform(transform: ImageTransform) {
+          applied.push(transform);
+          transforms.push(transform);
+          return transformer;
+        },
+        draw() {
+          return transformer;
+        },
+        async output(options: { format: string }) {
+          const body = `resized:${applied.map((t) => t.width).join(",")}`;
+          return {
+            response: () => new Response(body, { headers: { "Content-Type": options.format } }),
+            contentType: () => options.format,
+            image: () => new Response(body).body as ReadableStream<Uint8Array>,
+          };
+        },
+      };
+      return transformer;
+    },
+  };
+
+  return images as unknown as ImagesBinding & { transforms: ImageTransform[] };
+}
+
+// ============================================================================
+// Mail
+// ============================================================================
+
+/**
+ * Mail transport that keeps sent messages for assertions instead of
+ * delivering or logging them.
+ */
+export function createFakeMail(): MailTransport & { sent: MailMessage[] } {
+  const sent: MailMessage[] = [];
+  return {
+    sent,
+    async send(message: MailMessage) {
+      sent.push(message);
+    },
+  };
+}
+
+// ============================================================================
+// Combined environment
+// ============================================================================
+
+export interface TestEnv {
+  DB: Awaited<ReturnType<typeof createFakeD1>>;
+  SESSIONS: ReturnType<typeof createFakeKV>;
+  AI: ReturnType<typeof createFakeAi>;
+  HOBBY_ITEMS_INDEX: ReturnType<typeof createFakeVectorize>;
+  ITEM_IMAGES: ReturnType<typeof createFakeR2>;
+  IMAGES?: ReturnType<typeof createFakeImages>;
+  MAIL_TRANSPORT?: ReturnType<typeof createFakeMail>;
+  IMAGE_SIGNING_SECRET?: string;
+}
+
+/**
+ * Build a full set of fresh bindings for one test.
+ * The Images binding is opt-in, mirroring local dev where it is usually absent.
+ */
+export async function createTestEnv(
+  options: { aiResponses?: FakeAiResponses; images?: boolean } = {}
+): Promise<TestEnv> {
+  return {
+    DB: await createFakeD1(),
+    SESSIONS: createFakeKV(),
+    AI: createFakeAi(options.aiResponses),
+    HOBBY_ITEMS_INDEX: createFakeVectorize(),
+    ITEM_IMAGES: createFakeR2(),
+    IMAGES: options.images ? createFakeImages() : undefined,
+    MAIL_TRANSPORT: createFakeMail(),
+    IMAGE_SIGNING_SECRET: "test-image-signing-secret",
+  };
+}
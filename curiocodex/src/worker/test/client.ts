@@ -0,0 +1,139 @@
+/**
+ * Small request helpers for exercising the Hono app against fake bindings.
+ */
+
+import worker from "../index";
+import type { TestEnv } from "./bindings";
+
+export interface RequestOptions {
+  token?: string | null;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Send a request to the worker and parse the JSON response body when present.
+ */
+export async function request<T = Record<string, unknown>>(
+  env: TestEnv,
+  method: string,
+  path: string,
+  options: RequestOptions = {}
+): Promise<{ status: number; body: T; response: Response }> {
+  const headers: Record<string, string> = { ...options.headers };
+  let body: BodyInit | undefined;
+
+  if (options.body instanceof FormData) {
+    body = options.body;
+  } else if (options.body !== undefined) {
+    headers["Content-Type"] = "application/json";
+    body = JSON.stringify(options.body);
+  }
+
+  if (options.token) {
+    headers["Authorization"] = `Bearer ${options.token}`;
+  }
+
+  const response = await worker.fetch(
+    new Request(`http://localhost${path}`, { method, headers, body }),
+    env
+  );
+
+  const contentType = response.headers.get("Content-Type") || "";
+  const parsed = contentType.includes("application/json")
+    ? await response.clone().json()
+    : null;
+
+  return { status: response.status, body: parsed as T, response };
+}
+
+/**
+ * Register a fresh user and return their session token and user ID.
+ */
+export async function registerUser(
+  env: TestEnv,
+  overrides: { email?: string; username?: string; password?: string } = {}
+): Promise<{ token: string; userId: string; email: string; password: string }> {
+  const suffix = crypto.randomUUID().slice(0, 8);
+  const email = overrides.email ?? `user-${suffix}@example.com`;
+  const username = overrides.username ?? `user-${suffix}`;
+  const password = overrides.password ?? "correct horse battery staple";
+
+  const { status, body } = await request<{
+    token: string;
+    user: { userId: string };
+  }>(env, "POST", "/api/auth/register", {
+    body: { email, username, password },
+  });
+
+  if (status !== 200) {
+    throw new Error(`Registration failed with status ${status}`);
+  }
+
+  return { token: body.token, userId: body.user.userId, email, password };
+}
+
+/**
+ * Create a hobby for the given user and return its ID.
+ */
+export async function createHobby(
+  env: TestEnv,
+  token: string,
+  fields: { name: string; description?: string; category?: string; itemCategories?: string[] }
+): Promise<string> {
+  const { status, body } = await request<{ hobby: { id: string } }>(
+    env,
+    "POST",
+    "/api/hobbies",
+    { token, body: fields }
+  );
+
+  if (status !== 200) {
+    throw new Error(`Hobby creation failed with status ${status}`);
+  }
+
+  return body.hobby.id;
+}
+
+/**
+ * Create an item in a hobby and return its ID.
+ */
+export async function createItem(
+  env: TestEnv,
+  token: string,
+  hobbyId: string,
+  fields: { name: string; description?: string; category?: string; customFields?: Record<string, unknown> }
+): Promise<string> {
+  const { status, body } = await request<{ item: { id: string } }>(
+    env,
+    "POST",
+    `/api/hobbies/${hobbyId}/items`,
+    { token, body: fields }
+  );
+
+  if (status !== 200) {
+    throw new Error(`Item creation failed with status ${status}`);
+  }
+
+  return body.item.id;
+}
+
+const IMAGE_SIGNATURES: Record<string, { bytes: number[]; type: string }> = {
+  png: { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], type: "image/png" },
+  jpg: { bytes: [0xff, 0xd8, 0xff, 0xd9], type: "image/jpeg" },
+};
+
+/**
+ * Bytes that pass upload type sniffing: a format signature followed by payload.
+ */
+export function imageBytes(format: "png" | "jpg", ...payload: number[]): Uint8Array {
+  return new Uint8Array([...IMAGE_SIGNATURES[format].bytes, ...payload]);
+}
+
+/**
+ * A File for multipart uploads; the format is taken from the file extension.
+ */
+export function imageFile(name: string, ...payload: number[]): File {
+  const format = name.endsWith(".png") ? "png" : "jpg";
+  return new File([imageBytes(format, ...payload)], name, { type: IMAGE_SIGNATURES[format].type });
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem, imageBytes, imageFile } from "./client";
+
+interface ItemPayload {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  tags: string[];
+  image_url: string | null;
+}
+
+describe("hobby routes", () => {
+  let env: TestEnv;
+  let token: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+  });
+
+  it("creates a hobby with AI category, tags and an embedding", async () => {
+    const { status, body } = await request<{
+      hobby: { id: string; category: string; tags: string[]; description: string };
+    }>(env, "POST", "/api/hobbies", {
+      token,
+      body: { name: "Vintage Watches", itemCategories: ["Pocket", "Wrist"] },
+    });
+
+    expect(status).toBe(200);
+    expect(body.hobby.category).toBe("Collectables");
+    expect(body.hobby.tags).toEqual(["vintage", "collectible", "test"]);
+    expect(body.hobby.description).toBe("A generated description.");
+    expect(env.HOBBY_ITEMS_INDEX.vectors.get(body.hobby.id)?.metadata).toMatchObject({
+      type: "hobby",
+      name: "Vintage Watches",
+    });
+
+    const categories = await request<{ definedCategories: string[] }>(
+      env,
+      "GET",
+      `/api/hobbies/${body.hobby.id}/item-categories`,
+      { token }
+    );
+    expect(categories.body.definedCategories).toEqual(["Pocket", "Wrist"]);
+  });
+
+  it("lists, updates and deletes hobbies for the owner only", async () => {
+    const hobbyId = await createHobby(env, token, { name: "Stamps", category: "Collectables" });
+    await createItem(env, token, hobbyId, { name: "Penny Black" });
+
+    const list = await request<{ hobbies: { id: string }[] }>(env, "GET", "/api/hobbies", { token });
+    expect(list.body.hobbies.map((h) => h.id)).toEqual([hobbyId]);
+
+    const other = await registerUser(env);
+    const forbidden = await request(env, "PUT", `/api/hobbies/${hobbyId}`, {
+      token: other.token,
+      body: { name: "Hijacked" },
+    });
+    expect(forbidden.status).toBe(404);
+
+    const updated = await request<{ hobby: { name: string } }>(env, "PUT", `/api/hobbies/${hobbyId}`, {
+      token,
+      body: { name: "Postage Stamps", category: "Collectables" },
+    });
+    expect(updated.body.hobby.name).toBe("Postage Stamps");
+
+    const deleted = await request(env, "DELETE", `/api/hobbies/${hobbyId}`, { token });
+    expect(deleted.status).toBe(200);
+    expect(env.HOBBY_ITEMS_INDEX.vectors.size).toBe(0);
+
+    const purged = await request(env, "DELETE", `/api/trash/hobbies/${hobbyId}`, { token });
+    expect(purged.status).toBe(200);
+
+    const remaining = await env.DB.prepare("SELECT COUNT(*) as count FROM items").first<{ count: number }>();
+    expect(remaining?.count).toBe(0);
+    expect(env.HOBBY_ITEMS_INDEX.vectors.size).toBe(0);
+  });
+});
+
+describe("item routes", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Board Games", category: "Gaming" });
+  });
+
+  it("creates, updates and deletes an item", async () => {
+    const created = await request<{ item: ItemPayload }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Catan", description: "Trading and building game" },
+    });
+    expect(created.status).toBe(200);
+    // Hobby category is inherited when no custom item categories exist yet
+    expect(created.body.item.category).toBe("Gaming");
+
+    const itemId = created.body.item.id;
+    expect(env.HOBBY_ITEMS_INDEX.vectors.get(itemId)?.metadata).toMatchObject({ hobbyId, type: "item" });
+
+    const updated = await request<{ item: ItemPayload }>(
+      env,
+      "PUT",
+      `/api/hobbies/${hobbyId}/items/${itemId}`,
+      { token, body: { name: "Catan (5th ed.)", category: "Euro" } }
+    );
+    expect(updated.body.item.category).toBe("Euro");
+
+    const list = await request<{ items: ItemPayload[] }>(env, "GET", `/api/hobbies/${hobbyId}/items`, { token });
+    expect(list.body.items).toHaveLength(1);
+    expect(list.body.items[0].name).toBe("Catan (5th ed.)");
+
+    const deleted = await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${itemId}`, { token });
+    expect(deleted.status).toBe(200);
+    expect(env.HOBBY_ITEMS_INDEX.vectors.has(itemId)).toBe(false);
+  });
+
+  it("requires a name or an image", async () => {
+    const { status } = await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { description: "No name" },
+    });
+    expect(status).toBe(400);
+  });
+
+  it("uploads an image to R2 and fills missing fields from image analysis", async () => {
+    const form = new FormData();
+    form.append("image", imageFile("watch.png", 1, 2, 3));
+
+    const { status, body } = await request<{ item: ItemPayload }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/items`,
+      { token, body: form }
+    );
+
+    expect(status).toBe(200);
+    expect(body.item.name).toBe("Brass Pocket Watch");
+    expect(body.item.image_url).toMatch(/^\/api\/images\/items\/.+\.png\?expires=\d+&sig=/);
+
+    const image = await request(env, "GET", body.item.image_url!);
+    expect(image.status).toBe(200);
+    expect(new Uint8Array(await image.response.arrayBuffer())).toEqual(imageBytes("png", 1, 2, 3));
+  });
+
+  it("bulk creates items and reports skipped rows", async () => {
+    const { status, body } = await request<{ items: ItemPayload[]; skipped: { index: number }[] }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/items/bulk`,
+      { token, body: { items: [{ name: "Azul" }, { name: "  " }, { name: "Ticket to Ride" }] } }
+    );
+
+    expect(status).toBe(200);
+    expect(body.items.map((i) => i.name)).toEqual(["Azul", "Ticket to Ride"]);
+    expect(body.skipped).toEqual([{ index: 1, reason: "Missing name" }]);
+
+    const empty = await request(env, "POST", `/api/hobbies/${hobbyId}/items/bulk`, {
+      token,
+      body: { items: [] },
+    });
+    expect(empty.status).toBe(400);
+  });
+
+  it("moves an item between the user's hobbies", async () => {
+    const itemId = await createItem(env, token, hobbyId, { name: "Chess Set" });
+    const targetId = await createHobby(env, token, { name: "Antiques", category: "Collectables" });
+
+    const moved = await request<{ item: { newHobbyId: string } }>(
+      env,
+      "PUT",
+      `/api/hobbies/${hobbyId}/items/${itemId}/move`,
+      { token, body: { newHobbyId: targetId } }
+    );
+    expect(moved.status).toBe(200);
+    expect(env.HOBBY_ITEMS_INDEX.vectors.get(itemId)?.metadata).toMatchObject({ hobbyId: targetId });
+
+    const sameHobby = await request(env, "PUT", `/api/hobbies/${targetId}/items/${itemId}/move`, {
+      token,
+      body: { newHobbyId: targetId },
+    });
+    expect(sameHobby.status).toBe(400);
+
+    const other = await registerUser(env);
+    const foreignHobby = await createHobby(env, other.token, { name: "Not mine", category: "Other" });
+    const forbidden = await request(env, "PUT", `/api/hobbies/${targetId}/items/${itemId}/move`, {
+      token,
+      body: { newHobbyId: foreignHobby },
+    });
+    expect(forbidden.status).toBe(404);
+  });
+});
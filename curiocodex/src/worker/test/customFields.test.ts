@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem, imageFile } from "./client";
+import {
+  coerceCustomFieldValues,
+  normalizeFieldDefinitions,
+  validateCustomFieldValues,
+  type CustomFieldDefinition,
+} from "../customFields";
+
+const COIN_FIELDS = [
+  { label: "Year", type: "number", required: true },
+  { label: "Mint", type: "enum", options: ["Philadelphia", "Denver", "San Francisco"] },
+  { label: "Acquired", type: "date" },
+  { label: "Graded", type: "boolean" },
+];
+
+interface ItemPayload {
+  id: string;
+  custom_fields: Record<string, unknown>;
+}
+
+describe("custom field validation", () => {
+  it("normalizes definitions and rejects bad ones", () => {
+    const result = normalizeFieldDefinitions(COIN_FIELDS);
+    expect(result).toMatchObject({
+      fields: [
+        { key: "year", type: "number", required: true },
+        { key: "mint", options: ["Philadelphia", "Denver", "San Francisco"], required: false },
+        { key: "acquired" },
+        { key: "graded" },
+      ],
+    });
+
+    expect(normalizeFieldDefinitions([{ label: "Year", type: "color" }])).toHaveProperty("error");
+    expect(normalizeFieldDefinitions([{ label: "Mint", type: "enum" }])).toHaveProperty("error");
+    expect(
+      normalizeFieldDefinitions([
+        { label: "Year", type: "number" },
+        { label: "year", type: "text" },
+      ])
+    ).toHaveProperty("error");
+  });
+
+  it("coerces values to their field types", () => {
+    const { fields } = normalizeFieldDefinitions(COIN_FIELDS) as { fields: CustomFieldDefinition[] };
+
+    expect(
+      validateCustomFieldValues(fields, { year: "1921", mint: "denver", acquired: "2024-02-29", graded: "false" })
+    ).toEqual({ values: { year: 1921, mint: "Denver", acquired: "2024-02-29", graded: false } });
+
+    expect(validateCustomFieldValues(fields, { year: "soon" })).toEqual({ error: "Year must be a number" });
+    expect(validateCustomFieldValues(fields, { year: 1921, acquired: "2023-02-30" })).toHaveProperty("error");
+    expect(validateCustomFieldValues(fields, { year: 1921, grade: "MS-65" })).toEqual({
+      error: "Unknown custom field: grade",
+    });
+    expect(validateCustomFieldValues(fields, { mint: "Denver" })).toEqual({ error: "Year is required" });
+    expect(validateCustomFieldValues(fields, { mint: "Denver" }, { partial: true })).toEqual({
+      values: { mint: "Denver" },
+    });
+  });
+
+  it("ignores inherited properties named like a field", () => {
+    const { fields } = normalizeFieldDefinitions([{ label: "Constructor", type: "text" }]) as {
+      fields: CustomFieldDefinition[];
+    };
+    expect(fields[0].key).toBe("constructor");
+
+    expect(validateCustomFieldValues(fields, {})).toEqual({ values: {} });
+    expect(coerceCustomFieldValues(fields, { name: "Morgan Dollar" })).toEqual({});
+    expect(validateCustomFieldValues(fields, { constructor: "Mint" })).toEqual({ values: { constructor: "Mint" } });
+  });
+});
+
+describe("custom field routes", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv({
+      aiResponses: {
+        "Based on this description of an item":
+          '{"name": "Morgan Dollar", "description": "A silver dollar.", "category": "Coins", "fields": {"year": "1921", "mint": "D", "graded": true}}',
+      },
+    });
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Coins", category: "Collectables" });
+    const saved = await request(env, "PUT", `/api/hobbies/${hobbyId}/item-fields`, {
+      token,
+      body: { fields: COIN_FIELDS },
+    });
+    expect(saved.status).toBe(200);
+  });
+
+  it("stores the schema per hobby and hides it from other users", async () => {
+    const { body } = await request<{ fields: CustomFieldDefinition[] }>(
+      env,
+      "GET",
+      `/api/hobbies/${hobbyId}/item-fields`,
+      { token }
+    );
+    expect(body.fields.map((field) => field.key)).toEqual(["year", "mint", "acquired", "graded"]);
+
+    const invalid = await request(env, "PUT", `/api/hobbies/${hobbyId}/item-fields`, {
+      token,
+      body: { fields: [{ label: "Grade", type: "enum", options: [] }] },
+    });
+    expect(invalid.status).toBe(400);
+
+    const stranger = await registerUser(env);
+    const hidden = await request(env, "GET", `/api/hobbies/${hobbyId}/item-fields`, { token: stranger.token });
+    expect(hidden.status).toBe(404);
+  });
+
+  it("validates values when items are created and updated", async () => {
+    const missing = await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Buffalo nickel", customFields: { mint: "Denver" } },
+    });
+    expect(missing.status).toBe(400);
+
+    const created = await request<{ item: ItemPayload }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Buffalo nickel", customFields: { year: "1937", mint: "Denver" } },
+    });
+    expect(created.status).toBe(200);
+    expect(created.body.item.custom_fields).toEqual({ year: 1937, mint: "Denver" });
+
+    const itemId = created.body.item.id;
+    const badUpdate = await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}`, {
+      token,
+      body: { name: "Buffalo nickel", customFields: { year: 1937, graded: "maybe" } },
+    });
+    expect(badUpdate.status).toBe(400);
+
+    // Updates without customFields keep the stored values
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}`, {
+      token,
+      body: { name: "Buffalo nickel (worn)" },
+    });
+    const list = await request<{ items: ItemPayload[] }>(env, "GET", `/api/hobbies/${hobbyId}/items`, { token });
+    expect(list.body.items[0].custom_fields).toEqual({ year: 1937, mint: "Denver" });
+  });
+
+  it("skips bulk items whose values do not match the schema", async () => {
+    const { body } = await request<{ items: ItemPayload[]; skipped: { index: number; reason: string }[] }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/items/bulk`,
+      {
+        token,
+        body: {
+          items: [
+            { name: "Wheat penny", customFields: { year: 1944 } },
+            { name: "Mystery coin" },
+          ],
+        },
+      }
+    );
+
+    expect(body.items).toHaveLength(1);
+    expect(body.items[0].custom_fields).toEqual({ year: 1944 });
+    expect(body.skipped).toEqual([{ index: 1, reason: "Year is required" }]);
+  });
+
+  it("fills fields from image analysis without overriding user values", async () => {
+    const form = new FormData();
+    form.append("image", imageFile("coin.png", 7));
+    form.append("customFields", JSON.stringify({ graded: "false" }));
+
+    const { status, body } = await request<{ item: ItemPayload }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: form,
+    });
+
+    expect(status).toBe(200);
+    // "D" is not a defined mint option, so the AI suggestion is dropped
+    expect(body.item.custom_fields).toEqual({ year: 1921, graded: false });
+    expect(Array.from(env.ITEM_IMAGES.objects.keys())).toHaveLength(1);
+  });
+
+  it("removes uploaded photos when required fields stay empty", async () => {
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/item-fields`, {
+      token,
+      body: { fields: [...COIN_FIELDS, { label: "Grade", type: "text", required: true }] },
+    });
+
+    const form = new FormData();
+    form.append("image", imageFile("coin.png", 8));
+    const { status } = await request(env, "POST", `/api/hobbies/${hobbyId}/items`, { token, body: form });
+
+    expect(status).toBe(400);
+    expect(env.ITEM_IMAGES.objects.size).toBe(0);
+  });
+
+  it("ignores values for fields removed from the schema", async () => {
+    const itemId = await createItem(env, token, hobbyId, { name: "Half dollar", customFields: { year: 1964 } });
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/item-fields`, {
+      token,
+      body: { fields: [{ label: "Grade", type: "text" }] },
+    });
+
+    const updated = await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}`, {
+      token,
+      body: { name: "Half dollar", customFields: { grade: "AU-50" } },
+    });
+    expect(updated.status).toBe(200);
+  });
+});
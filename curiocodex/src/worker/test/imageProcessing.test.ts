@@ -0,0 +1,280 @@
+import { describe, it, expect } from "vitest";
+import { createTestEnv } from "./bindings";
+import { request, registerUser, createHobby, imageBytes, imageFile } from "./client";
+import {
+  MAX_IMAGE_BYTES,
+  buildImageVariantKey,
+  originalImageKey,
+  processImageUpload,
+  sniffImageType,
+} from "../imageProcessing";
+
+/**
+ * A little-endian JPEG whose EXIF block has an Orientation tag and a GPS IFD
+ * holding a GPSLatitude rational triple (stored out of line).
+ */
+function jpegWithGps(): Uint8Array {
+  const tiff = new Uint8Array(80);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x49, 0x49, 0x2a, 0x00]);
+  view.setUint32(4, 8, true);
+
+  // IFD0: Orientation = 6, GPSInfo -> 38
+  view.setUint16(8, 2, true);
+  view.setUint16(10, 0x0112, true);
+  view.setUint16(12, 3, true);
+  view.setUint32(14, 1, true);
+  view.setUint16(18, 6, true);
+  view.setUint16(22, 0x8825, true);
+  view.setUint16(24, 4, true);
+  view.setUint32(26, 1, true);
+  view.setUint32(30, 38, true);
+
+  // GPS IFD: GPSLatitude, 3 rationals at offset 56
+  view.setUint16(38, 1, true);
+  view.setUint16(40, 0x0002, true);
+  view.setUint16(42, 5, true);
+  view.setUint32(44, 3, true);
+  view.setUint32(48, 56, true);
+  for (let i = 56; i < 80; i++) tiff[i] = 0x2a;
+
+  const app1Length = 2 + 6 + tiff.length;
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, app1Length >> 8, app1Length & 0xff,
+    ...Array.from("Exif\0\0", (ch) => ch.charCodeAt(0)),
+    ...tiff,
+    0xff, 0xda, 0x00, 0x02,
+    0xff, 0xd9,
+  ]);
+}
+
+/** An XMP packet that repeats a photo's GPS position. */
+const XMP_GPS =
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+  '<rdf:Description xmlns:exif="http://ns.adobe.com/exif/1.0/" exif:GPSLatitude="51,30.0N" ' +
+  'exif:GPSLongitude="0,7.5W"/></rdf:RDF></x:xmpmeta>';
+
+const ascii = (text: string) => Array.from(text, (ch) => ch.charCodeAt(0));
+
+/** A JPEG whose EXIF block is followed by an XMP segment holding GPS. */
+function jpegWithXmp(): Uint8Array {
+  const exif = jpegWithGps();
+  const xmp = ascii(`http://ns.adobe.com/xap/1.0/\0${XMP_GPS}`);
+  const app1Length = 2 + xmp.length;
+  return new Uint8Array([
+    ...exif.subarray(0, -6),
+    0xff, 0xe1, app1Length >> 8, app1Length & 0xff,
+    ...xmp,
+    ...exif.subarray(-6),
+  ]);
+}
+
+function pngChunk(type: string, data: number[]): number[] {
+  const bytes = new Uint8Array(12 + data.length);
+  new DataView(bytes.buffer).setUint32(0, data.length);
+  bytes.set(ascii(type), 4);
+  bytes.set(data, 8);
+  return Array.from(bytes);
+}
+
+function webpChunk(type: string, data: number[]): number[] {
+  const bytes = new Uint8Array(8 + data.length + (data.length % 2));
+  new DataView(bytes.buffer).setUint32(4, data.length, true);
+  bytes.set(ascii(type));
+  bytes.set(data, 8);
+  return Array.from(bytes);
+}
+
+describe("image upload processing", () => {
+  it("sniffs formats from bytes rather than trusting the filename", () => {
+    expect(sniffImageType(imageBytes("png"))?.contentType).toBe("image/png");
+    expect(sniffImageType(imageBytes("jpg"))?.extension).toBe("jpg");
+    expect(sniffImageType(new TextEncoder().encode("<svg></svg>"))).toBeNull();
+  });
+
+  it("rejects empty, oversized and unknown files", () => {
+    expect(processImageUpload(new Uint8Array())).toEqual({ error: "Image file is empty" });
+    expect("error" in processImageUpload(new Uint8Array(MAX_IMAGE_BYTES + 1))).toBe(true);
+    expect("error" in processImageUpload(new TextEncoder().encode("%PDF-1.7"))).toBe(true);
+  });
+
+  it("blanks GPS data in JPEG EXIF but keeps orientation", () => {
+    const original = jpegWithGps();
+    const result = processImageUpload(original);
+    if ("error" in result) throw new Error(result.error);
+
+    const cleaned = result.image.bytes;
+    const tiffStart = 12;
+    const view = new DataView(cleaned.buffer, cleaned.byteOffset);
+    expect(cleaned.length).toBe(original.length);
+    // Orientation entry untouched
+    expect(view.getUint16(tiffStart + 18, true)).toBe(6);
+    // GPS IFD now has no entries and the latitude values are gone
+    expect(view.getUint16(tiffStart + 38, true)).toBe(0);
+    expect(cleaned.subarray(tiffStart + 56, tiffStart + 80).every((b) => b === 0)).toBe(true);
+    // Image data after the EXIF block is preserved
+    expect(Array.from(cleaned.subarray(-6))).toEqual([0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]);
+  });
+
+  it("drops XMP segments from JPEGs", () => {
+    const original = jpegWithXmp();
+    const result = processImageUpload(original);
+    if ("error" in result) throw new Error(result.error);
+
+    const cleaned = result.image.bytes;
+    expect(new TextDecoder().decode(cleaned)).not.toContain("GPSLatitude");
+    expect(cleaned.length).toBe(jpegWithGps().length);
+    // EXIF orientation survives alongside the image data
+    expect(new DataView(cleaned.buffer, cleaned.byteOffset).getUint16(12 + 18, true)).toBe(6);
+    expect(Array.from(cleaned.subarray(-6))).toEqual([0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]);
+  });
+
+  it("drops the eXIf chunk from PNGs", () => {
+    const png = new Uint8Array([
+      ...imageBytes("png"),
+      ...pngChunk("IHDR", [0, 0, 0, 1]),
+      ...pngChunk("eXIf", [1, 2, 3, 4, 5]),
+      ...pngChunk("IEND", []),
+    ]);
+
+    const result = processImageUpload(png);
+    if ("error" in result) throw new Error(result.error);
+    expect(new TextDecoder().decode(result.image.bytes)).not.toContain("eXIf");
+    expect(result.image.bytes.length).toBe(png.length - 17);
+  });
+
+  it("drops XMP text chunks from PNGs but keeps other text", () => {
+    const comment = pngChunk("tEXt", ascii("Comment\0Scanned at home"));
+    const png = new Uint8Array([
+      ...imageBytes("png"),
+      ...pngChunk("IHDR", [0, 0, 0, 1]),
+      ...pngChunk("iTXt", ascii(`XML:com.adobe.xmp\0\0\0\0\0${XMP_GPS}`)),
+      ...comment,
+      ...pngChunk("IEND", []),
+    ]);
+
+    const result = processImageUpload(png);
+    if ("error" in result) throw new Error(result.error);
+    const text = new TextDecoder().decode(result.image.bytes);
+    expect(text).not.toContain("GPSLatitude");
+    expect(text).toContain("Scanned at home");
+  });
+
+  it("drops EXIF and XMP chunks from WebPs and clears their flags", () => {
+    const chunks = [
+      // VP8X with the EXIF (0x08) and XMP (0x04) flags set
+      ...webpChunk("VP8X", [0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+      ...webpChunk("VP8 ", [1, 2, 3]),
+      ...webpChunk("EXIF", [1, 2, 3, 4]),
+      ...webpChunk("XMP ", ascii(XMP_GPS)),
+    ];
+    const header = [...ascii("RIFF"), 0, 0, 0, 0, ...ascii("WEBP")];
+    const webp = new Uint8Array([...header, ...chunks]);
+    new DataView(webp.buffer).setUint32(4, webp.length - 8, true);
+
+    const result = processImageUpload(webp);
+    if ("error" in result) throw new Error(result.error);
+    const cleaned = result.image.bytes;
+    expect(new TextDecoder().decode(cleaned)).not.toContain("GPSLatitude");
+    expect(cleaned.length).toBe(12 + 18 + 12);
+    expect(new DataView(cleaned.buffer, cleaned.byteOffset).getUint32(4, true)).toBe(cleaned.length - 8);
+    expect(cleaned[20]).toBe(0);
+  });
+
+  it("maps variant keys back to their original", () => {
+    const key = "items/u1/i1/p1.jpg";
+    expect(buildImageVariantKey(key, "thumb")).toBe("items/u1/i1/p1.jpg.thumb.webp");
+    expect(originalImageKey(buildImageVariantKey(key, "medium"))).toBe(key);
+    expect(originalImageKey(key)).toBe(key);
+  });
+});
+
+describe("image upload routes", () => {
+  it("rejects files that are not images, whatever their extension", async () => {
+    const env = await createTestEnv();
+    const { token } = await registerUser(env);
+    const hobbyId = await createHobby(env, token, { name: "Maps", category: "Collectables" });
+
+    const form = new FormData();
+    form.append("name", "Old map");
+    form.append("image", new File(["<html></html>"], "map.jpg", { type: "image/jpeg" }));
+    const { status, body } = await request<{ error: string }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: form,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("map.jpg");
+    expect(env.ITEM_IMAGES.objects.size).toBe(0);
+  });
+
+  it("stores the sniffed extension and serves resized variants by size", async () => {
+    const env = await createTestEnv({ images: true });
+    const { token } = await registerUser(env);
+    const hobbyId = await createHobby(env, token, { name: "Maps", category: "Collectables" });
+
+    const form = new FormData();
+    form.append("name", "Old map");
+    // A PNG mislabelled as a JPEG keeps its real format
+    form.append("image", new File([imageBytes("png", 1)], "map.jpg", { type: "image/jpeg" }));
+    const { body } = await request<{ item: { image_url: string } }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/items`,
+      { token, body: form }
+    );
+
+    expect(body.item.image_url).toMatch(/\.png\?/);
+    expect(env.IMAGES?.transforms.map((t) => t.width)).toEqual([320, 1024]);
+    expect(env.ITEM_IMAGES.objects.size).toBe(3);
+
+    const thumb = await request(env, "GET", `${body.item.image_url}&size=thumb`);
+    expect(thumb.response.headers.get("Content-Type")).toBe("image/webp");
+    expect(await thumb.response.text()).toBe("resized:320");
+
+    const original = await request(env, "GET", body.item.image_url);
+    expect(new Uint8Array(await original.response.arrayBuffer())).toEqual(imageBytes("png", 1));
+
+    const invalid = await request(env, "GET", `${body.item.image_url}&size=huge`);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("falls back to the original when no variant exists", async () => {
+    const env = await createTestEnv();
+    const { token } = await registerUser(env);
+    const hobbyId = await createHobby(env, token, { name: "Maps", category: "Collectables" });
+
+    const form = new FormData();
+    form.append("image", imageFile("map.png", 5));
+    const { body } = await request<{ item: { id: string; image_url: string } }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/items`,
+      { token, body: form }
+    );
+
+    const thumb = await request(env, "GET", `${body.item.image_url}&size=thumb`);
+    expect(thumb.status).toBe(200);
+    expect(new Uint8Array(await thumb.response.arrayBuffer())).toEqual(imageBytes("png", 5));
+  });
+
+  it("deletes variants along with the original", async () => {
+    const env = await createTestEnv({ images: true });
+    const { token } = await registerUser(env);
+    const hobbyId = await createHobby(env, token, { name: "Maps", category: "Collectables" });
+
+    const form = new FormData();
+    form.append("name", "Old map");
+    form.append("image", imageFile("map.png", 5));
+    const { body } = await request<{ item: { id: string } }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: form,
+    });
+    expect(env.ITEM_IMAGES.objects.size).toBe(3);
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${body.item.id}`, { token });
+    await request(env, "DELETE", `/api/trash/items/${body.item.id}`, { token });
+    expect(env.ITEM_IMAGES.objects.size).toBe(0);
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, imageFile } from "./client";
+
+describe("private image serving", () => {
+  let env: TestEnv;
+  let owner: Awaited<ReturnType<typeof registerUser>>;
+  let signedUrl: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    owner = await registerUser(env);
+    hobbyId = await createHobby(env, owner.token, { name: "Cameras", category: "Photography" });
+
+    const form = new FormData();
+    form.append("name", "Leica M3");
+    form.append("image", imageFile("leica.jpg", 4, 5, 6));
+    const { body } = await request<{ item: { image_url: string } }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/items`,
+      { token: owner.token, body: form }
+    );
+    signedUrl = body.item.image_url;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("stores a stable key and signs it on every read", async () => {
+    const stored = await env.DB.prepare("SELECT image_url FROM items").first<{ image_url: string }>();
+    expect(stored?.image_url.startsWith(`items/${owner.userId}/`)).toBe(true);
+    expect(stored?.image_url).not.toContain("?");
+
+    const { body } = await request<{ items: { image_url: string }[] }>(
+      env,
+      "GET",
+      `/api/hobbies/${hobbyId}/items`,
+      { token: owner.token }
+    );
+    expect(body.items[0].image_url).toBe(signedUrl);
+  });
+
+  it("serves signed URLs and rejects unsigned or tampered ones", async () => {
+    const ok = await request(env, "GET", signedUrl);
+    expect(ok.status).toBe(200);
+    expect(ok.response.headers.get("Cache-Control")).toMatch(/^private, max-age=\d+$/);
+
+    const unsigned = await request(env, "GET", signedUrl.split("?")[0]);
+    expect(unsigned.status).toBe(403);
+
+    const tampered = await request(env, "GET", signedUrl.replace(/sig=./, "sig=x"));
+    expect(tampered.status).toBe(403);
+
+    const expired = await request(env, "GET", signedUrl.replace(/expires=\d+/, "expires=1"));
+    expect(expired.status).toBe(403);
+  });
+
+  it("fails instead of signing with a made-up key when the secret is missing", async () => {
+    env.IMAGE_SIGNING_SECRET = undefined;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const items = await request(env, "GET", `/api/hobbies/${hobbyId}/items`, { token: owner.token });
+    expect(items.status).toBe(500);
+    const image = await request(env, "GET", signedUrl);
+    expect(image.status).toBe(500);
+    expect(Array.from(env.SESSIONS.entries.keys()).some((key) => key.startsWith("config:"))).toBe(false);
+  });
+
+  it("lets only the owner fetch unsigned keys with a session", async () => {
+    const path = signedUrl.split("?")[0];
+
+    const mine = await request(env, "GET", path, { token: owner.token });
+    expect(mine.status).toBe(200);
+
+    const stranger = await registerUser(env);
+    const theirs = await request(env, "GET", path, { token: stranger.token });
+    expect(theirs.status).toBe(403);
+  });
+});
+
+describe("image cleanup", () => {
+  let env: TestEnv;
+  let owner: Awaited<ReturnType<typeof registerUser>>;
+  let hobbyId: string;
+
+  const uploadItem = async (name: string) => {
+    const form = new FormData();
+    form.append("name", name);
+    form.append("image", imageFile("photo.png", 7, 8, 9));
+    const { body } = await request<{ item: { id: string } }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/items`,
+      { token: owner.token, body: form }
+    );
+    return body.item.id;
+  };
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    owner = await registerUser(env);
+    hobbyId = await createHobby(env, owner.token, { name: "Coins", category: "Collectables" });
+  });
+
+  it("removes the R2 object when an item is purged from the trash", async () => {
+    const itemId = await uploadItem("Morgan Dollar");
+    expect(env.ITEM_IMAGES.objects.size).toBe(1);
+
+    // Trashed items keep their photos so they can be restored
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${itemId}`, { token: owner.token });
+    expect(env.ITEM_IMAGES.objects.size).toBe(1);
+
+    await request(env, "DELETE", `/api/trash/items/${itemId}`, { token: owner.token });
+    expect(env.ITEM_IMAGES.objects.size).toBe(0);
+  });
+
+  it("removes every item image when a hobby is purged from the trash", async () => {
+    await uploadItem("Morgan Dollar");
+    await uploadItem("Buffalo Nickel");
+    expect(env.ITEM_IMAGES.objects.size).toBe(2);
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}`, { token: owner.token });
+    await request(env, "DELETE", `/api/trash/hobbies/${hobbyId}`, { token: owner.token });
+    expect(env.ITEM_IMAGES.objects.size).toBe(0);
+  });
+
+  it("reconciles orphaned keys under the user's prefix only", async () => {
+    await uploadItem("Morgan Dollar");
+    const stranger = await registerUser(env);
+    await env.ITEM_IMAGES.put(`items/${owner.userId}/leftover.png`, new Uint8Array([1]));
+    await env.ITEM_IMAGES.put(`items/${stranger.userId}/leftover.png`, new Uint8Array([1]));
+
+    const preview = await request<{ orphaned: string[]; purged: number }>(
+      env,
+      "POST",
+      "/api/admin/reconcile-images?dryRun=true",
+      { token: owner.token }
+    );
+    expect(preview.body.orphaned).toEqual([`items/${owner.userId}/leftover.png`]);
+    expect(preview.body.purged).toBe(0);
+    expect(env.ITEM_IMAGES.objects.size).toBe(3);
+
+    const purge = await request<{ purged: number }>(env, "POST", "/api/admin/reconcile-images", {
+      token: owner.token,
+    });
+    expect(purge.body.purged).toBe(1);
+    expect(env.ITEM_IMAGES.objects.has(`items/${owner.userId}/leftover.png`)).toBe(false);
+    expect(env.ITEM_IMAGES.objects.has(`items/${stranger.userId}/leftover.png`)).toBe(true);
+    expect(env.ITEM_IMAGES.objects.size).toBe(2);
+  });
+});
+
+describe("item photo galleries", () => {
+  interface GalleryResponse {
+    images: { id: string; image_url: string; position: number; is_primary: boolean }[];
+    primaryImageUrl: string | null;
+  }
+
+  let env: TestEnv;
+  let owner: Awaited<ReturnType<typeof registerUser>>;
+  let hobbyId: string;
+  let itemId: string;
+
+  const photo = (name: string, byte: number) => imageFile(name, byte);
+
+  const galleryPath = () => `/api/hobbies/${hobbyId}/items/${itemId}/images`;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    owner = await registerUser(env);
+    hobbyId = await createHobby(env, owner.token, { name: "Vinyl", category: "Music" });
+
+    const form = new FormData();
+    form.append("image", photo("front.png", 1));
+    form.append("image", photo("back.png", 2));
+    const { body } = await request<{ item: { id: string; name: string } }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/items`,
+      { token: owner.token, body: form }
+    );
+    itemId = body.item.id;
+  });
+
+  it("stores every uploaded photo and analyzes them together", async () => {
+    const visionCalls = env.AI.calls.filter(
+      (call) => call.model === "@cf/meta/llama-3.2-11b-vision-instruct" && call.inputs.image
+    );
+    expect(visionCalls).toHaveLength(2);
+
+    const { body } = await request<GalleryResponse>(env, "GET", galleryPath(), { token: owner.token });
+    expect(body.images).toHaveLength(2);
+    expect(body.images.map((image) => image.is_primary)).toEqual([true, false]);
+    expect(body.primaryImageUrl).toBe(body.images[0].image_url);
+  });
+
+  it("appends, reorders, promotes and deletes photos", async () => {
+    const form = new FormData();
+    form.append("image", photo("label.png", 3));
+    const added = await request<GalleryResponse>(env, "POST", galleryPath(), {
+      token: owner.token,
+      body: form,
+    });
+    expect(added.body.images).toHaveLength(3);
+    const [front, back, label] = added.body.images.map((image) => image.id);
+
+    const reordered = await request<GalleryResponse>(env, "PUT", `${galleryPath()}/order`, {
+      token: owner.token,
+      body: { imageIds: [label, front, back] },
+    });
+    expect(reordered.body.images.map((image) => image.id)).toEqual([label, front, back]);
+
+    const incomplete = await request(env, "PUT", `${galleryPath()}/order`, {
+      token: owner.token,
+      body: { imageIds: [label, front] },
+    });
+    expect(incomplete.status).toBe(400);
+
+    const promoted = await request<GalleryResponse>(env, "PUT", `${galleryPath()}/${back}/primary`, {
+      token: owner.token,
+    });
+    expect(promoted.body.images.find((image) => image.is_primary)?.id).toBe(back);
+
+    const item = await env.DB.prepare("SELECT image_url FROM items WHERE id = ?")
+      .bind(itemId)
+      .first<{ image_url: string }>();
+    expect(promoted.body.primaryImageUrl?.split("?")[0]).toBe(`/api/images/${item?.image_url}`);
+
+    // Deleting the primary photo hands the flag to the next photo in order
+    const removed = await request<GalleryResponse>(env, "DELETE", `${galleryPath()}/${back}`, {
+      token: owner.token,
+    });
+    expect(removed.body.images.map((image) => image.id)).toEqual([label, front]);
+    expect(removed.body.images[0].is_primary).toBe(true);
+    expect(env.ITEM_IMAGES.objects.size).toBe(2);
+  });
+
+  it("clears the item's image when its last photo is removed", async () => {
+    const { body } = await request<GalleryResponse>(env, "GET", galleryPath(), { token: owner.token });
+    for (const image of body.images) {
+      await request(env, "DELETE", `${galleryPath()}/${image.id}`, { token: owner.token });
+    }
+
+    const item = await env.DB.prepare("SELECT image_url FROM items WHERE id = ?")
+      .bind(itemId)
+      .first<{ image_url: string | null }>();
+    expect(item?.image_url).toBeNull();
+    expect(env.ITEM_IMAGES.objects.size).toBe(0);
+  });
+
+  it("hides galleries from other users", async () => {
+    const stranger = await registerUser(env);
+    const { status } = await request(env, "GET", galleryPath(), { token: stranger.token });
+    expect(status).toBe(404);
+  });
+});
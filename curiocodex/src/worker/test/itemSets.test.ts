@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem } from "./client";
+
+interface SetSlot {
+  id: string;
+  label: string;
+  item: { id: string; name: string; status: string } | null;
+  collected: boolean;
+}
+
+interface ItemSet {
+  id: string;
+  name: string;
+  total: number;
+  collected: number;
+  percent: number;
+  missing: string[];
+  slots?: SetSlot[];
+}
+
+describe("sets and completion", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv({
+      aiResponses: {
+        "List the members of this collectible set": "1. Bulbasaur\n2. Ivysaur\n3. Venusaur\n- Ivysaur\n",
+      },
+    });
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Trading cards", category: "Collectables" });
+  });
+
+  async function createSet(name: string, checklist: unknown) {
+    return request<{ set: ItemSet }>(env, "POST", `/api/hobbies/${hobbyId}/sets`, {
+      token,
+      body: { name, checklist },
+    });
+  }
+
+  async function fillSlot(setId: string, slotId: string, itemId: string | null) {
+    return request<{ set: ItemSet }>(env, "PUT", `/api/hobbies/${hobbyId}/sets/${setId}/slots/${slotId}`, {
+      token,
+      body: { itemId },
+    });
+  }
+
+  it("suggests a checklist with AI", async () => {
+    const { status, body } = await request<{ checklist: string[] }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/sets/suggest-checklist`,
+      { token, body: { name: "Base Set starters" } }
+    );
+
+    expect(status).toBe(200);
+    expect(body.checklist).toEqual(["Bulbasaur", "Ivysaur", "Venusaur"]);
+  });
+
+  it("reports completion and missing members as slots are filled", async () => {
+    const invalid = await createSet("Starters", "Bulbasaur");
+    expect(invalid.status).toBe(400);
+
+    const created = await createSet("Starters", ["Bulbasaur", "Charmander", " charmander ", "", "Squirtle"]);
+    expect(created.status).toBe(200);
+    const set = created.body.set;
+    expect(set).toMatchObject({ total: 3, collected: 0, percent: 0 });
+    expect(set.missing).toEqual(["Bulbasaur", "Charmander", "Squirtle"]);
+
+    const bulbasaur = await createItem(env, token, hobbyId, { name: "Bulbasaur #44" });
+    const wanted = await request<{ item: { id: string } }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Charmander #46", status: "wishlist" },
+    });
+
+    await fillSlot(set.id, set.slots![0].id, bulbasaur);
+    const filled = await fillSlot(set.id, set.slots![1].id, wanted.body.item.id);
+
+    // Wishlist items are linked but don't count as collected yet
+    expect(filled.body.set).toMatchObject({ total: 3, collected: 1, percent: 33 });
+    expect(filled.body.set.missing).toEqual(["Charmander", "Squirtle"]);
+    expect(filled.body.set.slots![1].item?.name).toBe("Charmander #46");
+
+    const duplicate = await fillSlot(set.id, set.slots![2].id, bulbasaur);
+    expect(duplicate.status).toBe(409);
+
+    const summary = await request<{ sets: ItemSet[] }>(env, "GET", "/api/sets", { token });
+    expect(summary.body.sets).toHaveLength(1);
+    expect(summary.body.sets[0]).toMatchObject({ name: "Starters", percent: 33 });
+    expect(summary.body.sets[0].slots).toBeUndefined();
+
+    // Renaming members keeps links for the ones that stay
+    const updated = await request<{ set: ItemSet }>(env, "PUT", `/api/hobbies/${hobbyId}/sets/${set.id}`, {
+      token,
+      body: { checklist: ["Bulbasaur", "Squirtle", "Pikachu"] },
+    });
+    expect(updated.body.set).toMatchObject({ total: 3, collected: 1 });
+    expect(updated.body.set.slots!.map((slot) => slot.item?.id ?? null)).toEqual([bulbasaur, null, null]);
+
+    // Deleting an item empties its slot
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${bulbasaur}`, { token });
+    const afterDelete = await request<{ set: ItemSet }>(env, "GET", `/api/hobbies/${hobbyId}/sets/${set.id}`, {
+      token,
+    });
+    expect(afterDelete.body.set.collected).toBe(0);
+  });
+
+  it("rejects names and descriptions that are not text", async () => {
+    expect((await createSet(5 as unknown as string, [])).status).toBe(400);
+
+    const { body } = await createSet("Starters", []);
+    const update = (changes: Record<string, unknown>) =>
+      request(env, "PUT", `/api/hobbies/${hobbyId}/sets/${body.set.id}`, { token, body: changes });
+    expect((await update({ name: 5 })).status).toBe(400);
+    expect((await update({ description: ["Gen 1"] })).status).toBe(400);
+    expect((await update({ name: "Kanto starters", description: null })).status).toBe(200);
+  });
+
+  it("only links items from the set's own hobby", async () => {
+    const otherHobby = await createHobby(env, token, { name: "Coins", category: "Collectables" });
+    const coin = await createItem(env, token, otherHobby, { name: "Silver dollar" });
+    const { body } = await createSet("Starters", ["Bulbasaur"]);
+
+    const wrongHobby = await fillSlot(body.set.id, body.set.slots![0].id, coin);
+    expect(wrongHobby.status).toBe(404);
+
+    const stranger = await registerUser(env);
+    const hidden = await request(env, "GET", `/api/hobbies/${hobbyId}/sets/${body.set.id}`, {
+      token: stranger.token,
+    });
+    expect(hidden.status).toBe(404);
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}`, { token });
+    await request(env, "DELETE", `/api/trash/hobbies/${hobbyId}`, { token });
+    const remaining = await env.DB.prepare("SELECT COUNT(*) as count FROM item_set_slots").first();
+    expect(remaining).toEqual({ count: 0 });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem } from "./client";
+
+interface StatusItem {
+  id: string;
+  name: string;
+  status: string;
+}
+
+describe("item ownership status", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Vinyl", category: "Music" });
+  });
+
+  async function listItems(query = "") {
+    return request<{ items: StatusItem[] }>(env, "GET", `/api/hobbies/${hobbyId}/items${query}`, { token });
+  }
+
+  it("defaults to owned and filters the item list by status", async () => {
+    await createItem(env, token, hobbyId, { name: "Abbey Road" });
+    const wanted = await request<{ item: StatusItem }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Kind of Blue", status: "wishlist" },
+    });
+    expect(wanted.body.item.status).toBe("wishlist");
+
+    const invalid = await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Blue Train", status: "borrowed" },
+    });
+    expect(invalid.status).toBe(400);
+
+    const all = await listItems();
+    expect(all.body.items.map((item) => [item.name, item.status]).sort()).toEqual([
+      ["Abbey Road", "owned"],
+      ["Kind of Blue", "wishlist"],
+    ]);
+
+    const wishlistOnly = await listItems("?status=wishlist");
+    expect(wishlistOnly.body.items.map((item) => item.name)).toEqual(["Kind of Blue"]);
+
+    const both = await listItems("?status=owned,wishlist");
+    expect(both.body.items).toHaveLength(2);
+
+    const unknown = await listItems("?status=misplaced");
+    expect(unknown.status).toBe(400);
+  });
+
+  it("records status transitions and lists the wishlist across hobbies", async () => {
+    const otherHobby = await createHobby(env, token, { name: "Comics", category: "Books" });
+    const wanted = await request<{ item: StatusItem }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Kind of Blue", status: "wishlist" },
+    });
+    const itemId = wanted.body.item.id;
+    await request(env, "POST", `/api/hobbies/${otherHobby}/items`, {
+      token,
+      body: { name: "Watchmen #1", status: "ordered" },
+    });
+    await createItem(env, token, otherHobby, { name: "Sandman #8" });
+
+    const wishlist = await request<{ items: (StatusItem & { hobby_name: string })[] }>(
+      env,
+      "GET",
+      "/api/wishlist",
+      { token }
+    );
+    expect(wishlist.body.items.map((item) => [item.name, item.hobby_name]).sort()).toEqual([
+      ["Kind of Blue", "Vinyl"],
+      ["Watchmen #1", "Comics"],
+    ]);
+
+    const ordered = await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}/status`, {
+      token,
+      body: { status: "ordered" },
+    });
+    expect(ordered.status).toBe(200);
+
+    // A full item update can change the status too
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}`, {
+      token,
+      body: { name: "Kind of Blue", category: "Jazz", status: "owned" },
+    });
+
+    const { body } = await request<{ history: { from_status: string | null; to_status: string }[] }>(
+      env,
+      "GET",
+      `/api/hobbies/${hobbyId}/items/${itemId}/status-history`,
+      { token }
+    );
+    expect(body.history.map((entry) => [entry.from_status, entry.to_status])).toEqual([
+      [null, "wishlist"],
+      ["wishlist", "ordered"],
+      ["ordered", "owned"],
+    ]);
+
+    const badStatus = await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}/status`, {
+      token,
+      body: { status: "gifted" },
+    });
+    expect(badStatus.status).toBe(400);
+
+    const stranger = await registerUser(env);
+    const hidden = await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}/status`, {
+      token: stranger.token,
+      body: { status: "lost" },
+    });
+    expect(hidden.status).toBe(404);
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${itemId}`, { token });
+    await request(env, "DELETE", `/api/trash/items/${itemId}`, { token });
+    const remaining = await env.DB.prepare(
+      "SELECT COUNT(*) as count FROM item_status_history WHERE item_id = ?"
+    )
+      .bind(itemId)
+      .first();
+    expect(remaining).toEqual({ count: 0 });
+  });
+
+  it("leaves wishlist and sold items out of the valuation report", async () => {
+    await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Abbey Road", estimatedValue: 40 },
+    });
+    await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Kind of Blue", estimatedValue: 60, status: "wishlist" },
+    });
+    const sold = await request<{ item: StatusItem }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Blue Train", estimatedValue: 25 },
+    });
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${sold.body.item.id}/status`, {
+      token,
+      body: { status: "sold" },
+    });
+
+    const { body } = await request<{ totals: { currency: string; value: number; items: number }[] }>(
+      env,
+      "GET",
+      "/api/reports/valuation",
+      { token }
+    );
+    expect(body.totals).toEqual([{ currency: "USD", value: 40, purchase_cost: 0, items: 1 }]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem, imageFile } from "./client";
+
+interface Loan {
+  id: string;
+  borrower_name: string;
+  lent_date: string;
+  due_date: string | null;
+  returned_date: string | null;
+  overdue: boolean;
+}
+
+describe("item loans", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Board games", category: "Games" });
+  });
+
+  async function lend(itemId: string, body: Record<string, unknown>) {
+    return request<{ loan: Loan }>(env, "POST", `/api/hobbies/${hobbyId}/items/${itemId}/loans`, { token, body });
+  }
+
+  it("lends an item, flags it overdue and closes the loan", async () => {
+    const itemId = await createItem(env, token, hobbyId, { name: "Catan" });
+
+    const missingBorrower = await lend(itemId, { dueDate: "2020-01-10" });
+    expect(missingBorrower.status).toBe(400);
+    const backwards = await lend(itemId, { borrowerName: "Sam", lentDate: "2020-01-10", dueDate: "2020-01-01" });
+    expect(backwards.status).toBe(400);
+
+    const created = await lend(itemId, { borrowerName: "Sam", lentDate: "2020-01-01", dueDate: "2020-01-10" });
+    expect(created.status).toBe(200);
+    expect(created.body.loan).toMatchObject({ borrower_name: "Sam", overdue: true, returned_date: null });
+
+    const again = await lend(itemId, { borrowerName: "Alex" });
+    expect(again.status).toBe(409);
+
+    const list = await request<{ items: { id: string; loan: Loan | null }[] }>(
+      env,
+      "GET",
+      `/api/hobbies/${hobbyId}/items`,
+      { token }
+    );
+    expect(list.body.items[0].loan).toMatchObject({ borrower_name: "Sam", overdue: true });
+
+    const overdue = await request<{ loans: (Loan & { item: { name: string } })[] }>(
+      env,
+      "GET",
+      "/api/loans?overdue=true",
+      { token }
+    );
+    expect(overdue.body.loans.map((loan) => loan.item.name)).toEqual(["Catan"]);
+
+    const returned = await request<{ loan: Loan }>(
+      env,
+      "PUT",
+      `/api/hobbies/${hobbyId}/items/${itemId}/loans/${created.body.loan.id}/return`,
+      { token, body: { returnedDate: "2020-01-15" } }
+    );
+    expect(returned.body.loan).toMatchObject({ returned_date: "2020-01-15", overdue: false });
+
+    const open = await request<{ loans: Loan[] }>(env, "GET", "/api/loans", { token });
+    expect(open.body.loans).toHaveLength(0);
+
+    // Once returned, the item can be lent again
+    const relent = await lend(itemId, { borrowerName: "Alex" });
+    expect(relent.status).toBe(200);
+    expect(relent.body.loan.overdue).toBe(false);
+
+    const history = await request<{ loans: Loan[] }>(env, "GET", `/api/hobbies/${hobbyId}/items/${itemId}/loans`, {
+      token,
+    });
+    expect(history.body.loans.map((loan) => loan.borrower_name)).toEqual(["Alex", "Sam"]);
+  });
+
+  it("lists loaned items with signed image URLs", async () => {
+    const form = new FormData();
+    form.append("name", "Catan");
+    form.append("image", imageFile("catan.png", 1, 2, 3));
+    const created = await request<{ item: { id: string } }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: form,
+    });
+    await lend(created.body.item.id, { borrowerName: "Sam" });
+
+    const { body } = await request<{ loans: { item: { image_url: string } }[] }>(env, "GET", "/api/loans", {
+      token,
+    });
+    expect(body.loans[0].item.image_url).toMatch(/^\/api\/images\/items\/.+\.png\?expires=\d+&sig=/);
+    expect((await request(env, "GET", body.loans[0].item.image_url)).status).toBe(200);
+  });
+
+  it("reports loans in the activity feed", async () => {
+    const itemId = await createItem(env, token, hobbyId, { name: "Carcassonne" });
+    const { body } = await lend(itemId, { borrowerName: "Sam" });
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}/loans/${body.loan.id}/return`, { token });
+
+    const activity = await request<{ events: { type: string; loan?: Loan }[] }>(
+      env,
+      "GET",
+      "/api/activity/recent",
+      { token }
+    );
+    const loanEvents = activity.body.events.filter((event) => event.loan);
+    expect(loanEvents.map((event) => event.type).sort()).toEqual(["item_lent", "item_returned"]);
+    expect(loanEvents[0].loan?.borrower_name).toBe("Sam");
+  });
+
+  it("only lends owned items belonging to the user", async () => {
+    const wanted = await request<{ item: { id: string } }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Gloomhaven", status: "wishlist" },
+    });
+    const notOwned = await lend(wanted.body.item.id, { borrowerName: "Sam" });
+    expect(notOwned.status).toBe(400);
+
+    const itemId = await createItem(env, token, hobbyId, { name: "Catan" });
+    const stranger = await registerUser(env);
+    const hidden = await request(env, "POST", `/api/hobbies/${hobbyId}/items/${itemId}/loans`, {
+      token: stranger.token,
+      body: { borrowerName: "Mallory" },
+    });
+    expect(hidden.status).toBe(404);
+
+    await lend(itemId, { borrowerName: "Sam" });
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${itemId}`, { token });
+    await request(env, "DELETE", `/api/trash/items/${itemId}`, { token });
+    const remaining = await env.DB.prepare("SELECT COUNT(*) as count FROM item_loans").first();
+    expect(remaining).toEqual({ count: 0 });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem } from "./client";
+
+interface StorageLocation {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  kind: string;
+  path: string;
+  item_count: number;
+}
+
+interface LocatedItem {
+  id: string;
+  name: string;
+  location: { id: string; path: string } | null;
+}
+
+describe("storage locations", () => {
+  let env: TestEnv;
+  let token: string;
+  let userId: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token, userId } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Vinyl", category: "Music" });
+  });
+
+  async function createLocation(name: string, kind: string, parentId: string | null = null) {
+    return request<{ location: StorageLocation }>(env, "POST", "/api/locations", {
+      token,
+      body: { name, kind, parentId },
+    });
+  }
+
+  it("nests locations and reports where items are kept", async () => {
+    const study = (await createLocation("Study", "room")).body.location;
+    const bookcase = (await createLocation("Bookcase", "shelf", study.id)).body.location;
+    const box = await createLocation("Box 3", "box", bookcase.id);
+    expect(box.status).toBe(200);
+    expect(box.body.location.path).toBe("Study › Bookcase › Box 3");
+
+    const invalidKind = await createLocation("Attic", "cupboard");
+    expect(invalidKind.status).toBe(400);
+
+    const created = await request<{ item: LocatedItem }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Abbey Road", locationId: box.body.location.id },
+    });
+    expect(created.body.item.location?.path).toBe("Study › Bookcase › Box 3");
+    const looseItem = await createItem(env, token, hobbyId, { name: "Kind of Blue" });
+
+    const moved = await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${looseItem}/location`, {
+      token,
+      body: { locationId: bookcase.id },
+    });
+    expect(moved.status).toBe(200);
+
+    const whereIs = await request<{ items: LocatedItem[] }>(env, "GET", "/api/locations/where-is?q=abbey", {
+      token,
+    });
+    expect(whereIs.body.items.map((item) => [item.name, item.location?.path])).toEqual([
+      ["Abbey Road", "Study › Bookcase › Box 3"],
+    ]);
+
+    const direct = await request<{ items: LocatedItem[]; children: StorageLocation[] }>(
+      env,
+      "GET",
+      `/api/locations/${bookcase.id}`,
+      { token }
+    );
+    expect(direct.body.items.map((item) => item.name)).toEqual(["Kind of Blue"]);
+    expect(direct.body.children.map((child) => child.name)).toEqual(["Box 3"]);
+
+    const nested = await request<{ items: LocatedItem[] }>(
+      env,
+      "GET",
+      `/api/locations/${study.id}?recursive=true`,
+      { token }
+    );
+    expect(nested.body.items.map((item) => item.name)).toEqual(["Abbey Road", "Kind of Blue"]);
+
+    const list = await request<{ items: LocatedItem[] }>(env, "GET", `/api/hobbies/${hobbyId}/items`, { token });
+    expect(list.body.items.find((item) => item.id === looseItem)?.location?.path).toBe("Study › Bookcase");
+  });
+
+  it("lists items across more nested containers than D1 binds parameters", async () => {
+    const shelf = (await createLocation("Shelf", "shelf")).body.location;
+    await env.DB.batch(
+      Array.from({ length: 150 }, (_, index) =>
+        env.DB.prepare(
+          "INSERT INTO storage_locations (id, user_id, parent_id, name, kind) VALUES (?, ?, ?, ?, 'box')"
+        ).bind(`box-${index}`, userId, shelf.id, `Box ${index}`)
+      )
+    );
+    await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Abbey Road", locationId: "box-149" },
+    });
+
+    const nested = await request<{ items: LocatedItem[] }>(
+      env,
+      "GET",
+      `/api/locations/${shelf.id}?recursive=true`,
+      { token }
+    );
+    expect(nested.status).toBe(200);
+    expect(nested.body.items.map((item) => item.name)).toEqual(["Abbey Road"]);
+  });
+
+  it("rejects cycles and moves contents up when a location is deleted", async () => {
+    const study = (await createLocation("Study", "room")).body.location;
+    const bookcase = (await createLocation("Bookcase", "shelf", study.id)).body.location;
+    const box = (await createLocation("Box 3", "box", bookcase.id)).body.location;
+    const itemId = await createItem(env, token, hobbyId, { name: "Abbey Road" });
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}/location`, {
+      token,
+      body: { locationId: bookcase.id },
+    });
+
+    const cycle = await request(env, "PUT", `/api/locations/${study.id}`, {
+      token,
+      body: { parentId: box.id },
+    });
+    expect(cycle.status).toBe(400);
+
+    const renamed = await request<{ location: StorageLocation }>(env, "PUT", `/api/locations/${bookcase.id}`, {
+      token,
+      body: { name: "Tall bookcase" },
+    });
+    expect(renamed.body.location).toMatchObject({ path: "Study › Tall bookcase", kind: "shelf", item_count: 1 });
+
+    await request(env, "DELETE", `/api/locations/${bookcase.id}`, { token });
+
+    const { body } = await request<{ locations: StorageLocation[] }>(env, "GET", "/api/locations", { token });
+    expect(body.locations.map((location) => [location.path, location.item_count])).toEqual([
+      ["Study › Box 3", 0],
+      ["Study", 1],
+    ]);
+  });
+
+  it("keeps locations private to their owner", async () => {
+    const study = (await createLocation("Study", "room")).body.location;
+    const stranger = await registerUser(env);
+    const strangerHobby = await createHobby(env, stranger.token, { name: "Coins", category: "Collectables" });
+
+    const hidden = await request(env, "GET", `/api/locations/${study.id}`, { token: stranger.token });
+    expect(hidden.status).toBe(404);
+
+    const borrowed = await request(env, "POST", `/api/hobbies/${strangerHobby}/items`, {
+      token: stranger.token,
+      body: { name: "Silver dollar", locationId: study.id },
+    });
+    expect(borrowed.status).toBe(400);
+  });
+});
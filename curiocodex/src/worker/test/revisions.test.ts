@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem } from "./client";
+
+interface Revision {
+  id: string;
+  snapshot: Record<string, unknown>;
+  changes: { field: string; from: unknown; to: unknown }[];
+}
+
+describe("revisions", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Cameras", category: "Photography" });
+  });
+
+  async function updateItem(itemId: string, body: Record<string, unknown>) {
+    return request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}`, { token, body });
+  }
+
+  async function itemRevisions(itemId: string) {
+    return request<{ revisions: Revision[] }>(env, "GET", `/api/hobbies/${hobbyId}/items/${itemId}/revisions`, {
+      token,
+    });
+  }
+
+  it("keeps each replaced version of an item with field diffs", async () => {
+    const itemId = await createItem(env, token, hobbyId, {
+      name: "Leica M3",
+      description: "Double stroke",
+      category: "Rangefinder",
+    });
+    await updateItem(itemId, { name: "Leica M3", description: "Single stroke", category: "Rangefinder" });
+    await updateItem(itemId, {
+      name: "Leica M3 (1958)",
+      description: "Single stroke",
+      category: "Rangefinder",
+      estimatedValue: 1200,
+    });
+
+    const { body } = await itemRevisions(itemId);
+    expect(body.revisions).toHaveLength(2);
+
+    const [latest, first] = body.revisions;
+    expect(first.snapshot).toMatchObject({ name: "Leica M3", description: "Double stroke" });
+    expect(first.changes).toEqual([{ field: "description", from: "Double stroke", to: "Single stroke" }]);
+    expect(latest.changes.map((change) => change.field)).toEqual(["name", "currency", "estimated_value"]);
+    expect(latest.changes[0]).toEqual({ field: "name", from: "Leica M3", to: "Leica M3 (1958)" });
+  });
+
+  it("reverts an item to an earlier version and re-embeds it", async () => {
+    const itemId = await createItem(env, token, hobbyId, {
+      name: "Hasselblad 500C",
+      description: "Medium format",
+      category: "SLR",
+    });
+    const originalVector = env.HOBBY_ITEMS_INDEX.vectors.get(itemId)?.values;
+
+    await updateItem(itemId, {
+      name: "Hasselblad 500C/M",
+      description: "Chrome body with waist level finder",
+      category: "SLR",
+    });
+    const { body: before } = await itemRevisions(itemId);
+
+    const reverted = await request<{ item: { name: string; description: string } }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/items/${itemId}/revisions/${before.revisions[0].id}/revert`,
+      { token }
+    );
+    expect(reverted.status).toBe(200);
+    expect(reverted.body.item).toMatchObject({ name: "Hasselblad 500C", description: "Medium format" });
+
+    const stored = await env.DB.prepare("SELECT name, description FROM items WHERE id = ?").bind(itemId).first();
+    expect(stored).toEqual({ name: "Hasselblad 500C", description: "Medium format" });
+    expect(env.HOBBY_ITEMS_INDEX.vectors.get(itemId)?.values).toEqual(originalVector);
+
+    // The version that was replaced by the revert can itself be restored
+    const { body: after } = await itemRevisions(itemId);
+    expect(after.revisions).toHaveLength(2);
+    expect(after.revisions[0].snapshot).toMatchObject({ name: "Hasselblad 500C/M" });
+
+    const missing = await request(env, "POST", `/api/hobbies/${hobbyId}/items/${itemId}/revisions/999/revert`, {
+      token,
+    });
+    expect(missing.status).toBe(404);
+
+    const stranger = await registerUser(env);
+    const hidden = await request(env, "GET", `/api/hobbies/${hobbyId}/items/${itemId}/revisions`, {
+      token: stranger.token,
+    });
+    expect(hidden.status).toBe(404);
+  });
+
+  it("keeps and restores hobby versions", async () => {
+    await request(env, "PUT", `/api/hobbies/${hobbyId}`, {
+      token,
+      body: { name: "Film cameras", description: "Analog only", category: "Photography", itemCategories: ["SLR"] },
+    });
+
+    const { body } = await request<{ revisions: Revision[] }>(env, "GET", `/api/hobbies/${hobbyId}/revisions`, {
+      token,
+    });
+    expect(body.revisions).toHaveLength(1);
+    expect(body.revisions[0].snapshot).toMatchObject({ name: "Cameras", item_categories: [] });
+    expect(body.revisions[0].changes.map((change) => change.field)).toEqual(
+      expect.arrayContaining(["name", "description", "item_categories"])
+    );
+
+    const reverted = await request<{ hobby: { name: string; item_categories: string[] } }>(
+      env,
+      "POST",
+      `/api/hobbies/${hobbyId}/revisions/${body.revisions[0].id}/revert`,
+      { token }
+    );
+    expect(reverted.body.hobby).toMatchObject({ name: "Cameras", item_categories: [] });
+    expect(env.HOBBY_ITEMS_INDEX.vectors.get(hobbyId)?.metadata).toMatchObject({ name: "Cameras" });
+
+    const categories = await env.DB.prepare("SELECT COUNT(*) as count FROM hobby_item_categories").first();
+    expect(categories).toEqual({ count: 0 });
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}`, { token });
+    await request(env, "DELETE", `/api/trash/hobbies/${hobbyId}`, { token });
+    const remaining = await env.DB.prepare("SELECT COUNT(*) as count FROM hobby_revisions").first();
+    expect(remaining).toEqual({ count: 0 });
+  });
+});
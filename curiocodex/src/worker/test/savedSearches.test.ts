@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import worker from "../index";
+import { SAVED_SEARCH_ALERT_BATCH, refreshSavedSearchAlerts } from "../savedSearches";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem } from "./client";
+
+interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  mode: string;
+  filters: Record<string, unknown>;
+  sort: string;
+  notify: boolean;
+  new_count: number;
+  checked_at: number | null;
+}
+
+interface SavedSearchResults {
+  saved_search: SavedSearch;
+  items: { id: string; name: string; is_new: boolean }[];
+  searchMethod: string;
+  nextCursor: string | null;
+}
+
+describe("saved searches", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Vinyl", category: "Music" });
+    await createItem(env, token, hobbyId, { name: "Blue Train", description: "Jazz record", category: "Jazz" });
+    await createItem(env, token, hobbyId, { name: "Abbey Road", description: "Rock record", category: "Rock" });
+  });
+
+  async function save(body: Record<string, unknown>) {
+    return request<{ saved_search: SavedSearch; error?: string; queryErrors?: unknown[] }>(
+      env,
+      "POST",
+      "/api/saved-searches",
+      { token, body: { name: "Jazz records", query: "record category:jazz", mode: "text", ...body } }
+    );
+  }
+
+  async function runScheduled() {
+    const pending: Promise<unknown>[] = [];
+    await worker.scheduled({} as ScheduledController, env, {
+      waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+      passThroughOnException: () => {},
+    } as unknown as ExecutionContext);
+    await Promise.all(pending);
+  }
+
+  it("saves, lists, updates and deletes a search that re-runs live", async () => {
+    const created = await save({ filters: { hobbyId }, sort: "name" });
+    expect(created.status).toBe(200);
+    expect(created.body.saved_search).toMatchObject({
+      name: "Jazz records",
+      query: "record category:jazz",
+      mode: "text",
+      filters: { hobbyId },
+      sort: "name",
+      notify: false,
+      new_count: 0,
+    });
+    const id = created.body.saved_search.id;
+
+    const first = await request<SavedSearchResults>(env, "GET", `/api/saved-searches/${id}/results`, { token });
+    expect(first.body.items.map((item) => item.name)).toEqual(["Blue Train"]);
+
+    // New items show up without saving the search again
+    await createItem(env, token, hobbyId, { name: "Kind of Blue", description: "Jazz record", category: "Jazz" });
+    const again = await request<SavedSearchResults>(env, "GET", `/api/saved-searches/${id}/results`, { token });
+    expect(again.body.items.map((item) => item.name)).toEqual(["Blue Train", "Kind of Blue"]);
+
+    const renamed = await request<{ saved_search: SavedSearch }>(env, "PUT", `/api/saved-searches/${id}`, {
+      token,
+      body: { name: "Rock", query: "record category:rock" },
+    });
+    expect(renamed.body.saved_search).toMatchObject({ name: "Rock", mode: "text", sort: "name" });
+
+    const { body: list } = await request<{ saved_searches: SavedSearch[] }>(env, "GET", "/api/saved-searches", {
+      token,
+    });
+    expect(list.saved_searches.map((search) => search.name)).toEqual(["Rock"]);
+
+    const stranger = await registerUser(env);
+    const hidden = await request(env, "GET", `/api/saved-searches/${id}/results`, { token: stranger.token });
+    expect(hidden.status).toBe(404);
+
+    const deleted = await request(env, "DELETE", `/api/saved-searches/${id}`, { token });
+    expect(deleted.status).toBe(200);
+    const gone = await request(env, "GET", `/api/saved-searches/${id}/results`, { token });
+    expect(gone.status).toBe(404);
+  });
+
+  it("rejects invalid searches", async () => {
+    expect((await save({ name: " " })).status).toBe(400);
+    expect((await save({ mode: "fuzzy" })).status).toBe(400);
+    expect((await save({ filters: { createdFrom: "soon" } })).status).toBe(400);
+
+    const badQuery = await save({ query: "record status:blue" });
+    expect(badQuery.status).toBe(400);
+    expect(badQuery.body.queryErrors).toEqual([expect.objectContaining({ start: 7, end: 18 })]);
+
+    expect((await save({ query: "Star Wars: A New Hope" })).status).toBe(200);
+  });
+
+  it("flags matches found by the scheduled re-run until they are seen", async () => {
+    const { body } = await save({ notify: true });
+    const id = body.saved_search.id;
+    const quiet = await save({ name: "Quiet", notify: false });
+
+    // Matches that existed when the search was saved are not new
+    await runScheduled();
+    let list = await request<{ saved_searches: SavedSearch[] }>(env, "GET", "/api/saved-searches", { token });
+    expect(list.body.saved_searches.find((search) => search.id === id)).toMatchObject({ new_count: 0 });
+
+    const newItem = await createItem(env, token, hobbyId, {
+      name: "Kind of Blue",
+      description: "Jazz record",
+      category: "Jazz",
+    });
+    await createItem(env, token, hobbyId, { name: "Let It Be", description: "Rock record", category: "Rock" });
+    await runScheduled();
+
+    list = await request<{ saved_searches: SavedSearch[] }>(env, "GET", "/api/saved-searches", { token });
+    const watched = list.body.saved_searches.find((search) => search.id === id);
+    expect(watched).toMatchObject({ new_count: 1, notify: true });
+    expect(watched?.checked_at).not.toBeNull();
+    expect(list.body.saved_searches.find((search) => search.id === quiet.body.saved_search.id)).toMatchObject({
+      new_count: 0,
+      checked_at: null,
+    });
+
+    const results = await request<SavedSearchResults>(env, "GET", `/api/saved-searches/${id}/results`, { token });
+    expect(results.body.saved_search.new_count).toBe(1);
+    expect(results.body.items.filter((item) => item.is_new).map((item) => item.id)).toEqual([newItem]);
+
+    await request(env, "POST", `/api/saved-searches/${id}/seen`, { token });
+    const seen = await request<SavedSearchResults>(env, "GET", `/api/saved-searches/${id}/results`, { token });
+    expect(seen.body.saved_search.new_count).toBe(0);
+    expect(seen.body.items.some((item) => item.is_new)).toBe(false);
+
+    // Running again finds nothing new
+    await runScheduled();
+    list = await request<{ saved_searches: SavedSearch[] }>(env, "GET", "/api/saved-searches", { token });
+    expect(list.body.saved_searches.find((search) => search.id === id)).toMatchObject({ new_count: 0 });
+  });
+
+  it("flags new matches however many older items rank above them", async () => {
+    const lastYear = Math.floor(Date.now() / 1000) - 365 * 24 * 60 * 60;
+    await env.DB.batch(
+      Array.from({ length: 60 }, (_, index) =>
+        env.DB.prepare(
+          "INSERT INTO items (id, hobby_id, name, description, category, created_at) VALUES (?, ?, ?, ?, 'Jazz', ?)"
+        ).bind(`old-${index}`, hobbyId, `Jazz record ${index}`, "Jazz record, jazz record", lastYear)
+      )
+    );
+    const { body } = await save({ notify: true });
+
+    const newItem = await createItem(env, token, hobbyId, { name: "Bootleg", description: "record", category: "Jazz" });
+    await runScheduled();
+
+    const id = body.saved_search.id;
+    const results = await request<SavedSearchResults>(env, "GET", `/api/saved-searches/${id}/results`, { token });
+    expect(results.body.saved_search.new_count).toBe(1);
+    const hits = await env.DB.prepare("SELECT item_id FROM saved_search_hits WHERE is_new = 1").all<{
+      item_id: string;
+    }>();
+    expect(hits.results.map((hit) => hit.item_id)).toEqual([newItem]);
+  });
+
+  it("only flags semantic matches that are close to the query", async () => {
+    const { body } = await save({ query: "jazz record", mode: "semantic", notify: true });
+
+    await createItem(env, token, hobbyId, { name: "Garden Gnome", description: "ceramic lawn ornament" });
+    const close = await createItem(env, token, hobbyId, { name: "Jazz record", description: "jazz record" });
+    await runScheduled();
+
+    const hits = await env.DB.prepare("SELECT item_id FROM saved_search_hits WHERE saved_search_id = ? AND is_new = 1")
+      .bind(body.saved_search.id)
+      .all<{ item_id: string }>();
+    expect(hits.results.map((hit) => hit.item_id)).toEqual([close]);
+  });
+
+  it("re-runs a bounded batch of searches, least recently checked first", async () => {
+    const ids: string[] = [];
+    for (let index = 0; index <= SAVED_SEARCH_ALERT_BATCH; index++) {
+      ids.push((await save({ name: `Jazz ${index}`, notify: true })).body.saved_search.id);
+    }
+    const oldest = ids[ids.length - 1];
+    await env.DB.prepare("UPDATE saved_searches SET checked_at = checked_at - 3600").run();
+    await env.DB.prepare("UPDATE saved_searches SET checked_at = checked_at - 3600 WHERE id = ?").bind(oldest).run();
+
+    const run: string[] = [];
+    const runSearch = async (search: { id: string }) => {
+      run.push(search.id);
+      return [];
+    };
+    await refreshSavedSearchAlerts(env.DB, runSearch);
+    expect(run).toHaveLength(SAVED_SEARCH_ALERT_BATCH);
+    expect(run[0]).toBe(oldest);
+    const leftOut = ids.filter((id) => !run.includes(id));
+    expect(leftOut).toHaveLength(1);
+
+    // The one left out goes first next time
+    run.length = 0;
+    await refreshSavedSearchAlerts(env.DB, runSearch);
+    expect(run[0]).toBe(leftOut[0]);
+  });
+
+  it("drops matches when their item is purged", async () => {
+    const { body } = await save({ notify: true });
+    const itemId = await createItem(env, token, hobbyId, {
+      name: "Kind of Blue",
+      description: "Jazz record",
+      category: "Jazz",
+    });
+    await runScheduled();
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${itemId}`, { token });
+    const list = await request<{ saved_searches: SavedSearch[] }>(env, "GET", "/api/saved-searches", { token });
+    expect(list.body.saved_searches[0].new_count).toBe(0);
+
+    const purged = await request(env, "DELETE", `/api/trash/items/${itemId}`, { token });
+    expect(purged.status).toBe(200);
+    const hits = await env.DB.prepare("SELECT item_id FROM saved_search_hits WHERE saved_search_id = ?")
+      .bind(body.saved_search.id)
+      .all<{ item_id: string }>();
+    expect(hits.results.map((hit) => hit.item_id)).not.toContain(itemId);
+  });
+});
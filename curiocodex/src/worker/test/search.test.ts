@@ -0,0 +1,582 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestEnv, fakeEmbedding, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem, imageFile } from "./client";
+import { RRF_K, VECTORIZE_MAX_TOP_K, fuseRankings } from "../search";
+
+interface SearchResponse {
+  hobbies: { id: string; name: string; matched_by?: string[] }[];
+  items: {
+    id: string;
+    name: string;
+    similarity?: number;
+    score?: number;
+    name_highlight?: string;
+    snippet?: string;
+    fusion_score?: number;
+    matched_by?: string[];
+  }[];
+  searchMethod: "semantic" | "text" | "hybrid";
+  facets: {
+    categories: { value: string; count: number }[];
+    hobbies: { id: string; name: string; count: number }[];
+    tags: { value: string; count: number }[];
+  };
+  nextCursor: string | null;
+}
+
+describe("collection search", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Records", category: "Music" });
+    await createItem(env, token, hobbyId, { name: "Blue Train", description: "Jazz vinyl record" });
+    await createItem(env, token, hobbyId, { name: "Abbey Road", description: "Rock album" });
+  });
+
+  it("ranks semantic matches from Vectorize", async () => {
+    const { status, body } = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "jazz vinyl", mode: "semantic" },
+    });
+
+    expect(status).toBe(200);
+    expect(body.searchMethod).toBe("semantic");
+    expect(body.items[0].name).toBe("Blue Train");
+    expect(body.items[0].similarity).toBeGreaterThan(0);
+  });
+
+  it("runs plain text search when requested", async () => {
+    const { body } = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "Abbey", mode: "text" },
+    });
+
+    expect(body.searchMethod).toBe("text");
+    expect(body.items.map((i) => i.name)).toEqual(["Abbey Road"]);
+  });
+
+  it("matches tags, categories, notes and word prefixes in text mode", async () => {
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/item-fields`, {
+      token,
+      body: { fields: [{ label: "Notes", type: "text" }] },
+    });
+    const pressing = await createItem(env, token, hobbyId, {
+      name: "Pet Sounds",
+      category: "Pop",
+      customFields: { notes: "Original mono pressing" },
+    });
+    await env.DB.prepare("UPDATE items SET tags = ? WHERE id = ?")
+      .bind(JSON.stringify(["beach", "harmonies"]), pressing)
+      .run();
+
+    const search = async (query: string) => {
+      const { body } = await request<SearchResponse>(env, "POST", "/api/search", {
+        token,
+        body: { query, mode: "text" },
+      });
+      return body;
+    };
+
+    expect((await search("harmonies")).items.map((i) => i.name)).toEqual(["Pet Sounds"]);
+    expect((await search("pop")).items.map((i) => i.name)).toEqual(["Pet Sounds"]);
+    expect((await search("mono")).items.map((i) => i.name)).toEqual(["Pet Sounds"]);
+    expect((await search("Abb")).items.map((i) => i.name)).toEqual(["Abbey Road"]);
+    expect((await search("reco")).hobbies.map((h) => h.name)).toEqual(["Records"]);
+
+    // Every word has to match, and operators typed by the user are ignored
+    expect((await search("jazz rock")).items).toEqual([]);
+    expect((await search('"jazz" OR')).items).toEqual([]);
+    expect((await search("?!")).items).toEqual([]);
+  });
+
+  it("ranks name matches first and highlights the matched words", async () => {
+    await createItem(env, token, hobbyId, { name: "Train of Thought", description: "Soul record" });
+
+    const { body } = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "train", mode: "text" },
+    });
+
+    expect(body.items.map((i) => i.name)).toEqual(["Blue Train", "Train of Thought"]);
+    expect(body.items[0].score).toBeGreaterThan(0);
+    expect(body.items[0].name_highlight).toBe("Blue <mark>Train</mark>");
+
+    const described = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "vinyl", mode: "text" },
+    });
+    expect(described.body.items[0].snippet).toBe("Jazz <mark>vinyl</mark> record");
+  });
+
+  it("keeps renamed and trashed items in sync with the text index", async () => {
+    const { body: before } = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "Abbey", mode: "text" },
+    });
+    const abbeyId = before.items[0].id;
+
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${abbeyId}`, {
+      token,
+      body: { name: "Let It Be", description: "Rock album" },
+    });
+    const renamed = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "Abbey", mode: "text" },
+    });
+    expect(renamed.body.items).toEqual([]);
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${abbeyId}`, { token });
+    const trashed = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "Let", mode: "text" },
+    });
+    expect(trashed.body.items).toEqual([]);
+  });
+
+  it("finds the right rows after rowids are renumbered", async () => {
+    // VACUUM may renumber the rowids of tables with TEXT primary keys
+    await env.DB.batch([
+      env.DB.prepare("UPDATE items SET rowid = rowid + 1000"),
+      env.DB.prepare("UPDATE hobbies SET rowid = rowid + 1000"),
+    ]);
+    await createItem(env, token, hobbyId, { name: "Kind of Blue", description: "Jazz vinyl record" });
+
+    const { body } = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "Abbey", mode: "text" },
+    });
+    expect(body.items.map((item) => item.name)).toEqual(["Abbey Road"]);
+    expect(body.hobbies).toEqual([]);
+
+    const hobbies = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "Records -blue", mode: "text" },
+    });
+    expect(hobbies.body.hobbies.map((hobby) => hobby.name)).toEqual(["Records"]);
+  });
+
+  it("updates and removes index rows through their stable keys", async () => {
+    const itemId = await createItem(env, token, hobbyId, { name: "Kind of Blue", description: "Jazz vinyl record" });
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}`, {
+      token,
+      body: { name: "Giant Steps", description: "Jazz vinyl record" },
+    });
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${itemId}`, { token });
+    await request(env, "DELETE", `/api/trash/items/${itemId}`, { token });
+
+    const counts = await env.DB.prepare(
+      `SELECT
+         (SELECT COUNT(*) FROM items) as items,
+         (SELECT COUNT(*) FROM items_fts) as indexed,
+         (SELECT COUNT(*) FROM items_fts_keys) as keys,
+         (SELECT COUNT(*) FROM items_fts_keys WHERE item_id = ?) as purged`
+    )
+      .bind(itemId)
+      .first();
+    expect(counts).toEqual({ items: 2, indexed: 2, keys: 2, purged: 0 });
+
+    const plan = await env.DB.prepare(
+      "EXPLAIN QUERY PLAN DELETE FROM items_fts WHERE rowid = (SELECT fts_rowid FROM items_fts_keys WHERE item_id = ?)"
+    )
+      .bind(itemId)
+      .all<{ detail: string }>();
+    expect(plan.results.map((row) => row.detail)).toContain("SCAN items_fts VIRTUAL TABLE INDEX 0:=");
+  });
+
+  it("falls back to text search when only other users have vectors", async () => {
+    env.HOBBY_ITEMS_INDEX.vectors.clear();
+    const other = await registerUser(env);
+    await createHobby(env, other.token, { name: "Someone else's hobby", category: "Other" });
+
+    const { body } = await request<SearchResponse>(env, "POST", "/api/discover/search", {
+      token,
+      body: { query: "Blue" },
+    });
+
+    expect(body.searchMethod).toBe("text");
+    expect(body.items.map((i) => i.name)).toEqual(["Blue Train"]);
+  });
+
+  it("fuses semantic and keyword rankings in hybrid mode", async () => {
+    const { status, body } = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "jazz", mode: "hybrid" },
+    });
+
+    expect(status).toBe(200);
+    expect(body.searchMethod).toBe("hybrid");
+    expect(body.items.map((i) => [i.name, i.matched_by])).toEqual([
+      ["Blue Train", ["semantic", "text"]],
+      ["Abbey Road", ["semantic"]],
+    ]);
+    expect(body.items[0].similarity).toBeGreaterThan(0);
+    expect(body.items[0].snippet).toBe("<mark>Jazz</mark> vinyl record");
+    expect(body.items[0].fusion_score).toBeCloseTo(2 / (RRF_K + 1));
+    expect(body.items[1].score).toBeUndefined();
+  });
+
+  it("keeps keyword matches in hybrid mode when semantic search finds nothing", async () => {
+    env.HOBBY_ITEMS_INDEX.vectors.clear();
+
+    const { body } = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "Blue", mode: "hybrid" },
+    });
+
+    expect(body.searchMethod).toBe("hybrid");
+    expect(body.items.map((i) => [i.name, i.matched_by])).toEqual([["Blue Train", ["text"]]]);
+  });
+
+  it("never returns another user's hobbies or items", async () => {
+    const other = await registerUser(env);
+    const otherHobby = await createHobby(env, other.token, { name: "Jazz Records", category: "Music" });
+    await createItem(env, other.token, otherHobby, { name: "Kind of Blue", description: "Jazz vinyl record" });
+
+    const { body } = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "jazz vinyl" },
+    });
+
+    expect(body.items.map((i) => i.name)).not.toContain("Kind of Blue");
+    expect(body.hobbies.map((h) => h.name)).not.toContain("Jazz Records");
+  });
+
+  it("finds the user's semantic matches in an index crowded by other users", async () => {
+    await env.HOBBY_ITEMS_INDEX.upsert(
+      Array.from({ length: 60 }, (_, index) => ({
+        id: `crowd-${index}`,
+        values: fakeEmbedding("jazz vinyl"),
+        metadata: { type: "item", userId: "someone-else", hobbyId: "elsewhere", name: "Jazz vinyl" },
+      }))
+    );
+
+    const { body } = await request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "jazz vinyl", mode: "semantic" },
+    });
+
+    expect(body.searchMethod).toBe("semantic");
+    expect(body.items[0]?.name).toBe("Blue Train");
+  });
+
+  it("requires a query", async () => {
+    const { status } = await request(env, "POST", "/api/search", { token, body: { query: " " } });
+    expect(status).toBe(400);
+  });
+});
+
+describe("search filters, sorting and paging", () => {
+  let env: TestEnv;
+  let token: string;
+  let userId: string;
+  let vinyl: string;
+  let cassettes: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token, userId } = await registerUser(env));
+    vinyl = await createHobby(env, token, { name: "Vinyl", category: "Music" });
+    cassettes = await createHobby(env, token, { name: "Cassettes", category: "Music" });
+
+    const items = [
+      { hobby: vinyl, name: "Blue Train", category: "Jazz", tags: ["jazz", "blue note"], created: "2024-03-10" },
+      { hobby: vinyl, name: "Abbey Road", category: "Rock", tags: ["beatles"], created: "2025-01-15" },
+      { hobby: vinyl, name: "Kind of Blue", category: "Jazz", tags: ["jazz"], created: "2025-02-20" },
+      { hobby: cassettes, name: "Jazz Mixtape", category: "Jazz", tags: ["jazz", "mixtape"], created: "2025-03-05" },
+    ];
+    for (const item of items) {
+      const id = await createItem(env, token, item.hobby, {
+        name: item.name,
+        description: "Music record",
+        category: item.category,
+      });
+      await env.DB.prepare("UPDATE items SET tags = ?, created_at = ? WHERE id = ?")
+        .bind(JSON.stringify(item.tags), Date.parse(item.created) / 1000, id)
+        .run();
+    }
+  });
+
+  async function search(body: Record<string, unknown>) {
+    return request<SearchResponse>(env, "POST", "/api/search", {
+      token,
+      body: { query: "record", mode: "text", ...body },
+    });
+  }
+
+  it("filters by hobby, category, tags, dates, photos and status", async () => {
+    const names = async (filters: Record<string, unknown>) =>
+      (await search({ filters, sort: "name" })).body.items.map((i) => i.name);
+
+    expect(await names({ hobbyId: cassettes })).toEqual(["Jazz Mixtape"]);
+    expect(await names({ category: "jazz" })).toEqual(["Blue Train", "Jazz Mixtape", "Kind of Blue"]);
+    expect(await names({ tags: ["Jazz", "blue note"] })).toEqual(["Blue Train"]);
+    expect(await names({ createdFrom: "2025-01", createdTo: "2025-02-20" })).toEqual(["Abbey Road", "Kind of Blue"]);
+    expect(await names({ status: "wishlist" })).toEqual([]);
+
+    await env.DB.prepare("UPDATE items SET image_url = 'items/cover.jpg' WHERE name = 'Abbey Road'").run();
+    expect(await names({ hasImage: true })).toEqual(["Abbey Road"]);
+    expect(await names({ hasImage: false, hobbyId: vinyl })).toEqual(["Blue Train", "Kind of Blue"]);
+
+    // Hobbies only come back for filters that apply to them
+    const { body } = await search({ query: "vinyl", filters: { category: "Jazz" } });
+    expect(body.hobbies).toEqual([]);
+
+    const invalid = await search({ filters: { createdFrom: "last week" } });
+    expect(invalid.status).toBe(400);
+    const badStatus = await search({ filters: { status: "borrowed" } });
+    expect(badStatus.status).toBe(400);
+  });
+
+  it("counts facets over all matches, ignoring each facet's own filter", async () => {
+    const { body } = await search({ filters: { category: "Jazz" } });
+
+    expect(body.facets.categories).toEqual([
+      { value: "Jazz", count: 3 },
+      { value: "Rock", count: 1 },
+    ]);
+    expect(body.facets.hobbies).toEqual([
+      { id: vinyl, name: "Vinyl", count: 2 },
+      { id: cassettes, name: "Cassettes", count: 1 },
+    ]);
+    expect(body.facets.tags).toEqual([
+      { value: "jazz", count: 3 },
+      { value: "blue note", count: 1 },
+      { value: "mixtape", count: 1 },
+    ]);
+  });
+
+  it("sorts and pages results with a cursor", async () => {
+    const first = await search({ sort: "newest", limit: 3 });
+    expect(first.body.items.map((i) => i.name)).toEqual(["Jazz Mixtape", "Kind of Blue", "Abbey Road"]);
+    expect(first.body.nextCursor).not.toBeNull();
+
+    const second = await search({ sort: "newest", limit: 3, cursor: first.body.nextCursor });
+    expect(second.body.items.map((i) => i.name)).toEqual(["Blue Train"]);
+    expect(second.body.nextCursor).toBeNull();
+
+    const oldest = await search({ sort: "oldest", limit: 1 });
+    expect(oldest.body.items.map((i) => i.name)).toEqual(["Blue Train"]);
+
+    expect((await search({ sort: "popular" })).status).toBe(400);
+    expect((await search({ cursor: "page-2" })).status).toBe(400);
+  });
+
+  it("keeps deep semantic pages within Vectorize's topK limit", async () => {
+    const query = vi.spyOn(env.HOBBY_ITEMS_INDEX, "query");
+    const { status, body } = await search({ query: "record", mode: "hybrid", limit: 50, cursor: "200" });
+
+    expect(status).toBe(200);
+    expect(body.items).toEqual([]);
+    expect(query).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ topK: VECTORIZE_MAX_TOP_K }));
+  });
+
+  it("applies filters and facets to semantic results", async () => {
+    const { body } = await search({ query: "jazz record", mode: "semantic", filters: { hobbyId: vinyl } });
+
+    expect(body.searchMethod).toBe("semantic");
+    expect(body.items.map((i) => i.name).sort()).toEqual(["Abbey Road", "Blue Train", "Kind of Blue"]);
+    expect(body.facets.hobbies.map((h) => [h.name, h.count])).toEqual([
+      ["Vinyl", 3],
+      ["Cassettes", 1],
+    ]);
+  });
+
+  it("applies field clauses and exclusions typed into the query", async () => {
+    const names = async (query: string) =>
+      (await search({ query, sort: "name" })).body.items.map((i) => i.name);
+
+    expect(await names('record tag:jazz category:"Jazz" hobby:vinyl created:>2024-12')).toEqual(["Kind of Blue"]);
+    expect(await names("record tag:jazz -mixtape")).toEqual(["Blue Train", "Kind of Blue"]);
+    expect(await names("record -tag:jazz")).toEqual(["Abbey Road"]);
+    expect(await names("record -hobby:vinyl")).toEqual(["Jazz Mixtape"]);
+    expect(await names("record created:2024..2025-01")).toEqual(["Abbey Road", "Blue Train"]);
+
+    // Clauses alone list everything they let through, with facets
+    const { body } = await search({ query: "category:jazz -blue", sort: "name" });
+    expect(body.items.map((i) => i.name)).toEqual(["Jazz Mixtape"]);
+    expect(body.hobbies).toEqual([]);
+    expect(body.facets.categories).toEqual([{ value: "Jazz", count: 1 }]);
+
+    const hobbies = await search({ query: "hobby:cass" });
+    expect(hobbies.body.hobbies.map((h) => h.name)).toEqual(["Cassettes"]);
+  });
+
+  it("embeds only the free text and narrows semantic matches with metadata filters", async () => {
+    const query = vi.spyOn(env.HOBBY_ITEMS_INDEX, "query");
+    const { body } = await search({ query: "jazz hobby:vinyl category:jazz", mode: "semantic" });
+
+    expect(body.searchMethod).toBe("semantic");
+    expect(body.items.map((i) => i.name).sort()).toEqual(["Blue Train", "Kind of Blue"]);
+    expect(query).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ filter: { userId, type: "item", hobbyId: vinyl } })
+    );
+    expect(env.AI.calls.at(-1)?.inputs).toEqual({ text: ["jazz"] });
+  });
+
+  it("reports query errors with their positions", async () => {
+    const { status, body } = await request<{ error: string; queryErrors: { start: number; end: number }[] }>(
+      env,
+      "POST",
+      "/api/search",
+      { token, body: { query: "jazz status:gone created:soon" } }
+    );
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/Unknown status "gone"/);
+    expect(body.queryErrors.map(({ start, end }) => [start, end])).toEqual([
+      [5, 16],
+      [17, 29],
+    ]);
+  });
+
+  it("searches titles with a colon as plain text", async () => {
+    await createItem(env, token, vinyl, { name: "Star Wars: A New Hope", description: "Soundtrack record" });
+
+    const { status, body } = await search({ query: "Star Wars: A New Hope", mode: "text" });
+    expect(status).toBe(200);
+    expect(body.items.map((i) => i.name)).toEqual(["Star Wars: A New Hope"]);
+  });
+});
+
+describe("search by image", () => {
+  interface ImageSearchResponse {
+    analysis: { name: string; description: string; category: string };
+    matches: { id: string; name: string; hobby_name: string; similarity: number; likely_duplicate: boolean }[];
+  }
+
+  it("finds the user's items that look like the photo", async () => {
+    const env = await createTestEnv();
+    const me = await registerUser(env);
+    const other = await registerUser(env);
+
+    const hobbyId = await createHobby(env, me.token, { name: "Antiques", category: "Collectables" });
+    await createItem(env, me.token, hobbyId, {
+      name: "Brass Pocket Watch",
+      description: "An antique brass pocket watch.",
+    });
+    await createItem(env, me.token, hobbyId, { name: "Garden Gnome", description: "ceramic lawn ornament" });
+    const otherHobby = await createHobby(env, other.token, { name: "Watches", category: "Collectables" });
+    await createItem(env, other.token, otherHobby, {
+      name: "Brass Pocket Watch",
+      description: "An antique brass pocket watch.",
+    });
+
+    const form = new FormData();
+    form.append("image", imageFile("flea-market.jpg", 4, 2));
+    const { status, body } = await request<ImageSearchResponse>(env, "POST", "/api/search/by-image", {
+      token: me.token,
+      body: form,
+    });
+
+    expect(status).toBe(200);
+    expect(body.analysis.name).toBe("Brass Pocket Watch");
+    expect(body.matches[0]).toMatchObject({ name: "Brass Pocket Watch", hobby_name: "Antiques", likely_duplicate: true });
+    expect(body.matches[0].similarity).toBeCloseTo(1);
+    expect(body.matches.filter((match) => match.name === "Brass Pocket Watch")).toHaveLength(1);
+    expect(body.matches.filter((match) => match.likely_duplicate)).toHaveLength(1);
+  });
+
+  it("reports a failed Vectorize query instead of finding nothing", async () => {
+    const env = await createTestEnv();
+    const { token } = await registerUser(env);
+    vi.spyOn(env.HOBBY_ITEMS_INDEX, "query").mockRejectedValue(new Error("metadata index missing"));
+
+    const form = new FormData();
+    form.append("image", imageFile("flea-market.jpg", 4, 2));
+    const { status } = await request(env, "POST", "/api/search/by-image", { token, body: form });
+    expect(status).toBe(500);
+  });
+
+  it("requires a photo upload", async () => {
+    const env = await createTestEnv();
+    const { token } = await registerUser(env);
+
+    const json = await request<{ error: string }>(env, "POST", "/api/search/by-image", { token, body: {} });
+    expect(json.status).toBe(400);
+
+    const empty = await request<{ error: string }>(env, "POST", "/api/search/by-image", {
+      token,
+      body: new FormData(),
+    });
+    expect(empty.status).toBe(400);
+    expect(empty.body.error).toBe("Upload a photo to search with");
+  });
+});
+
+describe("reciprocal rank fusion", () => {
+  it("favours results ranked by both signals", () => {
+    const fused = fuseRankings([
+      { signal: "semantic", ids: ["a", "b", "c"] },
+      { signal: "text", ids: ["c", "d"] },
+    ]);
+
+    expect(fused.map((entry) => entry.id)).toEqual(["c", "a", "b", "d"]);
+    expect(fused[0]).toEqual({
+      id: "c",
+      fusion_score: 1 / (RRF_K + 3) + 1 / (RRF_K + 1),
+      matched_by: ["semantic", "text"],
+    });
+  });
+});
+
+describe("recommendations", () => {
+  it("recommends other users' items that match the user's hobbies", async () => {
+    const env = await createTestEnv();
+    const me = await registerUser(env);
+    const other = await registerUser(env);
+
+    await createHobby(env, me.token, { name: "Jazz vinyl", description: "jazz records", category: "Music" });
+    const otherHobby = await createHobby(env, other.token, { name: "Music", category: "Music" });
+    await createItem(env, other.token, otherHobby, { name: "Kind of Blue", description: "jazz vinyl records" });
+    await createItem(env, other.token, otherHobby, { name: "Garden Gnome", description: "ceramic lawn ornament" });
+
+    const { status, body } = await request<{
+      recommendations: { name: string; similarity: number }[];
+      searchMethod: string;
+    }>(env, "POST", "/api/discover/recommendations", { token: me.token, body: { limit: 1 } });
+
+    expect(status).toBe(200);
+    expect(body.searchMethod).toBe("semantic");
+    expect(body.recommendations.map((r) => r.name)).toEqual(["Kind of Blue"]);
+  });
+
+  it("keeps the Vectorize query within topK limits for large requests", async () => {
+    const env = await createTestEnv();
+    const me = await registerUser(env);
+    const other = await registerUser(env);
+
+    await createHobby(env, me.token, { name: "Jazz vinyl", description: "jazz records", category: "Music" });
+    const otherHobby = await createHobby(env, other.token, { name: "Music", category: "Music" });
+    await createItem(env, other.token, otherHobby, { name: "Kind of Blue", description: "jazz vinyl records" });
+
+    const { status, body } = await request<{ recommendations: { name: string }[]; searchMethod: string }>(
+      env,
+      "POST",
+      "/api/discover/recommendations",
+      { token: me.token, body: { limit: 40 } }
+    );
+
+    expect(status).toBe(200);
+    expect(body.searchMethod).toBe("semantic");
+    expect(body.recommendations.map((r) => r.name)).toEqual(["Kind of Blue"]);
+  });
+
+  it("returns nothing without hobbies or a query", async () => {
+    const env = await createTestEnv();
+    const me = await registerUser(env);
+
+    const { body } = await request<{ recommendations: unknown[] }>(
+      env,
+      "POST",
+      "/api/discover/recommendations",
+      { token: me.token, body: {} }
+    );
+
+    expect(body.recommendations).toEqual([]);
+  });
+});
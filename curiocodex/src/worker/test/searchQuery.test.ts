@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { emptyQueryClauses, parseSearchQuery } from "../searchQuery";
+
+function parse(input: string) {
+  const parsed = parseSearchQuery(input);
+  if ("errors" in parsed) throw new Error(parsed.errors[0].message);
+  return parsed.query;
+}
+
+describe("search query parser", () => {
+  it("separates free text from field clauses", () => {
+    const query = parse('tag:vintage category:"Music" hobby:vinyl created:>2025-01 -broken blue note');
+
+    expect(query.text).toBe("blue note");
+    expect(query.clauses).toEqual({
+      ...emptyQueryClauses(),
+      tags: ["vintage"],
+      categories: ["Music"],
+      hobbies: ["vinyl"],
+      createdFrom: Date.UTC(2025, 1, 1) / 1000,
+      excludeTerms: ["broken"],
+    });
+  });
+
+  it("negates clauses and reads dates, ranges, statuses and photos", () => {
+    const query = parse('"kind of blue" -tag:scratched -hobby:cassettes status:wishlist has:image created:2024-03..2024-06');
+
+    expect(query.text).toBe("kind of blue");
+    expect(query.clauses).toMatchObject({
+      excludeTags: ["scratched"],
+      excludeHobbies: ["cassettes"],
+      statuses: ["wishlist"],
+      hasImage: true,
+      createdFrom: Date.UTC(2024, 2, 1) / 1000,
+      createdUntil: Date.UTC(2024, 6, 1) / 1000,
+    });
+
+    expect(parse("created:<=2024").clauses.createdUntil).toBe(Date.UTC(2025, 0, 1) / 1000);
+    expect(parse("-has:photo").clauses.hasImage).toBe(false);
+    expect(parse("see https://example.com -").text).toBe("see https://example.com -");
+  });
+
+  it("reports errors with the range they cover", () => {
+    const input = 'jazz has:colour created:last-week status:borrowed "unclosed';
+    const parsed = parseSearchQuery(input);
+    if (!("errors" in parsed)) throw new Error("expected errors");
+
+    expect(parsed.errors.map((error) => input.slice(error.start, error.end))).toEqual([
+      "has:colour",
+      "created:last-week",
+      "status:borrowed",
+      '"unclosed',
+    ]);
+    expect(parsed.errors[0].message).toMatch(/has: only supports has:image/);
+    expect("errors" in parseSearchQuery("-created:2024")).toBe(true);
+  });
+
+  it("keeps colons that are not field clauses as free text", () => {
+    expect(parse("Star Wars: A New Hope")).toEqual({ text: "Star Wars: A New Hope", clauses: emptyQueryClauses() });
+    expect(parse("Batman: Year One tag:comics").text).toBe("Batman: Year One");
+    expect(parse("colour:blue").text).toBe("colour:blue");
+    expect(parse("tag:").text).toBe("tag:");
+    expect(parse("constructor:foo toString:bar").text).toBe("constructor:foo toString:bar");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem } from "./client";
+
+describe("public showcases", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env, { username: "collector" }));
+    hobbyId = await createHobby(env, token, { name: "Vinyl", category: "Music" });
+    await createItem(env, token, hobbyId, { name: "Blue Train" });
+  });
+
+  it("publishes a hobby under a stable, unguessable slug", async () => {
+    const first = await request<{ slug: string }>(env, "POST", `/api/hobbies/${hobbyId}/share`, { token });
+    expect(first.status).toBe(200);
+    expect(first.body.slug).toMatch(/^[A-Za-z0-9_-]{22}$/);
+
+    const again = await request<{ slug: string }>(env, "POST", `/api/hobbies/${hobbyId}/share`, { token });
+    expect(again.body.slug).toBe(first.body.slug);
+
+    const showcase = await request<{
+      hobby: { name: string; owner: string };
+      items: { name: string }[];
+    }>(env, "GET", `/api/public/hobbies/${first.body.slug}`);
+    expect(showcase.status).toBe(200);
+    expect(showcase.body.hobby).toMatchObject({ name: "Vinyl", owner: "collector" });
+    expect(showcase.body.items.map((i) => i.name)).toEqual(["Blue Train"]);
+  });
+
+  it("stops serving the showcase once unpublished", async () => {
+    const { body } = await request<{ slug: string }>(env, "POST", `/api/hobbies/${hobbyId}/share`, { token });
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/share`, { token });
+
+    const showcase = await request(env, "GET", `/api/public/hobbies/${body.slug}`);
+    expect(showcase.status).toBe(404);
+  });
+
+  it("only lets the owner publish a hobby", async () => {
+    const other = await registerUser(env);
+    const { status } = await request(env, "POST", `/api/hobbies/${hobbyId}/share`, { token: other.token });
+    expect(status).toBe(404);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem } from "./client";
+import { TRASH_RETENTION_DAYS, purgeExpiredTrash } from "../trash";
+
+interface TrashResponse {
+  retention_days: number;
+  hobbies: { id: string; name: string; item_count: number; deleted_at: number; purge_at: number }[];
+  items: { id: string; name: string; hobby_id: string; hobby_name: string }[];
+}
+
+describe("trash", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Vinyl", category: "Music" });
+  });
+
+  async function listItemNames() {
+    const { body } = await request<{ items: { name: string }[] }>(env, "GET", `/api/hobbies/${hobbyId}/items`, {
+      token,
+    });
+    return body.items.map((item) => item.name);
+  }
+
+  it("moves an item to the trash and restores it with its vector", async () => {
+    const itemId = await createItem(env, token, hobbyId, { name: "Blue Train", category: "Jazz" });
+    await createItem(env, token, hobbyId, { name: "Kind of Blue", category: "Jazz" });
+
+    const deleted = await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${itemId}`, { token });
+    expect(deleted.status).toBe(200);
+    expect(await listItemNames()).toEqual(["Kind of Blue"]);
+    expect(env.HOBBY_ITEMS_INDEX.vectors.has(itemId)).toBe(false);
+
+    const hidden = await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}`, {
+      token,
+      body: { name: "Blue Train (mono)" },
+    });
+    expect(hidden.status).toBe(404);
+
+    const { body: trash } = await request<TrashResponse>(env, "GET", "/api/trash", { token });
+    expect(trash.retention_days).toBe(TRASH_RETENTION_DAYS);
+    expect(trash.hobbies).toEqual([]);
+    expect(trash.items).toMatchObject([{ id: itemId, name: "Blue Train", hobby_name: "Vinyl" }]);
+
+    const stranger = await registerUser(env);
+    const forbidden = await request(env, "POST", `/api/trash/items/${itemId}/restore`, { token: stranger.token });
+    expect(forbidden.status).toBe(404);
+
+    const restored = await request(env, "POST", `/api/trash/items/${itemId}/restore`, { token });
+    expect(restored.status).toBe(200);
+    expect(await listItemNames()).toEqual(expect.arrayContaining(["Blue Train", "Kind of Blue"]));
+    expect(env.HOBBY_ITEMS_INDEX.vectors.get(itemId)?.metadata).toMatchObject({
+      type: "item",
+      hobbyId,
+      name: "Blue Train",
+    });
+
+    const again = await request(env, "POST", `/api/trash/items/${itemId}/restore`, { token });
+    expect(again.status).toBe(404);
+  });
+
+  it("trashes a hobby with its items and brings them back together", async () => {
+    const kept = await createItem(env, token, hobbyId, { name: "Blue Train" });
+    const trashedFirst = await createItem(env, token, hobbyId, { name: "Scratched LP" });
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${trashedFirst}`, { token });
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}`, { token });
+    expect(env.HOBBY_ITEMS_INDEX.vectors.size).toBe(0);
+
+    const hobbies = await request<{ hobbies: unknown[] }>(env, "GET", "/api/hobbies", { token });
+    expect(hobbies.body.hobbies).toEqual([]);
+    const items = await request(env, "GET", `/api/hobbies/${hobbyId}/items`, { token });
+    expect(items.status).toBe(404);
+
+    // Items inside a trashed hobby are listed with the hobby, not on their own
+    const { body: trash } = await request<TrashResponse>(env, "GET", "/api/trash", { token });
+    expect(trash.hobbies).toMatchObject([{ id: hobbyId, name: "Vinyl", item_count: 1 }]);
+    expect(trash.hobbies[0].purge_at - trash.hobbies[0].deleted_at).toBe(TRASH_RETENTION_DAYS * 24 * 60 * 60);
+    expect(trash.items).toEqual([]);
+
+    const callsBefore = env.AI.calls.length;
+    const restored = await request<{ item_count: number }>(env, "POST", `/api/trash/hobbies/${hobbyId}/restore`, {
+      token,
+    });
+    expect(restored.body.item_count).toBe(1);
+    // The hobby and its items are embedded in one batch
+    const embedCalls = env.AI.calls.slice(callsBefore);
+    expect(embedCalls).toHaveLength(1);
+    expect(embedCalls[0].inputs.text).toEqual([expect.stringContaining("Vinyl"), expect.stringContaining("Blue Train")]);
+    expect(await listItemNames()).toEqual(["Blue Train"]);
+    expect(env.HOBBY_ITEMS_INDEX.vectors.get(hobbyId)?.metadata).toMatchObject({ type: "hobby", name: "Vinyl" });
+    expect(env.HOBBY_ITEMS_INDEX.vectors.has(kept)).toBe(true);
+    expect(env.HOBBY_ITEMS_INDEX.vectors.has(trashedFirst)).toBe(false);
+
+    // The item trashed on its own stays in the trash
+    const { body: after } = await request<TrashResponse>(env, "GET", "/api/trash", { token });
+    expect(after.items.map((item) => item.id)).toEqual([trashedFirst]);
+  });
+
+  it("restores even when the vectors cannot be rebuilt", async () => {
+    const itemId = await createItem(env, token, hobbyId, { name: "Blue Train" });
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${itemId}`, { token });
+
+    vi.spyOn(env.AI, "run").mockRejectedValue(new Error("AI unavailable"));
+    const restored = await request(env, "POST", `/api/trash/items/${itemId}/restore`, { token });
+
+    expect(restored.status).toBe(200);
+    expect(await listItemNames()).toEqual(["Blue Train"]);
+  });
+
+  it("purges trash older than the retention window", async () => {
+    const otherHobby = await createHobby(env, token, { name: "Cassettes" });
+    const oldItem = await createItem(env, token, otherHobby, { name: "Mixtape" });
+    const recentItem = await createItem(env, token, otherHobby, { name: "Walkman demo" });
+    await createItem(env, token, hobbyId, { name: "Blue Train" });
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}`, { token });
+    await request(env, "DELETE", `/api/hobbies/${otherHobby}/items/${oldItem}`, { token });
+    await request(env, "DELETE", `/api/hobbies/${otherHobby}/items/${recentItem}`, { token });
+
+    const expired = Math.floor(Date.now() / 1000) - (TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60;
+    await env.DB.prepare("UPDATE hobbies SET deleted_at = ? WHERE id = ?").bind(expired, hobbyId).run();
+    await env.DB.prepare("UPDATE items SET deleted_at = ? WHERE id = ?").bind(expired, oldItem).run();
+
+    const purged = await purgeExpiredTrash(env.DB, env.ITEM_IMAGES);
+    expect(purged).toEqual({ hobbies: 1, items: 1 });
+
+    const hobbies = await env.DB.prepare("SELECT id FROM hobbies").all<{ id: string }>();
+    expect(hobbies.results.map((row) => row.id)).toEqual([otherHobby]);
+    const items = await env.DB.prepare("SELECT id FROM items").all<{ id: string }>();
+    expect(items.results.map((row) => row.id)).toEqual([recentItem]);
+
+    const permanent = await request(env, "DELETE", `/api/trash/items/${recentItem}`, { token });
+    expect(permanent.status).toBe(200);
+    const gone = await request(env, "POST", `/api/trash/items/${recentItem}/restore`, { token });
+    expect(gone.status).toBe(404);
+  });
+});
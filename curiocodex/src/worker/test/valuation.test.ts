@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createTestEnv, type TestEnv } from "./bindings";
+import { request, registerUser, createHobby, createItem } from "./client";
+
+interface ValuedItem {
+  id: string;
+  purchase_price: number | null;
+  purchase_date: string | null;
+  currency: string | null;
+  estimated_value: number | null;
+}
+
+interface CurrencyTotal {
+  currency: string;
+  value: number;
+  purchase_cost: number;
+  items: number;
+}
+
+describe("item valuation", () => {
+  let env: TestEnv;
+  let token: string;
+  let hobbyId: string;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    ({ token } = await registerUser(env));
+    hobbyId = await createHobby(env, token, { name: "Watches", category: "Collectables" });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function updateItem(itemId: string, fields: Record<string, unknown>) {
+    return request<{ item: ValuedItem }>(env, "PUT", `/api/hobbies/${hobbyId}/items/${itemId}`, {
+      token,
+      body: { name: "Pocket watch", category: "Pocket", ...fields },
+    });
+  }
+
+  it("stores purchase details and records value changes", async () => {
+    const invalid = await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Pocket watch", purchasePrice: 120, currency: "dollars" },
+    });
+    expect(invalid.status).toBe(400);
+
+    const created = await request<{ item: ValuedItem }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Pocket watch", purchasePrice: "120.50", purchaseDate: "2024-03-01" },
+    });
+    expect(created.body.item).toMatchObject({
+      purchase_price: 120.5,
+      purchase_date: "2024-03-01",
+      currency: "USD",
+      estimated_value: null,
+    });
+    const itemId = created.body.item.id;
+
+    // Unrelated edits leave the valuation alone
+    const renamed = await updateItem(itemId, {});
+    expect(renamed.body.item.purchase_price).toBe(120.5);
+
+    const estimated = await updateItem(itemId, { estimatedValue: 199.99 });
+    expect(estimated.body.item).toMatchObject({ purchase_price: 120.5, estimated_value: 199.99 });
+
+    const { body } = await request<{ history: { value: number | null; currency: string }[] }>(
+      env,
+      "GET",
+      `/api/hobbies/${hobbyId}/items/${itemId}/value-history`,
+      { token }
+    );
+    expect(body.history.map((entry) => entry.value)).toEqual([120.5, 199.99]);
+
+    const stranger = await registerUser(env);
+    const hidden = await request(env, "GET", `/api/hobbies/${hobbyId}/items/${itemId}/value-history`, {
+      token: stranger.token,
+    });
+    expect(hidden.status).toBe(404);
+  });
+
+  it("reports collection value per currency and per hobby", async () => {
+    const otherHobby = await createHobby(env, token, { name: "Stamps", category: "Collectables" });
+    await createItem(env, token, hobbyId, { name: "Wrist watch" });
+    await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Pocket watch", purchasePrice: 100, estimatedValue: 250 },
+    });
+    await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Carriage clock", purchasePrice: 80 },
+    });
+    await request(env, "POST", `/api/hobbies/${otherHobby}/items`, {
+      token,
+      body: { name: "Penny Black", estimatedValue: 900, currency: "gbp" },
+    });
+
+    const { status, body } = await request<{
+      totals: CurrencyTotal[];
+      hobbies: { name: string; totals: CurrencyTotal[]; unvalued_items: number; items: unknown[] }[];
+    }>(env, "GET", "/api/reports/valuation", { token });
+
+    expect(status).toBe(200);
+    expect(body.totals).toEqual([
+      { currency: "GBP", value: 900, purchase_cost: 0, items: 1 },
+      { currency: "USD", value: 330, purchase_cost: 180, items: 2 },
+    ]);
+
+    const watches = body.hobbies.find((hobby) => hobby.name === "Watches")!;
+    expect(watches.totals).toEqual([{ currency: "USD", value: 330, purchase_cost: 180, items: 2 }]);
+    expect(watches.items).toHaveLength(2);
+    expect(watches.unvalued_items).toBe(1);
+  });
+
+  it("reports collection value over time", async () => {
+    const now = Date.now();
+    const dateNow = vi.spyOn(Date, "now");
+
+    dateNow.mockReturnValue(now - 70 * 24 * 60 * 60 * 1000);
+    const itemId = await createItem(env, token, hobbyId, { name: "Pocket watch" });
+    await updateItem(itemId, { estimatedValue: 100 });
+
+    dateNow.mockReturnValue(now);
+    await updateItem(itemId, { estimatedValue: 150 });
+    await request(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Wrist watch", estimatedValue: 50 },
+    });
+
+    const { body } = await request<{ points: { date: string; totals: Record<string, number> }[] }>(
+      env,
+      "GET",
+      "/api/reports/valuation/history?months=4",
+      { token }
+    );
+
+    expect(body.points).toHaveLength(4);
+    expect(body.points[0].totals).toEqual({});
+    expect(body.points[2].totals).toEqual({ USD: 100 });
+    expect(body.points[3].totals).toEqual({ USD: 200 });
+
+    const missing = await request(env, "GET", "/api/reports/valuation/history?hobbyId=nope", { token });
+    expect(missing.status).toBe(404);
+  });
+
+  it("counts items in the value history only while they were owned", async () => {
+    const now = Date.now();
+    const dateNow = vi.spyOn(Date, "now");
+
+    dateNow.mockReturnValue(now - 70 * 24 * 60 * 60 * 1000);
+    const sold = await createItem(env, token, hobbyId, { name: "Pocket watch" });
+    await updateItem(sold, { estimatedValue: 100 });
+    const wished = await request<{ item: ValuedItem }>(env, "POST", `/api/hobbies/${hobbyId}/items`, {
+      token,
+      body: { name: "Wrist watch", estimatedValue: 40, status: "wishlist" },
+    });
+
+    dateNow.mockReturnValue(now);
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${sold}/status`, { token, body: { status: "sold" } });
+    await request(env, "PUT", `/api/hobbies/${hobbyId}/items/${wished.body.item.id}/status`, {
+      token,
+      body: { status: "owned" },
+    });
+
+    const { body } = await request<{ points: { date: string; totals: Record<string, number> }[] }>(
+      env,
+      "GET",
+      "/api/reports/valuation/history?months=4",
+      { token }
+    );
+
+    expect(body.points[2].totals).toEqual({ USD: 100 });
+    expect(body.points[3].totals).toEqual({ USD: 40 });
+  });
+
+  it("shows value changes in the activity feed", async () => {
+    const itemId = await createItem(env, token, hobbyId, { name: "Pocket watch" });
+    await updateItem(itemId, { estimatedValue: 75, currency: "EUR" });
+    await updateItem(itemId, { estimatedValue: 90 });
+
+    const { body } = await request<{
+      events: { type: string; previous_value: unknown; value: unknown; item: { id: string } }[];
+    }>(env, "GET", "/api/activity/recent?pageSize=50", { token });
+
+    const changes = body.events.filter((event) => event.type === "item_value_changed");
+    expect(changes).toHaveLength(2);
+    expect(changes.map((event) => event.value)).toEqual(
+      expect.arrayContaining([{ amount: 90, currency: "EUR" }, { amount: 75, currency: "EUR" }])
+    );
+    expect(changes.find((event) => (event.value as { amount: number }).amount === 90)?.previous_value).toEqual({
+      amount: 75,
+      currency: "EUR",
+    });
+
+    await request(env, "DELETE", `/api/hobbies/${hobbyId}/items/${itemId}`, { token });
+    await request(env, "DELETE", `/api/trash/items/${itemId}`, { token });
+    const remaining = await env.DB.prepare("SELECT COUNT(*) as count FROM item_value_history").first();
+    expect(remaining).toEqual({ count: 0 });
+  });
+});
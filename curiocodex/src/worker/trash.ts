@@ -0,0 +1,158 @@
+/**
+ * Trash bin for deleted hobbies and items.
+ *
+ * Deleting only sets deleted_at, so a hobby or item can be restored until the
+ * retention window runs out. Purging removes the rows for good, together with
+ * their history, photos and set slot assignments. Vectors are dropped when
+ * something is trashed and rebuilt when it is restored, so search never sees
+ * trashed rows.
+ */
+
+import { deleteImageObjects, listImagesForItems, listItemImages } from "./images";
+
+/** Days a trashed hobby or item is kept before it is purged. */
+export const TRASH_RETENTION_DAYS = 30;
+
+const TRASH_RETENTION_SECONDS = TRASH_RETENTION_DAYS * 24 * 60 * 60;
+
+export interface TrashedHobbyRow {
+  id: string;
+  name: string;
+  category: string | null;
+  deleted_at: number;
+  item_count: number;
+}
+
+export interface TrashedItemRow {
+  id: string;
+  hobby_id: string;
+  hobby_name: string;
+  name: string;
+  category: string | null;
+  image_url: string | null;
+  deleted_at: number;
+}
+
+/** When a row trashed at `deletedAt` will be purged. */
+export function purgeAt(deletedAt: number): number {
+  return deletedAt + TRASH_RETENTION_SECONDS;
+}
+
+/**
+ * A user's trashed hobbies and items, most recently deleted first. Items
+ * inside a trashed hobby are counted with the hobby rather than listed.
+ */
+export async function listTrash(
+  db: D1Database,
+  userId: string
+): Promise<{ hobbies: TrashedHobbyRow[]; items: TrashedItemRow[] }> {
+  const hobbies = await db.prepare(
+    `SELECT h.id, h.name, h.category, h.deleted_at,
+       (SELECT COUNT(*) FROM items i WHERE i.hobby_id = h.id AND i.deleted_at IS NULL) as item_count
+     FROM hobbies h
+     WHERE h.user_id = ? AND h.deleted_at IS NOT NULL
+     ORDER BY h.deleted_at DESC`
+  )
+    .bind(userId)
+    .all<TrashedHobbyRow>();
+
+  const items = await db.prepare(
+    `SELECT i.id, i.hobby_id, h.name as hobby_name, i.name, i.category, i.image_url, i.deleted_at
+     FROM items i
+     INNER JOIN hobbies h ON i.hobby_id = h.id
+     WHERE h.user_id = ? AND h.deleted_at IS NULL AND i.deleted_at IS NOT NULL
+     ORDER BY i.deleted_at DESC`
+  )
+    .bind(userId)
+    .all<TrashedItemRow>();
+
+  return { hobbies: hobbies.results, items: items.results };
+}
+
+/**
+ * Statements deleting the items matched by `where` and everything hanging off
+ * them, children first (due to foreign key constraints).
+ */
+function itemPurgeStatements(db: D1Database, where: string, value: string): D1PreparedStatement[] {
+  const itemIds = `SELECT id FROM items WHERE ${where}`;
+  return [
+    db.prepare(`DELETE FROM item_images WHERE item_id IN (${itemIds})`).bind(value),
+    db.prepare(`DELETE FROM item_value_history WHERE item_id IN (${itemIds})`).bind(value),
+    db.prepare(`DELETE FROM item_status_history WHERE item_id IN (${itemIds})`).bind(value),
+    db.prepare(`DELETE FROM item_loans WHERE item_id IN (${itemIds})`).bind(value),
+    db.prepare(`DELETE FROM item_revisions WHERE item_id IN (${itemIds})`).bind(value),
+    db.prepare(`DELETE FROM saved_search_hits WHERE item_id IN (${itemIds})`).bind(value),
+    // Set slots the items filled become empty again
+    db.prepare(`UPDATE item_set_slots SET item_id = NULL WHERE item_id IN (${itemIds})`).bind(value),
+    db.prepare(`DELETE FROM items WHERE ${where}`).bind(value),
+  ];
+}
+
+/**
+ * Permanently delete an item, its history and its photos.
+ */
+export async function purgeItem(db: D1Database, bucket: R2Bucket, itemId: string): Promise<void> {
+  const item = await db.prepare("SELECT image_url FROM items WHERE id = ?")
+    .bind(itemId)
+    .first<{ image_url: string | null }>();
+  const galleryImages = await listItemImages(db, itemId);
+
+  await db.batch(itemPurgeStatements(db, "id = ?", itemId));
+
+  await deleteImageObjects(bucket, [item?.image_url, ...galleryImages.map((image) => image.image_key)]);
+}
+
+/**
+ * Permanently delete a hobby with all its items, sets and photos.
+ */
+export async function purgeHobby(db: D1Database, bucket: R2Bucket, hobbyId: string): Promise<void> {
+  const items = await db.prepare("SELECT id, image_url FROM items WHERE hobby_id = ?")
+    .bind(hobbyId)
+    .all<{ id: string; image_url: string | null }>();
+  const galleryImages = await listImagesForItems(db, items.results.map((item) => item.id));
+
+  await db.batch([
+    ...itemPurgeStatements(db, "hobby_id = ?", hobbyId),
+    db.prepare("DELETE FROM hobby_revisions WHERE hobby_id = ?").bind(hobbyId),
+    db.prepare(
+      "DELETE FROM item_set_slots WHERE set_id IN (SELECT id FROM item_sets WHERE hobby_id = ?)"
+    ).bind(hobbyId),
+    db.prepare("DELETE FROM item_sets WHERE hobby_id = ?").bind(hobbyId),
+    db.prepare("DELETE FROM hobby_item_categories WHERE hobby_id = ?").bind(hobbyId),
+    db.prepare("DELETE FROM hobby_item_fields WHERE hobby_id = ?").bind(hobbyId),
+    db.prepare("DELETE FROM hobbies WHERE id = ?").bind(hobbyId),
+  ]);
+
+  await deleteImageObjects(bucket, [
+    ...items.results.map((item) => item.image_url),
+    ...Array.from(galleryImages.values()).flat().map((image) => image.image_key),
+  ]);
+}
+
+/**
+ * Purge every hobby and item that has been in the trash longer than the
+ * retention window. Run daily from the scheduled handler.
+ */
+export async function purgeExpiredTrash(
+  db: D1Database,
+  bucket: R2Bucket,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<{ hobbies: number; items: number }> {
+  const cutoff = now - TRASH_RETENTION_SECONDS;
+
+  const hobbies = await db.prepare("SELECT id FROM hobbies WHERE deleted_at IS NOT NULL AND deleted_at <= ?")
+    .bind(cutoff)
+    .all<{ id: string }>();
+  for (const hobby of hobbies.results) {
+    await purgeHobby(db, bucket, hobby.id);
+  }
+
+  const items = await db.prepare("SELECT id FROM items WHERE deleted_at IS NOT NULL AND deleted_at <= ?")
+    .bind(cutoff)
+    .all<{ id: string }>();
+  for (const item of items.results) {
+    await purgeItem(db, bucket, item.id);
+  }
+
+  return { hobbies: hobbies.results.length, items: items.results.length };
+}
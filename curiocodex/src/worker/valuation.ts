@@ -0,0 +1,313 @@
+/**
+ * Item valuation: purchase details, estimated values and collection worth.
+ *
+ * Amounts are kept in minor units (cents) in D1 and converted to decimal
+ * amounts at the API boundary. Every change to an item's value is recorded in
+ * item_value_history so collection totals can be reported over time.
+ */
+
+import type { StatusHistoryRow } from "./itemStatus";
+
+export const DEFAULT_CURRENCY = "USD";
+
+/** Largest amount accepted for a single item (in major units). */
+const MAX_AMOUNT = 1_000_000_000;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ItemValuation {
+  purchasePriceCents: number | null;
+  /** YYYY-MM-DD */
+  purchaseDate: string | null;
+  /** ISO 4217 code; null until an amount is recorded. */
+  currency: string | null;
+  estimatedValueCents: number | null;
+}
+
+/** The valuation columns on items, as read from D1. */
+export interface ValuationRow {
+  purchase_price_cents: number | null;
+  purchase_date: string | null;
+  currency: string | null;
+  estimated_value_cents: number | null;
+}
+
+/** Valuation fields as returned by the API. */
+export interface ValuationPayload {
+  purchase_price: number | null;
+  purchase_date: string | null;
+  currency: string | null;
+  estimated_value: number | null;
+}
+
+export interface ValueHistoryRow {
+  id: string;
+  item_id: string;
+  value_cents: number | null;
+  currency: string;
+  recorded_at: number;
+}
+
+/** Select list for the valuation columns, optionally prefixed with a table alias. */
+export function valuationColumns(alias?: string): string {
+  const prefix = alias ? `${alias}.` : "";
+  return ["purchase_price_cents", "purchase_date", "currency", "estimated_value_cents"]
+    .map((column) => `${prefix}${column}`)
+    .join(", ");
+}
+
+export const EMPTY_VALUATION: ItemValuation = {
+  purchasePriceCents: null,
+  purchaseDate: null,
+  currency: null,
+  estimatedValueCents: null,
+};
+
+export function centsToAmount(cents: number | null): number | null {
+  return cents === null ? null : cents / 100;
+}
+
+/**
+ * Parse a submitted amount. Multipart forms send amounts as strings.
+ */
+function parseAmount(label: string, value: unknown): { cents: number | null } | { error: string } {
+  if (value === null || (typeof value === "string" && !value.trim())) {
+    return { cents: null };
+  }
+  const amount = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0) {
+    return { error: `${label} must be a positive amount` };
+  }
+  if (amount > MAX_AMOUNT) {
+    return { error: `${label} is too large` };
+  }
+  return { cents: Math.round(amount * 100) };
+}
+
+/**
+ * Validate valuation fields from a request body.
+ * Fields that are absent are left out of the result so updates only touch
+ * what the client sent; null or empty values clear a field.
+ */
+export function parseValuationInput(
+  input: Record<string, unknown>
+): { valuation: Partial<ItemValuation> } | { error: string } {
+  const valuation: Partial<ItemValuation> = {};
+
+  if (input.purchasePrice !== undefined) {
+    const parsed = parseAmount("Purchase price", input.purchasePrice);
+    if ("error" in parsed) return parsed;
+    valuation.purchasePriceCents = parsed.cents;
+  }
+
+  if (input.estimatedValue !== undefined) {
+    const parsed = parseAmount("Estimated value", input.estimatedValue);
+    if ("error" in parsed) return parsed;
+    valuation.estimatedValueCents = parsed.cents;
+  }
+
+  if (input.purchaseDate !== undefined) {
+    const date = typeof input.purchaseDate === "string" ? input.purchaseDate.trim() : "";
+    if (input.purchaseDate === null || !date) {
+      valuation.purchaseDate = null;
+    } else {
+      const parsed = DATE_PATTERN.test(date) ? new Date(`${date}T00:00:00Z`) : null;
+      if (!parsed || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+        return { error: "Purchase date must be a date (YYYY-MM-DD)" };
+      }
+      valuation.purchaseDate = date;
+    }
+  }
+
+  if (input.currency !== undefined) {
+    const currency = typeof input.currency === "string" ? input.currency.trim().toUpperCase() : "";
+    if (input.currency === null || !currency) {
+      valuation.currency = null;
+    } else if (!CURRENCY_PATTERN.test(currency)) {
+      return { error: "Currency must be a three-letter code such as USD" };
+    } else {
+      valuation.currency = currency;
+    }
+  }
+
+  return { valuation };
+}
+
+/**
+ * Apply submitted changes to an item's current valuation.
+ * Items with an amount always carry a currency.
+ */
+export function applyValuation(current: ItemValuation, changes: Partial<ItemValuation>): ItemValuation {
+  const next = { ...current, ...changes };
+  if (!next.currency && (next.purchasePriceCents !== null || next.estimatedValueCents !== null)) {
+    next.currency = DEFAULT_CURRENCY;
+  }
+  return next;
+}
+
+export function valuationFromRow(row: ValuationRow): ItemValuation {
+  return {
+    purchasePriceCents: row.purchase_price_cents,
+    purchaseDate: row.purchase_date,
+    currency: row.currency,
+    estimatedValueCents: row.estimated_value_cents,
+  };
+}
+
+export function valuationPayload(valuation: ItemValuation): ValuationPayload {
+  return {
+    purchase_price: centsToAmount(valuation.purchasePriceCents),
+    purchase_date: valuation.purchaseDate,
+    currency: valuation.currency,
+    estimated_value: centsToAmount(valuation.estimatedValueCents),
+  };
+}
+
+/**
+ * What an item is currently worth: its estimate, or failing that what was paid.
+ */
+export function effectiveValueCents(valuation: ItemValuation): number | null {
+  return valuation.estimatedValueCents ?? valuation.purchasePriceCents;
+}
+
+export interface ValueChange {
+  /** Null for newly created items. */
+  previous: { valueCents: number | null; currency: string } | null;
+  next: { valueCents: number | null; currency: string };
+}
+
+/**
+ * Compare an item's value before and after an edit. Returns null when the
+ * value did not change. `before` is null for newly created items.
+ */
+export function valueChange(before: ItemValuation | null, after: ItemValuation): ValueChange | null {
+  const previousValue = before ? effectiveValueCents(before) : null;
+  const nextValue = effectiveValueCents(after);
+  const currency = after.currency || before?.currency || DEFAULT_CURRENCY;
+
+  if (previousValue === nextValue && (nextValue === null || before?.currency === after.currency)) {
+    return null;
+  }
+
+  return {
+    previous: before ? { valueCents: previousValue, currency: before.currency || currency } : null,
+    next: { valueCents: nextValue, currency },
+  };
+}
+
+/**
+ * Build the history insert for a valuation change, or null when the item's
+ * value did not change. `before` is null for newly created items.
+ */
+export function valueHistoryStatement(
+  db: D1Database,
+  itemId: string,
+  before: ItemValuation | null,
+  after: ItemValuation
+): D1PreparedStatement | null {
+  const change = valueChange(before, after);
+  if (!change) {
+    return null;
+  }
+
+  return db.prepare(
+    "INSERT INTO item_value_history (id, item_id, value_cents, currency, recorded_at) VALUES (?, ?, ?, ?, ?)"
+  ).bind(crypto.randomUUID(), itemId, change.next.valueCents, change.next.currency, Math.floor(Date.now() / 1000));
+}
+
+/**
+ * End-of-month timestamps for the last `months` months, ending with `now`.
+ */
+export function monthlyReportPoints(months: number, now: number): number[] {
+  const current = new Date(now * 1000);
+  const points: number[] = [];
+  for (let offset = months - 1; offset >= 1; offset--) {
+    // Day 0 of the following month is the last day of the target month
+    const endOfMonth = Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - offset + 1, 0, 23, 59, 59);
+    points.push(Math.floor(endOfMonth / 1000));
+  }
+  points.push(now);
+  return points;
+}
+
+/**
+ * Total the value of a collection at each point in time, per currency.
+ * Each item counts with the latest value recorded at or before the point,
+ * as long as it was owned then: the latest status change at or before the
+ * point decides, and items with no status change yet count as owned.
+ * History rows must be sorted by recorded_at, status rows by changed_at.
+ */
+export function buildValueTimeline(
+  history: ValueHistoryRow[],
+  points: number[],
+  statusHistory: Pick<StatusHistoryRow, "item_id" | "to_status" | "changed_at">[] = []
+): { at: number; totals: Record<string, number> }[] {
+  const latest = new Map<string, ValueHistoryRow>();
+  const statuses = new Map<string, string>();
+  const timeline: { at: number; totals: Record<string, number> }[] = [];
+  let cursor = 0;
+  let statusCursor = 0;
+
+  for (const at of points) {
+    while (cursor < history.length && history[cursor].recorded_at <= at) {
+      latest.set(history[cursor].item_id, history[cursor]);
+      cursor++;
+    }
+    while (statusCursor < statusHistory.length && statusHistory[statusCursor].changed_at <= at) {
+      statuses.set(statusHistory[statusCursor].item_id, statusHistory[statusCursor].to_status);
+      statusCursor++;
+    }
+
+    const totalsCents: Record<string, number> = {};
+    for (const entry of latest.values()) {
+      if (entry.value_cents === null) continue;
+      if ((statuses.get(entry.item_id) ?? "owned") !== "owned") continue;
+      totalsCents[entry.currency] = (totalsCents[entry.currency] || 0) + entry.value_cents;
+    }
+
+    const totals: Record<string, number> = {};
+    for (const [currency, cents] of Object.entries(totalsCents)) {
+      totals[currency] = cents / 100;
+    }
+    timeline.push({ at, totals });
+  }
+
+  return timeline;
+}
+
+export interface CurrencyTotal {
+  currency: string;
+  /** Sum of each item's estimate, or purchase price when there is no estimate. */
+  value: number;
+  purchase_cost: number;
+  items: number;
+}
+
+/**
+ * Total a set of item valuations per currency. Amounts in different
+ * currencies are never converted or combined; unvalued items are skipped.
+ */
+export function summarizeValuations(valuations: ItemValuation[]): CurrencyTotal[] {
+  const byCurrency = new Map<string, { valueCents: number; purchaseCostCents: number; items: number }>();
+
+  for (const valuation of valuations) {
+    const value = effectiveValueCents(valuation);
+    if (value === null) continue;
+
+    const currency = valuation.currency || DEFAULT_CURRENCY;
+    const total = byCurrency.get(currency) ?? { valueCents: 0, purchaseCostCents: 0, items: 0 };
+    total.valueCents += value;
+    total.purchaseCostCents += valuation.purchasePriceCents ?? 0;
+    total.items++;
+    byCurrency.set(currency, total);
+  }
+
+  return Array.from(byCurrency.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, total]) => ({
+      currency,
+      value: total.valueCents / 100,
+      purchase_cost: total.purchaseCostCents / 100,
+      items: total.items,
+    }));
+}
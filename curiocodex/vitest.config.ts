@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// Worker tests run in Node against in-memory fakes of the Cloudflare bindings
+// (see src/worker/test/bindings.ts), so the Cloudflare Vite plugin is not loaded here.
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
+});